@@ -0,0 +1,41 @@
+-- Activity definitions (Axe Quacks)
+-- Rows override the built-in Axe Throwing / Duckpin Bowling / Combo Package definitions by key
+-- (see BUILT_IN_ACTIVITIES in src/lib/activities.ts) or add new attractions.
+-- resources: [{ "type": "VR", "maxParty": [4, 8] }] -- resources.type to reserve; maxParty = max guests for 1, 2... units.
+--   AXE/DUCKPIN without maxParty use the rate card thresholds.
+-- price_points: [{ "minutes": 60, "cents": 3000 }] per price_unit (PERSON or RESOURCE); ignored for built-in keys,
+--   which are priced by the rate card.
+-- transition_minutes: changeover gap between the two segments of a combo (e.g. walking from the lanes to the axe bays).
+
+create table if not exists public.activity_definitions (
+  key text primary key,
+  name text not null unique,
+  resources jsonb not null default '[]'::jsonb,
+  durations int[] not null default '{60}',
+  transition_minutes int not null default 0 check (transition_minutes >= 0),
+  max_party_size int not null default 24,
+  requires_waiver boolean not null default false,
+  price_unit text not null default 'PERSON' check (price_unit in ('PERSON', 'RESOURCE')),
+  price_points jsonb not null default '[]'::jsonb,
+  sort_order int not null default 100,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- bookings.activity stores activity_definitions.key; widen it if it was created as an enum.
+alter table if exists public.bookings
+  alter column activity type text using activity::text;
+
+alter table if exists public.activity_definitions
+  add column if not exists transition_minutes int not null default 0 check (transition_minutes >= 0);
+
+-- Combo segment lengths as booked. Rows without them are legacy 60/60 combos with no gap.
+alter table if exists public.bookings add column if not exists combo_axe_minutes int;
+alter table if exists public.bookings add column if not exists combo_duckpin_minutes int;
+alter table if exists public.bookings add column if not exists combo_transition_minutes int;
+
+-- Example: a VR bay, one headset per 4 guests, priced per headset.
+-- insert into public.activity_definitions (key, name, resources, durations, max_party_size, price_unit, price_points, sort_order)
+-- values ('VR', 'VR Arena', '[{"type":"VR","maxParty":[4,8]}]', '{30,60}', 8, 'RESOURCE',
+--         '[{"minutes":30,"cents":2500},{"minutes":60,"cents":4000}]', 40);
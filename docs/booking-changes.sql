@@ -0,0 +1,12 @@
+-- Booking change queue (Axe Quacks)
+-- POST /api/bookings/changes files a PENDING RESCHEDULE / CANCEL / REFUND request. Staff work the queue at
+-- /staff/changes: approving performs the change (re-reserves resources, cancels, or refunds through Stripe),
+-- denying just closes it; either way the customer is emailed.
+-- status: PENDING -> APPROVED | DENIED. COMPLETED = applied by the customer from /manage, never queued.
+
+alter table public.booking_changes add column if not exists requested_date_key text; -- RESCHEDULE: yyyy-mm-dd
+alter table public.booking_changes add column if not exists requested_start_min int; -- RESCHEDULE: minutes from midnight
+alter table public.booking_changes add column if not exists processed_by text; -- staff_users.staff_id
+alter table public.booking_changes add column if not exists decision_note text; -- shown to the customer
+
+create index if not exists booking_changes_status_idx on public.booking_changes (status, requested_at);
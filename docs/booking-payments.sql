@@ -0,0 +1,68 @@
+-- Split payments (Axe Quacks)
+-- A booking can be paid in several parts of any tender: part cash, part card, part gift certificate, or a bill
+-- split evenly across cards at the terminal. Every payment applied to a booking gets a booking_payments row;
+-- a part payment lowers bookings.balance_due_cents (docs/deposits.sql) and the part that clears it marks the
+-- booking paid, so the balance flows (Collect Balance, balance links, refunds) work the same after a deposit.
+-- Card rows dedupe on payment_intent_id and gift rows on gift_redemption_id, because finalize and the Stripe
+-- webhook can both record the same payment. Cash rows dedupe on idempotency_key, a key the pay screen sends with
+-- each cash payment so a retried request isn't taken twice. split_index/split_count number the shares of an
+-- even split. apply_booking_part_payment lowers the balance under a row lock, so two parts paid at the same
+-- moment (two cards at the terminal, cash while a share link is paid) can't both start from the same balance.
+
+create table if not exists public.booking_payments (
+  id uuid primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  tender text not null check (tender in ('CARD', 'CASH', 'GIFT')),
+  amount_cents int not null check (amount_cents >= 0), -- applied to the booking; excludes card fee, tip and tab
+  tip_cents int not null default 0,
+  card_fee_cents int not null default 0,
+  payment_intent_id text unique,
+  gift_redemption_id uuid unique references public.gift_certificate_redemptions(id) on delete set null,
+  idempotency_key text unique,
+  split_index int,
+  split_count int,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists booking_payments_booking_idx on public.booking_payments (booking_id, created_at);
+
+-- Lowers the booking's outstanding amount (balance_due_cents, or the whole total until a first part is paid) by
+-- p_amount_cents and returns what's left; the part that clears it marks the booking paid. Null = no such booking.
+create or replace function public.apply_booking_part_payment(
+  p_booking_id uuid,
+  p_amount_cents int,
+  p_payment_intent_id text default null -- card charge that settles the balance, kept in balance_payment_intent_id
+) returns int
+language plpgsql
+as $$
+declare
+  outstanding int;
+  remaining int;
+begin
+  select case
+      when b.paid then 0
+      else coalesce(nullif(greatest(b.balance_due_cents, 0), 0), greatest(coalesce(b.total_cents, 0), 0))
+    end
+  into outstanding
+  from public.bookings b
+  where b.id = p_booking_id
+  for update;
+  if not found then
+    return null;
+  end if;
+
+  remaining := greatest(0, outstanding - greatest(coalesce(p_amount_cents, 0), 0));
+  if remaining > 0 then
+    update public.bookings set balance_due_cents = remaining where id = p_booking_id;
+  else
+    update public.bookings
+    set paid = true,
+      balance_due_cents = 0,
+      balance_paid_at = now(),
+      balance_payment_intent_id = coalesce(p_payment_intent_id, balance_payment_intent_id)
+    where id = p_booking_id;
+  end if;
+  return remaining;
+end;
+$$;
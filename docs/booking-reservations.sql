@@ -0,0 +1,355 @@
+-- Booking reservations (Axe Quacks)
+-- reserve_booking_resources seats a booking that has just been inserted: for each need it picks free, active
+-- resources of the type at the booking's location and inserts the resource_reservations rows, all in one
+-- transaction under a per-location advisory lock, so two bookings can't both take the last free lane or bay.
+-- src/lib/server/bookingService.ts calls it for every booking (any activity, any location). With p_replace it also
+-- drops the booking's current reservations first, in the same transaction, which is how reschedules move a booking
+-- (src/lib/server/bookingReschedule.ts): if the new time doesn't fit, the booking keeps its old seats.
+-- create_slot_hold records a checkout hold (docs/slot-holds.sql) under the same lock, after checking that what it
+-- holds is still free. Bookings count other sessions' checkout holds and waitlist claim holds (docs/waitlist.sql)
+-- as taken, so a held slot can't be sold from under the customer holding it.
+-- move_resource_reservations re-seats existing reservations (day re-optimization, downtime re-homing, staff
+-- reassignment) under the same lock, so a move can't land on a resource another booking has just taken.
+-- All of them treat resource_downtime and resource-targeted blackout rules (docs/recurring-blackouts.sql) as busy,
+-- so nothing is ever seated on an out-of-service or blacked-out resource.
+-- Needs docs/locations.sql, docs/resource-allocation.sql (resource_reservations.pinned), docs/resource-downtime.sql,
+-- docs/recurring-blackouts.sql, docs/slot-holds.sql and docs/waitlist.sql.
+--
+-- p_needs: [{ "type": "AXE", "count": 2, "start_ts": "...", "end_ts": "...", "preferred": ["<uuid>", ...] },
+--           { "type": "PARTY", "count": 1, "resource_id": "<uuid>", "start_ts": "...", "end_ts": "..." }]
+-- A need with resource_id takes exactly that resource (party areas are chosen by name). Otherwise resources are
+-- taken in `preferred` order first (the best-fit pick from src/lib/server/resourceAllocation.ts, re-checked here
+-- under the lock), then by sort_order for any preferred resource taken in the meantime.
+-- When a need can't be met nothing is reserved and the call raises exclusion_violation (23P01), the same error
+-- the app already reports as "that time just got booked".
+
+-- Serializes reservation changes at one location until the calling transaction ends.
+create or replace function public.lock_location_reservations(p_location_id uuid) returns void
+language plpgsql
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('resource_reservations:' || coalesce(p_location_id::text, '')));
+end;
+$$;
+
+-- Whether a blackout rule aimed at the resource covers any of [p_start, p_end). Same matching as
+-- src/lib/blackouts.ts: the rule's days (range, weekdays, skipped days) and times are wall-clock in the
+-- resource's location timezone (the default location's for legacy rows without one).
+create or replace function public.resource_blacked_out(
+  p_resource_id uuid,
+  p_start timestamptz,
+  p_end timestamptz
+) returns boolean
+language sql
+stable
+as $$
+  with zone as (
+    select coalesce(
+      (select l.timezone from public.resources r join public.locations l on l.id = r.location_id
+       where r.id = p_resource_id),
+      (select l.timezone from public.locations l where l.is_default limit 1),
+      'America/New_York'
+    ) as tz
+  )
+  select exists (
+    select 1
+    from zone, public.blackout_rules br
+    cross join lateral generate_series(
+      greatest(br.date_key::date, (p_start at time zone zone.tz)::date)::timestamp,
+      least(coalesce(br.end_date_key, br.date_key)::date, (p_end at time zone zone.tz)::date)::timestamp,
+      interval '1 day'
+    ) as day
+    where br.resource_ids @> array[p_resource_id]
+      and not (to_char(day, 'YYYY-MM-DD') = any(coalesce(br.except_date_keys, '{}')))
+      and (coalesce(cardinality(br.weekdays), 0) = 0 or extract(dow from day)::int = any(br.weekdays))
+      and (day + make_interval(mins => coalesce(br.start_min, 0))) at time zone zone.tz < p_end
+      and (day + make_interval(mins => coalesce(br.end_min, 24 * 60))) at time zone zone.tz > p_start
+  );
+$$;
+
+-- Active resources of a type (or just p_resource_id) at a location with no live reservation, downtime or
+-- resource blackout over [p_start, p_end), in p_preferred order and then sort order.
+create or replace function public.free_resource_ids(
+  p_location_id uuid, -- null = no location filter (single site without a locations row)
+  p_include_unassigned boolean, -- default location: legacy rows with a null location_id count as its own
+  p_type text,
+  p_resource_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_preferred uuid[] default '{}'
+) returns uuid[]
+language sql
+stable
+as $$
+  select coalesce(array_agg(free.id order by free.rank), '{}')
+  from (
+    select
+      r.id,
+      row_number() over (
+        order by array_position(p_preferred, r.id) nulls last, r.sort_order, r.id
+      ) as rank
+    from public.resources r
+    where (case when p_resource_id is null then r.type = p_type else r.id = p_resource_id end)
+      and coalesce(r.active, true)
+      and (p_location_id is null or r.location_id = p_location_id or (p_include_unassigned and r.location_id is null))
+      and not exists (
+        select 1
+        from public.resource_reservations rr
+        join public.bookings b on b.id = rr.booking_id
+        where rr.resource_id = r.id
+          and b.status is distinct from 'CANCELLED'
+          and rr.start_ts < p_end
+          and rr.end_ts > p_start
+      )
+      and not exists (
+        select 1
+        from public.resource_downtime d
+        where d.resource_id = r.id and d.start_ts < p_end and d.end_ts > p_start
+      )
+      and not public.resource_blacked_out(r.id, p_start, p_end)
+  ) free;
+$$;
+
+-- Units of a resource type (or holds on p_resource_id) taken over [p_start, p_end) by unexpired checkout holds and
+-- waitlist claims at a location; the caller's own hold and claim don't count.
+create or replace function public.held_resource_units(
+  p_location_id uuid,
+  p_include_unassigned boolean,
+  p_type text,
+  p_resource_id uuid,
+  p_start timestamptz,
+  p_end timestamptz,
+  p_hold_token text default null,
+  p_waitlist_token text default null
+) returns int
+language sql
+stable
+as $$
+  select coalesce(sum(coalesce((held.item->>'count')::int, 1)), 0)::int
+  from (
+    select h.location_id, item
+    from public.slot_holds h, jsonb_array_elements(h.resources) item
+    where h.status = 'HELD'
+      and h.expires_at > now()
+      and h.token is distinct from p_hold_token
+    union all
+    select w.location_id, item
+    from public.waitlist_entries w, jsonb_array_elements(w.held_resources) item
+    where w.status = 'NOTIFIED'
+      and w.claim_expires_at > now()
+      and w.claim_token is distinct from p_waitlist_token
+  ) held
+  where (
+      p_location_id is null
+      or held.location_id = p_location_id
+      or (p_include_unassigned and held.location_id is null)
+    )
+    and (
+      case
+        when p_resource_id is null then held.item->>'type' = p_type and nullif(held.item->>'resource_id', '') is null
+        else held.item->>'resource_id' = p_resource_id::text
+      end
+    )
+    and (held.item->>'start_ts')::timestamptz < p_end
+    and (held.item->>'end_ts')::timestamptz > p_start;
+$$;
+
+drop function if exists public.reserve_booking_resources(uuid, uuid, boolean, jsonb);
+drop function if exists public.reserve_booking_resources(uuid, uuid, boolean, jsonb, text, text);
+
+create or replace function public.reserve_booking_resources(
+  p_booking_id uuid,
+  p_location_id uuid,
+  p_include_unassigned boolean,
+  p_needs jsonb,
+  p_hold_token text default null, -- the checkout hold this booking replaces
+  p_waitlist_token text default null, -- the waitlist claim this booking fulfils
+  p_replace boolean default false -- reschedule: release the booking's current reservations first
+) returns void
+language plpgsql
+as $$
+declare
+  need jsonb;
+  need_type text;
+  need_resource uuid;
+  need_count int;
+  need_start timestamptz;
+  need_end timestamptz;
+  free uuid[];
+  held int;
+begin
+  perform public.lock_location_reservations(p_location_id);
+
+  if p_replace then
+    delete from public.resource_reservations where booking_id = p_booking_id;
+  end if;
+
+  for need in select value from jsonb_array_elements(coalesce(p_needs, '[]'::jsonb)) loop
+    need_type := need->>'type';
+    need_resource := nullif(need->>'resource_id', '')::uuid;
+    need_count := case when need_resource is null then coalesce((need->>'count')::int, 0) else 1 end;
+    need_start := (need->>'start_ts')::timestamptz;
+    need_end := (need->>'end_ts')::timestamptz;
+    continue when need_count <= 0;
+
+    free := public.free_resource_ids(
+      p_location_id, p_include_unassigned, need_type, need_resource, need_start, need_end,
+      array(select jsonb_array_elements_text(coalesce(need->'preferred', '[]'::jsonb)))::uuid[]
+    );
+    held := public.held_resource_units(
+      p_location_id, p_include_unassigned, need_type, need_resource, need_start, need_end,
+      p_hold_token, p_waitlist_token
+    );
+
+    if coalesce(array_length(free, 1), 0) - held < need_count then
+      if need_resource is not null then
+        raise exception 'Selected % is unavailable',
+          case when need_type = 'PARTY' then 'party area' else lower(coalesce(need_type, 'resource')) end
+          using errcode = '23P01';
+      end if;
+      raise exception 'Not enough % resources available', need_type using errcode = '23P01';
+    end if;
+
+    insert into public.resource_reservations (booking_id, resource_id, start_ts, end_ts)
+    select p_booking_id, unnest(free[1:need_count]), need_start, need_end;
+  end loop;
+end;
+$$;
+
+-- Inserts a HELD slot_holds row when every need in p_resources (slot_holds.resources format) still fits once
+-- bookings, downtime and other holds are taken out; returns false, holding nothing, when one doesn't.
+create or replace function public.create_slot_hold(
+  p_location_id uuid,
+  p_include_unassigned boolean,
+  p_date_key text,
+  p_token text,
+  p_resources jsonb,
+  p_expires_at timestamptz,
+  p_waitlist_token text default null -- the customer's own waitlist claim, which doesn't block them
+) returns boolean
+language plpgsql
+as $$
+declare
+  need jsonb;
+  need_resource uuid;
+  need_count int;
+  need_start timestamptz;
+  need_end timestamptz;
+begin
+  perform public.lock_location_reservations(p_location_id);
+
+  for need in select value from jsonb_array_elements(coalesce(p_resources, '[]'::jsonb)) loop
+    need_resource := nullif(need->>'resource_id', '')::uuid;
+    need_count := case when need_resource is null then coalesce((need->>'count')::int, 0) else 1 end;
+    need_start := (need->>'start_ts')::timestamptz;
+    need_end := (need->>'end_ts')::timestamptz;
+    continue when need_count <= 0;
+
+    if coalesce(array_length(public.free_resource_ids(
+         p_location_id, p_include_unassigned, need->>'type', need_resource, need_start, need_end
+       ), 1), 0)
+       - public.held_resource_units(
+         p_location_id, p_include_unassigned, need->>'type', need_resource, need_start, need_end,
+         null, p_waitlist_token
+       ) < need_count then
+      return false;
+    end if;
+  end loop;
+
+  insert into public.slot_holds (location_id, date_key, token, resources, expires_at)
+  values (p_location_id, p_date_key, p_token, coalesce(p_resources, '[]'::jsonb), p_expires_at);
+  return true;
+end;
+$$;
+
+-- Each target must be an active resource of the same type and location as the one the reservation is on.
+-- The moves are then applied and checked: if a moved reservation now overlaps a live one (its booking isn't
+-- cancelled), downtime, a resource blackout or a live hold (a hold on the resource itself, or type holds that no
+-- longer fit in what's left free), the call raises 23P01 and nothing moves. Swaps between bookings in one call
+-- are fine.
+-- p_pin marks the moved rows as placed by hand, so the day optimizer leaves them alone.
+create or replace function public.move_resource_reservations(
+  p_location_id uuid,
+  p_moves jsonb, -- [{ "reservation_id": "<uuid>", "resource_id": "<uuid>" }]
+  p_pin boolean default false
+) returns void
+language plpgsql
+as $$
+declare
+  include_unassigned boolean;
+begin
+  perform public.lock_location_reservations(p_location_id);
+  include_unassigned := exists (select 1 from public.locations l where l.id = p_location_id and l.is_default);
+
+  if exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_moves, '[]'::jsonb)) move
+    join public.resource_reservations rr on rr.id = (move->>'reservation_id')::uuid
+    join public.resources cur on cur.id = rr.resource_id
+    left join public.resources target on target.id = (move->>'resource_id')::uuid
+    where target.id is null
+      or not coalesce(target.active, true)
+      or target.type is distinct from cur.type
+      or target.location_id is distinct from cur.location_id
+      or not (
+        p_location_id is null
+        or target.location_id = p_location_id
+        or (include_unassigned and target.location_id is null)
+      )
+  ) then
+    raise exception 'Selected resource can''t take this reservation' using errcode = '23P01';
+  end if;
+
+  update public.resource_reservations rr
+  set resource_id = (move->>'resource_id')::uuid,
+      pinned = rr.pinned or p_pin
+  from jsonb_array_elements(coalesce(p_moves, '[]'::jsonb)) move
+  where rr.id = (move->>'reservation_id')::uuid;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_moves, '[]'::jsonb)) move
+    join public.resource_reservations moved on moved.id = (move->>'reservation_id')::uuid
+    join public.resource_reservations other
+      on other.resource_id = moved.resource_id
+      and other.id <> moved.id
+      and other.start_ts < moved.end_ts
+      and other.end_ts > moved.start_ts
+    join public.bookings b on b.id = other.booking_id
+    where b.status is distinct from 'CANCELLED'
+  ) then
+    raise exception 'Selected resource is already booked' using errcode = '23P01';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_moves, '[]'::jsonb)) move
+    join public.resource_reservations moved on moved.id = (move->>'reservation_id')::uuid
+    where exists (
+        select 1
+        from public.resource_downtime d
+        where d.resource_id = moved.resource_id and d.start_ts < moved.end_ts and d.end_ts > moved.start_ts
+      )
+      or public.resource_blacked_out(moved.resource_id, moved.start_ts, moved.end_ts)
+  ) then
+    raise exception 'Selected resource is out of service' using errcode = '23P01';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_moves, '[]'::jsonb)) move
+    join public.resource_reservations moved on moved.id = (move->>'reservation_id')::uuid
+    join public.resources r on r.id = moved.resource_id
+    where public.held_resource_units(
+        p_location_id, include_unassigned, r.type, r.id, moved.start_ts, moved.end_ts
+      ) > 0
+      or coalesce(array_length(public.free_resource_ids(
+        p_location_id, include_unassigned, r.type, null, moved.start_ts, moved.end_ts
+      ), 1), 0) < public.held_resource_units(
+        p_location_id, include_unassigned, r.type, null, moved.start_ts, moved.end_ts
+      )
+  ) then
+    raise exception 'Selected resource is held for another customer' using errcode = '23P01';
+  end if;
+end;
+$$;
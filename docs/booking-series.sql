@@ -0,0 +1,38 @@
+-- Recurring booking series (Axe Quacks)
+-- Leagues and standing reservations: a weekly rule (e.g. every Thursday 7–9 PM, party of 24, 10 weeks) whose
+-- occurrences are ordinary bookings stamped with series_id / series_index. Each occurrence is checked up
+-- front (store hours, blackouts, free resources); staff create the clear ones and can then move or cancel
+-- one occurrence or every upcoming one. Cancelling the series marks it CANCELLED; past occurrences stay.
+
+create table if not exists public.booking_series (
+  id uuid primary key default gen_random_uuid(),
+  location_id uuid references public.locations(id), -- null = default location
+  name text not null,
+  activity text not null, -- activity_definitions.key
+  party_size int not null check (party_size > 0),
+  start_date_key text not null, -- first occurrence, yyyy-mm-dd in the location's timezone
+  start_min int not null,
+  duration_minutes int not null,
+  interval_weeks int not null default 1 check (interval_weeks between 1 and 4),
+  occurrences int not null check (occurrences between 1 and 52),
+  combo_axe_minutes int,
+  combo_duckpin_minutes int,
+  combo_order text check (combo_order in ('DUCKPIN_FIRST', 'AXE_FIRST')),
+  customer_name text not null,
+  customer_email text,
+  customer_phone text,
+  total_cents_override int, -- per occurrence
+  paid boolean not null default false,
+  notes text,
+  status text not null default 'ACTIVE' check (status in ('ACTIVE', 'CANCELLED')),
+  created_by text, -- staff_users.staff_id
+  created_at timestamptz not null default now()
+);
+
+create index if not exists booking_series_location_idx on public.booking_series (location_id, status);
+
+alter table public.bookings add column if not exists series_id uuid
+  references public.booking_series(id) on delete set null;
+alter table public.bookings add column if not exists series_index int; -- 1-based position in the series
+
+create index if not exists bookings_series_idx on public.bookings (series_id, series_index);
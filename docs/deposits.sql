@@ -0,0 +1,23 @@
+-- Deposits and pay-later balances (Axe Quacks)
+-- Parties of booking_policies.deposit_party_size or more may pay deposit_percent of the total online and the
+-- rest later (deposit_party_size null or 0 = deposits off). The shared rule lives in src/lib/deposits.ts.
+-- A booking paid by deposit keeps paid = false with deposit_cents collected and balance_due_cents outstanding.
+-- The balance is taken at the terminal (booking_payment_intent), in cash, by gift certificate or through the
+-- booking's payment link; that clears balance_due_cents, stamps balance_paid_at and sets paid = true.
+-- payment_intent_id stays the deposit charge; the balance card charge is kept in balance_payment_intent_id.
+-- Event requests follow the same split: payment_status 'DEPOSIT_PAID' until the balance is collected.
+
+alter table public.booking_policies add column if not exists deposit_party_size int;
+alter table public.booking_policies add column if not exists deposit_percent int not null default 25;
+
+alter table public.bookings
+  add column if not exists deposit_cents int not null default 0,
+  add column if not exists balance_due_cents int not null default 0,
+  add column if not exists balance_paid_at timestamptz,
+  add column if not exists balance_payment_intent_id text;
+
+create index if not exists bookings_balance_due_idx on public.bookings (start_ts) where balance_due_cents > 0;
+
+alter table public.event_requests
+  add column if not exists deposit_cents int not null default 0,
+  add column if not exists balance_due_cents int not null default 0;
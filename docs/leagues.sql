@@ -0,0 +1,69 @@
+-- Duckpin leagues (Axe Quacks)
+-- A league runs on a recurring booking series (docs/booking-series.sql): week N is the series' Nth
+-- occurrence. Teams hold rosters of customers; the schedule pairs teams round-robin, one match per lane
+-- each week. Staff enter each bowler's pins per game; standings award 1 point per game won (ties 0.5)
+-- and 1 for the higher handicapped series total. A bowler's handicap for week N is
+-- handicap_percent% of (handicap_base - their average over weeks before N), never below 0.
+-- Public standings: /leagues/<slug>. Weekly recaps are emailed to rosters once a week has scores
+-- (GET /api/cron/league-recaps, CRON_SECRET); league_recaps keeps each week from being sent twice.
+
+create table if not exists public.leagues (
+  id uuid primary key default gen_random_uuid(),
+  location_id uuid references public.locations(id), -- null = default location
+  series_id uuid references public.booking_series(id) on delete set null,
+  name text not null,
+  slug text not null unique,
+  games_per_week int not null default 3 check (games_per_week between 1 and 5),
+  handicap_base int not null default 200,
+  handicap_percent int not null default 80 check (handicap_percent between 0 and 100),
+  status text not null default 'ACTIVE' check (status in ('ACTIVE', 'COMPLETED')),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.league_teams (
+  id uuid primary key default gen_random_uuid(),
+  league_id uuid not null references public.leagues(id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.league_team_members (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references public.league_teams(id) on delete cascade,
+  customer_id uuid not null references public.customers(id),
+  created_at timestamptz not null default now(),
+  unique (team_id, customer_id)
+);
+
+create table if not exists public.league_matches (
+  id uuid primary key default gen_random_uuid(),
+  league_id uuid not null references public.leagues(id) on delete cascade,
+  week_number int not null,
+  lane_number int not null,
+  home_team_id uuid not null references public.league_teams(id) on delete cascade,
+  away_team_id uuid not null references public.league_teams(id) on delete cascade,
+  unique (league_id, week_number, lane_number)
+);
+
+create table if not exists public.league_scores (
+  id uuid primary key default gen_random_uuid(),
+  league_id uuid not null references public.leagues(id) on delete cascade,
+  week_number int not null,
+  team_id uuid not null references public.league_teams(id) on delete cascade,
+  customer_id uuid not null references public.customers(id),
+  game_number int not null,
+  pins int not null check (pins between 0 and 300),
+  created_by text, -- staff_users.staff_id
+  updated_at timestamptz not null default now(),
+  unique (league_id, week_number, customer_id, game_number)
+);
+
+create index if not exists league_scores_week_idx on public.league_scores (league_id, week_number);
+
+create table if not exists public.league_recaps (
+  league_id uuid not null references public.leagues(id) on delete cascade,
+  week_number int not null,
+  recipients int not null default 0,
+  sent_at timestamptz not null default now(),
+  primary key (league_id, week_number)
+);
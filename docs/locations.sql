@@ -0,0 +1,70 @@
+-- Locations (Axe Quacks)
+-- Each site has its own timezone, resources, store hours, rate cards, staff and POS inventory.
+-- Rows with a null location_id belong to the default location, so the backfill below is optional
+-- for a single site but required before adding a second one (it makes the per-site unique keys work).
+
+create table if not exists public.locations (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null unique, -- /book?location=<slug>
+  name text not null,
+  timezone text not null default 'America/New_York', -- IANA zone for all wall-clock <-> UTC conversions
+  address text,
+  is_default boolean not null default false,
+  active boolean not null default true,
+  sort_order int not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists locations_single_default_idx on public.locations (is_default) where is_default;
+
+insert into public.locations (slug, name, timezone, is_default, sort_order)
+values ('main', 'Axe Quacks', 'America/New_York', true, 0)
+on conflict (slug) do nothing;
+
+alter table public.resources add column if not exists location_id uuid references public.locations(id);
+alter table public.store_hours_weekly add column if not exists location_id uuid references public.locations(id);
+alter table public.store_hours_seasons add column if not exists location_id uuid references public.locations(id);
+alter table public.store_hours_overrides add column if not exists location_id uuid references public.locations(id);
+alter table public.rate_cards add column if not exists location_id uuid references public.locations(id);
+alter table public.staff_users add column if not exists location_id uuid references public.locations(id); -- home site; null = any
+alter table public.add_ons add column if not exists location_id uuid references public.locations(id);
+alter table public.bookings add column if not exists location_id uuid references public.locations(id);
+alter table public.pos_sales add column if not exists location_id uuid references public.locations(id);
+alter table public.pos_sale_items add column if not exists location_id uuid references public.locations(id);
+alter table public.pos_cash_sales add column if not exists location_id uuid references public.locations(id);
+alter table public.pos_cash_sale_items add column if not exists location_id uuid references public.locations(id);
+
+create index if not exists resources_location_idx on public.resources (location_id, type);
+create index if not exists bookings_location_start_idx on public.bookings (location_id, start_ts);
+
+-- Backfill existing rows to the default location (staff_users stay unassigned).
+do $$
+declare
+  main_id uuid;
+begin
+  select id into main_id from public.locations where is_default limit 1;
+  update public.resources set location_id = main_id where location_id is null;
+  update public.store_hours_weekly set location_id = main_id where location_id is null;
+  update public.store_hours_seasons set location_id = main_id where location_id is null;
+  update public.store_hours_overrides set location_id = main_id where location_id is null;
+  update public.rate_cards set location_id = main_id where location_id is null;
+  update public.add_ons set location_id = main_id where location_id is null;
+  update public.bookings set location_id = main_id where location_id is null;
+  update public.pos_sales set location_id = main_id where location_id is null;
+  update public.pos_sale_items set location_id = main_id where location_id is null;
+  update public.pos_cash_sales set location_id = main_id where location_id is null;
+  update public.pos_cash_sale_items set location_id = main_id where location_id is null;
+end $$;
+
+-- Weekly hours and date overrides are unique per site instead of globally.
+alter table public.store_hours_weekly drop constraint if exists store_hours_weekly_pkey;
+alter table public.store_hours_weekly add column if not exists id uuid not null default gen_random_uuid();
+alter table public.store_hours_weekly add primary key (id);
+alter table public.store_hours_weekly add constraint store_hours_weekly_location_weekday_key unique (location_id, weekday);
+
+alter table public.store_hours_overrides drop constraint if exists store_hours_overrides_date_key_key;
+alter table public.store_hours_overrides
+  add constraint store_hours_overrides_location_date_key unique (location_id, date_key);
+
+-- Bookings reserve location-scoped resources through reserve_booking_resources (docs/booking-reservations.sql),
+-- which takes the location and each need's resource type, so every site books through the same locked path.
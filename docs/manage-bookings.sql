@@ -0,0 +1,10 @@
+-- Customer manage-booking links (Axe Quacks)
+-- The confirmation email links to /manage?token=<manage_token>, where the customer can see the booking and
+-- its waiver status, and reschedule or cancel it themselves while outside the booking_policies windows
+-- (cancel_window_hours / reschedule_window_hours before start). Tokens are created on first email.
+-- Self-service changes are applied immediately and logged in booking_changes as COMPLETED; cancelling a
+-- paid booking also queues a PENDING REFUND change for staff.
+
+alter table public.bookings add column if not exists manage_token text;
+
+create unique index if not exists bookings_manage_token_idx on public.bookings (manage_token);
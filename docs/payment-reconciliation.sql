@@ -0,0 +1,42 @@
+-- Stripe payment reconciliation (Axe Quacks)
+-- Replaces scripts/backfillStripeBookingPaymentIntents.js with a recurring check. Each run compares Stripe's
+-- succeeded payment intents and refunds for a date range (business days at every location, in each one's time
+-- zone) against bookings, pos_sales and event_requests, checks each payout against the balance transactions it
+-- settles (src/lib/server/paymentReconciliation.ts), and stores what doesn't match as reconciliation_issues.
+-- issue_key identifies the same mismatch across runs, so a later run doesn't repeat one still OPEN or IGNORED.
+-- UNPAID_IN_DB, MISSING_INTENT_LINK, PAID_IN_DB_ONLY and REFUND_NOT_RECORDED have one-click fixes at
+-- /staff/reconciliation; AMOUNT_MISMATCH, ORPHAN_INTENT, PAYOUT_FAILED and PAYOUT_MISMATCH can only be reviewed
+-- and ignored.
+
+create table if not exists public.reconciliation_runs (
+  id uuid primary key default gen_random_uuid(),
+  start_date date not null,
+  end_date date not null,
+  status text not null default 'RUNNING' check (status in ('RUNNING', 'COMPLETED', 'FAILED')),
+  summary jsonb,
+  error_message text,
+  created_by text,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create table if not exists public.reconciliation_issues (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null references public.reconciliation_runs(id) on delete cascade,
+  issue_key text not null,
+  kind text not null,
+  source text not null check (source in ('BOOKING', 'POS_SALE', 'EVENT_REQUEST', 'STRIPE')),
+  record_id uuid,
+  payment_intent_id text,
+  stripe_cents int,
+  db_cents int,
+  detail text,
+  status text not null default 'OPEN' check (status in ('OPEN', 'FIXED', 'IGNORED')),
+  resolved_at timestamptz,
+  resolved_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists reconciliation_runs_started_idx on public.reconciliation_runs (started_at desc);
+create index if not exists reconciliation_issues_status_idx on public.reconciliation_issues (status, created_at);
+create index if not exists reconciliation_issues_key_idx on public.reconciliation_issues (issue_key);
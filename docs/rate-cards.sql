@@ -0,0 +1,20 @@
+-- Rate cards (Axe Quacks)
+-- Each save publishes a new version; the active card is the highest version whose effective_at has passed.
+-- config shape: see RateCardConfig in src/lib/rateCard.ts (price points in cents, party-size thresholds,
+-- priceModifiers: [{label, weekdays (Sun=0), startMin, endMin, percent}] for peak/off-peak pricing).
+
+create table if not exists public.rate_cards (
+  id uuid primary key default gen_random_uuid(),
+  version int not null unique,
+  label text,
+  config jsonb not null,
+  effective_at timestamptz not null default now(),
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists rate_cards_effective_idx on public.rate_cards (effective_at);
+
+-- Version each booking was priced with (0 = built-in defaults).
+alter table if exists public.bookings
+  add column if not exists rate_card_version int;
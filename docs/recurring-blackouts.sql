@@ -0,0 +1,19 @@
+-- Recurring and per-resource blackouts (Axe Quacks)
+-- A blackout_rules row used to cover one date_key. It can now also cover a range of days: date_key is the first
+-- day, end_date_key the last. Inside that range it can be limited to some weekdays ("every Monday in January"), and
+-- single days can be skipped with except_date_keys. A row with no end_date_key and no weekdays is the old one-off
+-- rule, so existing rows keep working unchanged.
+-- resource_ids aims a rule at specific lanes, bays or party areas instead of a whole activity (activity stays
+-- 'ALL' for these). A resource rule takes only those resources out of use, like resource_downtime, so the rest of
+-- the activity stays bookable. Staff's blackout override on /book lifts activity-wide rules only. The reservation RPCs
+-- in docs/booking-reservations.sql (resource_blacked_out) skip those resources the same way they skip downtime.
+-- Shared matching lives in src/lib/blackouts.ts. The staff Blackouts page previews the affected days on a calendar.
+
+alter table public.blackout_rules
+  add column if not exists end_date_key text, -- last day of the range; null = date_key only
+  add column if not exists weekdays int[], -- Sun=0 ... Sat=6; null = every day in the range
+  add column if not exists except_date_keys text[] not null default '{}',
+  add column if not exists resource_ids uuid[]; -- null = the whole activity
+
+create index if not exists blackout_rules_range_idx on public.blackout_rules (date_key, end_date_key);
+create index if not exists blackout_rules_resource_ids_idx on public.blackout_rules using gin (resource_ids);
@@ -0,0 +1,23 @@
+-- Refunds as store credit (Axe Quacks)
+-- Staff can refund a booking to the original card (Stripe) or as store credit: a gift certificate for the
+-- booking's customer, linked back to the booking and emailed with sendGiftCertificateEmail.
+-- Every refund is logged in booking_refunds so reports can show card refunds and credit separately.
+
+alter table public.gift_certificates add column if not exists source text; -- REFUND_CREDIT, null = sold/issued
+alter table public.gift_certificates add column if not exists source_booking_id uuid references public.bookings(id) on delete set null;
+
+create table if not exists public.booking_refunds (
+  id uuid primary key default gen_random_uuid(),
+  booking_id uuid not null references public.bookings(id) on delete cascade,
+  method text not null check (method in ('CARD', 'CREDIT')),
+  amount_cents int not null,
+  stripe_refund_id text,
+  gift_certificate_id uuid references public.gift_certificates(id) on delete set null,
+  reason text,
+  override_reason text,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists booking_refunds_booking_idx on public.booking_refunds (booking_id);
+create index if not exists booking_refunds_created_idx on public.booking_refunds (created_at);
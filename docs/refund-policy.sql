@@ -0,0 +1,52 @@
+-- Refund policy enforcement (Axe Quacks)
+-- booking_policies.refund_policy decides the share refunded when a booking is cancelled before the
+-- cancel window: FULL_BEFORE_WINDOW = 100%, PARTIAL_BEFORE_WINDOW = partial_refund_percent, NO_REFUND = 0.
+-- Cancellations inside the window get late_refund_percent. The card fee (retained_fee_percent of the
+-- refund plus retained_fee_cents) is kept from every refund.
+-- Staff refunds above the policy amount need an override reason; the outcome is stored on the booking
+-- in refund_decision: { refund_id, refund_cents, allowed_cents, policy_rule, override_reason, decided_by, decided_at }.
+
+alter table public.booking_policies add column if not exists partial_refund_percent int not null default 50;
+alter table public.booking_policies add column if not exists late_refund_percent int not null default 0;
+alter table public.booking_policies add column if not exists retained_fee_percent numeric(5,2) not null default 0;
+alter table public.booking_policies add column if not exists retained_fee_cents int not null default 0;
+
+alter table public.bookings add column if not exists refund_decision jsonb;
+
+-- A refund claims its amount before any money moves: claim_booking_refund locks the booking, checks that the
+-- refunds already logged leave room under the cap and logs a pending booking_refunds row, so two refunds at the
+-- same moment can't both pass the cap. refundBooking turns that row into the refund it made, or removes it when
+-- nothing was refunded. Stripe refunds are logged once each (a retried request gets the same refund back).
+alter table public.booking_refunds add column if not exists pending boolean not null default false;
+
+create unique index if not exists booking_refunds_stripe_refund_idx
+  on public.booking_refunds (stripe_refund_id)
+  where stripe_refund_id is not null;
+
+create or replace function public.claim_booking_refund(
+  p_booking_id uuid,
+  p_amount_cents int,
+  p_cap_cents int, -- most the booking's refunds may add up to, this one included
+  p_method text,
+  p_reason text,
+  p_override_reason text,
+  p_created_by text
+) returns uuid -- the pending booking_refunds row; null = no room left under the cap
+language plpgsql
+as $$
+declare
+  refunded int;
+  claim_id uuid;
+begin
+  perform 1 from public.bookings where id = p_booking_id for update;
+  select coalesce(sum(amount_cents), 0) into refunded from public.booking_refunds where booking_id = p_booking_id;
+  if refunded + p_amount_cents > p_cap_cents then
+    return null;
+  end if;
+
+  insert into public.booking_refunds (booking_id, method, amount_cents, reason, override_reason, created_by, pending)
+  values (p_booking_id, p_method, p_amount_cents, p_reason, p_override_reason, p_created_by, true)
+  returning id into claim_id;
+  return claim_id;
+end;
+$$;
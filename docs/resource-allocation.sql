@@ -0,0 +1,15 @@
+-- Best-fit resource allocation (Axe Quacks)
+-- New bookings get lanes/bays from src/lib/server/resourceAllocation.ts: parties needing several resources are
+-- seated side by side (by resources.sort_order) and each pick hugs neighbouring reservations so free time
+-- stays in sellable runs. That pick is handed to reserve_booking_resources (docs/booking-reservations.sql) as the
+-- preferred order, and the RPC re-checks it under its lock while inserting the reservations.
+-- Staff can re-optimize a day from /staff/allocation (POST /api/staff/resource-reservations/optimize): preview
+-- first, then apply. Only future reservations move; anything a staff member reassigned by hand is pinned and
+-- left where they put it. Applying goes through move_resource_reservations, which refuses the whole plan if one
+-- of its new seats has been taken since.
+
+alter table public.resource_reservations
+  add column if not exists pinned boolean not null default false; -- set by /api/staff/resource-reservations/reassign
+
+create index if not exists resource_reservations_window_idx
+  on public.resource_reservations (resource_id, start_ts, end_ts);
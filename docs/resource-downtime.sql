@@ -0,0 +1,22 @@
+-- Resource downtime (Axe Quacks)
+-- Takes one lane, bay or party area out of service for a window (a broken pinsetter for the afternoon, a bay
+-- being re-boarded), unlike blackout_rules which close a whole activity. Created and removed from the staff
+-- Bookings timeline (click a resource header).
+-- /api/availability, checkout holds and every resource pick (src/lib/server/resourceAllocation.ts) treat a down
+-- resource as busy, and so do reserve_booking_resources and move_resource_reservations
+-- (docs/booking-reservations.sql), under their lock, so no booking or move lands on a down resource.
+-- Creating downtime moves existing bookings on that resource to another free one of the same type where possible;
+-- the rest (and party areas, which customers pick by name) stay flagged on the timeline for staff to handle.
+
+create table if not exists public.resource_downtime (
+  id uuid primary key default gen_random_uuid(),
+  resource_id uuid not null references public.resources(id) on delete cascade,
+  start_ts timestamptz not null,
+  end_ts timestamptz not null,
+  reason text not null,
+  created_by text, -- staff_users.staff_id
+  created_at timestamptz not null default now(),
+  check (end_ts > start_ts)
+);
+
+create index if not exists resource_downtime_window_idx on public.resource_downtime (resource_id, start_ts, end_ts);
@@ -0,0 +1,27 @@
+-- Checkout holds (Axe Quacks)
+-- Starting Stripe Checkout on /book inserts a HELD row listing what the booking needs. While it is HELD and
+-- unexpired, /api/availability counts those resources as busy for everyone except the customer holding it.
+-- The Stripe session expires a few minutes before the hold does.
+-- Holds are inserted by create_slot_hold (docs/booking-reservations.sql), which re-checks what's free under the
+-- reservation lock; every booking (reserve_booking_resources, same file) counts other sessions' holds as taken.
+-- status: HELD -> CONVERTED (payment created the booking) | RELEASED (checkout cancelled/expired) | EXPIRED (sweeper).
+-- The sweeper (GET /api/cron/release-holds, CRON_SECRET) expires lapsed holds and re-offers those days to the waitlist.
+
+create table if not exists public.slot_holds (
+  id uuid primary key default gen_random_uuid(),
+  location_id uuid references public.locations(id), -- null = default location
+  date_key text not null, -- yyyy-mm-dd in the location's timezone
+  token text not null unique, -- sent back by /book so the holder's own hold doesn't block them
+  status text not null default 'HELD' check (status in ('HELD', 'CONVERTED', 'RELEASED', 'EXPIRED')),
+  -- [{ "type": "AXE", "count": 2, "start_ts": "...", "end_ts": "..." },
+  --  { "type": "PARTY", "count": 1, "resource_id": "<uuid>", "start_ts": "...", "end_ts": "..." }]
+  resources jsonb not null default '[]'::jsonb,
+  checkout_session_id text,
+  booking_id uuid references public.bookings(id) on delete set null,
+  expires_at timestamptz not null,
+  released_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists slot_holds_day_idx on public.slot_holds (location_id, date_key, status, expires_at);
+create index if not exists slot_holds_session_idx on public.slot_holds (checkout_session_id);
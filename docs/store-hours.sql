@@ -0,0 +1,65 @@
+-- Store hours (Axe Quacks)
+-- Resolution order per date: store_hours_overrides > store_hours_seasons > store_hours_weekly.
+-- Closed days keep an open/close window: it is the window staff can book into with an admin override.
+
+create table if not exists public.store_hours_weekly (
+  weekday int primary key check (weekday between 0 and 6), -- Sun=0 ... Sat=6
+  open_min int not null,
+  close_min int not null,
+  closed boolean not null default false,
+  updated_by text,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.store_hours_weekly (weekday, open_min, close_min, closed) values
+  (0, 720, 1260, false),
+  (1, 720, 1200, true),
+  (2, 720, 1200, true),
+  (3, 720, 1200, true),
+  (4, 960, 1320, false),
+  (5, 960, 1380, false),
+  (6, 720, 1380, false)
+on conflict (weekday) do nothing;
+
+create table if not exists public.store_hours_seasons (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  start_date_key text not null,
+  end_date_key text not null,
+  weekdays int[], -- null = every day in range
+  open_min int,
+  close_min int,
+  closed boolean not null default false,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists store_hours_seasons_range_idx on public.store_hours_seasons (start_date_key, end_date_key);
+
+create table if not exists public.store_hours_overrides (
+  id uuid primary key default gen_random_uuid(),
+  date_key text not null unique,
+  open_min int,
+  close_min int,
+  closed boolean not null default false,
+  reason text,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+-- Audit trail for staff bookings placed on closed days / outside the open window.
+create table if not exists public.store_hours_override_logs (
+  id uuid primary key default gen_random_uuid(),
+  booking_id uuid,
+  staff_id text not null,
+  approved_by text,
+  reason text,
+  source text not null, -- route that accepted the override
+  date_key text not null,
+  start_min int not null,
+  end_min int not null,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists store_hours_override_logs_date_idx on public.store_hours_override_logs (date_key);
@@ -0,0 +1,27 @@
+-- Stripe refunds, disputes and failed payments (Axe Quacks)
+-- /api/stripe/webhook reconciles charge.refunded, charge.dispute.* and payment_intent.payment_failed onto the
+-- booking, POS sale or event request that holds the payment intent (src/lib/server/stripePaymentEvents.ts).
+-- Refunds made in the Stripe dashboard are logged in booking_refunds (created_by 'stripe'); a full refund of an
+-- upcoming booking cancels it and frees its resources. POS sales become 'REFUNDED' / 'PARTIALLY_REFUNDED' and
+-- event requests 'REFUNDED'. Chargebacks keep Stripe's dispute id and status; a lost dispute unpays the booking.
+-- Each event goes through the existing webhook_events idempotency table, and the owner is emailed.
+
+alter table public.bookings
+  add column if not exists dispute_id text,
+  add column if not exists dispute_status text,
+  add column if not exists payment_error text;
+
+alter table public.pos_sales
+  add column if not exists refunded_cents int not null default 0,
+  add column if not exists dispute_id text,
+  add column if not exists dispute_status text;
+
+alter table public.event_requests
+  add column if not exists refunded_cents int not null default 0,
+  add column if not exists dispute_id text,
+  add column if not exists dispute_status text,
+  add column if not exists payment_error text;
+
+create index if not exists bookings_payment_intent_idx on public.bookings (payment_intent_id);
+create index if not exists pos_sales_payment_intent_idx on public.pos_sales (payment_intent_id);
+create index if not exists event_requests_payment_intent_idx on public.event_requests (payment_intent_id);
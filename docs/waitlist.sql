@@ -0,0 +1,33 @@
+-- Waitlist (Axe Quacks)
+-- Customers join for a fully booked date/time/activity/party size. When a cancellation or full refund
+-- frees resources, waiting entries for that day are offered the slot in join order: the entry moves to
+-- NOTIFIED, gets a claim token (emailed as /book?waitlist=<token>) and holds the resources it needs
+-- until claim_expires_at. Unclaimed holds expire and the next entry in line is offered the slot.
+-- status: WAITING -> NOTIFIED -> CLAIMED | EXPIRED; CANCELLED when staff or the customer drop out.
+
+create table if not exists public.waitlist_entries (
+  id uuid primary key default gen_random_uuid(),
+  location_id uuid references public.locations(id), -- null = default location
+  activity text not null, -- activity_definitions.key
+  party_size int not null check (party_size > 0),
+  date_key text not null, -- yyyy-mm-dd in the location's timezone
+  start_min int not null,
+  duration_minutes int not null,
+  combo_axe_minutes int,
+  combo_duckpin_minutes int,
+  combo_order text check (combo_order in ('DUCKPIN_FIRST', 'AXE_FIRST')),
+  customer_name text not null,
+  customer_email text not null,
+  customer_phone text,
+  status text not null default 'WAITING'
+    check (status in ('WAITING', 'NOTIFIED', 'CLAIMED', 'EXPIRED', 'CANCELLED')),
+  claim_token text unique,
+  notified_at timestamptz,
+  claim_expires_at timestamptz,
+  -- Resources held while NOTIFIED: [{ "type": "AXE", "count": 1, "start_ts": "...", "end_ts": "..." }]
+  held_resources jsonb not null default '[]'::jsonb,
+  booking_id uuid references public.bookings(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists waitlist_entries_day_idx on public.waitlist_entries (location_id, date_key, status, created_at);
@@ -0,0 +1,17 @@
+-- Webhook failure replay (Axe Quacks)
+-- Admins review failed Stripe webhook events at /staff/webhooks and replay or dismiss them. Stripe retries a
+-- failing event, so webhook_failures can hold several rows per event_id; the tool shows one entry per event.
+-- Events left in webhook_events.status = 'processing' for over 10 minutes are listed as stuck and replayed from
+-- Stripe's copy of the event. A successful run (replay or Stripe's own retry) resolves the event's open rows;
+-- resolution is REPLAYED, RETRIED or DISMISSED. Dismissed stuck events get webhook_events.status = 'dismissed'.
+
+alter table public.webhook_failures
+  add column if not exists resolved_at timestamptz,
+  add column if not exists resolved_by text,
+  add column if not exists resolution text,
+  add column if not exists replay_count int not null default 0,
+  add column if not exists last_replayed_at timestamptz;
+
+create index if not exists webhook_failures_open_idx on public.webhook_failures (created_at) where resolved_at is null;
+create index if not exists webhook_failures_event_idx on public.webhook_failures (provider, event_id);
+create index if not exists webhook_events_status_idx on public.webhook_events (status, received_at);
@@ -3,6 +3,7 @@
 import React, { Suspense, useEffect, useState } from "react";
 import Link from "next/link";
 import { useSearchParams } from "next/navigation";
+import { formatDateKey, formatMinutesRange } from "@/lib/dateTime";
 
 type Confirmation = {
   activity: string;
@@ -21,25 +22,6 @@ type Confirmation = {
   totalCents?: number;
 };
 
-function fromDateKey(dateKey: string) {
-  const [y, m, d] = dateKey.split("-").map(Number);
-  return new Date(y, (m ?? 1) - 1, d ?? 1);
-}
-
-function prettyDate(dateKey: string) {
-  if (!dateKey) return "—";
-  const d = fromDateKey(dateKey);
-  return d.toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric", year: "numeric" });
-}
-
-function formatTimeFromMinutes(minsFromMidnight: number) {
-  const h24 = Math.floor(minsFromMidnight / 60);
-  const m = minsFromMidnight % 60;
-  const ampm = h24 >= 12 ? "PM" : "AM";
-  const h12 = ((h24 + 11) % 12) + 1;
-  return `${h12}:${String(m).padStart(2, "0")} ${ampm}`;
-}
-
 function needsWaiver(activity: string) {
   const normalized = String(activity || "").toUpperCase();
   return normalized.includes("AXE") || normalized.includes("COMBO");
@@ -97,7 +79,7 @@ function BookingConfirmationContent() {
           return;
         }
 
-        const timeLabel = `${formatTimeFromMinutes(startMin)} – ${formatTimeFromMinutes(startMin + durationMinutes)}`;
+        const timeLabel = formatMinutesRange(startMin, startMin + durationMinutes);
         const totalBefore = Number(meta.total_before_discount);
         const discountAmount = Number(meta.discount_amount);
         const sessionTotal = Number(json?.session?.amount_total);
@@ -225,7 +207,7 @@ function BookingConfirmationContent() {
                 <span className="font-semibold text-white/80">Activity:</span> {confirmation.activity}
               </div>
               <div>
-                <span className="font-semibold text-white/80">Date:</span> {prettyDate(confirmation.dateKey)}
+                <span className="font-semibold text-white/80">Date:</span> {formatDateKey(confirmation.dateKey)}
               </div>
               <div>
                 <span className="font-semibold text-white/80">Start/End Time:</span> {confirmation.timeLabel}
@@ -9,21 +9,50 @@ import {
   PARTY_AREA_OPTIONS,
   type PartyAreaName,
   partyAreaCostCents,
+  axePerPersonCents,
   comboAxePersonCents,
   comboDuckpinLaneCents,
   cardFeeCents,
+  duckpinPerLaneCents,
   neededResources,
-  PRICING,
-  totalCents,
+  quoteActivityCents,
+  type Activity,
+  type PricingSlot,
 } from "@/lib/bookingLogic";
+import {
+  BUILT_IN_ACTIVITIES,
+  COMBO_ACTIVITY_KEY,
+  findActivityByName,
+  isBuiltInActivity,
+  type ActivityDefinition,
+} from "@/lib/activities";
+import { depositCentsFor, type DepositRule } from "@/lib/deposits";
+import type { SlotCapacity } from "@/lib/availability";
+import { DEFAULT_RATE_CARD_CONFIG, describePriceModifier, pricePointCents, type RateCardConfig } from "@/lib/rateCard";
+import {
+  EMPTY_STORE_HOURS_CONFIG,
+  closedWeekdaySummary,
+  describeStoreHours,
+  resolveStoreHoursForDateKey,
+  type StoreHoursConfig,
+} from "@/lib/storeHours";
+import {
+  DEFAULT_LOCATION,
+  findLocation,
+  locationBookingPath,
+  type Location,
+} from "@/lib/locations";
+import {
+  dateKeyFromLocalDate,
+  formatDateKey,
+  formatMinutesLabel,
+  formatInstant,
+  formatMinutesRange,
+  localDateFromDateKey,
+  nowInTimeZone,
+  parseTimeLabel,
+} from "@/lib/dateTime";
 
-type Activity = "Axe Throwing" | "Duckpin Bowling" | "Combo Package";
-
-/**
- * CLOSED: Mon–Wed
- * JS getDay(): Sun=0, Mon=1, Tue=2, Wed=3, Thu=4, Fri=5, Sat=6
- */
-const CLOSED_WEEKDAYS = new Set([1, 2, 3]);
 
 // ---------- helpers ----------
 function cx(...classes: Array<string | false | null | undefined>) {
@@ -34,89 +63,27 @@ function formatMoney(cents: number) {
   return (cents / 100).toLocaleString("en-US", { style: "currency", currency: "USD" });
 }
 
-function toDateKey(d: Date) {
-  // yyyy-mm-dd local
-  const yyyy = d.getFullYear();
-  const mm = String(d.getMonth() + 1).padStart(2, "0");
-  const dd = String(d.getDate()).padStart(2, "0");
-  return `${yyyy}-${mm}-${dd}`;
-}
-
-function todayDateKeyNY(): string {
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(new Date());
-}
-
-function nowMinutesNY(): number {
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/New_York",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).formatToParts(new Date());
-  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0);
-  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? 0);
-  return hour * 60 + minute;
-}
-
-function fromDateKey(dateKey: string) {
-  // Interpret as local date (avoid timezone weirdness)
-  const [y, m, d] = dateKey.split("-").map(Number);
-  return new Date(y, (m ?? 1) - 1, d ?? 1);
-}
-
-function prettyDate(dateKey: string) {
-  if (!dateKey) return "—";
-  const d = fromDateKey(dateKey);
-  return d.toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric", year: "numeric" });
-}
-
-function isClosedDateKey(dateKey: string) {
+function isClosedDateKey(storeHours: StoreHoursConfig, dateKey: string) {
   if (!dateKey) return false;
-  const d = fromDateKey(dateKey);
-  return CLOSED_WEEKDAYS.has(d.getDay());
+  return resolveStoreHoursForDateKey(storeHours, dateKey).closed;
 }
 
 /**
- * Store open hours as minutes-from-midnight for each weekday.
- * Thu: 4pm–10pm
- * Fri: 4pm–11pm
- * Sat: 12pm–11pm
- * Sun: 12pm–9pm
+ * Open hours come from /api/store-hours (weekly template, seasons, holiday overrides).
+ * Closed days resolve to the admin override window.
  */
-function getOpenWindowForDateKey(dateKey: string): { openMin: number; closeMin: number } | null {
+function getOpenWindowForDateKey(
+  storeHours: StoreHoursConfig,
+  dateKey: string
+): { openMin: number; closeMin: number } | null {
   if (!dateKey) return null;
-  const d = fromDateKey(dateKey);
-  const wd = d.getDay();
-
-  // Mon–Wed (admin override window)
-  if (wd === 1 || wd === 2 || wd === 3) return { openMin: 12 * 60, closeMin: 20 * 60 };
-  // Thu
-  if (wd === 4) return { openMin: 16 * 60, closeMin: 22 * 60 };
-  // Fri
-  if (wd === 5) return { openMin: 16 * 60, closeMin: 23 * 60 };
-  // Sat
-  if (wd === 6) return { openMin: 12 * 60, closeMin: 23 * 60 };
-  // Sun
-  if (wd === 0) return { openMin: 12 * 60, closeMin: 21 * 60 };
-
-  return null;
+  const hours = resolveStoreHoursForDateKey(storeHours, dateKey);
+  return { openMin: hours.openMin, closeMin: hours.closeMin };
 }
 
-function hoursForDateKey(dateKey: string) {
+function hoursForDateKey(storeHours: StoreHoursConfig, dateKey: string) {
   if (!dateKey) return "Select a date to see hours.";
-  const d = fromDateKey(dateKey);
-  const wd = d.getDay();
-  if (wd === 1 || wd === 2 || wd === 3) return "Monday–Wednesday: 12:00 PM – 8:00 PM (admin override)";
-  if (wd === 4) return "Thursday: 4:00 PM – 10:00 PM";
-  if (wd === 5) return "Friday: 4:00 PM – 11:00 PM";
-  if (wd === 6) return "Saturday: 12:00 PM – 11:00 PM";
-  if (wd === 0) return "Sunday: 12:00 PM – 9:00 PM";
-  return "Closed.";
+  return describeStoreHours(resolveStoreHoursForDateKey(storeHours, dateKey));
 }
 
 function labelDuration(minutes: number | null) {
@@ -128,36 +95,31 @@ function labelDuration(minutes: number | null) {
   return `${minutes} minutes`;
 }
 
-function formatTimeFromMinutes(minsFromMidnight: number) {
-  const h24 = Math.floor(minsFromMidnight / 60);
-  const m = minsFromMidnight % 60;
-  const ampm = h24 >= 12 ? "PM" : "AM";
-  const h12 = ((h24 + 11) % 12) + 1;
-  return `${h12}:${String(m).padStart(2, "0")} ${ampm}`;
-}
-
 const BOOKING_DRAFT_KEY = "aq_public_booking_draft_v1";
-
-/**
- * Converts "4:00 PM" -> minutes-from-midnight
- */
-function parseLabelToMinutes(label: string) {
-  // ex: "4:00 PM"
-  const m = label.match(/^(\d{1,2}):(\d{2})\s(AM|PM)$/i);
-  if (!m) return 0;
-  let h = Number(m[1]);
-  const min = Number(m[2]);
-  const ap = m[3].toUpperCase();
-  if (ap === "PM" && h !== 12) h += 12;
-  if (ap === "AM" && h === 12) h = 0;
-  return h * 60 + min;
-}
+// Token of this tab's latest checkout hold: our own hold shouldn't block us after coming back from Stripe.
+const CHECKOUT_HOLD_KEY = "aq_checkout_hold_v1";
 
 /**
  * Build time slots that fit *within open hours*.
  * - Step: 30 mins for all durations (allows half-hour starts)
  * - Ensure slot start + duration does not pass close time
  */
+const RESOURCE_NOUNS: Record<string, [string, string]> = {
+  AXE: ["bay", "bays"],
+  DUCKPIN: ["lane", "lanes"],
+};
+
+/** "Only 1 lane left" when the scarcest resource at a start time is down to its last one or two. */
+function scarcityLabel(capacity: SlotCapacity | undefined) {
+  if (!capacity) return "";
+  const scarce = Object.entries(capacity.remaining)
+    .filter(([type]) => RESOURCE_NOUNS[type])
+    .sort((a, b) => a[1] - b[1])[0];
+  if (!scarce || scarce[1] < 1 || scarce[1] > 2) return "";
+  const [singular, plural] = RESOURCE_NOUNS[scarce[0]];
+  return `Only ${scarce[1]} ${scarce[1] === 1 ? singular : plural} left`;
+}
+
 function buildTimeSlotsForWindow(openWindow: { openMin: number; closeMin: number } | null, duration: number) {
   if (!openWindow) return [];
   const { openMin, closeMin } = openWindow;
@@ -166,13 +128,13 @@ function buildTimeSlotsForWindow(openWindow: { openMin: number; closeMin: number
 
   const slots: string[] = [];
   for (let t = openMin; t <= lastStart; t += step) {
-    slots.push(formatTimeFromMinutes(t));
+    slots.push(formatMinutesLabel(t));
   }
   return slots;
 }
 
-function buildTimeSlotsForDate(dateKey: string, duration: number) {
-  return buildTimeSlotsForWindow(getOpenWindowForDateKey(dateKey), duration);
+function buildTimeSlotsForDate(storeHours: StoreHoursConfig, dateKey: string, duration: number) {
+  return buildTimeSlotsForWindow(getOpenWindowForDateKey(storeHours, dateKey), duration);
 }
 
 /**
@@ -180,9 +142,8 @@ function buildTimeSlotsForDate(dateKey: string, duration: number) {
  * "4:00 PM – 5:00 PM"
  */
 function slotRangeLabel(startLabel: string, durationMin: number) {
-  const startMin = parseLabelToMinutes(startLabel);
-  const endMin = startMin + durationMin;
-  return `${formatTimeFromMinutes(startMin)} – ${formatTimeFromMinutes(endMin)}`;
+  const startMin = parseTimeLabel(startLabel) ?? 0;
+  return formatMinutesRange(startMin, startMin + durationMin);
 }
 
 /**
@@ -194,85 +155,84 @@ function slotRangeLabel(startLabel: string, durationMin: number) {
  * - EST => 300
  * - EDT => 240
  */
-function maxParty(activity: Activity | "") {
-  if (activity === "Axe Throwing") return 16;
-  return 24;
+function maxParty(activities: ActivityDefinition[], activity: Activity | "") {
+  return findActivityByName(activities, activity)?.maxPartySize ?? 24;
 }
 
 function calculatePrice(
+  rateCard: RateCardConfig,
   activity: Activity,
   duration: number,
   partySize: number,
   comboDurations?: { axeMinutes: number; duckpinMinutes: number },
   partyAreaMinutes?: number,
-  partyAreaCount?: number
+  partyAreaCount?: number,
+  slot?: PricingSlot | null,
+  definition?: ActivityDefinition | null
 ) {
   const breakdown: string[] = [];
-  const hours = duration / 60;
   const durationLabel = labelDuration(duration);
-  const resources = neededResources(activity, partySize);
-
-  if (activity === "Axe Throwing") {
-    const perPersonCents =
-      duration === 15 ? Math.round(10 * 100) :
-      duration === 30 ? Math.round(20 * 100) :
-      duration === 60 ? Math.round(25 * 100) :
-      duration === 120 ? Math.round(45 * 100) :
-      Math.round(25 * hours * 100);
+  const resources = neededResources(activity, partySize, rateCard, definition);
+
+  if (definition && !isBuiltInActivity(definition)) {
+    const unitCents = pricePointCents(definition.pricePoints, duration);
+    const count =
+      definition.priceUnit === "PERSON"
+        ? partySize
+        : definition.resources.reduce((sum, rule) => sum + (resources[rule.type] || 0), 0);
+    const unitLabel = definition.priceUnit === "PERSON" ? "" : " unit(s)";
+    breakdown.push(`${count}${unitLabel} × ${formatMoney(unitCents)} (${durationLabel})`);
+  } else if (activity === "Axe Throwing") {
+    const perPersonCents = axePerPersonCents(duration, rateCard);
     breakdown.push(`${partySize} × ${formatMoney(perPersonCents)} (${durationLabel})`);
-    const base = totalCents(activity, partySize, duration);
-    const partyAreaCents = partyAreaCostCents(partyAreaMinutes || 0, partyAreaCount || 0);
-    if (partyAreaCents) {
-      const hours = (partyAreaMinutes || 0) / 60;
-      breakdown.push(`${partyAreaCount} party area(s) × ${hours} hr × ${formatMoney(5000)} = ${formatMoney(partyAreaCents)}`);
-    }
-    return { cents: base + partyAreaCents, breakdown };
-  }
-
-  if (activity === "Duckpin Bowling") {
+  } else if (activity === "Duckpin Bowling") {
     const lanes = resources.DUCKPIN;
-    const perLaneCents =
-      duration === 30 ? Math.round(30 * 100) :
-      duration === 60 ? Math.round(40 * 100) :
-      duration === 120 ? Math.round(75 * 100) :
-      Math.round(40 * hours * 100);
+    const perLaneCents = duckpinPerLaneCents(duration, rateCard);
     breakdown.push(`${lanes} lane(s) × ${formatMoney(perLaneCents)} (${durationLabel})`);
-    const base = totalCents(activity, partySize, duration);
-    const partyAreaCents = partyAreaCostCents(partyAreaMinutes || 0, partyAreaCount || 0);
-    if (partyAreaCents) {
-      const hours = (partyAreaMinutes || 0) / 60;
-      breakdown.push(`${partyAreaCount} party area(s) × ${hours} hr × ${formatMoney(5000)} = ${formatMoney(partyAreaCents)}`);
-    }
-    return { cents: base + partyAreaCents, breakdown };
+  } else {
+    // Combo Package (per-activity durations)
+    const comboAxeMinutes = comboDurations?.axeMinutes ?? 60;
+    const comboDuckpinMinutes = comboDurations?.duckpinMinutes ?? 60;
+    const lanes = resources.DUCKPIN;
+    const duckpinPortionCents = Math.round(comboDuckpinLaneCents(comboDuckpinMinutes, rateCard) * 100);
+    const comboAxeCents = Math.round(comboAxePersonCents(comboAxeMinutes, rateCard) * 100);
+    breakdown.push(`${lanes} lane(s) × ${formatMoney(duckpinPortionCents)} (${labelDuration(comboDuckpinMinutes)})`);
+    breakdown.push(`${partySize} × ${formatMoney(comboAxeCents)} (${labelDuration(comboAxeMinutes)})`);
   }
 
-  // Combo Package (per-activity durations)
-  const comboAxeMinutes = comboDurations?.axeMinutes ?? 60;
-  const comboDuckpinMinutes = comboDurations?.duckpinMinutes ?? 60;
-  const lanes = resources.DUCKPIN;
-  const duckpinPortionCents = Math.round(comboDuckpinLaneCents(comboDuckpinMinutes) * 100);
-  const axePerPersonCents = Math.round(comboAxePersonCents(comboAxeMinutes) * 100);
-  breakdown.push(`${lanes} lane(s) × ${formatMoney(duckpinPortionCents)} (${labelDuration(comboDuckpinMinutes)})`);
-  breakdown.push(`${partySize} × ${formatMoney(axePerPersonCents)} (${labelDuration(comboAxeMinutes)})`);
-  const base = totalCents(activity, partySize, duration, comboDurations);
+  const quote = quoteActivityCents(
+    activity,
+    partySize,
+    duration,
+    activity === "Combo Package" ? comboDurations : undefined,
+    rateCard,
+    slot,
+    definition
+  );
+  if (quote.modifier && quote.modifierCents) {
+    const sign = quote.modifierCents > 0 ? "+" : "−";
+    breakdown.push(`${describePriceModifier(quote.modifier)}: ${sign}${formatMoney(Math.abs(quote.modifierCents))}`);
+  }
   const partyAreaCents = partyAreaCostCents(partyAreaMinutes || 0, partyAreaCount || 0);
   if (partyAreaCents) {
     const hours = (partyAreaMinutes || 0) / 60;
     breakdown.push(`${partyAreaCount} party area(s) × ${hours} hr × ${formatMoney(5000)} = ${formatMoney(partyAreaCents)}`);
   }
-  return { cents: base + partyAreaCents, breakdown };
+  return { cents: quote.totalCents + partyAreaCents, breakdown };
 }
 
 // ---------- Calendar component ----------
 function MonthCalendar(props: {
   selectedDateKey: string;
   onSelectDateKey: (dateKey: string) => void;
+  storeHours: StoreHoursConfig;
+  timeZone: string;
   allowClosed?: boolean;
   closedOverrideDates?: Set<string>;
 }) {
-  const { selectedDateKey, onSelectDateKey, allowClosed, closedOverrideDates } = props;
+  const { selectedDateKey, onSelectDateKey, storeHours, timeZone, allowClosed, closedOverrideDates } = props;
   const [cursor, setCursor] = useState(() => {
-    const base = selectedDateKey ? fromDateKey(selectedDateKey) : new Date();
+    const base = selectedDateKey ? localDateFromDateKey(selectedDateKey) : new Date();
     return new Date(base.getFullYear(), base.getMonth(), 1);
   });
 
@@ -296,7 +256,7 @@ function MonthCalendar(props: {
   }, [cursor]);
 
   const weekDays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-  const todayNY = todayDateKeyNY();
+  const today = nowInTimeZone(timeZone).dateKey;
 
   return (
     <div className="rounded-2xl border border-zinc-200 bg-white p-4">
@@ -332,9 +292,9 @@ function MonthCalendar(props: {
             return <div key={idx} className="h-10 rounded-xl bg-transparent" />;
           }
 
-          const dk = toDateKey(cell.date);
-          const closed = CLOSED_WEEKDAYS.has(cell.date.getDay());
-          const isPast = dk < todayNY;
+          const dk = dateKeyFromLocalDate(cell.date);
+          const closed = isClosedDateKey(storeHours, dk);
+          const isPast = dk < today;
           const selected = selectedDateKey === dk;
           const overridden = closedOverrideDates?.has(dk);
           const disabled = isPast;
@@ -376,7 +336,9 @@ function MonthCalendar(props: {
 
       <div className="mt-3 text-xs text-zinc-500">
         <span className="font-semibold text-zinc-700">Closed:</span>{" "}
-        {allowClosed ? "Mon–Wed (admin override required to book)" : "Mon–Wed (not bookable)"}
+        {allowClosed
+          ? `${closedWeekdaySummary(storeHours)} (admin override required to book)`
+          : `${closedWeekdaySummary(storeHours)} (not bookable)`}
       </div>
     </div>
   );
@@ -387,6 +349,18 @@ function BookPageContent() {
   const searchParams = useSearchParams();
   const isStaffMode = searchParams.get("mode") === "staff";
   const checkoutSessionId = searchParams.get("session_id");
+  // Claim link from a waitlist offer email: /book?waitlist=<token>.
+  const waitlistToken = searchParams.get("waitlist") || "";
+  // Site slug from /book?location=<slug>; empty = default location.
+  const locationKey = searchParams.get("location") || "";
+  const [locations, setLocations] = useState<Location[]>([]);
+  const location = useMemo(
+    () => findLocation(locations.length ? locations : [DEFAULT_LOCATION], locationKey),
+    [locations, locationKey]
+  );
+  const timeZone = location?.timezone ?? DEFAULT_LOCATION.timezone;
+  const withLocation = (path: string) =>
+    locationKey ? `${path}${path.includes("?") ? "&" : "?"}location=${encodeURIComponent(locationKey)}` : path;
 
   useEffect(() => {
     document.title = "Book - Axe Quacks";
@@ -441,11 +415,77 @@ function BookPageContent() {
     resourceNames?: string[];
   } | null>(null);
 
+  const [storeHours, setStoreHours] = useState<StoreHoursConfig>(EMPTY_STORE_HOURS_CONFIG);
+  const [rateCard, setRateCard] = useState<RateCardConfig>(DEFAULT_RATE_CARD_CONFIG);
+  const [activities, setActivities] = useState<ActivityDefinition[]>(BUILT_IN_ACTIVITIES);
+  const [depositRule, setDepositRule] = useState<DepositRule | null>(null);
+  const [payDeposit, setPayDeposit] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    const locationQuery = locationKey ? `?location=${encodeURIComponent(locationKey)}` : "";
+    fetch("/api/locations", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (!mounted || !Array.isArray(json?.locations)) return;
+        setLocations(json.locations as Location[]);
+      })
+      .catch((err) => {
+        console.error("locations fetch failed:", err);
+      });
+    fetch(`/api/store-hours${locationQuery}`, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (!mounted || !json?.hours) return;
+        setStoreHours(json.hours as StoreHoursConfig);
+      })
+      .catch((err) => {
+        console.error("store hours fetch failed:", err);
+      });
+    fetch(`/api/rate-card${locationQuery}`, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (!mounted || !json?.rateCard?.config) return;
+        setRateCard(json.rateCard.config as RateCardConfig);
+      })
+      .catch((err) => {
+        console.error("rate card fetch failed:", err);
+      });
+    fetch("/api/activities", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (!mounted || !Array.isArray(json?.activities) || !json.activities.length) return;
+        setActivities(json.activities as ActivityDefinition[]);
+      })
+      .catch((err) => {
+        console.error("activities fetch failed:", err);
+      });
+    fetch("/api/deposit-policy", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (!mounted || !json?.deposit) return;
+        setDepositRule(json.deposit as DepositRule);
+      })
+      .catch((err) => {
+        console.error("deposit policy fetch failed:", err);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [locationKey]);
+
   // Availability state
   const [availabilityLoading, setAvailabilityLoading] = useState(false);
   const [blockedStartMins, setBlockedStartMins] = useState<number[]>([]);
   const blockedSet = useMemo(() => new Set(blockedStartMins), [blockedStartMins]);
+  const [slotCapacities, setSlotCapacities] = useState<SlotCapacity[]>([]);
+  const capacityByStart = useMemo(
+    () => new Map(slotCapacities.map((capacity) => [capacity.startMin, capacity])),
+    [slotCapacities]
+  );
+  const [suggestedStartMins, setSuggestedStartMins] = useState<number[]>([]);
   const [closedOverrideDates, setClosedOverrideDates] = useState<Set<string>>(() => new Set());
+  const [closedOverrideApprovers, setClosedOverrideApprovers] = useState<Record<string, string>>({});
   const [blackoutOverrideDates, setBlackoutOverrideDates] = useState<Set<string>>(() => new Set());
   const [overrideTarget, setOverrideTarget] = useState<{ dateKey: string; type: "closed" | "blackout" } | null>(null);
   const [overrideStaffId, setOverrideStaffId] = useState("");
@@ -465,6 +505,18 @@ function BookPageContent() {
   const cashInputRef = useRef<HTMLInputElement | null>(null);
   const [cashError, setCashError] = useState("");
   const [reserveSuccessOpen, setReserveSuccessOpen] = useState(false);
+  const [waitlistStartMin, setWaitlistStartMin] = useState<number | null>(null);
+  const [waitlistJoining, setWaitlistJoining] = useState(false);
+  const [waitlistError, setWaitlistError] = useState("");
+  const [waitlistJoined, setWaitlistJoined] = useState("");
+  const [waitlistClaim, setWaitlistClaim] = useState<{ expiresAt: string | null } | null>(null);
+  const [waitlistClaimError, setWaitlistClaimError] = useState("");
+  const [holdToken, setHoldToken] = useState("");
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    setHoldToken(window.sessionStorage.getItem(CHECKOUT_HOLD_KEY) || "");
+  }, []);
 
   useEffect(() => {
     if (isStaffMode) return;
@@ -480,10 +532,8 @@ function BookPageContent() {
     try {
       const saved = JSON.parse(raw) as Record<string, any>;
       const savedActivity = String(saved.activity || "");
-      const allowedActivities: Array<Activity | ""> = ["Axe Throwing", "Duckpin Bowling", "Combo Package", ""];
-      if (allowedActivities.includes(savedActivity as Activity)) {
-        setActivity(savedActivity as Activity | "");
-      }
+      // Definitions load after restore; an activity that has since been retired just shows unselected.
+      setActivity(savedActivity);
       if (Number.isFinite(saved.duration)) setDuration(Number(saved.duration));
       if (Number.isFinite(saved.comboAxeDuration)) setComboAxeDuration(Number(saved.comboAxeDuration));
       if (Number.isFinite(saved.comboDuckpinDuration)) setComboDuckpinDuration(Number(saved.comboDuckpinDuration));
@@ -508,6 +558,47 @@ function BookPageContent() {
     }
   }, [isStaffMode]);
 
+  // A waitlist claim link prefills the offered slot; availability skips this entry's own hold.
+  useEffect(() => {
+    if (isStaffMode || !waitlistToken) return;
+    let mounted = true;
+    fetch(`/api/waitlist?token=${encodeURIComponent(waitlistToken)}`, { cache: "no-store" })
+      .then(async (res) => ({ ok: res.ok, json: await res.json().catch(() => ({})) }))
+      .then(({ ok, json }) => {
+        if (!mounted) return;
+        const claim = json?.claim;
+        if (!ok || !claim) {
+          setWaitlistClaimError(json?.error || "This waitlist offer has expired or was already used.");
+          return;
+        }
+        setActivity(String(claim.activity || ""));
+        if (Number.isFinite(claim.comboAxeMinutes)) setComboAxeDuration(Number(claim.comboAxeMinutes));
+        if (Number.isFinite(claim.comboDuckpinMinutes)) setComboDuckpinDuration(Number(claim.comboDuckpinMinutes));
+        if (claim.comboOrder) setComboSlot1(claim.comboOrder === "AXE_FIRST" ? "Axe Throwing" : "Duckpin Bowling");
+        else setDuration(Number(claim.durationMinutes) || null);
+        setPartySize(Math.max(1, Number(claim.partySize) || 1));
+        setDateKey(String(claim.dateKey || ""));
+        setTime(formatMinutesLabel(Number(claim.startMin) || 0));
+        setName(String(claim.customerName || ""));
+        setEmail(String(claim.customerEmail || ""));
+        setPhone(String(claim.customerPhone || ""));
+        setWaitlistClaim({ expiresAt: claim.expiresAt ?? null });
+      })
+      .catch(() => {
+        if (!mounted) return;
+        setWaitlistClaimError("Unable to load your waitlist offer.");
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [isStaffMode, waitlistToken]);
+
+  useEffect(() => {
+    setWaitlistStartMin(null);
+    setWaitlistError("");
+    setWaitlistJoined("");
+  }, [activity, duration, comboAxeDuration, comboDuckpinDuration, partySize, dateKey]);
+
   useEffect(() => {
     if (isStaffMode) return;
     if (typeof window === "undefined") return;
@@ -640,6 +731,11 @@ function BookPageContent() {
     return comboAxeDuration + comboDuckpinDuration;
   }, [comboAxeDuration, comboDuckpinDuration]);
   const effectiveDuration = activity === "Combo Package" ? comboTotalDuration : duration;
+  const activityDefinition = useMemo(() => findActivityByName(activities, activity), [activities, activity]);
+  const comboDefinition = useMemo(
+    () => activities.find((definition) => definition.key === COMBO_ACTIVITY_KEY) ?? null,
+    [activities]
+  );
   const maxPartyAreaMinutes = Math.max(60, Math.floor((effectiveDuration || 0) / 60) * 60);
 
   function chooseActivity(a: Activity) {
@@ -654,7 +750,7 @@ function BookPageContent() {
     }
 
     // Clamp party size
-    setPartySize((p) => Math.min(p, maxParty(a)));
+    setPartySize((p) => Math.min(p, maxParty(activities, a)));
 
     // Reset time so user re-picks for new selection
     setTime("");
@@ -701,6 +797,7 @@ function BookPageContent() {
           next.add(target.dateKey);
           return next;
         });
+        setClosedOverrideApprovers((prev) => ({ ...prev, [target.dateKey]: overrideStaffId.trim() }));
       } else {
         setBlackoutOverrideDates((prev) => {
           const next = new Set(prev);
@@ -718,13 +815,22 @@ function BookPageContent() {
     }
   }
 
-  const closed = isClosedDateKey(dateKey);
+  const closed = isClosedDateKey(storeHours, dateKey);
   const hasClosedOverride = dateKey ? closedOverrideDates.has(dateKey) : false;
   const hasBlackoutOverride = dateKey ? blackoutOverrideDates.has(dateKey) : false;
   const closedForStaff = closed && !hasClosedOverride;
+  // Sent with availability/booking requests so the server accepts (and audit-logs) the closed-day booking.
+  const hoursOverrideFields =
+    isStaffMode && hasClosedOverride
+      ? {
+          hoursOverride: true,
+          hoursOverrideApprovedBy: closedOverrideApprovers[dateKey] || "",
+          hoursOverrideReason: "Closed-day admin override",
+        }
+      : {};
   const openWindowOverride = useMemo(
-    () => (dateKey && hasClosedOverride ? getOpenWindowForDateKey(dateKey) : null),
-    [dateKey, hasClosedOverride]
+    () => (dateKey && hasClosedOverride ? getOpenWindowForDateKey(storeHours, dateKey) : null),
+    [storeHours, dateKey, hasClosedOverride]
   );
   const partyAreaDuration = partyAreas.length ? partyAreaMinutes ?? 60 : 0;
   const bookingWindowMinutes = Math.max(effectiveDuration ?? 0, partyAreaDuration || 0);
@@ -734,22 +840,28 @@ function BookPageContent() {
     if (isStaffMode && hasClosedOverride) {
       return buildTimeSlotsForWindow(openWindowOverride, bookingWindowMinutes);
     }
-    return buildTimeSlotsForDate(dateKey, bookingWindowMinutes);
-  }, [bookingWindowMinutes, dateKey, isStaffMode, hasClosedOverride, openWindowOverride]);
+    return buildTimeSlotsForDate(storeHours, dateKey, bookingWindowMinutes);
+  }, [storeHours, bookingWindowMinutes, dateKey, isStaffMode, hasClosedOverride, openWindowOverride]);
 
   const pricing = useMemo(() => {
     if (!activity || !effectiveDuration) return null;
-    return calculatePrice(activity, effectiveDuration, partySize, {
+    // startMin is derived further down; the quote only needs the selected slot's minutes.
+    const slot = dateKey && time ? { dateKey, startMin: parseTimeLabel(time) ?? 0 } : null;
+    return calculatePrice(rateCard, activity, effectiveDuration, partySize, {
       axeMinutes: comboAxeDuration ?? 0,
       duckpinMinutes: comboDuckpinDuration ?? 0,
-    }, partyAreaDuration, partyAreas.length);
-  }, [activity, effectiveDuration, partySize, comboAxeDuration, comboDuckpinDuration, partyAreaDuration, partyAreas.length]);
+    }, partyAreaDuration, partyAreas.length, slot, activityDefinition);
+  }, [rateCard, activity, activityDefinition, effectiveDuration, partySize, comboAxeDuration, comboDuckpinDuration, partyAreaDuration, partyAreas.length, dateKey, time]);
 
   const totalCents = pricing?.cents ?? 0;
   const discountedTotalCents = promoApplied?.totalCents ?? totalCents;
   const finalTotalCents = isStaffMode && staffOverrideCents != null ? staffOverrideCents : discountedTotalCents;
   const cardFee = waiveCardFee ? 0 : cardFeeCents(finalTotalCents);
   const cardTotalCents = finalTotalCents + cardFee;
+  // Deposits are an online checkout option; staff bookings (and custom amounts) are taken in full.
+  const depositCents =
+    !isStaffMode && depositRule ? depositCentsFor(depositRule, partySize, discountedTotalCents) : 0;
+  const payingDeposit = payDeposit && depositCents > 0;
   const discountCents = promoApplied?.amountOffCents ?? 0;
   const cashProvidedCents = useMemo(() => {
     const value = Number(cashInput || "0");
@@ -827,33 +939,34 @@ function BookPageContent() {
 
   const resources = useMemo(() => {
     if (!activity) return null;
-    const needs = neededResources(activity, partySize);
-    return { bays: needs.AXE, lanes: needs.DUCKPIN };
-  }, [activity, partySize]);
+    const needs = neededResources(activity, partySize, rateCard, activityDefinition);
+    const other = Object.entries(needs).filter(([type, count]) => type !== "AXE" && type !== "DUCKPIN" && count > 0);
+    return { bays: needs.AXE, lanes: needs.DUCKPIN, other };
+  }, [rateCard, activity, activityDefinition, partySize]);
 
   const selectedTimeRange = useMemo(() => {
     if (!time || !bookingWindowMinutes) return "—";
     return slotRangeLabel(time, bookingWindowMinutes);
   }, [time, bookingWindowMinutes]);
 
-  const startMin = useMemo(() => (time ? parseLabelToMinutes(time) : null), [time]);
+  const startMin = useMemo(() => (time ? parseTimeLabel(time) ?? 0 : null), [time]);
   const endMin = useMemo(
     () => (startMin != null && bookingWindowMinutes ? startMin + bookingWindowMinutes : null),
     [startMin, bookingWindowMinutes]
   );
   const selectedTimePast = useMemo(() => {
     if (!dateKey || !time) return false;
-    if (dateKey !== todayDateKeyNY()) return false;
-    return parseLabelToMinutes(time) < nowMinutesNY();
-  }, [dateKey, time]);
+    if (dateKey !== nowInTimeZone(timeZone).dateKey) return false;
+    return (parseTimeLabel(time) ?? 0) < nowInTimeZone(timeZone).minutes;
+  }, [dateKey, time, timeZone]);
 
   useEffect(() => {
     if (!dateKey || !time) return;
-    if (dateKey !== todayDateKeyNY()) return;
-    if (parseLabelToMinutes(time) < nowMinutesNY()) {
+    if (dateKey !== nowInTimeZone(timeZone).dateKey) return;
+    if ((parseTimeLabel(time) ?? 0) < nowInTimeZone(timeZone).minutes) {
       setTime("");
     }
-  }, [dateKey, time]);
+  }, [dateKey, time, timeZone]);
 
   // -------- availability fetch --------
   async function refreshAvailability(params: {
@@ -866,11 +979,11 @@ function BookPageContent() {
     durationMinutes: number;
     comboAxeMinutes?: number;
     comboDuckpinMinutes?: number;
-    openStartMin: number;
-    openEndMin: number;
     slotIntervalMin: number;
     order?: "DUCKPIN_FIRST" | "AXE_FIRST";
     ignoreBlackouts?: boolean;
+    hoursOverride?: boolean;
+    requestedStartMin?: number;
   }) {
     // cancel any in-flight request
     availabilityAbortRef.current?.abort();
@@ -882,12 +995,19 @@ function BookPageContent() {
     setAvailabilityLoading(true);
     // Clear stale blocked data while loading so UI doesn’t show old state
     setBlockedStartMins([]);
+    setSlotCapacities([]);
+    setSuggestedStartMins([]);
 
     try {
       const res = await fetch("/api/availability", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(params),
+        body: JSON.stringify({
+          ...params,
+          locationId: locationKey || undefined,
+          waitlistToken: waitlistToken || undefined,
+          holdToken: holdToken || undefined,
+        }),
         signal: controller.signal,
       });
 
@@ -899,15 +1019,19 @@ function BookPageContent() {
       if (!res.ok) {
         console.error("availability error:", json);
         setBlockedStartMins([]);
+        setSlotCapacities([]);
+        setSuggestedStartMins([]);
         return;
       }
 
       const blocked = Array.isArray(json.blockedStartMins) ? json.blockedStartMins : [];
       setBlockedStartMins(blocked);
+      setSlotCapacities(Array.isArray(json.slots) ? json.slots : []);
+      setSuggestedStartMins(Array.isArray(json.suggestedStartMins) ? json.suggestedStartMins : []);
 
       // If selected time became blocked, clear it
       if (time) {
-        const sm = parseLabelToMinutes(time);
+        const sm = parseTimeLabel(time) ?? 0;
         if (blocked.includes(sm)) setTime("");
       }
     } catch (err: any) {
@@ -929,14 +1053,19 @@ function BookPageContent() {
       availabilityAbortRef.current?.abort();
       setAvailabilityLoading(false);
       setBlockedStartMins([]);
+      setSlotCapacities([]);
+      setSuggestedStartMins([]);
       return;
     }
 
-    const openWindow = isStaffMode && hasClosedOverride ? openWindowOverride : getOpenWindowForDateKey(dateKey);
+    const openWindow =
+      isStaffMode && hasClosedOverride ? openWindowOverride : getOpenWindowForDateKey(storeHours, dateKey);
     if (!openWindow) {
       availabilityAbortRef.current?.abort();
       setAvailabilityLoading(false);
       setBlockedStartMins([]);
+      setSlotCapacities([]);
+      setSuggestedStartMins([]);
       return;
     }
 
@@ -956,11 +1085,11 @@ function BookPageContent() {
         durationMinutes: effectiveDuration,
         comboAxeMinutes: activity === "Combo Package" ? comboAxeDuration ?? undefined : undefined,
         comboDuckpinMinutes: activity === "Combo Package" ? comboDuckpinDuration ?? undefined : undefined,
-        openStartMin: openWindow.openMin,
-        openEndMin: openWindow.closeMin,
         slotIntervalMin: step,
         order: activity === "Combo Package" ? (comboFirst === "DUCKPIN" ? "DUCKPIN_FIRST" : "AXE_FIRST") : undefined,
         ignoreBlackouts: isStaffMode && (hasClosedOverride || hasBlackoutOverride),
+        hoursOverride: isStaffMode && hasClosedOverride,
+        requestedStartMin: waitlistStartMin ?? undefined,
       });
     }, 200);
 
@@ -976,6 +1105,7 @@ function BookPageContent() {
     partyAreaDuration,
     partyAreaTiming,
     dateKey,
+    storeHours,
     closed,
     closedForStaff,
     hasClosedOverride,
@@ -985,6 +1115,8 @@ function BookPageContent() {
     comboAxeDuration,
     comboDuckpinDuration,
     isStaffMode,
+    holdToken,
+    waitlistStartMin,
   ]);
 
   const effectiveBlockedSet = useMemo(() => {
@@ -997,7 +1129,7 @@ function BookPageContent() {
   // Disable confirm if selected time is blocked
   const selectedTimeBlocked = useMemo(() => {
     if (!time) return false;
-    const sm = parseLabelToMinutes(time);
+    const sm = parseTimeLabel(time) ?? 0;
     return effectiveBlockedSet.has(sm);
   }, [time, effectiveBlockedSet]);
 
@@ -1031,6 +1163,7 @@ function BookPageContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           activity,
+          locationId: locationKey || undefined,
           durationMinutes: effectiveDuration,
           partySize,
           dateKey,
@@ -1048,6 +1181,10 @@ function BookPageContent() {
           cancelPath: opts.cancelPath,
           uiMode: opts.uiMode,
           promoCode: promoApplied?.code || "",
+          waitlistToken: waitlistToken || undefined,
+          releaseHoldToken: holdToken || undefined,
+          payDeposit: opts.uiMode === "customer" && payingDeposit ? true : undefined,
+          ...hoursOverrideFields,
         }),
       });
 
@@ -1095,6 +1232,9 @@ function BookPageContent() {
         if (!isStaffMode && typeof window !== "undefined") {
           window.sessionStorage.setItem(`${BOOKING_DRAFT_KEY}:restore`, "true");
         }
+        if (json.holdToken && typeof window !== "undefined") {
+          window.sessionStorage.setItem(CHECKOUT_HOLD_KEY, json.holdToken);
+        }
         window.location.href = json.url;
       } else {
         setSubmitError("Checkout session did not return a URL.");
@@ -1106,6 +1246,45 @@ function BookPageContent() {
     }
   }
 
+  async function joinWaitlist() {
+    if (!activity || !effectiveDuration || !dateKey || waitlistStartMin == null) return;
+    setWaitlistJoining(true);
+    setWaitlistError("");
+    try {
+      const res = await fetch("/api/waitlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          activity,
+          locationId: locationKey || undefined,
+          partySize,
+          dateKey,
+          startMin: waitlistStartMin,
+          durationMinutes: effectiveDuration,
+          comboAxeMinutes: activity === "Combo Package" ? comboAxeDuration ?? undefined : undefined,
+          comboDuckpinMinutes: activity === "Combo Package" ? comboDuckpinDuration ?? undefined : undefined,
+          comboOrder: activity === "Combo Package" ? (comboFirst === "DUCKPIN" ? "DUCKPIN_FIRST" : "AXE_FIRST") : undefined,
+          customerName: name.trim(),
+          customerEmail: email.trim(),
+          customerPhone: phone.trim(),
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setWaitlistError(json?.error || "Unable to join the waitlist.");
+        return;
+      }
+      setWaitlistJoined(
+        `You're #${json.position || 1} in line for ${formatMinutesLabel(waitlistStartMin)}. ` +
+          "We'll email you if it opens up."
+      );
+    } catch {
+      setWaitlistError("Unable to join the waitlist.");
+    } finally {
+      setWaitlistJoining(false);
+    }
+  }
+
   async function handleConfirm() {
     setSubmitError("");
     setSubmitSuccess("");
@@ -1122,7 +1301,7 @@ function BookPageContent() {
       return;
     }
 
-    await createCheckoutSession({ successPath: "/book/confirmation", cancelPath: "/book", uiMode: "customer" });
+    await createCheckoutSession({ successPath: "/book/confirmation", cancelPath: withLocation("/book"), uiMode: "customer" });
   }
 
   function normalizeCashInput(value: string) {
@@ -1176,6 +1355,7 @@ function BookPageContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           activity,
+          locationId: locationKey || undefined,
           durationMinutes: effectiveDuration,
           partySize,
           dateKey,
@@ -1191,6 +1371,7 @@ function BookPageContent() {
           comboOrder: activity === "Combo Package" ? (comboFirst === "DUCKPIN" ? "DUCKPIN_FIRST" : "AXE_FIRST") : undefined,
           totalCentsOverride: finalTotalCents,
           promoCode: promoApplied?.code || "",
+          ...hoursOverrideFields,
         }),
       });
       const json = await res.json().catch(() => ({}));
@@ -1254,6 +1435,8 @@ function BookPageContent() {
     setSubmitError("");
     setSubmitSuccess("");
     setBlockedStartMins([]);
+    setSlotCapacities([]);
+    setSuggestedStartMins([]);
     setAvailabilityLoading(false);
   }
 
@@ -1307,6 +1490,7 @@ function BookPageContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           activity,
+          locationId: locationKey || undefined,
           durationMinutes: effectiveDuration,
           partySize,
           dateKey,
@@ -1323,6 +1507,7 @@ function BookPageContent() {
           promoCode: promoApplied?.code || "",
           totalCentsOverride: finalTotalCents,
           waiveCardFee,
+          ...hoursOverrideFields,
         }),
       });
 
@@ -1398,7 +1583,7 @@ function BookPageContent() {
   async function handleManualCheckout() {
     await createCheckoutSession({
       successPath: "/book/confirmation?mode=staff",
-      cancelPath: "/book?mode=staff",
+      cancelPath: withLocation("/book?mode=staff"),
       uiMode: "staff",
     });
   }
@@ -1476,9 +1661,7 @@ function BookPageContent() {
         const partyFromMeta = Number(meta.party_size);
         const dateFromMeta = String(meta.date_key || "");
         const startMinFromMeta = Number(meta.start_min);
-        const timeLabel = `${formatTimeFromMinutes(startMinFromMeta)} – ${formatTimeFromMinutes(
-          startMinFromMeta + durationFromMeta
-        )}`;
+        const timeLabel = formatMinutesRange(startMinFromMeta, startMinFromMeta + durationFromMeta);
 
         setConfirmation({
           activity: activityFromMeta,
@@ -1516,8 +1699,36 @@ function BookPageContent() {
               <div className="public-muted mt-2 text-sm">
                 Choose your activity, duration, and time. Pricing updates instantly as you build your visit.
               </div>
+              {locations.length > 1 ? (
+                <select
+                  value={location?.slug ?? ""}
+                  onChange={(e) => {
+                    const next = findLocation(locations, e.target.value);
+                    const path = locationBookingPath(next);
+                    window.location.assign(isStaffMode ? `${path}${path.includes("?") ? "&" : "?"}mode=staff` : path);
+                  }}
+                  className="mt-3 h-10 rounded-xl border border-zinc-200 bg-white px-3 text-sm font-semibold text-zinc-900"
+                >
+                  {location ? null : <option value="">Choose a location</option>}
+                  {locations.map((option) => (
+                    <option key={option.slug} value={option.slug}>
+                      {option.name}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
             </div>
           </div>
+          {waitlistClaim ? (
+            <div className="mt-4 rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm font-semibold text-emerald-800">
+              A spot opened up from the waitlist. It&apos;s held for you until{" "}
+              {formatInstant(waitlistClaim.expiresAt, timeZone, "time")}.
+            </div>
+          ) : waitlistClaimError ? (
+            <div className="mt-4 rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm font-semibold text-red-700">
+              {waitlistClaimError}
+            </div>
+          ) : null}
         </div>
 
         <div className="grid grid-cols-1 gap-5 lg:grid-cols-[1.7fr_1fr]">
@@ -1533,7 +1744,7 @@ function BookPageContent() {
               </div>
 
               <div className="flex flex-wrap gap-2">
-                {(["Axe Throwing", "Duckpin Bowling", "Combo Package"] as Activity[]).map((a) => {
+                {activities.filter((definition) => definition.active).map(({ name: a }) => {
                   const selected = activity === a;
                   return (
                     <button
@@ -1566,8 +1777,8 @@ function BookPageContent() {
               {activity === "Combo Package" ? (
                 <div className="grid gap-4 md:grid-cols-2">
                   {[
-                    { label: "Axe Throwing", value: comboAxeDuration, setValue: setComboAxeDuration },
-                    { label: "Duckpin Bowling", value: comboDuckpinDuration, setValue: setComboDuckpinDuration },
+                    { type: "AXE", label: "Axe Throwing", value: comboAxeDuration, setValue: setComboAxeDuration },
+                    { type: "DUCKPIN", label: "Duckpin Bowling", value: comboDuckpinDuration, setValue: setComboDuckpinDuration },
                   ].map((group) => (
                     <div key={group.label} className="rounded-2xl border border-zinc-200 bg-white p-3">
                       <button
@@ -1578,7 +1789,7 @@ function BookPageContent() {
                         {group.label}
                       </button>
                       <div className="mt-3 flex flex-wrap gap-2">
-                        {[30, 60, 120].map((d) => {
+                        {(comboDefinition?.resources.find((rule) => rule.type === group.type)?.durations ?? [30, 60, 120]).map((d) => {
                           const selected = group.value === d;
                           return (
                             <button
@@ -1607,7 +1818,7 @@ function BookPageContent() {
                 </div>
               ) : (
                 <div className="flex flex-wrap gap-2">
-                  {(activity === "Axe Throwing" ? [15, 30, 60, 120] : [30, 60, 120]).map((d) => {
+                  {(activityDefinition?.durations ?? [30, 60, 120]).map((d) => {
                     const selected = duration === d;
                     return (
                       <button
@@ -1752,7 +1963,7 @@ function BookPageContent() {
                 </div>
                 <div className="text-base font-extrabold text-zinc-900">Party Size</div>
                 <div className="text-xs font-semibold text-zinc-500">
-                  (max {activity ? maxParty(activity) : "—"})
+                  (max {activity ? maxParty(activities, activity) : "—"})
                 </div>
               </div>
 
@@ -1776,11 +1987,11 @@ function BookPageContent() {
                 <input
                   type="number"
                   min={1}
-                  max={activity ? maxParty(activity) : 24}
+                  max={activity ? maxParty(activities, activity) : 24}
                   value={partySize}
                   onChange={(e) => {
                     const next = Number(e.target.value);
-                    const clamped = Math.max(1, Math.min(next, activity ? maxParty(activity) : 24));
+                    const clamped = Math.max(1, Math.min(next, activity ? maxParty(activities, activity) : 24));
                     setPartySize(clamped);
                     setSubmitError("");
                     setSubmitSuccess("");
@@ -1795,7 +2006,7 @@ function BookPageContent() {
                 <button
                   type="button"
                   onClick={() => {
-                    setPartySize((p) => Math.min(activity ? maxParty(activity) : 24, p + 1));
+                    setPartySize((p) => Math.min(activity ? maxParty(activities, activity) : 24, p + 1));
                     setSubmitError("");
                     setSubmitSuccess("");
                   }}
@@ -1860,8 +2071,9 @@ function BookPageContent() {
 
               <MonthCalendar
                 selectedDateKey={dateKey}
+                timeZone={timeZone}
                 onSelectDateKey={(dk) => {
-                  if (isClosedDateKey(dk)) {
+                  if (isClosedDateKey(storeHours, dk)) {
                     if (!isStaffMode) return;
                     if (closedOverrideDates.has(dk)) {
                       setDateKey(dk);
@@ -1882,14 +2094,15 @@ function BookPageContent() {
                   setSubmitError("");
                   setSubmitSuccess("");
                 }}
+                storeHours={storeHours}
                 allowClosed={isStaffMode}
                 closedOverrideDates={closedOverrideDates}
               />
 
               <div className="mt-3 rounded-2xl border border-zinc-200 bg-white p-4 text-sm">
-                <div className="font-extrabold text-zinc-900">{prettyDate(dateKey)}</div>
+                <div className="font-extrabold text-zinc-900">{formatDateKey(dateKey)}</div>
                 <div className={cx("mt-1", closedForStaff ? "text-red-600" : "text-zinc-700")}>
-                  {closedForStaff ? "Closed (admin override required)" : hoursForDateKey(dateKey)}
+                  {closedForStaff ? "Closed (admin override required)" : hoursForDateKey(storeHours, dateKey)}
                 </div>
                 {isStaffMode && hasBlackoutOverride ? (
                   <div className="mt-1 text-xs font-semibold text-amber-700">Blackout override applied.</div>
@@ -1960,18 +2173,29 @@ function BookPageContent() {
               ) : (
                 <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-4">
                   {slots.map((startLabel) => {
-                    const sm = parseLabelToMinutes(startLabel);
+                    const sm = parseTimeLabel(startLabel) ?? 0;
                     const isBlocked = effectiveBlockedSet.has(sm);
+                    const scarcity = isBlocked ? "" : scarcityLabel(capacityByStart.get(sm));
                     const selected = time === startLabel;
-                    const isPastTime = dateKey === todayDateKeyNY() && sm < nowMinutesNY();
+                    const isPastTime = dateKey === nowInTimeZone(timeZone).dateKey && sm < nowInTimeZone(timeZone).minutes;
 
                     return (
                       <button
                         key={startLabel}
                         type="button"
-                        disabled={isBlocked || isPastTime || availabilityLoading}
+                        disabled={(isBlocked && isStaffMode) || isPastTime || availabilityLoading}
                         onClick={() => {
-                          if (isBlocked || isPastTime) return;
+                          if (isPastTime) return;
+                          if (isBlocked) {
+                            // Fully booked: customers can wait for this time instead.
+                            if (!isStaffMode) {
+                              setWaitlistStartMin(sm);
+                              setWaitlistError("");
+                              setWaitlistJoined("");
+                            }
+                            return;
+                          }
+                          setWaitlistStartMin(null);
                           setTime(startLabel);
                           setSubmitError("");
                           setSubmitSuccess("");
@@ -1981,23 +2205,120 @@ function BookPageContent() {
                           selected && !isBlocked && "border-zinc-900 bg-zinc-900 text-white",
                           !selected && !isBlocked && "border-zinc-200 bg-white text-zinc-900 hover:bg-zinc-50",
                           isPastTime && "cursor-not-allowed border-zinc-200 bg-zinc-100 text-zinc-400 line-through opacity-70",
-                          isBlocked && "cursor-not-allowed border-zinc-200 bg-zinc-100 text-zinc-400 line-through opacity-70"
+                          isBlocked && "cursor-not-allowed border-zinc-200 bg-zinc-100 text-zinc-400 line-through opacity-70",
+                          isBlocked && !isStaffMode && !isPastTime && "cursor-pointer",
+                          waitlistStartMin === sm && isBlocked && "border-amber-400 ring-2 ring-amber-200"
                         )}
                         title={
                           isPastTime
                             ? "That time has already passed."
                             : isBlocked
-                            ? "Not enough resources available for this time."
+                            ? isStaffMode
+                              ? "Not enough resources available for this time."
+                              : "Fully booked. Tap to join the waitlist."
                             : "Available"
                         }
                       >
                         {slotRangeLabel(startLabel, bookingWindowMinutes)}
+                        {scarcity ? (
+                          <span
+                            className={cx(
+                              "block text-[10px] font-semibold",
+                              selected ? "text-amber-200" : "text-amber-700"
+                            )}
+                          >
+                            {scarcity}
+                          </span>
+                        ) : null}
                       </button>
                     );
                   })}
                 </div>
               )}
 
+              {!isStaffMode && waitlistStartMin != null ? (
+                <div className="mt-3 rounded-2xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+                  <div className="font-extrabold">
+                    {formatMinutesLabel(waitlistStartMin)} is fully booked. Join the waitlist?
+                  </div>
+                  <div className="mt-1 text-xs">
+                    If a spot opens up, we&apos;ll email you a link that holds it for you for a short time.
+                  </div>
+                  {(() => {
+                    const maxPartySize = capacityByStart.get(waitlistStartMin)?.maxPartySize ?? 0;
+                    return maxPartySize > 0 && maxPartySize < partySize ? (
+                      <div className="mt-2 text-xs font-semibold">
+                        There&apos;s still room for a party of up to {maxPartySize} at this time.
+                      </div>
+                    ) : null;
+                  })()}
+                  {suggestedStartMins.length ? (
+                    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                      <span className="font-semibold">Open nearby:</span>
+                      {suggestedStartMins.map((startMin) => (
+                        <button
+                          key={startMin}
+                          type="button"
+                          onClick={() => {
+                            setWaitlistStartMin(null);
+                            setTime(formatMinutesLabel(startMin));
+                            setSubmitError("");
+                            setSubmitSuccess("");
+                          }}
+                          className="rounded-full border border-amber-300 bg-white px-3 py-1 font-extrabold text-amber-900 hover:bg-amber-100"
+                        >
+                          {formatMinutesLabel(startMin)}
+                        </button>
+                      ))}
+                    </div>
+                  ) : null}
+                  {waitlistJoined ? (
+                    <div className="mt-3 text-sm font-semibold text-emerald-700">{waitlistJoined}</div>
+                  ) : (
+                    <div className="mt-3 grid gap-2 sm:grid-cols-3">
+                      <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Full name"
+                        className="h-10 rounded-xl border border-zinc-200 bg-white px-3 text-sm text-zinc-900"
+                      />
+                      <input
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        type="email"
+                        placeholder="Email"
+                        className="h-10 rounded-xl border border-zinc-200 bg-white px-3 text-sm text-zinc-900"
+                      />
+                      <input
+                        value={phone}
+                        onChange={(e) => setPhone(e.target.value)}
+                        type="tel"
+                        placeholder="Phone (optional)"
+                        className="h-10 rounded-xl border border-zinc-200 bg-white px-3 text-sm text-zinc-900"
+                      />
+                      {waitlistError ? <div className="text-xs text-red-700 sm:col-span-3">{waitlistError}</div> : null}
+                      <div className="flex gap-2 sm:col-span-3">
+                        <button
+                          type="button"
+                          onClick={joinWaitlist}
+                          disabled={waitlistJoining || name.trim().length < 2 || !email.includes("@")}
+                          className="rounded-full bg-zinc-900 px-4 py-2 text-xs font-extrabold text-white disabled:opacity-60"
+                        >
+                          {waitlistJoining ? "Joining..." : "Join Waitlist"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setWaitlistStartMin(null)}
+                          className="rounded-full border border-amber-300 bg-white px-4 py-2 text-xs font-extrabold text-amber-900"
+                        >
+                          Not now
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ) : null}
+
               {isStaffMode && dateKey && !hasClosedOverride ? (
                 <div className="mt-3 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs font-semibold text-amber-800">
                   Need to override blackout restrictions?{" "}
@@ -2014,6 +2335,7 @@ function BookPageContent() {
               {!(isStaffMode ? closedForStaff : closed) && effectiveDuration && dateKey && (
                 <div className="mt-2 text-xs text-zinc-500">
                   Times that are unavailable will be greyed out automatically.
+                  {isStaffMode ? null : " Tap a fully booked time to join its waitlist."}
                 </div>
               )}
             </div>
@@ -2046,7 +2368,7 @@ function BookPageContent() {
 
                 <div className="flex items-center justify-between">
                   <span className="font-semibold text-zinc-600">Date</span>
-                  <span className="font-extrabold text-zinc-900">{dateKey ? prettyDate(dateKey) : "—"}</span>
+                  <span className="font-extrabold text-zinc-900">{dateKey ? formatDateKey(dateKey) : "—"}</span>
                 </div>
 
                 <div className="flex items-center justify-between">
@@ -2092,6 +2414,11 @@ function BookPageContent() {
                       ) : (
                         <div>Axe bays: —</div>
                       )}
+                      {resources.other.map(([type, count]) => (
+                        <div key={type}>
+                          {type}: <span className="font-extrabold">{count}</span>
+                        </div>
+                      ))}
                     </div>
                   </div>
                 )}
@@ -2105,6 +2432,25 @@ function BookPageContent() {
                   {pricing ? formatMoney(cardTotalCents) : "—"}
                 </div>
               </div>
+              {pricing && depositCents > 0 ? (
+                <label className="mt-2 flex items-start gap-2 rounded-2xl border border-sky-200 bg-sky-50 px-3 py-2 text-xs text-sky-900">
+                  <input
+                    type="checkbox"
+                    checked={payDeposit}
+                    onChange={(e) => setPayDeposit(e.target.checked)}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="font-semibold">
+                      Pay a {depositRule?.depositPercent}% deposit now (
+                      {formatMoney(depositCents + cardFeeCents(depositCents))})
+                    </span>
+                    <span className="block">
+                      The remaining {formatMoney(discountedTotalCents - depositCents)} is due at check-in.
+                    </span>
+                  </span>
+                </label>
+              ) : null}
               {isStaffMode ? (
                 <div className="mt-2 flex flex-wrap items-center gap-2 text-[11px]">
                   <button
@@ -2374,6 +2720,7 @@ function BookPageContent() {
                           headers: { "Content-Type": "application/json" },
                           body: JSON.stringify({
                             activity,
+                            locationId: locationKey || undefined,
                             durationMinutes: effectiveDuration,
                             partySize,
                             dateKey,
@@ -2389,6 +2736,7 @@ function BookPageContent() {
                             comboOrder: activity === "Combo Package" ? (comboFirst === "DUCKPIN" ? "DUCKPIN_FIRST" : "AXE_FIRST") : undefined,
                             promoCode: promoApplied?.code || "",
                             totalCentsOverride: finalTotalCents,
+                            ...hoursOverrideFields,
                           }),
                         });
                         const json = await res.json().catch(() => ({}));
@@ -2431,6 +2779,7 @@ function BookPageContent() {
                           headers: { "Content-Type": "application/json" },
                         body: JSON.stringify({
                           activity,
+                          locationId: locationKey || undefined,
                           durationMinutes: effectiveDuration,
                           partySize,
                           dateKey,
@@ -2446,6 +2795,7 @@ function BookPageContent() {
                             comboOrder: activity === "Combo Package" ? (comboFirst === "DUCKPIN" ? "DUCKPIN_FIRST" : "AXE_FIRST") : undefined,
                             promoCode: promoApplied?.code || "",
                             totalCentsOverride: finalTotalCents,
+                            ...hoursOverrideFields,
                           }),
                         });
                         const json = await res.json().catch(() => ({}));
@@ -2634,7 +2984,7 @@ function BookPageContent() {
               <div className="w-full max-w-md rounded-2xl border border-zinc-200 bg-white p-5 shadow-xl">
                 <div className="text-sm font-semibold text-zinc-900">Admin Override Required</div>
                 <div className="mt-1 text-xs text-zinc-500">
-                  Override requested for {prettyDate(overrideTarget.dateKey)}. Enter admin credentials to proceed.
+                  Override requested for {formatDateKey(overrideTarget.dateKey)}. Enter admin credentials to proceed.
                 </div>
                 <div className="mt-4 grid gap-3">
                   <label className="text-xs font-semibold text-zinc-600">
@@ -2706,7 +3056,7 @@ function BookPageContent() {
                 <span className="font-semibold text-zinc-900">Activity:</span> {confirmation.activity}
               </div>
               <div>
-                <span className="font-semibold text-zinc-900">Date:</span> {prettyDate(confirmation.dateKey)}
+                <span className="font-semibold text-zinc-900">Date:</span> {formatDateKey(confirmation.dateKey)}
               </div>
               <div>
                 <span className="font-semibold text-zinc-900">Start/End Time:</span> {confirmation.timeLabel}
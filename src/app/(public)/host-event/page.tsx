@@ -2,91 +2,51 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { PARTY_AREA_OPTIONS, type PartyAreaName, partyAreaCostCents, totalCents, cardFeeCents } from "@/lib/bookingLogic";
+import {
+  EMPTY_STORE_HOURS_CONFIG,
+  closedWeekdaySummary,
+  resolveStoreHoursForDateKey,
+  type StoreHoursConfig,
+} from "@/lib/storeHours";
+import { DEFAULT_RATE_CARD_CONFIG, type RateCardConfig } from "@/lib/rateCard";
+import {
+  dateKeyFromLocalDate,
+  formatDateKey,
+  formatMinutesLabel,
+  formatMinutesRange,
+  localDateFromDateKey,
+  nowInTimeZone,
+} from "@/lib/dateTime";
 
 const ACTIVITIES = ["Axe Throwing", "Duckpin Bowling"] as const;
 const DURATIONS = [30, 60, 120] as const;
 
-function todayDateKeyNY(): string {
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(new Date());
-}
-
-function toDateKey(d: Date) {
-  const yyyy = d.getFullYear();
-  const mm = String(d.getMonth() + 1).padStart(2, "0");
-  const dd = String(d.getDate()).padStart(2, "0");
-  return `${yyyy}-${mm}-${dd}`;
-}
-
-function fromDateKey(dateKey: string) {
-  const [y, m, d] = dateKey.split("-").map(Number);
-  return new Date(y, (m ?? 1) - 1, d ?? 1);
-}
-
-function prettyDate(dateKey: string) {
-  const d = fromDateKey(dateKey);
-  return d.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", year: "numeric" });
-}
-
-function minutesToLabel(mins: number) {
-  const h = Math.floor(mins / 60);
-  const m = mins % 60;
-  const d = new Date();
-  d.setHours(h, m, 0, 0);
-  return d.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
-}
-
 function timeRangeLabel(startMin: number, durationMinutes: number) {
-  const endMin = startMin + durationMinutes;
-  return `${minutesToLabel(startMin)} – ${minutesToLabel(endMin)}`;
-}
-
-function nowMinutesNY() {
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/New_York",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).formatToParts(new Date());
-  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? "0");
-  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? "0");
-  return hour * 60 + minute;
+  return formatMinutesRange(startMin, startMin + durationMinutes);
 }
 
-function weekdayNY(dateKey: string) {
-  const [y, m, d] = dateKey.split("-").map(Number);
-  const utc = Date.UTC(y, (m ?? 1) - 1, d ?? 1, 12, 0, 0);
-  const label = new Intl.DateTimeFormat("en-US", { timeZone: "America/New_York", weekday: "short" }).format(
-    new Date(utc)
-  );
-  const map: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
-  return map[label] ?? 0;
-}
-
-function getOpenWindowForDateKey(dateKey: string): { openMin: number; closeMin: number } | null {
+// Events are public-only, so closed days (from /api/store-hours) have no window at all.
+function getOpenWindowForDateKey(
+  storeHours: StoreHoursConfig,
+  dateKey: string
+): { openMin: number; closeMin: number } | null {
   if (!dateKey) return null;
-  const day = weekdayNY(dateKey);
-  if (day === 4) return { openMin: 16 * 60, closeMin: 22 * 60 };
-  if (day === 5) return { openMin: 16 * 60, closeMin: 23 * 60 };
-  if (day === 6) return { openMin: 12 * 60, closeMin: 23 * 60 };
-  if (day === 0) return { openMin: 12 * 60, closeMin: 21 * 60 };
-  return null;
+  const hours = resolveStoreHoursForDateKey(storeHours, dateKey);
+  if (hours.closed) return null;
+  return { openMin: hours.openMin, closeMin: hours.closeMin };
 }
 
 function MonthCalendar(props: {
   selectedDateKey: string;
   onSelectDateKey: (dateKey: string) => void;
+  storeHours: StoreHoursConfig;
 }) {
-  const { selectedDateKey, onSelectDateKey } = props;
+  const { selectedDateKey, onSelectDateKey, storeHours } = props;
   const [cursor, setCursor] = useState(() => {
-    const base = selectedDateKey ? fromDateKey(selectedDateKey) : new Date();
+    const base = selectedDateKey ? localDateFromDateKey(selectedDateKey) : new Date();
     return new Date(base.getFullYear(), base.getMonth(), 1);
   });
-  const todayKey = todayDateKeyNY();
+  const todayKey = nowInTimeZone().dateKey;
 
   const monthLabel = cursor.toLocaleDateString("en-US", { month: "long", year: "numeric" });
 
@@ -109,7 +69,6 @@ function MonthCalendar(props: {
   }, [cursor]);
 
   const weekDays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
-  const closedWeekdays = new Set([1, 2, 3]);
 
   return (
     <div className="w-full max-w-[420px] rounded-2xl border border-zinc-200 bg-white p-3 sm:max-w-none sm:p-4">
@@ -143,10 +102,10 @@ function MonthCalendar(props: {
         {days.map((cell, idx) => {
           if (!cell.date) return <div key={idx} className="h-9 rounded-xl bg-transparent sm:h-10" />;
 
-          const dk = toDateKey(cell.date);
+          const dk = dateKeyFromLocalDate(cell.date);
           const selected = selectedDateKey === dk;
           const isPast = dk < todayKey;
-          const closed = closedWeekdays.has(cell.date.getDay());
+          const closed = resolveStoreHoursForDateKey(storeHours, dk).closed;
           const disabled = isPast || closed;
 
           return (
@@ -183,7 +142,9 @@ export default function HostEventPage() {
   const [partyAreas, setPartyAreas] = useState<PartyAreaName[]>([]);
   const [partyAreaMinutes, setPartyAreaMinutes] = useState<number | null>(null);
   const [partyAreaTiming, setPartyAreaTiming] = useState<"BEFORE" | "DURING" | "AFTER">("DURING");
-  const [dateKey, setDateKey] = useState(() => todayDateKeyNY());
+  const [dateKey, setDateKey] = useState(() => nowInTimeZone().dateKey);
+  const [storeHours, setStoreHours] = useState<StoreHoursConfig>(EMPTY_STORE_HOURS_CONFIG);
+  const [rateCard, setRateCard] = useState<RateCardConfig>(DEFAULT_RATE_CARD_CONFIG);
   const [startMin, setStartMin] = useState<number | null>(null);
   const [availabilityLoading, setAvailabilityLoading] = useState(false);
   const [availabilityError, setAvailabilityError] = useState("");
@@ -240,6 +201,31 @@ export default function HostEventPage() {
     if (clamped !== partyAreaMinutes) setPartyAreaMinutes(clamped);
   }, [partyAreas, partyAreaMinutes]);
 
+  useEffect(() => {
+    let mounted = true;
+    fetch("/api/store-hours", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (!mounted || !json?.hours) return;
+        setStoreHours(json.hours as StoreHoursConfig);
+      })
+      .catch((err) => {
+        console.error("store hours fetch failed:", err);
+      });
+    fetch("/api/rate-card", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (!mounted || !json?.rateCard?.config) return;
+        setRateCard(json.rateCard.config as RateCardConfig);
+      })
+      .catch((err) => {
+        console.error("rate card fetch failed:", err);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
   const totalDuration = useMemo(() => {
     return selectedActivities.reduce((sum, a) => sum + (durationByActivity[a] || 0), 0);
   }, [selectedActivities, durationByActivity]);
@@ -247,7 +233,7 @@ export default function HostEventPage() {
   const maxPartyAreaMinutes = Math.max(60, Math.floor(totalDuration / 60) * 60);
   const bookingWindowMinutes = Math.max(totalDuration, partyAreaDuration);
 
-  const openWindow = useMemo(() => getOpenWindowForDateKey(dateKey), [dateKey]);
+  const openWindow = useMemo(() => getOpenWindowForDateKey(storeHours, dateKey), [storeHours, dateKey]);
   const partyAreaWindow = useMemo(() => {
     if (!partyAreas.length || partyAreaDuration <= 0 || startMin == null) return null;
     const partyStart =
@@ -290,8 +276,6 @@ export default function HostEventPage() {
               partyAreaTiming: partyAreas.length ? partyAreaTiming : undefined,
               dateKey,
               durationMinutes,
-              openStartMin: openWindow.openMin,
-              openEndMin: openWindow.closeMin,
               slotIntervalMin: 30,
             }),
         })
@@ -347,7 +331,8 @@ export default function HostEventPage() {
     const lastStart = openWindow.closeMin - bookingWindowMinutes;
     if (lastStart < openWindow.openMin) return [];
     const slots: number[] = [];
-    const nowMin = dateKey === todayDateKeyNY() ? nowMinutesNY() : -1;
+    const now = nowInTimeZone();
+    const nowMin = dateKey === now.dateKey ? now.minutes : -1;
     for (let m = openWindow.openMin; m <= lastStart; m += 30) {
       if (nowMin >= 0 && m < nowMin) continue;
       let offset = 0;
@@ -374,10 +359,10 @@ export default function HostEventPage() {
     const activityTotal = selectedActivities.reduce((sum, a) => {
       const duration = durationByActivity[a] || 0;
       if (!duration) return sum;
-      return sum + totalCents(a, partySize, duration);
+      return sum + totalCents(a, partySize, duration, undefined, rateCard);
     }, 0);
     return activityTotal + partyAreaCostCents(partyAreaDuration, partyAreas.length);
-  }, [selectedActivities, durationByActivity, partySize, partyAreaDuration, partyAreas.length]);
+  }, [rateCard, selectedActivities, durationByActivity, partySize, partyAreaDuration, partyAreas.length]);
   const discountedTotalCents = promoApplied?.totalCents ?? baseTotalCents;
   const cardFee = cardFeeCents(discountedTotalCents);
   const cardTotalCents = discountedTotalCents + cardFee;
@@ -386,10 +371,10 @@ export default function HostEventPage() {
   const discountCents = promoApplied?.amountOffCents ?? 0;
 
   const summary = useMemo(() => {
-    const startLabel = startMin == null ? "—" : minutesToLabel(startMin);
-    const endLabel = startMin == null ? "—" : minutesToLabel(startMin + bookingWindowMinutes);
+    const startLabel = startMin == null ? "—" : formatMinutesLabel(startMin);
+    const endLabel = startMin == null ? "—" : formatMinutesLabel(startMin + bookingWindowMinutes);
     return {
-      date: dateKey ? prettyDate(dateKey) : "—",
+      date: dateKey ? formatDateKey(dateKey) : "—",
       time: startMin == null ? "—" : `${startLabel} – ${endLabel}`,
     };
   }, [dateKey, startMin, bookingWindowMinutes]);
@@ -529,7 +514,7 @@ export default function HostEventPage() {
       setPartySize(10);
       setPartyAreas([]);
       setPartyAreaMinutes(null);
-      setDateKey(todayDateKeyNY());
+      setDateKey(nowInTimeZone().dateKey);
       setStartMin(null);
       setContactName("");
       setContactEmail("");
@@ -578,7 +563,7 @@ export default function HostEventPage() {
             <div className="mt-4 grid gap-3 text-sm">
               <div>
                 <span className="font-semibold text-zinc-700">Date:</span>{" "}
-                {requestSummary?.dateKey ? prettyDate(requestSummary.dateKey) : "—"}
+                {requestSummary?.dateKey ? formatDateKey(requestSummary.dateKey) : "—"}
               </div>
               <div>
                 <span className="font-semibold text-zinc-700">Start/End:</span>{" "}
@@ -934,14 +919,18 @@ export default function HostEventPage() {
             <div className="text-sm font-semibold text-zinc-800">5) Date & Time</div>
             <div className="mt-4 flex flex-col gap-4 md:flex-row">
               <div>
-                <MonthCalendar selectedDateKey={dateKey} onSelectDateKey={(dk) => {
-                  setDateKey(dk);
-                  setStartMin(null);
-                }} />
+                <MonthCalendar
+                  selectedDateKey={dateKey}
+                  storeHours={storeHours}
+                  onSelectDateKey={(dk) => {
+                    setDateKey(dk);
+                    setStartMin(null);
+                  }}
+                />
 
                 <div className="mt-4">
                   {!openWindow ? (
-                    <div className="text-xs text-zinc-500">Closed on selected day (Mon–Wed).</div>
+                    <div className="text-xs text-zinc-500">Closed on selected day ({closedWeekdaySummary(storeHours)}).</div>
                   ) : totalDuration <= 0 ? (
                     <div className="text-xs text-zinc-500">Select activities and durations to see time slots.</div>
                   ) : availabilityLoading ? (
@@ -1026,7 +1015,7 @@ export default function HostEventPage() {
                       <div className="mt-1 space-y-1">
                         {selectedActivities.map((activity) => {
                           const duration = durationByActivity[activity] || 0;
-                          const price = duration ? totalCents(activity, partySize, duration) : 0;
+                          const price = duration ? totalCents(activity, partySize, duration, undefined, rateCard) : 0;
                           return (
                             <div key={activity} className="flex items-center justify-between gap-2">
                               <div>
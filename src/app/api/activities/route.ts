@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { loadActivityDefinitions } from "@/lib/server/activities";
+
+export async function GET() {
+  try {
+    const activities = (await loadActivityDefinitions()).filter((activity) => activity.active);
+    return NextResponse.json({ activities }, { status: 200 });
+  } catch (err: any) {
+    console.error("activities fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -3,12 +3,18 @@ import { createClient } from "@supabase/supabase-js";
 import {
   PARTY_AREA_OPTIONS,
   canonicalPartyAreaName,
+  comboDurationsFromRow,
+  comboFirstFromOrder,
   comboSegments,
   neededResources as neededResourcesStandard,
   normalizePartyAreaName,
-  nyLocalDateKeyPlusMinutesToUTCISOString,
   type PartyAreaName,
 } from "@/lib/bookingLogic";
+import { getStoreHoursForDateKey } from "@/lib/server/storeHours";
+import { resolveRequestLocation, scopeToLocation } from "@/lib/server/locations";
+import { loadActivityBlackouts } from "@/lib/server/blackouts";
+import { loadOutOfServiceIntervals } from "@/lib/server/resourceDowntime";
+import { zonedTimeToUtcISOString } from "@/lib/dateTime";
 
 type Activity = "Axe Throwing" | "Duckpin Bowling" | "Combo Package";
 type ResourceType = "AXE" | "DUCKPIN";
@@ -72,8 +78,6 @@ export async function POST(req: Request) {
       | "BEFORE"
       | "DURING"
       | "AFTER");
-    const openStartMin = Number(body?.openStartMin);
-    const openEndMin = Number(body?.openEndMin);
     const slotIntervalMin = Number(body?.slotIntervalMin);
     const order = (body?.order as ComboOrder | undefined) ?? "DUCKPIN_FIRST";
     const ignoreBlackouts = Boolean(body?.ignoreBlackouts);
@@ -100,9 +104,6 @@ export async function POST(req: Request) {
     if (![15, 30, 60, 120].includes(durationMinutes)) {
       return NextResponse.json({ error: "Invalid durationMinutes" }, { status: 400 });
     }
-    if (!Number.isFinite(openStartMin) || !Number.isFinite(openEndMin) || openEndMin <= openStartMin) {
-      return NextResponse.json({ error: "Invalid time window" }, { status: 400 });
-    }
     if (![15, 30, 60].includes(slotIntervalMin)) {
       return NextResponse.json({ error: "Invalid slotIntervalMin" }, { status: 400 });
     }
@@ -110,6 +111,20 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Invalid order" }, { status: 400 });
     }
 
+    const location = await resolveRequestLocation(req, body?.locationId);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+    // Wall-clock minutes are in the location's timezone.
+    const toUtcISO = (key: string, mins: number) => zonedTimeToUtcISOString(key, mins, location.timezone);
+
+    const storeHours = await getStoreHoursForDateKey(dateKey, location);
+    if (storeHours.closed) {
+      return NextResponse.json({ error: "Closed on this date" }, { status: 400 });
+    }
+    const openStartMin = storeHours.openMin;
+    const openEndMin = storeHours.closeMin;
+
     const buyout = partySize >= 25;
     const needs = neededResources(activity, partySize);
     let needsAxe = buyout ? 0 : needs.AXE;
@@ -134,11 +149,10 @@ export async function POST(req: Request) {
     }
     const resolvedTypes = typesToCheck.length ? typesToCheck : (["AXE", "DUCKPIN"] as ResourceType[]);
 
-    const { data: resources, error: resErr } = await supabase
-      .from("resources")
-      .select("id,type,active")
-      .in("type", resolvedTypes)
-      .or("active.eq.true,active.is.null");
+    const { data: resources, error: resErr } = await scopeToLocation(
+      supabase.from("resources").select("id,type,active").in("type", resolvedTypes).or("active.eq.true,active.is.null"),
+      location
+    );
 
     if (resErr) {
       console.error("resources query error:", resErr);
@@ -158,11 +172,14 @@ export async function POST(req: Request) {
     const partyIntervalsById = new Map<string, Array<[number, number]>>();
     if (partyAreas.length) {
       const normalizedPartyNames = new Set(partyAreas.map((name) => normalizePartyAreaName(String(name))));
-      const { data: partyResources, error: partyErr } = await supabase
-        .from("resources")
-        .select("id,name,type,active")
-        .eq("type", "PARTY")
-        .or("active.eq.true,active.is.null");
+      const { data: partyResources, error: partyErr } = await scopeToLocation(
+        supabase
+          .from("resources")
+          .select("id,name,type,active")
+          .eq("type", "PARTY")
+          .or("active.eq.true,active.is.null"),
+        location
+      );
 
       if (partyErr) {
         console.error("party resources query error:", partyErr);
@@ -198,17 +215,7 @@ export async function POST(req: Request) {
       }
     }
 
-    const { data: blackouts, error: blackoutErr } = ignoreBlackouts
-      ? { data: [], error: null }
-      : await supabase
-          .from("blackout_rules")
-          .select("start_min,end_min,activity")
-          .eq("date_key", dateKey)
-          .in("activity", [activityDB, "ALL"]);
-
-    if (blackoutErr) {
-      console.error("blackout rules query error:", blackoutErr);
-    }
+    const blackouts = ignoreBlackouts ? [] : await loadActivityBlackouts(dateKey, [activityDB, "ALL"]);
 
     const { data: buffers, error: bufferErr } = await supabase
       .from("buffer_rules")
@@ -223,8 +230,8 @@ export async function POST(req: Request) {
     const bufferBefore = Math.max(0, ...(buffers || []).map((b: any) => Number(b.before_min) || 0));
     const bufferAfter = Math.max(0, ...(buffers || []).map((b: any) => Number(b.after_min) || 0));
 
-    const openStartISO = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, openStartMin);
-    const openEndISO = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, openEndMin);
+    const openStartISO = toUtcISO(dateKey, openStartMin);
+    const openEndISO = toUtcISO(dateKey, openEndMin);
 
     if (partyResourceIds.length) {
       const { data: partyReservations, error: partyResvErr } = await supabase
@@ -272,7 +279,9 @@ export async function POST(req: Request) {
 
     const { data: bookings, error: bookingsErr } = await supabase
       .from("bookings")
-      .select("activity,party_size,start_ts,end_ts,combo_order,status")
+      .select(
+        "activity,party_size,start_ts,end_ts,combo_order,combo_axe_minutes,combo_duckpin_minutes,combo_transition_minutes,status"
+      )
       .gt("end_ts", openStartISO)
       .lt("start_ts", openEndISO);
 
@@ -305,6 +314,19 @@ export async function POST(req: Request) {
       allIntervals.push([s, e]);
     }
 
+    // Resources out of service (downtime, resource-targeted blackouts) are busy for the window
+    const outOfService = await loadOutOfServiceIntervals(
+      location,
+      [...resourceIds, ...partyResourceIds],
+      openStartISO,
+      openEndISO
+    );
+    for (const { resourceId, startMs, endMs } of outOfService) {
+      const type = (["AXE", "DUCKPIN"] as const).find((key) => activeByType[key].includes(resourceId));
+      const target = type ? intervalsByType[type] : partyIntervalsById;
+      target.set(resourceId, [...(target.get(resourceId) || []), [startMs, endMs]]);
+    }
+
     const bookingList = (bookings || []).filter((b: any) => b?.status !== "CANCELLED");
     for (const row of bookingList) {
       const s = new Date(row.start_ts as string).getTime();
@@ -360,8 +382,11 @@ export async function POST(req: Request) {
         const needs = neededResourcesStandard(activity, party);
 
         if (activity === "Combo Package") {
-          const comboFirst = row.combo_order === "AXE_FIRST" ? "AXE" : "DUCKPIN";
-          const segments = comboSegments(row.start_ts as string, comboFirst);
+          const segments = comboSegments(
+            row.start_ts as string,
+            comboFirstFromOrder(row.combo_order),
+            comboDurationsFromRow(row)
+          );
           if (type === "AXE") {
             const segS = new Date(segments.axe.start).getTime();
             const segE = new Date(segments.axe.end).getTime();
@@ -409,8 +434,8 @@ export async function POST(req: Request) {
       }
 
       if (!blocked) {
-        const slotStartISO = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, slotStartMin);
-        const slotEndISO = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, slotEndMin);
+        const slotStartISO = toUtcISO(dateKey, slotStartMin);
+        const slotEndISO = toUtcISO(dateKey, slotEndMin);
 
         if (buyout) {
           const slotS = new Date(slotStartISO).getTime();
@@ -453,11 +478,11 @@ export async function POST(req: Request) {
         if (partyStartMin < openStartMin || partyEndMin > openEndMin) {
           blocked = true;
         } else {
-          const partyStartISO = nyLocalDateKeyPlusMinutesToUTCISOString(
+          const partyStartISO = toUtcISO(
             dateKey,
             Math.max(openStartMin, partyStartMin - bufferBefore)
           );
-          const partyEndISO = nyLocalDateKeyPlusMinutesToUTCISOString(
+          const partyEndISO = toUtcISO(
             dateKey,
             Math.min(openEndMin, partyEndMin + bufferAfter)
           );
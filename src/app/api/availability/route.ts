@@ -3,14 +3,32 @@ import { createClient } from "@supabase/supabase-js";
 import {
   PARTY_AREA_OPTIONS,
   canonicalPartyAreaName,
+  comboFirstFromOrder,
+  comboSegmentWindows,
   normalizePartyAreaName,
   neededResources,
-  nyLocalDateKeyPlusMinutesToUTCISOString,
+  type Activity,
   type PartyAreaName,
 } from "@/lib/bookingLogic";
-
-type Activity = "Axe Throwing" | "Duckpin Bowling" | "Combo Package";
-type ResourceType = "AXE" | "DUCKPIN";
+import { getStoreHoursForDateKey, getStoreHoursOverride } from "@/lib/server/storeHours";
+import { loadActiveRateCard } from "@/lib/server/rateCards";
+import { loadActivityDefinition } from "@/lib/server/activities";
+import { resolveRequestLocation, scopeToLocation } from "@/lib/server/locations";
+import { loadWaitlistHolds, sweepWaitlistClaims } from "@/lib/server/waitlist";
+import { heldResourceCount, heldResourceIntervals, loadSlotHolds } from "@/lib/server/slotHolds";
+import { loadOutOfServiceIntervals } from "@/lib/server/resourceDowntime";
+import { loadActivityBlackouts } from "@/lib/server/blackouts";
+import { findBookingByManageToken } from "@/lib/server/manageBooking";
+import { zonedTimeToUtcISOString } from "@/lib/dateTime";
+import {
+  freeResourceCount,
+  maxPartySizeFor,
+  overlaps,
+  suggestedStartMins,
+  type SlotCapacity,
+} from "@/lib/availability";
+
+type ResourceType = string;
 type ComboOrder = "DUCKPIN_FIRST" | "AXE_FIRST";
 const PARTY_AREA_OPTIONS_SAFE = Array.isArray(PARTY_AREA_OPTIONS) ? PARTY_AREA_OPTIONS : [];
 const PARTY_AREA_BOOKABLE_SET: Set<string> = new Set(
@@ -30,17 +48,6 @@ function getSupabaseAdmin() {
   });
 }
 
-function overlaps(aStart: number, aEnd: number, bStart: number, bEnd: number) {
-  // overlap if start < otherEnd and end > otherStart
-  return aStart < bEnd && aEnd > bStart;
-}
-
-function mapActivityToDB(activity: Activity) {
-  if (activity === "Axe Throwing") return "AXE";
-  if (activity === "Duckpin Bowling") return "DUCKPIN";
-  return "COMBO";
-}
-
 export async function POST(req: Request) {
   try {
     const body = await req.json().catch(() => null);
@@ -56,8 +63,6 @@ export async function POST(req: Request) {
       | "BEFORE"
       | "DURING"
       | "AFTER");
-    const openStartMin = Number(body?.openStartMin);
-    const openEndMin = Number(body?.openEndMin);
     const slotIntervalMin = Number(body?.slotIntervalMin);
     const order = (body?.order as ComboOrder | undefined) ?? "DUCKPIN_FIRST";
     const ignoreBlackouts = Boolean(body?.ignoreBlackouts);
@@ -73,7 +78,14 @@ export async function POST(req: Request) {
       : [];
 
     // Basic validation
-    if (!activity || !["Axe Throwing", "Duckpin Bowling", "Combo Package"].includes(activity)) {
+    const location = await resolveRequestLocation(req, body?.locationId);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+    // Wall-clock minutes are in the location's timezone.
+    const toUtcISO = (key: string, mins: number) => zonedTimeToUtcISOString(key, mins, location.timezone);
+    const definition = activity ? await loadActivityDefinition(activity) : null;
+    if (!activity || !definition) {
       return NextResponse.json({ error: "Invalid activity" }, { status: 400 });
     }
     if (!dateKey || !/^\d{4}-\d{2}-\d{2}$/.test(dateKey)) {
@@ -82,19 +94,21 @@ export async function POST(req: Request) {
     if (!Number.isFinite(partySize) || partySize < 1) {
       return NextResponse.json({ error: "Invalid partySize" }, { status: 400 });
     }
-    const validDurations = [15, 30, 60, 120];
+    const validDurations = Array.from(new Set([15, 30, 60, 120, ...definition.durations]));
     const isCombo = activity === "Combo Package";
     if (!isCombo && !validDurations.includes(durationMinutes)) {
       return NextResponse.json({ error: "Invalid durationMinutes" }, { status: 400 });
     }
     if (isCombo) {
-      if (!validDurations.includes(comboAxeMinutes) || !validDurations.includes(comboDuckpinMinutes)) {
+      const segmentDurations = (type: string) =>
+        definition.resources.find((rule) => rule.type === type)?.durations ?? validDurations;
+      if (
+        !segmentDurations("AXE").includes(comboAxeMinutes) ||
+        !segmentDurations("DUCKPIN").includes(comboDuckpinMinutes)
+      ) {
         return NextResponse.json({ error: "Invalid combo durations" }, { status: 400 });
       }
     }
-    if (!Number.isFinite(openStartMin) || !Number.isFinite(openEndMin) || openEndMin <= openStartMin) {
-      return NextResponse.json({ error: "Invalid time window" }, { status: 400 });
-    }
     if (![15, 30, 60].includes(slotIntervalMin)) {
       return NextResponse.json({ error: "Invalid slotIntervalMin" }, { status: 400 });
     }
@@ -102,46 +116,68 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Invalid order" }, { status: 400 });
     }
 
-    const needs = neededResources(activity, partySize);
-    const needsAxe = needs.AXE;
-    const needsDuck = needs.DUCKPIN;
+    // Open window comes from the store-hours tables (closed days resolve to the admin override window).
+    const storeHours = await getStoreHoursForDateKey(dateKey, location);
+    const openStartMin = storeHours.openMin;
+    const openEndMin = storeHours.closeMin;
+    const hoursOverride = storeHours.closed ? await getStoreHoursOverride(body) : null;
 
-    const comboTotalMinutes = isCombo ? comboAxeMinutes + comboDuckpinMinutes : durationMinutes;
+    const rateCard = await loadActiveRateCard(location);
+    const needs = neededResources(activity, partySize, rateCard.config, definition);
+    const typesToCheck: ResourceType[] = Object.keys(needs).filter((type) => needs[type] > 0);
+
+    const comboDurations = {
+      axeMinutes: comboAxeMinutes,
+      duckpinMinutes: comboDuckpinMinutes,
+      transitionMinutes: definition.transitionMinutes,
+    };
+    const comboFirst = comboFirstFromOrder(order);
+    const comboTotalMinutes = isCombo
+      ? comboSegmentWindows(0, comboFirst, comboDurations).overall.endMin
+      : durationMinutes;
     const partyDurationMinutes =
       partyAreas.length && Number.isFinite(partyAreaMinutes)
         ? Math.min(480, Math.max(60, Math.round(partyAreaMinutes / 60) * 60))
         : 0;
     const bookingWindowMinutes = Math.max(comboTotalMinutes, partyDurationMinutes);
 
+    // Closed days are only bookable from a staff session with an explicit override.
+    if (storeHours.closed && !hoursOverride) {
+      const blockedAll: number[] = [];
+      const lastStart = openEndMin - bookingWindowMinutes;
+      for (let t = openStartMin; t <= lastStart; t += slotIntervalMin) blockedAll.push(t);
+      return NextResponse.json({ blockedStartMins: blockedAll, closed: true }, { status: 200 });
+    }
+
     // If somehow nothing needed, nothing blocked.
-    if (needsAxe <= 0 && needsDuck <= 0 && partyAreas.length === 0) {
+    if (!typesToCheck.length && partyAreas.length === 0) {
       return NextResponse.json({ blockedStartMins: [] }, { status: 200 });
     }
 
     const supabase = getSupabaseAdmin();
-    const activityDB = mapActivityToDB(activity);
+    const activityDB = definition.key;
 
     // 1) Load active resource counts for relevant types
-    const typesToCheck: ResourceType[] = [];
-    if (needsAxe > 0) typesToCheck.push("AXE");
-    if (needsDuck > 0) typesToCheck.push("DUCKPIN");
 
-    const { data: resources, error: resErr } = await supabase
-      .from("resources")
-      .select("id,type,active")
-      .in("type", typesToCheck)
-      // Treat NULL as active to match staff UI behavior.
-      .or("active.eq.true,active.is.null");
+    const { data: resources, error: resErr } = await scopeToLocation(
+      supabase
+        .from("resources")
+        .select("id,type,active")
+        .in("type", typesToCheck)
+        // Treat NULL as active to match staff UI behavior.
+        .or("active.eq.true,active.is.null"),
+      location
+    );
 
     if (resErr) {
       console.error("resources query error:", resErr);
       return NextResponse.json({ error: "Database error (resources)" }, { status: 500 });
     }
 
-    const activeByType: Record<ResourceType, string[]> = { AXE: [], DUCKPIN: [] };
+    const activeByType: Record<ResourceType, string[]> = Object.fromEntries(typesToCheck.map((type) => [type, []]));
     for (const r of resources || []) {
       const t = r.type as ResourceType;
-      if (t === "AXE" || t === "DUCKPIN") activeByType[t].push(r.id);
+      if (activeByType[t]) activeByType[t].push(r.id);
     }
 
     let partyResourceIds: string[] = [];
@@ -149,11 +185,14 @@ export async function POST(req: Request) {
 
     if (partyAreas.length) {
       const normalizedPartyNames = new Set(partyAreas.map((name) => normalizePartyAreaName(String(name))));
-      const { data: partyResources, error: partyErr } = await supabase
-        .from("resources")
-        .select("id,name,type,active")
-        .eq("type", "PARTY")
-        .or("active.eq.true,active.is.null");
+      const { data: partyResources, error: partyErr } = await scopeToLocation(
+        supabase
+          .from("resources")
+          .select("id,name,type,active")
+          .eq("type", "PARTY")
+          .or("active.eq.true,active.is.null"),
+        location
+      );
 
       if (partyErr) {
         console.error("party resources query error:", partyErr);
@@ -173,26 +212,8 @@ export async function POST(req: Request) {
       }
     }
 
-    // If there aren’t even enough total resources, every slot is blocked
-    if ((needsAxe > 0 && activeByType.AXE.length < needsAxe) || (needsDuck > 0 && activeByType.DUCKPIN.length < needsDuck)) {
-      const blockedAll: number[] = [];
-      const lastStart = openEndMin - bookingWindowMinutes;
-      for (let t = openStartMin; t <= lastStart; t += slotIntervalMin) blockedAll.push(t);
-      return NextResponse.json({ blockedStartMins: blockedAll }, { status: 200 });
-    }
-
-    // 2a) Load blackout rules for the date/activity
-    const { data: blackouts, error: blackoutErr } = ignoreBlackouts
-      ? { data: [], error: null }
-      : await supabase
-          .from("blackout_rules")
-          .select("start_min,end_min,activity")
-          .eq("date_key", dateKey)
-          .in("activity", [activityDB, "ALL"]);
-
-    if (blackoutErr) {
-      console.error("blackout rules query error:", blackoutErr);
-    }
+    // 2a) Load blackout rules for the date/activity (one-off and recurring; resource-targeted ones come in at 3a)
+    const blackouts = ignoreBlackouts ? [] : await loadActivityBlackouts(dateKey, [activityDB, "ALL"]);
 
     // 2b) Load buffer rules for activity (default 0)
     const { data: buffers, error: bufferErr } = await supabase
@@ -214,14 +235,18 @@ export async function POST(req: Request) {
       ...(buffers || []).map((b: any) => Number(b.after_min) || 0)
     );
 
+    // Moving an existing booking from /manage: its own reservations don't block its new time.
+    const managedBooking = body?.manageToken ? await findBookingByManageToken(String(body.manageToken)) : null;
+    const excludeBookingId = managedBooking?.id ? String(managedBooking.id) : null;
+
     // 3) Fetch all reservations overlapping the OPEN window for relevant resource types
-    const openStartISO = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, openStartMin);
-    const openEndISO = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, openEndMin);
+    const openStartISO = toUtcISO(dateKey, openStartMin);
+    const openEndISO = toUtcISO(dateKey, openEndMin);
 
     if (partyResourceIds.length) {
       const { data: partyReservations, error: partyResvErr } = await supabase
         .from("resource_reservations")
-        .select("resource_id,start_ts,end_ts, bookings(status)")
+        .select("resource_id,start_ts,end_ts,booking_id, bookings(status)")
         .gt("end_ts", openStartISO)
         .lt("start_ts", openEndISO)
         .in("resource_id", partyResourceIds);
@@ -233,6 +258,7 @@ export async function POST(req: Request) {
 
       for (const row of partyReservations || []) {
         if ((row as any)?.bookings == null) continue;
+        if (excludeBookingId && row.booking_id === excludeBookingId) continue;
         const status = (row as any)?.bookings?.status as string | null | undefined;
         if (status === "CANCELLED") continue;
         const resourceId = row.resource_id as string;
@@ -248,10 +274,10 @@ export async function POST(req: Request) {
     // We join resources to get resource type
     const { data: reservations, error: rrErr } = await supabase
       .from("resource_reservations")
-      .select("resource_id,start_ts,end_ts, resources!inner(type), bookings(status)")
+      .select("resource_id,start_ts,end_ts,booking_id, resources!inner(type), bookings(status)")
       .gt("end_ts", openStartISO) // ends after openStart
       .lt("start_ts", openEndISO) // starts before openEnd
-      .in("resource_id", [...activeByType.AXE, ...activeByType.DUCKPIN]); // only active resources we care about
+      .in("resource_id", typesToCheck.flatMap((type) => activeByType[type])); // only active resources we care about
 
     if (rrErr) {
       console.error("reservations query error:", rrErr);
@@ -259,18 +285,18 @@ export async function POST(req: Request) {
     }
 
     // Build map: type -> resource_id -> list of [startMs,endMs] (UTC ms)
-    const intervalsByType: Record<ResourceType, Map<string, Array<[number, number]>>> = {
-      AXE: new Map(),
-      DUCKPIN: new Map(),
-    };
+    const intervalsByType: Record<ResourceType, Map<string, Array<[number, number]>>> = Object.fromEntries(
+      typesToCheck.map((type) => [type, new Map()])
+    );
 
     for (const row of reservations || []) {
       if ((row as any)?.bookings == null) continue;
       const status = (row as any)?.bookings?.status as string | null | undefined;
       if (status === "CANCELLED") continue;
+      if (excludeBookingId && row.booking_id === excludeBookingId) continue;
       const resourceId = row.resource_id as string;
       const type = (row as any)?.resources?.type as ResourceType | undefined;
-      if (!type || (type !== "AXE" && type !== "DUCKPIN")) continue;
+      if (!type || !intervalsByType[type]) continue;
 
       const s = new Date(row.start_ts as string).getTime();
       const e = new Date(row.end_ts as string).getTime();
@@ -282,42 +308,64 @@ export async function POST(req: Request) {
       m.set(resourceId, list);
     }
 
+    // 3a) Resources out of service (resource_downtime, resource-targeted blackouts) are busy for the window
+    const downtime = await loadOutOfServiceIntervals(
+      location,
+      [...typesToCheck.flatMap((type) => activeByType[type]), ...partyResourceIds],
+      openStartISO,
+      openEndISO
+    );
+    const typeByResourceId = new Map(
+      typesToCheck.flatMap((type) => activeByType[type].map((resourceId) => [resourceId, type] as const))
+    );
+    for (const { resourceId, startMs, endMs } of downtime) {
+      const type = typeByResourceId.get(resourceId);
+      const target = type ? intervalsByType[type] : partyIntervalsById;
+      target.set(resourceId, [...(target.get(resourceId) || []), [startMs, endMs]]);
+    }
+
+    // 3b) Waitlist claim holds keep freed resources for the notified customer (their own token sees them as free)
+    await sweepWaitlistClaims(location, dateKey);
+    const waitlistHolds = await loadWaitlistHolds(location, dateKey);
+    const waitlistToken = String(body?.waitlistToken || "").trim() || null;
+
+    // 3c) Checkout holds count as busy for everyone but the customer who started that checkout
+    const slotHolds = await loadSlotHolds(location, dateKey);
+    const holdToken = String(body?.holdToken || "").trim() || null;
+    for (const resourceId of partyResourceIds) {
+      const held = heldResourceIntervals(slotHolds, resourceId, holdToken);
+      if (held.length) partyIntervalsById.set(resourceId, [...(partyIntervalsById.get(resourceId) || []), ...held]);
+    }
+
     // Helper: count how many resources of a type are fully free for the slot window
     const countFree = (type: ResourceType, slotStartISO: string, slotEndISO: string) => {
       const slotS = new Date(slotStartISO).getTime();
       const slotE = new Date(slotEndISO).getTime();
-      let free = 0;
-
-      for (const resourceId of activeByType[type]) {
-        const intervals = intervalsByType[type].get(resourceId) || [];
-        let isUsed = false;
-        for (const [s, e] of intervals) {
-          if (overlaps(slotS, slotE, s, e)) {
-            isUsed = true;
-            break;
-          }
-        }
-        if (!isUsed) free += 1;
-      }
-
-      return free;
+      return (
+        freeResourceCount(activeByType[type] || [], intervalsByType[type] ?? new Map(), slotS, slotE) -
+        heldResourceCount(waitlistHolds, type, slotS, slotE, waitlistToken) -
+        heldResourceCount(slotHolds, type, slotS, slotE, holdToken)
+      );
     };
 
-    const partyBlocked = (slotStartISO: string, slotEndISO: string) => {
-      if (!partyResourceIds.length) return false;
-      const slotS = new Date(slotStartISO).getTime();
-      const slotE = new Date(slotEndISO).getTime();
-      for (const resourceId of partyResourceIds) {
-        const intervals = partyIntervalsById.get(resourceId) || [];
-        for (const [s, e] of intervals) {
-          if (overlaps(slotS, slotE, s, e)) return true;
-        }
-      }
-      return false;
-    };
+    const partyFreeCount = (slotStartISO: string, slotEndISO: string) =>
+      freeResourceCount(
+        partyResourceIds,
+        partyIntervalsById,
+        new Date(slotStartISO).getTime(),
+        new Date(slotEndISO).getTime()
+      );
+
+    // Largest party (up to the activity's limit) whose resource needs fit what's left at a start time.
+    const maxPartySize = (remaining: Record<string, number>) =>
+      maxPartySizeFor(remaining, typesToCheck, definition.maxPartySize, (size) =>
+        neededResources(activity, size, rateCard.config, definition)
+      );
 
     const blockedStartMins: number[] = [];
+    const slots: SlotCapacity[] = [];
     const lastStart = openEndMin - bookingWindowMinutes;
+    const noneLeft = () => Object.fromEntries(typesToCheck.map((type) => [type, 0]));
 
     for (let startMin = openStartMin; startMin <= lastStart; startMin += slotIntervalMin) {
       let blocked = false;
@@ -336,83 +384,50 @@ export async function POST(req: Request) {
       }
       if (blocked) {
         blockedStartMins.push(startMin);
+        slots.push({ startMin, remaining: noneLeft(), maxPartySize: 0 });
         continue;
       }
 
+      // Free resources of each type over the window that type is used in (its own segment for combos)
+      let remaining: Record<string, number>;
       if (activity === "Combo Package") {
-        const firstSegDuration = order === "DUCKPIN_FIRST" ? comboDuckpinMinutes : comboAxeMinutes;
-        const secondSegDuration = order === "DUCKPIN_FIRST" ? comboAxeMinutes : comboDuckpinMinutes;
-
-        const seg1Start = startMin;
-        const seg1End = seg1Start + firstSegDuration;
-        const seg2Start = seg1End;
-        const seg2End = seg2Start + secondSegDuration;
+        const segments = comboSegmentWindows(startMin, comboFirst, comboDurations);
 
         // Ensure segments fit (defensive)
-        if (seg2End > openEndMin) {
+        if (segments.overall.endMin > openEndMin) {
           blockedStartMins.push(startMin);
+          slots.push({ startMin, remaining: noneLeft(), maxPartySize: 0 });
           continue;
         }
 
-        const duckpinSegStart = order === "DUCKPIN_FIRST" ? seg1Start : seg2Start;
-        const duckpinSegEnd = order === "DUCKPIN_FIRST" ? seg1End : seg2End;
-
-        const axeSegStart = order === "DUCKPIN_FIRST" ? seg2Start : seg1Start;
-        const axeSegEnd = order === "DUCKPIN_FIRST" ? seg2End : seg1End;
-
-        const duckpinStartISO = nyLocalDateKeyPlusMinutesToUTCISOString(
-          dateKey,
-          Math.max(openStartMin, duckpinSegStart - bufferBefore)
-        );
-        const duckpinEndISO = nyLocalDateKeyPlusMinutesToUTCISOString(
-          dateKey,
-          Math.min(openEndMin, duckpinSegEnd + bufferAfter)
-        );
-
-        const axeStartISO = nyLocalDateKeyPlusMinutesToUTCISOString(
-          dateKey,
-          Math.max(openStartMin, axeSegStart - bufferBefore)
-        );
-        const axeEndISO = nyLocalDateKeyPlusMinutesToUTCISOString(
-          dateKey,
-          Math.min(openEndMin, axeSegEnd + bufferAfter)
+        remaining = Object.fromEntries(
+          typesToCheck.map((type) => {
+            const segment = type === "DUCKPIN" ? segments.duckpin : segments.axe;
+            const segStartISO = toUtcISO(dateKey, Math.max(openStartMin, segment.startMin - bufferBefore));
+            const segEndISO = toUtcISO(dateKey, Math.min(openEndMin, segment.endMin + bufferAfter));
+            return [type, Math.max(0, countFree(type, segStartISO, segEndISO))];
+          })
         );
-
-        // duckpin check only during duckpin segment
-        if (needsDuck > 0) {
-          const freeDuck = countFree("DUCKPIN", duckpinStartISO, duckpinEndISO);
-          if (freeDuck < needsDuck) blocked = true;
-        }
-
-        // axe check only during axe segment
-        if (!blocked && needsAxe > 0) {
-          const freeAxe = countFree("AXE", axeStartISO, axeEndISO);
-          if (freeAxe < needsAxe) blocked = true;
-        }
       } else {
         // Non-combo: single window
         const endMin = startMin + durationMinutes;
-        const slotStartISO = nyLocalDateKeyPlusMinutesToUTCISOString(
+        const slotStartISO = toUtcISO(
           dateKey,
           Math.max(openStartMin, startMin - bufferBefore)
         );
-        const slotEndISO = nyLocalDateKeyPlusMinutesToUTCISOString(
+        const slotEndISO = toUtcISO(
           dateKey,
           Math.min(openEndMin, endMin + bufferAfter)
         );
 
-        if (needsAxe > 0) {
-          const freeAxe = countFree("AXE", slotStartISO, slotEndISO);
-          if (freeAxe < needsAxe) blocked = true;
-        }
-
-        if (!blocked && needsDuck > 0) {
-          const freeDuck = countFree("DUCKPIN", slotStartISO, slotEndISO);
-          if (freeDuck < needsDuck) blocked = true;
-        }
+        remaining = Object.fromEntries(
+          typesToCheck.map((type) => [type, Math.max(0, countFree(type, slotStartISO, slotEndISO))])
+        );
       }
+      if (typesToCheck.some((type) => remaining[type] < needs[type])) blocked = true;
 
-      if (!blocked && partyResourceIds.length) {
+      let partyAreasOpen = true;
+      if (partyResourceIds.length) {
         const partyWindowMinutes = partyDurationMinutes || comboTotalMinutes;
         const partyStartMin =
           partyAreaTiming === "BEFORE"
@@ -422,24 +437,31 @@ export async function POST(req: Request) {
             : startMin;
         const partyEndMin = partyStartMin + partyWindowMinutes;
         if (partyStartMin < openStartMin || partyEndMin > openEndMin) {
-          blocked = true;
+          remaining.PARTY = 0;
         } else {
-          const partyStartISO = nyLocalDateKeyPlusMinutesToUTCISOString(
+          const partyStartISO = toUtcISO(
             dateKey,
             Math.max(openStartMin, partyStartMin - bufferBefore)
           );
-          const partyEndISO = nyLocalDateKeyPlusMinutesToUTCISOString(
+          const partyEndISO = toUtcISO(
             dateKey,
             Math.min(openEndMin, partyEndMin + bufferAfter)
           );
-          if (partyBlocked(partyStartISO, partyEndISO)) blocked = true;
+          remaining.PARTY = partyFreeCount(partyStartISO, partyEndISO);
         }
+        partyAreasOpen = remaining.PARTY === partyResourceIds.length;
+        if (!partyAreasOpen) blocked = true;
       }
 
       if (blocked) blockedStartMins.push(startMin);
+      slots.push({ startMin, remaining, maxPartySize: partyAreasOpen ? maxPartySize(remaining) : 0 });
     }
 
-    return NextResponse.json({ blockedStartMins }, { status: 200 });
+    // Nearest open starts to a full requested time.
+    const requestedStartMin = body?.requestedStartMin != null ? Number(body.requestedStartMin) : null;
+    const suggested = suggestedStartMins(slots.map((slot) => slot.startMin), blockedStartMins, requestedStartMin);
+
+    return NextResponse.json({ blockedStartMins, slots, suggestedStartMins: suggested }, { status: 200 });
   } catch (e: any) {
     console.error("availability route fatal:", e);
     return NextResponse.json({ error: e?.message || "Server error" }, { status: 500 });
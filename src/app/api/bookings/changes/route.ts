@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { isValidDateKey } from "@/lib/dateTime";
+import { BOOKING_CHANGE_TYPES, type BookingChangeType } from "@/lib/server/bookingChanges";
 
 function supabaseAdmin() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -19,9 +21,19 @@ export async function POST(req: Request) {
     const note = String(body?.note || "").trim();
 
     if (!bookingId) return NextResponse.json({ error: "Missing booking_id" }, { status: 400 });
-    if (!["RESCHEDULE", "CANCEL", "REFUND"].includes(changeType)) {
+    if (!BOOKING_CHANGE_TYPES.includes(changeType as BookingChangeType)) {
       return NextResponse.json({ error: "Invalid change_type" }, { status: 400 });
     }
+    // Optional preferred new time for a reschedule; staff can pick another when approving.
+    const requestedDateKey = String(body?.requested_date_key || "").trim();
+    const requestedStartMin = body?.requested_start_min == null ? null : Number(body.requested_start_min);
+    if (requestedDateKey && !isValidDateKey(requestedDateKey)) {
+      return NextResponse.json({ error: "Invalid requested_date_key" }, { status: 400 });
+    }
+    if (requestedStartMin != null && !Number.isFinite(requestedStartMin)) {
+      return NextResponse.json({ error: "Invalid requested_start_min" }, { status: 400 });
+    }
+    const wantsTime = changeType === "RESCHEDULE" && requestedDateKey;
 
     const sb = supabaseAdmin();
     const { data, error } = await sb
@@ -31,8 +43,10 @@ export async function POST(req: Request) {
         change_type: changeType,
         status: "PENDING",
         note: note || null,
+        requested_date_key: wantsTime ? requestedDateKey : null,
+        requested_start_min: wantsTime && requestedStartMin != null ? Math.round(requestedStartMin) : null,
       })
-      .select("id,booking_id,change_type,status,requested_at")
+      .select("id,booking_id,change_type,status,requested_at,requested_date_key,requested_start_min")
       .single();
 
     if (error) {
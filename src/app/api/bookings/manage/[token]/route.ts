@@ -0,0 +1,233 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { comboDurationsFromRow, comboFirstFromOrder, comboSegmentWindows } from "@/lib/bookingLogic";
+import { findActivityByKey } from "@/lib/activities";
+import { defaultLocation, findLocation, type Location } from "@/lib/locations";
+import { loadActivityDefinitions } from "@/lib/server/activities";
+import { loadLocations } from "@/lib/server/locations";
+import { balanceDueCents, collectedCents } from "@/lib/deposits";
+import {
+  loadBookingPolicy,
+  policyDeadlines,
+  refundAllowance,
+  type BookingPolicy,
+} from "@/lib/server/bookingPolicies";
+import { findBookingByManageToken, type ManagedBooking } from "@/lib/server/manageBooking";
+import { cancelBookingAndRelease, moveBooking, recordBookingChange } from "@/lib/server/bookingChanges";
+import { buildWaiverUrl } from "@/lib/server/waiverService";
+import { sendOwnerNotification } from "@/lib/server/mailer";
+import { formatInstant, isValidDateKey, toZonedTime, zonedTimeToUtcISOString } from "@/lib/dateTime";
+
+type RouteContext = { params: Promise<{ token: string }> | { token: string } };
+
+async function resolveToken(context: RouteContext) {
+  const resolvedParams = await Promise.resolve(context.params);
+  return String(resolvedParams?.token || "").trim();
+}
+
+async function loadWaiverStatus(booking: ManagedBooking) {
+  const sb = supabaseServer();
+  const { data: request } = await sb
+    .from("waiver_requests")
+    .select("token,status")
+    .eq("booking_id", booking.id)
+    .maybeSingle();
+  if (request?.status === "SIGNED") return { status: "SIGNED", url: null };
+
+  if (booking.customer_id) {
+    const { data: signed } = await sb
+      .from("customer_waivers")
+      .select("id")
+      .eq("customer_id", booking.customer_id)
+      .limit(1)
+      .maybeSingle();
+    if (signed?.id) return { status: "SIGNED", url: null };
+  }
+
+  if (request?.token) return { status: "PENDING", url: buildWaiverUrl(String(request.token), booking.id) };
+  return { status: "NOT_REQUIRED", url: null };
+}
+
+/** Policy refund on what the customer has paid so far, deposit or part payments included; null when nothing was. */
+function refundFor(booking: ManagedBooking, policy: BookingPolicy) {
+  if (booking.paid !== true && !balanceDueCents(booking)) return null;
+  return refundAllowance({ ...booking, total_cents: collectedCents(booking) }, policy);
+}
+
+async function notifyOwner(
+  subject: string,
+  booking: ManagedBooking & { startIso?: string },
+  location: Location,
+  extraLines: Array<string | null>
+) {
+  try {
+    const startTs = booking.startIso ?? booking.start_ts;
+    await sendOwnerNotification({
+      subject,
+      lines: [
+        `Booking ID: ${booking.id}`,
+        `Customer: ${booking.customer_name || "—"}`,
+        booking.customer_email ? `Email: ${booking.customer_email}` : null,
+        `Activity: ${booking.activity || "—"}`,
+        `Time: ${formatInstant(startTs, location.timezone, "dateTime")}`,
+        ...extraLines,
+      ].filter(Boolean) as string[],
+    });
+  } catch (err) {
+    console.error("manage booking owner notify error:", err);
+  }
+}
+
+export async function GET(_req: Request, context: RouteContext) {
+  try {
+    const token = await resolveToken(context);
+    const booking = token ? await findBookingByManageToken(token) : null;
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    const locations = await loadLocations();
+    const location = findLocation(locations, booking.location_id) ?? defaultLocation(locations);
+    const definitions = await loadActivityDefinitions();
+    const activityDefinition = findActivityByKey(definitions, booking.activity);
+    const activityName = activityDefinition?.name ?? String(booking.activity || "");
+    const start = toZonedTime(booking.start_ts, location.timezone);
+    const lengthMs = new Date(booking.end_ts).getTime() - new Date(booking.start_ts).getTime();
+    const isCombo = activityName === "Combo Package";
+    const combo = comboSegmentWindows(0, comboFirstFromOrder(booking.combo_order), comboDurationsFromRow(booking));
+
+    const policy = await loadBookingPolicy();
+    const changes = policyDeadlines(booking, policy);
+    const waiver = await loadWaiverStatus(booking);
+
+    return NextResponse.json(
+      {
+        booking: {
+          activity: activityName,
+          partySize: booking.party_size,
+          dateKey: start.dateKey,
+          startMin: start.minutes,
+          endMin: start.minutes + Math.round(lengthMs / 60000),
+          status: booking.status,
+          paid: booking.paid === true,
+          totalCents: booking.total_cents ?? null,
+          customerName: booking.customer_name,
+          locationName: location.name,
+          timeZone: location.timezone,
+        },
+        waiver,
+        policy: {
+          cancelWindowHours: policy.cancelWindowHours,
+          rescheduleWindowHours: policy.rescheduleWindowHours,
+          notes: policy.notes,
+          cancelBy: changes.cancelBy,
+          rescheduleBy: changes.rescheduleBy,
+        },
+        refund: refundFor(booking, policy),
+        canCancel: changes.canCancel,
+        canReschedule: changes.canReschedule && !!activityDefinition,
+        // What /api/availability needs to list times this booking could move to.
+        availability: {
+          activity: activityName,
+          partySize: booking.party_size,
+          durationMinutes: Number(booking.duration_minutes || 0),
+          comboAxeMinutes: isCombo ? combo.axe.endMin - combo.axe.startMin : undefined,
+          comboDuckpinMinutes: isCombo ? combo.duckpin.endMin - combo.duckpin.startMin : undefined,
+          order: isCombo ? booking.combo_order || "DUCKPIN_FIRST" : undefined,
+          locationId: location.id ?? undefined,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("manage booking fetch fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
+
+// Customer self-service: CANCEL, or RESCHEDULE to { dateKey, startMin } at the same location.
+export async function POST(req: Request, context: RouteContext) {
+  try {
+    const token = await resolveToken(context);
+    const booking = token ? await findBookingByManageToken(token) : null;
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const action = String(body?.action || "").toUpperCase();
+    if (action !== "CANCEL" && action !== "RESCHEDULE") {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    const policy = await loadBookingPolicy();
+    const changes = policyDeadlines(booking, policy);
+    const locations = await loadLocations();
+    const location = findLocation(locations, booking.location_id) ?? defaultLocation(locations);
+
+    if (action === "CANCEL") {
+      if (!changes.canCancel) {
+        return NextResponse.json(
+          { error: `Bookings can only be cancelled online up to ${policy.cancelWindowHours} hours before start.` },
+          { status: 400 }
+        );
+      }
+      await cancelBookingAndRelease(booking);
+      await recordBookingChange({
+        bookingId: booking.id,
+        changeType: "CANCEL",
+        status: "COMPLETED",
+        note: "Cancelled by customer",
+      });
+      // Refunds still go through staff, who see the policy amount in the queue.
+      const refund = refundFor(booking, policy);
+      if (refund) {
+        await recordBookingChange({
+          bookingId: booking.id,
+          changeType: "REFUND",
+          status: "PENDING",
+          note: `Customer cancelled a paid booking online. Policy refund: $${(refund.allowedCents / 100).toFixed(2)}`,
+        });
+      }
+      await notifyOwner("Axe Quacks: Booking Cancelled by Customer", booking, location, [
+        refund ? `Refund: $${(refund.allowedCents / 100).toFixed(2)} by policy, pending staff review` : null,
+      ]);
+      return NextResponse.json({ ok: true }, { status: 200 });
+    }
+
+    if (!changes.canReschedule) {
+      return NextResponse.json(
+        { error: `Bookings can only be rescheduled online up to ${policy.rescheduleWindowHours} hours before start.` },
+        { status: 400 }
+      );
+    }
+    const dateKey = String(body?.dateKey || "").trim();
+    const startMin = Number(body?.startMin);
+    if (!isValidDateKey(dateKey) || !Number.isFinite(startMin)) {
+      return NextResponse.json({ error: "Pick a new date and time" }, { status: 400 });
+    }
+    if (new Date(zonedTimeToUtcISOString(dateKey, startMin, location.timezone)).getTime() <= Date.now()) {
+      return NextResponse.json({ error: "Pick a time in the future" }, { status: 400 });
+    }
+
+    let moved: { startIso: string; endIso: string };
+    try {
+      moved = await moveBooking(booking, dateKey, startMin);
+    } catch (rescheduleErr: any) {
+      return NextResponse.json({ error: rescheduleErr?.message || "Selected time is unavailable" }, { status: 400 });
+    }
+    await recordBookingChange({
+      bookingId: booking.id,
+      changeType: "RESCHEDULE",
+      status: "COMPLETED",
+      note: `Rescheduled by customer from ${booking.start_ts} to ${moved.startIso}`,
+    });
+    await notifyOwner("Axe Quacks: Booking Rescheduled by Customer", { ...booking, ...moved }, location, [
+      `Previous Time: ${formatInstant(booking.start_ts, location.timezone, "dateTime")}`,
+    ]);
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (err: any) {
+    console.error("manage booking update fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { sendDueLeagueRecaps } from "@/lib/server/leagues";
+
+// Daily (vercel.json crons): emails each league week's recap once the week is over and has scores.
+// Vercel sends CRON_SECRET as a bearer token.
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const sent = await sendDueLeagueRecaps();
+    return NextResponse.json({ ok: true, sent }, { status: 200 });
+  } catch (err) {
+    console.error("league recaps fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_TIME_ZONE, dateKeyInTimeZone } from "@/lib/dateTime";
+import { runScheduledReconciliation } from "@/lib/server/paymentReconciliation";
+
+// Daily (vercel.json crons): reconciles the last three business days of Stripe payments against the database.
+// Vercel sends CRON_SECRET as a bearer token.
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runScheduledReconciliation(dateKeyInTimeZone(new Date(), DEFAULT_TIME_ZONE));
+    return NextResponse.json({ ok: true, ...result }, { status: 200 });
+  } catch (err: any) {
+    console.error("reconcile payments fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { sweepExpiredSlotHolds } from "@/lib/server/slotHolds";
+import { offerWaitlistSlots } from "@/lib/server/waitlist";
+
+// Scheduled sweep (vercel.json crons): expires lapsed checkout holds and offers the freed
+// capacity to anyone on that day's waitlist. Vercel sends CRON_SECRET as a bearer token.
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const days = await sweepExpiredSlotHolds();
+    let offered = 0;
+    for (const { location, dateKey } of days) {
+      offered += await offerWaitlistSlots(location, dateKey);
+    }
+    return NextResponse.json({ ok: true, days: days.length, offered }, { status: 200 });
+  } catch (err: any) {
+    console.error("release holds fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
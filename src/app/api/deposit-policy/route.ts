@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { loadBookingPolicy } from "@/lib/server/bookingPolicies";
+
+export async function GET() {
+  try {
+    const policy = await loadBookingPolicy();
+    return NextResponse.json(
+      { deposit: { depositPartySize: policy.depositPartySize, depositPercent: policy.depositPercent } },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("deposit policy fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -4,14 +4,7 @@ import { hasPromoRedemption, normalizeEmail, normalizePromoCode } from "@/lib/se
 import { validatePromoUsage } from "@/lib/server/promoRules";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { sendOwnerNotification } from "@/lib/server/mailer";
-
-function formatTimeFromMinutes(minsFromMidnight: number) {
-  const h24 = Math.floor(minsFromMidnight / 60);
-  const m = minsFromMidnight % 60;
-  const ampm = h24 >= 12 ? "PM" : "AM";
-  const h12 = ((h24 + 11) % 12) + 1;
-  return `${h12}:${String(m).padStart(2, "0")} ${ampm}`;
-}
+import { formatMinutesLabel } from "@/lib/dateTime";
 
 type Activity = "Axe Throwing" | "Duckpin Bowling";
 const PARTY_AREA_BOOKABLE_SET: Set<string> = new Set(
@@ -188,8 +181,8 @@ export async function POST(req: Request) {
     }
 
     try {
-      const startLabel = formatTimeFromMinutes(startMin);
-      const endLabel = formatTimeFromMinutes(startMin + durationMinutes);
+      const startLabel = formatMinutesLabel(startMin);
+      const endLabel = formatMinutesLabel(startMin + durationMinutes);
       await sendOwnerNotification({
         subject: "Axe Quacks: New Event Request",
         lines: [
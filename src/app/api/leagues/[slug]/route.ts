@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { leagueBowlers, leagueResults, leagueStandings, loadLeague } from "@/lib/server/leagues";
+
+// Public standings page data: league, weeks, schedule, results, standings and bowler averages.
+// Rosters go out by name only.
+export async function GET(_req: Request, context: { params: Promise<{ slug: string }> }) {
+  try {
+    const { slug } = await context.params;
+    const data = await loadLeague({ slug });
+    if (!data) {
+      return NextResponse.json({ error: "League not found" }, { status: 404 });
+    }
+
+    const results = leagueResults(data);
+    return NextResponse.json(
+      {
+        league: {
+          name: data.league.name,
+          status: data.league.status,
+          gamesPerWeek: data.league.games_per_week,
+          handicapBase: data.league.handicap_base,
+          handicapPercent: data.league.handicap_percent,
+          locationName: data.location.name,
+        },
+        weeks: data.weeks,
+        teams: data.teams.map((team) => ({ id: team.id, name: team.name, members: team.members.map((m) => m.name) })),
+        matches: data.matches,
+        results,
+        standings: leagueStandings(data, results),
+        bowlers: leagueBowlers(data).map((bowler) => ({
+          name: bowler.name,
+          teamName: bowler.teamName,
+          games: bowler.games,
+          average: bowler.average,
+          highGame: bowler.highGame,
+          handicap: bowler.handicap,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("public league fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
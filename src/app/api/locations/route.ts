@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { loadLocations } from "@/lib/server/locations";
+
+export async function GET() {
+  try {
+    const locations = (await loadLocations()).filter((location) => location.active);
+    return NextResponse.json({ locations }, { status: 200 });
+  } catch (err: any) {
+    console.error("locations fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
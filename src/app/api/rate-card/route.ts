@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { loadActiveRateCard } from "@/lib/server/rateCards";
+import { resolveRequestLocation } from "@/lib/server/locations";
+
+export async function GET(req: Request) {
+  try {
+    const location = await resolveRequestLocation(req);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+
+    const rateCard = await loadActiveRateCard(location);
+    return NextResponse.json({ rateCard }, { status: 200 });
+  } catch (err: any) {
+    console.error("rate card fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -1,17 +1,21 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { resolveStaffLocation, scopeToLocation } from "@/lib/server/locations";
 
-export async function GET() {
+export async function GET(req: Request) {
   try {
     const staff = await getStaffUserFromCookies();
     if (!staff) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
+    const location = await resolveStaffLocation(req, staff);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+
     const sb = supabaseServer();
-    const { data, error } = await sb
-      .from("add_ons")
-      .select("id,name,description,price_cents,image_url,category,active,created_at")
-      .order("created_at", { ascending: false });
+    const { data, error } = await scopeToLocation(
+      sb.from("add_ons").select("id,name,description,price_cents,image_url,category,active,created_at"),
+      location
+    ).order("created_at", { ascending: false });
 
     if (error) {
       console.error("addons list error:", error);
@@ -40,6 +44,9 @@ export async function POST(req: Request) {
 
     if (!name) return NextResponse.json({ error: "Missing name" }, { status: 400 });
 
+    const location = await resolveStaffLocation(req, staff, body?.location_id);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+
     const sb = supabaseServer();
     const { data, error } = await sb
       .from("add_ons")
@@ -50,6 +57,7 @@ export async function POST(req: Request) {
         image_url: imageUrl || null,
         category: category || null,
         active,
+        location_id: location.id,
       })
       .select("id,name,description,price_cents,image_url,category,active,created_at")
       .single();
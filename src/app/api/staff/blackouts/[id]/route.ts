@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { BLACKOUT_COLUMNS } from "@/lib/server/blackouts";
 
 type RouteContext = { params: Promise<{ id: string }> | { id: string } };
 
@@ -26,6 +27,15 @@ export async function PATCH(req: Request, context: RouteContext) {
     const body = await req.json().catch(() => ({}));
     const updates: Record<string, any> = {};
     if (body?.date_key != null) updates.date_key = String(body.date_key);
+    if (body?.end_date_key !== undefined) updates.end_date_key = body.end_date_key ? String(body.end_date_key) : null;
+    if (body?.weekdays !== undefined) {
+      updates.weekdays = Array.isArray(body.weekdays) && body.weekdays.length ? body.weekdays.map(Number) : null;
+    }
+    if (Array.isArray(body?.except_date_keys)) updates.except_date_keys = body.except_date_keys.map(String);
+    if (body?.resource_ids !== undefined) {
+      updates.resource_ids =
+        Array.isArray(body.resource_ids) && body.resource_ids.length ? body.resource_ids.map(String) : null;
+    }
     if (body?.start_min != null) updates.start_min = Number(body.start_min);
     if (body?.end_min != null) updates.end_min = Number(body.end_min);
     if (body?.activity != null) updates.activity = String(body.activity);
@@ -40,7 +50,7 @@ export async function PATCH(req: Request, context: RouteContext) {
 
     const { data, error } = await sb
       .from("blackout_rules")
-      .select("id,date_key,start_min,end_min,activity,reason,created_at")
+      .select(BLACKOUT_COLUMNS)
       .eq("id", id)
       .single();
 
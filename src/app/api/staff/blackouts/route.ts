@@ -1,6 +1,10 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { loadLocations } from "@/lib/server/locations";
+import { BLACKOUT_COLUMNS } from "@/lib/server/blackouts";
+import { MAX_BLACKOUT_RANGE_DAYS } from "@/lib/blackouts";
+import { daysBetweenDateKeys, isValidDateKey } from "@/lib/dateTime";
 
 export async function GET() {
   try {
@@ -8,18 +12,34 @@ export async function GET() {
     if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
     const sb = supabaseServer();
-    const { data, error } = await sb
-      .from("blackout_rules")
-      .select("id,date_key,start_min,end_min,activity,reason,created_at")
-      .order("date_key", { ascending: false })
-      .limit(200);
+    const [{ data, error }, { data: resources, error: resErr }, locations] = await Promise.all([
+      sb.from("blackout_rules").select(BLACKOUT_COLUMNS).order("date_key", { ascending: false }).limit(200),
+      sb
+        .from("resources")
+        .select("id,name,type,location_id,sort_order")
+        .or("active.eq.true,active.is.null")
+        .order("sort_order", { ascending: true }),
+      loadLocations(),
+    ]);
 
     if (error) {
       console.error("blackouts list error:", error);
       return NextResponse.json({ error: "Failed to load blackouts" }, { status: 500 });
     }
+    if (resErr) {
+      console.error("blackout resources load error:", resErr);
+    }
+
+    // Resource names repeat across sites, so the picker labels them with the location when there's more than one.
+    const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+    const resourceOptions = (resources || []).map((row) => ({
+      id: String(row.id),
+      type: String(row.type || ""),
+      name: String(row.name || row.type || "Resource"),
+      location: locations.length > 1 ? locationNames.get(String(row.location_id || "")) || null : null,
+    }));
 
-    return NextResponse.json({ blackouts: data ?? [] }, { status: 200 });
+    return NextResponse.json({ blackouts: data ?? [], resources: resourceOptions }, { status: 200 });
   } catch (err: any) {
     console.error("blackouts list fatal:", err);
     return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
@@ -33,24 +53,51 @@ export async function POST(req: Request) {
 
     const body = await req.json().catch(() => ({}));
     const dateKey = String(body?.date_key || "");
+    const endDateKey = body?.end_date_key ? String(body.end_date_key) : null;
     const startMin = body?.start_min != null ? Number(body.start_min) : null;
     const endMin = body?.end_min != null ? Number(body.end_min) : null;
-    const activity = String(body?.activity || "ALL");
+    const weekdays = Array.isArray(body?.weekdays)
+      ? Array.from(new Set<number>(body.weekdays.map(Number))).filter((day) => [0, 1, 2, 3, 4, 5, 6].includes(day))
+      : [];
+    const exceptDateKeys = Array.isArray(body?.except_date_keys)
+      ? Array.from(new Set<string>(body.except_date_keys.map(String))).filter(isValidDateKey)
+      : [];
+    const resourceIds: string[] = Array.isArray(body?.resource_ids)
+      ? body.resource_ids.map(String).filter(Boolean)
+      : [];
+    // A resource rule blocks those resources for every activity.
+    const activity = resourceIds.length ? "ALL" : String(body?.activity || "ALL");
     const reason = String(body?.reason || "").trim();
 
     if (!dateKey) return NextResponse.json({ error: "Missing date_key" }, { status: 400 });
+    if (!isValidDateKey(dateKey) || (endDateKey && !isValidDateKey(endDateKey))) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+    }
+    if (endDateKey && endDateKey < dateKey) {
+      return NextResponse.json({ error: "End date must be on or after the start date" }, { status: 400 });
+    }
+    if (endDateKey && daysBetweenDateKeys(dateKey, endDateKey) > MAX_BLACKOUT_RANGE_DAYS) {
+      return NextResponse.json({ error: "Blackout ranges can cover at most two years" }, { status: 400 });
+    }
+    if (startMin != null && endMin != null && endMin <= startMin) {
+      return NextResponse.json({ error: "End time must be after start time" }, { status: 400 });
+    }
 
     const sb = supabaseServer();
     const { data, error } = await sb
       .from("blackout_rules")
       .insert({
         date_key: dateKey,
+        end_date_key: endDateKey,
+        weekdays: weekdays.length ? weekdays : null,
+        except_date_keys: exceptDateKeys,
         start_min: startMin,
         end_min: endMin,
         activity,
+        resource_ids: resourceIds.length ? resourceIds : null,
         reason: reason || null,
       })
-      .select("id,date_key,start_min,end_min,activity,reason,created_at")
+      .select(BLACKOUT_COLUMNS)
       .single();
 
     if (error) {
@@ -0,0 +1,161 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { defaultLocation, findLocation } from "@/lib/locations";
+import { findActivityByKey } from "@/lib/activities";
+import { loadActivityDefinitions } from "@/lib/server/activities";
+import { loadLocations, rowInLocation } from "@/lib/server/locations";
+import {
+  BOOKING_CHANGE_COLUMNS,
+  cancelBookingAndRelease,
+  moveBooking,
+  type BookingChangeRow,
+} from "@/lib/server/bookingChanges";
+import { normalizeRefundMethod, refundBooking, verifyManagerPin, type RefundMethod } from "@/lib/server/refunds";
+import { buildManageUrl, ensureManageToken } from "@/lib/server/manageBooking";
+import { sendBookingChangeEmail } from "@/lib/server/mailer";
+import { isValidDateKey } from "@/lib/dateTime";
+
+// Staff decision on a PENDING change request. APPROVE performs it — RESCHEDULE to { dateKey, startMin }
+// (defaults to the customer's requested time), CANCEL, or REFUND to the card or as store credit (method;
+// manager PIN for non-admins; the policy amount is judged at request time, more needs override_reason) —
+// then closes the request and emails the customer. DENY only closes and emails.
+export async function PATCH(req: Request, context: { params: Promise<{ id: string }> }) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await req.json().catch(() => ({}));
+    const action = String(body?.action || "").toUpperCase();
+    if (action !== "APPROVE" && action !== "DENY") {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+    const decisionNote = String(body?.note || "").trim();
+
+    const sb = supabaseServer();
+    const { data, error } = await sb.from("booking_changes").select(BOOKING_CHANGE_COLUMNS).eq("id", id).maybeSingle();
+    if (error) {
+      console.error("staff booking change lookup error:", error);
+      return NextResponse.json({ error: "Failed to load change request" }, { status: 500 });
+    }
+    const change = data as unknown as BookingChangeRow | null;
+    const booking = change?.bookings;
+    if (!change || !booking) {
+      return NextResponse.json({ error: "Change request not found" }, { status: 404 });
+    }
+    if (change.status !== "PENDING") {
+      return NextResponse.json({ error: "This request has already been processed" }, { status: 400 });
+    }
+
+    const locations = await loadLocations();
+    const location = findLocation(locations, booking.location_id) ?? defaultLocation(locations);
+    if (staff.role !== "admin" && staff.location_id && !rowInLocation(staff.location_id, location)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let startTs = String(booking.start_ts || "");
+    let refundCents: number | null = null;
+    let refundMethod: RefundMethod | null = null;
+    if (action === "APPROVE") {
+      if (change.change_type === "RESCHEDULE") {
+        const dateKey = String(body?.dateKey || change.requested_date_key || "").trim();
+        const startMin = Number(body?.startMin ?? change.requested_start_min);
+        if (!isValidDateKey(dateKey) || !Number.isFinite(startMin)) {
+          return NextResponse.json({ error: "Pick the new date and time" }, { status: 400 });
+        }
+        try {
+          const moved = await moveBooking(booking, dateKey, startMin);
+          startTs = moved.startIso;
+        } catch (moveErr) {
+          const message = moveErr instanceof Error ? moveErr.message : "Failed to reschedule booking";
+          return NextResponse.json({ error: message }, { status: 400 });
+        }
+      } else if (change.change_type === "CANCEL") {
+        if (booking.status === "CANCELLED") {
+          return NextResponse.json({ error: "Booking is already cancelled" }, { status: 400 });
+        }
+        await cancelBookingAndRelease(booking);
+      } else if (change.change_type === "REFUND") {
+        if (staff.role !== "admin") {
+          const verified = await verifyManagerPin(
+            String(body?.manager_staff_id || ""),
+            String(body?.manager_pin || "")
+          );
+          if (!verified.ok) {
+            return NextResponse.json({ error: verified.error || "Manager approval required" }, { status: 403 });
+          }
+        }
+        const result = await refundBooking({
+          bookingId: booking.id,
+          amountCents: Number(body?.amount_cents || 0),
+          reason: decisionNote || change.note || "Customer refund request",
+          staffId: staff.staff_id,
+          overrideReason: String(body?.override_reason || "").trim(),
+          cancelledAt: change.requested_at,
+          method: normalizeRefundMethod(body?.method),
+          requestKey: `booking-change:${change.id}`,
+        });
+        if (!result.ok) {
+          return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+        refundCents = result.refundCents;
+        refundMethod = result.method;
+      } else {
+        return NextResponse.json({ error: "Unsupported change type" }, { status: 400 });
+      }
+    }
+
+    const status = action === "APPROVE" ? "APPROVED" : "DENIED";
+    const { data: updated, error: updateErr } = await sb
+      .from("booking_changes")
+      .update({
+        status,
+        processed_at: new Date().toISOString(),
+        processed_by: staff.staff_id,
+        decision_note: decisionNote || null,
+      })
+      .eq("id", id)
+      .eq("status", "PENDING")
+      .select(BOOKING_CHANGE_COLUMNS)
+      .single();
+    if (updateErr) {
+      console.error("staff booking change update error:", updateErr);
+      return NextResponse.json({ error: "Failed to update change request" }, { status: 500 });
+    }
+
+    await sb.from("booking_audit_logs").insert({
+      booking_id: booking.id,
+      staff_id: staff.staff_id,
+      action: "change_request",
+      details: { change_id: id, change_type: change.change_type, status, note: decisionNote || null },
+    });
+
+    try {
+      const definitions = await loadActivityDefinitions();
+      const manageToken = await ensureManageToken(booking.id);
+      await sendBookingChangeEmail({
+        customerName: String(booking.customer_name || ""),
+        customerEmail: String(booking.customer_email || ""),
+        changeType: change.change_type,
+        approved: action === "APPROVE",
+        activity: findActivityByKey(definitions, booking.activity)?.name ?? String(booking.activity || ""),
+        startTs,
+        timeZone: location.timezone,
+        refundCents,
+        refundMethod,
+        note: decisionNote || null,
+        manageUrl: manageToken ? buildManageUrl(manageToken) : null,
+      });
+    } catch (emailErr) {
+      console.error("booking change email error:", emailErr);
+    }
+
+    return NextResponse.json({ change: updated }, { status: 200 });
+  } catch (err) {
+    console.error("staff booking change update fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
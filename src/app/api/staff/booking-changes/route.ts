@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { findActivityByKey } from "@/lib/activities";
+import { loadActivityDefinitions } from "@/lib/server/activities";
+import { resolveStaffLocation, rowInLocation } from "@/lib/server/locations";
+import { loadBookingPolicy, policyDeadlines, refundAllowance } from "@/lib/server/bookingPolicies";
+import { BOOKING_CHANGE_COLUMNS, type BookingChangeRow } from "@/lib/server/bookingChanges";
+
+// Change requests for the staff inbox, newest first, with their booking and where they fall
+// against the current cancel/reschedule policy (refund requests also get the policy refund amount,
+// judged at the time they were requested). ?status=PENDING (default) or ALL.
+export async function GET(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const location = await resolveStaffLocation(req, staff);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+
+    const statusParam = String(new URL(req.url).searchParams.get("status") || "PENDING").toUpperCase();
+    const sb = supabaseServer();
+    let query = sb.from("booking_changes").select(BOOKING_CHANGE_COLUMNS);
+    if (statusParam !== "ALL") query = query.eq("status", statusParam);
+    const { data, error } = await query.order("requested_at", { ascending: false }).limit(200);
+
+    if (error) {
+      console.error("staff booking changes fetch error:", error);
+      return NextResponse.json({ error: "Failed to load change requests" }, { status: 500 });
+    }
+
+    const policy = await loadBookingPolicy();
+    const definitions = await loadActivityDefinitions();
+    const changes = ((data || []) as unknown as BookingChangeRow[]).flatMap(({ bookings: booking, ...change }) => {
+      if (!booking || !rowInLocation(booking.location_id, location)) return [];
+      return [
+        {
+          ...change,
+          booking: {
+            ...booking,
+            activity: findActivityByKey(definitions, booking.activity)?.name ?? booking.activity,
+          },
+          policy: policyDeadlines(booking, policy),
+          refund: change.change_type === "REFUND" ? refundAllowance(booking, policy, change.requested_at) : null,
+        },
+      ];
+    });
+
+    return NextResponse.json(
+      {
+        timeZone: location.timezone,
+        policy: {
+          cancelWindowHours: policy.cancelWindowHours,
+          rescheduleWindowHours: policy.rescheduleWindowHours,
+          refundPolicy: policy.refundPolicy,
+        },
+        changes,
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("staff booking changes fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { defaultLocation, findLocation } from "@/lib/locations";
+import { loadLocations, rowInLocation } from "@/lib/server/locations";
+import { cancelBookingAndRelease, moveBooking } from "@/lib/server/bookingChanges";
+import {
+  BOOKING_SERIES_COLUMNS,
+  cancelBookingSeries,
+  loadSeriesBookings,
+  moveBookingSeries,
+  type BookingSeriesRow,
+} from "@/lib/server/bookingSeries";
+import { dateKeyInTimeZone, isValidDateKey } from "@/lib/dateTime";
+
+// Edits a series. action MOVE sets a new start time (startMin), CANCEL cancels. scope ONE applies it to the
+// occurrence bookingId (MOVE may also take a new dateKey); scope ALL applies it to every upcoming occurrence,
+// and cancelling ALL closes the series. Occurrences that can't move are reported and left in place.
+export async function PATCH(req: Request, context: { params: Promise<{ id: string }> }) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await req.json().catch(() => ({}));
+    const action = String(body?.action || "").toUpperCase();
+    const scope = String(body?.scope || "ONE").toUpperCase();
+    if ((action !== "MOVE" && action !== "CANCEL") || (scope !== "ONE" && scope !== "ALL")) {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    const sb = supabaseServer();
+    const { data, error } = await sb.from("booking_series").select(BOOKING_SERIES_COLUMNS).eq("id", id).maybeSingle();
+    if (error) {
+      console.error("booking series lookup error:", error);
+      return NextResponse.json({ error: "Failed to load series" }, { status: 500 });
+    }
+    const series = data as unknown as BookingSeriesRow | null;
+    if (!series) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+    if (series.status === "CANCELLED") {
+      return NextResponse.json({ error: "This series is cancelled" }, { status: 400 });
+    }
+
+    const locations = await loadLocations();
+    const location = findLocation(locations, series.location_id) ?? defaultLocation(locations);
+    if (staff.role !== "admin" && staff.location_id && !rowInLocation(staff.location_id, location)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const startMin = Number(body?.startMin);
+    if (action === "MOVE" && !Number.isFinite(startMin)) {
+      return NextResponse.json({ error: "Pick the new start time" }, { status: 400 });
+    }
+
+    let affected: string[] = [];
+    let conflicts: Array<{ bookingId: string; index: number | null; error: string }> = [];
+    if (scope === "ALL") {
+      if (action === "CANCEL") {
+        affected = await cancelBookingSeries(id);
+      } else {
+        const result = await moveBookingSeries(id, startMin, location);
+        affected = result.moved;
+        conflicts = result.conflicts;
+      }
+    } else {
+      const bookingId = String(body?.bookingId || "");
+      const booking = (await loadSeriesBookings(id)).find((row) => row.id === bookingId);
+      if (!booking) {
+        return NextResponse.json({ error: "Occurrence not found in this series" }, { status: 404 });
+      }
+      if (booking.status === "CANCELLED") {
+        return NextResponse.json({ error: "Occurrence is already cancelled" }, { status: 400 });
+      }
+      if (action === "CANCEL") {
+        await cancelBookingAndRelease(booking);
+      } else {
+        const dateKey = String(body?.dateKey || dateKeyInTimeZone(String(booking.start_ts), location.timezone));
+        if (!isValidDateKey(dateKey)) {
+          return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+        }
+        try {
+          await moveBooking(booking, dateKey, startMin);
+        } catch (moveErr) {
+          const message = moveErr instanceof Error ? moveErr.message : "Failed to move occurrence";
+          return NextResponse.json({ error: message }, { status: 400 });
+        }
+      }
+      affected = [booking.id];
+    }
+
+    if (affected.length) {
+      const { error: auditErr } = await sb.from("booking_audit_logs").insert(
+        affected.map((bookingId) => ({
+          booking_id: bookingId,
+          staff_id: staff.staff_id,
+          action: "series_change",
+          details: { series_id: id, action, scope, start_min: action === "MOVE" ? startMin : null },
+        }))
+      );
+      if (auditErr) {
+        console.error("booking series audit log error:", auditErr);
+      }
+    }
+
+    return NextResponse.json({ ok: true, affected, conflicts }, { status: 200 });
+  } catch (err) {
+    console.error("booking series update fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
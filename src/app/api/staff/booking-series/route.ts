@@ -0,0 +1,173 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { findActivityByKey, findActivityByName } from "@/lib/activities";
+import { loadActivityDefinitions } from "@/lib/server/activities";
+import { resolveStaffLocation, scopeToLocation } from "@/lib/server/locations";
+import type { ComboOrder } from "@/lib/server/bookingService";
+import {
+  BOOKING_SERIES_COLUMNS,
+  MAX_SERIES_OCCURRENCES,
+  createBookingSeries,
+  previewBookingSeries,
+  type BookingSeriesRow,
+  type SeriesRule,
+} from "@/lib/server/bookingSeries";
+import { isValidDateKey } from "@/lib/dateTime";
+
+type SeriesBookingRow = {
+  id: string;
+  series_id: string;
+  series_index: number | null;
+  start_ts: string;
+  end_ts: string;
+  status: string | null;
+  paid: boolean | null;
+};
+
+function optionalNumber(value: unknown) {
+  const num = Number(value);
+  return value === "" || value == null || !Number.isFinite(num) ? undefined : num;
+}
+
+// Series for the staff list, newest first, each with its bookings in order. ?status=ACTIVE (default) or ALL.
+export async function GET(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const location = await resolveStaffLocation(req, staff);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+
+    const statusParam = String(new URL(req.url).searchParams.get("status") || "ACTIVE").toUpperCase();
+    const sb = supabaseServer();
+    let query = sb.from("booking_series").select(BOOKING_SERIES_COLUMNS);
+    if (statusParam !== "ALL") query = query.eq("status", statusParam);
+    const { data, error } = await scopeToLocation(query, location)
+      .order("created_at", { ascending: false })
+      .limit(100);
+    if (error) {
+      console.error("booking series fetch error:", error);
+      return NextResponse.json({ error: "Failed to load series" }, { status: 500 });
+    }
+
+    const rows = (data || []) as unknown as BookingSeriesRow[];
+    const seriesIds = rows.map((row) => row.id);
+    const { data: bookings, error: bookingsErr } = seriesIds.length
+      ? await sb
+          .from("bookings")
+          .select("id,series_id,series_index,start_ts,end_ts,status,paid")
+          .in("series_id", seriesIds)
+          .order("start_ts", { ascending: true })
+      : { data: [], error: null };
+    if (bookingsErr) {
+      console.error("booking series bookings error:", bookingsErr);
+      return NextResponse.json({ error: "Failed to load series bookings" }, { status: 500 });
+    }
+
+    const definitions = await loadActivityDefinitions();
+    const seriesBookings = (bookings || []) as SeriesBookingRow[];
+    const series = rows.map((row) => ({
+      ...row,
+      activity: findActivityByKey(definitions, row.activity)?.name ?? row.activity,
+      bookings: seriesBookings.filter((booking) => booking.series_id === row.id),
+    }));
+
+    return NextResponse.json({ timeZone: location.timezone, series }, { status: 200 });
+  } catch (err) {
+    console.error("booking series fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
+
+// Checks (preview: true) or creates a weekly series. Every occurrence comes back with its conflict, if
+// any; creating books only the clear ones.
+export async function POST(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const location = await resolveStaffLocation(req, staff, body?.locationId);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+
+    const definitions = await loadActivityDefinitions();
+    const activity = findActivityByName(definitions, String(body?.activity || ""));
+    const startDateKey = String(body?.startDateKey || "");
+    const startMin = Number(body?.startMin);
+    const durationMinutes = Number(body?.durationMinutes);
+    const partySize = Number(body?.partySize);
+    const intervalWeeks = Math.round(Number(body?.intervalWeeks || 1));
+    const occurrences = Math.round(Number(body?.occurrences));
+    const customerName = String(body?.customerName || "").trim();
+    const name = String(body?.name || "").trim() || customerName;
+
+    if (!activity || !isValidDateKey(startDateKey) || !Number.isFinite(startMin) || !Number.isFinite(durationMinutes)) {
+      return NextResponse.json({ error: "Missing series fields" }, { status: 400 });
+    }
+    if (!Number.isFinite(partySize) || partySize < 1 || partySize > 100) {
+      return NextResponse.json({ error: "Group size must be between 1 and 100" }, { status: 400 });
+    }
+    if (!Number.isFinite(intervalWeeks) || intervalWeeks < 1 || intervalWeeks > 4) {
+      return NextResponse.json({ error: "Repeat every 1 to 4 weeks" }, { status: 400 });
+    }
+    if (!Number.isFinite(occurrences) || occurrences < 1 || occurrences > MAX_SERIES_OCCURRENCES) {
+      return NextResponse.json(
+        { error: `Occurrences must be between 1 and ${MAX_SERIES_OCCURRENCES}` },
+        { status: 400 }
+      );
+    }
+    if (!customerName) {
+      return NextResponse.json({ error: "Customer name is required" }, { status: 400 });
+    }
+
+    const rule: SeriesRule = {
+      activity: activity.name,
+      partySize,
+      startDateKey,
+      startMin,
+      durationMinutes,
+      intervalWeeks,
+      occurrences,
+      comboAxeMinutes: optionalNumber(body?.comboAxeMinutes),
+      comboDuckpinMinutes: optionalNumber(body?.comboDuckpinMinutes),
+      comboOrder: body?.comboOrder ? (String(body.comboOrder) as ComboOrder) : undefined,
+      customerName,
+      customerEmail: String(body?.customerEmail || "").trim(),
+      customerPhone: String(body?.customerPhone || "").trim(),
+      totalCentsOverride: optionalNumber(body?.totalCentsOverride),
+    };
+
+    if (body?.preview) {
+      const preview = await previewBookingSeries(rule, location);
+      return NextResponse.json({ occurrences: preview }, { status: 200 });
+    }
+
+    const result = await createBookingSeries({
+      rule,
+      location,
+      name,
+      paid: !!body?.paid,
+      notes: String(body?.notes || "").trim(),
+      staffId: staff.staff_id,
+    });
+    if (!result.series) {
+      return NextResponse.json(
+        { error: "Every occurrence conflicts; nothing was booked", occurrences: result.occurrences },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(result, { status: 200 });
+  } catch (err) {
+    console.error("booking series create fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
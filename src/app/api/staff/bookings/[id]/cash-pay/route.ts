@@ -2,6 +2,10 @@ import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
 import { validateGiftCertificate, redeemGiftCertificate } from "@/lib/server/giftCertificates";
+import { applyPartialBookingPayment, balanceSettledFields } from "@/lib/server/deposits";
+import { insertBookingPayment } from "@/lib/server/bookingPayments";
+import { balanceDueCents } from "@/lib/deposits";
+import { outstandingCents } from "@/lib/bookingPayments";
 
 type RouteContext = { params: Promise<{ id: string }> | { id: string } };
 
@@ -47,11 +51,17 @@ export async function POST(req: Request, context: RouteContext) {
     const giftCode = String(body?.gift_code || "").trim();
     const amountOverrideCents = Number(body?.amount_override_cents);
     const bookingTotalNew = Number(body?.booking_total_cents_new);
+    // amount_cents takes part of the bill in cash (one share of a split) and leaves the rest as the balance due.
+    const partCents = Math.round(Number(body?.amount_cents));
+    const splitIndex = Number(body?.split_index) || null;
+    const splitCount = Number(body?.split_count) || null;
+    // Sent once per cash payment by the pay screen, so a retried request doesn't take the same cash twice.
+    const idempotencyKey = String(body?.idempotency_key || "").trim() || null;
 
     const sb = getSupabaseAdmin();
     let { data: booking, error: bookingErr } = await sb
       .from("bookings")
-      .select("id,customer_email,total_cents,paid")
+      .select("id,customer_email,total_cents,paid,balance_due_cents,location_id")
       .eq("id", id)
       .single();
     if ((bookingErr || !booking) && id) {
@@ -59,7 +69,7 @@ export async function POST(req: Request, context: RouteContext) {
       if (resv?.booking_id) {
         ({ data: booking, error: bookingErr } = await sb
           .from("bookings")
-          .select("id,customer_email,total_cents,paid")
+          .select("id,customer_email,total_cents,paid,balance_due_cents,location_id")
           .eq("id", resv.booking_id)
           .single());
       }
@@ -71,18 +81,45 @@ export async function POST(req: Request, context: RouteContext) {
       return NextResponse.json({ error: "Booking already paid" }, { status: 400 });
     }
 
+    if (Number.isFinite(partCents) && partCents > 0 && partCents < outstandingCents(booking)) {
+      if (giftCode || amountOverrideCents > 0 || Number.isFinite(bookingTotalNew)) {
+        return NextResponse.json({ error: "Take a part payment without gift or amount changes." }, { status: 400 });
+      }
+      const { duplicate } = await insertBookingPayment({
+        bookingId: booking.id,
+        tender: "CASH",
+        amountCents: partCents,
+        idempotencyKey,
+        splitIndex,
+        splitCount,
+        createdBy: staff.staff_id,
+      });
+      const remainingCents = duplicate
+        ? outstandingCents(booking)
+        : await applyPartialBookingPayment(booking.id, partCents);
+      return NextResponse.json({ ok: true, remaining_cents: remainingCents }, { status: 200 });
+    }
+
+    // For a booking paid by deposit the cash (and any gift certificate) covers the balance only.
+    const balanceDue = balanceDueCents(booking);
     let bookingTotalCents = Number(booking.total_cents || 0);
     if (Number.isFinite(bookingTotalNew)) {
       bookingTotalCents = bookingTotalNew;
     }
+    let cashCents = booking.paid
+      ? Math.max(0, Number.isFinite(amountOverrideCents) ? amountOverrideCents : 0)
+      : balanceDue > 0
+        ? balanceDue
+        : bookingTotalCents;
     if (giftCode) {
       try {
         const giftResult = await validateGiftCertificate({
           code: giftCode,
           customerEmail: String(booking.customer_email || ""),
-          amountCents: bookingTotalCents,
+          amountCents: balanceDue > 0 ? balanceDue : bookingTotalCents,
         });
-        bookingTotalCents = giftResult.remainingCents;
+        bookingTotalCents -= giftResult.amountOffCents;
+        cashCents = Math.max(0, cashCents - giftResult.amountOffCents);
         await redeemGiftCertificate({
           code: giftResult.gift.code,
           customerEmail: String(booking.customer_email || ""),
@@ -152,6 +189,7 @@ export async function POST(req: Request, context: RouteContext) {
               total_cents: tabTotalCents,
               tab_id: tab.id,
               status: "PAID",
+              location_id: booking.location_id ?? null,
             })
             .select("id")
             .single();
@@ -170,6 +208,7 @@ export async function POST(req: Request, context: RouteContext) {
               quantity: row.quantity,
               line_total_cents: row.line_total_cents,
               activity: row.activity,
+              location_id: booking.location_id ?? null,
             }))
           );
           if (itemsErr) {
@@ -188,12 +227,23 @@ export async function POST(req: Request, context: RouteContext) {
     const totalCents = bookingTotalCents + tabTotalCents;
     const { error: updErr } = await sb
       .from("bookings")
-      .update({ paid: true, total_cents: totalCents })
+      .update({ ...(balanceDue > 0 ? balanceSettledFields() : { paid: true }), total_cents: totalCents })
       .eq("id", id);
     if (updErr) {
       console.error("booking cash update error:", updErr);
       return NextResponse.json({ error: "Failed to mark booking paid" }, { status: 500 });
     }
+    if (cashCents > 0) {
+      await insertBookingPayment({
+        bookingId: booking.id,
+        tender: "CASH",
+        amountCents: cashCents,
+        idempotencyKey,
+        splitIndex,
+        splitCount,
+        createdBy: staff.staff_id,
+      });
+    }
 
     return NextResponse.json({ ok: true }, { status: 200 });
   } catch (err: any) {
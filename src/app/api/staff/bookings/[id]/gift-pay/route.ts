@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
 import { validateGiftCertificate, redeemGiftCertificate } from "@/lib/server/giftCertificates";
+import { applyPartialBookingPayment, balanceSettledFields } from "@/lib/server/deposits";
+import { balanceDueCents } from "@/lib/deposits";
 
 type RouteContext = { params: Promise<{ id: string }> | { id: string } };
 
@@ -34,7 +36,7 @@ export async function POST(req: Request, context: RouteContext) {
     const sb = supabaseServer();
     let { data: booking, error: bookingErr } = await sb
       .from("bookings")
-      .select("id,customer_email,total_cents,paid")
+      .select("id,customer_email,total_cents,paid,balance_due_cents")
       .eq("id", id)
       .single();
     if ((bookingErr || !booking) && id) {
@@ -42,7 +44,7 @@ export async function POST(req: Request, context: RouteContext) {
       if (resv?.booking_id) {
         ({ data: booking, error: bookingErr } = await sb
           .from("bookings")
-          .select("id,customer_email,total_cents,paid")
+          .select("id,customer_email,total_cents,paid,balance_due_cents")
           .eq("id", resv.booking_id)
           .single());
       }
@@ -59,8 +61,13 @@ export async function POST(req: Request, context: RouteContext) {
     if (Number.isFinite(bookingTotalNew)) {
       bookingTotalCents = bookingTotalNew;
     }
+    const balanceDue = balanceDueCents(booking);
     const amountDueCents =
-      Number.isFinite(amountOverrideCents) && amountOverrideCents > 0 ? amountOverrideCents : bookingTotalCents;
+      Number.isFinite(amountOverrideCents) && amountOverrideCents > 0
+        ? amountOverrideCents
+        : balanceDue > 0
+          ? balanceDue
+          : bookingTotalCents;
 
     let giftResult = null;
     try {
@@ -74,7 +81,36 @@ export async function POST(req: Request, context: RouteContext) {
     }
 
     if (giftResult.remainingCents > 0) {
-      return NextResponse.json({ error: "Gift certificate does not cover the full balance." }, { status: 400 });
+      // A certificate that doesn't cover the bill pays part of it; cash or card settle the rest later.
+      if (amountOverrideCents > 0 || Number.isFinite(bookingTotalNew)) {
+        return NextResponse.json({ error: "Gift certificate does not cover the full balance." }, { status: 400 });
+      }
+      // A certificate can have several redemptions on one booking (e.g. a cash-pay with the code); any one counts.
+      const { data: applied, error: appliedErr } = await sb
+        .from("gift_certificate_redemptions")
+        .select("id")
+        .eq("certificate_id", giftResult.gift.id)
+        .eq("booking_id", booking.id)
+        .limit(1);
+      if (appliedErr) {
+        console.error("gift redemption lookup error:", appliedErr);
+        return NextResponse.json({ error: "Failed to check gift certificate." }, { status: 500 });
+      }
+      if (applied?.length) {
+        return NextResponse.json(
+          { error: "This gift certificate was already applied to this booking." },
+          { status: 400 }
+        );
+      }
+      await redeemGiftCertificate({
+        code: giftResult.gift.code,
+        customerEmail: String(booking.customer_email || ""),
+        amountCents: giftResult.amountOffCents,
+        bookingId: booking.id,
+        createdBy: staff.staff_id,
+      });
+      const remainingCents = await applyPartialBookingPayment(booking.id, giftResult.amountOffCents);
+      return NextResponse.json({ ok: true, remaining_cents: remainingCents }, { status: 200 });
     }
 
     const { data: tab } = await sb
@@ -103,10 +139,14 @@ export async function POST(req: Request, context: RouteContext) {
       createdBy: staff.staff_id,
     });
 
-    const nextTotalCents = Number.isFinite(bookingTotalNew) ? bookingTotalNew : giftResult.remainingCents;
+    const nextTotalCents = Number.isFinite(bookingTotalNew)
+      ? bookingTotalNew
+      : balanceDue > 0
+        ? bookingTotalCents
+        : giftResult.remainingCents;
     const { error: updErr } = await sb
       .from("bookings")
-      .update({ paid: true, total_cents: nextTotalCents })
+      .update({ ...(balanceDue > 0 ? balanceSettledFields() : { paid: true }), total_cents: nextTotalCents })
       .eq("id", booking.id);
     if (updErr) {
       console.error("booking gift pay update error:", updErr);
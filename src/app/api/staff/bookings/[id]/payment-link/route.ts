@@ -3,6 +3,12 @@ import { createClient } from "@supabase/supabase-js";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
 import { getStripe } from "@/lib/server/stripe";
 import { cardFeeCents } from "@/lib/bookingLogic";
+import { DEFAULT_LOCATION } from "@/lib/locations";
+import { resolveLocation } from "@/lib/server/locations";
+import { toZonedTime } from "@/lib/dateTime";
+import { balanceDueCents } from "@/lib/deposits";
+import { sendBookingPaymentLinkEmail } from "@/lib/server/mailer";
+import type { ActivityUI } from "@/lib/server/bookingService";
 
 type RouteContext = { params: Promise<{ id: string }> | { id: string } };
 
@@ -28,29 +34,6 @@ function getSupabaseAdmin() {
   return createClient(url, key, { auth: { persistSession: false } });
 }
 
-function dateKeyFromIsoNY(iso: string | null) {
-  if (!iso) return "";
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(new Date(iso));
-}
-
-function minutesFromIsoNY(iso: string | null) {
-  if (!iso) return 0;
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/New_York",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).formatToParts(new Date(iso));
-  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? "0");
-  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? "0");
-  return hour * 60 + minute;
-}
-
 const ACTIVITY_LABELS: Record<string, string> = {
   AXE: "Axe Throwing",
   DUCKPIN: "Duckpin Bowling",
@@ -84,22 +67,27 @@ export async function POST(req: Request, context: RouteContext) {
     const sb = getSupabaseAdmin();
     const { data: booking, error } = await sb
       .from("bookings")
-      .select("id,activity,party_size,duration_minutes,start_ts,customer_name,customer_email,combo_order,total_cents")
+      .select("id,activity,party_size,duration_minutes,start_ts,customer_name,customer_email,combo_order,total_cents,paid,balance_due_cents,location_id")
       .eq("id", id)
       .single();
 
     if (error || !booking) {
       return NextResponse.json({ error: "Booking not found" }, { status: 404 });
     }
+    if (booking.paid === true) {
+      return NextResponse.json({ error: "Booking already paid" }, { status: 400 });
+    }
 
-    const amount = Number(booking.total_cents || 0);
+    // A booking paid by deposit gets a link for its balance; the webhook settles it from balance_payment.
+    const balanceDue = balanceDueCents(booking);
+    const amount = balanceDue > 0 ? balanceDue : Number(booking.total_cents || 0);
     if (!Number.isFinite(amount) || amount <= 0) {
       return NextResponse.json({ error: "Invalid booking total" }, { status: 400 });
     }
 
     const activity = activityLabel(booking.activity);
-    const dateKey = dateKeyFromIsoNY(booking.start_ts);
-    const startMin = minutesFromIsoNY(booking.start_ts);
+    const location = (await resolveLocation(booking.location_id)) ?? DEFAULT_LOCATION;
+    const { dateKey, minutes: startMin } = toZonedTime(booking.start_ts, location.timezone);
     const durationMinutes = Number(booking.duration_minutes || 0);
     const partySize = Number(booking.party_size || 0);
     const customerName = String(booking.customer_name || "");
@@ -121,7 +109,7 @@ export async function POST(req: Request, context: RouteContext) {
             currency: "usd",
             unit_amount: amount,
             product_data: {
-              name: `${activity} Booking`,
+              name: balanceDue > 0 ? `${activity} Booking balance` : `${activity} Booking`,
               description: `${partySize} guests`,
             },
           },
@@ -156,6 +144,7 @@ export async function POST(req: Request, context: RouteContext) {
           total_before_discount: String(amount),
           discount_amount: "0",
           card_fee_cents: String(cardFee),
+          balance_payment: balanceDue > 0 ? "true" : "",
         },
       },
     });
@@ -165,7 +154,25 @@ export async function POST(req: Request, context: RouteContext) {
       return NextResponse.json({ error: "Unable to create payment link" }, { status: 500 });
     }
 
-    return NextResponse.json({ paymentUrl }, { status: 200 });
+    let emailSent = false;
+    try {
+      const emailResult = await sendBookingPaymentLinkEmail({
+        activity: activity as ActivityUI,
+        partySize,
+        dateKey,
+        startMin,
+        durationMinutes,
+        customerName,
+        customerEmail,
+        totalCents: amount,
+        paymentUrl,
+      });
+      emailSent = emailResult.sent;
+    } catch (emailErr) {
+      console.error("booking payment link email error:", emailErr);
+    }
+
+    return NextResponse.json({ paymentUrl, amountCents: amount, emailSent }, { status: 200 });
   } catch (err: any) {
     console.error("booking payment link fatal:", err);
     return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { loadBookingPayments } from "@/lib/server/bookingPayments";
+import { outstandingCents } from "@/lib/bookingPayments";
+
+type RouteContext = { params: Promise<{ id: string }> | { id: string } };
+
+async function getRouteId(req: Request, context: RouteContext) {
+  const resolvedParams = await Promise.resolve(context.params);
+  if (resolvedParams?.id) return String(resolvedParams.id).trim();
+  try {
+    const path = new URL(req.url).pathname;
+    return path.split("/").slice(-2, -1)[0] || "";
+  } catch {
+    return "";
+  }
+}
+
+// Payments recorded against the booking (any tender) and what's still owed, for the pay modal's split view.
+export async function GET(req: Request, context: RouteContext) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const id = await getRouteId(req, context);
+    if (!id) return NextResponse.json({ error: "Missing booking id" }, { status: 400 });
+
+    const sb = supabaseServer();
+    const { data: booking, error } = await sb
+      .from("bookings")
+      .select("id,total_cents,paid,balance_due_cents")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) {
+      console.error("booking payments booking error:", error);
+      return NextResponse.json({ error: "Failed to load booking" }, { status: 500 });
+    }
+    if (!booking) return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+
+    const payments = await loadBookingPayments(booking.id);
+    return NextResponse.json(
+      {
+        payments,
+        total_cents: Number(booking.total_cents || 0),
+        paid_cents: payments.reduce((sum, payment) => sum + Number(payment.amount_cents || 0), 0),
+        remaining_cents: outstandingCents(booking),
+      },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("booking payments fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -3,6 +3,9 @@ import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
 import { sendBookingConfirmationEmail } from "@/lib/server/mailer";
 import type { ActivityUI } from "@/lib/server/bookingService";
+import { DEFAULT_LOCATION } from "@/lib/locations";
+import { resolveLocation } from "@/lib/server/locations";
+import { toZonedTime } from "@/lib/dateTime";
 
 type RouteContext = { params: Promise<{ id: string }> | { id: string } };
 
@@ -17,29 +20,6 @@ async function getRouteId(req: Request, context: RouteContext) {
   }
 }
 
-function dateKeyFromIsoNY(iso: string | null) {
-  if (!iso) return "";
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(new Date(iso));
-}
-
-function minutesFromIsoNY(iso: string | null) {
-  if (!iso) return 0;
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/New_York",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).formatToParts(new Date(iso));
-  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? "0");
-  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? "0");
-  return hour * 60 + minute;
-}
-
 function activityLabel(activity: string | null): ActivityUI {
   const key = String(activity || "").toUpperCase();
   if (key === "AXE") return "Axe Throwing";
@@ -60,7 +40,7 @@ export async function POST(req: Request, context: RouteContext) {
     let { data: booking, error: bookingErr } = await sb
       .from("bookings")
       .select(
-        "id,activity,party_size,duration_minutes,start_ts,end_ts,customer_name,customer_email,customer_phone,combo_order,total_cents,paid"
+        "id,activity,party_size,duration_minutes,start_ts,end_ts,customer_name,customer_email,customer_phone,combo_order,total_cents,paid,location_id"
       )
       .eq("id", id)
       .single();
@@ -71,7 +51,7 @@ export async function POST(req: Request, context: RouteContext) {
         ({ data: booking, error: bookingErr } = await sb
           .from("bookings")
           .select(
-            "id,activity,party_size,duration_minutes,start_ts,end_ts,customer_name,customer_email,customer_phone,combo_order,total_cents,paid"
+            "id,activity,party_size,duration_minutes,start_ts,end_ts,customer_name,customer_email,customer_phone,combo_order,total_cents,paid,location_id"
           )
           .eq("id", resv.booking_id)
           .single());
@@ -85,8 +65,8 @@ export async function POST(req: Request, context: RouteContext) {
       return NextResponse.json({ error: "Customer email missing" }, { status: 400 });
     }
 
-    const dateKey = dateKeyFromIsoNY(booking.start_ts);
-    const startMin = minutesFromIsoNY(booking.start_ts);
+    const location = (await resolveLocation(booking.location_id)) ?? DEFAULT_LOCATION;
+    const { dateKey, minutes: startMin } = toZonedTime(booking.start_ts, location.timezone);
     let durationMinutes = Number(booking.duration_minutes || 0);
     if (!durationMinutes && booking.start_ts && booking.end_ts) {
       const start = new Date(booking.start_ts).getTime();
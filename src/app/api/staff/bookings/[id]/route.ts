@@ -1,17 +1,17 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
-import { PARTY_AREA_OPTIONS, neededResources, nyLocalDateKeyPlusMinutesToUTCISOString } from "@/lib/bookingLogic";
 import { sendOwnerNotification } from "@/lib/server/mailer";
+import { offerWaitlistForReleasedSlot } from "@/lib/server/waitlist";
 import { validateGiftCertificate, redeemGiftCertificate } from "@/lib/server/giftCertificates";
+import { rescheduleBookingResources } from "@/lib/server/bookingReschedule";
+import { loadActivityDefinition } from "@/lib/server/activities";
+import { COMBO_ACTIVITY_KEY } from "@/lib/activities";
+import { loadLocations } from "@/lib/server/locations";
+import { defaultLocation, findLocation } from "@/lib/locations";
+import { dateKeyInTimeZone, formatInstant } from "@/lib/dateTime";
 
 const ALLOWED_STATUSES = new Set(["CONFIRMED", "CANCELLED", "NO-SHOW", "COMPLETED"]);
-const ACTIVITY_DB = {
-  "Axe Throwing": "AXE",
-  "Duckpin Bowling": "DUCKPIN",
-  "Combo Package": "COMBO",
-} as const;
-const PARTY_AREA_NAME_SET: Set<string> = new Set(PARTY_AREA_OPTIONS.map((option) => option.name));
 
 type RouteContext = { params: Promise<{ id: string }> | { id: string } };
 
@@ -37,49 +37,6 @@ function getSupabaseAdmin() {
   return createClient(url, key, { auth: { persistSession: false } });
 }
 
-function dateKeyFromIsoNY(iso: string | null) {
-  if (!iso) return "";
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(new Date(iso));
-}
-
-function timeLabelFromIsoNY(iso: string | null) {
-  if (!iso) return "—";
-  return new Date(iso).toLocaleTimeString("en-US", {
-    timeZone: "America/New_York",
-    hour: "numeric",
-    minute: "2-digit",
-  });
-}
-
-function weekdayNY(dateKey: string) {
-  const [y, m, d] = dateKey.split("-").map(Number);
-  const utc = Date.UTC(y, (m ?? 1) - 1, d ?? 1, 12, 0, 0);
-  const label = new Intl.DateTimeFormat("en-US", { timeZone: "America/New_York", weekday: "short" }).format(
-    new Date(utc)
-  );
-  const map: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
-  return map[label] ?? 0;
-}
-
-function getOpenWindowForDateKey(dateKey: string): { openMin: number; closeMin: number } | null {
-  if (!dateKey) return null;
-  const day = weekdayNY(dateKey);
-  if (day === 4) return { openMin: 16 * 60, closeMin: 22 * 60 };
-  if (day === 5) return { openMin: 16 * 60, closeMin: 23 * 60 };
-  if (day === 6) return { openMin: 12 * 60, closeMin: 23 * 60 };
-  if (day === 0) return { openMin: 12 * 60, closeMin: 21 * 60 };
-  return null;
-}
-
-function overlaps(aStart: number, aEnd: number, bStart: number, bEnd: number) {
-  return aStart < bEnd && aEnd > bStart;
-}
-
 async function logBookingEvent(sb: ReturnType<typeof getSupabaseAdmin>, payload: {
   bookingId: string;
   staffId: string;
@@ -112,7 +69,7 @@ export async function GET(req: Request, context: RouteContext) {
     let { data, error } = await sb
       .from("bookings")
       .select(
-        "id,customer_name,customer_email,party_size,status,activity,combo_order,duration_minutes,start_ts,end_ts,paid,notes,assigned_staff_id,tip_cents,tip_staff_id"
+        "id,customer_name,customer_email,party_size,status,activity,combo_order,combo_axe_minutes,combo_duckpin_minutes,combo_transition_minutes,duration_minutes,start_ts,end_ts,paid,notes,assigned_staff_id,tip_cents,tip_staff_id"
       )
       .eq("id", id)
       .single();
@@ -126,7 +83,7 @@ export async function GET(req: Request, context: RouteContext) {
     ) {
       ({ data, error } = await sb
         .from("bookings")
-        .select("id,customer_name,customer_email,party_size,status,activity,combo_order,duration_minutes,start_ts,end_ts,paid,notes")
+        .select("id,customer_name,customer_email,party_size,status,activity,combo_order,combo_axe_minutes,combo_duckpin_minutes,combo_transition_minutes,duration_minutes,start_ts,end_ts,paid,notes")
         .eq("id", id)
         .single());
     }
@@ -208,15 +165,16 @@ export async function PATCH(req: Request, context: RouteContext) {
         updates.assigned_staff_id = staffRow.staff_id;
       }
     }
-    let activityOverride: keyof typeof ACTIVITY_DB | null = null;
+    let activityOverride: string | null = null;
+    let comboOverride = false;
     if (body?.activity != null) {
-      const activity = String(body.activity || "");
-      const activityDb = ACTIVITY_DB[activity as keyof typeof ACTIVITY_DB];
-      if (!activityDb) {
+      const definition = await loadActivityDefinition(String(body.activity || ""));
+      if (!definition) {
         return NextResponse.json({ error: "Invalid activity" }, { status: 400 });
       }
-      activityOverride = activity as keyof typeof ACTIVITY_DB;
-      updates.activity = activityDb;
+      activityOverride = definition.name;
+      comboOverride = definition.key === COMBO_ACTIVITY_KEY;
+      updates.activity = definition.key;
     }
     const durationRaw = Number(body?.durationMinutes);
     let durationOverride: number | null = null;
@@ -226,7 +184,7 @@ export async function PATCH(req: Request, context: RouteContext) {
       }
       durationOverride = Math.round(durationRaw);
     }
-    if (activityOverride === "Combo Package" && durationOverride !== 120) {
+    if (comboOverride && durationOverride !== 120) {
       durationOverride = 120;
     }
     if (durationOverride != null) {
@@ -261,231 +219,24 @@ export async function PATCH(req: Request, context: RouteContext) {
         return NextResponse.json({ error: "Invalid date" }, { status: 400 });
       }
 
-      const { data: booking, error: bookingErr } = await sb
-        .from("bookings")
-        .select("id,activity,party_size,duration_minutes,combo_order,status")
-        .eq("id", id)
-        .single();
-
-      if (bookingErr || !booking) {
-        return NextResponse.json({ error: "Booking not found" }, { status: 404 });
-      }
-
-      const activity = activityOverride ?? (String(booking.activity || "") as keyof typeof ACTIVITY_DB);
-      const activityDb = ACTIVITY_DB[activity];
-      if (!activityDb) {
-        return NextResponse.json({ error: "Unsupported activity" }, { status: 400 });
-      }
-
-      const durationMinutes = durationOverride ?? Number(booking.duration_minutes || 0);
-      if (!Number.isFinite(durationMinutes) || durationMinutes <= 0) {
-        return NextResponse.json({ error: "Invalid duration" }, { status: 400 });
-      }
-
-      const openWindow = getOpenWindowForDateKey(dateKey);
-      if (!openWindow) {
-        return NextResponse.json({ error: "Closed on selected day" }, { status: 400 });
-      }
-      const openStartMin = openWindow.openMin;
-      const openEndMin = openWindow.closeMin;
-      if (startMin < openStartMin || startMin + durationMinutes > openEndMin) {
-        return NextResponse.json({ error: "Selected time outside business hours" }, { status: 400 });
-      }
-
-      const { data: blackouts } = await sb
-        .from("blackout_rules")
-        .select("start_min,end_min,activity")
-        .eq("date_key", dateKey)
-        .in("activity", [activityDb, "ALL"]);
-
-      const { data: buffers } = await sb
-        .from("buffer_rules")
-        .select("activity,before_min,after_min,active")
-        .eq("active", true)
-        .in("activity", [activityDb, "ALL"]);
-
-      const bufferBefore = Math.max(0, ...(buffers || []).map((b: any) => Number(b.before_min) || 0));
-      const bufferAfter = Math.max(0, ...(buffers || []).map((b: any) => Number(b.after_min) || 0));
-
-      const slotStartMin = Math.max(openStartMin, startMin - bufferBefore);
-      const slotEndMin = Math.min(openEndMin, startMin + durationMinutes + bufferAfter);
-      if ((blackouts || []).some((b: any) => overlaps(slotStartMin, slotEndMin, Number(b.start_min), Number(b.end_min)))) {
-        return NextResponse.json({ error: "Selected time is blocked" }, { status: 400 });
-      }
-
-      const partySizeOverride = updates.party_size ?? booking.party_size ?? 1;
-      const needs = neededResources(activity as any, Number(partySizeOverride || 1));
-      const types: Array<"AXE" | "DUCKPIN"> = [];
-      if (needs.AXE > 0) types.push("AXE");
-      if (needs.DUCKPIN > 0) types.push("DUCKPIN");
-
-      const { data: resources, error: resErr } = await sb
-        .from("resources")
-        .select("id,type,active")
-        .in("type", types)
-        .or("active.eq.true,active.is.null");
-
-      if (resErr) {
-        return NextResponse.json({ error: "Failed to load resources" }, { status: 500 });
-      }
-
-      const activeByType: Record<"AXE" | "DUCKPIN", string[]> = { AXE: [], DUCKPIN: [] };
-      for (const r of resources || []) {
-        const t = r.type as "AXE" | "DUCKPIN";
-        if (t === "AXE" || t === "DUCKPIN") activeByType[t].push(r.id);
-      }
-
-      if ((needs.AXE > 0 && activeByType.AXE.length < needs.AXE) || (needs.DUCKPIN > 0 && activeByType.DUCKPIN.length < needs.DUCKPIN)) {
-        return NextResponse.json({ error: "Not enough resources available" }, { status: 400 });
-      }
-
-      const startIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, startMin);
-      const endIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, startMin + durationMinutes);
-
-      const { data: reservations } = await sb
-        .from("resource_reservations")
-        .select("resource_id,start_ts,end_ts, resources!inner(type)")
-        .in("resource_id", [...activeByType.AXE, ...activeByType.DUCKPIN])
-        .neq("booking_id", id)
-        .gt("end_ts", startIso)
-        .lt("start_ts", endIso);
-
-      const intervalsByType: Record<"AXE" | "DUCKPIN", Map<string, Array<[number, number]>>> = {
-        AXE: new Map(),
-        DUCKPIN: new Map(),
-      };
-      for (const row of reservations || []) {
-        const type = (row as any)?.resources?.type as "AXE" | "DUCKPIN" | undefined;
-        const resourceId = row.resource_id as string;
-        if (!type || !resourceId) continue;
-        const s = new Date(row.start_ts as string).getTime();
-        const e = new Date(row.end_ts as string).getTime();
-        const list = intervalsByType[type].get(resourceId) || [];
-        list.push([s, e]);
-        intervalsByType[type].set(resourceId, list);
-      }
-
-      const findFree = (type: "AXE" | "DUCKPIN", segStart: string, segEnd: string, count: number) => {
-        const segS = new Date(segStart).getTime();
-        const segE = new Date(segEnd).getTime();
-        const chosen: string[] = [];
-        for (const resourceId of activeByType[type]) {
-          const intervals = intervalsByType[type].get(resourceId) || [];
-          let isUsed = false;
-          for (const [s, e] of intervals) {
-            if (overlaps(segS, segE, s, e)) {
-              isUsed = true;
-              break;
-            }
-          }
-          if (!isUsed) {
-            chosen.push(resourceId);
-            if (chosen.length >= count) break;
-          }
-        }
-        return chosen.length >= count ? chosen : null;
-      };
-
-      const comboOrder = String(booking.combo_order || "DUCKPIN_FIRST");
-      const isCombo = activity === "Combo Package";
-
-      let axeStartIso = startIso;
-      let axeEndIso = endIso;
-      let duckStartIso = startIso;
-      let duckEndIso = endIso;
-
-      if (isCombo) {
-        const firstStart = startMin;
-        const firstEnd = startMin + 60;
-        const secondStart = startMin + 60;
-        const secondEnd = startMin + 120;
-        const duckpinFirst = comboOrder !== "AXE_FIRST";
-        const duckpinStartMin = duckpinFirst ? firstStart : secondStart;
-        const duckpinEndMin = duckpinFirst ? firstEnd : secondEnd;
-        const axeStartMin = duckpinFirst ? secondStart : firstStart;
-        const axeEndMin = duckpinFirst ? secondEnd : firstEnd;
-        duckStartIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, duckpinStartMin);
-        duckEndIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, duckpinEndMin);
-        axeStartIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, axeStartMin);
-        axeEndIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, axeEndMin);
-      }
-
-      const axeResources = needs.AXE > 0 ? findFree("AXE", axeStartIso, axeEndIso, needs.AXE) : [];
-      const duckResources = needs.DUCKPIN > 0 ? findFree("DUCKPIN", duckStartIso, duckEndIso, needs.DUCKPIN) : [];
-
-      if ((needs.AXE > 0 && !axeResources) || (needs.DUCKPIN > 0 && !duckResources)) {
-        return NextResponse.json({ error: "Selected time is unavailable" }, { status: 400 });
-      }
-
-      const { data: existingPartyReservations } = await sb
-        .from("resource_reservations")
-        .select("resource_id,start_ts,end_ts, resources!inner(type,name)")
-        .eq("booking_id", id);
-      const partyResourceIds = (existingPartyReservations || [])
-        .filter((row: any) => {
-          const type = String(row?.resources?.type || "").toUpperCase();
-          const name = String(row?.resources?.name || "");
-          return type === "PARTY" || PARTY_AREA_NAME_SET.has(name);
-        })
-        .map((row: any) => row.resource_id)
-        .filter(Boolean);
-      const partyDurationMs = (existingPartyReservations || [])
-        .filter((row: any) => {
-          const type = String(row?.resources?.type || "").toUpperCase();
-          const name = String(row?.resources?.name || "");
-          return type === "PARTY" || PARTY_AREA_NAME_SET.has(name);
-        })
-        .map((row: any) => {
-          const start = new Date(row.start_ts as string).getTime();
-          const end = new Date(row.end_ts as string).getTime();
-          return Number.isFinite(start) && Number.isFinite(end) ? Math.max(0, end - start) : 0;
-        })
-        .reduce((max: number, val: number) => Math.max(max, val), 0);
-      const partyEndIso =
-        partyDurationMs > 0 ? new Date(new Date(startIso).getTime() + partyDurationMs).toISOString() : endIso;
-
-      if (partyResourceIds.length) {
-        const { data: partyConflicts, error: partyErr } = await sb
-          .from("resource_reservations")
-          .select("resource_id, bookings(status)")
-          .in("resource_id", partyResourceIds)
-          .neq("booking_id", id)
-          .gt("end_ts", startIso)
-          .lt("start_ts", endIso);
-
-        if (partyErr) {
-          return NextResponse.json({ error: "Failed to check party area availability" }, { status: 500 });
-        }
-
-        const hasConflict = (partyConflicts || []).some((row: any) => {
-          if (row?.bookings == null) return false;
-          return row?.bookings?.status !== "CANCELLED";
+      try {
+        const moved = await rescheduleBookingResources({
+          bookingId: id,
+          dateKey,
+          startMin,
+          activity: activityOverride,
+          durationMinutes: durationOverride,
+          partySize: updates.party_size ?? null,
         });
-        if (hasConflict) {
-          return NextResponse.json({ error: "Selected party area is unavailable" }, { status: 400 });
+        updates.start_ts = moved.startIso;
+        updates.end_ts = moved.endIso;
+        if (moved.totalCents != null && updates.total_cents == null) {
+          updates.total_cents = moved.totalCents;
         }
+      } catch (rescheduleErr: any) {
+        const message = rescheduleErr?.message || "Failed to reschedule booking";
+        return NextResponse.json({ error: message }, { status: message === "Booking not found" ? 404 : 400 });
       }
-
-      await sb.from("resource_reservations").delete().eq("booking_id", id);
-      const inserts: Array<{ booking_id: string; resource_id: string; start_ts: string; end_ts: string }> = [];
-      for (const rid of axeResources || []) {
-        inserts.push({ booking_id: id, resource_id: rid, start_ts: axeStartIso, end_ts: axeEndIso });
-      }
-      for (const rid of duckResources || []) {
-        inserts.push({ booking_id: id, resource_id: rid, start_ts: duckStartIso, end_ts: duckEndIso });
-      }
-      for (const rid of partyResourceIds) {
-        inserts.push({ booking_id: id, resource_id: rid, start_ts: startIso, end_ts: partyEndIso });
-      }
-      if (inserts.length) {
-        const { error: insertErr } = await sb.from("resource_reservations").insert(inserts);
-        if (insertErr) {
-          return NextResponse.json({ error: "Failed to update reservations" }, { status: 500 });
-        }
-      }
-
-      updates.start_ts = startIso;
-      updates.end_ts = endIso;
     }
 
     if (Object.keys(updates).length === 0) {
@@ -497,7 +248,9 @@ export async function PATCH(req: Request, context: RouteContext) {
       .from("bookings")
       .update(updates)
       .eq("id", id)
-      .select("id,status,customer_name,customer_email,party_size,activity,duration_minutes,start_ts,end_ts,paid,notes,total_cents")
+      .select(
+        "id,status,customer_name,customer_email,party_size,activity,duration_minutes,start_ts,end_ts,paid,notes,total_cents,location_id"
+      )
       .single();
 
     if (error) {
@@ -542,6 +295,7 @@ export async function PATCH(req: Request, context: RouteContext) {
           { status: 500 }
         );
       }
+      await offerWaitlistForReleasedSlot(data?.start_ts, data?.location_id ?? null);
     }
 
     await logBookingEvent(sb, {
@@ -560,8 +314,10 @@ export async function PATCH(req: Request, context: RouteContext) {
             : statusValue === "COMPLETED"
             ? "Axe Quacks: Booking Completed"
             : "Axe Quacks: Booking Status Updated";
-        const startLabel = timeLabelFromIsoNY(data?.start_ts || null);
-        const endLabel = timeLabelFromIsoNY(data?.end_ts || null);
+        const locations = await loadLocations();
+        const timeZone = (findLocation(locations, data?.location_id) ?? defaultLocation(locations)).timezone;
+        const startLabel = formatInstant(data?.start_ts, timeZone);
+        const endLabel = formatInstant(data?.end_ts, timeZone);
         await sendOwnerNotification({
           subject,
           lines: [
@@ -569,7 +325,7 @@ export async function PATCH(req: Request, context: RouteContext) {
             `Customer: ${data?.customer_name || "—"}`,
             data?.customer_email ? `Email: ${data.customer_email}` : null,
             `Activity: ${data?.activity || "—"}`,
-            `Date: ${dateKeyFromIsoNY(data?.start_ts || null)}`,
+            `Date: ${data?.start_ts ? dateKeyInTimeZone(data.start_ts, timeZone) : ""}`,
             `Time: ${startLabel} – ${endLabel}`,
             `Status: ${statusValue}`,
           ].filter(Boolean) as string[],
@@ -603,6 +359,7 @@ export async function DELETE(req: Request, context: RouteContext) {
     if (!id) return NextResponse.json({ error: "Missing id" }, { status: 400 });
 
     const sb = getSupabaseAdmin();
+    const { data: released } = await sb.from("bookings").select("start_ts,location_id,status").eq("id", id).maybeSingle();
 
     const { error: rrErr } = await sb.from("resource_reservations").delete().eq("booking_id", id);
     if (rrErr) {
@@ -621,6 +378,9 @@ export async function DELETE(req: Request, context: RouteContext) {
       staffId: staff.staff_id,
       action: "DELETE",
     });
+    if (released && released.status !== "CANCELLED") {
+      await offerWaitlistForReleasedSlot(released.start_ts, released.location_id ?? null);
+    }
 
     return NextResponse.json({ ok: true }, { status: 200 });
   } catch (err: any) {
@@ -1,8 +1,12 @@
 import { NextResponse } from "next/server";
 import { createBookingBypassResources, type ActivityUI, type ComboOrder, type BookingInput } from "@/lib/server/bookingService";
-import { canonicalPartyAreaName, type PartyAreaName, MAX_PARTY_SIZES } from "@/lib/bookingLogic";
+import { canonicalPartyAreaName, type PartyAreaName } from "@/lib/bookingLogic";
+import { findActivityByName } from "@/lib/activities";
+import { loadActivityDefinitions } from "@/lib/server/activities";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { resolveStaffLocation } from "@/lib/server/locations";
+import { parseTimeLabel } from "@/lib/dateTime";
 
 type ParsedRow = {
   activity: ActivityUI;
@@ -23,23 +27,6 @@ type ParsedRow = {
   partyAreaMinutes?: number;
 };
 
-function parseMinutesFromTime(input: string) {
-  const raw = input.trim().toUpperCase();
-  if (!raw) return null;
-  const match = raw.match(/^(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?$/);
-  if (!match) return null;
-  let hour = Number(match[1]);
-  const mins = match[2] ? Number(match[2]) : 0;
-  const meridiem = match[3] || "";
-  if (!Number.isFinite(hour) || !Number.isFinite(mins)) return null;
-  if (meridiem) {
-    if (hour === 12) hour = 0;
-    if (meridiem === "PM") hour += 12;
-  }
-  if (hour < 0 || hour > 23 || mins < 0 || mins > 59) return null;
-  return hour * 60 + mins;
-}
-
 function parseActivity(input: string): ActivityUI | null {
   const value = input.trim().toUpperCase();
   if (!value) return null;
@@ -91,7 +78,7 @@ function parseRows(raw: string) {
     ] = parts;
 
     const activity = parseActivity(activityRaw || "");
-    const startMin = parseMinutesFromTime(startTime || "");
+    const startMin = parseTimeLabel(startTime || "");
     const durationMinutes = Number(durationRaw);
     const partySize = Number(partySizeRaw);
     const paid = parsePaid(paidRaw || "");
@@ -157,13 +144,18 @@ export async function POST(req: Request) {
     }
 
     const body = await req.json().catch(() => ({}));
+    // One import targets one location.
+    const location = await resolveStaffLocation(req, staff, body?.location_id);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
     let rows: ParsedRow[] = [];
     if (Array.isArray(body?.rows)) {
       const inputRows = body.rows as IncomingRow[];
       const errors: string[] = [];
       rows = inputRows
         .map((row, idx) => {
-          const startMin = parseMinutesFromTime(String(row.startTime || ""));
+          const startMin = parseTimeLabel(String(row.startTime || ""));
           if (!row.dateKey || !row.activity || !Number.isFinite(Number(row.durationMinutes)) || !Number.isFinite(Number(row.partySize)) || startMin == null) {
             errors.push(`Row ${idx + 1}: Missing required fields.`);
             return null;
@@ -212,10 +204,11 @@ export async function POST(req: Request) {
 
     const sb = supabaseServer();
     const results: Array<{ bookingId: string; line: number }> = [];
+    const activities = await loadActivityDefinitions();
 
     for (let i = 0; i < rows.length; i += 1) {
       const row = rows[i];
-      const activityMax = MAX_PARTY_SIZES[row.activity] ?? 24;
+      const activityMax = findActivityByName(activities, row.activity)?.maxPartySize ?? 24;
       const partySizeForResources = Math.min(row.partySize, activityMax);
       const bookingInput: BookingInput = {
         activity: row.activity,
@@ -232,6 +225,7 @@ export async function POST(req: Request) {
         totalCentsOverride: row.totalCentsOverride,
         partyAreas: row.partyAreas as PartyAreaName[] | undefined,
         partyAreaMinutes: row.partyAreaMinutes,
+        locationId: location.id,
       };
 
       const result = await createBookingBypassResources(bookingInput);
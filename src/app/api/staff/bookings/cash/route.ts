@@ -6,15 +6,14 @@ import { supabaseServer } from "@/lib/supabaseServer";
 import { hasPromoRedemption, normalizeEmail, normalizePromoCode, recordPromoRedemption } from "@/lib/server/promoRedemptions";
 import { validatePromoUsage } from "@/lib/server/promoRules";
 import { validateGiftCertificate, redeemGiftCertificate } from "@/lib/server/giftCertificates";
-import { partyAreaCostCents, totalCents } from "@/lib/bookingLogic";
-
-function formatTimeFromMinutes(minsFromMidnight: number) {
-  const h24 = Math.floor(minsFromMidnight / 60);
-  const m = minsFromMidnight % 60;
-  const ampm = h24 >= 12 ? "PM" : "AM";
-  const h12 = ((h24 + 11) % 12) + 1;
-  return `${h12}:${String(m).padStart(2, "0")} ${ampm}`;
-}
+import { partyAreaCostCents, quoteActivityCents } from "@/lib/bookingLogic";
+import { describePriceModifier } from "@/lib/rateCard";
+import { checkStoreHoursWindow, getStoreHoursOverride, logStoreHoursOverride } from "@/lib/server/storeHours";
+import { loadActiveRateCard } from "@/lib/server/rateCards";
+import { loadActivityDefinition } from "@/lib/server/activities";
+import { resolveRequestLocation, resolveStaffLocation } from "@/lib/server/locations";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { formatMinutesLabel } from "@/lib/dateTime";
 
 export async function POST(req: Request) {
   try {
@@ -43,6 +42,30 @@ export async function POST(req: Request) {
     if (!activity || !dateKey || !Number.isFinite(partySize) || !Number.isFinite(startMin) || !Number.isFinite(durationMinutes)) {
       return NextResponse.json({ error: "Missing booking fields" }, { status: 400 });
     }
+    const definition = await loadActivityDefinition(activity);
+    if (!definition) {
+      return NextResponse.json({ error: "Invalid activity" }, { status: 400 });
+    }
+    const staff = await getStaffUserFromCookies().catch(() => null);
+    const location = staff
+      ? await resolveStaffLocation(req, staff, body?.locationId)
+      : await resolveRequestLocation(req, body?.locationId);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+
+    const hoursOverride = await getStoreHoursOverride(body);
+    const bookingWindowMinutes = Math.max(durationMinutes, normalizedPartyAreaMinutes);
+    const hoursCheck = await checkStoreHoursWindow({
+      dateKey,
+      startMin,
+      durationMinutes: bookingWindowMinutes,
+      override: hoursOverride,
+      location,
+    });
+    if (hoursCheck.error) {
+      return NextResponse.json({ error: hoursCheck.error }, { status: 400 });
+    }
 
     const bookingInput = {
       activity,
@@ -60,15 +83,29 @@ export async function POST(req: Request) {
       comboOrder,
       totalCentsOverride: Number.isFinite(totalCentsOverride) ? totalCentsOverride : undefined,
       partyAreas,
+      locationId: location.id,
     };
 
     const comboDurations =
       Number.isFinite(comboAxeMinutes) && Number.isFinite(comboDuckpinMinutes)
         ? { axeMinutes: comboAxeMinutes, duckpinMinutes: comboDuckpinMinutes }
         : undefined;
-    const baseAmount =
-      totalCents(activity, partySize, durationMinutes, comboDurations) +
-      partyAreaCostCents(normalizedPartyAreaMinutes, partyAreas.length);
+    const rateCard = await loadActiveRateCard(location);
+    const quote = quoteActivityCents(
+      activity,
+      partySize,
+      durationMinutes,
+      comboDurations,
+      rateCard.config,
+      { dateKey, startMin },
+      definition
+    );
+    const baseAmount = quote.totalCents + partyAreaCostCents(normalizedPartyAreaMinutes, partyAreas.length);
+    // A staff-entered total replaces the quote, so the modifier only shows on rate-card pricing.
+    const priceModifier =
+      quote.modifier && !Number.isFinite(totalCentsOverride)
+        ? { priceModifierLabel: describePriceModifier(quote.modifier), priceModifierCents: quote.modifierCents }
+        : {};
     let giftMeta: { code: string; amountOff: number } | null = null;
 
     if (promoCode) {
@@ -134,6 +171,17 @@ export async function POST(req: Request) {
     if (error) {
       console.error("cash booking paid update error:", error);
     }
+    if (hoursOverride && hoursCheck.overridden) {
+      await logStoreHoursOverride({
+        override: hoursOverride,
+        source: "staff/bookings/cash",
+        dateKey,
+        startMin,
+        durationMinutes: bookingWindowMinutes,
+        hours: hoursCheck.hours,
+        bookingId: result.bookingId,
+      });
+    }
     if (promoCode && !giftMeta) {
       await recordPromoRedemption({
         promoCode,
@@ -168,6 +216,7 @@ export async function POST(req: Request) {
         customerEmail: bookingInput.customerEmail,
         customerPhone: bookingInput.customerPhone,
         comboOrder: bookingInput.comboOrder,
+        ...priceModifier,
         waiverUrl: waiverResult.waiverUrl || "",
         totalCents: bookingInput.totalCentsOverride,
         paid: true,
@@ -187,6 +236,7 @@ export async function POST(req: Request) {
         customerName,
         customerEmail,
         customerPhone,
+        ...priceModifier,
         totalCents: totalCentsOverride,
         paid: true,
       });
@@ -1,12 +1,25 @@
 import { NextResponse } from "next/server";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
 import { getStripe } from "@/lib/server/stripe";
-import { PARTY_AREA_OPTIONS, partyAreaCostCents, totalCents, cardFeeCents } from "@/lib/bookingLogic";
+import {
+  PARTY_AREA_OPTIONS,
+  cardFeeCents,
+  comboFirstFromOrder,
+  comboSegmentWindows,
+  partyAreaCostCents,
+  quoteActivityCents,
+} from "@/lib/bookingLogic";
+import { describePriceModifier } from "@/lib/rateCard";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { hasPromoRedemption, normalizeEmail, normalizePromoCode } from "@/lib/server/promoRedemptions";
 import { validatePromoUsage } from "@/lib/server/promoRules";
 import { sendBookingPaymentLinkEmail } from "@/lib/server/mailer";
 import type { ActivityUI, ComboOrder } from "@/lib/server/bookingService";
+import { checkStoreHoursWindow, getStoreHoursOverride, logStoreHoursOverride } from "@/lib/server/storeHours";
+import { loadActiveRateCard } from "@/lib/server/rateCards";
+import { loadActivityDefinition } from "@/lib/server/activities";
+import { resolveRequestLocation, resolveStaffLocation } from "@/lib/server/locations";
+import { locationBookingPath } from "@/lib/locations";
 
 const PARTY_AREA_BOOKABLE_SET: Set<string> = new Set(
   PARTY_AREA_OPTIONS.filter((option) => option.visible).map((option) => option.name)
@@ -48,11 +61,25 @@ export async function POST(req: Request) {
     if (!activity || !dateKey || !Number.isFinite(partySize) || !Number.isFinite(startMin) || !Number.isFinite(durationMinutes)) {
       return NextResponse.json({ error: "Missing booking fields" }, { status: 400 });
     }
+    const definition = await loadActivityDefinition(activity);
+    if (!definition) {
+      return NextResponse.json({ error: "Invalid activity" }, { status: 400 });
+    }
+    const location = staff
+      ? await resolveStaffLocation(req, staff, body?.locationId)
+      : await resolveRequestLocation(req, body?.locationId);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
 
-    const validDurations = [15, 30, 60, 120];
-    const validComboDurations = [30, 60, 120];
+    const validDurations = Array.from(new Set([15, 30, 60, 120, ...definition.durations]));
+    const comboRuleDurations = (type: string) =>
+      definition.resources.find((rule) => rule.type === type)?.durations ?? [30, 60, 120];
     if (activity === "Combo Package") {
-      if (!validComboDurations.includes(comboAxeMinutes) || !validComboDurations.includes(comboDuckpinMinutes)) {
+      if (
+        !comboRuleDurations("AXE").includes(comboAxeMinutes) ||
+        !comboRuleDurations("DUCKPIN").includes(comboDuckpinMinutes)
+      ) {
         return NextResponse.json({ error: "Invalid combo durations" }, { status: 400 });
       }
     } else if (!validDurations.includes(durationMinutes)) {
@@ -74,13 +101,43 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Invalid party area duration" }, { status: 400 });
     }
 
+    const hoursOverride = await getStoreHoursOverride(body);
+    // A combo runs both segments plus the activity's transition gap between them.
+    const comboTotalMinutes =
+      activity === "Combo Package"
+        ? comboSegmentWindows(0, comboFirstFromOrder(comboOrder), {
+            axeMinutes: comboAxeMinutes,
+            duckpinMinutes: comboDuckpinMinutes,
+            transitionMinutes: definition.transitionMinutes,
+          }).overall.endMin
+        : durationMinutes;
+    const bookingWindowMinutes = Math.max(comboTotalMinutes, normalizedPartyAreaMinutes);
+    const hoursCheck = await checkStoreHoursWindow({
+      dateKey,
+      startMin,
+      durationMinutes: bookingWindowMinutes,
+      override: hoursOverride,
+      location,
+    });
+    if (hoursCheck.error) {
+      return NextResponse.json({ error: hoursCheck.error }, { status: 400 });
+    }
+
     const comboDurations =
       Number.isFinite(comboAxeMinutes) && Number.isFinite(comboDuckpinMinutes)
         ? { axeMinutes: comboAxeMinutes, duckpinMinutes: comboDuckpinMinutes }
         : undefined;
-    const baseAmount =
-      totalCents(activity, partySize, durationMinutes, comboDurations) +
-      partyAreaCostCents(normalizedPartyAreaMinutes, normalizedPartyAreas.length);
+    const rateCard = await loadActiveRateCard(location);
+    const quote = quoteActivityCents(
+      activity,
+      partySize,
+      durationMinutes,
+      comboDurations,
+      rateCard.config,
+      { dateKey, startMin },
+      definition
+    );
+    const baseAmount = quote.totalCents + partyAreaCostCents(normalizedPartyAreaMinutes, normalizedPartyAreas.length);
 
     let amount = baseAmount;
     let promoMeta: { code: string; amountOff: number; discountType: string; discountValue: number } | null = null;
@@ -149,11 +206,6 @@ export async function POST(req: Request) {
       };
     }
 
-    const comboTotalMinutes =
-      activity === "Combo Package"
-        ? Number(comboAxeMinutes || 0) + Number(comboDuckpinMinutes || 0)
-        : durationMinutes;
-
     const partyAreasMeta = normalizedPartyAreas.length ? JSON.stringify(normalizedPartyAreas) : "";
 
     const base =
@@ -189,7 +241,7 @@ export async function POST(req: Request) {
         },
       ],
       success_url: `${base}/book/confirmation?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${base}/book`,
+      cancel_url: `${base}${locationBookingPath(location)}`,
       payment_intent_data: {
           metadata: {
             activity,
@@ -213,6 +265,9 @@ export async function POST(req: Request) {
           discount_type: promoMeta?.discountType || "",
           discount_value: promoMeta ? String(promoMeta.discountValue) : "",
           total_before_discount: String(baseAmount),
+          price_modifier_label: quote.modifier ? describePriceModifier(quote.modifier) : "",
+          price_modifier_cents: quote.modifierCents ? String(quote.modifierCents) : "",
+          location_id: location.id ?? "",
           card_fee_cents: String(cardFee),
         },
       },
@@ -223,6 +278,18 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Unable to create payment link" }, { status: 500 });
     }
 
+    if (hoursOverride && hoursCheck.overridden) {
+      await logStoreHoursOverride({
+        override: hoursOverride,
+        source: "staff/bookings/payment-link",
+        dateKey,
+        startMin,
+        durationMinutes: bookingWindowMinutes,
+        hours: hoursCheck.hours,
+        details: { checkout_session_id: session.id },
+      });
+    }
+
     try {
       await sendBookingPaymentLinkEmail({
         customerName,
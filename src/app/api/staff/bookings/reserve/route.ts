@@ -6,14 +6,9 @@ import { getStaffUserFromCookies } from "@/lib/staffAuth";
 import { normalizePromoCode } from "@/lib/server/promoRedemptions";
 import { validatePromoUsage } from "@/lib/server/promoRules";
 import { sendOwnerBookingConfirmationEmail } from "@/lib/server/mailer";
-
-function formatTimeFromMinutes(minsFromMidnight: number) {
-  const h24 = Math.floor(minsFromMidnight / 60);
-  const m = minsFromMidnight % 60;
-  const ampm = h24 >= 12 ? "PM" : "AM";
-  const h12 = ((h24 + 11) % 12) + 1;
-  return `${h12}:${String(m).padStart(2, "0")} ${ampm}`;
-}
+import { checkStoreHoursWindow, getStoreHoursOverride, logStoreHoursOverride } from "@/lib/server/storeHours";
+import { resolveStaffLocation } from "@/lib/server/locations";
+import { formatMinutesLabel } from "@/lib/dateTime";
 
 export async function POST(req: Request) {
   try {
@@ -41,6 +36,10 @@ export async function POST(req: Request) {
     if (!activity || !dateKey || !Number.isFinite(partySize) || !Number.isFinite(startMin) || !Number.isFinite(durationMinutes)) {
       return NextResponse.json({ error: "Missing booking fields" }, { status: 400 });
     }
+    const location = await resolveStaffLocation(req, staff, body?.locationId);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
 
     if (promoCode) {
       const promoRuleError = validatePromoUsage({
@@ -53,6 +52,22 @@ export async function POST(req: Request) {
       }
     }
 
+    const hoursOverride = await getStoreHoursOverride(body);
+    const bookingWindowMinutes = Math.max(
+      durationMinutes,
+      partyAreas.length && Number.isFinite(partyAreaMinutes) ? partyAreaMinutes : 0
+    );
+    const hoursCheck = await checkStoreHoursWindow({
+      dateKey,
+      startMin,
+      durationMinutes: bookingWindowMinutes,
+      override: hoursOverride,
+      location,
+    });
+    if (hoursCheck.error) {
+      return NextResponse.json({ error: hoursCheck.error }, { status: 400 });
+    }
+
     const bookingInput = {
       activity,
       partySize,
@@ -69,6 +84,7 @@ export async function POST(req: Request) {
       comboOrder,
       totalCentsOverride: Number.isFinite(totalCentsOverride) ? totalCentsOverride : undefined,
       partyAreas,
+      locationId: location.id,
     };
 
     const result = await createBookingWithResources(bookingInput);
@@ -76,6 +92,18 @@ export async function POST(req: Request) {
     const sb = supabaseServer();
     await sb.from("bookings").update({ paid: false }).eq("id", result.bookingId);
 
+    if (hoursOverride && hoursCheck.overridden) {
+      await logStoreHoursOverride({
+        override: hoursOverride,
+        source: "staff/bookings/reserve",
+        dateKey,
+        startMin,
+        durationMinutes: bookingWindowMinutes,
+        hours: hoursCheck.hours,
+        bookingId: result.bookingId,
+      });
+    }
+
     try {
       await ensureWaiverForBooking({
         bookingId: result.bookingId,
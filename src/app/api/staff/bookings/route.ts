@@ -1,6 +1,14 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { resolveStaffLocation, scopeToLocation } from "@/lib/server/locations";
+
+type SeriesLinkRow = {
+  id: string;
+  series_id: string;
+  series_index: number | null;
+  booking_series: { name: string | null; occurrences: number | null } | null;
+};
 
 function getSupabaseAdmin() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -20,6 +28,11 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    const location = await resolveStaffLocation(req, staff);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+
     const sb = getSupabaseAdmin();
     const { searchParams } = new URL(req.url);
     const orderParam = searchParams.get("order");
@@ -37,6 +50,9 @@ export async function GET(req: Request) {
       "start_ts",
       "end_ts",
       "combo_order",
+      "combo_axe_minutes",
+      "combo_duckpin_minutes",
+      "combo_transition_minutes",
       "status",
       "created_at",
       "assigned_staff_id",
@@ -45,20 +61,23 @@ export async function GET(req: Request) {
     ];
     const selectWithPayment = [...baseFields, "payment_intent_id", "notes", "paid"].join(",");
     const selectWithPaid = [...baseFields, "notes", "paid"].join(",");
+    const selectWithDeposit = `${selectWithPayment},deposit_cents,balance_due_cents`;
 
     let data: any[] | null = null;
     let error: any = null;
-    ({ data, error } = await sb
-      .from("bookings")
-      .select(selectWithPayment)
+    ({ data, error } = await scopeToLocation(sb.from("bookings").select(selectWithDeposit), location)
       .order("start_ts", { ascending })
       .limit(200));
+    // Before docs/deposits.sql there are no deposit columns.
+    if (error && /deposit|balance_due/.test(String(error?.message || ""))) {
+      ({ data, error } = await scopeToLocation(sb.from("bookings").select(selectWithPayment), location)
+        .order("start_ts", { ascending })
+        .limit(200));
+    }
 
     const errorMessage = String(error?.message || "").toLowerCase();
     if (error && errorMessage.includes("payment_intent")) {
-      ({ data, error } = await sb
-        .from("bookings")
-        .select(selectWithPaid)
+      ({ data, error } = await scopeToLocation(sb.from("bookings").select(selectWithPaid), location)
         .order("start_ts", { ascending })
         .limit(200));
     }
@@ -67,9 +86,7 @@ export async function GET(req: Request) {
       (String(error?.message || "").toLowerCase().includes("paid") ||
         String(error?.message || "").toLowerCase().includes("notes"))
     ) {
-      ({ data, error } = await sb
-        .from("bookings")
-        .select(baseFields.join(","))
+      ({ data, error } = await scopeToLocation(sb.from("bookings").select(baseFields.join(",")), location)
         .order("start_ts", { ascending })
         .limit(200));
     }
@@ -82,9 +99,7 @@ export async function GET(req: Request) {
       const minimalFields = baseFields.filter(
         (field) => !["assigned_staff_id", "tip_cents", "tip_staff_id"].includes(field)
       );
-      ({ data, error } = await sb
-        .from("bookings")
-        .select(minimalFields.join(","))
+      ({ data, error } = await scopeToLocation(sb.from("bookings").select(minimalFields.join(",")), location)
         .order("start_ts", { ascending })
         .limit(200));
     }
@@ -96,9 +111,10 @@ export async function GET(req: Request) {
 
     const bookingIds = (data ?? []).map((row) => row.id).filter(Boolean);
 
-    const { data: resources, error: resErr } = await sb
-      .from("resources")
-      .select("id,type,active,name,sort_order")
+    const { data: resources, error: resErr } = await scopeToLocation(
+      sb.from("resources").select("id,type,active,name,sort_order"),
+      location
+    )
       .order("type", { ascending: true })
       .order("sort_order", { ascending: true })
       .order("id", { ascending: true });
@@ -254,6 +270,27 @@ export async function GET(req: Request) {
       }
     }
 
+    const seriesByBooking = new Map<string, { id: string; index: number | null; name: string; occurrences: number }>();
+    if (bookingIds.length > 0) {
+      const { data: seriesRows, error: seriesErr } = await sb
+        .from("bookings")
+        .select("id,series_id,series_index,booking_series(name,occurrences)")
+        .in("id", bookingIds)
+        .not("series_id", "is", null);
+      if (seriesErr) {
+        console.error("booking series lookup error:", seriesErr);
+      } else {
+        for (const row of (seriesRows ?? []) as unknown as SeriesLinkRow[]) {
+          seriesByBooking.set(row.id, {
+            id: row.series_id,
+            index: row.series_index ?? null,
+            name: row.booking_series?.name || "Series",
+            occurrences: Number(row.booking_series?.occurrences || 0),
+          });
+        }
+      }
+    }
+
     const enriched = (data ?? []).map((row) => {
       const tabInfo = tabStatusByBooking.get(row.id);
       const waiverOnFile = row.customer_id ? waiverMeta[row.customer_id] ?? false : false;
@@ -267,11 +304,12 @@ export async function GET(req: Request) {
         waiver_on_file: waiverOnFile,
         waiver_signed_for_booking: waiverSignedForBooking,
         waiver_token: waiverToken,
+        series: seriesByBooking.get(row.id) ?? null,
       };
     });
 
     return NextResponse.json(
-      { bookings: enriched, resources: resources ?? [], reservations, eventRequests },
+      { bookings: enriched, resources: resources ?? [], reservations, eventRequests, timeZone: location.timezone },
       { status: 200 }
     );
   } catch (err: any) {
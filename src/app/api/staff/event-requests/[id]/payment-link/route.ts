@@ -4,6 +4,9 @@ import { supabaseServer } from "@/lib/supabaseServer";
 import { getStripe } from "@/lib/server/stripe";
 import { sendEventPaymentLinkEmail } from "@/lib/server/mailer";
 import { totalCents } from "@/lib/bookingLogic";
+import { loadActiveRateCard } from "@/lib/server/rateCards";
+import { loadBookingPolicy } from "@/lib/server/bookingPolicies";
+import { depositCentsFor } from "@/lib/deposits";
 
 function normalizeBaseUrl(value?: string | null) {
   const cleaned = String(value || "")
@@ -50,13 +53,42 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
       return NextResponse.json({ error: "Invalid total" }, { status: 400 });
     }
 
+    // { deposit: true } asks for the policy deposit only; once that is paid the link is for the balance.
+    const body = await req.json().catch(() => ({}));
+    const balanceDue =
+      String(requestRow.payment_status || "").toUpperCase() === "DEPOSIT_PAID"
+        ? Math.max(0, Number(requestRow.balance_due_cents || 0))
+        : 0;
+    let depositCents = 0;
+    if (!balanceDue && body?.deposit) {
+      depositCents = depositCentsFor(await loadBookingPolicy(), Number(requestRow.party_size || 1), totalCentsValue);
+      if (!depositCents) {
+        return NextResponse.json({ error: "This event must be paid in full." }, { status: 400 });
+      }
+    }
+    const partialCents = balanceDue || depositCents;
+
     const activities = Array.isArray(requestRow.activities) ? requestRow.activities : [];
-    const lineItems =
-      activities.length > 0
+    const rateCard = await loadActiveRateCard();
+    const lineItems = partialCents
+      ? [
+          {
+            price_data: {
+              currency: "usd",
+              unit_amount: partialCents,
+              product_data: {
+                name: `Axe Quacks Event ${balanceDue ? "balance" : "deposit"} (${requestRow.date_key || "TBD"})`,
+                description: `Event total $${(totalCentsValue / 100).toFixed(2)}`,
+              },
+            },
+            quantity: 1,
+          },
+        ]
+      : activities.length > 0
         ? activities.map((activityItem: any) => {
             const activityName = String(activityItem?.activity || "Activity");
             const durationMinutes = Number(activityItem?.durationMinutes || 0);
-            const amount = totalCents(activityName as any, Number(requestRow.party_size || 1), durationMinutes);
+            const amount = totalCents(activityName as any, Number(requestRow.party_size || 1), durationMinutes, undefined, rateCard.config);
             return {
               price_data: {
                 currency: "usd",
@@ -98,6 +130,9 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
         party_size: String(requestRow.party_size || ""),
         start_min: String(requestRow.start_min || ""),
         duration_minutes: String(requestRow.duration_minutes || ""),
+        deposit_cents: depositCents ? String(depositCents) : "",
+        balance_due_cents: depositCents ? String(totalCentsValue - depositCents) : "",
+        balance_payment: balanceDue ? "true" : "",
       },
       success_url: `${base}/host-event?payment=success`,
       cancel_url: `${base}/host-event?payment=cancel`,
@@ -7,10 +7,11 @@ import {
   canonicalPartyAreaName,
   neededResources,
   normalizePartyAreaName,
-  nyLocalDateKeyPlusMinutesToUTCISOString,
   totalCents,
 } from "@/lib/bookingLogic";
 import { sendEventRequestAcceptedEmail, sendOwnerNotification } from "@/lib/server/mailer";
+import { loadActiveRateCard } from "@/lib/server/rateCards";
+import { zonedTimeToUtcISOString, formatMinutesLabel } from "@/lib/dateTime";
 
 type Activity = "Axe Throwing" | "Duckpin Bowling";
 type PartyAreaTiming = "BEFORE" | "DURING" | "AFTER";
@@ -18,14 +19,6 @@ const PARTY_AREA_BOOKABLE_SET: Set<string> = new Set(
   PARTY_AREA_OPTIONS.filter((option) => option.visible).map((option) => normalizePartyAreaName(option.name))
 );
 
-function formatTimeFromMinutes(minsFromMidnight: number) {
-  const h24 = Math.floor(minsFromMidnight / 60);
-  const m = minsFromMidnight % 60;
-  const ampm = h24 >= 12 ? "PM" : "AM";
-  const h12 = ((h24 + 11) % 12) + 1;
-  return `${h12}:${String(m).padStart(2, "0")} ${ampm}`;
-}
-
 function normalizePartyAreas(input: unknown) {
   if (!Array.isArray(input)) return [];
   const seen = new Set<string>();
@@ -149,6 +142,7 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ id: st
     }
 
     const sb = supabaseServer();
+    const rateCard = await loadActiveRateCard();
     const { data: requestRow, error } = await sb
       .from("event_requests")
       .select("*")
@@ -230,8 +224,8 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ id: st
       if (partyAreaTiming === "BEFORE" && partyWindow.startMin < 0) {
         return NextResponse.json({ error: "Party area must start after opening." }, { status: 400 });
       }
-      const partyAreaStartIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, partyWindow.startMin);
-      const partyAreaEndIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, partyWindow.endMin);
+      const partyAreaStartIso = zonedTimeToUtcISOString(dateKey, partyWindow.startMin);
+      const partyAreaEndIso = zonedTimeToUtcISOString(dateKey, partyWindow.endMin);
       let offsetMinutes = 0;
 
       for (let i = 0; i < activities.length; i += 1) {
@@ -244,9 +238,9 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ id: st
 
         const segmentStartMin = startMin + offsetMinutes;
         const segmentEndMin = segmentStartMin + durationMinutes;
-        const startIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, segmentStartMin);
-        const endIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, segmentEndMin);
-        const activityTotalCents = totalCents(activity as any, requestedPartySize, durationMinutes);
+        const startIso = zonedTimeToUtcISOString(dateKey, segmentStartMin);
+        const endIso = zonedTimeToUtcISOString(dateKey, segmentEndMin);
+        const activityTotalCents = totalCents(activity as any, requestedPartySize, durationMinutes, undefined, rateCard.config);
 
         const startHour = Math.floor(segmentStartMin / 60);
         const startMinute = String(segmentStartMin % 60).padStart(2, "0");
@@ -303,7 +297,7 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ id: st
         const activity = a?.activity as Activity | undefined;
         const durationMinutes = Number(a?.durationMinutes);
         if (!activity || ![30, 60, 120].includes(durationMinutes)) return sum;
-        return sum + totalCents(activity as any, requestedPartySize, durationMinutes);
+        return sum + totalCents(activity as any, requestedPartySize, durationMinutes, undefined, rateCard.config);
       }, 0);
       const { error: updateErr } = await sb
         .from("event_requests")
@@ -398,8 +392,8 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ id: st
     if (partyAreaTiming === "BEFORE" && partyWindow.startMin < 0) {
       return NextResponse.json({ error: "Party area must start after opening." }, { status: 400 });
     }
-    const partyAreaStartIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, partyWindow.startMin);
-    const partyAreaEndIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, partyWindow.endMin);
+    const partyAreaStartIso = zonedTimeToUtcISOString(dateKey, partyWindow.startMin);
+    const partyAreaEndIso = zonedTimeToUtcISOString(dateKey, partyWindow.endMin);
     let offsetMinutes = 0;
     for (const item of activities) {
       const activity = item?.activity as Activity | undefined;
@@ -412,9 +406,9 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ id: st
       const customerEmail = String(requestRow.customer_email || "");
       const customerPhone = requestRow.customer_phone || undefined;
       const activityDb = activity === "Axe Throwing" ? "AXE" : "DUCKPIN";
-      const startIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, segmentStartMin);
-      const endIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, segmentEndMin);
-      const activityTotalCents = totalCents(activity as any, requestedPartySize, durationMinutes);
+      const startIso = zonedTimeToUtcISOString(dateKey, segmentStartMin);
+      const endIso = zonedTimeToUtcISOString(dateKey, segmentEndMin);
+      const activityTotalCents = totalCents(activity as any, requestedPartySize, durationMinutes, undefined, rateCard.config);
       const startHour = Math.floor(segmentStartMin / 60);
       const startMinute = String(segmentStartMin % 60).padStart(2, "0");
       const endHour = Math.floor(segmentEndMin / 60);
@@ -451,7 +445,7 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ id: st
       bookingIds.push(bookingId);
 
       const resourceType = activity === "Axe Throwing" ? "AXE" : "DUCKPIN";
-      const needs = neededResources(activity, bookingPartySize);
+      const needs = neededResources(activity, bookingPartySize, rateCard.config);
       const neededCount = needs[resourceType];
       const { data: resources } = await sb
         .from("resources")
@@ -565,8 +559,8 @@ export async function PATCH(req: Request, { params }: { params: Promise<{ id: st
     }
 
     try {
-      const startLabel = formatTimeFromMinutes(Number(requestRow.start_min || 0));
-      const endLabel = formatTimeFromMinutes(
+      const startLabel = formatMinutesLabel(Number(requestRow.start_min || 0));
+      const endLabel = formatMinutesLabel(
         Number(requestRow.start_min || 0) + Number(requestRow.duration_minutes || 0)
       );
       await sendOwnerNotification({
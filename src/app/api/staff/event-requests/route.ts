@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStripe } from "@/lib/server/stripe";
+import { eventRequestPaymentFields } from "@/lib/server/deposits";
 
 export async function GET() {
   try {
@@ -41,28 +42,23 @@ export async function GET() {
         if (status === "ACCEPTED" && paymentStatus !== "PAID" && sessionId) {
           try {
             const session = await stripe.checkout.sessions.retrieve(sessionId);
-            if (session?.payment_status === "paid") {
-              const paidAt = new Date().toISOString();
+            const sessionPaid = session?.payment_status === "paid";
+            // A paid deposit session stays DEPOSIT_PAID until a balance link or the terminal settles it.
+            if (sessionPaid && !(paymentStatus === "DEPOSIT_PAID" && session?.metadata?.deposit_cents)) {
               const paymentIntentId = session.payment_intent as string | null;
-              await sb
-                .from("event_requests")
-                .update({
-                  payment_status: "PAID",
-                  paid_at: paidAt,
-                  payment_intent_id: paymentIntentId || row?.payment_intent_id || null,
-                  payment_session_id: sessionId,
-                })
-                .eq("id", row.id);
-              if (Array.isArray(row?.booking_ids) && row.booking_ids.length) {
-                await sb.from("bookings").update({ paid: true }).in("id", row.booking_ids);
-              }
-              return {
-                ...row,
-                payment_status: "PAID",
-                paid_at: paidAt,
-                payment_intent_id: paymentIntentId || row?.payment_intent_id || null,
+              const update = {
+                ...eventRequestPaymentFields(session.metadata),
+                payment_intent_id:
+                  paymentStatus === "DEPOSIT_PAID"
+                    ? row?.payment_intent_id || paymentIntentId || null
+                    : paymentIntentId || row?.payment_intent_id || null,
                 payment_session_id: sessionId,
               };
+              await sb.from("event_requests").update(update).eq("id", row.id);
+              if (update.payment_status === "PAID" && Array.isArray(row?.booking_ids) && row.booking_ids.length) {
+                await sb.from("bookings").update({ paid: true }).in("id", row.booking_ids);
+              }
+              return { ...row, ...update };
             }
             if (!row?.payment_session_id && sessionId) {
               await sb.from("event_requests").update({ payment_session_id: sessionId }).eq("id", row.id);
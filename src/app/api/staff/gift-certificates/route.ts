@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
-import { generateGiftCode } from "@/lib/server/giftCertificates";
+import { GIFT_CERTIFICATE_COLUMNS, issueGiftCertificate } from "@/lib/server/giftCertificates";
 import { sendGiftCertificateEmail } from "@/lib/server/mailer";
 
 export async function GET() {
@@ -12,7 +12,7 @@ export async function GET() {
     const sb = supabaseServer();
     const { data, error } = await sb
       .from("gift_certificates")
-      .select("id,code,original_amount_cents,balance_cents,status,expires_at,created_at,customers(full_name,email)")
+      .select(GIFT_CERTIFICATE_COLUMNS)
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -59,43 +59,16 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Customer not found" }, { status: 400 });
     }
 
-    const expiresAt = new Date();
-    expiresAt.setFullYear(expiresAt.getFullYear() + 1);
-
-    let created = null;
-    let lastError: any = null;
-    for (let attempt = 0; attempt < 5; attempt += 1) {
-      const code = generateGiftCode();
-      const { data, error } = await sb
-        .from("gift_certificates")
-        .insert({
-          code,
-          customer_id: customer.id,
-          original_amount_cents: amountCents,
-          balance_cents: amountCents,
-          status: "ACTIVE",
-          expires_at: expiresAt.toISOString(),
-          created_by: staff.staff_id,
-        })
-        .select("id,code,original_amount_cents,balance_cents,status,expires_at,created_at,customers(full_name,email)")
-        .single();
-
-      if (!error && data) {
-        created = data;
-        break;
-      }
-      lastError = error;
-    }
-
-    if (!created) {
-      console.error("gift certificate create error:", lastError);
-      return NextResponse.json({ error: "Failed to create gift certificate" }, { status: 500 });
-    }
+    const created = await issueGiftCertificate({
+      customerId: customer.id,
+      amountCents,
+      createdBy: staff.staff_id,
+    });
 
     try {
       await sendGiftCertificateEmail({
         customerEmail,
-        customerName: (created as any)?.customers?.full_name || null,
+        customerName: created.customers?.full_name || null,
         code: created.code,
         balanceCents: created.balance_cents,
         expiresAt: created.expires_at,
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { rowInLocation } from "@/lib/server/locations";
+import { loadLeague, sendLeagueRecap } from "@/lib/server/leagues";
+
+// Emails a week's recap to the rosters now (the cron sends it automatically the day after).
+export async function POST(req: Request, context: { params: Promise<{ id: string }> }) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const data = await loadLeague({ id });
+    if (!data) {
+      return NextResponse.json({ error: "League not found" }, { status: 404 });
+    }
+    if (staff.role !== "admin" && staff.location_id && !rowInLocation(staff.location_id, data.location)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    try {
+      const result = await sendLeagueRecap(data, Number(body?.week));
+      return NextResponse.json(result, { status: 200 });
+    } catch (recapErr) {
+      const message = recapErr instanceof Error ? recapErr.message : "Failed to send recap";
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+  } catch (err) {
+    console.error("league recap fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { rowInLocation } from "@/lib/server/locations";
+import {
+  LEAGUE_COLUMNS,
+  buildLeagueStandingsUrl,
+  handicapsForWeek,
+  leagueBowlers,
+  leagueResults,
+  leagueStandings,
+  loadLeague,
+} from "@/lib/server/leagues";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Everything the league manager shows: weeks, rosters, schedule, scored results, standings, bowlers and
+// each week's handicaps by customer.
+export async function GET(_req: Request, context: RouteContext) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const data = await loadLeague({ id });
+    if (!data) {
+      return NextResponse.json({ error: "League not found" }, { status: 404 });
+    }
+    if (staff.role !== "admin" && staff.location_id && !rowInLocation(staff.location_id, data.location)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const results = leagueResults(data);
+    return NextResponse.json(
+      {
+        league: data.league,
+        timeZone: data.location.timezone,
+        standingsUrl: buildLeagueStandingsUrl(data.league.slug),
+        weeks: data.weeks,
+        teams: data.teams,
+        matches: data.matches,
+        scores: data.scores,
+        results,
+        standings: leagueStandings(data, results),
+        bowlers: leagueBowlers(data),
+        handicaps: Object.fromEntries(
+          data.weeks.map((week) => [week.week, Object.fromEntries(handicapsForWeek(data, week.week))])
+        ),
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error("league fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
+
+// Updates name, games per week, handicap settings or status (ACTIVE / COMPLETED).
+export async function PATCH(req: Request, context: RouteContext) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const data = await loadLeague({ id });
+    if (!data) {
+      return NextResponse.json({ error: "League not found" }, { status: 404 });
+    }
+    if (staff.role !== "admin" && staff.location_id && !rowInLocation(staff.location_id, data.location)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const updates: Record<string, unknown> = {};
+    if (body?.name !== undefined) {
+      const name = String(body.name || "").trim();
+      if (!name) return NextResponse.json({ error: "Name is required" }, { status: 400 });
+      updates.name = name;
+    }
+    if (body?.gamesPerWeek !== undefined) {
+      const games = Math.round(Number(body.gamesPerWeek));
+      const maxScored = Math.max(0, ...data.scores.map((score) => score.game));
+      if (!Number.isFinite(games) || games < 1 || games > 5 || games < maxScored) {
+        return NextResponse.json(
+          { error: `Games per week must be between ${Math.max(1, maxScored)} and 5` },
+          { status: 400 }
+        );
+      }
+      updates.games_per_week = games;
+    }
+    if (body?.handicapBase !== undefined) {
+      const base = Math.round(Number(body.handicapBase));
+      if (!Number.isFinite(base) || base < 0 || base > 300) {
+        return NextResponse.json({ error: "Handicap base must be between 0 and 300" }, { status: 400 });
+      }
+      updates.handicap_base = base;
+    }
+    if (body?.handicapPercent !== undefined) {
+      const percent = Math.round(Number(body.handicapPercent));
+      if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+        return NextResponse.json({ error: "Handicap percent must be between 0 and 100" }, { status: 400 });
+      }
+      updates.handicap_percent = percent;
+    }
+    if (body?.status !== undefined) {
+      const status = String(body.status || "").toUpperCase();
+      if (status !== "ACTIVE" && status !== "COMPLETED") {
+        return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+      }
+      updates.status = status;
+    }
+    if (!Object.keys(updates).length) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const sb = supabaseServer();
+    const { data: league, error } = await sb.from("leagues").update(updates).eq("id", id).select(LEAGUE_COLUMNS).single();
+    if (error) {
+      console.error("league update error:", error);
+      return NextResponse.json({ error: "Failed to update league" }, { status: 500 });
+    }
+    return NextResponse.json({ league }, { status: 200 });
+  } catch (err) {
+    console.error("league update fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
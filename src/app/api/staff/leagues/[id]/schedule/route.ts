@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { rowInLocation } from "@/lib/server/locations";
+import { generateLeagueSchedule, loadLeague } from "@/lib/server/leagues";
+
+// (Re)builds the round-robin schedule for every week without scores.
+export async function POST(_req: Request, context: { params: Promise<{ id: string }> }) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const data = await loadLeague({ id });
+    if (!data) {
+      return NextResponse.json({ error: "League not found" }, { status: 404 });
+    }
+    if (staff.role !== "admin" && staff.location_id && !rowInLocation(staff.location_id, data.location)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+      const result = await generateLeagueSchedule(data);
+      return NextResponse.json(result, { status: 200 });
+    } catch (scheduleErr) {
+      const message = scheduleErr instanceof Error ? scheduleErr.message : "Failed to build schedule";
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+  } catch (err) {
+    console.error("league schedule fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { rowInLocation } from "@/lib/server/locations";
+import { loadLeague, saveLeagueScores } from "@/lib/server/leagues";
+
+// Saves one week's pins from the lane score sheet: { week, scores: [{ teamId, customerId, game, pins }] }.
+// pins null (or blank) clears that game.
+export async function PUT(req: Request, context: { params: Promise<{ id: string }> }) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const data = await loadLeague({ id });
+    if (!data) {
+      return NextResponse.json({ error: "League not found" }, { status: 404 });
+    }
+    if (staff.role !== "admin" && staff.location_id && !rowInLocation(staff.location_id, data.location)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const week = Number(body?.week);
+    const entries = (Array.isArray(body?.scores) ? body.scores : []).map((entry: Record<string, unknown> | null) => ({
+      teamId: String(entry?.teamId || ""),
+      customerId: String(entry?.customerId || ""),
+      game: Number(entry?.game),
+      pins: entry?.pins === null || entry?.pins === "" || entry?.pins === undefined ? null : Number(entry.pins),
+    }));
+    if (!Number.isInteger(week) || !entries.length) {
+      return NextResponse.json({ error: "Missing week or scores" }, { status: 400 });
+    }
+
+    try {
+      const result = await saveLeagueScores(data, week, entries, staff.staff_id);
+      return NextResponse.json(result, { status: 200 });
+    } catch (saveErr) {
+      const message = saveErr instanceof Error ? saveErr.message : "Failed to save scores";
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+  } catch (err) {
+    console.error("league scores fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
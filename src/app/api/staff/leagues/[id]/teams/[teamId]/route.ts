@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { rowInLocation } from "@/lib/server/locations";
+import { ensureLeagueCustomer, loadLeague } from "@/lib/server/leagues";
+
+type RouteContext = { params: Promise<{ id: string; teamId: string }> };
+
+async function loadTeamForStaff(context: RouteContext) {
+  const staff = await getStaffUserFromCookies();
+  if (!staff) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const { id, teamId } = await context.params;
+  const data = await loadLeague({ id });
+  const team = data?.teams.find((row) => row.id === teamId);
+  if (!data || !team) return { error: NextResponse.json({ error: "Team not found" }, { status: 404 }) };
+  if (staff.role !== "admin" && staff.location_id && !rowInLocation(staff.location_id, data.location)) {
+    return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+  }
+  return { data, team };
+}
+
+// Renames a team (name), adds a bowler (addMember { name, email, phone }) or takes one off the roster
+// (removeCustomerId). Scores already bowled stay with the team.
+export async function PATCH(req: Request, context: RouteContext) {
+  try {
+    const loaded = await loadTeamForStaff(context);
+    if (loaded.error) return loaded.error;
+    const { data, team } = loaded;
+
+    const body = await req.json().catch(() => ({}));
+    const sb = supabaseServer();
+
+    if (body?.name !== undefined) {
+      const name = String(body.name || "").trim();
+      if (!name) return NextResponse.json({ error: "Team name is required" }, { status: 400 });
+      if (data.teams.some((row) => row.id !== team.id && row.name.toLowerCase() === name.toLowerCase())) {
+        return NextResponse.json({ error: "A team with that name already exists" }, { status: 400 });
+      }
+      const { error } = await sb.from("league_teams").update({ name }).eq("id", team.id);
+      if (error) {
+        console.error("league team rename error:", error);
+        return NextResponse.json({ error: "Failed to rename team" }, { status: 500 });
+      }
+    }
+
+    if (body?.addMember) {
+      const member = {
+        name: String(body.addMember?.name || "").trim(),
+        email: String(body.addMember?.email || "").trim(),
+        phone: String(body.addMember?.phone || "").trim(),
+      };
+      if (!member.name && !member.email) {
+        return NextResponse.json({ error: "Bowler name or email is required" }, { status: 400 });
+      }
+      const customerId = await ensureLeagueCustomer(member);
+      const otherTeam = data.teams.find(
+        (row) => row.id !== team.id && row.members.some((m) => m.customerId === customerId)
+      );
+      if (otherTeam) {
+        return NextResponse.json({ error: `That bowler is already on ${otherTeam.name}` }, { status: 400 });
+      }
+      const { error } = await sb
+        .from("league_team_members")
+        .upsert({ team_id: team.id, customer_id: customerId }, { onConflict: "team_id,customer_id" });
+      if (error) {
+        console.error("league roster add error:", error);
+        return NextResponse.json({ error: "Failed to add bowler" }, { status: 500 });
+      }
+    }
+
+    if (body?.removeCustomerId) {
+      const { error } = await sb
+        .from("league_team_members")
+        .delete()
+        .eq("team_id", team.id)
+        .eq("customer_id", String(body.removeCustomerId));
+      if (error) {
+        console.error("league roster remove error:", error);
+        return NextResponse.json({ error: "Failed to remove bowler" }, { status: 500 });
+      }
+    }
+
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (err) {
+    console.error("league team update fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
+
+// Removes a team that hasn't bowled yet, along with its unplayed matches.
+export async function DELETE(_req: Request, context: RouteContext) {
+  try {
+    const loaded = await loadTeamForStaff(context);
+    if (loaded.error) return loaded.error;
+    const { data, team } = loaded;
+
+    if (data.scores.some((score) => score.teamId === team.id)) {
+      return NextResponse.json({ error: "This team has scores and can't be removed" }, { status: 400 });
+    }
+    const sb = supabaseServer();
+    const { error } = await sb.from("league_teams").delete().eq("id", team.id);
+    if (error) {
+      console.error("league team delete error:", error);
+      return NextResponse.json({ error: "Failed to remove team" }, { status: 500 });
+    }
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (err) {
+    console.error("league team delete fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
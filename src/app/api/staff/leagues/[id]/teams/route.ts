@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { rowInLocation } from "@/lib/server/locations";
+import { ensureLeagueCustomer, loadLeague } from "@/lib/server/leagues";
+
+// Adds a team with its roster: members [{ name, email, phone }] are matched to customers by email or added.
+export async function POST(req: Request, context: { params: Promise<{ id: string }> }) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const data = await loadLeague({ id });
+    if (!data) {
+      return NextResponse.json({ error: "League not found" }, { status: 404 });
+    }
+    if (staff.role !== "admin" && staff.location_id && !rowInLocation(staff.location_id, data.location)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const name = String(body?.name || "").trim();
+    if (!name) {
+      return NextResponse.json({ error: "Team name is required" }, { status: 400 });
+    }
+    if (data.teams.some((team) => team.name.toLowerCase() === name.toLowerCase())) {
+      return NextResponse.json({ error: "A team with that name already exists" }, { status: 400 });
+    }
+    const members = (Array.isArray(body?.members) ? body.members : [])
+      .map((member: Record<string, unknown> | null) => ({
+        name: String(member?.name || "").trim(),
+        email: String(member?.email || "").trim(),
+        phone: String(member?.phone || "").trim(),
+      }))
+      .filter((member: { name: string; email: string }) => member.name || member.email);
+
+    const customerIds = new Set<string>();
+    for (const member of members) {
+      const customerId = await ensureLeagueCustomer(member);
+      const otherTeam = data.teams.find((team) => team.members.some((m) => m.customerId === customerId));
+      if (otherTeam) {
+        return NextResponse.json(
+          { error: `${member.name || member.email} is already on ${otherTeam.name}` },
+          { status: 400 }
+        );
+      }
+      customerIds.add(customerId);
+    }
+
+    const sb = supabaseServer();
+    const { data: team, error } = await sb
+      .from("league_teams")
+      .insert({ league_id: id, name })
+      .select("id,name")
+      .single();
+    if (error || !team) {
+      console.error("league team create error:", error);
+      return NextResponse.json({ error: "Failed to add team" }, { status: 500 });
+    }
+
+    if (customerIds.size) {
+      const { error: rosterErr } = await sb
+        .from("league_team_members")
+        .insert(Array.from(customerIds).map((customerId) => ({ team_id: team.id, customer_id: customerId })));
+      if (rosterErr) {
+        console.error("league roster insert error:", rosterErr);
+        return NextResponse.json({ error: "Team added, but the roster failed to save" }, { status: 500 });
+      }
+    }
+    return NextResponse.json({ team }, { status: 200 });
+  } catch (err) {
+    console.error("league team create fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
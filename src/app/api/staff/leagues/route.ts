@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { resolveStaffLocation, rowInLocation, scopeToLocation } from "@/lib/server/locations";
+import { LEAGUE_COLUMNS, uniqueLeagueSlug } from "@/lib/server/leagues";
+
+// Leagues at the staff location, newest first, with their team counts.
+export async function GET(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const location = await resolveStaffLocation(req, staff);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+
+    const sb = supabaseServer();
+    const { data, error } = await scopeToLocation(sb.from("leagues").select(LEAGUE_COLUMNS), location).order(
+      "created_at",
+      { ascending: false }
+    );
+    if (error) {
+      console.error("leagues fetch error:", error);
+      return NextResponse.json({ error: "Failed to load leagues" }, { status: 500 });
+    }
+
+    const leagueIds = (data || []).map((row) => row.id);
+    const { data: teams, error: teamsErr } = leagueIds.length
+      ? await sb.from("league_teams").select("league_id").in("league_id", leagueIds)
+      : { data: [], error: null };
+    if (teamsErr) {
+      console.error("league teams count error:", teamsErr);
+    }
+
+    const leagues = (data || []).map((row) => ({
+      ...row,
+      team_count: (teams || []).filter((team) => team.league_id === row.id).length,
+    }));
+    return NextResponse.json({ leagues }, { status: 200 });
+  } catch (err) {
+    console.error("leagues fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
+
+// Creates a league on an existing recurring series (its occurrences are the league weeks).
+export async function POST(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const name = String(body?.name || "").trim();
+    const seriesId = String(body?.seriesId || "").trim();
+    const gamesPerWeek = Math.round(Number(body?.gamesPerWeek ?? 3));
+    const handicapBase = Math.round(Number(body?.handicapBase ?? 200));
+    const handicapPercent = Math.round(Number(body?.handicapPercent ?? 80));
+    if (!name || !seriesId) {
+      return NextResponse.json({ error: "Name and recurring series are required" }, { status: 400 });
+    }
+    if (!Number.isFinite(gamesPerWeek) || gamesPerWeek < 1 || gamesPerWeek > 5) {
+      return NextResponse.json({ error: "Games per week must be between 1 and 5" }, { status: 400 });
+    }
+    if (!Number.isFinite(handicapBase) || handicapBase < 0 || handicapBase > 300) {
+      return NextResponse.json({ error: "Handicap base must be between 0 and 300" }, { status: 400 });
+    }
+    if (!Number.isFinite(handicapPercent) || handicapPercent < 0 || handicapPercent > 100) {
+      return NextResponse.json({ error: "Handicap percent must be between 0 and 100" }, { status: 400 });
+    }
+
+    const location = await resolveStaffLocation(req, staff, body?.locationId);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+
+    const sb = supabaseServer();
+    const { data: series, error: seriesErr } = await sb
+      .from("booking_series")
+      .select("id,location_id,status")
+      .eq("id", seriesId)
+      .maybeSingle();
+    if (seriesErr) {
+      console.error("league series lookup error:", seriesErr);
+      return NextResponse.json({ error: "Failed to load series" }, { status: 500 });
+    }
+    if (!series || !rowInLocation(series.location_id, location)) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+
+    const { data: league, error } = await sb
+      .from("leagues")
+      .insert({
+        location_id: location.id,
+        series_id: series.id,
+        name,
+        slug: await uniqueLeagueSlug(name),
+        games_per_week: gamesPerWeek,
+        handicap_base: handicapBase,
+        handicap_percent: handicapPercent,
+      })
+      .select(LEAGUE_COLUMNS)
+      .single();
+    if (error) {
+      console.error("league create error:", error);
+      return NextResponse.json({ error: error.message || "Failed to create league" }, { status: 500 });
+    }
+    return NextResponse.json({ league }, { status: 200 });
+  } catch (err) {
+    console.error("league create fatal:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Server error" }, { status: 500 });
+  }
+}
@@ -12,6 +12,7 @@ export async function GET() {
         staff_id: staff.staff_id,
         role: staff.role,
         full_name: staff.full_name,
+        location_id: staff.location_id,
       },
       { status: 200 }
     );
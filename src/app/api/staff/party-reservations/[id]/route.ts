@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
 import { supabaseServer } from "@/lib/supabaseServer";
-import { nyLocalDateKeyPlusMinutesToUTCISOString } from "@/lib/bookingLogic";
+import { zonedTimeToUtcISOString } from "@/lib/dateTime";
 
 function overlaps(aStart: string, aEnd: string, bStart: string, bEnd: string) {
   return new Date(aStart).getTime() < new Date(bEnd).getTime() && new Date(aEnd).getTime() > new Date(bStart).getTime();
@@ -40,8 +40,8 @@ export async function PATCH(req: Request, context: { params: Promise<{ id: strin
       return NextResponse.json({ error: "Reservation not found" }, { status: 404 });
     }
 
-    const startTs = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, startMin);
-    const endTs = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, endMin);
+    const startTs = zonedTimeToUtcISOString(dateKey, startMin);
+    const endTs = zonedTimeToUtcISOString(dateKey, endMin);
 
     const { data: conflicts, error: conflictErr } = await sb
       .from("resource_reservations")
@@ -1,6 +1,16 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { normalizeRefundPolicy } from "@/lib/server/bookingPolicies";
+
+const POLICY_COLUMNS =
+  "id,cancel_window_hours,reschedule_window_hours,refund_policy,partial_refund_percent,late_refund_percent," +
+  "retained_fee_percent,retained_fee_cents,deposit_party_size,deposit_percent,notes,updated_at";
+
+function percentField(value: unknown, fallback: number) {
+  const pct = Number(value ?? fallback);
+  return Number.isFinite(pct) ? Math.min(Math.max(pct, 0), 100) : fallback;
+}
 
 function requireAdmin(staff: any) {
   return staff && staff.role === "admin";
@@ -14,7 +24,7 @@ export async function GET() {
     const sb = supabaseServer();
     const { data, error } = await sb
       .from("booking_policies")
-      .select("id,cancel_window_hours,reschedule_window_hours,refund_policy,notes,updated_at")
+      .select(POLICY_COLUMNS)
       .order("updated_at", { ascending: false })
       .limit(1);
 
@@ -38,7 +48,13 @@ export async function POST(req: Request) {
     const body = await req.json().catch(() => ({}));
     const cancelWindowHours = Number(body?.cancel_window_hours ?? 24);
     const rescheduleWindowHours = Number(body?.reschedule_window_hours ?? 12);
-    const refundPolicy = String(body?.refund_policy ?? "FULL_BEFORE_WINDOW");
+    const refundPolicy = normalizeRefundPolicy(body?.refund_policy);
+    const partialRefundPercent = percentField(body?.partial_refund_percent, 50);
+    const lateRefundPercent = percentField(body?.late_refund_percent, 0);
+    const retainedFeePercent = percentField(body?.retained_fee_percent, 0);
+    const retainedFeeCents = Math.max(0, Math.round(Number(body?.retained_fee_cents) || 0));
+    const depositPartySize = Math.max(0, Math.round(Number(body?.deposit_party_size) || 0));
+    const depositPercent = percentField(body?.deposit_percent, 25);
     const notes = String(body?.notes ?? "").trim();
 
     const sb = supabaseServer();
@@ -48,9 +64,15 @@ export async function POST(req: Request) {
         cancel_window_hours: cancelWindowHours,
         reschedule_window_hours: rescheduleWindowHours,
         refund_policy: refundPolicy,
+        partial_refund_percent: partialRefundPercent,
+        late_refund_percent: lateRefundPercent,
+        retained_fee_percent: retainedFeePercent,
+        retained_fee_cents: retainedFeeCents,
+        deposit_party_size: depositPartySize || null,
+        deposit_percent: depositPercent,
         notes: notes || null,
       })
-      .select("id,cancel_window_hours,reschedule_window_hours,refund_policy,notes,updated_at")
+      .select(POLICY_COLUMNS)
       .single();
 
     if (error) {
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { resolveStaffLocation, scopeToLocation } from "@/lib/server/locations";
 
 type CashItemInput = {
   id: string;
@@ -27,6 +28,10 @@ export async function POST(req: Request) {
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
     const rawTabId = body?.tab_id ? String(body.tab_id) : "";
     const tabId = uuidRegex.test(rawTabId) ? rawTabId : null;
+    const location = await resolveStaffLocation(req, staff, body?.location_id);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
 
     if (!items.length) {
       return NextResponse.json({ error: "Missing items" }, { status: 400 });
@@ -37,10 +42,10 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Invalid item ids" }, { status: 400 });
     }
     const sb = supabaseServer();
-    const { data: addons, error: addonsErr } = await sb
-      .from("add_ons")
-      .select("id,name,price_cents,category")
-      .in("id", itemIds);
+    const { data: addons, error: addonsErr } = await scopeToLocation(
+      sb.from("add_ons").select("id,name,price_cents,category"),
+      location
+    ).in("id", itemIds);
 
     if (addonsErr) {
       console.error("cash sale items error:", addonsErr);
@@ -89,6 +94,7 @@ export async function POST(req: Request) {
         total_cents: totalCents,
         tab_id: tabId,
         status: "PAID",
+        location_id: location.id,
       })
       .select("id")
       .single();
@@ -107,6 +113,7 @@ export async function POST(req: Request) {
         quantity: row.quantity,
         line_total_cents: row.line_total_cents,
         activity: row.activity,
+        location_id: location.id,
       }))
     );
 
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { RATE_CARD_COLUMNS, loadActiveRateCard, mapRateCardRow, type RateCardRow } from "@/lib/server/rateCards";
+import { resolveRequestLocation, scopeToLocation } from "@/lib/server/locations";
+import { normalizeRateCardConfig } from "@/lib/rateCard";
+
+export async function GET(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const location = await resolveRequestLocation(req);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+
+    const sb = supabaseServer();
+    const { data, error } = await scopeToLocation(sb.from("rate_cards").select(RATE_CARD_COLUMNS), location).order(
+      "version",
+      { ascending: false }
+    );
+
+    if (error) {
+      console.error("rate cards list error:", error);
+      return NextResponse.json({ error: "Failed to load rate cards" }, { status: 500 });
+    }
+
+    const active = await loadActiveRateCard(location);
+    const versions = ((data || []) as RateCardRow[]).map((row) => ({
+      ...mapRateCardRow(row),
+      createdBy: row.created_by ?? null,
+      createdAt: row.created_at ?? null,
+    }));
+    return NextResponse.json({ active, versions }, { status: 200 });
+  } catch (err: any) {
+    console.error("rate cards list fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
+
+// Publishes a new version. Existing versions are never edited so bookings keep the card they were sold under.
+export async function POST(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json().catch(() => ({}));
+    const location = await resolveRequestLocation(req, body?.location_id);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+
+    const label = String(body?.label || "").trim();
+    const effectiveAtRaw = String(body?.effective_at || "").trim();
+    const effectiveAt = effectiveAtRaw ? new Date(effectiveAtRaw) : new Date();
+    if (Number.isNaN(effectiveAt.getTime())) {
+      return NextResponse.json({ error: "Invalid effective date" }, { status: 400 });
+    }
+
+    const config = normalizeRateCardConfig(body?.config);
+    const pointLists = [config.axePerPerson, config.duckpinPerLane, config.comboAxePerPerson, config.comboDuckpinPerLane];
+    if (pointLists.some((points) => !points.some((point) => point.cents > 0))) {
+      return NextResponse.json({ error: "Each price table needs at least one price" }, { status: 400 });
+    }
+
+    const sb = supabaseServer();
+    const { data: latest, error: latestErr } = await sb
+      .from("rate_cards")
+      .select("version")
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestErr) {
+      console.error("rate card version lookup error:", latestErr);
+      return NextResponse.json({ error: "Failed to publish rate card" }, { status: 500 });
+    }
+
+    const { data, error } = await sb
+      .from("rate_cards")
+      .insert({
+        version: Number(latest?.version || 0) + 1,
+        label: label || null,
+        config,
+        effective_at: effectiveAt.toISOString(),
+        created_by: staff.staff_id,
+        ...(location.id ? { location_id: location.id } : {}),
+      })
+      .select(RATE_CARD_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("rate card publish error:", error);
+      return NextResponse.json({ error: "Failed to publish rate card" }, { status: 500 });
+    }
+
+    return NextResponse.json({ rateCard: mapRateCardRow(data as RateCardRow) }, { status: 200 });
+  } catch (err: any) {
+    console.error("rate card publish fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { resolveReconciliationIssue } from "@/lib/server/paymentReconciliation";
+
+type RouteContext = { params: Promise<{ id: string }> | { id: string } };
+
+// { action: "FIX" | "IGNORE" }: applies the issue's one-click fix, or dismisses it for future runs.
+export async function POST(req: Request, context: RouteContext) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const resolvedParams = await Promise.resolve(context.params);
+    const id = String(resolvedParams?.id || "").trim();
+    if (!id) return NextResponse.json({ error: "Missing id" }, { status: 400 });
+
+    const body = await req.json().catch(() => ({}));
+    const action = String(body?.action || "").toUpperCase();
+    if (action !== "FIX" && action !== "IGNORE") {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    const result = await resolveReconciliationIssue(id, action, staff.staff_id);
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status });
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (err: any) {
+    console.error("staff reconciliation issue fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { addDaysToDateKey, isValidDateKey } from "@/lib/dateTime";
+import { loadReconciliation, runPaymentReconciliation } from "@/lib/server/paymentReconciliation";
+
+const MAX_RANGE_DAYS = 31;
+
+// Recent reconciliation runs and their issues. ?status=OPEN (default) or ALL.
+export async function GET(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const statusParam = String(new URL(req.url).searchParams.get("status") || "OPEN").toUpperCase();
+    const result = await loadReconciliation({ includeResolved: statusParam === "ALL" });
+    return NextResponse.json(result, { status: 200 });
+  } catch (err: any) {
+    console.error("staff reconciliation fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
+
+// { startDate, endDate } (YYYY-MM-DD, inclusive): runs a reconciliation now.
+export async function POST(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json().catch(() => ({}));
+    const startDate = String(body?.startDate || "").trim();
+    const endDate = String(body?.endDate || "").trim();
+    if (!isValidDateKey(startDate) || !isValidDateKey(endDate) || endDate < startDate) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+    }
+    if (addDaysToDateKey(startDate, MAX_RANGE_DAYS - 1) < endDate) {
+      return NextResponse.json({ error: `Reconcile at most ${MAX_RANGE_DAYS} days at a time` }, { status: 400 });
+    }
+
+    const result = await runPaymentReconciliation({ startDate, endDate, createdBy: staff.staff_id });
+    return NextResponse.json(result, { status: 200 });
+  } catch (err: any) {
+    console.error("staff reconciliation run fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { resolveStaffLocation, scopeToLocation } from "@/lib/server/locations";
+import { businessDayUtcRange } from "@/lib/dateTime";
 
 const REPORTS_CUTOFF_DATE = "2026-01-01";
 const MANUAL_REPORT_START = "2026-01-01";
@@ -107,6 +109,9 @@ export async function GET(req: Request) {
     const staff = await getStaffUserFromCookies();
     if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
+    const location = await resolveStaffLocation(req, staff);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+
     const url = new URL(req.url);
     const start = normalizeDateInput(url.searchParams.get("start"));
     const rawEnd = normalizeDateInput(url.searchParams.get("end"));
@@ -141,9 +146,8 @@ export async function GET(req: Request) {
       parsedStart && parsedStart.date.getTime() >= cutoffDate.getTime() ? parsedStart.raw : REPORTS_CUTOFF_DATE;
 
     const sb = supabaseServer();
-    let query = sb
-      .from("bookings")
-      .select(
+    let query = scopeToLocation(
+      sb.from("bookings").select(
         [
           "id",
           "activity",
@@ -157,12 +161,15 @@ export async function GET(req: Request) {
           "status",
           "created_at",
         ].join(",")
-      )
+      ),
+      location
+    )
       .order("start_ts", { ascending: true })
       .limit(1000);
 
-    if (reportStart) query = query.gte("start_ts", reportStart);
-    if (end) query = query.lte("start_ts", end);
+    // Date bounds are the location's business days: [start day 00:00, day after end 00:00).
+    if (reportStart) query = query.gte("start_ts", businessDayUtcRange(reportStart, location.timezone).startTs);
+    if (end) query = query.lt("start_ts", businessDayUtcRange(end, location.timezone).endTs);
 
     let data: any[] | null = null;
     let error: any = null;
@@ -186,7 +193,7 @@ export async function GET(req: Request) {
       "created_at",
     ];
 
-    if (rangeOverlapsManual(start, end)) {
+    if (location.isDefault && rangeOverlapsManual(start, end)) {
       data = (data ?? []).filter((row: any) => !isWithinManualRange(row.start_ts));
       data = [...buildManualBookings(), ...(data ?? [])];
     }
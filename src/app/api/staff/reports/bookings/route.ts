@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
-import { nyLocalDateKeyPlusMinutesToUTCISOString } from "@/lib/bookingLogic";
+import { resolveStaffLocation, rowInLocation, scopeToLocation } from "@/lib/server/locations";
+import { zonedTimeToUtcISOString, businessDayUtcRange } from "@/lib/dateTime";
 
 const REPORTS_CUTOFF_DATE = "2026-01-01";
 const MANUAL_REPORT_START = "2026-01-01";
@@ -20,6 +21,13 @@ const MANUAL_BOOKINGS: Array<{
   { activity: "Merchandise", total_cents: 10 * 100 },
 ];
 
+type RefundReportRow = {
+  method: "CARD" | "CREDIT";
+  amount_cents: number;
+  created_at: string;
+  bookings: { location_id: string | null } | null;
+};
+
 function normalizeDateInput(value: string | null) {
   if (!value) return null;
   const trimmed = value.trim();
@@ -78,7 +86,7 @@ function isWithinManualRange(ts: string) {
 }
 
 function buildManualBookings() {
-  const startTs = nyLocalDateKeyPlusMinutesToUTCISOString(MANUAL_REPORT_START, 12 * 60);
+  const startTs = zonedTimeToUtcISOString(MANUAL_REPORT_START, 12 * 60);
   return MANUAL_BOOKINGS.map((row, index) => ({
     id: `manual-${index}-${MANUAL_REPORT_START}`,
     activity: row.activity,
@@ -100,6 +108,11 @@ export async function GET(req: Request) {
     const staff = await getStaffUserFromCookies();
     if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
+    const location = await resolveStaffLocation(req, staff);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    // Date bounds are the location's business days: [start day 00:00, day after end 00:00).
+    const dayRange = (dateKey: string) => businessDayUtcRange(dateKey, location.timezone);
+
     const url = new URL(req.url);
     const startDate = normalizeDateInput(url.searchParams.get("startDate"));
     const rawEndDate = normalizeDateInput(url.searchParams.get("endDate"));
@@ -131,34 +144,38 @@ export async function GET(req: Request) {
       "tip_cents",
     ];
     const selectWithPayment = [...baseFields, "paid", "payment_intent_id"].join(",");
+    const selectWithDeposit = [selectWithPayment, "deposit_cents", "balance_due_cents"].join(",");
     const selectWithPaid = [...baseFields, "paid"].join(",");
 
-    let query = sb.from("bookings").select(selectWithPayment).order("start_ts", { ascending: true }).limit(5000);
+    let query = scopeToLocation(sb.from("bookings").select(selectWithDeposit), location)
+      .order("start_ts", { ascending: true })
+      .limit(5000);
 
     if (reportStartDate) {
-      const startIso = nyLocalDateKeyPlusMinutesToUTCISOString(reportStartDate, 0);
+      const startIso = dayRange(reportStartDate).startTs;
       query = query.gte("start_ts", startIso);
     }
     if (endDate) {
-      const endIso = nyLocalDateKeyPlusMinutesToUTCISOString(endDate, 24 * 60 - 1);
-      query = query.lte("start_ts", endIso);
+      const endIso = dayRange(endDate).endTs;
+      query = query.lt("start_ts", endIso);
     }
 
     let data: any[] | null = null;
     let error: any = null;
     ({ data, error } = await query);
+    if (error && String(error?.message || "").toLowerCase().includes("deposit")) {
+      ({ data, error } = await scopeToLocation(sb.from("bookings").select(selectWithPayment), location)
+        .order("start_ts", { ascending: true })
+        .limit(5000));
+    }
     const errorMessage = String(error?.message || "").toLowerCase();
     if (error && errorMessage.includes("payment_intent")) {
-      ({ data, error } = await sb
-        .from("bookings")
-        .select(selectWithPaid)
+      ({ data, error } = await scopeToLocation(sb.from("bookings").select(selectWithPaid), location)
         .order("start_ts", { ascending: true })
         .limit(5000));
     }
     if (error && String(error?.message || "").toLowerCase().includes("paid")) {
-      ({ data, error } = await sb
-        .from("bookings")
-        .select(baseFields.join(","))
+      ({ data, error } = await scopeToLocation(sb.from("bookings").select(baseFields.join(",")), location)
         .order("start_ts", { ascending: true })
         .limit(5000));
     }
@@ -168,19 +185,20 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: "Failed to load bookings report" }, { status: 500 });
     }
 
-    let cashQuery = sb
-      .from("pos_cash_sale_items")
-      .select("activity,line_total_cents,created_at,name,quantity")
+    let cashQuery = scopeToLocation(
+      sb.from("pos_cash_sale_items").select("activity,line_total_cents,created_at,name,quantity"),
+      location
+    )
       .order("created_at", { ascending: true })
       .limit(5000);
 
     if (reportStartDate) {
-      const startIso = nyLocalDateKeyPlusMinutesToUTCISOString(reportStartDate, 0);
+      const startIso = dayRange(reportStartDate).startTs;
       cashQuery = cashQuery.gte("created_at", startIso);
     }
     if (endDate) {
-      const endIso = nyLocalDateKeyPlusMinutesToUTCISOString(endDate, 24 * 60 - 1);
-      cashQuery = cashQuery.lte("created_at", endIso);
+      const endIso = dayRange(endDate).endTs;
+      cashQuery = cashQuery.lt("created_at", endIso);
     }
 
     let { data: cashSales, error: cashErr } = await cashQuery;
@@ -189,19 +207,20 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: "Failed to load cash sales report" }, { status: 500 });
     }
 
-    let posItemsQuery = sb
-      .from("pos_sale_items")
-      .select("name,quantity,line_total_cents,created_at")
+    let posItemsQuery = scopeToLocation(
+      sb.from("pos_sale_items").select("name,quantity,line_total_cents,created_at"),
+      location
+    )
       .order("created_at", { ascending: true })
       .limit(5000);
 
     if (reportStartDate) {
-      const startIso = nyLocalDateKeyPlusMinutesToUTCISOString(reportStartDate, 0);
+      const startIso = dayRange(reportStartDate).startTs;
       posItemsQuery = posItemsQuery.gte("created_at", startIso);
     }
     if (endDate) {
-      const endIso = nyLocalDateKeyPlusMinutesToUTCISOString(endDate, 24 * 60 - 1);
-      posItemsQuery = posItemsQuery.lte("created_at", endIso);
+      const endIso = dayRange(endDate).endTs;
+      posItemsQuery = posItemsQuery.lt("created_at", endIso);
     }
 
     let { data: posItems, error: posItemsErr } = await posItemsQuery;
@@ -214,19 +233,20 @@ export async function GET(req: Request) {
       );
     }
 
-    let posSalesQuery = sb
-      .from("pos_sales")
-      .select("id,staff_id,subtotal_cents,tax_cents,total_cents,tip_cents,payment_intent_id,status,created_at")
+    let posSalesQuery = scopeToLocation(
+      sb.from("pos_sales").select("id,staff_id,subtotal_cents,tax_cents,total_cents,tip_cents,payment_intent_id,status,created_at"),
+      location
+    )
       .order("created_at", { ascending: true })
       .limit(5000);
 
     if (reportStartDate) {
-      const startIso = nyLocalDateKeyPlusMinutesToUTCISOString(reportStartDate, 0);
+      const startIso = dayRange(reportStartDate).startTs;
       posSalesQuery = posSalesQuery.gte("created_at", startIso);
     }
     if (endDate) {
-      const endIso = nyLocalDateKeyPlusMinutesToUTCISOString(endDate, 24 * 60 - 1);
-      posSalesQuery = posSalesQuery.lte("created_at", endIso);
+      const endIso = dayRange(endDate).endTs;
+      posSalesQuery = posSalesQuery.lt("created_at", endIso);
     }
 
     let { data: posSales, error: posSalesErr } = await posSalesQuery;
@@ -238,19 +258,20 @@ export async function GET(req: Request) {
       );
     }
 
-    let posCashSalesQuery = sb
-      .from("pos_cash_sales")
-      .select("id,staff_id,subtotal_cents,tax_cents,total_cents,tab_id,status,created_at")
+    let posCashSalesQuery = scopeToLocation(
+      sb.from("pos_cash_sales").select("id,staff_id,subtotal_cents,tax_cents,total_cents,tab_id,status,created_at"),
+      location
+    )
       .order("created_at", { ascending: true })
       .limit(5000);
 
     if (reportStartDate) {
-      const startIso = nyLocalDateKeyPlusMinutesToUTCISOString(reportStartDate, 0);
+      const startIso = dayRange(reportStartDate).startTs;
       posCashSalesQuery = posCashSalesQuery.gte("created_at", startIso);
     }
     if (endDate) {
-      const endIso = nyLocalDateKeyPlusMinutesToUTCISOString(endDate, 24 * 60 - 1);
-      posCashSalesQuery = posCashSalesQuery.lte("created_at", endIso);
+      const endIso = dayRange(endDate).endTs;
+      posCashSalesQuery = posCashSalesQuery.lt("created_at", endIso);
     }
 
     let { data: posCashSales, error: posCashSalesErr } = await posCashSalesQuery;
@@ -265,24 +286,23 @@ export async function GET(req: Request) {
           posCashSales: [],
           tips: [],
           staffUsers: [],
+          timeZone: location.timezone,
         },
         { status: 200 }
       );
     }
 
-    let tipsQuery = sb
-      .from("pos_sales")
-      .select("staff_id,tip_cents,created_at")
+    let tipsQuery = scopeToLocation(sb.from("pos_sales").select("staff_id,tip_cents,created_at"), location)
       .order("created_at", { ascending: true })
       .limit(5000);
 
     if (reportStartDate) {
-      const startIso = nyLocalDateKeyPlusMinutesToUTCISOString(reportStartDate, 0);
+      const startIso = dayRange(reportStartDate).startTs;
       tipsQuery = tipsQuery.gte("created_at", startIso);
     }
     if (endDate) {
-      const endIso = nyLocalDateKeyPlusMinutesToUTCISOString(endDate, 24 * 60 - 1);
-      tipsQuery = tipsQuery.lte("created_at", endIso);
+      const endIso = dayRange(endDate).endTs;
+      tipsQuery = tipsQuery.lt("created_at", endIso);
     }
 
     let { data: tips, error: tipsErr } = await tipsQuery;
@@ -297,24 +317,23 @@ export async function GET(req: Request) {
           posCashSales: posCashSales ?? [],
           tips: [],
           staffUsers: [],
+          timeZone: location.timezone,
         },
         { status: 200 }
       );
     }
 
-    let bookingTipsQuery = sb
-      .from("bookings")
-      .select("tip_staff_id,tip_cents,start_ts")
+    let bookingTipsQuery = scopeToLocation(sb.from("bookings").select("tip_staff_id,tip_cents,start_ts"), location)
       .order("start_ts", { ascending: true })
       .limit(5000);
 
     if (reportStartDate) {
-      const startIso = nyLocalDateKeyPlusMinutesToUTCISOString(reportStartDate, 0);
+      const startIso = dayRange(reportStartDate).startTs;
       bookingTipsQuery = bookingTipsQuery.gte("start_ts", startIso);
     }
     if (endDate) {
-      const endIso = nyLocalDateKeyPlusMinutesToUTCISOString(endDate, 24 * 60 - 1);
-      bookingTipsQuery = bookingTipsQuery.lte("start_ts", endIso);
+      const endIso = dayRange(endDate).endTs;
+      bookingTipsQuery = bookingTipsQuery.lt("start_ts", endIso);
     }
 
     const { data: bookingTips, error: bookingTipsErr } = await bookingTipsQuery;
@@ -322,6 +341,28 @@ export async function GET(req: Request) {
       console.error("reports booking tips error:", bookingTipsErr);
     }
 
+    // Card refunds and store-credit refunds, reported apart (docs/refund-credit.sql).
+    let refundsQuery = sb
+      .from("booking_refunds")
+      .select("method,amount_cents,created_at,bookings(location_id)")
+      .order("created_at", { ascending: true })
+      .limit(5000);
+
+    if (reportStartDate) {
+      refundsQuery = refundsQuery.gte("created_at", dayRange(reportStartDate).startTs);
+    }
+    if (endDate) {
+      refundsQuery = refundsQuery.lt("created_at", dayRange(endDate).endTs);
+    }
+
+    const { data: refundRows, error: refundsErr } = await refundsQuery;
+    if (refundsErr) {
+      console.error("reports refunds error:", refundsErr);
+    }
+    const refunds = ((refundRows ?? []) as unknown as RefundReportRow[])
+      .filter((row) => rowInLocation(row.bookings?.location_id, location))
+      .map((row) => ({ method: row.method, amount_cents: row.amount_cents, created_at: row.created_at }));
+
     let mergedTips = [
       ...(tips ?? []),
       ...((bookingTips ?? []).map((row: any) => ({
@@ -331,7 +372,8 @@ export async function GET(req: Request) {
       })) as any[]),
     ];
 
-    if (rangeOverlapsManual(startDate, endDate)) {
+    // The pre-cutoff manual figures are the original venue's.
+    if (location.isDefault && rangeOverlapsManual(startDate, endDate)) {
       data = (data ?? []).filter((row) => !isWithinManualRange(row.start_ts));
       cashSales = (cashSales ?? []).filter((row) => !isWithinManualRange(row.created_at));
       posItems = (posItems ?? []).filter((row) => !isWithinManualRange(row.created_at));
@@ -357,6 +399,7 @@ export async function GET(req: Request) {
           posCashSales: posCashSales ?? [],
           tips: tips ?? [],
           staffUsers: [],
+          timeZone: location.timezone,
         },
         { status: 200 }
       );
@@ -371,6 +414,8 @@ export async function GET(req: Request) {
         posCashSales: posCashSales ?? [],
         tips: mergedTips,
         staffUsers: staffUsers ?? [],
+        refunds,
+        timeZone: location.timezone,
       },
       { status: 200 }
     );
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { resolveStaffLocation } from "@/lib/server/locations";
+import { deleteResourceDowntime, findLocationResource, findResourceDowntime } from "@/lib/server/resourceDowntime";
+
+// Puts a resource back in service early. Bookings moved off it aren't moved back.
+export async function DELETE(req: Request, context: { params: Promise<{ id: string }> }) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const location = await resolveStaffLocation(req, staff);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+
+    const { id } = await context.params;
+    const downtime = await findResourceDowntime(id);
+    if (!downtime) {
+      return NextResponse.json({ error: "Downtime not found" }, { status: 404 });
+    }
+    if (!(await findLocationResource(location, downtime.resource_id))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await deleteResourceDowntime(id);
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (err: any) {
+    console.error("resource downtime delete fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { resolveStaffLocation } from "@/lib/server/locations";
+import { createResourceDowntime, findLocationResource, loadDayDowntime } from "@/lib/server/resourceDowntime";
+import { rehomeReservations } from "@/lib/server/resourceAllocation";
+import { isValidDateKey, zonedTimeToUtcISOString } from "@/lib/dateTime";
+
+// Downtime touching ?dateKey= at the staff member's (or ?location=) site, for the Bookings timeline.
+export async function GET(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const location = await resolveStaffLocation(req, staff);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+    const dateKey = String(new URL(req.url).searchParams.get("dateKey") || "");
+    if (!isValidDateKey(dateKey)) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+    }
+
+    const downtime = await loadDayDowntime(location, dateKey);
+    return NextResponse.json({ timeZone: location.timezone, downtime }, { status: 200 });
+  } catch (err: any) {
+    console.error("resource downtime fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
+
+// Takes a resource out of service { resourceId, dateKey, startMin, endMin, reason } and moves the bookings on it
+// to other free resources where it can. Returns the downtime plus what moved and what's still on the resource.
+export async function POST(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const location = await resolveStaffLocation(req, staff, body?.locationId);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+
+    const resourceId = String(body?.resourceId || "").trim();
+    const dateKey = String(body?.dateKey || "");
+    const startMin = Number(body?.startMin);
+    const endMin = Number(body?.endMin);
+    const reason = String(body?.reason || "").trim();
+    if (!resourceId || !isValidDateKey(dateKey)) {
+      return NextResponse.json({ error: "Missing resource or date" }, { status: 400 });
+    }
+    const validRange = Number.isFinite(startMin) && Number.isFinite(endMin) && startMin >= 0 && endMin <= 1440;
+    if (!validRange || endMin <= startMin) {
+      return NextResponse.json({ error: "End time must be after start time" }, { status: 400 });
+    }
+    if (!reason) {
+      return NextResponse.json({ error: "Reason is required" }, { status: 400 });
+    }
+
+    const resource = await findLocationResource(location, resourceId);
+    if (!resource) {
+      return NextResponse.json({ error: "Resource not found" }, { status: 404 });
+    }
+
+    const startTs = zonedTimeToUtcISOString(dateKey, startMin, location.timezone);
+    const endTs = zonedTimeToUtcISOString(dateKey, endMin, location.timezone);
+    const downtime = await createResourceDowntime({ resourceId, startTs, endTs, reason, staffId: staff.staff_id });
+    const { moved, stranded } = await rehomeReservations({
+      location,
+      resourceId,
+      startTsUtc: startTs,
+      endTsUtc: endTs,
+    });
+
+    if (moved.length) {
+      const sb = supabaseServer();
+      const { error: auditErr } = await sb.from("booking_audit_logs").insert(
+        Array.from(new Set(moved.map((row) => row.bookingId))).map((bookingId) => ({
+          booking_id: bookingId,
+          staff_id: staff.staff_id,
+          action: "resource_downtime_rehome",
+          details: {
+            downtime_id: downtime.id,
+            from_resource_id: resourceId,
+            to_resource_ids: moved.filter((row) => row.bookingId === bookingId).map((row) => row.toResourceId),
+            reason,
+          },
+        }))
+      );
+      if (auditErr) {
+        console.error("resource downtime audit log error:", auditErr);
+      }
+    }
+
+    return NextResponse.json(
+      {
+        downtime,
+        movedBookingIds: Array.from(new Set(moved.map((row) => row.bookingId))),
+        strandedBookingIds: Array.from(new Set(stranded)),
+      },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("resource downtime create fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
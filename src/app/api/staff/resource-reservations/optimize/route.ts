@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { resolveStaffLocation } from "@/lib/server/locations";
+import { applyAllocationMoves, planDayAllocation } from "@/lib/server/resourceAllocation";
+import { isValidDateKey } from "@/lib/dateTime";
+
+// Re-fits a day's future, unpinned lane/bay reservations. { dateKey, preview: true } returns the plan; applying
+// sends back the preview's planKey and is refused (409) if the day has changed since.
+export async function POST(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const location = await resolveStaffLocation(req, staff, body?.locationId);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+    const dateKey = String(body?.dateKey || "");
+    if (!isValidDateKey(dateKey)) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+    }
+
+    const plan = await planDayAllocation(location, dateKey);
+    if (body?.preview) {
+      return NextResponse.json({ timeZone: location.timezone, plan }, { status: 200 });
+    }
+
+    if (String(body?.planKey ?? "") !== plan.planKey) {
+      return NextResponse.json(
+        {
+          error: "Reservations changed since the preview. Preview again before applying.",
+          timeZone: location.timezone,
+          plan,
+        },
+        { status: 409 }
+      );
+    }
+    if (!plan.moves.length) {
+      return NextResponse.json({ error: "Nothing to apply" }, { status: 400 });
+    }
+
+    if (!(await applyAllocationMoves(location, plan.moves))) {
+      return NextResponse.json(
+        {
+          error: "A new seat was taken since the preview. Preview again before applying.",
+          timeZone: location.timezone,
+          plan: await planDayAllocation(location, dateKey),
+        },
+        { status: 409 }
+      );
+    }
+
+    const sb = supabaseServer();
+    const movesByBooking = new Map<string, Array<{ type: string; from: string; to: string }>>();
+    for (const move of plan.moves) {
+      const list = movesByBooking.get(move.bookingId) ?? [];
+      list.push({ type: move.type, from: move.fromName, to: move.toName });
+      movesByBooking.set(move.bookingId, list);
+    }
+    const { error: auditErr } = await sb.from("booking_audit_logs").insert(
+      Array.from(movesByBooking.entries()).map(([bookingId, moves]) => ({
+        booking_id: bookingId,
+        staff_id: staff.staff_id,
+        action: "resource_reallocation",
+        details: { date_key: dateKey, moves },
+      }))
+    );
+    if (auditErr) {
+      console.error("resource reallocation audit log error:", auditErr);
+    }
+
+    return NextResponse.json(
+      { ok: true, timeZone: location.timezone, applied: plan.moves.length, plan },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("resource reallocation fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
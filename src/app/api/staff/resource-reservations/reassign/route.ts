@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { defaultLocation, findLocation } from "@/lib/locations";
+import { loadLocations } from "@/lib/server/locations";
+import { moveReservations } from "@/lib/server/resourceAllocation";
 
 function getSupabaseAdmin() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -88,39 +91,23 @@ export async function POST(req: Request) {
       }
     }
 
-    for (const row of updateRows) {
-      const reservation = reservationMap.get(row.reservationId);
-      if (!reservation) continue;
-      if (reservation.resource_id === row.resourceId) continue;
-      const { data: conflicts, error: conflictErr } = await sb
-        .from("resource_reservations")
-        .select("id")
-        .eq("resource_id", row.resourceId)
-        .neq("id", reservation.id)
-        .lt("start_ts", reservation.end_ts)
-        .gt("end_ts", reservation.start_ts)
-        .limit(1);
-      if (conflictErr) {
-        console.error("resource reassignment conflict error:", conflictErr);
-        return NextResponse.json({ error: "Failed to check resource availability" }, { status: 500 });
-      }
-      if (conflicts && conflicts.length) {
-        return NextResponse.json({ error: "Selected resource is already booked" }, { status: 409 });
-      }
+    const moves: Array<[string, string]> = updateRows
+      .filter((row) => reservationMap.get(row.reservationId)?.resource_id !== row.resourceId)
+      .map((row) => [row.reservationId, row.resourceId]);
+    const { data: booking, error: bookingErr } = await sb
+      .from("bookings")
+      .select("location_id")
+      .eq("id", bookingId)
+      .maybeSingle();
+    if (bookingErr) {
+      console.error("resource reassignment booking error:", bookingErr);
+      return NextResponse.json({ error: "Failed to load booking" }, { status: 500 });
     }
-
-    for (const row of updateRows) {
-      const reservation = reservationMap.get(row.reservationId);
-      if (!reservation) continue;
-      if (reservation.resource_id === row.resourceId) continue;
-      const { error: updateErr } = await sb
-        .from("resource_reservations")
-        .update({ resource_id: row.resourceId })
-        .eq("id", reservation.id);
-      if (updateErr) {
-        console.error("resource reassignment update error:", updateErr);
-        return NextResponse.json({ error: "Failed to update resources" }, { status: 500 });
-      }
+    const locations = await loadLocations();
+    const location = findLocation(locations, booking?.location_id) ?? defaultLocation(locations);
+    // Conflict-checked and applied in one locked transaction; pinned so the day optimizer leaves them be.
+    if (!(await moveReservations(location, moves, { pin: true }))) {
+      return NextResponse.json({ error: "Selected resource is booked, held or out of service" }, { status: 409 });
     }
 
     return NextResponse.json({ ok: true }, { status: 200 });
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { STORE_HOURS_OVERRIDE_COLUMNS } from "@/lib/server/storeHours";
+import { resolveRequestLocation } from "@/lib/server/locations";
+import { isValidDateKey } from "@/lib/dateTime";
+
+export async function POST(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json().catch(() => ({}));
+    const location = await resolveRequestLocation(req, body?.location_id);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+
+    const dateKey = String(body?.date_key || "").trim();
+    const closed = !!body?.closed;
+    const openMin = body?.open_min != null && body.open_min !== "" ? Number(body.open_min) : null;
+    const closeMin = body?.close_min != null && body.close_min !== "" ? Number(body.close_min) : null;
+    const reason = String(body?.reason || "").trim();
+
+    if (!isValidDateKey(dateKey)) return NextResponse.json({ error: "Missing date_key" }, { status: 400 });
+    if (openMin != null || closeMin != null || !closed) {
+      if (
+        openMin == null ||
+        closeMin == null ||
+        !Number.isFinite(openMin) ||
+        !Number.isFinite(closeMin) ||
+        openMin < 0 ||
+        closeMin > 24 * 60 ||
+        closeMin <= openMin
+      ) {
+        return NextResponse.json({ error: "Invalid open/close time" }, { status: 400 });
+      }
+    }
+
+    const sb = supabaseServer();
+    const { data, error } = await sb
+      .from("store_hours_overrides")
+      .upsert(
+        {
+          date_key: dateKey,
+          open_min: openMin,
+          close_min: closeMin,
+          closed,
+          reason: reason || null,
+          created_by: staff.staff_id,
+          ...(location.id ? { location_id: location.id } : {}),
+        },
+        { onConflict: location.id ? "location_id,date_key" : "date_key" }
+      )
+      .select(STORE_HOURS_OVERRIDE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("store hours override create error:", error);
+      return NextResponse.json({ error: "Failed to save date override" }, { status: 500 });
+    }
+
+    return NextResponse.json({ override: data }, { status: 200 });
+  } catch (err: any) {
+    console.error("store hours override create fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json().catch(() => ({}));
+    const id = String(body?.id || "").trim();
+    if (!id) return NextResponse.json({ error: "Missing override id" }, { status: 400 });
+
+    const sb = supabaseServer();
+    const { error } = await sb.from("store_hours_overrides").delete().eq("id", id);
+    if (error) {
+      console.error("store hours override delete error:", error);
+      return NextResponse.json({ error: "Failed to delete date override" }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (err: any) {
+    console.error("store hours override delete fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { STORE_HOURS_WEEKLY_COLUMNS, loadStoreHoursConfig } from "@/lib/server/storeHours";
+import { resolveRequestLocation } from "@/lib/server/locations";
+import type { StoreHoursWeeklyRow } from "@/lib/storeHours";
+
+export async function GET(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const location = await resolveRequestLocation(req);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+
+    const hours = await loadStoreHoursConfig(location);
+    return NextResponse.json({ hours }, { status: 200 });
+  } catch (err: any) {
+    console.error("store hours list fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
+
+// Replaces the weekly template (one row per weekday).
+export async function POST(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json().catch(() => ({}));
+    const location = await resolveRequestLocation(req, body?.location_id);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+
+    const input: Array<Record<string, unknown>> = Array.isArray(body?.weekly) ? body.weekly : [];
+    const rows: StoreHoursWeeklyRow[] = input.map((row) => ({
+      weekday: Number(row?.weekday),
+      open_min: Number(row?.open_min),
+      close_min: Number(row?.close_min),
+      closed: !!row?.closed,
+    }));
+
+    const weekdays = new Set(rows.map((row) => row.weekday));
+    if (rows.length !== 7 || weekdays.size !== 7 || [...weekdays].some((d) => !(d >= 0 && d <= 6))) {
+      return NextResponse.json({ error: "Weekly hours must include each weekday once" }, { status: 400 });
+    }
+    for (const row of rows) {
+      if (
+        !Number.isFinite(row.open_min) ||
+        !Number.isFinite(row.close_min) ||
+        row.open_min < 0 ||
+        row.close_min > 24 * 60 ||
+        row.close_min <= row.open_min
+      ) {
+        return NextResponse.json({ error: "Invalid open/close time" }, { status: 400 });
+      }
+    }
+
+    const sb = supabaseServer();
+    const { data, error } = await sb
+      .from("store_hours_weekly")
+      .upsert(
+        rows.map((row) => ({
+          ...row,
+          updated_by: staff.staff_id,
+          ...(location.id ? { location_id: location.id } : {}),
+        })),
+        { onConflict: location.id ? "location_id,weekday" : "weekday" }
+      )
+      .select(STORE_HOURS_WEEKLY_COLUMNS)
+      .order("weekday", { ascending: true });
+
+    if (error) {
+      console.error("store hours weekly save error:", error);
+      return NextResponse.json({ error: "Failed to save weekly hours" }, { status: 500 });
+    }
+
+    return NextResponse.json({ weekly: data ?? [] }, { status: 200 });
+  } catch (err: any) {
+    console.error("store hours weekly save fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
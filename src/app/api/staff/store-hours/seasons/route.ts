@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { STORE_HOURS_SEASON_COLUMNS } from "@/lib/server/storeHours";
+import { resolveRequestLocation } from "@/lib/server/locations";
+import { isValidDateKey } from "@/lib/dateTime";
+
+function parseWeekdays(value: unknown) {
+  if (!Array.isArray(value) || !value.length) return null;
+  const days = Array.from(new Set(value.map((d) => Number(d)))).filter(
+    (d) => Number.isInteger(d) && d >= 0 && d <= 6
+  );
+  return days.length ? days.sort((a, b) => a - b) : null;
+}
+
+function parseWindow(body: Record<string, unknown> | null) {
+  const openMin = body?.open_min != null && body.open_min !== "" ? Number(body.open_min) : null;
+  const closeMin = body?.close_min != null && body.close_min !== "" ? Number(body.close_min) : null;
+  if (openMin == null && closeMin == null) return { openMin, closeMin };
+  if (
+    openMin == null ||
+    closeMin == null ||
+    !Number.isFinite(openMin) ||
+    !Number.isFinite(closeMin) ||
+    openMin < 0 ||
+    closeMin > 24 * 60 ||
+    closeMin <= openMin
+  ) {
+    return null;
+  }
+  return { openMin, closeMin };
+}
+
+export async function POST(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json().catch(() => ({}));
+    const location = await resolveRequestLocation(req, body?.location_id);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+
+    const name = String(body?.name || "").trim();
+    const startDateKey = String(body?.start_date_key || "").trim();
+    const endDateKey = String(body?.end_date_key || "").trim();
+    const closed = !!body?.closed;
+    const window = parseWindow(body);
+
+    if (!name) return NextResponse.json({ error: "Missing season name" }, { status: 400 });
+    if (!isValidDateKey(startDateKey) || !isValidDateKey(endDateKey) || endDateKey < startDateKey) {
+      return NextResponse.json({ error: "Invalid season date range" }, { status: 400 });
+    }
+    if (!window) return NextResponse.json({ error: "Invalid open/close time" }, { status: 400 });
+    if (!closed && window.openMin == null) {
+      return NextResponse.json({ error: "Open seasons need open and close times" }, { status: 400 });
+    }
+
+    const sb = supabaseServer();
+    const { data, error } = await sb
+      .from("store_hours_seasons")
+      .insert({
+        name,
+        start_date_key: startDateKey,
+        end_date_key: endDateKey,
+        weekdays: parseWeekdays(body?.weekdays),
+        open_min: window.openMin,
+        close_min: window.closeMin,
+        closed,
+        created_by: staff.staff_id,
+        ...(location.id ? { location_id: location.id } : {}),
+      })
+      .select(STORE_HOURS_SEASON_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error("store hours season create error:", error);
+      return NextResponse.json({ error: "Failed to create season" }, { status: 500 });
+    }
+
+    return NextResponse.json({ season: data }, { status: 200 });
+  } catch (err: any) {
+    console.error("store hours season create fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json().catch(() => ({}));
+    const id = String(body?.id || "").trim();
+    if (!id) return NextResponse.json({ error: "Missing season id" }, { status: 400 });
+
+    const sb = supabaseServer();
+    const { error } = await sb.from("store_hours_seasons").delete().eq("id", id);
+    if (error) {
+      console.error("store hours season delete error:", error);
+      return NextResponse.json({ error: "Failed to delete season" }, { status: 500 });
+    }
+
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (err: any) {
+    console.error("store hours season delete fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
-import { nyLocalDateKeyPlusMinutesToUTCISOString } from "@/lib/bookingLogic";
+import { businessDayUtcRange } from "@/lib/dateTime";
+import { resolveStaffLocation, scopeToLocation } from "@/lib/server/locations";
 
 function getSupabaseAdmin() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -17,21 +18,24 @@ export async function GET(req: Request) {
     const staff = await getStaffUserFromCookies();
     if (!staff) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
+    const location = await resolveStaffLocation(req, staff);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+
     const sb = getSupabaseAdmin();
     const { searchParams } = new URL(req.url);
     const dateKey = String(searchParams.get("date_key") || "").trim();
 
-    let query = sb
-      .from("bookings")
-      .select("id,customer_name,customer_email,start_ts,end_ts,status,activity")
+    let query = scopeToLocation(
+      sb.from("bookings").select("id,customer_name,customer_email,start_ts,end_ts,status,activity"),
+      location
+    )
       .neq("status", "CANCELLED")
       .order("start_ts", { ascending: true })
       .limit(200);
 
     if (dateKey) {
-      const startIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, 0);
-      const endIso = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, 24 * 60);
-      query = query.gte("start_ts", startIso).lt("start_ts", endIso);
+      const { startTs, endTs } = businessDayUtcRange(dateKey, location.timezone);
+      query = query.gte("start_ts", startTs).lt("start_ts", endTs);
     } else {
       query = query.gte("start_ts", new Date().toISOString());
     }
@@ -43,7 +47,7 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: "Failed to load bookings" }, { status: 500 });
     }
 
-    return NextResponse.json({ bookings: data ?? [] }, { status: 200 });
+    return NextResponse.json({ bookings: data ?? [], timeZone: location.timezone }, { status: 200 });
   } catch (err: any) {
     console.error("tabs bookings fatal:", err);
     return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
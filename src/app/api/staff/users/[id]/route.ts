@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { pinToPassword } from "@/lib/pinAuth";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { resolveLocation } from "@/lib/server/locations";
 
 type RouteContext = { params: Promise<{ id: string }> | { id: string } };
 
@@ -40,6 +41,14 @@ export async function PATCH(req: Request, context: RouteContext) {
     if (pin && pin.length !== 4) {
       return NextResponse.json({ error: "Invalid PIN" }, { status: 400 });
     }
+    let locationId: string | null | undefined;
+    if (body?.location_id !== undefined) {
+      const location = body.location_id ? await resolveLocation(body.location_id) : null;
+      if (body.location_id && !location) {
+        return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+      }
+      locationId = location?.id ?? null;
+    }
 
     const sb = supabaseServer();
     const idParam =
@@ -104,6 +113,7 @@ export async function PATCH(req: Request, context: RouteContext) {
       updates.auth_email = `${staffId}@axequacks.local`;
     }
     if (active !== undefined) updates.active = !!active;
+    if (locationId !== undefined) updates.location_id = locationId;
 
     if (Object.keys(updates).length > 0) {
       const { error: updErr } = await sb.from("staff_users").update(updates).eq("id", staffRow.id);
@@ -115,7 +125,7 @@ export async function PATCH(req: Request, context: RouteContext) {
 
     const { data: updated, error: fetchErr } = await sb
       .from("staff_users")
-      .select("id,staff_id,full_name,role,role_label,hourly_rate_cents,active,created_at")
+      .select("id,staff_id,full_name,role,role_label,hourly_rate_cents,active,location_id,created_at")
       .eq("id", staffRow.id)
       .single();
 
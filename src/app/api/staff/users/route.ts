@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { pinToPassword } from "@/lib/pinAuth";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { resolveLocation } from "@/lib/server/locations";
 
 function normalizeStaffId(staffId: string) {
   return staffId.trim().toLowerCase();
@@ -17,7 +18,7 @@ export async function GET() {
     const sb = supabaseServer();
     const { data, error } = await sb
       .from("staff_users")
-      .select("id,auth_user_id,staff_id,full_name,role,role_label,hourly_rate_cents,active,created_at")
+      .select("id,auth_user_id,staff_id,full_name,role,role_label,hourly_rate_cents,active,location_id,created_at")
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -53,6 +54,11 @@ export async function POST(req: Request) {
     if (!["staff", "admin"].includes(role)) {
       return NextResponse.json({ error: "Invalid role" }, { status: 400 });
     }
+    // Home site; staff without one can work any location.
+    const location = body?.location_id ? await resolveLocation(body.location_id) : null;
+    if (body?.location_id && !location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
 
     const staffId = normalizeStaffId(staffIdRaw);
     const email = `${staffId}@axequacks.local`;
@@ -80,8 +86,9 @@ export async function POST(req: Request) {
         active: true,
         role_label: roleLabel,
         hourly_rate_cents: Number.isFinite(hourlyRateCents) ? hourlyRateCents : null,
+        location_id: location?.id ?? null,
       })
-      .select("id,auth_user_id,staff_id,full_name,role,role_label,hourly_rate_cents,active,created_at")
+      .select("id,auth_user_id,staff_id,full_name,role,role_label,hourly_rate_cents,active,location_id,created_at")
       .single();
 
     if (staffErr) {
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { loadLocations, rowInLocation } from "@/lib/server/locations";
+import { defaultLocation, findLocation } from "@/lib/locations";
+import { offerWaitlistSlots } from "@/lib/server/waitlist";
+
+// Staff actions on one entry: CANCEL drops it (releasing any hold), OFFER re-runs the day's
+// offers so a freed slot goes to the next entry that fits.
+export async function PATCH(req: Request, context: { params: Promise<{ id: string }> }) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await req.json().catch(() => ({}));
+    const action = String(body?.action || "").toUpperCase();
+    if (action !== "CANCEL" && action !== "OFFER") {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    const sb = supabaseServer();
+    const { data: entry, error } = await sb
+      .from("waitlist_entries")
+      .select("id,location_id,date_key,status")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) {
+      console.error("staff waitlist lookup error:", error);
+      return NextResponse.json({ error: "Failed to load waitlist entry" }, { status: 500 });
+    }
+    if (!entry) {
+      return NextResponse.json({ error: "Waitlist entry not found" }, { status: 404 });
+    }
+    const locations = await loadLocations();
+    const location = findLocation(locations, entry.location_id) ?? defaultLocation(locations);
+    if (staff.role !== "admin" && staff.location_id && !rowInLocation(staff.location_id, location)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (action === "CANCEL") {
+      if (entry.status !== "WAITING" && entry.status !== "NOTIFIED") {
+        return NextResponse.json({ error: "Only open entries can be cancelled" }, { status: 400 });
+      }
+      const { error: cancelErr } = await sb
+        .from("waitlist_entries")
+        .update({ status: "CANCELLED", held_resources: [] })
+        .eq("id", id);
+      if (cancelErr) {
+        console.error("staff waitlist cancel error:", cancelErr);
+        return NextResponse.json({ error: "Failed to cancel waitlist entry" }, { status: 500 });
+      }
+      if (entry.status === "NOTIFIED") {
+        await offerWaitlistSlots(location, entry.date_key);
+      }
+      return NextResponse.json({ ok: true }, { status: 200 });
+    }
+
+    const offered = await offerWaitlistSlots(location, entry.date_key);
+    return NextResponse.json({ ok: true, offered }, { status: 200 });
+  } catch (err: any) {
+    console.error("staff waitlist update fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
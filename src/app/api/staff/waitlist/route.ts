@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { resolveStaffLocation, scopeToLocation } from "@/lib/server/locations";
+import { WAITLIST_COLUMNS, sweepWaitlistClaims } from "@/lib/server/waitlist";
+import { isValidDateKey, nowInTimeZone } from "@/lib/dateTime";
+
+export async function GET(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const location = await resolveStaffLocation(req, staff);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+
+    const dateParam = new URL(req.url).searchParams.get("date") || "";
+    const dateKey = isValidDateKey(dateParam) ? dateParam : nowInTimeZone(location.timezone).dateKey;
+    await sweepWaitlistClaims(location, dateKey);
+
+    const sb = supabaseServer();
+    const { data, error } = await scopeToLocation(
+      sb.from("waitlist_entries").select(WAITLIST_COLUMNS).eq("date_key", dateKey),
+      location
+    )
+      .order("start_min", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("staff waitlist fetch error:", error);
+      return NextResponse.json({ error: "Failed to load waitlist" }, { status: 500 });
+    }
+
+    return NextResponse.json({ dateKey, timeZone: location.timezone, entries: data || [] }, { status: 200 });
+  } catch (err: any) {
+    console.error("staff waitlist fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { dismissWebhookEvents, loadWebhookIssues, replayStripeEvent } from "@/lib/server/stripeWebhook";
+
+const MAX_EVENTS_PER_REQUEST = 50;
+
+// Failed and stuck Stripe webhook events for the replay tool. ?status=OPEN (default) or ALL.
+export async function GET(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const statusParam = String(new URL(req.url).searchParams.get("status") || "OPEN").toUpperCase();
+    const issues = await loadWebhookIssues({ includeResolved: statusParam === "ALL" });
+    return NextResponse.json({ issues }, { status: 200 });
+  } catch (err: any) {
+    console.error("staff webhooks fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
+
+// { action: "REPLAY" | "DISMISS", eventIds: string[] }. Replays run one at a time, in the order given.
+export async function POST(req: Request) {
+  try {
+    const staff = await getStaffUserFromCookies();
+    if (!staff || staff.role !== "admin") return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json().catch(() => ({}));
+    const action = String(body?.action || "").toUpperCase();
+    const eventIds: string[] = Array.isArray(body?.eventIds)
+      ? Array.from(new Set(body.eventIds.map((id: unknown) => String(id || "").trim()).filter(Boolean)))
+      : [];
+    if (!eventIds.length) return NextResponse.json({ error: "Select at least one event" }, { status: 400 });
+    if (eventIds.length > MAX_EVENTS_PER_REQUEST) {
+      return NextResponse.json({ error: `Select at most ${MAX_EVENTS_PER_REQUEST} events at a time` }, { status: 400 });
+    }
+
+    if (action === "DISMISS") {
+      await dismissWebhookEvents(eventIds, staff.staff_id);
+      return NextResponse.json({ dismissed: eventIds.length }, { status: 200 });
+    }
+    if (action !== "REPLAY") return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+
+    const results: Array<{ eventId: string; ok: boolean; skipped?: boolean; error?: string }> = [];
+    for (const eventId of eventIds) {
+      const result = await replayStripeEvent(eventId, staff.staff_id);
+      results.push(
+        result.ok ? { eventId, ok: true, skipped: result.skipped } : { eventId, ok: false, error: result.error }
+      );
+    }
+    return NextResponse.json({ results }, { status: 200 });
+  } catch (err: any) {
+    console.error("staff webhooks replay fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { loadStoreHoursConfig } from "@/lib/server/storeHours";
+import { resolveRequestLocation } from "@/lib/server/locations";
+
+export async function GET(req: Request) {
+  try {
+    const location = await resolveRequestLocation(req);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+
+    const hours = await loadStoreHoursConfig(location);
+    return NextResponse.json({ hours }, { status: 200 });
+  } catch (err: any) {
+    console.error("store hours fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
@@ -7,6 +7,8 @@ import { ensureWaiverForBooking } from "@/lib/server/waiverService";
 import { createClient } from "@supabase/supabase-js";
 import { recordPromoRedemption } from "@/lib/server/promoRedemptions";
 import { redeemGiftCertificate } from "@/lib/server/giftCertificates";
+import { formatMinutesLabel } from "@/lib/dateTime";
+import { depositSplitFromMetadata, isBalancePayment, recordBookingPayment } from "@/lib/server/deposits";
 
 const PARTY_AREA_BOOKABLE_SET: Set<string> = new Set(
   PARTY_AREA_OPTIONS.filter((option) => option.visible).map((option) => normalizePartyAreaName(option.name))
@@ -50,6 +52,11 @@ function parseBookingMetadata(metadata: Record<string, string | null | undefined
   const comboOrder = (metadata.combo_order as ComboOrder | undefined) ?? "DUCKPIN_FIRST";
   const totalBefore = Number(metadata.total_before_discount);
   const discountAmount = Number(metadata.discount_amount);
+  const priceModifierLabel = String(metadata.price_modifier_label || "");
+  const priceModifierCents = Number(metadata.price_modifier_cents);
+  const locationId = String(metadata.location_id || "");
+  const waitlistToken = String(metadata.waitlist_token || "");
+  const holdToken = String(metadata.hold_token || "");
   const totalCentsOverride =
     Number.isFinite(totalBefore) && Number.isFinite(discountAmount) ? Math.max(0, totalBefore - discountAmount) : undefined;
 
@@ -73,6 +80,12 @@ function parseBookingMetadata(metadata: Record<string, string | null | undefined
     customerPhone,
     comboOrder,
     totalCentsOverride,
+    priceModifierLabel: priceModifierLabel || undefined,
+    priceModifierCents: Number.isFinite(priceModifierCents) ? priceModifierCents : undefined,
+    locationId: locationId || undefined,
+    waitlistToken: waitlistToken || undefined,
+    holdToken: holdToken || undefined,
+    ...depositSplitFromMetadata(metadata),
   };
 }
 
@@ -87,14 +100,6 @@ function getSupabaseAdmin() {
   return createClient(url, key, { auth: { persistSession: false } });
 }
 
-async function markBookingPaid(bookingId: string) {
-  const sb = getSupabaseAdmin();
-  const { error } = await sb.from("bookings").update({ paid: true }).eq("id", bookingId);
-  if (error) {
-    console.error("booking paid update error:", error);
-  }
-}
-
 async function markBookingPaymentIntent(bookingId: string, paymentIntentId: string) {
   if (!paymentIntentId) return;
   const sb = getSupabaseAdmin();
@@ -143,14 +148,6 @@ function buildWaiverUrl(token: string, bookingId?: string) {
   return url.toString();
 }
 
-function formatTimeFromMinutes(minsFromMidnight: number) {
-  const h24 = Math.floor(minsFromMidnight / 60);
-  const m = minsFromMidnight % 60;
-  const ampm = h24 >= 12 ? "PM" : "AM";
-  const h12 = ((h24 + 11) % 12) + 1;
-  return `${h12}:${String(m).padStart(2, "0")} ${ampm}`;
-}
-
 async function fetchBookingResources(bookingId: string): Promise<string[]> {
   const sb = getSupabaseAdmin();
   const { data, error } = await sb
@@ -202,8 +199,8 @@ export async function POST(req: Request) {
     if ((intent.metadata as any)?.booking_id) {
       const bookingId = intent.metadata.booking_id as string;
       const customerId = bookingInput ? await ensureCustomerAndLinkBooking(bookingInput, bookingId) : "";
-      await markBookingPaid(bookingId);
-      await markBookingPaymentIntent(bookingId, paymentIntentId);
+      await recordBookingPayment(bookingId, intent);
+      if (!isBalancePayment(intent.metadata)) await markBookingPaymentIntent(bookingId, paymentIntentId);
       await recordBookingTip(bookingId, intent);
       if (bookingInput && intent.metadata?.promo_code) {
         await recordPromoRedemption({
@@ -250,9 +247,13 @@ export async function POST(req: Request) {
               customerEmail: bookingInput.customerEmail,
               customerPhone: bookingInput.customerPhone,
               comboOrder: bookingInput.comboOrder,
+              priceModifierLabel: bookingInput.priceModifierLabel,
+              priceModifierCents: bookingInput.priceModifierCents,
               resourceNames: resources,
               waiverUrl,
               totalCents: bookingInput.totalCentsOverride,
+              depositCents: bookingInput.depositCents,
+              balanceDueCents: bookingInput.balanceDueCents,
               paid: true,
             });
             emailStatus = { sent: emailResult.sent, skippedReason: emailResult.skippedReason };
@@ -286,7 +287,7 @@ export async function POST(req: Request) {
     }
 
     const result = await createBookingWithResources(bookingInput);
-    await markBookingPaid(result.bookingId);
+    await recordBookingPayment(result.bookingId, intent);
     await recordBookingTip(result.bookingId, intent);
     await markBookingPaymentIntent(result.bookingId, paymentIntentId);
       if (intent.metadata?.promo_code) {
@@ -342,9 +343,13 @@ export async function POST(req: Request) {
           customerEmail: bookingInput.customerEmail,
           customerPhone: bookingInput.customerPhone,
           comboOrder: bookingInput.comboOrder,
+          priceModifierLabel: bookingInput.priceModifierLabel,
+          priceModifierCents: bookingInput.priceModifierCents,
           resourceNames: resources,
           waiverUrl,
           totalCents: bookingInput.totalCentsOverride,
+          depositCents: bookingInput.depositCents,
+          balanceDueCents: bookingInput.balanceDueCents,
           paid: true,
         });
         emailStatus = { sent: emailResult.sent, skippedReason: emailResult.skippedReason };
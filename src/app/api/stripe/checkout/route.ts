@@ -4,11 +4,19 @@ import {
   canonicalPartyAreaName,
   normalizePartyAreaName,
   partyAreaCostCents,
-  totalCents,
+  quoteActivityCents,
   cardFeeCents,
+  comboFirstFromOrder,
+  comboSegmentWindows,
   type PartyAreaName,
 } from "@/lib/bookingLogic";
-import { createBookingWithResources, type ActivityUI, type ComboOrder } from "@/lib/server/bookingService";
+import { describePriceModifier } from "@/lib/rateCard";
+import {
+  bookingHoldResources,
+  createBookingWithResources,
+  type ActivityUI,
+  type ComboOrder,
+} from "@/lib/server/bookingService";
 import { getStripe } from "@/lib/server/stripe";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { hasPromoRedemption, normalizeEmail, normalizePromoCode } from "@/lib/server/promoRedemptions";
@@ -16,6 +24,15 @@ import { validatePromoUsage } from "@/lib/server/promoRules";
 import { validateGiftCertificate, redeemGiftCertificate } from "@/lib/server/giftCertificates";
 import { ensureWaiverForBooking } from "@/lib/server/waiverService";
 import { sendBookingConfirmationEmail, sendOwnerBookingConfirmationEmail } from "@/lib/server/mailer";
+import { checkStoreHoursWindow, getStoreHoursOverride, logStoreHoursOverride } from "@/lib/server/storeHours";
+import { loadActiveRateCard } from "@/lib/server/rateCards";
+import { loadActivityDefinition } from "@/lib/server/activities";
+import { resolveRequestLocation } from "@/lib/server/locations";
+import { attachSlotHoldSession, createSlotHold, releaseSlotHold, slotHoldMinutes } from "@/lib/server/slotHolds";
+import { loadWaitlistHolds } from "@/lib/server/waitlist";
+import { loadBookingPolicy } from "@/lib/server/bookingPolicies";
+import { depositCentsFor } from "@/lib/deposits";
+import type { ActivityDefinition } from "@/lib/activities";
 import { createClient } from "@supabase/supabase-js";
 
 type CheckoutRequest = {
@@ -38,6 +55,13 @@ type CheckoutRequest = {
   uiMode?: "customer" | "staff";
   paymentFlow?: "checkout";
   promoCode?: string;
+  hoursOverride?: boolean;
+  hoursOverrideApprovedBy?: string;
+  hoursOverrideReason?: string;
+  locationId?: string;
+  waitlistToken?: string;
+  releaseHoldToken?: string; // hold from an earlier, abandoned checkout by the same customer
+  payDeposit?: boolean; // charge only the policy deposit now; the balance is collected later
 };
 
 function originFromRequest(req: Request) {
@@ -48,7 +72,7 @@ function originFromRequest(req: Request) {
   return `http://${host}`;
 }
 
-function validate(body: CheckoutRequest) {
+function validate(body: CheckoutRequest, definition: ActivityDefinition) {
   if (!body.activity) return "Missing activity";
   if (!Number.isFinite(body.partySize) || body.partySize < 1) return "Invalid party size";
   if (!body.dateKey) return "Missing date";
@@ -57,12 +81,16 @@ function validate(body: CheckoutRequest) {
     if (!body.customerName || body.customerName.trim().length < 2) return "Missing customer name";
     if (!body.customerEmail || body.customerEmail.trim().length < 5) return "Missing customer email";
   if (body.activity === "Combo Package") {
-    const valid = [30, 60, 120];
-    if (!valid.includes(Number(body.comboAxeMinutes)) || !valid.includes(Number(body.comboDuckpinMinutes))) {
+    const comboRuleDurations = (type: string) =>
+      definition.resources.find((rule) => rule.type === type)?.durations ?? [30, 60, 120];
+    if (
+      !comboRuleDurations("AXE").includes(Number(body.comboAxeMinutes)) ||
+      !comboRuleDurations("DUCKPIN").includes(Number(body.comboDuckpinMinutes))
+    ) {
       return "Missing combo durations";
     }
   } else {
-    const valid = [15, 30, 60, 120];
+    const valid = Array.from(new Set([15, 30, 60, 120, ...definition.durations]));
     if (!valid.includes(Number(body.durationMinutes))) {
       return "Missing duration";
     }
@@ -97,6 +125,18 @@ function supabaseAdmin() {
   return createClient(url, key, { auth: { persistSession: false } });
 }
 
+/** Drops an earlier hold and expires its Stripe session so it can't be paid after the slot is freed. */
+async function releaseEarlierHold(token: string | undefined) {
+  if (!token) return;
+  const released = await releaseSlotHold({ token });
+  if (!released?.checkout_session_id) return;
+  try {
+    await getStripe().checkout.sessions.expire(released.checkout_session_id);
+  } catch (expireErr) {
+    console.error("earlier checkout expire error:", expireErr);
+  }
+}
+
 async function markBookingPaid(bookingId: string) {
   const sb = supabaseAdmin();
   const { error } = await sb.from("bookings").update({ paid: true }).eq("id", bookingId);
@@ -108,7 +148,11 @@ async function markBookingPaid(bookingId: string) {
 export async function POST(req: Request) {
   try {
     const body = (await req.json()) as CheckoutRequest;
-    const err = validate(body);
+    const location = await resolveRequestLocation(req, body?.locationId);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    const definition = body?.activity ? await loadActivityDefinition(body.activity) : null;
+    if (!definition) return NextResponse.json({ error: "Invalid activity" }, { status: 400 });
+    const err = validate(body, definition);
     if (err) return NextResponse.json({ error: err }, { status: 400 });
     const partyAreas = normalizePartyAreas(body.partyAreas);
     const partyAreaTiming = (body.partyAreaTiming as "BEFORE" | "DURING" | "AFTER" | undefined) ?? "DURING";
@@ -121,10 +165,42 @@ export async function POST(req: Request) {
     if (partyAreas.length && !partyAreaMinutes) {
       return NextResponse.json({ error: "Invalid party area duration" }, { status: 400 });
     }
-    const baseAmount = totalCents(body.activity, body.partySize, body.durationMinutes, {
-      axeMinutes: Number(body.comboAxeMinutes),
-      duckpinMinutes: Number(body.comboDuckpinMinutes),
-    }) + partyAreaCostCents(partyAreaMinutes, partyAreas.length);
+    const hoursOverride = await getStoreHoursOverride(body);
+    // A combo runs both segments plus the activity's transition gap between them.
+    const comboTotalMinutes =
+      body.activity === "Combo Package"
+        ? comboSegmentWindows(0, comboFirstFromOrder(body.comboOrder), {
+            axeMinutes: Number(body.comboAxeMinutes),
+            duckpinMinutes: Number(body.comboDuckpinMinutes),
+            transitionMinutes: definition.transitionMinutes,
+          }).overall.endMin
+        : body.durationMinutes;
+    const bookingWindowMinutes = Math.max(comboTotalMinutes, partyAreaMinutes);
+    const hoursCheck = await checkStoreHoursWindow({
+      dateKey: body.dateKey,
+      startMin: body.startMin,
+      durationMinutes: bookingWindowMinutes,
+      override: hoursOverride,
+      location,
+    });
+    if (hoursCheck.error) {
+      return NextResponse.json({ error: hoursCheck.error }, { status: 400 });
+    }
+    const rateCard = await loadActiveRateCard(location);
+    const quote = quoteActivityCents(
+      body.activity,
+      body.partySize,
+      body.durationMinutes,
+      {
+        axeMinutes: Number(body.comboAxeMinutes),
+        duckpinMinutes: Number(body.comboDuckpinMinutes),
+      },
+      rateCard.config,
+      { dateKey: body.dateKey, startMin: body.startMin },
+      definition
+    );
+    const priceModifierLabel = quote.modifier ? describePriceModifier(quote.modifier) : "";
+    const baseAmount = quote.totalCents + partyAreaCostCents(partyAreaMinutes, partyAreas.length);
     let amount = baseAmount;
     let promoMeta: { code: string; amountOff: number; discountType: string; discountValue: number } | null = null;
     let giftMeta: { code: string; amountOff: number } | null = null;
@@ -212,10 +288,6 @@ export async function POST(req: Request) {
 
     const uiMode = body.uiMode || "customer";
     const comboOrder = body.comboOrder ?? "DUCKPIN_FIRST";
-    const comboTotalMinutes =
-      body.activity === "Combo Package"
-        ? Number(body.comboAxeMinutes || 0) + Number(body.comboDuckpinMinutes || 0)
-        : body.durationMinutes;
 
     if (giftMeta && amount <= 0) {
       const bookingInput = {
@@ -234,11 +306,24 @@ export async function POST(req: Request) {
         customerPhone: body.customerPhone?.trim() || "",
         comboOrder,
         totalCentsOverride: amount,
+        locationId: location.id,
+        waitlistToken: body.waitlistToken || undefined,
       } as const;
 
       const bookingResult = await createBookingWithResources(bookingInput);
       const bookingId = String(bookingResult.bookingId || "");
       await markBookingPaid(bookingId);
+      if (hoursOverride && hoursCheck.overridden) {
+        await logStoreHoursOverride({
+          override: hoursOverride,
+          source: "stripe/checkout",
+          dateKey: body.dateKey,
+          startMin: body.startMin,
+          durationMinutes: bookingWindowMinutes,
+          hours: hoursCheck.hours,
+          bookingId,
+        });
+      }
       await redeemGiftCertificate({
         code: giftMeta.code,
         customerEmail: body.customerEmail.trim(),
@@ -268,6 +353,8 @@ export async function POST(req: Request) {
           customerEmail: body.customerEmail.trim(),
           customerPhone: body.customerPhone?.trim() || "",
           comboOrder,
+          priceModifierLabel,
+          priceModifierCents: quote.modifierCents,
           totalCents: amount,
           paid: true,
           waiverUrl,
@@ -283,6 +370,8 @@ export async function POST(req: Request) {
           customerEmail: body.customerEmail.trim(),
           customerPhone: body.customerPhone?.trim() || "",
           comboOrder,
+          priceModifierLabel,
+          priceModifierCents: quote.modifierCents,
           totalCents: amount,
           paid: true,
           waiverUrl,
@@ -297,70 +386,144 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Remaining balance must be at least $0.50 to pay by card." }, { status: 400 });
     }
 
-    const cardFee = cardFeeCents(amount);
-    const session = await stripe.checkout.sessions.create({
-      mode: "payment",
-      payment_method_types: ["card"],
-      customer_email: body.customerEmail.trim(),
-      line_items: [
-        {
-          price_data: {
-            currency: "usd",
-            unit_amount: amount,
-            product_data: {
-              name: body.activity,
-              description: `${body.partySize} guests • ${comboTotalMinutes} mins`,
+    let depositCents = 0;
+    if (body.payDeposit) {
+      depositCents = depositCentsFor(await loadBookingPolicy(), body.partySize, amount);
+      if (!depositCents) {
+        return NextResponse.json({ error: "This booking must be paid in full." }, { status: 400 });
+      }
+    }
+    const chargeCents = depositCents || amount;
+    const balanceDueCents = depositCents ? amount - depositCents : 0;
+
+    await releaseEarlierHold(body.releaseHoldToken);
+    // Hold the slot for as long as the Stripe session can be paid.
+    const checkoutExpiresAt = new Date(Date.now() + slotHoldMinutes() * 60 * 1000 + 60 * 1000);
+    const waitlistHolds = await loadWaitlistHolds(location, body.dateKey);
+    const holdToken = await createSlotHold({
+      location,
+      dateKey: body.dateKey,
+      resources: await bookingHoldResources({
+        activity: body.activity,
+        partySize: body.partySize,
+        dateKey: body.dateKey,
+        startMin: body.startMin,
+        durationMinutes: body.durationMinutes,
+        comboAxeMinutes: body.comboAxeMinutes,
+        comboDuckpinMinutes: body.comboDuckpinMinutes,
+        comboOrder,
+        partyAreas,
+        partyAreaMinutes,
+        partyAreaTiming,
+        customerName: body.customerName.trim(),
+        customerEmail: body.customerEmail.trim(),
+        locationId: location.id,
+      }),
+      checkoutExpiresAt,
+      otherHolds: waitlistHolds.filter((hold) => hold.token !== body.waitlistToken),
+      waitlistToken: body.waitlistToken,
+    });
+    if (!holdToken) {
+      return NextResponse.json(
+        { error: "Sorry, that time was just taken. Please choose another time." },
+        { status: 409 }
+      );
+    }
+
+    const cardFee = cardFeeCents(chargeCents);
+    let session;
+    try {
+      session = await stripe.checkout.sessions.create({
+        mode: "payment",
+        expires_at: Math.floor(checkoutExpiresAt.getTime() / 1000),
+        payment_method_types: ["card"],
+        customer_email: body.customerEmail.trim(),
+        line_items: [
+          {
+            price_data: {
+              currency: "usd",
+              unit_amount: chargeCents,
+              product_data: {
+                name: depositCents ? `${body.activity} deposit` : body.activity,
+                description: depositCents
+                  ? `${body.partySize} guests • ${comboTotalMinutes} mins • ` +
+                    `$${(balanceDueCents / 100).toFixed(2)} balance due at check-in`
+                  : `${body.partySize} guests • ${comboTotalMinutes} mins`,
+              },
             },
+            quantity: 1,
           },
-          quantity: 1,
-        },
-        {
-          price_data: {
-            currency: "usd",
-            unit_amount: cardFee,
-            product_data: {
-              name: "Card Processing Fee (3%)",
+          {
+            price_data: {
+              currency: "usd",
+              unit_amount: cardFee,
+              product_data: {
+                name: "Card Processing Fee (3%)",
+              },
             },
+            quantity: 1,
           },
-          quantity: 1,
-        },
-      ],
-    success_url: `${origin}${successPath}?session_id={CHECKOUT_SESSION_ID}`,
-    cancel_url: `${origin}${cancelPath}`,
-        payment_intent_data: {
-          metadata: {
-            activity: body.activity,
-            party_size: String(body.partySize),
-            date_key: body.dateKey,
-            start_min: String(body.startMin),
-            duration_minutes: String(comboTotalMinutes),
-            combo_axe_minutes: body.comboAxeMinutes != null ? String(body.comboAxeMinutes) : "",
-            combo_duckpin_minutes: body.comboDuckpinMinutes != null ? String(body.comboDuckpinMinutes) : "",
-        party_areas: serializePartyAreas(partyAreas),
-        party_area_minutes: partyAreaMinutes ? String(partyAreaMinutes) : "",
-        party_area_timing: partyAreaTiming,
-            customer_name: body.customerName.trim(),
-            customer_email: body.customerEmail.trim(),
-            customer_phone: body.customerPhone?.trim() || "",
-        combo_order: comboOrder,
-        ui_mode: uiMode,
-        promo_code: promoMeta?.code || "",
-        discount_amount: promoMeta
-          ? String(promoMeta.amountOff)
-          : giftMeta
-          ? String(giftMeta.amountOff)
-          : "",
-        discount_type: promoMeta?.discountType || (giftMeta ? "GIFT" : ""),
-        discount_value: promoMeta ? String(promoMeta.discountValue) : "",
-        gift_code: giftMeta?.code || "",
-        gift_amount: giftMeta ? String(giftMeta.amountOff) : "",
-            total_before_discount: String(baseAmount),
-            card_fee_cents: String(cardFee),
+        ],
+      success_url: `${origin}${successPath}?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${origin}${cancelPath}`,
+          payment_intent_data: {
+            metadata: {
+              activity: body.activity,
+              party_size: String(body.partySize),
+              date_key: body.dateKey,
+              start_min: String(body.startMin),
+              duration_minutes: String(comboTotalMinutes),
+              combo_axe_minutes: body.comboAxeMinutes != null ? String(body.comboAxeMinutes) : "",
+              combo_duckpin_minutes: body.comboDuckpinMinutes != null ? String(body.comboDuckpinMinutes) : "",
+          party_areas: serializePartyAreas(partyAreas),
+          party_area_minutes: partyAreaMinutes ? String(partyAreaMinutes) : "",
+          party_area_timing: partyAreaTiming,
+              customer_name: body.customerName.trim(),
+              customer_email: body.customerEmail.trim(),
+              customer_phone: body.customerPhone?.trim() || "",
+          combo_order: comboOrder,
+          ui_mode: uiMode,
+          promo_code: promoMeta?.code || "",
+          discount_amount: promoMeta
+            ? String(promoMeta.amountOff)
+            : giftMeta
+            ? String(giftMeta.amountOff)
+            : "",
+          discount_type: promoMeta?.discountType || (giftMeta ? "GIFT" : ""),
+          discount_value: promoMeta ? String(promoMeta.discountValue) : "",
+          gift_code: giftMeta?.code || "",
+          gift_amount: giftMeta ? String(giftMeta.amountOff) : "",
+              total_before_discount: String(baseAmount),
+              price_modifier_label: priceModifierLabel,
+              price_modifier_cents: quote.modifierCents ? String(quote.modifierCents) : "",
+              card_fee_cents: String(cardFee),
+              deposit_cents: depositCents ? String(depositCents) : "",
+              balance_due_cents: depositCents ? String(balanceDueCents) : "",
+              location_id: location.id ?? "",
+              waitlist_token: body.waitlistToken || "",
+              hold_token: holdToken,
+            },
           },
-        },
+        });
+    } catch (sessionErr) {
+      await releaseSlotHold({ token: holdToken });
+      throw sessionErr;
+    }
+    await attachSlotHoldSession(holdToken, session.id);
+
+    if (hoursOverride && hoursCheck.overridden) {
+      await logStoreHoursOverride({
+        override: hoursOverride,
+        source: "stripe/checkout",
+        dateKey: body.dateKey,
+        startMin: body.startMin,
+        durationMinutes: bookingWindowMinutes,
+        hours: hoursCheck.hours,
+        details: { checkout_session_id: session.id },
       });
+    }
 
-    return NextResponse.json({ url: session.url }, { status: 200 });
+    return NextResponse.json({ url: session.url, holdToken }, { status: 200 });
   } catch (e: any) {
     console.error("checkout route error:", e);
     return NextResponse.json({ error: e?.message || "Failed to create checkout session" }, { status: 500 });
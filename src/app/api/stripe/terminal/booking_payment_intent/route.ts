@@ -4,6 +4,10 @@ import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
 import { cardFeeCents } from "@/lib/bookingLogic";
 import { validateGiftCertificate } from "@/lib/server/giftCertificates";
+import { DEFAULT_LOCATION } from "@/lib/locations";
+import { resolveLocation } from "@/lib/server/locations";
+import { dateKeyInTimeZone, minutesInTimeZone } from "@/lib/dateTime";
+import { balanceDueCents, MIN_CARD_CHARGE_CENTS } from "@/lib/deposits";
 
 const ACTIVITY_LABELS: Record<string, string> = {
   AXE: "Axe Throwing",
@@ -16,29 +20,6 @@ function activityLabel(activity: string | null | undefined) {
   return ACTIVITY_LABELS[activity] ?? activity;
 }
 
-function dateKeyFromIsoNY(iso: string | null) {
-  if (!iso) return "";
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(new Date(iso));
-}
-
-function minutesFromIsoNY(iso: string | null) {
-  if (!iso) return 0;
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/New_York",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).formatToParts(new Date(iso));
-  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? "0");
-  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? "0");
-  return hour * 60 + minute;
-}
-
 export async function POST(req: Request) {
   try {
     const staff = await getStaffUserFromCookies();
@@ -54,7 +35,7 @@ export async function POST(req: Request) {
     const sb = supabaseServer();
     let { data: booking, error } = await sb
       .from("bookings")
-      .select("id,activity,party_size,duration_minutes,start_ts,customer_name,customer_email,customer_phone,total_cents,combo_order,paid")
+      .select("id,activity,party_size,duration_minutes,start_ts,customer_name,customer_email,customer_phone,total_cents,deposit_cents,balance_due_cents,combo_order,paid,location_id")
       .eq("id", bookingId)
       .single();
 
@@ -64,7 +45,7 @@ export async function POST(req: Request) {
         ({ data: booking, error } = await sb
           .from("bookings")
           .select(
-            "id,activity,party_size,duration_minutes,start_ts,customer_name,customer_email,customer_phone,total_cents,combo_order,paid"
+            "id,activity,party_size,duration_minutes,start_ts,customer_name,customer_email,customer_phone,total_cents,deposit_cents,balance_due_cents,combo_order,paid,location_id"
           )
           .eq("id", resv.booking_id)
           .single());
@@ -79,7 +60,7 @@ export async function POST(req: Request) {
         let lookup = sb
           .from("bookings")
           .select(
-            "id,activity,party_size,duration_minutes,start_ts,customer_name,customer_email,customer_phone,total_cents,combo_order,paid"
+            "id,activity,party_size,duration_minutes,start_ts,customer_name,customer_email,customer_phone,total_cents,deposit_cents,balance_due_cents,combo_order,paid,location_id"
           )
           .gte("start_ts", windowStart)
           .lte("start_ts", windowEnd)
@@ -114,7 +95,9 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Booking not found" }, { status: 404 });
     }
 
-    const baseAmount = Number(booking.total_cents || 0);
+    // A booking paid by deposit only owes its balance; terminal finalize then settles it.
+    const balanceDue = balanceDueCents(booking);
+    const baseAmount = balanceDue > 0 ? balanceDue : Number(booking.total_cents || 0);
     const giftCode = String(body?.gift_code || "").trim();
     const amountOverrideCents = Number(body?.amount_override_cents);
     const bookingTotalNew = Number(body?.booking_total_cents_new);
@@ -123,6 +106,26 @@ export async function POST(req: Request) {
     if (Number.isFinite(amountOverrideCents) && amountOverrideCents > 0) {
       bookingAmount = amountOverrideCents;
     }
+
+    // One share of a split bill: charge split_amount_cents and leave the rest due. The share that covers what's
+    // left is an ordinary (balance) payment, so any open tab goes on the last card.
+    const splitAmountCents = Math.round(Number(body?.split_amount_cents));
+    const splitIndex = Number(body?.split_index) || 0;
+    const splitCount = Number(body?.split_count) || 0;
+    const splitPayment =
+      booking.paid !== true &&
+      Number.isFinite(splitAmountCents) &&
+      splitAmountCents > 0 &&
+      splitAmountCents < baseAmount;
+    if (splitPayment) {
+      if (giftCode || amountOverrideCents > 0 || Number.isFinite(bookingTotalNew)) {
+        return NextResponse.json({ error: "Split the bill without gift or amount changes." }, { status: 400 });
+      }
+      if (splitAmountCents < MIN_CARD_CHARGE_CENTS) {
+        return NextResponse.json({ error: "Each card share must be at least $0.50." }, { status: 400 });
+      }
+      bookingAmount = splitAmountCents;
+    }
     if (giftCode) {
       try {
         const giftResult = await validateGiftCertificate({
@@ -142,7 +145,7 @@ export async function POST(req: Request) {
     let tabTaxCents = 0;
     let tabItemsMeta: Array<{ item_id: string; name: string; price_cents: number; quantity: number; line_total_cents: number }> = [];
     let tabId = "";
-    if (booking.paid !== true) {
+    if (booking.paid !== true && !splitPayment) {
       const { data: tab } = await sb
         .from("booking_tabs")
         .select("id,status")
@@ -198,6 +201,9 @@ export async function POST(req: Request) {
     const cardFee = cardFeeCents(combinedAmount);
     const totalWithFee = combinedAmount + cardFee;
 
+    // date_key/start_min are read back in the booking's timezone by terminal finalize.
+    const location = (await resolveLocation(booking.location_id)) ?? DEFAULT_LOCATION;
+
     const stripe = getStripeTerminal();
     const intent = await stripe.paymentIntents.create({
       amount: totalWithFee,
@@ -208,8 +214,8 @@ export async function POST(req: Request) {
         booking_id: bookingId,
         activity: activityLabel(booking.activity),
         party_size: String(booking.party_size || ""),
-        date_key: dateKeyFromIsoNY(booking.start_ts),
-        start_min: String(minutesFromIsoNY(booking.start_ts)),
+        date_key: booking.start_ts ? dateKeyInTimeZone(booking.start_ts, location.timezone) : "",
+        start_min: String(booking.start_ts ? minutesInTimeZone(booking.start_ts, location.timezone) : 0),
         duration_minutes: String(booking.duration_minutes || ""),
         customer_name: String(booking.customer_name || ""),
         customer_email: String(booking.customer_email || ""),
@@ -220,6 +226,7 @@ export async function POST(req: Request) {
         combo_order: String(booking.combo_order || "DUCKPIN_FIRST"),
         ui_mode: "staff",
         staff_id: staff.staff_id,
+        location_id: location.id || "",
         total_before_discount: String(baseAmount),
         booking_total_new: Number.isFinite(bookingTotalNew) ? String(bookingTotalNew) : "",
         amount_override_cents: Number.isFinite(amountOverrideCents) ? String(amountOverrideCents) : "",
@@ -227,7 +234,14 @@ export async function POST(req: Request) {
         discount_type: giftMeta ? "GIFT" : "",
         gift_code: giftMeta?.code || "",
         gift_amount: giftMeta ? String(giftMeta.amountOff) : "",
-        booking_total_after_discount: String(bookingAmount),
+        booking_total_after_discount: String(balanceDue > 0 ? Number(booking.total_cents || 0) : bookingAmount),
+        balance_payment: balanceDue > 0 && !splitPayment ? "true" : "",
+        split_payment: splitPayment ? "true" : "",
+        split_amount_cents: splitPayment ? String(splitAmountCents) : "",
+        split_index: splitIndex ? String(splitIndex) : "",
+        split_count: splitCount ? String(splitCount) : "",
+        // A share doesn't pay the booking off, so the paid confirmation waits for the last one.
+        ...(splitPayment ? { confirmation_email_sent: "true", owner_notified: "true" } : {}),
         tab_id: tabId || "",
         tab_items: tabItemsMeta.length ? JSON.stringify(tabItemsMeta) : "",
         tab_subtotal_cents: String(tabSubtotalCents || 0),
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStripeTerminal } from "@/lib/server/stripe";
+import { eventRequestPaymentFields, isBalancePayment } from "@/lib/server/deposits";
 
 export async function POST(req: Request) {
   try {
@@ -34,13 +35,12 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Request not found" }, { status: 404 });
     }
 
-    const paidAt = new Date().toISOString();
+    // A balance payment keeps the deposit's payment_intent_id.
     const { error: updateErr } = await sb
       .from("event_requests")
       .update({
-        payment_status: "PAID",
-        paid_at: paidAt,
-        payment_intent_id: paymentIntentId,
+        ...eventRequestPaymentFields(intent.metadata),
+        ...(isBalancePayment(intent.metadata) ? {} : { payment_intent_id: paymentIntentId }),
       })
       .eq("id", eventRequestId);
 
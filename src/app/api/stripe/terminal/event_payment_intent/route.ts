@@ -30,11 +30,13 @@ export async function POST(req: Request) {
     if (String(requestRow.status || "").toUpperCase() !== "ACCEPTED") {
       return NextResponse.json({ error: "Request must be accepted first" }, { status: 400 });
     }
-    if (!requestRow.pay_in_person) {
+    // Requests paid by deposit online collect their balance here too.
+    const depositPaid = String(requestRow.payment_status || "").toUpperCase() === "DEPOSIT_PAID";
+    if (!requestRow.pay_in_person && !depositPaid) {
       return NextResponse.json({ error: "Request is not marked pay-in-person" }, { status: 400 });
     }
 
-    const totalCents = Number(requestRow.total_cents || 0);
+    const totalCents = depositPaid ? Number(requestRow.balance_due_cents || 0) : Number(requestRow.total_cents || 0);
     if (!Number.isFinite(totalCents) || totalCents <= 0) {
       return NextResponse.json({ error: "Invalid total" }, { status: 400 });
     }
@@ -58,6 +60,7 @@ export async function POST(req: Request) {
         customer_phone: String(requestRow.customer_phone || ""),
         ui_mode: "staff",
         pay_in_person: "true",
+        balance_payment: depositPaid ? "true" : "",
         card_fee_cents: String(cardFee),
         total_with_fee: String(totalWithFee),
       },
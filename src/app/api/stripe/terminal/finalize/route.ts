@@ -1,12 +1,22 @@
 import { NextResponse } from "next/server";
-import { PARTY_AREA_OPTIONS, canonicalPartyAreaName, normalizePartyAreaName, nyLocalDateKeyPlusMinutesToUTCISOString, type PartyAreaName } from "@/lib/bookingLogic";
+import {
+  PARTY_AREA_OPTIONS,
+  canonicalPartyAreaName,
+  normalizePartyAreaName,
+  type PartyAreaName,
+} from "@/lib/bookingLogic";
 import { getStripeTerminal } from "@/lib/server/stripe";
 import { createBookingWithResources, ensureCustomerAndLinkBooking, type ActivityUI, type ComboOrder } from "@/lib/server/bookingService";
 import { sendBookingConfirmationEmail, sendOwnerBookingConfirmationEmail } from "@/lib/server/mailer";
 import { supabaseServer } from "@/lib/supabaseServer";
+import { isBalancePayment, isSplitPayment, recordBookingPayment } from "@/lib/server/deposits";
+import { ledgerTipCents } from "@/lib/server/bookingPayments";
 import { ensureWaiverForBooking } from "@/lib/server/waiverService";
 import { recordPromoRedemption } from "@/lib/server/promoRedemptions";
 import { redeemGiftCertificate } from "@/lib/server/giftCertificates";
+import { resolveLocation } from "@/lib/server/locations";
+import { DEFAULT_LOCATION } from "@/lib/locations";
+import { zonedTimeToUtcISOString, formatMinutesLabel } from "@/lib/dateTime";
 
 const PARTY_AREA_BOOKABLE_SET: Set<string> = new Set(
   PARTY_AREA_OPTIONS.filter((option) => option.visible).map((option) => normalizePartyAreaName(option.name))
@@ -69,6 +79,11 @@ function parseBookingMetadata(metadata: Record<string, string | null | undefined
   const comboOrder = (metadata.combo_order as ComboOrder | undefined) ?? "DUCKPIN_FIRST";
   const totalBefore = Number(metadata.total_before_discount);
   const discountAmount = Number(metadata.discount_amount);
+  const priceModifierLabel = String(metadata.price_modifier_label || "");
+  const priceModifierCents = Number(metadata.price_modifier_cents);
+  const locationId = String(metadata.location_id || "");
+  const waitlistToken = String(metadata.waitlist_token || "");
+  const holdToken = String(metadata.hold_token || "");
   const totalCentsOverride =
     Number.isFinite(totalBefore) && Number.isFinite(discountAmount) ? Math.max(0, totalBefore - discountAmount) : undefined;
 
@@ -92,17 +107,14 @@ function parseBookingMetadata(metadata: Record<string, string | null | undefined
     customerPhone,
     comboOrder,
     totalCentsOverride,
+    priceModifierLabel: priceModifierLabel || undefined,
+    priceModifierCents: Number.isFinite(priceModifierCents) ? priceModifierCents : undefined,
+    locationId: locationId || undefined,
+    waitlistToken: waitlistToken || undefined,
+    holdToken: holdToken || undefined,
   };
 }
 
-function formatTimeFromMinutes(minsFromMidnight: number) {
-  const h24 = Math.floor(minsFromMidnight / 60);
-  const m = minsFromMidnight % 60;
-  const ampm = h24 >= 12 ? "PM" : "AM";
-  const h12 = ((h24 + 11) % 12) + 1;
-  return `${h12}:${String(m).padStart(2, "0")} ${ampm}`;
-}
-
 async function resolveBookingIdFromMetadata(sb: ReturnType<typeof supabaseServer>, metadata: Record<string, any>) {
   const bookingId = String(metadata?.booking_id || "").trim();
   if (bookingId) {
@@ -114,7 +126,8 @@ async function resolveBookingIdFromMetadata(sb: ReturnType<typeof supabaseServer
   const startMin = Number(metadata?.start_min);
   let startTs = String(metadata?.lookup_start_ts || "").trim();
   if (!startTs && dateKey && Number.isFinite(startMin)) {
-    startTs = nyLocalDateKeyPlusMinutesToUTCISOString(dateKey, startMin);
+    const location = (await resolveLocation(metadata?.location_id)) ?? DEFAULT_LOCATION;
+    startTs = zonedTimeToUtcISOString(dateKey, startMin, location.timezone);
   }
   if (!startTs) return "";
   const parsed = new Date(startTs);
@@ -171,9 +184,11 @@ async function recordBookingTip(bookingId: string, intent: any) {
   const metadataStaffId = String(intent?.metadata?.staff_id || "");
   const tipStaffId = assignedStaffId || metadataStaffId || null;
 
+  // A split bill has a tip per card; the ledger has them all.
+  const totalTipCents = Math.max(tipCents, await ledgerTipCents(bookingId));
   const { error: tipErr } = await sb
     .from("bookings")
-    .update({ tip_cents: tipCents, tip_staff_id: tipStaffId })
+    .update({ tip_cents: totalTipCents, tip_staff_id: tipStaffId })
     .eq("id", bookingId);
   if (tipErr) {
     console.error("booking tip update error:", tipErr);
@@ -208,6 +223,7 @@ async function recordTabSaleForBooking(intent: any) {
       tip_cents: 0,
       payment_intent_id: intent.id,
       status: "PAID",
+      location_id: intent.metadata?.location_id || null,
     })
     .select("id")
     .single();
@@ -223,6 +239,7 @@ async function recordTabSaleForBooking(intent: any) {
     price_cents: item.price_cents,
     quantity: item.quantity,
     line_total_cents: item.line_total_cents,
+    location_id: intent.metadata?.location_id || null,
   }));
   const { error: itemsErr } = await sb.from("pos_sale_items").insert(rows);
   if (itemsErr) {
@@ -275,8 +292,11 @@ export async function POST(req: Request) {
         return NextResponse.json({ ok: true, warning: "Booking not found to update." }, { status: 200 });
       }
       const customerId = bookingInput ? await ensureCustomerAndLinkBooking(bookingInput, bookingId) : "";
-      await markBookingPaid(bookingId);
-      await markBookingPaymentIntent(bookingId, paymentIntentId);
+      await recordBookingPayment(bookingId, intent);
+      // Balance payments and split shares are kept in the ledger rather than replacing payment_intent_id.
+      if (!isBalancePayment(intent.metadata) && !isSplitPayment(intent.metadata)) {
+        await markBookingPaymentIntent(bookingId, paymentIntentId);
+      }
       await updateBookingTotalFromMetadata(bookingId, intent);
       await updateBookingTotalWithTab(bookingId, intent);
       await recordTabSaleForBooking(intent);
@@ -320,6 +340,8 @@ export async function POST(req: Request) {
               customerEmail: bookingInput.customerEmail,
               customerPhone: bookingInput.customerPhone,
               comboOrder: bookingInput.comboOrder,
+              priceModifierLabel: bookingInput.priceModifierLabel,
+              priceModifierCents: bookingInput.priceModifierCents,
               waiverUrl,
               totalCents: bookingInput.totalCentsOverride,
               paid: true,
@@ -402,6 +424,8 @@ export async function POST(req: Request) {
             customerEmail: bookingInput.customerEmail,
             customerPhone: bookingInput.customerPhone,
             comboOrder: bookingInput.comboOrder,
+            priceModifierLabel: bookingInput.priceModifierLabel,
+            priceModifierCents: bookingInput.priceModifierCents,
             waiverUrl,
             totalCents: bookingInput.totalCentsOverride,
             paid: true,
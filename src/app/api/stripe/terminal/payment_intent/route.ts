@@ -4,10 +4,13 @@ import {
   canonicalPartyAreaName,
   normalizePartyAreaName,
   partyAreaCostCents,
-  totalCents,
+  quoteActivityCents,
   cardFeeCents,
+  comboFirstFromOrder,
+  comboSegmentWindows,
   type PartyAreaName,
 } from "@/lib/bookingLogic";
+import { describePriceModifier } from "@/lib/rateCard";
 import { getStripeTerminal } from "@/lib/server/stripe";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
@@ -15,6 +18,11 @@ import { hasPromoRedemption, normalizeEmail, normalizePromoCode } from "@/lib/se
 import { validatePromoUsage } from "@/lib/server/promoRules";
 import { validateGiftCertificate } from "@/lib/server/giftCertificates";
 import type { ActivityUI, ComboOrder } from "@/lib/server/bookingService";
+import { checkStoreHoursWindow, getStoreHoursOverride, logStoreHoursOverride } from "@/lib/server/storeHours";
+import { loadActiveRateCard } from "@/lib/server/rateCards";
+import { loadActivityDefinition } from "@/lib/server/activities";
+import type { ActivityDefinition } from "@/lib/activities";
+import { resolveRequestLocation, resolveStaffLocation } from "@/lib/server/locations";
 
 type TerminalIntentRequest = {
   activity: ActivityUI;
@@ -34,9 +42,13 @@ type TerminalIntentRequest = {
   partyAreaTiming?: "BEFORE" | "DURING" | "AFTER";
   totalCentsOverride?: number;
   waiveCardFee?: boolean;
+  hoursOverride?: boolean;
+  hoursOverrideApprovedBy?: string;
+  hoursOverrideReason?: string;
+  locationId?: string;
 };
 
-function validate(body: TerminalIntentRequest) {
+function validate(body: TerminalIntentRequest, definition: ActivityDefinition) {
   if (!body.activity) return "Missing activity";
   if (!Number.isFinite(body.partySize) || body.partySize < 1) return "Invalid party size";
   if (!body.dateKey) return "Missing date";
@@ -45,8 +57,12 @@ function validate(body: TerminalIntentRequest) {
   if (!body.customerName || body.customerName.trim().length < 2) return "Missing customer name";
   if (!body.customerEmail || body.customerEmail.trim().length < 5) return "Missing customer email";
   if (body.activity === "Combo Package") {
-    const valid = [30, 60, 120];
-    if (!valid.includes(Number(body.comboAxeMinutes)) || !valid.includes(Number(body.comboDuckpinMinutes))) {
+    const comboRuleDurations = (type: string) =>
+      definition.resources.find((rule) => rule.type === type)?.durations ?? [30, 60, 120];
+    if (
+      !comboRuleDurations("AXE").includes(Number(body.comboAxeMinutes)) ||
+      !comboRuleDurations("DUCKPIN").includes(Number(body.comboDuckpinMinutes))
+    ) {
       return "Missing combo durations";
     }
   }
@@ -76,8 +92,15 @@ function serializePartyAreas(partyAreas: string[]) {
 export async function POST(req: Request) {
   try {
     const body = (await req.json()) as TerminalIntentRequest;
-    const err = validate(body);
+    const definition = body?.activity ? await loadActivityDefinition(body.activity) : null;
+    if (!definition) return NextResponse.json({ error: "Invalid activity" }, { status: 400 });
+    const err = validate(body, definition);
     if (err) return NextResponse.json({ error: err }, { status: 400 });
+    const staff = await getStaffUserFromCookies().catch(() => null);
+    const location = staff
+      ? await resolveStaffLocation(req, staff, body.locationId)
+      : await resolveRequestLocation(req, body.locationId);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
     const partyAreas = normalizePartyAreas(body.partyAreas);
 
     const stripe = getStripeTerminal();
@@ -89,18 +112,45 @@ export async function POST(req: Request) {
     if (partyAreas.length && !partyAreaMinutes) {
       return NextResponse.json({ error: "Invalid party area duration" }, { status: 400 });
     }
-    const baseAmount = totalCents(body.activity, body.partySize, body.durationMinutes, {
-      axeMinutes: Number(body.comboAxeMinutes),
-      duckpinMinutes: Number(body.comboDuckpinMinutes),
-    }) + partyAreaCostCents(partyAreaMinutes, partyAreas.length);
+    const hoursOverride = await getStoreHoursOverride(body);
+    // A combo runs both segments plus the activity's transition gap between them.
+    const comboTotalMinutes =
+      body.activity === "Combo Package"
+        ? comboSegmentWindows(0, comboFirstFromOrder(body.comboOrder), {
+            axeMinutes: Number(body.comboAxeMinutes),
+            duckpinMinutes: Number(body.comboDuckpinMinutes),
+            transitionMinutes: definition.transitionMinutes,
+          }).overall.endMin
+        : body.durationMinutes;
+    const bookingWindowMinutes = Math.max(comboTotalMinutes, partyAreaMinutes);
+    const hoursCheck = await checkStoreHoursWindow({
+      dateKey: body.dateKey,
+      startMin: body.startMin,
+      durationMinutes: bookingWindowMinutes,
+      override: hoursOverride,
+      location,
+    });
+    if (hoursCheck.error) {
+      return NextResponse.json({ error: hoursCheck.error }, { status: 400 });
+    }
+    const rateCard = await loadActiveRateCard(location);
+    const quote = quoteActivityCents(
+      body.activity,
+      body.partySize,
+      body.durationMinutes,
+      {
+        axeMinutes: Number(body.comboAxeMinutes),
+        duckpinMinutes: Number(body.comboDuckpinMinutes),
+      },
+      rateCard.config,
+      { dateKey: body.dateKey, startMin: body.startMin },
+      definition
+    );
+    const baseAmount = quote.totalCents + partyAreaCostCents(partyAreaMinutes, partyAreas.length);
     let amount = baseAmount;
     let promoMeta: { code: string; amountOff: number; discountType: string; discountValue: number } | null = null;
     let giftMeta: { code: string; amountOff: number } | null = null;
     const comboOrder = body.comboOrder ?? "DUCKPIN_FIRST";
-    const comboTotalMinutes =
-      body.activity === "Combo Package"
-        ? Number(body.comboAxeMinutes || 0) + Number(body.comboDuckpinMinutes || 0)
-        : body.durationMinutes;
 
     const overrideCents = Number(body.totalCentsOverride);
     if (Number.isFinite(overrideCents) && overrideCents >= 0) {
@@ -193,7 +243,6 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Remaining balance must be at least $0.50 to pay by card." }, { status: 400 });
     }
 
-    const staff = await getStaffUserFromCookies().catch(() => null);
     const waiveFee = Boolean(body.waiveCardFee);
     const cardFee = waiveFee ? 0 : cardFeeCents(amount);
     const totalBeforeMeta = Number.isFinite(overrideCents) ? overrideCents : baseAmount;
@@ -227,13 +276,29 @@ export async function POST(req: Request) {
         gift_code: giftMeta?.code || "",
         gift_amount: giftMeta ? String(giftMeta.amountOff) : "",
         total_before_discount: String(totalBeforeMeta),
+        price_modifier_label:
+          quote.modifier && !Number.isFinite(overrideCents) ? describePriceModifier(quote.modifier) : "",
+        price_modifier_cents: quote.modifierCents && !Number.isFinite(overrideCents) ? String(quote.modifierCents) : "",
         amount_override_cents: Number.isFinite(overrideCents) ? String(overrideCents) : "",
         waive_card_fee: waiveFee ? "true" : "false",
         card_fee_cents: String(cardFee),
         total_with_fee: String(amountWithFee),
+        location_id: location.id ?? "",
       },
     });
 
+    if (hoursOverride && hoursCheck.overridden) {
+      await logStoreHoursOverride({
+        override: hoursOverride,
+        source: "stripe/terminal/payment_intent",
+        dateKey: body.dateKey,
+        startMin: body.startMin,
+        durationMinutes: bookingWindowMinutes,
+        hours: hoursCheck.hours,
+        details: { payment_intent_id: intent.id },
+      });
+    }
+
     return NextResponse.json({ client_secret: intent.client_secret }, { status: 200 });
   } catch (e: any) {
     console.error("terminal payment intent error:", e);
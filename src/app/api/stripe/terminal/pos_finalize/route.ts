@@ -70,6 +70,7 @@ export async function POST(req: Request) {
         tip_cents: tipCents,
         payment_intent_id: paymentIntentId,
         status: "PAID",
+        location_id: intent.metadata?.location_id || null,
       })
       .select("id")
       .single();
@@ -86,6 +87,7 @@ export async function POST(req: Request) {
       price_cents: item.price_cents,
       quantity: item.quantity,
       line_total_cents: item.line_total_cents,
+      location_id: intent.metadata?.location_id || null,
     }));
 
     const { error: itemsErr } = await sb.from("pos_sale_items").insert(rows);
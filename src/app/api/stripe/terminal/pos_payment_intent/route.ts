@@ -3,6 +3,7 @@ import { getStripeTerminal } from "@/lib/server/stripe";
 import { supabaseServer } from "@/lib/supabaseServer";
 import { getStaffUserFromCookies } from "@/lib/staffAuth";
 import { cardFeeCents } from "@/lib/bookingLogic";
+import { resolveStaffLocation, scopeToLocation } from "@/lib/server/locations";
 
 const TAX_RATE = 0.0725;
 
@@ -29,13 +30,15 @@ export async function POST(req: Request) {
     const items = normalizeItems(Array.isArray(body?.items) ? body.items : []);
     const tabId = String(body?.tab_id || "").trim();
     if (!items.length) return NextResponse.json({ error: "Add at least one item" }, { status: 400 });
+    const location = await resolveStaffLocation(req, staff, body?.location_id);
+    if (!location) return NextResponse.json({ error: "Invalid location" }, { status: 400 });
 
     const ids = items.map((item) => item.id);
     const sb = supabaseServer();
-    const { data, error } = await sb
-      .from("add_ons")
-      .select("id,name,price_cents,active")
-      .in("id", ids);
+    const { data, error } = await scopeToLocation(sb.from("add_ons").select("id,name,price_cents,active"), location).in(
+      "id",
+      ids
+    );
 
     if (error) {
       console.error("pos inventory load error:", error);
@@ -78,6 +81,7 @@ export async function POST(req: Request) {
       pos_total_with_fee: String(totalWithFee),
       pos_staff_id: staff.staff_id,
     };
+    if (location.id) metadata.location_id = location.id;
     if (tabId) metadata.tab_id = tabId;
 
     const intent = await stripe.paymentIntents.create({
@@ -0,0 +1,169 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { comboFirstFromOrder, comboSegmentWindows } from "@/lib/bookingLogic";
+import { COMBO_ACTIVITY_KEY, findActivityByKey } from "@/lib/activities";
+import { loadActivityDefinition, loadActivityDefinitions } from "@/lib/server/activities";
+import { resolveRequestLocation, scopeToLocation } from "@/lib/server/locations";
+import { findWaitlistClaim } from "@/lib/server/waitlist";
+import { isValidDateKey, nowInTimeZone } from "@/lib/dateTime";
+
+// Claim link lookup: prefills /book?waitlist=<token> with the offered slot.
+export async function GET(req: Request) {
+  try {
+    const token = new URL(req.url).searchParams.get("token") || "";
+    const entry = await findWaitlistClaim(token);
+    if (!entry) {
+      return NextResponse.json({ error: "This waitlist offer has expired or was already used." }, { status: 404 });
+    }
+    const definition = findActivityByKey(await loadActivityDefinitions(), entry.activity);
+
+    return NextResponse.json(
+      {
+        claim: {
+          activity: definition?.name ?? entry.activity,
+          partySize: entry.party_size,
+          dateKey: entry.date_key,
+          startMin: entry.start_min,
+          durationMinutes: entry.duration_minutes,
+          comboAxeMinutes: entry.combo_axe_minutes,
+          comboDuckpinMinutes: entry.combo_duckpin_minutes,
+          comboOrder: entry.combo_order,
+          customerName: entry.customer_name,
+          customerEmail: entry.customer_email,
+          customerPhone: entry.customer_phone,
+          expiresAt: entry.claim_expires_at,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (err: any) {
+    console.error("waitlist claim fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    const activity = String(body?.activity || "");
+    const partySize = Number(body?.partySize);
+    const dateKey = String(body?.dateKey || "");
+    const startMin = Number(body?.startMin);
+    const durationMinutes = Number(body?.durationMinutes);
+    const comboAxeMinutes = Number(body?.comboAxeMinutes);
+    const comboDuckpinMinutes = Number(body?.comboDuckpinMinutes);
+    const comboOrder = body?.comboOrder === "AXE_FIRST" ? "AXE_FIRST" : "DUCKPIN_FIRST";
+    const customerName = String(body?.customerName || "").trim();
+    const customerEmail = String(body?.customerEmail || "").trim().toLowerCase();
+    const customerPhone = String(body?.customerPhone || "").trim();
+
+    const location = await resolveRequestLocation(req, body?.locationId);
+    if (!location) {
+      return NextResponse.json({ error: "Invalid location" }, { status: 400 });
+    }
+    const definition = activity ? await loadActivityDefinition(activity) : null;
+    if (!definition) {
+      return NextResponse.json({ error: "Invalid activity" }, { status: 400 });
+    }
+    if (customerName.length < 2 || !customerEmail.includes("@")) {
+      return NextResponse.json({ error: "Missing contact info" }, { status: 400 });
+    }
+    if (!isValidDateKey(dateKey)) {
+      return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+    }
+    if (!Number.isFinite(partySize) || partySize < 1 || partySize > definition.maxPartySize) {
+      return NextResponse.json({ error: "Invalid party size" }, { status: 400 });
+    }
+    if (!Number.isFinite(startMin) || startMin < 0) {
+      return NextResponse.json({ error: "Invalid start time" }, { status: 400 });
+    }
+    const now = nowInTimeZone(location.timezone);
+    if (dateKey < now.dateKey || (dateKey === now.dateKey && startMin <= now.minutes)) {
+      return NextResponse.json({ error: "That time has already passed." }, { status: 400 });
+    }
+
+    const isCombo = definition.key === COMBO_ACTIVITY_KEY;
+    const segmentDurations = (type: string) =>
+      definition.resources.find((rule) => rule.type === type)?.durations ?? [30, 60, 120];
+    if (isCombo) {
+      if (
+        !segmentDurations("AXE").includes(comboAxeMinutes) ||
+        !segmentDurations("DUCKPIN").includes(comboDuckpinMinutes)
+      ) {
+        return NextResponse.json({ error: "Invalid combo durations" }, { status: 400 });
+      }
+    } else if (!Array.from(new Set([15, 30, 60, 120, ...definition.durations])).includes(durationMinutes)) {
+      return NextResponse.json({ error: "Invalid duration" }, { status: 400 });
+    }
+    const totalMinutes = isCombo
+      ? comboSegmentWindows(0, comboFirstFromOrder(comboOrder), {
+          axeMinutes: comboAxeMinutes,
+          duckpinMinutes: comboDuckpinMinutes,
+          transitionMinutes: definition.transitionMinutes,
+        }).overall.endMin
+      : durationMinutes;
+
+    const sb = supabaseServer();
+    // Joining twice for the same slot keeps the original place in line.
+    const { data: existing, error: existingErr } = await scopeToLocation(
+      sb
+        .from("waitlist_entries")
+        .select("id,created_at")
+        .eq("date_key", dateKey)
+        .eq("start_min", startMin)
+        .eq("activity", definition.key)
+        .eq("customer_email", customerEmail)
+        .eq("status", "WAITING"),
+      location
+    ).maybeSingle();
+    if (existingErr) {
+      console.error("waitlist duplicate check error:", existingErr);
+    }
+
+    let entryId = existing?.id as string | undefined;
+    let createdAt = existing?.created_at as string | undefined;
+    if (!entryId) {
+      const { data: created, error } = await sb
+        .from("waitlist_entries")
+        .insert({
+          location_id: location.id,
+          activity: definition.key,
+          party_size: partySize,
+          date_key: dateKey,
+          start_min: startMin,
+          duration_minutes: totalMinutes,
+          combo_axe_minutes: isCombo ? comboAxeMinutes : null,
+          combo_duckpin_minutes: isCombo ? comboDuckpinMinutes : null,
+          combo_order: isCombo ? comboOrder : null,
+          customer_name: customerName,
+          customer_email: customerEmail,
+          customer_phone: customerPhone || null,
+        })
+        .select("id,created_at")
+        .single();
+      if (error) {
+        console.error("waitlist insert error:", error);
+        return NextResponse.json({ error: "Failed to join the waitlist" }, { status: 500 });
+      }
+      entryId = created.id as string;
+      createdAt = created.created_at as string;
+    }
+
+    const { count } = await scopeToLocation(
+      sb
+        .from("waitlist_entries")
+        .select("id", { count: "exact", head: true })
+        .eq("date_key", dateKey)
+        .eq("start_min", startMin)
+        .eq("activity", definition.key)
+        .eq("status", "WAITING")
+        .lte("created_at", createdAt as string),
+      location
+    );
+
+    return NextResponse.json({ ok: true, entryId, position: count ?? 1 }, { status: 200 });
+  } catch (err: any) {
+    console.error("waitlist join fatal:", err);
+    return NextResponse.json({ error: err?.message || "Server error" }, { status: 500 });
+  }
+}
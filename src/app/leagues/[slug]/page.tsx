@@ -0,0 +1,195 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { formatDateKey, formatMinutesLabel } from "@/lib/dateTime";
+
+type Side = { teamId: string; name: string; games: number[]; scratch: number; handicap: number; points: number };
+
+type LeagueResponse = {
+  league: {
+    name: string;
+    status: "ACTIVE" | "COMPLETED";
+    gamesPerWeek: number;
+    handicapBase: number;
+    handicapPercent: number;
+    locationName: string;
+  };
+  weeks: Array<{ week: number; dateKey: string; startMin: number }>;
+  results: Array<{ matchId: string; week: number; lane: number; home: Side; away: Side }>;
+  standings: Array<{
+    teamId: string;
+    name: string;
+    points: number;
+    gamesWon: number;
+    gamesLost: number;
+    scratchPins: number;
+    totalPins: number;
+  }>;
+  bowlers: Array<{
+    name: string;
+    teamName: string;
+    games: number;
+    average: number | null;
+    highGame: number;
+    handicap: number;
+  }>;
+};
+
+function sumPins(side: Side) {
+  return side.games.reduce((sum, total) => sum + total, 0);
+}
+
+export default function LeagueStandingsPage() {
+  const params = useParams<{ slug: string }>();
+  const slug = params?.slug || "";
+
+  const [data, setData] = useState<LeagueResponse | null>(null);
+  const [status, setStatus] = useState<"loading" | "ready" | "error">("loading");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!slug) return;
+    let active = true;
+    (async () => {
+      try {
+        const res = await fetch(`/api/leagues/${encodeURIComponent(slug)}`, { cache: "no-store" });
+        const json = await res.json().catch(() => ({}));
+        if (!active) return;
+        if (!res.ok) {
+          setError(json?.error || "League not found.");
+          setStatus("error");
+          return;
+        }
+        setData(json);
+        setStatus("ready");
+      } catch {
+        if (!active) return;
+        setError("Unable to load league.");
+        setStatus("error");
+      }
+    })();
+    return () => {
+      active = false;
+    };
+  }, [slug]);
+
+  const weekRows = data
+    ? data.weeks
+        .map((week) => ({ ...week, results: data.results.filter((row) => row.week === week.week) }))
+        .filter((week) => week.results.length)
+        .reverse()
+    : [];
+
+  return (
+    <div className="min-h-screen bg-zinc-50">
+      <div className="mx-auto max-w-3xl px-4 py-12">
+        <div className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm">
+          {status === "loading" ? (
+            <div className="text-sm text-zinc-600">Loading standings…</div>
+          ) : status === "error" || !data ? (
+            <div className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+              {error || "League not found."}
+            </div>
+          ) : (
+            <>
+              <div className="text-2xl font-extrabold text-zinc-900">{data.league.name}</div>
+              <div className="mt-2 text-sm text-zinc-600">
+                {data.league.locationName} · {data.league.gamesPerWeek} games a week · handicap{" "}
+                {data.league.handicapPercent}% of {data.league.handicapBase}
+                {data.league.status === "COMPLETED" ? " · Final standings" : ""}
+              </div>
+
+              <div className="mt-6 text-sm font-extrabold text-zinc-900">Standings</div>
+              {data.standings.length === 0 ? (
+                <div className="mt-2 text-sm text-zinc-600">No teams yet.</div>
+              ) : (
+                <table className="mt-2 w-full text-sm">
+                  <thead className="text-left text-zinc-600">
+                    <tr>
+                      <th className="py-2">#</th>
+                      <th className="py-2">Team</th>
+                      <th className="py-2">Pts</th>
+                      <th className="py-2">W–L</th>
+                      <th className="py-2">Scratch</th>
+                      <th className="py-2">Hdcp total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.standings.map((row, idx) => (
+                      <tr key={row.teamId} className="border-t border-zinc-100">
+                        <td className="py-2">{idx + 1}</td>
+                        <td className="py-2 font-semibold text-zinc-900">{row.name}</td>
+                        <td className="py-2">{row.points}</td>
+                        <td className="py-2">
+                          {row.gamesWon}–{row.gamesLost}
+                        </td>
+                        <td className="py-2">{row.scratchPins}</td>
+                        <td className="py-2">{row.totalPins}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <div className="mt-6 text-sm font-extrabold text-zinc-900">Bowlers</div>
+              {data.bowlers.length === 0 ? (
+                <div className="mt-2 text-sm text-zinc-600">No bowlers yet.</div>
+              ) : (
+                <table className="mt-2 w-full text-sm">
+                  <thead className="text-left text-zinc-600">
+                    <tr>
+                      <th className="py-2">Bowler</th>
+                      <th className="py-2">Team</th>
+                      <th className="py-2">Games</th>
+                      <th className="py-2">Avg</th>
+                      <th className="py-2">High</th>
+                      <th className="py-2">Hdcp</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.bowlers.map((row) => (
+                      <tr key={`${row.teamName}:${row.name}`} className="border-t border-zinc-100">
+                        <td className="py-2">{row.name}</td>
+                        <td className="py-2 text-xs text-zinc-600">{row.teamName}</td>
+                        <td className="py-2">{row.games}</td>
+                        <td className="py-2">{row.average ?? "—"}</td>
+                        <td className="py-2">{row.highGame || "—"}</td>
+                        <td className="py-2">{row.handicap}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {weekRows.length ? <div className="mt-6 text-sm font-extrabold text-zinc-900">Results</div> : null}
+              {weekRows.map((week) => (
+                <div key={week.week} className="mt-3 rounded-xl bg-zinc-50 p-3">
+                  <div className="text-xs font-semibold text-zinc-600">
+                    Week {week.week} · {formatDateKey(week.dateKey)} · {formatMinutesLabel(week.startMin)}
+                  </div>
+                  <ul className="mt-2 space-y-1 text-sm">
+                    {week.results.map((row) => (
+                      <li key={row.matchId} className="flex flex-wrap justify-between gap-2">
+                        <span>
+                          <span className="text-xs text-zinc-500">Lane {row.lane} · </span>
+                          {row.home.name} vs {row.away.name}
+                        </span>
+                        <span className="font-semibold text-zinc-900">
+                          {row.home.points} – {row.away.points}
+                          <span className="ml-2 text-xs font-normal text-zinc-500">
+                            ({sumPins(row.home)} – {sumPins(row.away)})
+                          </span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { EMPTY_STORE_HOURS_CONFIG, resolveStoreHoursForDateKey, type StoreHoursConfig } from "@/lib/storeHours";
+import { formatDateKey, formatInstant, formatMinutesLabel, formatMinutesRange, nowInTimeZone } from "@/lib/dateTime";
+
+type ManageResponse = {
+  booking: {
+    activity: string;
+    partySize: number;
+    dateKey: string;
+    startMin: number;
+    endMin: number;
+    status: string;
+    paid: boolean;
+    totalCents: number | null;
+    customerName: string;
+    locationName: string;
+    timeZone: string;
+  };
+  waiver: { status: "SIGNED" | "PENDING" | "NOT_REQUIRED"; url: string | null };
+  policy: {
+    cancelWindowHours: number;
+    rescheduleWindowHours: number;
+    notes: string | null;
+    cancelBy: string;
+    rescheduleBy: string;
+  };
+  refund: { allowedCents: number; rule: string } | null;
+  canCancel: boolean;
+  canReschedule: boolean;
+  availability: Record<string, unknown> & { locationId?: string };
+};
+
+function ManageContent() {
+  const params = useSearchParams();
+  const token = params.get("token") || "";
+
+  const [data, setData] = useState<ManageResponse | null>(null);
+  const [status, setStatus] = useState<"loading" | "ready" | "error">("loading");
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const [rescheduling, setRescheduling] = useState(false);
+  const [storeHours, setStoreHours] = useState<StoreHoursConfig>(EMPTY_STORE_HOURS_CONFIG);
+  const [dateKey, setDateKey] = useState("");
+  // null = availability couldn't be checked, so no times are offered.
+  const [blockedStartMins, setBlockedStartMins] = useState<number[] | null>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [startMin, setStartMin] = useState<number | null>(null);
+
+  const loadBooking = useCallback(async () => {
+    if (!token) {
+      setStatus("error");
+      setError("Missing booking link.");
+      return;
+    }
+    try {
+      const res = await fetch(`/api/bookings/manage/${encodeURIComponent(token)}`, { cache: "no-store" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setStatus("error");
+        setError(json?.error || "Failed to load booking.");
+        return;
+      }
+      setData(json as ManageResponse);
+      setStatus("ready");
+    } catch (err: any) {
+      setStatus("error");
+      setError(err?.message || "Failed to load booking.");
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadBooking();
+  }, [loadBooking]);
+
+  const locationId = data?.availability.locationId;
+  useEffect(() => {
+    if (!rescheduling) return;
+    const query = locationId ? `?location=${encodeURIComponent(locationId)}` : "";
+    fetch(`/api/store-hours${query}`, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (json?.hours) setStoreHours(json.hours as StoreHoursConfig);
+      })
+      .catch((err) => {
+        console.error("store hours fetch failed:", err);
+      });
+  }, [rescheduling, locationId]);
+
+  const lengthMinutes = data ? data.booking.endMin - data.booking.startMin : 0;
+  const step = lengthMinutes === 15 ? 15 : 30;
+  const openHours = useMemo(
+    () => (dateKey ? resolveStoreHoursForDateKey(storeHours, dateKey) : null),
+    [storeHours, dateKey]
+  );
+  const timeZone = data?.booking.timeZone;
+  const today = useMemo(() => (timeZone ? nowInTimeZone(timeZone) : null), [timeZone]);
+
+  useEffect(() => {
+    if (!data || !dateKey || !openHours || openHours.closed) {
+      setBlockedStartMins([]);
+      return;
+    }
+    let active = true;
+    setSlotsLoading(true);
+    setStartMin(null);
+    fetch("/api/availability", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...data.availability, dateKey, slotIntervalMin: step, manageToken: token }),
+    })
+      .then(async (res) => {
+        const json = await res.json().catch(() => ({}));
+        if (!active) return;
+        if (!res.ok) console.error("availability error:", json);
+        setBlockedStartMins(res.ok && Array.isArray(json?.blockedStartMins) ? json.blockedStartMins : null);
+      })
+      .catch((err) => {
+        console.error("availability fetch failed:", err);
+        if (active) setBlockedStartMins(null);
+      })
+      .finally(() => {
+        if (active) setSlotsLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [data, dateKey, openHours, step, token]);
+
+  const openStartMins = useMemo(() => {
+    if (!openHours || openHours.closed || !lengthMinutes || !blockedStartMins) return [];
+    const starts: number[] = [];
+    for (let t = openHours.openMin; t + lengthMinutes <= openHours.closeMin; t += step) {
+      // Same-day times that have already passed can't be picked.
+      if (today && dateKey === today.dateKey && t <= today.minutes) continue;
+      if (!blockedStartMins.includes(t)) starts.push(t);
+    }
+    return starts;
+  }, [openHours, lengthMinutes, step, blockedStartMins, today, dateKey]);
+
+  async function submitChange(body: Record<string, unknown>, doneMessage: string) {
+    setBusy(true);
+    setError("");
+    setNotice("");
+    try {
+      const res = await fetch(`/api/bookings/manage/${encodeURIComponent(token)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error || "Failed to update booking.");
+        return;
+      }
+      setNotice(doneMessage);
+      setRescheduling(false);
+      setDateKey("");
+      await loadBooking();
+    } catch (err: any) {
+      setError(err?.message || "Failed to update booking.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function cancelBooking() {
+    if (!window.confirm("Cancel this booking? This can't be undone.")) return;
+    submitChange(
+      { action: "CANCEL" },
+      data?.refund
+        ? `Your booking is cancelled. We'll be in touch about your $${(data.refund.allowedCents / 100).toFixed(2)} refund.`
+        : "Your booking is cancelled."
+    );
+  }
+
+  function confirmReschedule() {
+    if (!dateKey || startMin == null) return;
+    submitChange({ action: "RESCHEDULE", dateKey, startMin }, "Your booking has been moved.");
+  }
+
+  const booking = data?.booking;
+  const policy = data?.policy;
+
+  return (
+    <div className="min-h-screen bg-zinc-50">
+      <div className="mx-auto max-w-xl px-4 py-12">
+        <div className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm">
+          <div className="text-2xl font-extrabold text-zinc-900">Your Booking</div>
+          <div className="mt-2 text-sm text-zinc-600">Review, reschedule or cancel your Axe Quacks booking.</div>
+
+          {status === "loading" ? (
+            <div className="mt-6 text-sm text-zinc-600">Loading booking…</div>
+          ) : status === "error" || !booking || !policy || !data ? (
+            <div className="mt-6 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+              {error || "Booking not found."}
+            </div>
+          ) : (
+            <>
+              {notice ? (
+                <div className="mt-6 rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+                  {notice}
+                </div>
+              ) : null}
+
+              <dl className="mt-6 grid grid-cols-3 gap-y-2 text-sm">
+                <dt className="text-zinc-500">Activity</dt>
+                <dd className="col-span-2 font-semibold text-zinc-900">{booking.activity}</dd>
+                <dt className="text-zinc-500">Date</dt>
+                <dd className="col-span-2 font-semibold text-zinc-900">{formatDateKey(booking.dateKey)}</dd>
+                <dt className="text-zinc-500">Time</dt>
+                <dd className="col-span-2 font-semibold text-zinc-900">
+                  {formatMinutesRange(booking.startMin, booking.endMin)}
+                </dd>
+                <dt className="text-zinc-500">Group Size</dt>
+                <dd className="col-span-2 font-semibold text-zinc-900">{booking.partySize}</dd>
+                <dt className="text-zinc-500">Location</dt>
+                <dd className="col-span-2 font-semibold text-zinc-900">{booking.locationName}</dd>
+                {booking.totalCents != null ? (
+                  <>
+                    <dt className="text-zinc-500">Amount</dt>
+                    <dd className="col-span-2 font-semibold text-zinc-900">
+                      ${(booking.totalCents / 100).toFixed(2)} {booking.paid ? "PAID" : ""}
+                    </dd>
+                  </>
+                ) : null}
+                <dt className="text-zinc-500">Status</dt>
+                <dd className="col-span-2 font-semibold text-zinc-900">{booking.status}</dd>
+              </dl>
+
+              <div className="mt-6 rounded-xl border border-zinc-200 px-3 py-2 text-sm">
+                {data.waiver.status === "SIGNED" ? (
+                  <span className="font-semibold text-emerald-700">Waiver signed.</span>
+                ) : data.waiver.status === "PENDING" && data.waiver.url ? (
+                  <span className="text-zinc-700">
+                    Waiver required before you play.{" "}
+                    <a className="font-semibold underline" href={data.waiver.url}>
+                      Sign waiver
+                    </a>
+                  </span>
+                ) : (
+                  <span className="text-zinc-600">No waiver needed for this booking.</span>
+                )}
+              </div>
+
+              <div className="mt-6 text-xs text-zinc-600">
+                Online changes: reschedule until{" "}
+                {formatInstant(policy.rescheduleBy, booking.timeZone, "dateTime")}, cancel until{" "}
+                {formatInstant(policy.cancelBy, booking.timeZone, "dateTime")}. After that, please call or reply to
+                your confirmation email.
+                {data.refund ? (
+                  <div className="mt-1">
+                    Cancelling now refunds ${(data.refund.allowedCents / 100).toFixed(2)} ({data.refund.rule}).
+                  </div>
+                ) : null}
+                {policy.notes ? <div className="mt-1 whitespace-pre-line">{policy.notes}</div> : null}
+              </div>
+
+              {error ? <div className="mt-4 text-sm text-red-600">{error}</div> : null}
+
+              {rescheduling ? (
+                <div className="mt-6 space-y-3 border-t border-zinc-200 pt-4">
+                  <div className="text-sm font-semibold text-zinc-900">Pick a new time</div>
+                  <input
+                    type="date"
+                    value={dateKey}
+                    min={today?.dateKey}
+                    onChange={(e) => setDateKey(e.target.value)}
+                    className="h-11 w-full rounded-2xl border border-zinc-200 px-4 text-sm font-semibold outline-none focus:border-zinc-900"
+                  />
+                  {!dateKey ? null : openHours?.closed ? (
+                    <div className="text-sm text-zinc-600">We&apos;re closed that day.</div>
+                  ) : slotsLoading ? (
+                    <div className="text-sm text-zinc-600">Checking availability…</div>
+                  ) : openStartMins.length === 0 ? (
+                    <div className="text-sm text-zinc-600">No open times that day.</div>
+                  ) : (
+                    <div className="grid grid-cols-3 gap-2">
+                      {openStartMins.map((t) => (
+                        <button
+                          key={t}
+                          type="button"
+                          onClick={() => setStartMin(t)}
+                          className={`h-10 rounded-xl border text-sm font-semibold ${
+                            startMin === t ? "border-zinc-900 bg-zinc-900 text-white" : "border-zinc-200 bg-white"
+                          }`}
+                        >
+                          {formatMinutesLabel(t)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      disabled={busy || startMin == null}
+                      onClick={confirmReschedule}
+                      className="h-11 flex-1 rounded-2xl bg-zinc-900 text-sm font-extrabold text-white disabled:opacity-50"
+                    >
+                      Confirm New Time
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => setRescheduling(false)}
+                      className="h-11 rounded-2xl border border-zinc-200 px-4 text-sm font-semibold"
+                    >
+                      Back
+                    </button>
+                  </div>
+                </div>
+              ) : data.canReschedule || data.canCancel ? (
+                <div className="mt-6 flex gap-2">
+                  {data.canReschedule ? (
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => setRescheduling(true)}
+                      className="h-11 flex-1 rounded-2xl bg-zinc-900 text-sm font-extrabold text-white disabled:opacity-50"
+                    >
+                      Reschedule
+                    </button>
+                  ) : null}
+                  {data.canCancel ? (
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={cancelBooking}
+                      className="h-11 flex-1 rounded-2xl border border-red-200 text-sm font-extrabold text-red-700 disabled:opacity-50"
+                    >
+                      Cancel Booking
+                    </button>
+                  ) : null}
+                </div>
+              ) : null}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ManageBookingPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-zinc-50">
+          <div className="mx-auto max-w-xl px-4 py-12">
+            <div className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm">
+              <div className="text-sm text-zinc-600">Loading booking…</div>
+            </div>
+          </div>
+        </div>
+      }
+    >
+      <ManageContent />
+    </Suspense>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import LocationSelect from "@/components/LocationSelect";
 
 type StaffUser = {
   id: string | number | null;
@@ -10,6 +11,7 @@ type StaffUser = {
   role: "staff" | "admin";
   role_label?: string | null;
   hourly_rate_cents?: number | null;
+  location_id?: string | null;
   active: boolean;
   created_at: string;
 };
@@ -31,12 +33,15 @@ export default function StaffUsersAdmin() {
   const [roleLabel, setRoleLabel] = useState("Front Desk");
   const [hourlyRateCents, setHourlyRateCents] = useState(ROLE_OPTIONS[2].rateCents);
   const [pin, setPin] = useState("");
+  const [locationId, setLocationId] = useState("");
   const [formError, setFormError] = useState("");
   const [actionError, setActionError] = useState("");
   const [saving, setSaving] = useState(false);
   const [actionLoadingId, setActionLoadingId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
-  const [edits, setEdits] = useState<Record<string, { role_label?: string; hourly_rate_cents?: number }>>({});
+  const [edits, setEdits] = useState<
+    Record<string, { role_label?: string; hourly_rate_cents?: number; location_id?: string | null }>
+  >({});
 
   async function loadUsers() {
     setLoading(true);
@@ -68,7 +73,15 @@ export default function StaffUsersAdmin() {
       const res = await fetch("/api/staff/users", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ staffId, fullName, role, pin, role_label: roleLabel, hourly_rate_cents: hourlyRateCents }),
+        body: JSON.stringify({
+          staffId,
+          fullName,
+          role,
+          pin,
+          role_label: roleLabel,
+          hourly_rate_cents: hourlyRateCents,
+          location_id: locationId || null,
+        }),
       });
       const json = await res.json().catch(() => ({}));
       if (!res.ok) {
@@ -81,6 +94,7 @@ export default function StaffUsersAdmin() {
       setRoleLabel("Front Desk");
       setHourlyRateCents(ROLE_OPTIONS[2].rateCents);
       setPin("");
+      setLocationId("");
       await loadUsers();
     } finally {
       setSaving(false);
@@ -197,6 +211,12 @@ export default function StaffUsersAdmin() {
             className="h-10 rounded-xl border border-zinc-200 px-3 text-sm text-zinc-900 placeholder:text-zinc-900"
             required
           />
+          <LocationSelect
+            value={locationId}
+            onChange={setLocationId}
+            emptyLabel="All locations"
+            className="flex h-10 items-center gap-2 text-sm text-zinc-900"
+          />
           {formError ? <div className="text-sm text-red-600">{formError}</div> : null}
           <button
             type="submit"
@@ -267,6 +287,18 @@ export default function StaffUsersAdmin() {
                           </option>
                         ))}
                       </select>
+                      <LocationSelect
+                        value={edits[String(r.id ?? r.auth_user_id ?? "")]?.location_id ?? r.location_id ?? ""}
+                        onChange={(next) => {
+                          const userId = String(r.id ?? r.auth_user_id ?? "");
+                          setEdits((prev) => ({
+                            ...prev,
+                            [userId]: { ...prev[userId], location_id: next || null },
+                          }));
+                        }}
+                        emptyLabel="All locations"
+                        className="mt-1 flex items-center justify-center gap-2 text-xs text-zinc-900"
+                      />
                     </td>
                     <td className="py-2 text-center">
                       <input
@@ -0,0 +1,198 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import LocationSelect from "@/components/LocationSelect";
+import { DEFAULT_TIME_ZONE, formatDateKey, formatInstant, nowInTimeZone } from "@/lib/dateTime";
+
+type Move = {
+  reservationId: string;
+  bookingId: string;
+  customerName: string | null;
+  type: string;
+  startTs: string;
+  endTs: string;
+  fromName: string;
+  toName: string;
+};
+
+type Score = { splitParties: number; slivers: number };
+
+type Plan = {
+  dateKey: string;
+  planKey: string;
+  moves: Move[];
+  unplaced: string[];
+  movable: number;
+  pinned: number;
+  before: Score;
+  after: Score;
+};
+
+function typeLabel(type: string) {
+  if (type === "AXE") return "Axe bay";
+  if (type === "DUCKPIN") return "Lane";
+  return type;
+}
+
+export default function AllocationPlanner() {
+  const [locationId, setLocationId] = useState("");
+  const [dateKey, setDateKey] = useState(() => nowInTimeZone().dateKey);
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [plan, setPlan] = useState<Plan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const loadPlan = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch("/api/staff/resource-reservations/optimize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dateKey, locationId: locationId || undefined, preview: true }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error || "Failed to plan the day");
+        setPlan(null);
+        return;
+      }
+      setTimeZone(json.timeZone || DEFAULT_TIME_ZONE);
+      setPlan(json.plan || null);
+    } finally {
+      setLoading(false);
+    }
+  }, [dateKey, locationId]);
+
+  useEffect(() => {
+    setMessage("");
+    loadPlan();
+  }, [loadPlan]);
+
+  async function applyPlan() {
+    if (!plan?.moves.length) return;
+    setApplying(true);
+    setError("");
+    setMessage("");
+    try {
+      const res = await fetch("/api/staff/resource-reservations/optimize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dateKey, locationId: locationId || undefined, planKey: plan.planKey }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error || "Failed to apply the plan");
+        if (json?.plan) setPlan(json.plan);
+        return;
+      }
+      setMessage(`Moved ${json.applied} reservation${json.applied === 1 ? "" : "s"}.`);
+      await loadPlan();
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="mb-1 text-sm font-extrabold text-zinc-900">Lane &amp; bay assignment</div>
+        <div className="mb-3 text-xs text-zinc-500">
+          Re-seats the day&apos;s upcoming reservations so groups sit side by side and open time isn&apos;t left in
+          short gaps. Reservations already under way, and any you moved by hand on the Bookings page, stay put.
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-xs font-semibold text-zinc-600">
+            Date
+            <input
+              type="date"
+              value={dateKey}
+              onChange={(e) => setDateKey(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <LocationSelect value={locationId} onChange={setLocationId} />
+          <button
+            type="button"
+            onClick={loadPlan}
+            disabled={loading}
+            className="h-10 rounded-xl border border-zinc-200 bg-white px-3 text-sm disabled:opacity-60"
+          >
+            {loading ? "Planning..." : "Preview"}
+          </button>
+          <button
+            type="button"
+            onClick={applyPlan}
+            disabled={applying || loading || !plan?.moves.length}
+            className="h-10 rounded-xl bg-zinc-900 px-4 text-sm font-semibold text-white disabled:opacity-60"
+          >
+            {applying ? "Applying..." : "Apply"}
+          </button>
+        </div>
+        {error ? <div className="mt-3 text-sm text-red-600">{error}</div> : null}
+        {message ? <div className="mt-3 text-sm text-emerald-700">{message}</div> : null}
+      </div>
+
+      {plan ? (
+        <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+            <div className="text-sm font-extrabold text-zinc-900">{formatDateKey(plan.dateKey)}</div>
+            <div className="text-xs text-zinc-500">
+              {plan.movable} movable · {plan.pinned} placed by hand
+            </div>
+          </div>
+          <div className="mb-3 grid gap-3 sm:grid-cols-2">
+            <div className="rounded-xl bg-zinc-50 p-3 text-sm">
+              <div className="text-xs font-semibold text-zinc-600">Groups split across non-adjacent resources</div>
+              <div className="mt-1 font-semibold text-zinc-900">
+                {plan.before.splitParties} → {plan.after.splitParties}
+              </div>
+            </div>
+            <div className="rounded-xl bg-zinc-50 p-3 text-sm">
+              <div className="text-xs font-semibold text-zinc-600">Open gaps under an hour</div>
+              <div className="mt-1 font-semibold text-zinc-900">
+                {plan.before.slivers} → {plan.after.slivers}
+              </div>
+            </div>
+          </div>
+          {plan.unplaced.length ? (
+            <div className="mb-3 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+              {plan.unplaced.length} booking{plan.unplaced.length === 1 ? " is" : "s are"} already double-booked on
+              this day, so nothing will be moved until that is fixed on the Bookings page.
+            </div>
+          ) : null}
+          {plan.moves.length === 0 ? (
+            <div className="text-sm text-zinc-600">The current assignment is already the best fit.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-zinc-600">
+                <tr>
+                  <th className="py-2">Time</th>
+                  <th className="py-2">Booking</th>
+                  <th className="py-2">Type</th>
+                  <th className="py-2">Move</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.moves.map((move) => (
+                  <tr key={move.reservationId} className="border-t border-zinc-100">
+                    <td className="py-2">
+                      {formatInstant(move.startTs, timeZone)} – {formatInstant(move.endTs, timeZone)}
+                    </td>
+                    <td className="py-2">{move.customerName || "—"}</td>
+                    <td className="py-2 text-xs text-zinc-600">{typeLabel(move.type)}</td>
+                    <td className="py-2">
+                      {move.fromName} → <span className="font-semibold text-zinc-900">{move.toName}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
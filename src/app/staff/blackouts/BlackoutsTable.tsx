@@ -1,26 +1,133 @@
 "use client";
 
-import { useEffect, useState } from "react";
-
-type Blackout = {
-  id: string;
-  date_key: string;
-  start_min: number | null;
-  end_min: number | null;
-  activity: string;
-  reason: string | null;
-  created_at: string;
-};
+import { useEffect, useMemo, useState } from "react";
+import { blackoutDatesBetween, blackoutOccursOn, describeBlackoutRule, type BlackoutRule } from "@/lib/blackouts";
+import {
+  addDaysToDateKey,
+  dateKeyFromLocalDate,
+  dateKeyFromParts,
+  formatDateKey,
+  parseDateKey,
+  weekdayForDateKey,
+} from "@/lib/dateTime";
+
+type ResourceOption = { id: string; type: string; name: string; location: string | null };
+
+const WEEKDAY_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function resourceLabel(resource: ResourceOption) {
+  return resource.location ? `${resource.name} (${resource.location})` : resource.name;
+}
+
+// Month grid of the days the draft rule covers. Clicking a covered day skips it; clicking a skipped day restores it.
+function BlackoutPreview(props: {
+  draft: Pick<BlackoutRule, "date_key" | "end_date_key" | "weekdays" | "except_date_keys">;
+  existing: BlackoutRule[];
+  onToggleException: (dateKey: string) => void;
+}) {
+  const { draft, existing, onToggleException } = props;
+  const [cursor, setCursor] = useState(() => (draft.date_key || dateKeyFromLocalDate(new Date())).slice(0, 7));
+
+  const monthStart = `${cursor}-01`;
+  const monthLabel = formatDateKey(monthStart, "month");
+
+  const cells = useMemo(() => {
+    if (!parseDateKey(monthStart)) return [];
+    const out: Array<string | null> = Array.from({ length: weekdayForDateKey(monthStart) }, () => null);
+    for (let key = monthStart; key.slice(0, 7) === cursor; key = addDaysToDateKey(key, 1)) out.push(key);
+    while (out.length % 7 !== 0) out.push(null);
+    return out;
+  }, [cursor, monthStart]);
+
+  function shiftMonth(delta: number) {
+    const parts = parseDateKey(monthStart);
+    if (!parts) return;
+    const month = parts.month - 1 + delta;
+    const year = parts.year + Math.floor(month / 12);
+    setCursor(dateKeyFromParts({ year, month: ((month % 12) + 12) % 12 + 1, day: 1 }).slice(0, 7));
+  }
+
+  const skipped = new Set(draft.except_date_keys || []);
+  const total = draft.date_key
+    ? blackoutDatesBetween(draft, draft.date_key, draft.end_date_key || draft.date_key).length
+    : 0;
+
+  return (
+    <div>
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <button
+          type="button"
+          className="rounded-xl border border-zinc-200 px-3 py-1 text-sm font-semibold hover:bg-zinc-50"
+          onClick={() => shiftMonth(-1)}
+        >
+          ←
+        </button>
+        <div className="text-sm font-extrabold text-zinc-900">{monthLabel}</div>
+        <button
+          type="button"
+          className="rounded-xl border border-zinc-200 px-3 py-1 text-sm font-semibold hover:bg-zinc-50"
+          onClick={() => shiftMonth(1)}
+        >
+          →
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-[11px] font-semibold text-zinc-500">
+        {WEEKDAY_SHORT.map((day) => (
+          <div key={day}>{day}</div>
+        ))}
+      </div>
+      <div className="mt-2 grid grid-cols-7 gap-1">
+        {cells.map((dateKey, idx) => {
+          if (!dateKey) return <div key={idx} className="h-9" />;
+          const covered = !!draft.date_key && blackoutOccursOn(draft, dateKey);
+          const isSkipped = skipped.has(dateKey);
+          const other = existing.some((rule) => blackoutOccursOn(rule, dateKey));
+          return (
+            <button
+              key={dateKey}
+              type="button"
+              disabled={!covered && !isSkipped}
+              onClick={() => onToggleException(dateKey)}
+              title={covered ? "Click to skip this day" : isSkipped ? "Skipped. Click to include" : undefined}
+              className={`relative h-9 rounded-xl border text-xs font-bold ${
+                covered
+                  ? "border-zinc-900 bg-zinc-900 text-white"
+                  : isSkipped
+                    ? "border-zinc-300 bg-white text-zinc-400 line-through"
+                    : "border-zinc-100 bg-white text-zinc-700"
+              }`}
+            >
+              {Number(dateKey.slice(8))}
+              {other ? (
+                <span className="absolute bottom-1 left-1/2 h-1 w-1 -translate-x-1/2 rounded-full bg-amber-500" />
+              ) : null}
+            </button>
+          );
+        })}
+      </div>
+      <div className="mt-3 text-xs text-zinc-600">
+        {draft.date_key ? `${total} day${total === 1 ? "" : "s"} affected.` : "Pick a start date to preview."}{" "}
+        Dots mark days that already have a blackout.
+      </div>
+    </div>
+  );
+}
 
 export default function BlackoutsTable() {
-  const [rows, setRows] = useState<Blackout[]>([]);
+  const [rows, setRows] = useState<BlackoutRule[]>([]);
+  const [resources, setResources] = useState<ResourceOption[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
 
   const [dateKey, setDateKey] = useState("");
+  const [endDateKey, setEndDateKey] = useState("");
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [exceptDateKeys, setExceptDateKeys] = useState<string[]>([]);
   const [startMin, setStartMin] = useState<number | "">("");
   const [endMin, setEndMin] = useState<number | "">("");
   const [activity, setActivity] = useState("ALL");
+  const [resourceIds, setResourceIds] = useState<string[]>([]);
   const [reason, setReason] = useState("");
   const [saving, setSaving] = useState(false);
 
@@ -29,6 +136,7 @@ export default function BlackoutsTable() {
     const res = await fetch("/api/staff/blackouts", { cache: "no-store" });
     const json = await res.json().catch(() => ({}));
     setRows(json.blackouts || []);
+    setResources(json.resources || []);
     setLoading(false);
   }
 
@@ -36,6 +144,20 @@ export default function BlackoutsTable() {
     loadBlackouts();
   }, []);
 
+  const resourceById = useMemo(() => new Map(resources.map((r) => [r.id, r])), [resources]);
+
+  function toggleWeekday(day: number) {
+    setWeekdays((prev) => (prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort()));
+  }
+
+  function toggleResource(id: string) {
+    setResourceIds((prev) => (prev.includes(id) ? prev.filter((r) => r !== id) : [...prev, id]));
+  }
+
+  function toggleException(key: string) {
+    setExceptDateKeys((prev) => (prev.includes(key) ? prev.filter((d) => d !== key) : [...prev, key].sort()));
+  }
+
   async function createBlackout(e: React.FormEvent) {
     e.preventDefault();
     setSaving(true);
@@ -46,9 +168,13 @@ export default function BlackoutsTable() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           date_key: dateKey,
+          end_date_key: endDateKey || null,
+          weekdays: endDateKey ? weekdays : [],
+          except_date_keys: exceptDateKeys,
           start_min: startMin === "" ? null : startMin,
           end_min: endMin === "" ? null : endMin,
           activity,
+          resource_ids: resourceIds,
           reason,
         }),
       });
@@ -58,9 +184,13 @@ export default function BlackoutsTable() {
         return;
       }
       setDateKey("");
+      setEndDateKey("");
+      setWeekdays([]);
+      setExceptDateKeys([]);
       setStartMin("");
       setEndMin("");
       setActivity("ALL");
+      setResourceIds([]);
       setReason("");
       await loadBlackouts();
     } finally {
@@ -68,57 +198,155 @@ export default function BlackoutsTable() {
     }
   }
 
+  const draft = {
+    date_key: dateKey,
+    end_date_key: endDateKey || null,
+    weekdays: endDateKey && weekdays.length ? weekdays : null,
+    except_date_keys: exceptDateKeys,
+  };
+
   return (
     <div className="space-y-6">
-      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
-        <div className="text-sm font-extrabold text-zinc-900">Add Blackout</div>
-        <form className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-5" onSubmit={createBlackout}>
-          <input
-            type="date"
-            value={dateKey}
-            onChange={(e) => setDateKey(e.target.value)}
-            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
-            required
-          />
-          <input
-            type="number"
-            value={startMin}
-            onChange={(e) => setStartMin(e.target.value === "" ? "" : Number(e.target.value))}
-            placeholder="Start min"
-            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
-          />
-          <input
-            type="number"
-            value={endMin}
-            onChange={(e) => setEndMin(e.target.value === "" ? "" : Number(e.target.value))}
-            placeholder="End min"
-            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
-          />
-          <select
-            value={activity}
-            onChange={(e) => setActivity(e.target.value)}
-            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
-          >
-            <option value="ALL">All</option>
-            <option value="AXE">Axe</option>
-            <option value="DUCKPIN">Duckpin</option>
-            <option value="COMBO">Combo</option>
-          </select>
-          <input
-            value={reason}
-            onChange={(e) => setReason(e.target.value)}
-            placeholder="Reason"
-            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-[minmax(0,1fr)_320px]">
+        <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+          <div className="text-sm font-extrabold text-zinc-900">Add Blackout</div>
+          <form className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-4" onSubmit={createBlackout}>
+            <label className="text-xs font-semibold text-zinc-600">
+              Start date
+              <input
+                type="date"
+                value={dateKey}
+                onChange={(e) => setDateKey(e.target.value)}
+                className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+                required
+              />
+            </label>
+            <label className="text-xs font-semibold text-zinc-600">
+              End date (repeat until)
+              <input
+                type="date"
+                value={endDateKey}
+                min={dateKey || undefined}
+                onChange={(e) => setEndDateKey(e.target.value)}
+                className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+              />
+            </label>
+            <label className="text-xs font-semibold text-zinc-600">
+              Start min
+              <input
+                type="number"
+                value={startMin}
+                onChange={(e) => setStartMin(e.target.value === "" ? "" : Number(e.target.value))}
+                placeholder="Open"
+                className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+              />
+            </label>
+            <label className="text-xs font-semibold text-zinc-600">
+              End min
+              <input
+                type="number"
+                value={endMin}
+                onChange={(e) => setEndMin(e.target.value === "" ? "" : Number(e.target.value))}
+                placeholder="Close"
+                className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+              />
+            </label>
+
+            <div className="md:col-span-4">
+              <div className="text-xs font-semibold text-zinc-600">Only on (leave empty for every day)</div>
+              <div className="mt-1 flex flex-wrap gap-2">
+                {WEEKDAY_SHORT.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    disabled={!endDateKey}
+                    className={`rounded-full border px-3 py-1 text-xs font-semibold disabled:opacity-40 ${
+                      weekdays.includes(day)
+                        ? "border-zinc-900 bg-zinc-900 text-white"
+                        : "border-zinc-200 bg-white text-zinc-700"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="text-xs font-semibold text-zinc-600">
+              Activity
+              <select
+                value={activity}
+                onChange={(e) => setActivity(e.target.value)}
+                disabled={resourceIds.length > 0}
+                className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm disabled:bg-zinc-50"
+              >
+                <option value="ALL">All</option>
+                <option value="AXE">Axe</option>
+                <option value="DUCKPIN">Duckpin</option>
+                <option value="COMBO">Combo</option>
+              </select>
+            </label>
+            <label className="text-xs font-semibold text-zinc-600 md:col-span-3">
+              Reason
+              <input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason"
+                className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+              />
+            </label>
+
+            {resources.length ? (
+              <div className="md:col-span-4">
+                <div className="text-xs font-semibold text-zinc-600">
+                  Only these lanes, bays or party areas (leave empty to close the whole activity)
+                </div>
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {resources.map((resource) => (
+                    <button
+                      key={resource.id}
+                      type="button"
+                      onClick={() => toggleResource(resource.id)}
+                      className={`rounded-full border px-3 py-1 text-xs font-semibold ${
+                        resourceIds.includes(resource.id)
+                          ? "border-zinc-900 bg-zinc-900 text-white"
+                          : "border-zinc-200 bg-white text-zinc-700"
+                      }`}
+                    >
+                      {resourceLabel(resource)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : null}
+
+            {exceptDateKeys.length ? (
+              <div className="text-xs text-zinc-600 md:col-span-4">
+                Skipping: {exceptDateKeys.map((key) => formatDateKey(key, "medium")).join(", ")}
+              </div>
+            ) : null}
+            {error ? <div className="text-sm text-red-600 md:col-span-4">{error}</div> : null}
+            <button
+              type="submit"
+              disabled={saving}
+              className="h-10 rounded-xl bg-zinc-900 text-sm font-semibold text-white hover:bg-zinc-800 disabled:opacity-60 md:col-span-4"
+            >
+              {saving ? "Saving..." : "Add Blackout"}
+            </button>
+          </form>
+        </div>
+
+        <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+          <div className="mb-3 text-sm font-extrabold text-zinc-900">Preview</div>
+          {/* Keyed by the start month so picking a start date jumps the preview there. */}
+          <BlackoutPreview
+            key={dateKey.slice(0, 7)}
+            draft={draft}
+            existing={rows}
+            onToggleException={toggleException}
           />
-          {error ? <div className="text-sm text-red-600 md:col-span-5">{error}</div> : null}
-          <button
-            type="submit"
-            disabled={saving}
-            className="h-10 rounded-xl bg-zinc-900 text-sm font-semibold text-white hover:bg-zinc-800 disabled:opacity-60 md:col-span-5"
-          >
-            {saving ? "Saving..." : "Add Blackout"}
-          </button>
-        </form>
+        </div>
       </div>
 
       <div className="rounded-2xl border border-zinc-200 bg-white p-4">
@@ -139,20 +367,31 @@ export default function BlackoutsTable() {
             <table className="w-full text-sm">
               <thead className="text-left text-zinc-600">
                 <tr>
-                  <th className="py-2">Date</th>
-                  <th className="py-2">Start</th>
-                  <th className="py-2">End</th>
-                  <th className="py-2">Activity</th>
+                  <th className="py-2">When</th>
+                  <th className="py-2">Applies to</th>
+                  <th className="py-2">Skipped</th>
                   <th className="py-2">Reason</th>
                 </tr>
               </thead>
               <tbody>
                 {rows.map((r) => (
                   <tr key={r.id} className="border-t border-zinc-100">
-                    <td className="py-2">{r.date_key}</td>
-                    <td className="py-2">{r.start_min ?? "—"}</td>
-                    <td className="py-2">{r.end_min ?? "—"}</td>
-                    <td className="py-2">{r.activity}</td>
+                    <td className="py-2">{describeBlackoutRule(r)}</td>
+                    <td className="py-2">
+                      {r.resource_ids?.length
+                        ? r.resource_ids
+                            .map((id) => {
+                              const resource = resourceById.get(id);
+                              return resource ? resourceLabel(resource) : "Removed resource";
+                            })
+                            .join(", ")
+                        : r.activity}
+                    </td>
+                    <td className="py-2">
+                      {r.except_date_keys?.length
+                        ? r.except_date_keys.map((key) => formatDateKey(key, "medium")).join(", ")
+                        : "—"}
+                    </td>
                     <td className="py-2">{r.reason || "—"}</td>
                   </tr>
                 ))}
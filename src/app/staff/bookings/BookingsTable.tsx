@@ -4,7 +4,32 @@ import Link from "next/link";
 import { useSearchParams } from "next/navigation";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { loadStripeTerminal, type Terminal, type Reader } from "@stripe/terminal-js";
-import { totalCents, type Activity } from "@/lib/bookingLogic";
+import {
+  comboDurationsFromRow,
+  comboFirstFromOrder,
+  comboSegments,
+  totalCents,
+  type Activity,
+  type ComboSegmentDurations,
+} from "@/lib/bookingLogic";
+import { EMPTY_STORE_HOURS_CONFIG, resolveStoreHoursForDateKey, type StoreHoursConfig } from "@/lib/storeHours";
+import { DEFAULT_RATE_CARD_CONFIG, type RateCardConfig } from "@/lib/rateCard";
+import { balanceDueCents } from "@/lib/deposits";
+import { outstandingCents, splitShareCents, type BookingPayment } from "@/lib/bookingPayments";
+import LocationSelect from "@/components/LocationSelect";
+import {
+  DEFAULT_TIME_ZONE,
+  dateKeyFromLocalDate,
+  dateKeyInTimeZone,
+  formatDateKey,
+  formatInstant,
+  formatMinutesLabel,
+  localDateFromDateKey,
+  minutesInTimeZone,
+  minutesToTimeInput,
+  nowInTimeZone,
+  timeInputToMinutes,
+} from "@/lib/dateTime";
 
 type BookingRow = {
   id: string;
@@ -19,8 +44,13 @@ type BookingRow = {
   total_cents: number;
   payment_intent_id?: string | null;
   combo_order: string | null;
+  combo_axe_minutes?: number | null;
+  combo_duckpin_minutes?: number | null;
+  combo_transition_minutes?: number | null;
   status?: string | null;
   paid?: boolean | null;
+  deposit_cents?: number | null;
+  balance_due_cents?: number | null;
   notes?: string | null;
   assigned_staff_id?: string | null;
   tip_cents?: number | null;
@@ -31,6 +61,7 @@ type BookingRow = {
   waiver_on_file?: boolean | null;
   waiver_signed_for_booking?: boolean | null;
   waiver_token?: string | null;
+  series?: { id: string; index: number | null; name: string; occurrences: number } | null;
 };
 
 type ResourceRow = {
@@ -41,6 +72,8 @@ type ResourceRow = {
   sort_order?: number | null;
 };
 
+type DowntimeRow = { id: string; resource_id: string; start_ts: string; end_ts: string; reason: string };
+
 type ReservationRow = {
   id?: string;
   booking_id: string;
@@ -54,6 +87,12 @@ type EventRequestRow = {
   party_size: number | null;
 };
 
+type RefundQuote = {
+  totalCents: number;
+  allowedCents: number;
+  rule: string;
+};
+
 type StaffUserRow = {
   staff_id: string;
   full_name: string | null;
@@ -61,15 +100,6 @@ type StaffUserRow = {
   active?: boolean | null;
 };
 
-function fmtNY(iso: string | null) {
-  if (!iso) return "—";
-  return new Date(iso).toLocaleTimeString("en-US", {
-    timeZone: "America/New_York",
-    hour: "numeric",
-    minute: "2-digit",
-  });
-}
-
 const ACTIVITY_LABELS: Record<string, string> = {
   AXE: "Axe Throwing",
   DUCKPIN: "Duckpin Bowling",
@@ -88,24 +118,36 @@ function comboOrderLabel(order: string | null | undefined) {
   return order;
 }
 
+function seriesLabel(series: NonNullable<BookingRow["series"]>) {
+  const position = series.index ? ` · ${series.index}/${series.occurrences || "?"}` : "";
+  return `${series.name}${position}`;
+}
+
 function requiresWaiver(activity: string | null | undefined) {
   const key = String(activity || "").toUpperCase();
   return key.includes("AXE") || key.includes("COMBO");
 }
 
-function bookingPaymentLabel(status: string | null | undefined, paid: boolean | null | undefined) {
-  if ((status ?? "CONFIRMED") === "CANCELLED") return "CANCELLED";
-  return paid ? "BOOKING PAID" : "BOOKING UNPAID";
+type PaymentBadgeBooking = Pick<BookingRow, "status" | "paid" | "balance_due_cents" | "deposit_cents">;
+
+const PAYMENT_TENDER_LABELS: Record<string, string> = { CARD: "Card", CASH: "Cash", GIFT: "Gift certificate" };
+
+function bookingPaymentLabel(booking: PaymentBadgeBooking) {
+  if ((booking.status ?? "CONFIRMED") === "CANCELLED") return "CANCELLED";
+  if (balanceDueCents(booking) > 0) return Number(booking.deposit_cents || 0) > 0 ? "DEPOSIT PAID" : "PART PAID";
+  return booking.paid ? "BOOKING PAID" : "BOOKING UNPAID";
 }
 
-function bookingPaymentBadge(status: string | null | undefined, paid: boolean | null | undefined, className?: string) {
-  const label = bookingPaymentLabel(status, paid);
+function bookingPaymentBadge(booking: PaymentBadgeBooking, className?: string) {
+  const label = bookingPaymentLabel(booking);
   const style =
     label === "BOOKING PAID"
       ? "bg-emerald-100 text-emerald-800 border-emerald-200"
-      : label === "BOOKING UNPAID"
-        ? "bg-red-100 text-red-800 border-red-200"
-        : "bg-zinc-100 text-zinc-700 border-zinc-200";
+      : label === "DEPOSIT PAID" || label === "PART PAID"
+        ? "bg-sky-100 text-sky-800 border-sky-200"
+        : label === "BOOKING UNPAID"
+          ? "bg-red-100 text-red-800 border-red-200"
+          : "bg-zinc-100 text-zinc-700 border-zinc-200";
   return (
     <span className={`inline-flex items-center rounded-full border px-2 py-0.5 text-[10px] font-semibold ${style} ${className ?? ""}`}>
       {label}
@@ -128,118 +170,12 @@ function tabPaymentBadge(tabStatus: string | null | undefined, className?: strin
   );
 }
 
-function todayDateKeyNY(): string {
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(new Date());
-}
-
-function toDateKey(d: Date) {
-  const yyyy = d.getFullYear();
-  const mm = String(d.getMonth() + 1).padStart(2, "0");
-  const dd = String(d.getDate()).padStart(2, "0");
-  return `${yyyy}-${mm}-${dd}`;
-}
-
-function fromDateKey(dateKey: string) {
-  const [y, m, d] = dateKey.split("-").map(Number);
-  return new Date(y, (m ?? 1) - 1, d ?? 1);
-}
-
-function prettyDate(dateKey: string) {
-  const d = fromDateKey(dateKey);
-  return d.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", year: "numeric" });
-}
-
-function dateKeyFromIsoNY(iso: string | null) {
-  if (!iso) return null;
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(new Date(iso));
-}
-
-function minutesFromLabel(label: string | null) {
-  if (!label || label === "—") return null;
-  const m = label.match(/^(\d{1,2}):(\d{2})\s?(AM|PM)$/i);
-  if (!m) return null;
-  let h = Number(m[1]);
-  const min = Number(m[2]);
-  const ap = m[3].toUpperCase();
-  if (ap === "PM" && h !== 12) h += 12;
-  if (ap === "AM" && h === 12) h = 0;
-  return h * 60 + min;
-}
-
-function minutesFromIsoNY(iso: string | null) {
-  if (!iso) return null;
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/New_York",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).formatToParts(new Date(iso));
-  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? "0");
-  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? "0");
-  return hour * 60 + minute;
-}
-
-function minutesToLabel(mins: number) {
-  const h = Math.floor(mins / 60);
-  const m = mins % 60;
-  const d = new Date();
-  d.setHours(h, m, 0, 0);
-  return d.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
-}
-
-function minutesToTimeInput(mins: number | null) {
-  if (!Number.isFinite(mins as number)) return "";
-  const total = Math.max(0, Math.floor(mins as number));
-  const h = Math.floor(total / 60) % 24;
-  const m = total % 60;
-  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
-}
-
-function timeInputToMinutes(value: string) {
-  const match = value.match(/^(\d{1,2}):(\d{2})$/);
-  if (!match) return null;
-  const h = Number(match[1]);
-  const m = Number(match[2]);
-  if (!Number.isFinite(h) || !Number.isFinite(m)) return null;
-  if (h < 0 || h > 23 || m < 0 || m > 59) return null;
-  return h * 60 + m;
-}
-
-function timeRangeLabel(startMin: number, durationMinutes: number) {
-  const endMin = startMin + durationMinutes;
-  return `${minutesToLabel(startMin)} – ${minutesToLabel(endMin)}`;
+function dateKeyFromIso(iso: string | null | undefined, timeZone: string) {
+  return iso ? dateKeyInTimeZone(iso, timeZone) : null;
 }
 
-function nowMinutesNY() {
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/New_York",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).formatToParts(new Date());
-  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? "0");
-  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? "0");
-  return hour * 60 + minute;
-}
-
-function weekdayNY(dateKey: string) {
-  const [y, m, d] = dateKey.split("-").map(Number);
-  const utc = Date.UTC(y, (m ?? 1) - 1, d ?? 1, 12, 0, 0);
-  const label = new Intl.DateTimeFormat("en-US", { timeZone: "America/New_York", weekday: "short" }).format(
-    new Date(utc)
-  );
-  const map: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
-  return map[label] ?? 0;
+function minutesFromIso(iso: string | null | undefined, timeZone: string) {
+  return iso ? minutesInTimeZone(iso, timeZone) : null;
 }
 
 function hourLabel(hour: number) {
@@ -259,30 +195,29 @@ const COMPACT_MIN_COL_WIDTH = 64;
 const COMPACT_TIME_GUTTER = 48;
 const COMPACT_HEADER_HEIGHT = 40;
 const BLOCK_INSET_PX = 0;
-const CLOSED_WEEKDAYS = new Set([1, 2, 3]);
 
-function getOpenWindowForDateKey(dateKey: string): { openMin: number; closeMin: number } | null {
+// Staff can book closed days, so closed dates still return their admin override window.
+function getOpenWindowForDateKey(
+  storeHours: StoreHoursConfig,
+  dateKey: string
+): { openMin: number; closeMin: number } | null {
   if (!dateKey) return null;
-  const day = weekdayNY(dateKey); // Sun=0
-  if (CLOSED_WEEKDAYS.has(day)) return { openMin: 12 * 60, closeMin: 20 * 60 }; // Mon-Wed 12pm-8pm
-  if (day === 4) return { openMin: 16 * 60, closeMin: 22 * 60 }; // Thu 4pm-10pm
-  if (day === 5) return { openMin: 16 * 60, closeMin: 23 * 60 }; // Fri 4pm-11pm
-  if (day === 6) return { openMin: 12 * 60, closeMin: 23 * 60 }; // Sat 12pm-11pm
-  if (day === 0) return { openMin: 12 * 60, closeMin: 21 * 60 }; // Sun 12pm-9pm
-  return null;
+  const hours = resolveStoreHoursForDateKey(storeHours, dateKey);
+  return { openMin: hours.openMin, closeMin: hours.closeMin };
 }
 
 function MonthCalendar(props: {
   selectedDateKey: string;
   onSelectDateKey: (dateKey: string) => void;
+  timeZone: string;
   allowPast?: boolean;
 }) {
-  const { selectedDateKey, onSelectDateKey, allowPast = false } = props;
+  const { selectedDateKey, onSelectDateKey, timeZone, allowPast = false } = props;
   const [cursor, setCursor] = useState(() => {
-    const base = selectedDateKey ? fromDateKey(selectedDateKey) : new Date();
+    const base = selectedDateKey ? localDateFromDateKey(selectedDateKey) : new Date();
     return new Date(base.getFullYear(), base.getMonth(), 1);
   });
-  const todayKey = todayDateKeyNY();
+  const todayKey = nowInTimeZone(timeZone).dateKey;
 
   const monthLabel = cursor.toLocaleDateString("en-US", { month: "long", year: "numeric" });
 
@@ -337,7 +272,7 @@ function MonthCalendar(props: {
         {days.map((cell, idx) => {
           if (!cell.date) return <div key={idx} className="h-9 rounded-xl bg-transparent sm:h-10" />;
 
-          const dk = toDateKey(cell.date);
+          const dk = dateKeyFromLocalDate(cell.date);
           const selected = selectedDateKey === dk;
           const isPast = dk < todayKey;
           const disabled = !allowPast && isPast;
@@ -374,7 +309,13 @@ export default function BookingsTable() {
   const [q, setQ] = useState("");
   const [actionLoadingId, setActionLoadingId] = useState<string | null>(null);
   const [order, setOrder] = useState<"upcoming" | "newest">("upcoming");
-  const [selectedDateKey, setSelectedDateKey] = useState(() => todayDateKeyNY());
+  // Empty = the staff member's home site (or the default location).
+  const [locationId, setLocationId] = useState("");
+  const locationQuery = locationId ? `location=${encodeURIComponent(locationId)}` : "";
+  const [timeZone, setTimeZone] = useState<string>(DEFAULT_TIME_ZONE); // the location's, from /api/staff/bookings
+  const [selectedDateKey, setSelectedDateKey] = useState(() => nowInTimeZone().dateKey);
+  const [storeHours, setStoreHours] = useState<StoreHoursConfig>(EMPTY_STORE_HOURS_CONFIG);
+  const [rateCard, setRateCard] = useState<RateCardConfig>(DEFAULT_RATE_CARD_CONFIG);
   const [isClient, setIsClient] = useState(false);
   const scheduleWrapRef = useRef<HTMLDivElement | null>(null);
   const [scheduleWidth, setScheduleWidth] = useState<number | null>(null);
@@ -393,6 +334,7 @@ export default function BookingsTable() {
   const [editActivity, setEditActivity] = useState("");
   const [editDuration, setEditDuration] = useState(60);
   const [editComboOrder, setEditComboOrder] = useState<string | null>(null);
+  const [editComboDurations, setEditComboDurations] = useState<ComboSegmentDurations>({});
   const [editDateKey, setEditDateKey] = useState("");
   const [editStartMin, setEditStartMin] = useState<number | null>(null);
   const [editBlockedStartMins, setEditBlockedStartMins] = useState<number[]>([]);
@@ -408,6 +350,14 @@ export default function BookingsTable() {
   const [partyEditEnd, setPartyEditEnd] = useState("");
   const [partyEditError, setPartyEditError] = useState("");
   const [partyEditLoading, setPartyEditLoading] = useState(false);
+  const [downtime, setDowntime] = useState<DowntimeRow[]>([]);
+  const [downtimeResource, setDowntimeResource] = useState<ResourceRow | null>(null);
+  const [downtimeStart, setDowntimeStart] = useState("");
+  const [downtimeEnd, setDowntimeEnd] = useState("");
+  const [downtimeReason, setDowntimeReason] = useState("");
+  const [downtimeError, setDowntimeError] = useState("");
+  const [downtimeLoading, setDowntimeLoading] = useState(false);
+  const [downtimeNotice, setDowntimeNotice] = useState("");
   const [editAssignedStaffId, setEditAssignedStaffId] = useState("");
   const [editSnapshot, setEditSnapshot] = useState<{
     activity: string;
@@ -427,6 +377,9 @@ export default function BookingsTable() {
   const [refundReason, setRefundReason] = useState("");
   const [refundManagerId, setRefundManagerId] = useState("");
   const [refundManagerPin, setRefundManagerPin] = useState("");
+  const [refundQuote, setRefundQuote] = useState<RefundQuote | null>(null);
+  const [refundOverrideReason, setRefundOverrideReason] = useState("");
+  const [refundMethod, setRefundMethod] = useState<"CARD" | "CREDIT">("CARD");
   const [refundLoading, setRefundLoading] = useState(false);
   const [refundError, setRefundError] = useState("");
   const [resendLoadingId, setResendLoadingId] = useState<string | null>(null);
@@ -435,7 +388,8 @@ export default function BookingsTable() {
   const [highlightBookingId, setHighlightBookingId] = useState<string | null>(null);
   const highlightTimerRef = useRef<number | null>(null);
   const [payModalBookingId, setPayModalBookingId] = useState<string | null>(null);
-  const [payLoading, setPayLoading] = useState<"cash" | "card" | "gift" | null>(null);
+  const [payLoading, setPayLoading] = useState<"cash" | "card" | "gift" | "link" | null>(null);
+  const [payLinkStatus, setPayLinkStatus] = useState("");
   const [payError, setPayError] = useState("");
   const [payGiftCode, setPayGiftCode] = useState("");
   const [payGiftApplied, setPayGiftApplied] = useState<{
@@ -449,8 +403,16 @@ export default function BookingsTable() {
   const [payCustomAmount, setPayCustomAmount] = useState("");
   const [payGiftStatus, setPayGiftStatus] = useState("");
   const [payGiftLoading, setPayGiftLoading] = useState(false);
+  const [payLedger, setPayLedger] = useState<{ payments: BookingPayment[]; remainingCents: number } | null>(null);
+  const [paySplitWays, setPaySplitWays] = useState("");
+  const [payPartAmount, setPayPartAmount] = useState("");
+  const [payPartStatus, setPayPartStatus] = useState("");
+  // One key per cash payment: a retried request reuses it and cash-pay won't record the payment twice.
+  const [payCashKey, setPayCashKey] = useState("");
+  // Same for refunds: a retried refund request reuses its key and Stripe returns the refund already made.
+  const [refundKey, setRefundKey] = useState("");
   const [compactMode, setCompactMode] = useState(false);
-  const todayKey = todayDateKeyNY();
+  const todayKey = nowInTimeZone(timeZone).dateKey;
   const [staffUsers, setStaffUsers] = useState<StaffUserRow[]>([]);
   const reservationsByBookingId = useMemo(() => {
     const set = new Set<string>();
@@ -487,12 +449,15 @@ export default function BookingsTable() {
 
   async function loadBookings(nextOrder: "upcoming" | "newest") {
     setLoading(true);
-    const res = await fetch(`/api/staff/bookings?order=${nextOrder}`, { cache: "no-store" });
+    const res = await fetch(`/api/staff/bookings?order=${nextOrder}${locationQuery ? `&${locationQuery}` : ""}`, {
+      cache: "no-store",
+    });
     const json = await res.json();
     setRows(json.bookings || []);
     setResources(json.resources || []);
     setReservations(json.reservations || []);
     setEventRequests(json.eventRequests || []);
+    if (json.timeZone) setTimeZone(json.timeZone);
     setLoading(false);
   }
 
@@ -541,7 +506,15 @@ export default function BookingsTable() {
     setRefundReason("");
     setRefundManagerId("");
     setRefundManagerPin("");
+    setRefundQuote(null);
+    setRefundOverrideReason("");
+    setRefundMethod("CARD");
     setRefundError("");
+    setRefundKey(crypto.randomUUID());
+    fetch(`/api/staff/bookings/${booking.id}/refund`, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => setRefundQuote(json?.quote ?? null))
+      .catch(() => setRefundQuote(null));
   }
 
   function closeRefund() {
@@ -550,6 +523,9 @@ export default function BookingsTable() {
     setRefundReason("");
     setRefundManagerId("");
     setRefundManagerPin("");
+    setRefundQuote(null);
+    setRefundOverrideReason("");
+    setRefundMethod("CARD");
     setRefundError("");
   }
 
@@ -561,11 +537,63 @@ export default function BookingsTable() {
     setPayGiftCode("");
     setPayGiftApplied(null);
     setPayGiftStatus("");
+    setPayLedger(null);
+    setPaySplitWays("");
+    setPayPartAmount("");
+    setPayPartStatus("");
+    setPayCashKey(crypto.randomUUID());
+    void loadPayLedger(bookingId);
     if (!terminalReaders.length) {
       void loadReaders();
     }
   }
 
+  /** What the next tender covers: an even share of a split or a typed part amount; no amount_cents pays it all. */
+  function payPartFields(): { amount_cents?: number; split_index?: number; split_count?: number } {
+    const booking = payModalBookingId ? bookingById.get(payModalBookingId) : null;
+    if (!booking || payOverrideCents != null || payGiftApplied) return {};
+    const remainingCents = payLedger?.remainingCents ?? outstandingCents(booking);
+    const ways = Math.floor(Number(paySplitWays) || 0);
+    if (ways > 1) {
+      const sharesPaid = (payLedger?.payments ?? []).filter((payment) => payment.split_count === ways).length;
+      const amountCents = splitShareCents(remainingCents, ways - sharesPaid);
+      const split = { split_index: Math.min(ways, sharesPaid + 1), split_count: ways };
+      return amountCents < remainingCents ? { amount_cents: amountCents, ...split } : split;
+    }
+    const amountCents = Math.round(Number(payPartAmount) * 100);
+    return amountCents > 0 && amountCents < remainingCents ? { amount_cents: amountCents } : {};
+  }
+
+  function splitCardFields() {
+    const part = payPartFields();
+    return {
+      split_amount_cents: part.amount_cents,
+      split_index: part.split_index,
+      split_count: part.split_count,
+    };
+  }
+
+  async function loadPayLedger(bookingId: string) {
+    try {
+      const res = await fetch(`/api/staff/bookings/${bookingId}/payments`, { cache: "no-store" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) return;
+      setPayLedger({ payments: json.payments || [], remainingCents: Number(json.remaining_cents || 0) });
+    } catch (err) {
+      console.error("booking payments load error:", err);
+    }
+  }
+
+  /** After one part of a split bill: refresh the list and the ledger, and keep the modal open for the next tender. */
+  async function afterPartPayment(bookingId: string, label: string) {
+    setPayPartAmount("");
+    setPayGiftCode("");
+    setPayGiftApplied(null);
+    setPayGiftStatus("");
+    await Promise.all([loadBookings(order), loadPayLedger(bookingId)]);
+    setPayPartStatus(`${label} recorded.`);
+  }
+
   function closePayModal() {
     setPayModalBookingId(null);
     setPayLoading(null);
@@ -579,6 +607,11 @@ export default function BookingsTable() {
     setPayOverrideTotalCents(null);
     setPayCustomAmountOpen(false);
     setPayCustomAmount("");
+    setPayLinkStatus("");
+    setPayLedger(null);
+    setPaySplitWays("");
+    setPayPartAmount("");
+    setPayPartStatus("");
   }
 
   function initResourceAssignments(bookingId: string) {
@@ -606,7 +639,7 @@ export default function BookingsTable() {
         ? payOverrideCents
         : payOverrideTotalCents != null && Number.isFinite(payOverrideTotalCents)
           ? payOverrideTotalCents
-          : booking.total_cents;
+          : balanceDueCents(booking) || booking.total_cents;
     setPayGiftLoading(true);
     setPayGiftStatus("");
     try {
@@ -629,7 +662,7 @@ export default function BookingsTable() {
       setPayGiftApplied({
         code: json.gift.code,
         amountOffCents: json.amount_off_cents ?? 0,
-        remainingCents: json.total_cents ?? booking.total_cents,
+        remainingCents: json.total_cents ?? amountBase,
       });
       setPayGiftStatus("Gift certificate applied.");
     } catch (err: any) {
@@ -643,6 +676,7 @@ export default function BookingsTable() {
   async function payWithCash(bookingId: string) {
     setPayLoading("cash");
     setPayError("");
+    setPayPartStatus("");
     try {
       const res = await fetch(`/api/staff/bookings/${bookingId}/cash-pay`, {
         method: "POST",
@@ -652,6 +686,8 @@ export default function BookingsTable() {
           gift_code: payGiftApplied?.code || "",
           amount_override_cents: payOverrideCents ?? undefined,
           booking_total_cents_new: payOverrideTotalCents ?? undefined,
+          idempotency_key: payCashKey,
+          ...payPartFields(),
         }),
       });
       const json = await res.json().catch(() => ({}));
@@ -659,6 +695,11 @@ export default function BookingsTable() {
         setPayError(json?.error || "Failed to mark booking paid.");
         return;
       }
+      setPayCashKey(crypto.randomUUID());
+      if (Number(json?.remaining_cents) > 0) {
+        await afterPartPayment(bookingId, "Cash payment");
+        return;
+      }
       await loadBookings(order);
       closePayModal();
     } catch (err: any) {
@@ -686,6 +727,10 @@ export default function BookingsTable() {
         setPayError(json?.error || "Failed to apply gift certificate.");
         return;
       }
+      if (Number(json?.remaining_cents) > 0) {
+        await afterPartPayment(bookingId, "Gift certificate");
+        return;
+      }
       await loadBookings(order);
       closePayModal();
     } catch (err: any) {
@@ -695,6 +740,30 @@ export default function BookingsTable() {
     }
   }
 
+  async function sendPaymentLink(bookingId: string) {
+    setPayLoading("link");
+    setPayError("");
+    setPayLinkStatus("");
+    try {
+      const res = await fetch(`/api/staff/bookings/${bookingId}/payment-link`, { method: "POST" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json?.paymentUrl) {
+        setPayError(json?.error || "Failed to create payment link.");
+        return;
+      }
+      const amount = `$${(Number(json.amountCents || 0) / 100).toFixed(2)}`;
+      setPayLinkStatus(
+        json.emailSent
+          ? `Payment link for ${amount} emailed to the customer.`
+          : `Payment link for ${amount}: ${json.paymentUrl}`
+      );
+    } catch (err: any) {
+      setPayError(err?.message || "Failed to create payment link.");
+    } finally {
+      setPayLoading(null);
+    }
+  }
+
   async function payWithCard(bookingId: string) {
     setPayLoading("card");
     setPayError("");
@@ -728,6 +797,7 @@ export default function BookingsTable() {
           gift_code: payGiftApplied?.code || "",
           amount_override_cents: payOverrideCents ?? undefined,
           booking_total_cents_new: payOverrideTotalCents ?? undefined,
+          ...splitCardFields(),
           booking_snapshot: bookingSnapshot
             ? {
               total_cents: bookingSnapshot.total_cents,
@@ -794,6 +864,10 @@ export default function BookingsTable() {
         return;
       }
 
+      if (payPartFields().amount_cents) {
+        await afterPartPayment(bookingId, "Card share");
+        return;
+      }
       setRows((prev) => prev.map((row) => (row.id === bookingId ? { ...row, paid: true } : row)));
       closePayModal();
     } catch (err: any) {
@@ -843,6 +917,10 @@ export default function BookingsTable() {
       setRefundError("Enter a valid refund amount.");
       return;
     }
+    if (refundOverPolicy && !refundOverrideReason.trim()) {
+      setRefundError("Give a reason for overriding the refund policy.");
+      return;
+    }
 
     setRefundLoading(true);
     setRefundError("");
@@ -853,12 +931,17 @@ export default function BookingsTable() {
         body: JSON.stringify({
           reason: refundReason.trim(),
           amount_cents: amountCents,
+          override_reason: refundOverPolicy ? refundOverrideReason.trim() : "",
+          method: refundMethod,
           manager_staff_id: refundManagerId.trim(),
           manager_pin: refundManagerPin.trim(),
+          idempotency_key: refundKey,
         }),
       });
       const json = await res.json().catch(() => ({}));
       if (!res.ok) {
+        // The server answered, so a new attempt (maybe with another amount) is a new refund request.
+        setRefundKey(crypto.randomUUID());
         setRefundError(json?.error || "Failed to issue refund.");
         return;
       }
@@ -955,8 +1038,8 @@ export default function BookingsTable() {
     if (waiverLoadingId === booking.id) return;
     setWaiverLoadingId(booking.id);
     try {
-      const dateKey = dateKeyFromIsoNY(booking.start_ts);
-      const startMin = minutesFromIsoNY(booking.start_ts);
+      const dateKey = dateKeyFromIso(booking.start_ts, timeZone);
+      const startMin = minutesFromIso(booking.start_ts, timeZone);
       let durationMinutes = Number(booking.duration_minutes || 0);
       if (!durationMinutes && booking.start_ts && booking.end_ts) {
         const start = new Date(booking.start_ts).getTime();
@@ -999,9 +1082,9 @@ export default function BookingsTable() {
       alert("This party block cannot be edited yet. Please repair the booking block first.");
       return;
     }
-    const dk = dateKeyFromIsoNY(resv.start_ts) || todayKey;
-    const startMin = minutesFromIsoNY(resv.start_ts);
-    const endMin = minutesFromIsoNY(resv.end_ts);
+    const dk = dateKeyFromIso(resv.start_ts, timeZone) || todayKey;
+    const startMin = minutesFromIso(resv.start_ts, timeZone);
+    const endMin = minutesFromIso(resv.end_ts, timeZone);
     setPartyEditReservation(resv);
     setPartyEditDateKey(dk);
     setPartyEditStart(minutesToTimeInput(startMin));
@@ -1041,16 +1124,123 @@ export default function BookingsTable() {
     }
   }
 
+  async function loadDowntime() {
+    const params = new URLSearchParams({ dateKey: selectedDateKey });
+    if (locationId) params.set("location", locationId);
+    const res = await fetch(`/api/staff/resource-downtime?${params.toString()}`, { cache: "no-store" });
+    const json = await res.json().catch(() => ({}));
+    setDowntime(res.ok ? json.downtime || [] : []);
+  }
+
+  function openDowntime(resource: ResourceRow) {
+    const hours = getOpenWindowForDateKey(storeHours, selectedDateKey);
+    setDowntimeResource(resource);
+    setDowntimeStart(minutesToTimeInput(hours?.openMin ?? 12 * 60));
+    setDowntimeEnd(minutesToTimeInput(hours?.closeMin ?? 18 * 60));
+    setDowntimeReason("");
+    setDowntimeError("");
+  }
+
+  async function saveDowntime() {
+    if (!downtimeResource) return;
+    const startMin = timeInputToMinutes(downtimeStart);
+    const endMin = timeInputToMinutes(downtimeEnd);
+    if (startMin == null || endMin == null || endMin <= startMin) {
+      setDowntimeError("Enter a valid time range.");
+      return;
+    }
+    if (!downtimeReason.trim()) {
+      setDowntimeError("Add a reason.");
+      return;
+    }
+    setDowntimeLoading(true);
+    setDowntimeError("");
+    try {
+      const res = await fetch("/api/staff/resource-downtime", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          resourceId: downtimeResource.id,
+          dateKey: selectedDateKey,
+          startMin,
+          endMin,
+          reason: downtimeReason.trim(),
+          locationId: locationId || undefined,
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setDowntimeError(json?.error || "Failed to take resource out of service.");
+        return;
+      }
+      const moved = (json.movedBookingIds || []).length;
+      const stranded = (json.strandedBookingIds || []).length;
+      const label = downtimeResource.name || "Resource";
+      const strandedText = stranded === 1 ? "1 booking needs" : `${stranded} bookings need`;
+      setDowntimeNotice(
+        `${label} is out of service.` +
+          (moved ? ` Moved ${moved} booking${moved === 1 ? "" : "s"} to another resource.` : "") +
+          (stranded ? ` ${strandedText} a new spot (outlined in red).` : "")
+      );
+      setDowntimeResource(null);
+      await Promise.all([loadBookings(order), loadDowntime()]);
+    } finally {
+      setDowntimeLoading(false);
+    }
+  }
+
+  async function removeDowntime(id: string) {
+    if (!window.confirm("Put this resource back in service?")) return;
+    const res = await fetch(`/api/staff/resource-downtime/${id}${locationQuery ? `?${locationQuery}` : ""}`, {
+      method: "DELETE",
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      alert(json?.error || "Failed to remove downtime.");
+      return;
+    }
+    setDowntimeNotice("");
+    await loadDowntime();
+  }
+
+  useEffect(() => {
+    void loadDowntime();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedDateKey, locationId]);
+
   useEffect(() => {
     loadBookings(order);
-  }, [order]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [order, locationId]);
+
+  useEffect(() => {
+    let mounted = true;
+    fetch(`/api/store-hours${locationQuery ? `?${locationQuery}` : ""}`, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (!mounted || !json?.hours) return;
+        setStoreHours(json.hours as StoreHoursConfig);
+      })
+      .catch(() => {});
+    fetch(`/api/rate-card${locationQuery ? `?${locationQuery}` : ""}`, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (!mounted || !json?.rateCard?.config) return;
+        setRateCard(json.rateCard.config as RateCardConfig);
+      })
+      .catch(() => {});
+    return () => {
+      mounted = false;
+    };
+  }, [locationQuery]);
 
   useEffect(() => {
     const interval = setInterval(() => {
       void loadBookings(order);
     }, 2 * 60 * 1000);
     return () => clearInterval(interval);
-  }, [order]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [order, locationId]);
 
   useEffect(() => {
     function onFocus() {
@@ -1067,7 +1257,8 @@ export default function BookingsTable() {
       window.removeEventListener("focus", onFocus);
       document.removeEventListener("visibilitychange", onVisibility);
     };
-  }, [order]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [order, locationId]);
 
   useEffect(() => {
     setIsClient(true);
@@ -1100,7 +1291,7 @@ export default function BookingsTable() {
     if (!targetBookingId) return;
     const booking = rows.find((row) => row.id === targetBookingId);
     if (!booking) return;
-    const dk = dateKeyFromIsoNY(booking.start_ts);
+    const dk = dateKeyFromIso(booking.start_ts, timeZone);
     if (dk && dk !== selectedDateKey) {
       setSelectedDateKey(dk);
     }
@@ -1121,7 +1312,7 @@ export default function BookingsTable() {
     highlightTimerRef.current = window.setTimeout(() => {
       setHighlightBookingId((prev) => (prev === targetBookingId ? null : prev));
     }, 8000);
-  }, [searchParams, rows, selectedDateKey]);
+  }, [searchParams, rows, selectedDateKey, timeZone]);
 
   useEffect(() => {
     fetch("/api/staff/me")
@@ -1193,16 +1384,17 @@ export default function BookingsTable() {
   const filtered = useMemo(() => {
     const s = q.trim().toLowerCase();
     const byDate = rows.filter(
-      (r) => dateKeyFromIsoNY(r.start_ts) === selectedDateKey && (r.status ?? "CONFIRMED") !== "CANCELLED"
+      (r) => dateKeyFromIso(r.start_ts, timeZone) === selectedDateKey && (r.status ?? "CONFIRMED") !== "CANCELLED"
     );
     if (!s) return byDate;
     return byDate.filter((r) =>
       (r.customer_name || "").toLowerCase().includes(s) ||
       (r.customer_email || "").toLowerCase().includes(s) ||
       activityLabel(r.activity).toLowerCase().includes(s) ||
+      (r.series?.name || "").toLowerCase().includes(s) ||
       r.id.toLowerCase().includes(s)
     );
-  }, [rows, q, selectedDateKey]);
+  }, [rows, q, selectedDateKey, timeZone]);
 
   const bookingById = useMemo(() => {
     const m = new Map<string, BookingRow>();
@@ -1228,11 +1420,12 @@ export default function BookingsTable() {
       setEditActivity(activityLabel(booking.activity) || "");
       setEditDuration(booking.duration_minutes || 60);
       setEditComboOrder(booking.combo_order || null);
+      setEditComboDurations(comboDurationsFromRow(booking));
       setEditNotes(booking.notes || "");
       setEditAssignedStaffId(booking.assigned_staff_id || "");
-      const dk = dateKeyFromIsoNY(booking.start_ts) || todayKey;
+      const dk = dateKeyFromIso(booking.start_ts, timeZone) || todayKey;
       setEditDateKey(dk);
-      const startMin = minutesFromIsoNY(booking.start_ts);
+      const startMin = minutesFromIso(booking.start_ts, timeZone);
       setEditStartMin(startMin);
       setEditBlockedStartMins([]);
       setEditSnapshot({
@@ -1257,6 +1450,7 @@ export default function BookingsTable() {
     setEditActivity("");
     setEditDuration(60);
     setEditComboOrder(null);
+    setEditComboDurations({});
     setEditDateKey(todayKey);
     setEditStartMin(null);
     setEditBlockedStartMins([]);
@@ -1275,12 +1469,13 @@ export default function BookingsTable() {
       setEditActivity(activityLabel(b?.activity) || "");
       setEditDuration(b?.duration_minutes || 60);
       setEditComboOrder(b?.combo_order || null);
+      setEditComboDurations(comboDurationsFromRow(b));
       setEditNotes(b?.notes || "");
       setEditAssignedStaffId(b?.assigned_staff_id || "");
       setEditTotal(((Number(b?.total_cents || 0) || 0) / 100).toFixed(2));
-      const dk = dateKeyFromIsoNY(b?.start_ts) || todayKey;
+      const dk = dateKeyFromIso(b?.start_ts, timeZone) || todayKey;
       setEditDateKey(dk);
-      const startMin = minutesFromIsoNY(b?.start_ts);
+      const startMin = minutesFromIso(b?.start_ts, timeZone);
       setEditStartMin(startMin);
       setEditSnapshot({
         activity: activityLabel(b?.activity) || "",
@@ -1358,7 +1553,7 @@ export default function BookingsTable() {
       const partySizeIncreased =
         !!editingRow && editingRow.paid === true && editPartySize > (editingRow.party_size || 0);
       const recalculatedTotalCents = partySizeIncreased
-        ? totalCents(editActivity as Activity, editPartySize || 1, editDuration)
+        ? totalCents(editActivity as Activity, editPartySize || 1, editDuration, undefined, rateCard)
         : undefined;
       const totalCentsOverride =
         partySizeIncreased && recalculatedTotalCents && recalculatedTotalCents > previousTotalCents
@@ -1483,7 +1678,7 @@ export default function BookingsTable() {
       setEditAvailabilityLoading(false);
       return;
     }
-    const openWindow = getOpenWindowForDateKey(editDateKey);
+    const openWindow = getOpenWindowForDateKey(storeHours, editDateKey);
     if (!openWindow) {
       setEditBlockedStartMins([]);
       setEditAvailabilityLoading(false);
@@ -1501,10 +1696,12 @@ export default function BookingsTable() {
         partySize: editPartySize || 1,
         dateKey: editDateKey,
         durationMinutes: editDuration,
-        openStartMin: openWindow.openMin,
-        openEndMin: openWindow.closeMin,
         slotIntervalMin: editDuration === 15 ? 15 : 30,
         order: editActivity === "Combo Package" ? (editComboOrder === "AXE_FIRST" ? "AXE_FIRST" : "DUCKPIN_FIRST") : undefined,
+        // Reschedules keep the booked segment lengths (60/60 for older combos).
+        comboAxeMinutes: editActivity === "Combo Package" ? editComboDurations.axeMinutes ?? 60 : undefined,
+        comboDuckpinMinutes: editActivity === "Combo Package" ? editComboDurations.duckpinMinutes ?? 60 : undefined,
+        locationId: locationId || undefined,
       }),
     })
       .then((res) => res.json())
@@ -1516,7 +1713,17 @@ export default function BookingsTable() {
       .finally(() => setEditAvailabilityLoading(false));
 
     return () => controller.abort();
-  }, [editingBookingId, editActivity, editPartySize, editDateKey, editDuration, editComboOrder]);
+  }, [
+    storeHours,
+    editingBookingId,
+    editActivity,
+    editPartySize,
+    editDateKey,
+    editDuration,
+    editComboOrder,
+    editComboDurations,
+    locationId,
+  ]);
 
   const editDurationOptions = useMemo(() => {
     const base =
@@ -1538,14 +1745,14 @@ export default function BookingsTable() {
 
   useEffect(() => {
     if (!editDateKey || editStartMin == null) return;
-    const openWindow = getOpenWindowForDateKey(editDateKey);
+    const openWindow = getOpenWindowForDateKey(storeHours, editDateKey);
     if (!openWindow) return;
     const lastStart = openWindow.closeMin - editDuration;
     if (editStartMin > lastStart) {
       const nextStart = lastStart >= openWindow.openMin ? lastStart : null;
       if (nextStart !== editStartMin) setEditStartMin(nextStart);
     }
-  }, [editDateKey, editDuration, editStartMin]);
+  }, [storeHours, editDateKey, editDuration, editStartMin]);
 
   const editDirty =
     !!editSnapshot &&
@@ -1590,7 +1797,7 @@ export default function BookingsTable() {
 
   const reservationsForDay = useMemo(() => {
     const filtered = reservations.filter((r) => {
-      if (dateKeyFromIsoNY(r.start_ts) !== selectedDateKey) return false;
+      if (dateKeyFromIso(r.start_ts, timeZone) !== selectedDateKey) return false;
       const booking = bookingById.get(r.booking_id);
       return (booking?.status ?? "CONFIRMED") !== "CANCELLED";
     });
@@ -1626,8 +1833,31 @@ export default function BookingsTable() {
     for (const booking of bookingById.values()) {
       if (!booking?.id) continue;
       if (existingByBooking.has(booking.id)) continue;
-      if (dateKeyFromIsoNY(booking.start_ts) !== selectedDateKey) continue;
+      if (dateKeyFromIso(booking.start_ts, timeZone) !== selectedDateKey) continue;
       if ((booking.status ?? "CONFIRMED") === "CANCELLED") continue;
+      if (String(booking.activity || "").toUpperCase() === "COMBO") {
+        // Show each combo segment on its own lane for its real time.
+        const segments = comboSegments(
+          booking.start_ts,
+          comboFirstFromOrder(booking.combo_order),
+          comboDurationsFromRow(booking)
+        );
+        for (const [type, segment] of [
+          ["AXE", segments.axe],
+          ["DUCKPIN", segments.duckpin],
+        ] as const) {
+          const resourceId = pickResource(type, segment.start, segment.end);
+          if (!resourceId) continue;
+          synthetic.push({
+            id: `synthetic-${booking.id}-${type}`,
+            booking_id: booking.id,
+            resource_id: resourceId,
+            start_ts: segment.start,
+            end_ts: segment.end,
+          } as ReservationRow);
+        }
+        continue;
+      }
       const resourceId = pickResource(booking.activity, booking.start_ts, booking.end_ts);
       if (!resourceId) continue;
       synthetic.push({
@@ -1640,7 +1870,7 @@ export default function BookingsTable() {
     }
 
     return [...filtered, ...synthetic];
-  }, [reservations, selectedDateKey, bookingById, resourceColumns]);
+  }, [reservations, selectedDateKey, bookingById, resourceColumns, timeZone]);
 
   const bookingColorById = useMemo(() => {
     const palette = [
@@ -1726,7 +1956,7 @@ export default function BookingsTable() {
 
   if (loading) return <div className="text-sm text-zinc-600">Loading bookings…</div>;
 
-  const openWindow = getOpenWindowForDateKey(selectedDateKey);
+  const openWindow = getOpenWindowForDateKey(storeHours, selectedDateKey);
   const openStartMin = openWindow?.openMin ?? 0;
   const openEndMin = openWindow?.closeMin ?? 0;
   const scheduleMinutes = Math.max(0, openEndMin - openStartMin);
@@ -1912,7 +2142,7 @@ export default function BookingsTable() {
                     return (
                       <label key={key} className="flex flex-col gap-1 rounded-lg border border-zinc-200 bg-white p-2">
                         <div className="text-[11px] font-semibold text-zinc-600">
-                          {typeLabel} · {fmtNY(resv.start_ts)} – {fmtNY(resv.end_ts)}
+                          {typeLabel} · {formatInstant(resv.start_ts, timeZone)} – {formatInstant(resv.end_ts, timeZone)}
                         </div>
                         <select
                           value={selected}
@@ -1979,16 +2209,17 @@ export default function BookingsTable() {
                 setEditDateKey(dk);
                 setEditStartMin(null);
               }}
+              timeZone={timeZone}
             />
           </div>
           <div className="mt-3">
             {(() => {
-              const openWindow = editDateKey ? getOpenWindowForDateKey(editDateKey) : null;
+              const openWindow = editDateKey ? getOpenWindowForDateKey(storeHours, editDateKey) : null;
               if (!openWindow) {
                 return <div className="text-xs text-zinc-500">Closed on selected day.</div>;
               }
               const blockedSet = new Set(editBlockedStartMins);
-              const nowMin = editDateKey === todayKey ? nowMinutesNY() : -1;
+              const nowMin = editDateKey === todayKey ? nowInTimeZone(timeZone).minutes : -1;
               const slots: number[] = [];
               const lastStart = openWindow.closeMin - editDuration;
               const step = editDuration === 15 ? 15 : 30;
@@ -2031,7 +2262,7 @@ export default function BookingsTable() {
                             const disabled = blocked || past || editAvailabilityLoading;
                             return (
                               <option key={m} value={m} disabled={disabled}>
-                                {minutesToLabel(m)}
+                                {formatMinutesLabel(m)}
                               </option>
                             );
                           })}
@@ -2054,7 +2285,7 @@ export default function BookingsTable() {
                           <option value="">Select end</option>
                           {endOptions.map((opt) => (
                             <option key={opt.endMin} value={opt.endMin}>
-                              {minutesToLabel(opt.endMin)}
+                              {formatMinutesLabel(opt.endMin)}
                             </option>
                           ))}
                         </select>
@@ -2139,7 +2370,79 @@ export default function BookingsTable() {
       </div>
     </div>
   ) : null;
-  const modal = modalContent || partyModal;
+  const downtimeModal = downtimeResource ? (
+    <div
+      className="fixed inset-0 z-[99999] flex items-center justify-center bg-black/60 px-4"
+      onClick={(event) => {
+        if (event.target === event.currentTarget) {
+          setDowntimeResource(null);
+        }
+      }}
+    >
+      <div className="w-full max-w-sm rounded-2xl border border-zinc-200 bg-white p-4 shadow-xl">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <div className="text-sm font-semibold text-zinc-900">
+              Take {downtimeResource.name || "Resource"} Out of Service
+            </div>
+            <div className="mt-1 text-xs text-zinc-500">
+              Bookings in this window move to another free {downtimeResource.type === "PARTY" ? "area" : "resource"}{" "}
+              when one is open.
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => setDowntimeResource(null)}
+            className="rounded-lg bg-zinc-900 px-2 py-1 text-xs font-semibold text-white"
+          >
+            Close
+          </button>
+        </div>
+        <div className="mt-3 space-y-3">
+          <label className="text-xs font-semibold text-zinc-600">
+            Start Time
+            <input
+              type="time"
+              value={downtimeStart}
+              onChange={(e) => setDowntimeStart(e.target.value)}
+              className="mt-1 h-9 w-full rounded-xl border border-zinc-200 px-3 text-sm text-zinc-900"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            End Time
+            <input
+              type="time"
+              value={downtimeEnd}
+              onChange={(e) => setDowntimeEnd(e.target.value)}
+              className="mt-1 h-9 w-full rounded-xl border border-zinc-200 px-3 text-sm text-zinc-900"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Reason
+            <input
+              value={downtimeReason}
+              onChange={(e) => setDowntimeReason(e.target.value)}
+              placeholder="Pinsetter repair"
+              className="mt-1 h-9 w-full rounded-xl border border-zinc-200 px-3 text-sm text-zinc-900"
+            />
+          </label>
+          {downtimeError ? <div className="text-xs text-red-600">{downtimeError}</div> : null}
+          <button
+            type="button"
+            onClick={saveDowntime}
+            className="w-full rounded-lg bg-zinc-900 px-3 py-2 text-xs font-semibold text-white"
+            disabled={downtimeLoading}
+          >
+            {downtimeLoading ? "Saving..." : "Mark Out of Service"}
+          </button>
+        </div>
+      </div>
+    </div>
+  ) : null;
+  const modal = modalContent || partyModal || downtimeModal;
+  const refundRequestedCents = refundAmount.trim() ? Math.round(Number(refundAmount) * 100) : null;
+  const refundOverPolicy =
+    !!refundQuote && refundRequestedCents != null && refundRequestedCents > refundQuote.allowedCents;
   const refundModal = refundBooking ? (
     <div
       style={{
@@ -2173,11 +2476,31 @@ export default function BookingsTable() {
         <div className="mt-1 text-xs text-zinc-500">
           Booking for {refundBooking.customer_name || "Customer"} · $
           {(refundBooking.total_cents / 100).toFixed(2)}
+          {balanceDueCents(refundBooking) > 0
+            ? ` (deposit $${(Number(refundBooking.deposit_cents || 0) / 100).toFixed(2)} collected)`
+            : ""}
         </div>
+        {refundQuote ? (
+          <div className="mt-2 rounded-xl border border-zinc-200 bg-zinc-50 px-3 py-2 text-xs text-zinc-700">
+            Policy allows <span className="font-semibold">${(refundQuote.allowedCents / 100).toFixed(2)}</span> ·{" "}
+            {refundQuote.rule}
+          </div>
+        ) : null}
 
         <div className="mt-4 space-y-3">
           <label className="text-xs font-semibold text-zinc-600">
-            Refund Amount (leave blank for full refund)
+            Refund To
+            <select
+              value={refundMethod}
+              onChange={(e) => setRefundMethod(e.target.value === "CREDIT" ? "CREDIT" : "CARD")}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm text-zinc-900"
+            >
+              <option value="CARD">Original card</option>
+              <option value="CREDIT">Store credit (emailed gift certificate)</option>
+            </select>
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Refund Amount (leave blank for the policy amount)
             <input
               value={refundAmount}
               onChange={(e) => setRefundAmount(e.target.value)}
@@ -2185,9 +2508,20 @@ export default function BookingsTable() {
               min="0"
               step="0.01"
               className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm text-zinc-900 placeholder:text-zinc-900"
-              placeholder="Full refund"
+              placeholder="Policy amount"
             />
           </label>
+          {refundOverPolicy ? (
+            <label className="text-xs font-semibold text-amber-800">
+              Override reason (refund is above policy)
+              <input
+                value={refundOverrideReason}
+                onChange={(e) => setRefundOverrideReason(e.target.value)}
+                className="mt-1 h-10 w-full rounded-xl border border-amber-300 px-3 text-sm text-zinc-900"
+                placeholder="Why the policy is being overridden"
+              />
+            </label>
+          ) : null}
           <label className="text-xs font-semibold text-zinc-600">
             Reason (required)
             <textarea
@@ -2239,7 +2573,7 @@ export default function BookingsTable() {
             disabled={refundLoading}
             className="rounded-lg bg-zinc-900 px-3 py-2 text-xs font-semibold text-white disabled:opacity-60"
           >
-            {refundLoading ? "Processing..." : "Issue Refund"}
+            {refundLoading ? "Processing..." : refundMethod === "CREDIT" ? "Issue Credit" : "Issue Refund"}
           </button>
         </div>
       </div>
@@ -2252,10 +2586,11 @@ export default function BookingsTable() {
       ? payOverrideCents
       : payGiftApplied
         ? payGiftApplied.remainingCents
-        : payModalBooking.total_cents
+        : balanceDueCents(payModalBooking) || payModalBooking.total_cents
     : 0;
   const payModalTotalCents = basePayCents + payModalTabTotalCents;
   const giftCoversTotal = payGiftApplied ? payGiftApplied.remainingCents <= 0 : false;
+  const payPart = payModalBooking ? payPartFields() : {};
   const payModal = payModalBooking ? (
     <div
       style={{
@@ -2290,6 +2625,78 @@ export default function BookingsTable() {
           {payModalBooking.customer_name || "Customer"} · ${(payModalTotalCents / 100).toFixed(2)} ·{" "}
           {activityLabel(payModalBooking.activity)}
         </div>
+        {balanceDueCents(payModalBooking) > 0 ? (
+          <div className="mt-1 text-xs text-sky-700">
+            {Number(payModalBooking.deposit_cents || 0) > 0
+              ? `Deposit $${(Number(payModalBooking.deposit_cents || 0) / 100).toFixed(2)} paid`
+              : "Part paid"}{" "}
+            · balance ${(balanceDueCents(payModalBooking) / 100).toFixed(2)} due of $
+            {(payModalBooking.total_cents / 100).toFixed(2)}
+          </div>
+        ) : null}
+        {payLedger?.payments.length ? (
+          <div className="mt-2 rounded-lg border border-zinc-200 bg-zinc-50 p-2 text-[11px] text-zinc-700">
+            {payLedger.payments.map((payment) => (
+              <div key={payment.id} className="flex justify-between gap-2">
+                <span>
+                  {PAYMENT_TENDER_LABELS[payment.tender] || payment.tender}
+                  {payment.split_count ? ` · share ${payment.split_index || "?"}/${payment.split_count}` : ""}
+                </span>
+                <span className="font-semibold">${(payment.amount_cents / 100).toFixed(2)}</span>
+              </div>
+            ))}
+            <div className="mt-1 flex justify-between gap-2 border-t border-zinc-200 pt-1 font-semibold text-zinc-900">
+              <span>Remaining</span>
+              <span>${(payLedger.remainingCents / 100).toFixed(2)}</span>
+            </div>
+          </div>
+        ) : null}
+        {payOverrideCents == null && !payGiftApplied ? (
+          <div className="mt-2 grid grid-cols-2 gap-2">
+            <label className="text-[11px] font-semibold text-zinc-600">
+              Split evenly
+              <input
+                value={paySplitWays}
+                onChange={(e) => {
+                  setPaySplitWays(e.target.value);
+                  setPayPartAmount("");
+                }}
+                type="number"
+                min="2"
+                step="1"
+                className="mt-1 h-9 w-full rounded-lg border border-zinc-200 px-2 text-xs text-zinc-900"
+                placeholder="Ways"
+              />
+            </label>
+            <label className="text-[11px] font-semibold text-zinc-600">
+              Or pay part
+              <input
+                value={payPartAmount}
+                onChange={(e) => {
+                  setPayPartAmount(e.target.value);
+                  setPaySplitWays("");
+                }}
+                type="number"
+                min="0"
+                step="0.01"
+                className="mt-1 h-9 w-full rounded-lg border border-zinc-200 px-2 text-xs text-zinc-900"
+                placeholder="Amount"
+              />
+            </label>
+          </div>
+        ) : null}
+        {payPart.amount_cents ? (
+          <div className="mt-1 text-[11px] font-semibold text-sky-700">
+            This payment: ${(payPart.amount_cents / 100).toFixed(2)}
+            {payPart.split_count ? ` (share ${payPart.split_index} of ${payPart.split_count})` : ""}
+            {" · any open tab goes on the last payment"}
+          </div>
+        ) : payPart.split_count ? (
+          <div className="mt-1 text-[11px] font-semibold text-sky-700">
+            Last share ({payPart.split_index} of {payPart.split_count}) pays the rest.
+          </div>
+        ) : null}
+        {payPartStatus ? <div className="mt-1 text-[11px] font-semibold text-emerald-700">{payPartStatus}</div> : null}
         <div className="mt-2 flex flex-wrap items-center gap-2 text-[11px]">
           <button
             type="button"
@@ -2392,6 +2799,17 @@ export default function BookingsTable() {
               {payLoading === "gift" ? "Applying..." : "Apply Gift Certificate & Mark Paid"}
             </button>
           </div>
+        ) : payGiftApplied ? (
+          <div className="mt-4">
+            <button
+              type="button"
+              onClick={() => payWithGift(payModalBooking.id)}
+              disabled={payLoading !== null}
+              className="h-10 w-full rounded-lg border border-emerald-600 bg-white px-3 py-2 text-xs font-semibold text-emerald-700 disabled:opacity-60"
+            >
+              {payLoading === "gift" ? "Applying..." : "Apply Gift Certificate Only (pay the rest later)"}
+            </button>
+          </div>
         ) : null}
         <div className="mt-4 grid gap-2 sm:grid-cols-2">
           <button
@@ -2418,6 +2836,25 @@ export default function BookingsTable() {
             {payLoading === "card" ? "Charging..." : "Pay With Card"}
           </button>
         </div>
+        {payModalBooking.customer_email ? (
+          <div className="mt-2">
+            <button
+              type="button"
+              onClick={() => sendPaymentLink(payModalBooking.id)}
+              disabled={payLoading !== null}
+              className="h-9 w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-xs font-semibold text-zinc-700 hover:bg-zinc-50 disabled:opacity-60"
+            >
+              {payLoading === "link"
+                ? "Sending..."
+                : balanceDueCents(payModalBooking) > 0
+                  ? "Send Balance Link"
+                  : "Send Payment Link"}
+            </button>
+            {payLinkStatus ? (
+              <div className="mt-1 break-all text-[11px] text-zinc-600">{payLinkStatus}</div>
+            ) : null}
+          </div>
+        ) : null}
         <div className="mt-3">
           <label className="text-xs font-semibold text-zinc-600">
             Card Reader
@@ -2530,6 +2967,7 @@ export default function BookingsTable() {
               <MonthCalendar
                 selectedDateKey={selectedDateKey}
                 onSelectDateKey={setSelectedDateKey}
+                timeZone={timeZone}
                 allowPast={staffRole === "admin"}
               />
             </div>
@@ -2553,9 +2991,17 @@ export default function BookingsTable() {
                 >
                   {compactMode ? "Comfort view" : "Compact view"}
                 </button>
-                <span>{prettyDate(selectedDateKey)}</span>
+                <span>{formatDateKey(selectedDateKey)}</span>
               </div>
             </div>
+            {downtimeNotice ? (
+              <div className="mb-2 flex items-start justify-between gap-3 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                <span>{downtimeNotice}</span>
+                <button type="button" onClick={() => setDowntimeNotice("")} className="font-semibold">
+                  Dismiss
+                </button>
+              </div>
+            ) : null}
             {!showSchedule ? (
               <div className="rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-600 sm:hidden">
                 Schedule hidden. Tap "Show schedule" to view.
@@ -2584,13 +3030,16 @@ export default function BookingsTable() {
                       <div className="flex h-full items-center text-xs font-semibold text-zinc-600">
                         <div style={{ width: timeGutter }} />
                         {resourceColumns.map((r) => (
-                          <div
+                          <button
                             key={r.id}
-                            className="truncate text-center"
+                            type="button"
+                            title="Mark out of service"
+                            onClick={() => openDowntime(r)}
+                            className="truncate text-center hover:text-zinc-900 hover:underline"
                             style={{ width: resourceColWidth, paddingLeft: 6, paddingRight: 6 }}
                           >
                             {r.label || r.name || r.id}
-                          </div>
+                          </button>
                         ))}
                       </div>
                     </div>
@@ -2650,13 +3099,51 @@ export default function BookingsTable() {
                         />
                       ))}
 
+                      {(isClient ? downtime : []).map((row) => {
+                        const colIndex = resourceIndexById.get(row.resource_id);
+                        if (colIndex == null) return null;
+                        // Downtime can run past close or span days; clip it to the visible window.
+                        const fromMin = dateKeyFromIso(row.start_ts, timeZone) === selectedDateKey
+                          ? minutesFromIso(row.start_ts, timeZone)
+                          : null;
+                        const toMin = dateKeyFromIso(row.end_ts, timeZone) === selectedDateKey
+                          ? minutesFromIso(row.end_ts, timeZone)
+                          : null;
+                        const startMin = Math.max(openStartMin, fromMin ?? openStartMin);
+                        const endMin = Math.min(openEndMin, toMin ?? openEndMin);
+                        if (endMin <= startMin) return null;
+                        return (
+                          <div
+                            key={row.id}
+                            className="absolute rounded-xl border border-zinc-300 p-2 text-[11px] text-zinc-700"
+                            style={{
+                              top: offsetFromOpen(startMin - openStartMin),
+                              height: (endMin - startMin) * PX_PER_MIN,
+                              left: timeGutter + colIndex * resourceColWidth + 4,
+                              width: resourceColWidth - 8,
+                              zIndex: 40,
+                              backgroundImage:
+                                "repeating-linear-gradient(135deg, #f4f4f5 0, #f4f4f5 8px, #e4e4e7 8px, #e4e4e7 16px)",
+                            }}
+                          >
+                            <div className="font-semibold">Out of service</div>
+                            <div className="truncate">{row.reason}</div>
+                            <button
+                              type="button"
+                              onClick={() => removeDowntime(row.id)}
+                              className="mt-1 rounded-full border border-zinc-300 bg-white px-2 py-0.5 text-[10px] font-semibold"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        );
+                      })}
+
                       {(isClient ? reservationsForDay : []).map((resv) => {
                         const colIndex = resourceIndexById.get(resv.resource_id);
                         if (colIndex == null) return null;
-                        const startLabel = fmtNY(resv.start_ts);
-                        const endLabel = fmtNY(resv.end_ts);
-                        const startMin = minutesFromLabel(startLabel);
-                        const endMin = minutesFromLabel(endLabel);
+                        const startMin = minutesFromIso(resv.start_ts, timeZone);
+                        const endMin = minutesFromIso(resv.end_ts, timeZone);
                         if (startMin == null || endMin == null) return null;
                         const top = offsetFromOpen(startMin - openStartMin);
                         const height = Math.max(28, (endMin - startMin) * PX_PER_MIN);
@@ -2688,6 +3175,12 @@ export default function BookingsTable() {
                           !booking.waiver_signed_for_booking;
 
                         const isHighlighted = highlightBookingId === resv.booking_id;
+                        const isOutOfService = downtime.some(
+                          (row) =>
+                            row.resource_id === resv.resource_id &&
+                            new Date(row.start_ts).getTime() < new Date(resv.end_ts).getTime() &&
+                            new Date(row.end_ts).getTime() > new Date(resv.start_ts).getTime()
+                        );
                         return (
                           <div
                             key={`${resv.booking_id}-${resv.resource_id}-${resv.start_ts}`}
@@ -2702,7 +3195,11 @@ export default function BookingsTable() {
                               pointerEvents: "auto",
                               paddingTop: 26,
                               zIndex: isHovered ? 999 : isHighlighted ? 950 : 50,
-                              outline: isHighlighted ? "3px solid #f59e0b" : undefined,
+                              outline: isHighlighted
+                                ? "3px solid #f59e0b"
+                                : isOutOfService
+                                  ? "3px solid #dc2626"
+                                  : undefined,
                               boxShadow: isHighlighted ? "0 0 0 4px rgba(245,158,11,0.35)" : undefined,
                             }}
                             onMouseEnter={() => {
@@ -2744,6 +3241,14 @@ export default function BookingsTable() {
                                 }, 0);
                               }}
                             >
+                              {isOutOfService ? (
+                                <span
+                                  className="mr-auto text-[10px] font-bold text-red-700"
+                                  title="This resource is out of service. Move the booking."
+                                >
+                                  Out of service
+                                </span>
+                              ) : null}
                               {!isPartyArea ? (
                                 <button
                                   type="button"
@@ -2886,20 +3391,23 @@ export default function BookingsTable() {
                                 }}
                               >
                                 <div className="font-semibold">
-                                  {fmtNY(resv.start_ts)} – {fmtNY(resv.end_ts)}
+                                  {formatInstant(resv.start_ts, timeZone)} – {formatInstant(resv.end_ts, timeZone)}
                                 </div>
                                 <div>{displayActivity}</div>
                                 <div className="text-[10px] text-zinc-600">{resourceLabel}</div>
                                 <div className="text-[10px] text-zinc-600">
                                   {booking?.customer_name || "Walk-in"} · {displayPartySize(booking)} ppl
                                 </div>
+                                {booking?.series ? (
+                                  <div className="text-[10px] text-zinc-600">{seriesLabel(booking.series)}</div>
+                                ) : null}
                                 {booking?.assigned_staff_id ? (
                                   <div className="text-[10px] text-zinc-600">
                                     Staff: {staffNameById.get(booking.assigned_staff_id) || booking.assigned_staff_id}
                                   </div>
                                 ) : null}
                                 <div className="mt-1 flex flex-wrap gap-1">
-                                  {bookingPaymentBadge(booking?.status, booking?.paid, "text-[10px]")}
+                                  {bookingPaymentBadge(booking ?? {}, "text-[10px]")}
                                   {tabPaymentBadge(booking?.tab_status, "text-[10px]")}
                                 </div>
                                 {waiverMissing ? (
@@ -2931,7 +3439,7 @@ export default function BookingsTable() {
                             {isCompact ? (
                               <>
                                 <div className="text-[11px] font-semibold">
-                                  {fmtNY(resv.start_ts)} – {fmtNY(resv.end_ts)}
+                                  {formatInstant(resv.start_ts, timeZone)} – {formatInstant(resv.end_ts, timeZone)}
                                 </div>
                                 <div className="text-[11px]">
                                   {booking?.customer_name || "Walk-in"}
@@ -2964,20 +3472,23 @@ export default function BookingsTable() {
                             ) : (
                               <>
                                 <div className="font-semibold">
-                                  {fmtNY(resv.start_ts)} – {fmtNY(resv.end_ts)}
+                                  {formatInstant(resv.start_ts, timeZone)} – {formatInstant(resv.end_ts, timeZone)}
                                 </div>
                                 <div>{displayActivity}</div>
                                 <div className="text-[10px] text-zinc-300">{resourceLabel}</div>
                                 <div className="text-[10px] text-zinc-200">
                                   {booking?.customer_name || "Walk-in"} · {displayPartySize(booking)} ppl
                                 </div>
+                                {booking?.series ? (
+                                  <div className="text-[10px] text-zinc-200">{seriesLabel(booking.series)}</div>
+                                ) : null}
                                 {booking?.assigned_staff_id ? (
                                   <div className="text-[10px] text-zinc-200">
                                     Staff: {staffNameById.get(booking.assigned_staff_id) || booking.assigned_staff_id}
                                   </div>
                                 ) : null}
                                 <div className="mt-1 flex flex-wrap gap-1">
-                                  {bookingPaymentBadge(booking?.status, booking?.paid, "text-[10px]")}
+                                  {bookingPaymentBadge(booking ?? {}, "text-[10px]")}
                                   {tabPaymentBadge(booking?.tab_status, "text-[10px]")}
                                 </div>
                                 {waiverMissing ? (
@@ -3018,7 +3529,7 @@ export default function BookingsTable() {
         </div>
 
         <div className="mb-2 text-sm font-semibold text-zinc-700">
-          {prettyDate(selectedDateKey)} — {filtered.length} booking{filtered.length === 1 ? "" : "s"}
+          {formatDateKey(selectedDateKey)} — {filtered.length} booking{filtered.length === 1 ? "" : "s"}
         </div>
 
         <div className="mx-auto" style={{ width: "90vw", maxWidth: "1400px" }}>
@@ -3047,6 +3558,7 @@ export default function BookingsTable() {
               >
                 Newest
               </button>
+              <LocationSelect value={locationId} onChange={setLocationId} />
               <button
                 onClick={() => loadBookings(order)}
                 className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm"
@@ -3086,20 +3598,33 @@ export default function BookingsTable() {
                       </div>
                       <div className="text-xs text-zinc-600">{r.customer_email || "—"}</div>
                       {r.notes ? <div className="text-[11px] text-zinc-500">Note: {r.notes}</div> : null}
+                      {r.series ? (
+                        <Link
+                          href="/staff/series"
+                          className="mt-1 inline-block rounded-full bg-indigo-100 px-2 py-0.5 text-[10px] font-semibold text-indigo-800 hover:underline"
+                        >
+                          {seriesLabel(r.series)}
+                        </Link>
+                      ) : null}
                     </td>
-                    <td className="py-2 text-center text-zinc-900">{fmtNY(r.start_ts)}</td>
-                    <td className="py-2 text-center text-zinc-900">{fmtNY(r.end_ts)}</td>
+                    <td className="py-2 text-center text-zinc-900">{formatInstant(r.start_ts, timeZone)}</td>
+                    <td className="py-2 text-center text-zinc-900">{formatInstant(r.end_ts, timeZone)}</td>
                     <td className="py-2 text-center text-zinc-900">{activityLabel(r.activity)}</td>
                     <td className="py-2 text-center text-zinc-900">{comboOrderLabel(r.combo_order)}</td>
                     <td className="py-2 text-center text-zinc-900">{displayPartySize(r)}</td>
                     <td className="py-2 text-center text-zinc-900">
                       <div className="flex flex-wrap justify-center gap-1">
-                        {bookingPaymentBadge(r.status, r.paid, "text-[10px]")}
+                        {bookingPaymentBadge(r, "text-[10px]")}
                         {tabPaymentBadge(r.tab_status, "text-[10px]")}
                       </div>
                     </td>
                     <td className="py-2 text-center text-zinc-900">
                       ${((r.total_cents + (r.tab_total_cents || 0)) / 100).toFixed(2)}
+                      {balanceDueCents(r) > 0 ? (
+                        <div className="text-[10px] text-sky-700">
+                          Balance due ${(balanceDueCents(r) / 100).toFixed(2)}
+                        </div>
+                      ) : null}
                     </td>
                     <td className="py-2 text-center">
                       <div className="flex items-center justify-center gap-2">
@@ -3119,7 +3644,7 @@ export default function BookingsTable() {
                         >
                           Tab
                         </button>
-                        {r.paid ? (
+                        {r.paid || balanceDueCents(r) > 0 ? (
                           <button
                             type="button"
                             onClick={() => openRefund(r)}
@@ -3128,16 +3653,17 @@ export default function BookingsTable() {
                           >
                             Refund
                           </button>
-                        ) : (
+                        ) : null}
+                        {!r.paid ? (
                           <button
                             type="button"
                             onClick={() => openPayModal(r.id)}
                             disabled={actionLoadingId === r.id}
                             className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs font-semibold text-zinc-700 hover:bg-zinc-50 disabled:opacity-60"
                           >
-                            Pay Now
+                            {balanceDueCents(r) > 0 ? "Collect Balance" : "Pay Now"}
                           </button>
-                        )}
+                        ) : null}
                         {!reservationsByBookingId.has(r.id) ? (
                           <button
                             type="button"
@@ -3174,7 +3700,7 @@ export default function BookingsTable() {
                 ))}
                 <tr className="border-t border-zinc-200 bg-zinc-50 text-xs font-semibold text-zinc-800">
                   <td className="py-3 text-center" colSpan={2}>
-                    Totals for {prettyDate(selectedDateKey)}
+                    Totals for {formatDateKey(selectedDateKey)}
                   </td>
                   <td className="py-3 text-center" colSpan={2}>
                     Bookings: {listSummary.totalBookings}
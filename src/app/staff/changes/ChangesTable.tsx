@@ -0,0 +1,427 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import LocationSelect from "@/components/LocationSelect";
+import {
+  DEFAULT_TIME_ZONE,
+  formatDateKey,
+  formatInstant,
+  formatMinutesLabel,
+  minutesToTimeInput,
+  timeInputToMinutes,
+} from "@/lib/dateTime";
+
+type ChangeRequest = {
+  id: string;
+  booking_id: string;
+  change_type: "RESCHEDULE" | "CANCEL" | "REFUND";
+  status: "PENDING" | "APPROVED" | "DENIED" | "COMPLETED";
+  requested_at: string;
+  processed_at: string | null;
+  note: string | null;
+  requested_date_key: string | null;
+  requested_start_min: number | null;
+  processed_by: string | null;
+  decision_note: string | null;
+  booking: {
+    id: string;
+    activity: string;
+    party_size: number;
+    start_ts: string;
+    end_ts: string;
+    status: string;
+    paid: boolean;
+    total_cents: number;
+    customer_name: string;
+    customer_email: string;
+  };
+  policy: { cancelBy: string; rescheduleBy: string; canCancel: boolean; canReschedule: boolean };
+  refund: { allowedCents: number; rule: string } | null;
+};
+
+type PolicySummary = { cancelWindowHours: number; rescheduleWindowHours: number; refundPolicy: string };
+
+const STATUS_STYLES: Record<ChangeRequest["status"], string> = {
+  PENDING: "bg-amber-100 text-amber-800",
+  APPROVED: "bg-emerald-100 text-emerald-800",
+  DENIED: "bg-red-100 text-red-700",
+  COMPLETED: "bg-zinc-100 text-zinc-600",
+};
+
+function withinPolicy(change: ChangeRequest) {
+  return change.change_type === "RESCHEDULE" ? change.policy.canReschedule : change.policy.canCancel;
+}
+
+export default function ChangesTable() {
+  const [locationId, setLocationId] = useState("");
+  const [statusFilter, setStatusFilter] = useState<"PENDING" | "ALL">("PENDING");
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [policy, setPolicy] = useState<PolicySummary | null>(null);
+  const [rows, setRows] = useState<ChangeRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [staffRole, setStaffRole] = useState<"staff" | "admin" | null>(null);
+
+  const [openId, setOpenId] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [decisionNote, setDecisionNote] = useState("");
+  const [moveDateKey, setMoveDateKey] = useState("");
+  const [moveTime, setMoveTime] = useState("");
+  const [refundAmount, setRefundAmount] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
+  const [refundMethod, setRefundMethod] = useState<"CARD" | "CREDIT">("CARD");
+  const [managerId, setManagerId] = useState("");
+  const [managerPin, setManagerPin] = useState("");
+
+  const loadChanges = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    const params = new URLSearchParams({ status: statusFilter });
+    if (locationId) params.set("location", locationId);
+    const res = await fetch(`/api/staff/booking-changes?${params.toString()}`, { cache: "no-store" });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(json?.error || "Failed to load change requests");
+      setRows([]);
+    } else {
+      setRows(json.changes || []);
+      if (json.timeZone) setTimeZone(json.timeZone);
+      if (json.policy) setPolicy(json.policy);
+    }
+    setLoading(false);
+  }, [statusFilter, locationId]);
+
+  useEffect(() => {
+    loadChanges();
+  }, [loadChanges]);
+
+  useEffect(() => {
+    fetch("/api/staff/me", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (json?.role === "admin" || json?.role === "staff") setStaffRole(json.role);
+      })
+      .catch(() => setStaffRole(null));
+  }, []);
+
+  function openDecision(change: ChangeRequest) {
+    setOpenId(change.id);
+    setError("");
+    setDecisionNote("");
+    setMoveDateKey(change.requested_date_key || "");
+    setMoveTime(minutesToTimeInput(change.requested_start_min));
+    setRefundAmount("");
+    setOverrideReason("");
+    setRefundMethod("CARD");
+    setManagerId("");
+    setManagerPin("");
+  }
+
+  async function decide(change: ChangeRequest, action: "APPROVE" | "DENY") {
+    const payload: Record<string, unknown> = { action, note: decisionNote.trim() };
+    if (action === "APPROVE" && change.change_type === "RESCHEDULE") {
+      const startMin = timeInputToMinutes(moveTime);
+      if (!moveDateKey || startMin == null) {
+        setError("Pick the new date and time.");
+        return;
+      }
+      payload.dateKey = moveDateKey;
+      payload.startMin = startMin;
+    }
+    if (action === "APPROVE" && change.change_type === "REFUND") {
+      const amountFloat = refundAmount.trim() ? Number(refundAmount) : 0;
+      if (refundAmount.trim() && (!Number.isFinite(amountFloat) || amountFloat <= 0)) {
+        setError("Enter a valid refund amount.");
+        return;
+      }
+      const amountCents = Math.round(amountFloat * 100);
+      payload.amount_cents = amountCents;
+      payload.method = refundMethod;
+      if (change.refund && amountCents > change.refund.allowedCents) {
+        if (!overrideReason.trim()) {
+          setError("Give a reason for overriding the refund policy.");
+          return;
+        }
+        payload.override_reason = overrideReason.trim();
+      }
+      payload.manager_staff_id = managerId.trim();
+      payload.manager_pin = managerPin.trim();
+    }
+    if (action === "DENY" && !window.confirm("Deny this request? The customer will be emailed.")) return;
+
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/staff/booking-changes/${change.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error || "Failed to update change request");
+        return;
+      }
+      setOpenId("");
+      await loadChanges();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-extrabold text-zinc-900">
+            {statusFilter === "PENDING" ? "Pending requests" : "All requests"}
+          </div>
+          {policy ? (
+            <div className="text-xs text-zinc-500">
+              Policy: cancel {policy.cancelWindowHours}h / reschedule {policy.rescheduleWindowHours}h before start ·
+              refunds {policy.refundPolicy.replace(/_/g, " ").toLowerCase()}
+            </div>
+          ) : null}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <LocationSelect value={locationId} onChange={setLocationId} />
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value === "ALL" ? "ALL" : "PENDING")}
+            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+          >
+            <option value="PENDING">Pending</option>
+            <option value="ALL">All</option>
+          </select>
+          <button
+            type="button"
+            onClick={loadChanges}
+            className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+      {error ? <div className="mb-3 text-sm text-red-600">{error}</div> : null}
+      {loading ? (
+        <div className="text-sm text-zinc-600">Loading change requests…</div>
+      ) : rows.length === 0 ? (
+        <div className="text-sm text-zinc-600">No change requests to review.</div>
+      ) : (
+        <div className="overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-zinc-600">
+              <tr>
+                <th className="py-2">Request</th>
+                <th className="py-2">Booking</th>
+                <th className="py-2">Customer</th>
+                <th className="py-2">Policy</th>
+                <th className="py-2">Status</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => {
+                const inside = withinPolicy(r);
+                return [
+                  <tr key={r.id} className="border-t border-zinc-100 align-top">
+                    <td className="py-2">
+                      <div className="font-semibold text-zinc-900">{r.change_type}</div>
+                      <div className="text-xs text-zinc-500">{formatInstant(r.requested_at, timeZone, "dateTime")}</div>
+                      {r.requested_date_key ? (
+                        <div className="text-xs text-zinc-500">
+                          Wants {formatDateKey(r.requested_date_key, "medium")}
+                          {r.requested_start_min != null ? ` at ${formatMinutesLabel(r.requested_start_min)}` : ""}
+                        </div>
+                      ) : null}
+                      {r.note ? <div className="mt-1 max-w-xs text-xs text-zinc-700">“{r.note}”</div> : null}
+                    </td>
+                    <td className="py-2">
+                      <div>{r.booking.activity}</div>
+                      <div className="text-xs text-zinc-500">
+                        {formatInstant(r.booking.start_ts, timeZone, "dateTime")} · Party {r.booking.party_size}
+                      </div>
+                      <div className="text-xs text-zinc-500">
+                        {r.booking.status} · ${((r.booking.total_cents || 0) / 100).toFixed(2)}
+                        {r.booking.paid ? " paid" : " unpaid"}
+                      </div>
+                    </td>
+                    <td className="py-2">
+                      <div className="font-semibold text-zinc-900">{r.booking.customer_name}</div>
+                      <div className="text-xs text-zinc-500">{r.booking.customer_email}</div>
+                    </td>
+                    <td className="py-2">
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+                          inside ? "bg-emerald-100 text-emerald-800" : "bg-amber-100 text-amber-800"
+                        }`}
+                      >
+                        {inside ? "Within policy" : "Outside window"}
+                      </span>
+                      <div className="mt-1 text-xs text-zinc-500">
+                        {r.change_type === "RESCHEDULE" ? "Reschedule by " : "Cancel by "}
+                        {formatInstant(
+                          r.change_type === "RESCHEDULE" ? r.policy.rescheduleBy : r.policy.cancelBy,
+                          timeZone,
+                          "dateTime"
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-2">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_STYLES[r.status]}`}>
+                        {r.status}
+                      </span>
+                      {r.processed_at ? (
+                        <div className="mt-1 text-xs text-zinc-500">
+                          {formatInstant(r.processed_at, timeZone, "dateTime")}
+                          {r.processed_by ? ` · ${r.processed_by}` : ""}
+                        </div>
+                      ) : null}
+                      {r.decision_note ? <div className="mt-1 text-xs text-zinc-700">{r.decision_note}</div> : null}
+                    </td>
+                    <td className="py-2 text-right">
+                      {r.status === "PENDING" ? (
+                        <button
+                          type="button"
+                          onClick={() => (openId === r.id ? setOpenId("") : openDecision(r))}
+                          className="rounded-xl border border-zinc-200 bg-white px-3 py-1 text-xs font-semibold"
+                        >
+                          {openId === r.id ? "Close" : "Review"}
+                        </button>
+                      ) : null}
+                    </td>
+                  </tr>,
+                  openId === r.id ? (
+                    <tr key={`${r.id}-decision`} className="bg-zinc-50">
+                      <td colSpan={6} className="p-3">
+                        <div className="grid gap-3 sm:grid-cols-2">
+                          {r.change_type === "RESCHEDULE" ? (
+                            <>
+                              <label className="text-xs font-semibold text-zinc-600">
+                                New date
+                                <input
+                                  type="date"
+                                  value={moveDateKey}
+                                  onChange={(e) => setMoveDateKey(e.target.value)}
+                                  className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+                                />
+                              </label>
+                              <label className="text-xs font-semibold text-zinc-600">
+                                New start time
+                                <input
+                                  type="time"
+                                  value={moveTime}
+                                  onChange={(e) => setMoveTime(e.target.value)}
+                                  className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+                                />
+                              </label>
+                            </>
+                          ) : null}
+                          {r.change_type === "REFUND" && r.refund ? (
+                            <div className="text-xs text-zinc-700 sm:col-span-2">
+                              Policy allows{" "}
+                              <span className="font-semibold">${(r.refund.allowedCents / 100).toFixed(2)}</span> ·{" "}
+                              {r.refund.rule}
+                            </div>
+                          ) : null}
+                          {r.change_type === "REFUND" ? (
+                            <label className="text-xs font-semibold text-zinc-600">
+                              Refund To
+                              <select
+                                value={refundMethod}
+                                onChange={(e) => setRefundMethod(e.target.value === "CREDIT" ? "CREDIT" : "CARD")}
+                                className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+                              >
+                                <option value="CARD">Original card</option>
+                                <option value="CREDIT">Store credit</option>
+                              </select>
+                            </label>
+                          ) : null}
+                          {r.change_type === "REFUND" ? (
+                            <label className="text-xs font-semibold text-zinc-600">
+                              Refund Amount (leave blank for the policy amount)
+                              <input
+                                value={refundAmount}
+                                onChange={(e) => setRefundAmount(e.target.value)}
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+                                placeholder="Policy amount"
+                              />
+                            </label>
+                          ) : null}
+                          {r.change_type === "REFUND" &&
+                          r.refund &&
+                          Math.round(Number(refundAmount || 0) * 100) > r.refund.allowedCents ? (
+                            <label className="text-xs font-semibold text-amber-800">
+                              Override reason (refund is above policy)
+                              <input
+                                value={overrideReason}
+                                onChange={(e) => setOverrideReason(e.target.value)}
+                                className="mt-1 h-10 w-full rounded-xl border border-amber-300 px-3 text-sm"
+                              />
+                            </label>
+                          ) : null}
+                          {r.change_type === "REFUND" && staffRole !== "admin" ? (
+                            <div className="grid gap-3 sm:grid-cols-2">
+                              <label className="text-xs font-semibold text-zinc-600">
+                                Manager Staff ID
+                                <input
+                                  value={managerId}
+                                  onChange={(e) => setManagerId(e.target.value)}
+                                  className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+                                  placeholder="Manager ID"
+                                />
+                              </label>
+                              <label className="text-xs font-semibold text-zinc-600">
+                                Manager PIN
+                                <input
+                                  value={managerPin}
+                                  onChange={(e) => setManagerPin(e.target.value)}
+                                  className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+                                  placeholder="4-digit PIN"
+                                  maxLength={4}
+                                />
+                              </label>
+                            </div>
+                          ) : null}
+                          <label className="text-xs font-semibold text-zinc-600 sm:col-span-2">
+                            Note to customer (optional)
+                            <textarea
+                              value={decisionNote}
+                              onChange={(e) => setDecisionNote(e.target.value)}
+                              className="mt-1 min-h-[60px] w-full rounded-xl border border-zinc-200 px-3 py-2 text-sm"
+                            />
+                          </label>
+                        </div>
+                        <div className="mt-3 flex justify-end gap-2">
+                          <button
+                            type="button"
+                            disabled={busy}
+                            onClick={() => decide(r, "DENY")}
+                            className="rounded-xl border border-red-200 bg-white px-3 py-1 text-xs font-semibold text-red-700 disabled:opacity-60"
+                          >
+                            Deny
+                          </button>
+                          <button
+                            type="button"
+                            disabled={busy}
+                            onClick={() => decide(r, "APPROVE")}
+                            className="rounded-xl bg-zinc-900 px-3 py-1 text-xs font-semibold text-white disabled:opacity-60"
+                          >
+                            {busy ? "Processing..." : "Approve"}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ) : null,
+                ];
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { Fragment, useEffect, useMemo, useRef, useState } from "react";
+import { DEFAULT_TIME_ZONE, formatInstant, toZonedTime } from "@/lib/dateTime";
 
 type CustomerRow = {
   id: string;
@@ -48,60 +49,16 @@ function needsWaiver(activity: string) {
   return normalized.includes("AXE") || normalized.includes("COMBO");
 }
 
-function getDateKeyInTZ(iso: string, timeZone: string) {
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).formatToParts(new Date(iso));
-  const year = parts.find((p) => p.type === "year")?.value ?? "0000";
-  const month = parts.find((p) => p.type === "month")?.value ?? "01";
-  const day = parts.find((p) => p.type === "day")?.value ?? "01";
-  return `${year}-${month}-${day}`;
-}
-
-function getStartMinInTZ(iso: string, timeZone: string) {
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone,
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).formatToParts(new Date(iso));
-  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? "0");
-  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? "0");
-  return hour * 60 + minute;
-}
-
 function formatDate(iso: string | null) {
   if (!iso) return "—";
   return new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
 }
 
-function formatDateOnly(iso: string | null) {
-  if (!iso) return "—";
-  return new Date(iso).toLocaleDateString("en-US", {
-    timeZone: "America/New_York",
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-  });
-}
-
-function formatTimeOnly(iso: string | null) {
-  if (!iso) return "—";
-  return new Date(iso).toLocaleTimeString("en-US", {
-    timeZone: "America/New_York",
-    hour: "numeric",
-    minute: "2-digit",
-  });
-}
-
 function formatDateTimeRange(startIso: string | null, endIso: string | null) {
   if (!startIso) return "—";
-  const date = formatDateOnly(startIso);
-  const startTime = formatTimeOnly(startIso);
-  const endTime = endIso ? formatTimeOnly(endIso) : "";
+  const date = formatInstant(startIso, DEFAULT_TIME_ZONE, "date");
+  const startTime = formatInstant(startIso);
+  const endTime = endIso ? formatInstant(endIso) : "";
   return endTime ? `${date} • ${startTime} – ${endTime}` : `${date} • ${startTime}`;
 }
 
@@ -441,8 +398,7 @@ export default function CustomersTable() {
         return;
       }
 
-      const dateKey = getDateKeyInTZ(waiverBooking.start_ts, "America/New_York");
-      const startMin = getStartMinInTZ(waiverBooking.start_ts, "America/New_York");
+      const { dateKey, minutes: startMin } = toZonedTime(waiverBooking.start_ts);
       const startMs = new Date(waiverBooking.start_ts).getTime();
       const endMs = waiverBooking.end_ts ? new Date(waiverBooking.end_ts).getTime() : Number.NaN;
       const diffMinutes = Number.isFinite(endMs) ? Math.round((endMs - startMs) / 60000) : 60;
@@ -2,6 +2,7 @@
 
 import Link from "next/link";
 import { useEffect, useState } from "react";
+import { DEFAULT_TIME_ZONE, formatInstant } from "@/lib/dateTime";
 
 type Customer = {
   id: string;
@@ -30,17 +31,6 @@ type Booking = {
   total_cents: number;
 };
 
-function formatDateTime(iso: string) {
-  return new Date(iso).toLocaleString("en-US", {
-    timeZone: "America/New_York",
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-    hour: "numeric",
-    minute: "2-digit",
-  });
-}
-
 export default function CustomerDetail({ customerId }: { customerId: string }) {
   const [customer, setCustomer] = useState<Customer | null>(null);
   const [bookings, setBookings] = useState<Booking[]>([]);
@@ -205,7 +195,7 @@ export default function CustomerDetail({ customerId }: { customerId: string }) {
                       <tr key={w.id} className="border-t border-zinc-100">
                         <td className="py-2">{w.signer_name}</td>
                         <td className="py-2">{w.signer_email || "—"}</td>
-                        <td className="py-2">{formatDateTime(w.signed_at)}</td>
+                        <td className="py-2">{formatInstant(w.signed_at, DEFAULT_TIME_ZONE, "dateTime")}</td>
                         <td className="py-2">{w.booking_id || "—"}</td>
                       </tr>
                     ))}
@@ -234,7 +224,7 @@ export default function CustomerDetail({ customerId }: { customerId: string }) {
                   <tbody>
                     {bookings.map((b) => (
                       <tr key={b.id} className="border-t border-zinc-100">
-                        <td className="py-2">{formatDateTime(b.start_ts)}</td>
+                        <td className="py-2">{formatInstant(b.start_ts, DEFAULT_TIME_ZONE, "dateTime")}</td>
                         <td className="py-2">{b.activity}</td>
                         <td className="py-2">{b.party_size}</td>
                         <td className="py-2">{b.status ?? "CONFIRMED"}</td>
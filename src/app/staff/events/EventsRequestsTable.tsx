@@ -3,6 +3,14 @@
 import { createPortal } from "react-dom";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { loadStripeTerminal, type Reader, type Terminal } from "@stripe/terminal-js";
+import {
+  EMPTY_STORE_HOURS_CONFIG,
+  closedWeekdaySummary,
+  resolveStoreHoursForDateKey,
+  type StoreHoursConfig,
+} from "@/lib/storeHours";
+import { formatDateKey, formatMinutesRange, nowInTimeZone } from "@/lib/dateTime";
+import { depositCentsFor, type DepositRule } from "@/lib/deposits";
 
 type EventRequest = {
   id: string;
@@ -23,66 +31,22 @@ type EventRequest = {
   payment_link_url?: string | null;
   payment_link_sent_at?: string | null;
   payment_status?: string | null;
+  deposit_cents?: number | null;
+  balance_due_cents?: number | null;
   paid_at?: string | null;
   declined_at?: string | null;
   pay_in_person?: boolean | null;
   notes?: string | null;
 };
 
-function todayDateKeyNY(): string {
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(new Date());
-}
-
-function nowMinutesNY() {
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/New_York",
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  }).formatToParts(new Date());
-  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? "0");
-  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? "0");
-  return hour * 60 + minute;
-}
-
-function weekdayNY(dateKey: string) {
-  const [y, m, d] = dateKey.split("-").map(Number);
-  const utc = Date.UTC(y, (m ?? 1) - 1, d ?? 1, 12, 0, 0);
-  const label = new Intl.DateTimeFormat("en-US", { timeZone: "America/New_York", weekday: "short" }).format(
-    new Date(utc)
-  );
-  const map: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
-  return map[label] ?? 0;
-}
-
-function getOpenWindowForDateKey(dateKey: string): { openMin: number; closeMin: number } | null {
+function getOpenWindowForDateKey(
+  storeHours: StoreHoursConfig,
+  dateKey: string
+): { openMin: number; closeMin: number } | null {
   if (!dateKey) return null;
-  const day = weekdayNY(dateKey);
-  if (day === 4) return { openMin: 16 * 60, closeMin: 22 * 60 };
-  if (day === 5) return { openMin: 16 * 60, closeMin: 23 * 60 };
-  if (day === 6) return { openMin: 12 * 60, closeMin: 23 * 60 };
-  if (day === 0) return { openMin: 12 * 60, closeMin: 21 * 60 };
-  return null;
-}
-
-function minutesToLabel(mins: number) {
-  const h = Math.floor(mins / 60);
-  const m = mins % 60;
-  const d = new Date();
-  d.setHours(h, m, 0, 0);
-  return d.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
-}
-
-function prettyDate(dateKey?: string) {
-  if (!dateKey) return "—";
-  const [y, m, d] = dateKey.split("-").map(Number);
-  const dt = new Date(y, (m ?? 1) - 1, d ?? 1);
-  return dt.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+  const hours = resolveStoreHoursForDateKey(storeHours, dateKey);
+  if (hours.closed) return null;
+  return { openMin: hours.openMin, closeMin: hours.closeMin };
 }
 
 export default function EventsRequestsTable() {
@@ -92,6 +56,7 @@ export default function EventsRequestsTable() {
   const [acceptingId, setAcceptingId] = useState<string | null>(null);
   const [decliningId, setDecliningId] = useState<string | null>(null);
   const [sendingPaymentId, setSendingPaymentId] = useState<string | null>(null);
+  const [depositRule, setDepositRule] = useState<DepositRule | null>(null);
   const [payingRequest, setPayingRequest] = useState<EventRequest | null>(null);
   const [terminalReaders, setTerminalReaders] = useState<Reader[]>([]);
   const [selectedReaderId, setSelectedReaderId] = useState("");
@@ -134,6 +99,13 @@ export default function EventsRequestsTable() {
     load();
   }, [load]);
 
+  useEffect(() => {
+    fetch("/api/deposit-policy", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => setDepositRule(json?.deposit ?? null))
+      .catch(() => setDepositRule(null));
+  }, []);
+
   useEffect(() => {
     if (terminalReadyRef.current) return;
     terminalReadyRef.current = true;
@@ -216,12 +188,14 @@ export default function EventsRequestsTable() {
     }
   };
 
-  const sendPaymentLink = async (id: string) => {
+  const sendPaymentLink = async (id: string, deposit = false) => {
     if (sendingPaymentId) return;
     setSendingPaymentId(id);
     try {
       const res = await fetch(`/api/staff/event-requests/${id}/payment-link`, {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ deposit }),
       });
       if (!res.ok) {
         const err = await res.json().catch(() => ({}));
@@ -351,7 +325,7 @@ export default function EventsRequestsTable() {
 
   const openReschedule = (req: EventRequest) => {
     setRescheduleRequest(req);
-    setRescheduleDateKey(req.date_key || todayDateKeyNY());
+    setRescheduleDateKey(req.date_key || nowInTimeZone().dateKey);
     setRescheduleStartMin(Number.isFinite(Number(req.start_min)) ? Number(req.start_min) : null);
     setReschedulePartySize(Math.max(1, Math.min(100, Number(req.party_size || 1))));
     setRescheduleBlockedByActivity({});
@@ -435,23 +409,28 @@ export default function EventsRequestsTable() {
                 const startMin = Number(req.start_min || 0);
                 const duration = Number(req.duration_minutes || 0);
                 const timeLabel =
-                  duration > 0 ? `${minutesToLabel(startMin)} – ${minutesToLabel(startMin + duration)}` : "—";
+                  duration > 0 ? formatMinutesRange(startMin, startMin + duration) : "—";
                 const totalLabel =
                   typeof req.total_cents === "number" ? `$${(req.total_cents / 100).toFixed(2)}` : "—";
                 const status = String(req.status || "PENDING").replace(/\s+/g, "_").toUpperCase();
                 const paymentStatus = String(req.payment_status || "UNPAID").replace(/\s+/g, "").toUpperCase();
                 const payInPerson = Boolean(req.pay_in_person);
                 const isPaid = paymentStatus === "PAID";
-                const paymentLabel = payInPerson ? "PAY IN PERSON" : paymentStatus;
+                const depositPaid = paymentStatus === "DEPOSIT_PAID";
+                const paymentLabel = payInPerson ? "PAY IN PERSON" : depositPaid ? "DEPOSIT PAID" : paymentStatus;
                 const canSendPaymentLink = status.startsWith("ACCEPT") && !isPaid && !payInPerson;
-                const canReschedule = status.startsWith("ACCEPT") && (isPaid || payInPerson);
-                const canPayNow = status.startsWith("ACCEPT") && payInPerson && !isPaid;
+                const depositOfferCents =
+                  canSendPaymentLink && !depositPaid && depositRule
+                    ? depositCentsFor(depositRule, Number(req.party_size || 0), Number(req.total_cents || 0))
+                    : 0;
+                const canReschedule = status.startsWith("ACCEPT") && (isPaid || payInPerson || depositPaid);
+                const canPayNow = status.startsWith("ACCEPT") && (payInPerson || depositPaid) && !isPaid;
                 return (
                   <tr key={req.id} className="border-t border-zinc-100">
                     <td className="px-2 py-3 text-zinc-500">
                       {req.created_at ? new Date(req.created_at).toLocaleString("en-US") : "—"}
                     </td>
-                    <td className="px-2 py-3">{prettyDate(req.date_key)}</td>
+                    <td className="px-2 py-3">{formatDateKey(req.date_key, "medium")}</td>
                     <td className="px-2 py-3">{timeLabel}</td>
                     <td className="px-2 py-3">{req.party_size ?? "—"}</td>
                     <td className="px-2 py-3">
@@ -491,11 +470,19 @@ export default function EventsRequestsTable() {
                             ? "bg-amber-50 text-amber-700"
                             : paymentStatus === "PAID"
                             ? "bg-emerald-50 text-emerald-700"
+                            : depositPaid
+                            ? "bg-sky-50 text-sky-700"
                             : "bg-zinc-100 text-zinc-700"
                         }`}
                       >
                         {paymentLabel}
                       </span>
+                      {depositPaid ? (
+                        <div className="mt-1 text-[10px] text-zinc-500">
+                          Paid ${(Number(req.deposit_cents || 0) / 100).toFixed(2)} · Balance $
+                          {(Number(req.balance_due_cents || 0) / 100).toFixed(2)}
+                        </div>
+                      ) : null}
                     </td>
                     <td className="px-2 py-3">
                       <span className={`rounded-full px-2 py-1 text-[10px] font-semibold ${
@@ -553,7 +540,21 @@ export default function EventsRequestsTable() {
                               }}
                               disabled={sendingPaymentId === req.id}
                             >
-                              {sendingPaymentId === req.id ? "Sending..." : "Send Payment Link"}
+                              {sendingPaymentId === req.id
+                                ? "Sending..."
+                                : depositPaid
+                                  ? "Send Balance Link"
+                                  : "Send Payment Link"}
+                            </button>
+                          ) : null}
+                          {depositOfferCents ? (
+                            <button
+                              type="button"
+                              onClick={() => sendPaymentLink(req.id, true)}
+                              className="w-full rounded-full border border-blue-200 bg-white px-3 py-1 text-[11px] font-semibold text-blue-700 hover:bg-blue-50 disabled:opacity-60"
+                              disabled={sendingPaymentId === req.id}
+                            >
+                              Send Deposit Link (${(depositOfferCents / 100).toFixed(2)})
                             </button>
                           ) : null}
                           {canPayNow ? (
@@ -567,7 +568,7 @@ export default function EventsRequestsTable() {
                                 border: "1px solid #6d28d9",
                               }}
                             >
-                              Pay Now
+                              {depositPaid ? "Collect Balance" : "Pay Now"}
                             </button>
                           ) : null}
                           {canReschedule ? (
@@ -779,7 +780,22 @@ function RescheduleTimes(props: {
   const { request, dateKey, startMin, setStartMin, partySize, blockedByActivity, setBlockedByActivity, setError } = props;
   const activities = Array.isArray(request.activities) ? request.activities : [];
   const totalDuration = activities.reduce((sum, a) => sum + (Number(a?.durationMinutes) || 0), 0);
-  const openWindow = useMemo(() => getOpenWindowForDateKey(dateKey), [dateKey]);
+  const [storeHours, setStoreHours] = useState<StoreHoursConfig>(EMPTY_STORE_HOURS_CONFIG);
+  const openWindow = useMemo(() => getOpenWindowForDateKey(storeHours, dateKey), [storeHours, dateKey]);
+
+  useEffect(() => {
+    let mounted = true;
+    fetch("/api/store-hours", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (!mounted || !json?.hours) return;
+        setStoreHours(json.hours as StoreHoursConfig);
+      })
+      .catch(() => {});
+    return () => {
+      mounted = false;
+    };
+  }, []);
 
   useEffect(() => {
     if (!openWindow || activities.length === 0 || totalDuration <= 0 || !dateKey) {
@@ -806,8 +822,6 @@ function RescheduleTimes(props: {
             partySize: Number(partySize || 1),
             dateKey,
             durationMinutes,
-            openStartMin: openWindow.openMin,
-            openEndMin: openWindow.closeMin,
             slotIntervalMin: 30,
           }),
         })
@@ -843,7 +857,8 @@ function RescheduleTimes(props: {
     const lastStart = openWindow.closeMin - totalDuration;
     if (lastStart < openWindow.openMin) return [];
     const slots: number[] = [];
-    const nowMin = dateKey === todayDateKeyNY() ? nowMinutesNY() : -1;
+    const now = nowInTimeZone();
+    const nowMin = dateKey === now.dateKey ? now.minutes : -1;
     for (let m = openWindow.openMin; m <= lastStart; m += 30) {
       if (nowMin >= 0 && m < nowMin) continue;
       let offset = 0;
@@ -868,7 +883,7 @@ function RescheduleTimes(props: {
   }, [activities, blockedByActivity, dateKey, openWindow, totalDuration]);
 
   if (!openWindow) {
-    return <div className="text-xs text-zinc-500">Closed on selected day (Mon–Wed).</div>;
+    return <div className="text-xs text-zinc-500">Closed on selected day ({closedWeekdaySummary(storeHours)}).</div>;
   }
 
   if (!activities.length || totalDuration <= 0) {
@@ -896,7 +911,7 @@ function RescheduleTimes(props: {
                   : "border-zinc-200 bg-white text-zinc-700 hover:bg-zinc-50"
               }`}
             >
-              {minutesToLabel(m)} – {minutesToLabel(m + totalDuration)}
+              {formatMinutesRange(m, m + totalDuration)}
             </button>
           );
         })}
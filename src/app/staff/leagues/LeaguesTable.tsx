@@ -0,0 +1,233 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import LocationSelect from "@/components/LocationSelect";
+
+type League = {
+  id: string;
+  name: string;
+  slug: string;
+  series_id: string | null;
+  games_per_week: number;
+  handicap_base: number;
+  handicap_percent: number;
+  status: "ACTIVE" | "COMPLETED";
+  team_count: number;
+};
+
+type SeriesOption = { id: string; name: string; activity: string; occurrences: number; start_date_key: string };
+
+export default function LeaguesTable() {
+  const [locationId, setLocationId] = useState("");
+  const [rows, setRows] = useState<League[]>([]);
+  const [series, setSeries] = useState<SeriesOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const [name, setName] = useState("");
+  const [seriesId, setSeriesId] = useState("");
+  const [gamesPerWeek, setGamesPerWeek] = useState("3");
+  const [handicapBase, setHandicapBase] = useState("200");
+  const [handicapPercent, setHandicapPercent] = useState("80");
+
+  const loadLeagues = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    const params = new URLSearchParams();
+    if (locationId) params.set("location", locationId);
+    const [leaguesRes, seriesRes] = await Promise.all([
+      fetch(`/api/staff/leagues?${params.toString()}`, { cache: "no-store" }),
+      fetch(`/api/staff/booking-series?${params.toString()}`, { cache: "no-store" }),
+    ]);
+    const leaguesJson = await leaguesRes.json().catch(() => ({}));
+    const seriesJson = await seriesRes.json().catch(() => ({}));
+    if (!leaguesRes.ok) {
+      setError(leaguesJson?.error || "Failed to load leagues");
+      setRows([]);
+    } else {
+      setRows(leaguesJson.leagues || []);
+    }
+    setSeries(seriesRes.ok ? seriesJson.series || [] : []);
+    setLoading(false);
+  }, [locationId]);
+
+  useEffect(() => {
+    loadLeagues();
+  }, [loadLeagues]);
+
+  async function createLeague() {
+    if (!name.trim() || !seriesId) {
+      setError("Give the league a name and pick its recurring series.");
+      return;
+    }
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch("/api/staff/leagues", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          seriesId,
+          gamesPerWeek: Number(gamesPerWeek),
+          handicapBase: Number(handicapBase),
+          handicapPercent: Number(handicapPercent),
+          locationId: locationId || undefined,
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error || "Failed to create league");
+        return;
+      }
+      setName("");
+      setSeriesId("");
+      await loadLeagues();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const linkedSeries = new Set(rows.map((row) => row.series_id));
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="mb-1 text-sm font-extrabold text-zinc-900">New league</div>
+        <div className="mb-3 text-xs text-zinc-500">
+          Book the lanes first as a recurring series on the Series page; each occurrence becomes a league week.
+        </div>
+        <div className="grid gap-3 sm:grid-cols-5">
+          <label className="text-xs font-semibold text-zinc-600 sm:col-span-2">
+            League name
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+              placeholder="Thursday Night Duckpin"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600 sm:col-span-3">
+            Recurring series
+            <select
+              value={seriesId}
+              onChange={(e) => setSeriesId(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            >
+              <option value="">Select a series…</option>
+              {series
+                .filter((option) => !linkedSeries.has(option.id))
+                .map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name} · {option.activity} · {option.occurrences} weeks from {option.start_date_key}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Games per week
+            <input
+              value={gamesPerWeek}
+              onChange={(e) => setGamesPerWeek(e.target.value)}
+              type="number"
+              min="1"
+              max="5"
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Handicap base
+            <input
+              value={handicapBase}
+              onChange={(e) => setHandicapBase(e.target.value)}
+              type="number"
+              min="0"
+              max="300"
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Handicap %
+            <input
+              value={handicapPercent}
+              onChange={(e) => setHandicapPercent(e.target.value)}
+              type="number"
+              min="0"
+              max="100"
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <div className="flex items-end gap-2 sm:col-span-2">
+            <LocationSelect value={locationId} onChange={setLocationId} />
+            <button
+              type="button"
+              disabled={busy}
+              onClick={createLeague}
+              className="h-10 rounded-xl bg-zinc-900 px-4 text-sm font-semibold text-white disabled:opacity-60"
+            >
+              {busy ? "Creating..." : "Create League"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="mb-3 flex items-center justify-between gap-3">
+          <div className="text-sm font-extrabold text-zinc-900">Leagues</div>
+          <button
+            type="button"
+            onClick={loadLeagues}
+            className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+          >
+            Refresh
+          </button>
+        </div>
+        {error ? <div className="mb-3 text-sm text-red-600">{error}</div> : null}
+        {loading ? (
+          <div className="text-sm text-zinc-600">Loading leagues…</div>
+        ) : rows.length === 0 ? (
+          <div className="text-sm text-zinc-600">No leagues yet.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-zinc-600">
+              <tr>
+                <th className="py-2">League</th>
+                <th className="py-2">Teams</th>
+                <th className="py-2">Format</th>
+                <th className="py-2">Status</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.id} className="border-t border-zinc-100">
+                  <td className="py-2">
+                    <div className="font-semibold text-zinc-900">{row.name}</div>
+                    <a href={`/leagues/${row.slug}`} target="_blank" rel="noreferrer" className="text-xs text-zinc-500 hover:underline">
+                      /leagues/{row.slug}
+                    </a>
+                  </td>
+                  <td className="py-2">{row.team_count}</td>
+                  <td className="py-2 text-xs text-zinc-600">
+                    {row.games_per_week} games · handicap {row.handicap_percent}% of {row.handicap_base}
+                  </td>
+                  <td className="py-2 text-xs font-semibold text-zinc-700">{row.status}</td>
+                  <td className="py-2 text-right">
+                    <Link
+                      href={`/staff/leagues/${row.id}`}
+                      className="rounded-xl border border-zinc-200 bg-white px-3 py-1 text-xs font-semibold"
+                    >
+                      Manage
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,568 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { formatDateKey, formatMinutesLabel } from "@/lib/dateTime";
+
+type League = {
+  id: string;
+  name: string;
+  slug: string;
+  games_per_week: number;
+  handicap_base: number;
+  handicap_percent: number;
+  status: "ACTIVE" | "COMPLETED";
+};
+
+type Team = { id: string; name: string; members: Array<{ customerId: string; name: string; email: string | null }> };
+type Match = { id: string; week: number; lane: number; homeTeamId: string; awayTeamId: string };
+type Score = { week: number; teamId: string; customerId: string; game: number; pins: number };
+type Week = { week: number; dateKey: string; startMin: number };
+type Side = { teamId: string; name: string; games: number[]; scratch: number; handicap: number; points: number };
+type Result = { matchId: string; week: number; lane: number; home: Side; away: Side };
+type Standing = {
+  teamId: string;
+  name: string;
+  points: number;
+  gamesWon: number;
+  gamesLost: number;
+  scratchPins: number;
+  totalPins: number;
+};
+type Bowler = {
+  customerId: string;
+  name: string;
+  teamName: string;
+  games: number;
+  average: number | null;
+  highGame: number;
+  handicap: number;
+};
+
+type LeagueResponse = {
+  league: League;
+  standingsUrl: string;
+  weeks: Week[];
+  teams: Team[];
+  matches: Match[];
+  scores: Score[];
+  results: Result[];
+  standings: Standing[];
+  bowlers: Bowler[];
+  handicaps: Record<string, Record<string, number>>;
+};
+
+function parseRoster(text: string) {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [name, email, phone] = line.split(",").map((part) => part.trim());
+      return { name: name || "", email: email || "", phone: phone || "" };
+    });
+}
+
+export default function LeagueManager({ leagueId }: { leagueId: string }) {
+  const [data, setData] = useState<LeagueResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const [gamesPerWeek, setGamesPerWeek] = useState("");
+  const [handicapBase, setHandicapBase] = useState("");
+  const [handicapPercent, setHandicapPercent] = useState("");
+
+  const [teamName, setTeamName] = useState("");
+  const [teamRoster, setTeamRoster] = useState("");
+  const [addMemberTeamId, setAddMemberTeamId] = useState("");
+  const [addMemberText, setAddMemberText] = useState("");
+
+  const [week, setWeek] = useState(1);
+  const [edits, setEdits] = useState<Record<string, string>>({});
+
+  const loadLeague = useCallback(async () => {
+    setLoading(true);
+    const res = await fetch(`/api/staff/leagues/${leagueId}`, { cache: "no-store" });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(json?.error || "Failed to load league");
+      setData(null);
+    } else {
+      setData(json);
+      setGamesPerWeek(String(json.league.games_per_week));
+      setHandicapBase(String(json.league.handicap_base));
+      setHandicapPercent(String(json.league.handicap_percent));
+    }
+    setLoading(false);
+  }, [leagueId]);
+
+  useEffect(() => {
+    loadLeague();
+  }, [loadLeague]);
+
+  useEffect(() => {
+    setEdits({});
+  }, [week]);
+
+  async function send(url: string, method: string, payload?: unknown, success?: string) {
+    setBusy(true);
+    setError("");
+    setMessage("");
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: payload === undefined ? undefined : JSON.stringify(payload),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error || "Request failed");
+        return null;
+      }
+      if (success) setMessage(success);
+      await loadLeague();
+      return json;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const scoreByKey = useMemo(() => {
+    const map = new Map<string, number>();
+    for (const score of data?.scores || []) {
+      if (score.week === week) map.set(`${score.customerId}:${score.game}`, score.pins);
+    }
+    return map;
+  }, [data, week]);
+
+  if (loading && !data) return <div className="text-sm text-zinc-600">Loading league…</div>;
+  if (!data) return <div className="text-sm text-red-600">{error || "League not found"}</div>;
+
+  const { league } = data;
+  const teamById = new Map(data.teams.map((team) => [team.id, team]));
+  const weekMatches = data.matches.filter((match) => match.week === week);
+  const weekRow = data.weeks.find((row) => row.week === week);
+  const weekHandicaps = data.handicaps[String(week)] || {};
+  const games = Array.from({ length: league.games_per_week }, (_, idx) => idx + 1);
+
+  function cellValue(customerId: string, game: number) {
+    const key = `${customerId}:${game}`;
+    if (key in edits) return edits[key];
+    const pins = scoreByKey.get(key);
+    return pins == null ? "" : String(pins);
+  }
+
+  async function saveScores() {
+    const scores = Object.entries(edits).map(([key, value]) => {
+      const [customerId, game] = key.split(":");
+      const teamId = data?.teams.find((team) => team.members.some((m) => m.customerId === customerId))?.id || "";
+      return { teamId, customerId, game: Number(game), pins: value.trim() === "" ? null : Number(value) };
+    });
+    if (!scores.length) {
+      setMessage("No changes to save.");
+      return;
+    }
+    const result = await send(`/api/staff/leagues/${leagueId}/scores`, "PUT", { week, scores }, "Scores saved.");
+    if (result) setEdits({});
+  }
+
+  function teamSheet(team: Team | undefined) {
+    if (!team) return null;
+    return (
+      <div className="rounded-xl border border-zinc-200 p-2">
+        <div className="mb-1 text-sm font-semibold text-zinc-900">{team.name}</div>
+        {team.members.length === 0 ? (
+          <div className="text-xs text-zinc-500">No bowlers on the roster.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-zinc-500">
+              <tr>
+                <th className="py-1">Bowler</th>
+                <th className="py-1">Hdcp</th>
+                {games.map((game) => (
+                  <th key={game} className="py-1">
+                    G{game}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {team.members.map((member) => (
+                <tr key={member.customerId}>
+                  <td className="py-1 pr-2">{member.name}</td>
+                  <td className="py-1 pr-2 text-xs text-zinc-500">{weekHandicaps[member.customerId] ?? 0}</td>
+                  {games.map((game) => (
+                    <td key={game} className="py-1 pr-1">
+                      <input
+                        value={cellValue(member.customerId, game)}
+                        onChange={(e) =>
+                          setEdits((prev) => ({ ...prev, [`${member.customerId}:${game}`]: e.target.value }))
+                        }
+                        type="number"
+                        min="0"
+                        max="300"
+                        className="h-8 w-16 rounded-lg border border-zinc-200 px-2 text-sm"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <Link href="/staff/leagues" className="text-xs text-zinc-500 hover:underline">
+              ← All leagues
+            </Link>
+            <div className="text-lg font-extrabold text-zinc-900">{league.name}</div>
+            <a href={data.standingsUrl} target="_blank" rel="noreferrer" className="text-xs text-zinc-500 hover:underline">
+              Public standings
+            </a>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="text-xs font-semibold text-zinc-600">
+              Games
+              <input
+                value={gamesPerWeek}
+                onChange={(e) => setGamesPerWeek(e.target.value)}
+                type="number"
+                min="1"
+                max="5"
+                className="mt-1 h-9 w-16 rounded-xl border border-zinc-200 px-2 text-sm"
+              />
+            </label>
+            <label className="text-xs font-semibold text-zinc-600">
+              Hdcp base
+              <input
+                value={handicapBase}
+                onChange={(e) => setHandicapBase(e.target.value)}
+                type="number"
+                className="mt-1 h-9 w-20 rounded-xl border border-zinc-200 px-2 text-sm"
+              />
+            </label>
+            <label className="text-xs font-semibold text-zinc-600">
+              Hdcp %
+              <input
+                value={handicapPercent}
+                onChange={(e) => setHandicapPercent(e.target.value)}
+                type="number"
+                className="mt-1 h-9 w-16 rounded-xl border border-zinc-200 px-2 text-sm"
+              />
+            </label>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() =>
+                send(
+                  `/api/staff/leagues/${leagueId}`,
+                  "PATCH",
+                  {
+                    gamesPerWeek: Number(gamesPerWeek),
+                    handicapBase: Number(handicapBase),
+                    handicapPercent: Number(handicapPercent),
+                  },
+                  "Settings saved."
+                )
+              }
+              className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-xs font-semibold disabled:opacity-60"
+            >
+              Save settings
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() =>
+                send(
+                  `/api/staff/leagues/${leagueId}`,
+                  "PATCH",
+                  { status: league.status === "ACTIVE" ? "COMPLETED" : "ACTIVE" },
+                  league.status === "ACTIVE" ? "League marked completed." : "League reopened."
+                )
+              }
+              className="h-9 rounded-xl border border-zinc-200 bg-white px-3 text-xs font-semibold disabled:opacity-60"
+            >
+              {league.status === "ACTIVE" ? "Mark completed" : "Reopen"}
+            </button>
+          </div>
+        </div>
+        {error ? <div className="mt-3 text-sm text-red-600">{error}</div> : null}
+        {message ? <div className="mt-3 text-sm text-emerald-700">{message}</div> : null}
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+          <div className="text-sm font-extrabold text-zinc-900">Teams ({data.teams.length})</div>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => {
+              if (!window.confirm("Rebuild the schedule for every week that has no scores yet?")) return;
+              send(`/api/staff/leagues/${leagueId}/schedule`, "POST", {}, "Schedule rebuilt.");
+            }}
+            className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-xs font-semibold disabled:opacity-60"
+          >
+            Build schedule
+          </button>
+        </div>
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {data.teams.map((team) => (
+            <div key={team.id} className="rounded-xl border border-zinc-200 p-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="font-semibold text-zinc-900">{team.name}</div>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => {
+                    if (!window.confirm(`Remove ${team.name}?`)) return;
+                    send(`/api/staff/leagues/${leagueId}/teams/${team.id}`, "DELETE", undefined, "Team removed.");
+                  }}
+                  className="text-xs text-red-700 hover:underline disabled:opacity-60"
+                >
+                  Remove
+                </button>
+              </div>
+              <ul className="mt-2 space-y-1 text-sm">
+                {team.members.map((member) => (
+                  <li key={member.customerId} className="flex items-center justify-between gap-2">
+                    <span>
+                      {member.name}
+                      {member.email ? <span className="text-xs text-zinc-500"> · {member.email}</span> : null}
+                    </span>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() =>
+                        send(`/api/staff/leagues/${leagueId}/teams/${team.id}`, "PATCH", {
+                          removeCustomerId: member.customerId,
+                        })
+                      }
+                      className="text-xs text-zinc-500 hover:underline disabled:opacity-60"
+                    >
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {addMemberTeamId === team.id ? (
+                <div className="mt-2 flex gap-2">
+                  <input
+                    value={addMemberText}
+                    onChange={(e) => setAddMemberText(e.target.value)}
+                    className="h-8 flex-1 rounded-lg border border-zinc-200 px-2 text-xs"
+                    placeholder="Name, email"
+                  />
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={async () => {
+                      const [member] = parseRoster(addMemberText);
+                      if (!member) return;
+                      const result = await send(`/api/staff/leagues/${leagueId}/teams/${team.id}`, "PATCH", {
+                        addMember: member,
+                      });
+                      if (result) {
+                        setAddMemberTeamId("");
+                        setAddMemberText("");
+                      }
+                    }}
+                    className="rounded-lg bg-zinc-900 px-2 text-xs font-semibold text-white disabled:opacity-60"
+                  >
+                    Add
+                  </button>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setAddMemberTeamId(team.id);
+                    setAddMemberText("");
+                  }}
+                  className="mt-2 text-xs font-semibold text-zinc-700 hover:underline"
+                >
+                  + Add bowler
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="rounded-xl border border-dashed border-zinc-300 p-3">
+            <label className="text-xs font-semibold text-zinc-600">
+              New team
+              <input
+                value={teamName}
+                onChange={(e) => setTeamName(e.target.value)}
+                className="mt-1 h-9 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+                placeholder="Team name"
+              />
+            </label>
+            <label className="mt-2 block text-xs font-semibold text-zinc-600">
+              Roster (one bowler per line: name, email, phone)
+              <textarea
+                value={teamRoster}
+                onChange={(e) => setTeamRoster(e.target.value)}
+                className="mt-1 min-h-[80px] w-full rounded-xl border border-zinc-200 px-3 py-2 text-sm"
+              />
+            </label>
+            <button
+              type="button"
+              disabled={busy || !teamName.trim()}
+              onClick={async () => {
+                const result = await send(
+                  `/api/staff/leagues/${leagueId}/teams`,
+                  "POST",
+                  { name: teamName.trim(), members: parseRoster(teamRoster) },
+                  "Team added."
+                );
+                if (result) {
+                  setTeamName("");
+                  setTeamRoster("");
+                }
+              }}
+              className="mt-2 rounded-xl bg-zinc-900 px-3 py-2 text-xs font-semibold text-white disabled:opacity-60"
+            >
+              Add team
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="text-sm font-extrabold text-zinc-900">Scores</div>
+            {weekRow ? (
+              <div className="text-xs text-zinc-500">
+                {formatDateKey(weekRow.dateKey)} · {formatMinutesLabel(weekRow.startMin)}
+              </div>
+            ) : null}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={week}
+              onChange={(e) => setWeek(Number(e.target.value))}
+              className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+            >
+              {data.weeks.map((row) => (
+                <option key={row.week} value={row.week}>
+                  Week {row.week} · {formatDateKey(row.dateKey, "medium")}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={saveScores}
+              className="rounded-xl bg-zinc-900 px-3 py-2 text-sm font-semibold text-white disabled:opacity-60"
+            >
+              Save scores
+            </button>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => {
+                if (!window.confirm(`Email the week ${week} recap to every bowler now?`)) return;
+                send(`/api/staff/leagues/${leagueId}/recap`, "POST", { week }, "Recap sent.");
+              }}
+              className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm disabled:opacity-60"
+            >
+              Send recap
+            </button>
+          </div>
+        </div>
+        {weekMatches.length === 0 ? (
+          <div className="text-sm text-zinc-600">No matches this week. Add teams and build the schedule.</div>
+        ) : (
+          <div className="space-y-3">
+            {weekMatches.map((match) => {
+              const result = data.results.find((row) => row.matchId === match.id);
+              return (
+                <div key={match.id} className="rounded-xl bg-zinc-50 p-3">
+                  <div className="mb-2 flex flex-wrap items-center justify-between gap-2 text-xs font-semibold text-zinc-600">
+                    <span>Lane {match.lane}</span>
+                    {result ? (
+                      <span>
+                        {result.home.name} {result.home.points} – {result.away.points} {result.away.name}
+                      </span>
+                    ) : null}
+                  </div>
+                  <div className="grid gap-3 lg:grid-cols-2">
+                    {teamSheet(teamById.get(match.homeTeamId))}
+                    {teamSheet(teamById.get(match.awayTeamId))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+          <div className="mb-3 text-sm font-extrabold text-zinc-900">Standings</div>
+          <table className="w-full text-sm">
+            <thead className="text-left text-zinc-600">
+              <tr>
+                <th className="py-2">#</th>
+                <th className="py-2">Team</th>
+                <th className="py-2">Pts</th>
+                <th className="py-2">W–L</th>
+                <th className="py-2">Scratch</th>
+                <th className="py-2">Hdcp total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.standings.map((row, idx) => (
+                <tr key={row.teamId} className="border-t border-zinc-100">
+                  <td className="py-2">{idx + 1}</td>
+                  <td className="py-2 font-semibold">{row.name}</td>
+                  <td className="py-2">{row.points}</td>
+                  <td className="py-2">
+                    {row.gamesWon}–{row.gamesLost}
+                  </td>
+                  <td className="py-2">{row.scratchPins}</td>
+                  <td className="py-2">{row.totalPins}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+          <div className="mb-3 text-sm font-extrabold text-zinc-900">Bowlers</div>
+          <table className="w-full text-sm">
+            <thead className="text-left text-zinc-600">
+              <tr>
+                <th className="py-2">Bowler</th>
+                <th className="py-2">Team</th>
+                <th className="py-2">Games</th>
+                <th className="py-2">Avg</th>
+                <th className="py-2">High</th>
+                <th className="py-2">Hdcp</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.bowlers.map((row) => (
+                <tr key={row.customerId} className="border-t border-zinc-100">
+                  <td className="py-2">{row.name}</td>
+                  <td className="py-2 text-xs text-zinc-600">{row.teamName}</td>
+                  <td className="py-2">{row.games}</td>
+                  <td className="py-2">{row.average ?? "—"}</td>
+                  <td className="py-2">{row.highGame || "—"}</td>
+                  <td className="py-2">{row.handicap}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
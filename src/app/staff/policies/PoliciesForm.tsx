@@ -7,6 +7,12 @@ type Policy = {
   cancel_window_hours: number;
   reschedule_window_hours: number;
   refund_policy: string;
+  partial_refund_percent: number | null;
+  late_refund_percent: number | null;
+  retained_fee_percent: number | null;
+  retained_fee_cents: number | null;
+  deposit_party_size: number | null;
+  deposit_percent: number | null;
   notes: string | null;
   updated_at: string;
 };
@@ -20,6 +26,12 @@ export default function PoliciesForm() {
   const [cancelHours, setCancelHours] = useState(24);
   const [reschedHours, setReschedHours] = useState(12);
   const [refundPolicy, setRefundPolicy] = useState("FULL_BEFORE_WINDOW");
+  const [partialPercent, setPartialPercent] = useState(50);
+  const [latePercent, setLatePercent] = useState(0);
+  const [feePercent, setFeePercent] = useState(0);
+  const [feeDollars, setFeeDollars] = useState("0.00");
+  const [depositPartySize, setDepositPartySize] = useState(0);
+  const [depositPercent, setDepositPercent] = useState(25);
   const [notes, setNotes] = useState("");
 
   async function loadPolicy() {
@@ -38,6 +50,12 @@ export default function PoliciesForm() {
       setCancelHours(p.cancel_window_hours);
       setReschedHours(p.reschedule_window_hours);
       setRefundPolicy(p.refund_policy);
+      setPartialPercent(p.partial_refund_percent ?? 50);
+      setLatePercent(p.late_refund_percent ?? 0);
+      setFeePercent(p.retained_fee_percent ?? 0);
+      setFeeDollars(((p.retained_fee_cents ?? 0) / 100).toFixed(2));
+      setDepositPartySize(p.deposit_party_size ?? 0);
+      setDepositPercent(p.deposit_percent ?? 25);
       setNotes(p.notes || "");
     }
     setLoading(false);
@@ -59,6 +77,12 @@ export default function PoliciesForm() {
           cancel_window_hours: cancelHours,
           reschedule_window_hours: reschedHours,
           refund_policy: refundPolicy,
+          partial_refund_percent: partialPercent,
+          late_refund_percent: latePercent,
+          retained_fee_percent: feePercent,
+          retained_fee_cents: Math.round(Number(feeDollars || 0) * 100),
+          deposit_party_size: depositPartySize,
+          deposit_percent: depositPercent,
           notes,
         }),
       });
@@ -112,6 +136,81 @@ export default function PoliciesForm() {
               <option value="NO_REFUND">No refunds</option>
             </select>
           </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Partial Refund Before Window (%)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={partialPercent}
+              disabled={refundPolicy !== "PARTIAL_BEFORE_WINDOW"}
+              onChange={(e) => setPartialPercent(Number(e.target.value))}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm disabled:bg-zinc-50"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Late Cancellation Refund (%)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={latePercent}
+              disabled={refundPolicy === "NO_REFUND"}
+              onChange={(e) => setLatePercent(Number(e.target.value))}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm disabled:bg-zinc-50"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Card Fee Retained (%)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step="0.1"
+              value={feePercent}
+              onChange={(e) => setFeePercent(Number(e.target.value))}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Card Fee Retained ($ per refund)
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={feeDollars}
+              onChange={(e) => setFeeDollars(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <div className="text-xs text-zinc-500 md:col-span-2">
+            Refunds above these amounts need a staff override with a reason.
+          </div>
+          <label className="text-xs font-semibold text-zinc-600">
+            Deposit From Party Size (0 = off)
+            <input
+              type="number"
+              min={0}
+              value={depositPartySize}
+              onChange={(e) => setDepositPartySize(Number(e.target.value))}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Deposit (% of total)
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={depositPercent}
+              disabled={!depositPartySize}
+              onChange={(e) => setDepositPercent(Number(e.target.value))}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm disabled:bg-zinc-50"
+            />
+          </label>
+          <div className="text-xs text-zinc-500 md:col-span-2">
+            Large parties can pay the deposit online and the balance at check-in or by payment link.
+          </div>
           <label className="text-xs font-semibold text-zinc-600 md:col-span-2">
             Notes
             <textarea
@@ -3,24 +3,7 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { loadStripeTerminal, type Terminal, type Reader } from "@stripe/terminal-js";
 import { cardFeeCents } from "@/lib/bookingLogic";
-
-function todayDateKeyNY(): string {
-  return new Intl.DateTimeFormat("en-CA", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(new Date());
-}
-
-function fmtNY(iso: string | null) {
-  if (!iso) return "—";
-  return new Date(iso).toLocaleTimeString("en-US", {
-    timeZone: "America/New_York",
-    hour: "numeric",
-    minute: "2-digit",
-  });
-}
+import { DEFAULT_TIME_ZONE, dateKeyInTimeZone, formatInstant } from "@/lib/dateTime";
 
 type InventoryItem = {
   id: string;
@@ -84,6 +67,7 @@ export default function PosScreen() {
   const [tabModalOpen, setTabModalOpen] = useState(false);
   const [tabDateKey, setTabDateKey] = useState("");
   const [tabBookings, setTabBookings] = useState<BookingOption[]>([]);
+  const [tabTimeZone, setTabTimeZone] = useState<string>(DEFAULT_TIME_ZONE);
   const [tabBookingsLoading, setTabBookingsLoading] = useState(false);
   const [tabBookingsError, setTabBookingsError] = useState("");
   const [tabOffset, setTabOffset] = useState(0);
@@ -222,6 +206,7 @@ export default function PosScreen() {
         return;
       }
       setTabBookings(Array.isArray(json.bookings) ? json.bookings : []);
+      if (json.timeZone) setTabTimeZone(json.timeZone);
       setTabOffset(0);
       setTabSearch("");
     } finally {
@@ -382,12 +367,7 @@ export default function PosScreen() {
   const colorKeyToDark = useMemo(() => {
     const map = new Map<string, boolean>();
     groupedTabBookings.forEach((group, idx) => {
-      const dateKey = new Date(group.start_ts).toLocaleDateString("en-CA", {
-        timeZone: "America/New_York",
-        year: "numeric",
-        month: "2-digit",
-        day: "2-digit",
-      });
+      const dateKey = dateKeyInTimeZone(group.start_ts, tabTimeZone);
       const isCombo = String(group.activity || "").toUpperCase().includes("COMBO");
       const key = isCombo
         ? `${group.customerLabel.trim().toLowerCase()}|${dateKey}`
@@ -397,7 +377,7 @@ export default function PosScreen() {
       }
     });
     return map;
-  }, [groupedTabBookings]);
+  }, [groupedTabBookings, tabTimeZone]);
 
   const visibleTabGroups = groupedTabBookings.slice(tabOffset, tabOffset + 10);
   const totalTabGroups = groupedTabBookings.length;
@@ -1042,12 +1022,8 @@ export default function PosScreen() {
                           {group.customerLabel}
                         </div>
                         <div className="text-xs" style={subTextStyle}>
-                          {new Date(group.start_ts).toLocaleDateString("en-US", {
-                            month: "short",
-                            day: "numeric",
-                            year: "numeric",
-                          })}{" "}
-                          · {fmtNY(group.start_ts)} – {fmtNY(group.end_ts)}
+                          {formatInstant(group.start_ts, tabTimeZone, "date")} ·{" "}
+                          {formatInstant(group.start_ts, tabTimeZone)} – {formatInstant(group.end_ts, tabTimeZone)}
                         </div>
                       </div>
                       <span className="text-xs font-semibold" style={actionTextStyle}>
@@ -0,0 +1,552 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { neededResources, quoteActivityCents, type Activity } from "@/lib/bookingLogic";
+import {
+  DEFAULT_RATE_CARD_CONFIG,
+  describePriceModifier,
+  type PriceModifier,
+  type RateCard,
+  type RateCardConfig,
+  type RatePricePoint,
+} from "@/lib/rateCard";
+import LocationSelect from "@/components/LocationSelect";
+import { minutesToTimeInput, timeInputToMinutes } from "@/lib/dateTime";
+
+type RateCardVersion = RateCard & { createdBy: string | null; createdAt: string | null };
+
+type PriceTableKey = "axePerPerson" | "duckpinPerLane" | "comboAxePerPerson" | "comboDuckpinPerLane";
+
+const PRICE_TABLES: Array<{ key: PriceTableKey; title: string; unit: string }> = [
+  { key: "axePerPerson", title: "Axe Throwing", unit: "per person" },
+  { key: "duckpinPerLane", title: "Duckpin Bowling", unit: "per lane" },
+  { key: "comboAxePerPerson", title: "Combo – Axe Portion", unit: "per person" },
+  { key: "comboDuckpinPerLane", title: "Combo – Duckpin Portion", unit: "per lane" },
+];
+
+const ACTIVITIES: Activity[] = ["Axe Throwing", "Duckpin Bowling", "Combo Package"];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function formatMoney(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function formatDateTime(value: string | null) {
+  if (!value) return "—";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+}
+
+function thresholdsToText(values: number[]) {
+  return values.join(", ");
+}
+
+function textToThresholds(value: string) {
+  return value
+    .split(",")
+    .map((part) => Number(part.trim()))
+    .filter((n) => Number.isFinite(n) && n > 0);
+}
+
+export default function PricingAdmin() {
+  // Empty = default location (also the only one on single-site installs).
+  const [locationId, setLocationId] = useState("");
+  const [active, setActive] = useState<RateCard | null>(null);
+  const [versions, setVersions] = useState<RateCardVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const [draft, setDraft] = useState<RateCardConfig>(DEFAULT_RATE_CARD_CONFIG);
+  const [axeThresholds, setAxeThresholds] = useState(thresholdsToText(DEFAULT_RATE_CARD_CONFIG.axeBayMaxParty));
+  const [laneThresholds, setLaneThresholds] = useState(thresholdsToText(DEFAULT_RATE_CARD_CONFIG.duckpinLaneMaxParty));
+  const [label, setLabel] = useState("");
+  const [effectiveAt, setEffectiveAt] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState("");
+
+  const [previewActivity, setPreviewActivity] = useState<Activity>("Axe Throwing");
+  const [previewPartySize, setPreviewPartySize] = useState(6);
+  const [previewDuration, setPreviewDuration] = useState(60);
+  const [previewComboAxe, setPreviewComboAxe] = useState(60);
+  const [previewComboDuckpin, setPreviewComboDuckpin] = useState(60);
+  const [previewDateKey, setPreviewDateKey] = useState("");
+  const [previewTime, setPreviewTime] = useState("18:00");
+
+  function applyConfig(config: RateCardConfig) {
+    setDraft(config);
+    setAxeThresholds(thresholdsToText(config.axeBayMaxParty));
+    setLaneThresholds(thresholdsToText(config.duckpinLaneMaxParty));
+  }
+
+  async function loadRateCards() {
+    setLoading(true);
+    setError("");
+    const res = await fetch(`/api/staff/rate-cards?location=${encodeURIComponent(locationId)}`, { cache: "no-store" });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(json?.error || "Failed to load pricing.");
+      setLoading(false);
+      return;
+    }
+    const nextActive = json.active as RateCard;
+    setActive(nextActive);
+    setVersions(Array.isArray(json.versions) ? json.versions : []);
+    applyConfig(nextActive.config);
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    loadRateCards();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [locationId]);
+
+  const draftConfig = useMemo<RateCardConfig>(
+    () => ({
+      ...draft,
+      axeBayMaxParty: textToThresholds(axeThresholds),
+      duckpinLaneMaxParty: textToThresholds(laneThresholds),
+    }),
+    [draft, axeThresholds, laneThresholds]
+  );
+
+  const preview = useMemo(() => {
+    const partySize = Math.max(1, Number(previewPartySize) || 1);
+    const isCombo = previewActivity === "Combo Package";
+    const duration = isCombo ? previewComboAxe + previewComboDuckpin : previewDuration;
+    const combo = isCombo ? { axeMinutes: previewComboAxe, duckpinMinutes: previewComboDuckpin } : undefined;
+    const needs = neededResources(previewActivity, partySize, draftConfig);
+    const slot = previewDateKey ? { dateKey: previewDateKey, startMin: timeInputToMinutes(previewTime) ?? 0 } : null;
+    const draftQuote = quoteActivityCents(previewActivity, partySize, duration, combo, draftConfig, slot);
+    const activeQuote = active
+      ? quoteActivityCents(previewActivity, partySize, duration, combo, active.config, slot)
+      : null;
+    return {
+      needs,
+      draftCents: draftQuote.totalCents,
+      draftModifier: draftQuote.modifier,
+      activeCents: activeQuote?.totalCents ?? null,
+    };
+  }, [
+    previewActivity,
+    previewPartySize,
+    previewDuration,
+    previewComboAxe,
+    previewComboDuckpin,
+    previewDateKey,
+    previewTime,
+    draftConfig,
+    active,
+  ]);
+
+  function updatePoint(key: PriceTableKey, index: number, patch: Partial<RatePricePoint>) {
+    setStatus("");
+    setDraft((prev) => ({
+      ...prev,
+      [key]: prev[key].map((point, i) => (i === index ? { ...point, ...patch } : point)),
+    }));
+  }
+
+  function addPoint(key: PriceTableKey) {
+    setStatus("");
+    setDraft((prev) => ({ ...prev, [key]: [...prev[key], { minutes: 60, cents: 0 }] }));
+  }
+
+  function removePoint(key: PriceTableKey, index: number) {
+    setStatus("");
+    setDraft((prev) => ({ ...prev, [key]: prev[key].filter((_, i) => i !== index) }));
+  }
+
+  function updateModifier(index: number, patch: Partial<PriceModifier>) {
+    setStatus("");
+    setDraft((prev) => ({
+      ...prev,
+      priceModifiers: prev.priceModifiers.map((modifier, i) => (i === index ? { ...modifier, ...patch } : modifier)),
+    }));
+  }
+
+  function toggleModifierWeekday(index: number, weekday: number) {
+    const current = draft.priceModifiers[index]?.weekdays ?? [];
+    const weekdays = current.includes(weekday)
+      ? current.filter((d) => d !== weekday)
+      : [...current, weekday].sort((a, b) => a - b);
+    updateModifier(index, { weekdays });
+  }
+
+  function addModifier() {
+    setStatus("");
+    setDraft((prev) => ({
+      ...prev,
+      priceModifiers: [...prev.priceModifiers, { label: "", weekdays: [], startMin: 17 * 60, endMin: 22 * 60, percent: 10 }],
+    }));
+  }
+
+  function removeModifier(index: number) {
+    setStatus("");
+    setDraft((prev) => ({ ...prev, priceModifiers: prev.priceModifiers.filter((_, i) => i !== index) }));
+  }
+
+  async function publish(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setStatus("");
+    try {
+      const res = await fetch("/api/staff/rate-cards", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          label,
+          effective_at: effectiveAt ? new Date(effectiveAt).toISOString() : "",
+          config: draftConfig,
+          location_id: locationId,
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setStatus(json?.error || "Failed to publish pricing.");
+        return;
+      }
+      setLabel("");
+      setEffectiveAt("");
+      await loadRateCards();
+      setStatus(`Published version ${json?.rateCard?.version ?? ""}.`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading && !active) {
+    return <div className="text-sm text-zinc-600">Loading pricing…</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <LocationSelect value={locationId} onChange={setLocationId} />
+      {error ? <div className="text-sm text-red-600">{error}</div> : null}
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="text-sm font-extrabold text-zinc-900">Active Rate Card</div>
+        <div className="text-xs text-zinc-500">
+          {active?.version
+            ? `Version ${active.version}${active.label ? ` – ${active.label}` : ""}, effective ${formatDateTime(active.effectiveAt)}.`
+            : "Using built-in defaults. Publish a version to start managing prices here."}{" "}
+          Bookings keep the version they were sold under.
+        </div>
+      </div>
+
+      <form className="space-y-6" onSubmit={publish}>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          {PRICE_TABLES.map((table) => (
+            <div key={table.key} className="rounded-2xl border border-zinc-200 bg-white p-4">
+              <div className="text-sm font-extrabold text-zinc-900">{table.title}</div>
+              <div className="text-xs text-zinc-500">
+                Price {table.unit} for each duration. Other durations are priced from the 1-hour rate.
+              </div>
+              <div className="mt-3 space-y-2">
+                {draft[table.key].map((point, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_auto] items-center gap-2">
+                    <label className="flex items-center gap-2 text-sm text-zinc-700">
+                      <input
+                        type="number"
+                        min={5}
+                        step={5}
+                        value={point.minutes}
+                        onChange={(e) => updatePoint(table.key, index, { minutes: Number(e.target.value) })}
+                        className="h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+                      />
+                      mins
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-zinc-700">
+                      $
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={point.cents / 100}
+                        onChange={(e) =>
+                          updatePoint(table.key, index, { cents: Math.round(Number(e.target.value) * 100) })
+                        }
+                        className="h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+                      />
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => removePoint(table.key, index)}
+                      className="rounded-lg border border-zinc-200 px-2 py-1 text-xs text-red-600"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => addPoint(table.key)}
+                  className="rounded-lg border border-zinc-200 px-3 py-1 text-xs text-zinc-700"
+                >
+                  Add duration
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+          <div className="text-sm font-extrabold text-zinc-900">Resource Sizing</div>
+          <div className="text-xs text-zinc-500">
+            Max party size for 1, 2, 3… bays or lanes, comma separated. Larger parties use the last count.
+          </div>
+          <div className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-2">
+            <label className="text-sm text-zinc-700">
+              Axe bays
+              <input
+                value={axeThresholds}
+                onChange={(e) => setAxeThresholds(e.target.value)}
+                placeholder="8, 16"
+                className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+              />
+            </label>
+            <label className="text-sm text-zinc-700">
+              Duckpin lanes
+              <input
+                value={laneThresholds}
+                onChange={(e) => setLaneThresholds(e.target.value)}
+                placeholder="6, 12, 18, 24"
+                className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+          <div className="text-sm font-extrabold text-zinc-900">Peak / Off-Peak Modifiers</div>
+          <div className="text-xs text-zinc-500">
+            Percent adjustment to the activity price for slots starting in the window. Use a negative percent for a
+            discount. No days checked means every day; the first matching row wins.
+          </div>
+          <div className="mt-3 space-y-3">
+            {draft.priceModifiers.map((modifier, index) => (
+              <div key={index} className="space-y-2 rounded-xl border border-zinc-100 p-3">
+                <div className="grid grid-cols-1 gap-2 md:grid-cols-[2fr_1fr_1fr_1fr_auto]">
+                  <input
+                    value={modifier.label}
+                    onChange={(e) => updateModifier(index, { label: e.target.value })}
+                    placeholder="Label (e.g. Friday night)"
+                    className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+                  />
+                  <input
+                    type="time"
+                    value={minutesToTimeInput(modifier.startMin)}
+                    onChange={(e) => updateModifier(index, { startMin: timeInputToMinutes(e.target.value) ?? 0 })}
+                    className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+                    title="Starts at"
+                  />
+                  <input
+                    type="time"
+                    value={minutesToTimeInput(modifier.endMin)}
+                    onChange={(e) => updateModifier(index, { endMin: timeInputToMinutes(e.target.value) ?? 0 })}
+                    className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+                    title="Ends before"
+                  />
+                  <label className="flex items-center gap-2 text-sm text-zinc-700">
+                    <input
+                      type="number"
+                      step={1}
+                      value={modifier.percent}
+                      onChange={(e) => updateModifier(index, { percent: Number(e.target.value) })}
+                      className="h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+                    />
+                    %
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => removeModifier(index)}
+                    className="rounded-lg border border-zinc-200 px-2 py-1 text-xs text-red-600"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-3 text-xs text-zinc-700">
+                  {WEEKDAYS.map((day, weekday) => (
+                    <label key={day} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={modifier.weekdays.includes(weekday)}
+                        onChange={() => toggleModifierWeekday(index, weekday)}
+                      />
+                      {day}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={addModifier}
+              className="rounded-lg border border-zinc-200 px-3 py-1 text-xs text-zinc-700"
+            >
+              Add modifier
+            </button>
+          </div>
+        </div>
+
+        <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+          <div className="text-sm font-extrabold text-zinc-900">Quote Preview</div>
+          <div className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-4">
+            <select
+              value={previewActivity}
+              onChange={(e) => setPreviewActivity(e.target.value as Activity)}
+              className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+            >
+              {ACTIVITIES.map((activity) => (
+                <option key={activity} value={activity}>
+                  {activity}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={previewPartySize}
+              onChange={(e) => setPreviewPartySize(Number(e.target.value))}
+              className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+            {previewActivity === "Combo Package" ? (
+              <>
+                <input
+                  type="number"
+                  min={15}
+                  step={15}
+                  value={previewComboAxe}
+                  onChange={(e) => setPreviewComboAxe(Number(e.target.value))}
+                  className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+                  title="Axe minutes"
+                />
+                <input
+                  type="number"
+                  min={15}
+                  step={15}
+                  value={previewComboDuckpin}
+                  onChange={(e) => setPreviewComboDuckpin(Number(e.target.value))}
+                  className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+                  title="Duckpin minutes"
+                />
+              </>
+            ) : (
+              <input
+                type="number"
+                min={15}
+                step={15}
+                value={previewDuration}
+                onChange={(e) => setPreviewDuration(Number(e.target.value))}
+                className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+                title="Minutes"
+              />
+            )}
+          </div>
+          <div className="mt-2 grid grid-cols-1 gap-2 md:grid-cols-4">
+            <input
+              type="date"
+              value={previewDateKey}
+              onChange={(e) => setPreviewDateKey(e.target.value)}
+              className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+              title="Date (for modifiers)"
+            />
+            <input
+              type="time"
+              value={previewTime}
+              onChange={(e) => setPreviewTime(e.target.value)}
+              className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+              title="Start time (for modifiers)"
+            />
+          </div>
+          <div className="mt-3 text-sm text-zinc-700">
+            {preview.needs.AXE ? `${preview.needs.AXE} bay(s)` : null}
+            {preview.needs.AXE && preview.needs.DUCKPIN ? " + " : null}
+            {preview.needs.DUCKPIN ? `${preview.needs.DUCKPIN} lane(s)` : null} · Draft{" "}
+            <span className="font-semibold text-zinc-900">{formatMoney(preview.draftCents)}</span>
+            {preview.draftModifier ? ` (${describePriceModifier(preview.draftModifier)})` : null}
+            {preview.activeCents != null ? ` · Active ${formatMoney(preview.activeCents)}` : null}
+          </div>
+        </div>
+
+        <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+          <div className="text-sm font-extrabold text-zinc-900">Publish</div>
+          <div className="text-xs text-zinc-500">Leave the date blank to take effect immediately.</div>
+          <div className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-2">
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label (e.g. 2026 summer prices)"
+              className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+            <input
+              type="datetime-local"
+              value={effectiveAt}
+              onChange={(e) => setEffectiveAt(e.target.value)}
+              className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </div>
+          {status ? <div className="mt-2 text-sm text-zinc-700">{status}</div> : null}
+          <button
+            type="submit"
+            disabled={saving}
+            className="mt-3 h-10 w-full rounded-xl bg-zinc-900 text-sm font-semibold text-white hover:bg-zinc-800 disabled:opacity-60"
+          >
+            {saving ? "Publishing..." : "Publish New Version"}
+          </button>
+        </div>
+      </form>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="text-sm font-extrabold text-zinc-900">Version History</div>
+        <div className="mt-3 overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-zinc-600">
+              <tr>
+                <th className="py-2">Version</th>
+                <th className="py-2">Label</th>
+                <th className="py-2">Effective</th>
+                <th className="py-2">Published By</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map((row) => (
+                <tr key={row.version} className="border-t border-zinc-100">
+                  <td className="py-2">
+                    v{row.version}
+                    {active?.version === row.version ? (
+                      <span className="ml-2 rounded-full bg-emerald-100 px-2 py-0.5 text-[10px] font-semibold text-emerald-700">
+                        Active
+                      </span>
+                    ) : null}
+                  </td>
+                  <td className="py-2">{row.label || "—"}</td>
+                  <td className="py-2">{formatDateTime(row.effectiveAt)}</td>
+                  <td className="py-2">{row.createdBy || "—"}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => applyConfig(row.config)}
+                      className="rounded-lg border border-zinc-200 px-2 py-1 text-xs text-zinc-700"
+                    >
+                      Load into editor
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {!versions.length ? (
+                <tr>
+                  <td colSpan={5} className="py-2 text-zinc-500">
+                    No published versions yet.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { addDaysToDateKey, dateKeyInTimeZone, DEFAULT_TIME_ZONE, formatInstant } from "@/lib/dateTime";
+
+type RunSummary = {
+  intents: number;
+  chargedCents: number;
+  refundedCents: number;
+  payouts: number;
+  paidOutCents: number;
+  issuesFound: number;
+  newIssues: number;
+};
+
+type ReconciliationRun = {
+  id: string;
+  start_date: string;
+  end_date: string;
+  status: "RUNNING" | "COMPLETED" | "FAILED";
+  summary: RunSummary | null;
+  error_message: string | null;
+  created_by: string | null;
+  started_at: string;
+  finished_at: string | null;
+};
+
+type ReconciliationIssue = {
+  id: string;
+  run_id: string;
+  kind: string;
+  source: "BOOKING" | "POS_SALE" | "EVENT_REQUEST" | "STRIPE";
+  record_id: string | null;
+  payment_intent_id: string | null;
+  stripe_cents: number | null;
+  db_cents: number | null;
+  detail: string | null;
+  status: "OPEN" | "FIXED" | "IGNORED";
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+  fixable: boolean;
+};
+
+const KIND_LABELS: Record<string, string> = {
+  UNPAID_IN_DB: "Paid in Stripe, unpaid here",
+  MISSING_INTENT_LINK: "Missing payment link",
+  PAID_IN_DB_ONLY: "Paid here, not in Stripe",
+  AMOUNT_MISMATCH: "Amount mismatch",
+  REFUND_NOT_RECORDED: "Refund not recorded",
+  ORPHAN_INTENT: "Orphan payment",
+  PAYOUT_FAILED: "Payout failed",
+  PAYOUT_MISMATCH: "Payout amount mismatch",
+};
+
+const SOURCE_LABELS: Record<ReconciliationIssue["source"], string> = {
+  BOOKING: "Booking",
+  POS_SALE: "POS sale",
+  EVENT_REQUEST: "Event request",
+  STRIPE: "Stripe",
+};
+
+const STATUS_STYLES: Record<ReconciliationIssue["status"], string> = {
+  OPEN: "bg-amber-100 text-amber-800",
+  FIXED: "bg-emerald-100 text-emerald-700",
+  IGNORED: "bg-zinc-100 text-zinc-600",
+};
+
+function formatMoney(cents: number | null | undefined) {
+  return cents == null ? "—" : `$${(cents / 100).toFixed(2)}`;
+}
+
+function formatTs(value: string | null) {
+  return value ? formatInstant(value, DEFAULT_TIME_ZONE, "dateTime") : "—";
+}
+
+export default function ReconciliationPanel() {
+  const todayKey = dateKeyInTimeZone(new Date(), DEFAULT_TIME_ZONE);
+  const [startDate, setStartDate] = useState(() => addDaysToDateKey(todayKey, -7));
+  const [endDate, setEndDate] = useState(() => addDaysToDateKey(todayKey, -1));
+  const [statusFilter, setStatusFilter] = useState<"OPEN" | "ALL">("OPEN");
+  const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+  const [issues, setIssues] = useState<ReconciliationIssue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [busyId, setBusyId] = useState("");
+  const [error, setError] = useState("");
+  const [status, setStatus] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    const res = await fetch(`/api/staff/reconciliation?status=${statusFilter}`, { cache: "no-store" });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(json?.error || "Failed to load reconciliation");
+      setRuns([]);
+      setIssues([]);
+    } else {
+      setRuns(json.runs || []);
+      setIssues(json.issues || []);
+    }
+    setLoading(false);
+  }, [statusFilter]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function runNow() {
+    setRunning(true);
+    setError("");
+    setStatus("");
+    try {
+      const res = await fetch("/api/staff/reconciliation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ startDate, endDate }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error || "Reconciliation failed");
+        return;
+      }
+      const summary: RunSummary | undefined = json.summary;
+      setStatus(
+        summary
+          ? `Checked ${summary.intents} payment(s); ${summary.newIssues} new issue(s) of ${summary.issuesFound} found.`
+          : "Reconciliation finished."
+      );
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Reconciliation failed");
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  async function resolveIssue(issue: ReconciliationIssue, action: "FIX" | "IGNORE") {
+    if (action === "IGNORE" && !window.confirm("Ignore this issue? Later runs won't flag it again.")) return;
+    setBusyId(issue.id);
+    setError("");
+    setStatus("");
+    try {
+      const res = await fetch(`/api/staff/reconciliation/issues/${issue.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error || "Failed to update issue");
+        return;
+      }
+      setStatus(action === "FIX" ? "Issue fixed." : "Issue ignored.");
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update issue");
+    } finally {
+      setBusyId("");
+    }
+  }
+
+  const latestRun = runs[0];
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <div className="text-sm font-extrabold text-zinc-900">Reconcile Stripe payments</div>
+            <div className="text-xs text-zinc-500">
+              Compares Stripe charges, refunds and payouts with bookings, POS sales and event requests. Runs daily
+              for the last three days.
+            </div>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="text-xs text-zinc-600">
+              From
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="mt-1 block h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+              />
+            </label>
+            <label className="text-xs text-zinc-600">
+              To
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="mt-1 block h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={runNow}
+              disabled={running || !startDate || !endDate}
+              className="h-10 rounded-xl bg-zinc-900 px-3 text-sm font-semibold text-white disabled:opacity-60"
+            >
+              {running ? "Running..." : "Run Now"}
+            </button>
+          </div>
+        </div>
+        {latestRun ? (
+          <div className="mt-3 grid gap-2 text-xs text-zinc-700 sm:grid-cols-4">
+            <div>
+              Last run: {latestRun.start_date} – {latestRun.end_date} ({latestRun.status.toLowerCase()})
+            </div>
+            <div>Started {formatTs(latestRun.started_at)}</div>
+            {latestRun.summary ? (
+              <>
+                <div>
+                  {latestRun.summary.intents} payment(s), {formatMoney(latestRun.summary.chargedCents)} charged,{" "}
+                  {formatMoney(latestRun.summary.refundedCents)} refunded
+                </div>
+                <div>
+                  {latestRun.summary.payouts} payout(s), {formatMoney(latestRun.summary.paidOutCents)} paid out
+                </div>
+              </>
+            ) : null}
+            {latestRun.error_message ? (
+              <div className="text-red-600 sm:col-span-4">{latestRun.error_message}</div>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+          <div className="text-sm font-extrabold text-zinc-900">
+            {statusFilter === "OPEN" ? "Open issues" : "All issues"}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value === "ALL" ? "ALL" : "OPEN")}
+              className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+            >
+              <option value="OPEN">Open</option>
+              <option value="ALL">All</option>
+            </select>
+            <button
+              type="button"
+              onClick={load}
+              className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+            >
+              Refresh
+            </button>
+          </div>
+        </div>
+        {error ? <div className="mb-3 text-sm text-red-600">{error}</div> : null}
+        {status ? <div className="mb-3 text-sm text-emerald-700">{status}</div> : null}
+        {loading ? (
+          <div className="text-sm text-zinc-600">Loading reconciliation…</div>
+        ) : issues.length === 0 ? (
+          <div className="text-sm text-zinc-600">No reconciliation issues.</div>
+        ) : (
+          <div className="overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-zinc-600">
+                <tr>
+                  <th className="py-2">Issue</th>
+                  <th className="py-2">Record</th>
+                  <th className="py-2">Stripe</th>
+                  <th className="py-2">Ours</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {issues.map((issue) => (
+                  <tr key={issue.id} className="border-t border-zinc-100 align-top">
+                    <td className="py-2">
+                      <div className="font-semibold text-zinc-900">{KIND_LABELS[issue.kind] || issue.kind}</div>
+                      <div className="max-w-md text-xs text-zinc-600">{issue.detail}</div>
+                    </td>
+                    <td className="py-2 text-xs text-zinc-700">
+                      <div>{SOURCE_LABELS[issue.source] || issue.source}</div>
+                      {issue.record_id ? <div className="font-mono text-zinc-500">{issue.record_id}</div> : null}
+                      {issue.payment_intent_id ? (
+                        <div className="font-mono text-zinc-500">{issue.payment_intent_id}</div>
+                      ) : null}
+                    </td>
+                    <td className="py-2">{formatMoney(issue.stripe_cents)}</td>
+                    <td className="py-2">{formatMoney(issue.db_cents)}</td>
+                    <td className="py-2">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_STYLES[issue.status]}`}>
+                        {issue.status}
+                      </span>
+                      {issue.resolved_at ? (
+                        <div className="mt-1 text-xs text-zinc-500">
+                          {formatTs(issue.resolved_at)}
+                          {issue.resolved_by ? ` · ${issue.resolved_by}` : ""}
+                        </div>
+                      ) : (
+                        <div className="mt-1 text-xs text-zinc-500">Found {formatTs(issue.created_at)}</div>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {issue.status === "OPEN" ? (
+                        <div className="flex justify-end gap-2">
+                          {issue.fixable ? (
+                            <button
+                              type="button"
+                              onClick={() => resolveIssue(issue, "FIX")}
+                              disabled={!!busyId}
+                              className="rounded-xl bg-zinc-900 px-3 py-1 text-xs font-semibold text-white disabled:opacity-60"
+                            >
+                              {busyId === issue.id ? "Working..." : "Fix"}
+                            </button>
+                          ) : null}
+                          <button
+                            type="button"
+                            onClick={() => resolveIssue(issue, "IGNORE")}
+                            disabled={!!busyId}
+                            className="rounded-xl border border-zinc-200 bg-white px-3 py-1 text-xs font-semibold disabled:opacity-60"
+                          >
+                            Ignore
+                          </button>
+                        </div>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
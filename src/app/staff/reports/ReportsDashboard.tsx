@@ -2,6 +2,14 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import { comboAxePersonCents, comboDuckpinLaneCents, duckpinLanesForParty } from "@/lib/bookingLogic";
+import {
+  DEFAULT_TIME_ZONE,
+  dateKeyFromLocalDate,
+  dateKeyInTimeZone,
+  formatDateKey,
+  nowInTimeZone,
+  weekStartDateKey,
+} from "@/lib/dateTime";
 
 type BookingRow = {
   id: string;
@@ -16,6 +24,8 @@ type BookingRow = {
   paid?: boolean | null;
   payment_intent_id?: string | null;
   tip_cents?: number | null;
+  deposit_cents?: number | null;
+  balance_due_cents?: number | null;
 };
 type CashSaleRow = {
   activity: string | null;
@@ -60,6 +70,11 @@ type StaffUserRow = {
   staff_id: string;
   full_name: string | null;
 };
+type RefundRow = {
+  method: "CARD" | "CREDIT";
+  amount_cents: number | null;
+  created_at: string;
+};
 type TimeClockSummaryRow = {
   staff_id: string;
   full_name: string | null;
@@ -76,52 +91,6 @@ const INVESTMENT_CENTS = 160_000 * 100;
 const PAYMENT_LOG_STORAGE_KEY = "axequacks:payment-log";
 const REPORTS_CUTOFF_DATE = "2026-01-01";
 
-function toNYDateParts(date: Date) {
-  const parts = new Intl.DateTimeFormat("en-US", {
-    timeZone: "America/New_York",
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).formatToParts(date);
-  const map: Record<string, string> = {};
-  for (const p of parts) if (p.type !== "literal") map[p.type] = p.value;
-  return {
-    year: Number(map.year),
-    month: Number(map.month),
-    day: Number(map.day),
-  };
-}
-
-function dateKeyNY(date: Date) {
-  const { year, month, day } = toNYDateParts(date);
-  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
-}
-
-function weekStartKeyNY(date: Date) {
-  const { year, month, day } = toNYDateParts(date);
-  const utc = new Date(Date.UTC(year, month - 1, day));
-  const weekday = utc.getUTCDay();
-  const diffToMon = (weekday + 6) % 7;
-  const monday = new Date(utc.getTime() - diffToMon * 24 * 60 * 60 * 1000);
-  return dateKeyNY(monday);
-}
-
-function monthKeyNY(date: Date) {
-  const { year, month } = toNYDateParts(date);
-  return `${year}-${String(month).padStart(2, "0")}`;
-}
-
-function yearKeyNY(date: Date) {
-  const { year } = toNYDateParts(date);
-  return String(year);
-}
-
-function monthLabelNY(date: Date) {
-  const { year, month } = toNYDateParts(date);
-  const label = new Date(year, month - 1, 1).toLocaleDateString("en-US", { month: "long", year: "numeric" });
-  return label;
-}
-
 function normalizeDateInput(value: string) {
   const trimmed = value.trim();
   if (!trimmed) return null;
@@ -184,6 +153,7 @@ function parsePaymentAmountCents(entry: string) {
 
 export default function ReportsDashboard() {
   const [bookings, setBookings] = useState<BookingRow[]>([]);
+  const [timeZone, setTimeZone] = useState<string>(DEFAULT_TIME_ZONE);
   const [allBookings, setAllBookings] = useState<BookingRow[]>([]);
   const [cashSales, setCashSales] = useState<CashSaleRow[]>([]);
   const [allCashSales, setAllCashSales] = useState<CashSaleRow[]>([]);
@@ -192,6 +162,7 @@ export default function ReportsDashboard() {
   const [posCashSales, setPosCashSales] = useState<PosCashSaleRow[]>([]);
   const [tips, setTips] = useState<TipRow[]>([]);
   const [staffUsers, setStaffUsers] = useState<StaffUserRow[]>([]);
+  const [refunds, setRefunds] = useState<RefundRow[]>([]);
   const [timeClockSummary, setTimeClockSummary] = useState<TimeClockSummaryRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
@@ -204,11 +175,9 @@ export default function ReportsDashboard() {
 
   useEffect(() => {
     if (startDate || endDate) return;
-    const now = new Date();
-    const { year, month } = toNYDateParts(now);
+    const [year, month] = nowInTimeZone().dateKey.split("-").map(Number);
     const start = `${year}-${String(month).padStart(2, "0")}-01`;
-    const endDateObj = new Date(year, month, 0);
-    const end = dateKeyNY(endDateObj);
+    const end = dateKeyFromLocalDate(new Date(year, month, 0));
     setStartDate(start);
     setEndDate(end);
   }, [startDate, endDate]);
@@ -222,6 +191,7 @@ export default function ReportsDashboard() {
       setPosItems([]);
       setTips([]);
       setStaffUsers([]);
+      setRefunds([]);
       setTimeClockSummary([]);
       setLoading(false);
       return;
@@ -237,12 +207,14 @@ export default function ReportsDashboard() {
       return;
     }
     setBookings(json.bookings || []);
+    if (json.timeZone) setTimeZone(json.timeZone);
     setCashSales(json.cashSales || []);
     setPosItems(json.posItems || []);
     setPosSales(json.posSales || []);
     setPosCashSales(json.posCashSales || []);
     setTips(json.tips || []);
     setStaffUsers(json.staffUsers || []);
+    setRefunds(json.refunds || []);
     if (json.timeClockSummary) {
       setTimeClockSummary(json.timeClockSummary || []);
     }
@@ -389,6 +361,17 @@ export default function ReportsDashboard() {
       }
     }
 
+    // Deposit bookings stay unpaid until the balance is collected; the deposit itself was a card charge.
+    let depositCents = 0;
+    let balanceDueCents = 0;
+    for (const row of bookings) {
+      if ((row.status ?? "CONFIRMED") === "CANCELLED" || row.paid === true) continue;
+      if (!Number(row.balance_due_cents || 0)) continue;
+      depositCents += Number(row.deposit_cents || 0);
+      balanceDueCents += Number(row.balance_due_cents || 0);
+    }
+    cardBookingCents += depositCents;
+
     let posCardCents = 0;
     for (const row of posItems) {
       posCardCents += Number(row.line_total_cents || 0);
@@ -415,9 +398,21 @@ export default function ReportsDashboard() {
       grandTotal,
       cardPct,
       cashPct,
+      depositCents,
+      balanceDueCents,
     };
   }, [bookings, posItems, cashSales]);
 
+  const refundTotals = useMemo(() => {
+    let cardCents = 0;
+    let creditCents = 0;
+    for (const row of refunds) {
+      if (row.method === "CREDIT") creditCents += Number(row.amount_cents || 0);
+      else cardCents += Number(row.amount_cents || 0);
+    }
+    return { cardCents, creditCents };
+  }, [refunds]);
+
   const tipsByStaff = useMemo(() => {
     const nameById = new Map<string, string>();
     for (const staff of staffUsers) {
@@ -549,23 +544,24 @@ export default function ReportsDashboard() {
       if (!b.start_ts) continue;
       const date = new Date(b.start_ts);
       if (Number.isNaN(date.getTime())) continue;
+      // Bucket by the business day at the location, not the viewer's clock.
+      const dayKey = dateKeyInTimeZone(date, timeZone);
       let key = "";
       let label = "";
       let sortKey = date.getTime();
-      if (viewMode === "day") key = dateKeyNY(date);
-      if (viewMode === "week") key = weekStartKeyNY(date);
-      if (viewMode === "month") key = monthKeyNY(date);
-      if (viewMode === "year") key = yearKeyNY(date);
+      if (viewMode === "day") key = dayKey;
+      if (viewMode === "week") key = weekStartDateKey(dayKey);
+      if (viewMode === "month") key = dayKey.slice(0, 7);
+      if (viewMode === "year") key = dayKey.slice(0, 4);
 
       if (viewMode === "day") label = key;
       if (viewMode === "week") label = `Week of ${key}`;
-      if (viewMode === "month") label = monthLabelNY(date);
+      if (viewMode === "month") label = formatDateKey(`${key}-01`, "month");
       if (viewMode === "year") label = key;
 
-      if (viewMode === "day") sortKey = new Date(dateKeyNY(date)).getTime();
-      if (viewMode === "week") sortKey = new Date(weekStartKeyNY(date)).getTime();
-      if (viewMode === "month") sortKey = new Date(`${monthKeyNY(date)}-01`).getTime();
-      if (viewMode === "year") sortKey = new Date(`${yearKeyNY(date)}-01-01`).getTime();
+      if (viewMode === "day" || viewMode === "week") sortKey = new Date(key).getTime();
+      if (viewMode === "month") sortKey = new Date(`${key}-01`).getTime();
+      if (viewMode === "year") sortKey = new Date(`${key}-01-01`).getTime();
 
       const entry = map.get(key);
       if (entry) {
@@ -575,7 +571,7 @@ export default function ReportsDashboard() {
       }
     }
     return Array.from(map.values()).sort((a, b) => a.sortKey - b.sortKey);
-  }, [filteredByCategory, viewMode]);
+  }, [filteredByCategory, viewMode, timeZone]);
 
   const duckpinRevenueCents = useMemo(() => {
     let total = 0;
@@ -807,6 +803,32 @@ export default function ReportsDashboard() {
               <div className="text-xs font-semibold text-zinc-600 md:col-span-2">
                 Total processed: {formatMoney(paymentBreakdown.grandTotal)}
               </div>
+              {paymentBreakdown.depositCents || paymentBreakdown.balanceDueCents ? (
+                <div className="rounded-xl border border-zinc-100 bg-zinc-50 p-3 md:col-span-2">
+                  <div className="text-xs font-semibold text-zinc-500">Deposits</div>
+                  <div className="mt-2 flex flex-wrap gap-x-6 gap-y-1 text-xs text-zinc-600">
+                    <span>
+                      Deposits paid:{" "}
+                      <span className="font-semibold">{formatMoney(paymentBreakdown.depositCents)}</span>
+                    </span>
+                    <span>
+                      Balance due:{" "}
+                      <span className="font-semibold">{formatMoney(paymentBreakdown.balanceDueCents)}</span>
+                    </span>
+                  </div>
+                </div>
+              ) : null}
+              <div className="rounded-xl border border-zinc-100 bg-zinc-50 p-3 md:col-span-2">
+                <div className="text-xs font-semibold text-zinc-500">Refunds</div>
+                <div className="mt-2 flex flex-wrap gap-x-6 gap-y-1 text-xs text-zinc-600">
+                  <span>
+                    Card refunds: <span className="font-semibold">{formatMoney(refundTotals.cardCents)}</span>
+                  </span>
+                  <span>
+                    Store credit issued: <span className="font-semibold">{formatMoney(refundTotals.creditCents)}</span>
+                  </span>
+                </div>
+              </div>
             </div>
           )}
         </div>
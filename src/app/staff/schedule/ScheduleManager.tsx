@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import { dateKeyFromLocalDate, formatMinutesLabel, localDateFromDateKey, timeInputToMinutes } from "@/lib/dateTime";
 
 type StaffUser = {
   id: string;
@@ -23,44 +24,10 @@ type ShiftRow = {
   } | null;
 };
 
-function timeToMinutes(value: string) {
-  const [h, m] = value.split(":").map((part) => Number(part));
-  if (!Number.isFinite(h) || !Number.isFinite(m)) return 0;
-  return h * 60 + m;
-}
-
-function toDateKey(date: Date) {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
-
-function fromDateKey(dateKey: string) {
-  const [year, month, day] = dateKey.split("-").map((part) => Number(part));
-  return new Date(year, (month || 1) - 1, day || 1);
-}
-
-function minutesToLabel(minutes: number) {
-  const h = Math.floor(minutes / 60);
-  const m = minutes % 60;
-  const suffix = h >= 12 ? "PM" : "AM";
-  const hour12 = ((h + 11) % 12) + 1;
-  return `${hour12}:${String(m).padStart(2, "0")} ${suffix}`;
-}
-
-function todayKey() {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, "0");
-  const day = String(now.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
-
 function MonthCalendar(props: { selectedDateKey: string; onSelectDateKey: (dateKey: string) => void }) {
   const { selectedDateKey, onSelectDateKey } = props;
   const [cursor, setCursor] = useState(() => {
-    const base = selectedDateKey ? fromDateKey(selectedDateKey) : new Date();
+    const base = selectedDateKey ? localDateFromDateKey(selectedDateKey) : new Date();
     return new Date(base.getFullYear(), base.getMonth(), 1);
   });
 
@@ -117,7 +84,7 @@ function MonthCalendar(props: { selectedDateKey: string; onSelectDateKey: (dateK
         {days.map((cell, idx) => {
           if (!cell.date) return <div key={idx} className="h-9 rounded-xl bg-transparent sm:h-10" />;
 
-          const dk = toDateKey(cell.date);
+          const dk = dateKeyFromLocalDate(cell.date);
           const selected = selectedDateKey === dk;
           return (
             <button
@@ -146,12 +113,12 @@ export default function ScheduleManager() {
   const [formError, setFormError] = useState("");
   const [editingId, setEditingId] = useState<string | null>(null);
 
-  const [startDate, setStartDate] = useState(todayKey());
-  const [endDate, setEndDate] = useState(todayKey());
-  const [selectedDateKey, setSelectedDateKey] = useState(todayKey());
+  const [startDate, setStartDate] = useState(dateKeyFromLocalDate(new Date()));
+  const [endDate, setEndDate] = useState(dateKeyFromLocalDate(new Date()));
+  const [selectedDateKey, setSelectedDateKey] = useState(dateKeyFromLocalDate(new Date()));
 
   const [staffUserId, setStaffUserId] = useState("");
-  const [shiftDate, setShiftDate] = useState(todayKey());
+  const [shiftDate, setShiftDate] = useState(dateKeyFromLocalDate(new Date()));
   const [startTime, setStartTime] = useState("09:00");
   const [endTime, setEndTime] = useState("17:00");
   const [notes, setNotes] = useState("");
@@ -189,7 +156,7 @@ export default function ScheduleManager() {
   function resetForm() {
     setEditingId(null);
     setStaffUserId("");
-    setShiftDate(todayKey());
+    setShiftDate(dateKeyFromLocalDate(new Date()));
     setStartTime("09:00");
     setEndTime("17:00");
     setNotes("");
@@ -205,8 +172,8 @@ export default function ScheduleManager() {
     const payload = {
       staff_user_id: staffUserId,
       shift_date: shiftDate,
-      start_min: timeToMinutes(startTime),
-      end_min: timeToMinutes(endTime),
+      start_min: timeInputToMinutes(startTime) ?? 0,
+      end_min: timeInputToMinutes(endTime) ?? 0,
       notes,
     };
     const res = await fetch("/api/staff/schedule", {
@@ -366,7 +333,7 @@ export default function ScheduleManager() {
                         <td className="py-2 text-center">{row.shift_date}</td>
                         <td className="py-2 text-center">{staffLabel.get(row.staff_user_id) || row.staff_user_id}</td>
                         <td className="py-2 text-center">
-                          {minutesToLabel(row.start_min)} - {minutesToLabel(row.end_min)}
+                          {formatMinutesLabel(row.start_min)} - {formatMinutesLabel(row.end_min)}
                         </td>
                         <td className="py-2 text-center">{row.notes || "—"}</td>
                         <td className="py-2 text-center">
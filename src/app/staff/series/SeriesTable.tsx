@@ -0,0 +1,617 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import LocationSelect from "@/components/LocationSelect";
+import {
+  DEFAULT_TIME_ZONE,
+  formatDateKey,
+  formatInstant,
+  formatMinutesLabel,
+  minutesToTimeInput,
+  timeInputToMinutes,
+  weekdayForDateKey,
+} from "@/lib/dateTime";
+
+type Occurrence = {
+  index: number;
+  dateKey: string;
+  resources: Array<{ type: string; count: number; resource_id?: string }>;
+  conflict: string | null;
+  bookingId: string | null;
+};
+
+type SeriesBooking = {
+  id: string;
+  series_index: number | null;
+  start_ts: string;
+  end_ts: string;
+  status: string | null;
+  paid: boolean | null;
+};
+
+type Series = {
+  id: string;
+  name: string;
+  activity: string;
+  party_size: number;
+  start_date_key: string;
+  start_min: number;
+  duration_minutes: number;
+  interval_weeks: number;
+  occurrences: number;
+  customer_name: string;
+  customer_email: string | null;
+  paid: boolean;
+  notes: string | null;
+  status: "ACTIVE" | "CANCELLED";
+  bookings: SeriesBooking[];
+};
+
+type ActivityOption = { name: string };
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function describeRule(series: Pick<Series, "start_date_key" | "start_min" | "duration_minutes" | "interval_weeks">) {
+  const every = series.interval_weeks > 1 ? `Every ${series.interval_weeks} weeks on` : "Every";
+  const endMin = series.start_min + series.duration_minutes;
+  return `${every} ${WEEKDAYS[weekdayForDateKey(series.start_date_key)]} ${formatMinutesLabel(
+    series.start_min
+  )}–${formatMinutesLabel(endMin)}`;
+}
+
+function describeResources(resources: Occurrence["resources"]) {
+  return resources
+    .map((resource) => (resource.resource_id ? "Party area" : `${resource.count} ${resource.type.toLowerCase()}`))
+    .join(", ");
+}
+
+export default function SeriesTable() {
+  const [locationId, setLocationId] = useState("");
+  const [statusFilter, setStatusFilter] = useState<"ACTIVE" | "ALL">("ACTIVE");
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [rows, setRows] = useState<Series[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [activities, setActivities] = useState<ActivityOption[]>([]);
+
+  const [name, setName] = useState("");
+  const [activity, setActivity] = useState("Duckpin Bowling");
+  const [startDateKey, setStartDateKey] = useState("");
+  const [startTime, setStartTime] = useState("19:00");
+  const [durationMinutes, setDurationMinutes] = useState("120");
+  const [partySize, setPartySize] = useState("");
+  const [intervalWeeks, setIntervalWeeks] = useState("1");
+  const [occurrences, setOccurrences] = useState("10");
+  const [customerName, setCustomerName] = useState("");
+  const [customerEmail, setCustomerEmail] = useState("");
+  const [customerPhone, setCustomerPhone] = useState("");
+  const [price, setPrice] = useState("");
+  const [paid, setPaid] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [preview, setPreview] = useState<Occurrence[] | null>(null);
+
+  const [openId, setOpenId] = useState("");
+  const [moveTime, setMoveTime] = useState("");
+
+  const loadSeries = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    const params = new URLSearchParams({ status: statusFilter });
+    if (locationId) params.set("location", locationId);
+    const res = await fetch(`/api/staff/booking-series?${params.toString()}`, { cache: "no-store" });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(json?.error || "Failed to load series");
+      setRows([]);
+    } else {
+      setRows(json.series || []);
+      if (json.timeZone) setTimeZone(json.timeZone);
+    }
+    setLoading(false);
+  }, [statusFilter, locationId]);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries]);
+
+  useEffect(() => {
+    fetch("/api/activities", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (Array.isArray(json?.activities)) setActivities(json.activities);
+      })
+      .catch((err) => console.error("activities fetch failed:", err));
+  }, []);
+
+  useEffect(() => {
+    setPreview(null);
+  }, [activity, startDateKey, startTime, durationMinutes, partySize, intervalWeeks, occurrences, locationId]);
+
+  function seriesPayload(previewOnly: boolean) {
+    const startMin = timeInputToMinutes(startTime);
+    if (!startDateKey || startMin == null) {
+      setError("Pick the first date and the start time.");
+      return null;
+    }
+    if (!customerName.trim()) {
+      setError("Customer name is required.");
+      return null;
+    }
+    const priceFloat = price.trim() ? Number(price) : null;
+    if (priceFloat != null && (!Number.isFinite(priceFloat) || priceFloat < 0)) {
+      setError("Enter a valid price per occurrence.");
+      return null;
+    }
+    return {
+      preview: previewOnly,
+      locationId: locationId || undefined,
+      name: name.trim(),
+      activity,
+      startDateKey,
+      startMin,
+      durationMinutes: Number(durationMinutes),
+      partySize: Number(partySize),
+      intervalWeeks: Number(intervalWeeks),
+      occurrences: Number(occurrences),
+      customerName: customerName.trim(),
+      customerEmail: customerEmail.trim(),
+      customerPhone: customerPhone.trim(),
+      totalCentsOverride: priceFloat == null ? undefined : Math.round(priceFloat * 100),
+      paid,
+      notes: notes.trim(),
+    };
+  }
+
+  async function submitSeries(previewOnly: boolean) {
+    const payload = seriesPayload(previewOnly);
+    if (!payload) return;
+    setBusy(true);
+    setError("");
+    setMessage("");
+    try {
+      const res = await fetch("/api/staff/booking-series", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (Array.isArray(json?.occurrences)) setPreview(json.occurrences);
+      if (!res.ok) {
+        setError(json?.error || "Failed to save series");
+        return;
+      }
+      if (!previewOnly) {
+        const booked = (json.occurrences as Occurrence[]).filter((o) => o.bookingId).length;
+        setMessage(`Booked ${booked} of ${json.occurrences.length} occurrences.`);
+        await loadSeries();
+      }
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function updateSeries(series: Series, payload: Record<string, unknown>, confirmText: string) {
+    if (!window.confirm(confirmText)) return;
+    setBusy(true);
+    setError("");
+    setMessage("");
+    try {
+      const res = await fetch(`/api/staff/booking-series/${series.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error || "Failed to update series");
+        return;
+      }
+      const conflicts = Array.isArray(json.conflicts) ? json.conflicts : [];
+      setMessage(
+        conflicts.length
+          ? `Updated ${json.affected.length}; not moved: ${conflicts
+              .map((c: { index: number | null; error: string }) => `#${c.index ?? "?"} (${c.error})`)
+              .join(", ")}`
+          : `Updated ${json.affected.length} occurrence${json.affected.length === 1 ? "" : "s"}.`
+      );
+      await loadSeries();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function moveTarget() {
+    const startMin = timeInputToMinutes(moveTime);
+    if (startMin == null) setError("Pick the new start time.");
+    return startMin;
+  }
+
+  const clearCount = preview ? preview.filter((o) => !o.conflict).length : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="mb-3 text-sm font-extrabold text-zinc-900">New recurring series</div>
+        <div className="grid gap-3 sm:grid-cols-4">
+          <label className="text-xs font-semibold text-zinc-600 sm:col-span-2">
+            Series name
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+              placeholder="Thursday Night League"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Activity
+            <select
+              value={activity}
+              onChange={(e) => setActivity(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            >
+              {(activities.length ? activities : [{ name: activity }]).map((option) => (
+                <option key={option.name} value={option.name}>
+                  {option.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Group size
+            <input
+              value={partySize}
+              onChange={(e) => setPartySize(e.target.value)}
+              type="number"
+              min="1"
+              max="100"
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            First date
+            <input
+              type="date"
+              value={startDateKey}
+              onChange={(e) => setStartDateKey(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Start time
+            <input
+              type="time"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Duration (minutes)
+            <input
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(e.target.value)}
+              type="number"
+              min="30"
+              step="30"
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs font-semibold text-zinc-600">
+              Every
+              <select
+                value={intervalWeeks}
+                onChange={(e) => setIntervalWeeks(e.target.value)}
+                className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+              >
+                <option value="1">Week</option>
+                <option value="2">2 weeks</option>
+                <option value="3">3 weeks</option>
+                <option value="4">4 weeks</option>
+              </select>
+            </label>
+            <label className="text-xs font-semibold text-zinc-600">
+              Times
+              <input
+                value={occurrences}
+                onChange={(e) => setOccurrences(e.target.value)}
+                type="number"
+                min="1"
+                max="52"
+                className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+              />
+            </label>
+          </div>
+          <label className="text-xs font-semibold text-zinc-600">
+            Customer name
+            <input
+              value={customerName}
+              onChange={(e) => setCustomerName(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Customer email
+            <input
+              value={customerEmail}
+              onChange={(e) => setCustomerEmail(e.target.value)}
+              type="email"
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Customer phone
+            <input
+              value={customerPhone}
+              onChange={(e) => setCustomerPhone(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600">
+            Price per occurrence (blank = rate card)
+            <input
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              type="number"
+              min="0"
+              step="0.01"
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <label className="text-xs font-semibold text-zinc-600 sm:col-span-3">
+            Notes
+            <input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="mt-1 h-10 w-full rounded-xl border border-zinc-200 px-3 text-sm"
+            />
+          </label>
+          <label className="flex items-center gap-2 self-end pb-2 text-sm text-zinc-700">
+            <input type="checkbox" checked={paid} onChange={(e) => setPaid(e.target.checked)} />
+            Mark paid
+          </label>
+        </div>
+        <div className="mt-3 flex flex-wrap items-center justify-end gap-2">
+          <LocationSelect value={locationId} onChange={setLocationId} />
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => submitSeries(true)}
+            className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm disabled:opacity-60"
+          >
+            Check conflicts
+          </button>
+          <button
+            type="button"
+            disabled={busy || !preview || clearCount === 0}
+            onClick={() => submitSeries(false)}
+            className="rounded-xl bg-zinc-900 px-3 py-2 text-sm font-semibold text-white disabled:opacity-60"
+          >
+            {busy ? "Working..." : preview ? `Book ${clearCount} clear occurrence${clearCount === 1 ? "" : "s"}` : "Book"}
+          </button>
+        </div>
+        {preview ? (
+          <div className="mt-3 overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-zinc-600">
+                <tr>
+                  <th className="py-2">#</th>
+                  <th className="py-2">Date</th>
+                  <th className="py-2">Needs</th>
+                  <th className="py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map((o) => (
+                  <tr key={o.index} className="border-t border-zinc-100">
+                    <td className="py-2">{o.index}</td>
+                    <td className="py-2">{formatDateKey(o.dateKey, "long")}</td>
+                    <td className="py-2 text-xs text-zinc-600">{describeResources(o.resources) || "—"}</td>
+                    <td className="py-2">
+                      {o.bookingId ? (
+                        <span className="rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-semibold text-emerald-800">
+                          Booked
+                        </span>
+                      ) : o.conflict ? (
+                        <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs font-semibold text-red-700">
+                          {o.conflict}
+                        </span>
+                      ) : (
+                        <span className="rounded-full bg-zinc-100 px-2 py-0.5 text-xs font-semibold text-zinc-700">
+                          Clear
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+          <div className="text-sm font-extrabold text-zinc-900">
+            {statusFilter === "ACTIVE" ? "Active series" : "All series"}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value === "ALL" ? "ALL" : "ACTIVE")}
+              className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+            >
+              <option value="ACTIVE">Active</option>
+              <option value="ALL">All</option>
+            </select>
+            <button
+              type="button"
+              onClick={loadSeries}
+              className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+            >
+              Refresh
+            </button>
+          </div>
+        </div>
+        {error ? <div className="mb-3 text-sm text-red-600">{error}</div> : null}
+        {message ? <div className="mb-3 text-sm text-emerald-700">{message}</div> : null}
+        {loading ? (
+          <div className="text-sm text-zinc-600">Loading series…</div>
+        ) : rows.length === 0 ? (
+          <div className="text-sm text-zinc-600">No recurring series yet.</div>
+        ) : (
+          <div className="space-y-3">
+            {rows.map((series) => {
+              const open = openId === series.id;
+              const active = series.status === "ACTIVE";
+              const now = Date.now();
+              return (
+                <div key={series.id} className="rounded-xl border border-zinc-200 p-3">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <div className="font-semibold text-zinc-900">
+                        {series.name}
+                        {!active ? (
+                          <span className="ml-2 rounded-full bg-zinc-100 px-2 py-0.5 text-xs font-semibold text-zinc-600">
+                            Cancelled
+                          </span>
+                        ) : null}
+                      </div>
+                      <div className="text-xs text-zinc-500">
+                        {series.activity} · Party {series.party_size} · {describeRule(series)} · {series.occurrences}{" "}
+                        times from {formatDateKey(series.start_date_key, "medium")}
+                      </div>
+                      <div className="text-xs text-zinc-500">
+                        {series.customer_name}
+                        {series.customer_email ? ` · ${series.customer_email}` : ""}
+                        {series.paid ? " · paid" : " · unpaid"}
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setOpenId(open ? "" : series.id);
+                        setMoveTime(minutesToTimeInput(series.start_min));
+                      }}
+                      className="rounded-xl border border-zinc-200 bg-white px-3 py-1 text-xs font-semibold"
+                    >
+                      {open ? "Close" : `Occurrences (${series.bookings.length})`}
+                    </button>
+                  </div>
+                  {open ? (
+                    <div className="mt-3">
+                      {active ? (
+                        <div className="mb-3 flex flex-wrap items-end gap-2">
+                          <label className="text-xs font-semibold text-zinc-600">
+                            Start time
+                            <input
+                              type="time"
+                              value={moveTime}
+                              onChange={(e) => setMoveTime(e.target.value)}
+                              className="mt-1 h-9 rounded-xl border border-zinc-200 px-3 text-sm"
+                            />
+                          </label>
+                          <button
+                            type="button"
+                            disabled={busy}
+                            onClick={() => {
+                              const startMin = moveTarget();
+                              if (startMin == null) return;
+                              updateSeries(
+                                series,
+                                { action: "MOVE", scope: "ALL", startMin },
+                                `Move every upcoming occurrence to ${formatMinutesLabel(startMin)}?`
+                              );
+                            }}
+                            className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-xs font-semibold disabled:opacity-60"
+                          >
+                            Move all upcoming
+                          </button>
+                          <button
+                            type="button"
+                            disabled={busy}
+                            onClick={() =>
+                              updateSeries(
+                                series,
+                                { action: "CANCEL", scope: "ALL" },
+                                "Cancel every upcoming occurrence and close this series?"
+                              )
+                            }
+                            className="rounded-xl border border-red-200 bg-white px-3 py-2 text-xs font-semibold text-red-700 disabled:opacity-60"
+                          >
+                            Cancel series
+                          </button>
+                        </div>
+                      ) : null}
+                      <table className="w-full text-sm">
+                        <tbody>
+                          {series.bookings.map((booking) => {
+                            const editable =
+                              active && booking.status !== "CANCELLED" && new Date(booking.start_ts).getTime() > now;
+                            return (
+                              <tr key={booking.id} className="border-t border-zinc-100">
+                                <td className="py-2 text-xs text-zinc-500">#{booking.series_index ?? "?"}</td>
+                                <td className="py-2">
+                                  {formatInstant(booking.start_ts, timeZone, "dateTime")} –{" "}
+                                  {formatInstant(booking.end_ts, timeZone, "time")}
+                                </td>
+                                <td className="py-2 text-xs text-zinc-500">
+                                  {booking.status || "CONFIRMED"}
+                                  {booking.paid ? " · paid" : ""}
+                                </td>
+                                <td className="py-2 text-right">
+                                  {editable ? (
+                                    <div className="flex justify-end gap-2">
+                                      <button
+                                        type="button"
+                                        disabled={busy}
+                                        onClick={() => {
+                                          const startMin = moveTarget();
+                                          if (startMin == null) return;
+                                          updateSeries(
+                                            series,
+                                            { action: "MOVE", scope: "ONE", bookingId: booking.id, startMin },
+                                            `Move occurrence #${booking.series_index ?? "?"} to ${formatMinutesLabel(
+                                              startMin
+                                            )}?`
+                                          );
+                                        }}
+                                        className="rounded-xl border border-zinc-200 bg-white px-2 py-1 text-xs disabled:opacity-60"
+                                      >
+                                        Move to {moveTime || "—"}
+                                      </button>
+                                      <button
+                                        type="button"
+                                        disabled={busy}
+                                        onClick={() =>
+                                          updateSeries(
+                                            series,
+                                            { action: "CANCEL", scope: "ONE", bookingId: booking.id },
+                                            `Cancel occurrence #${booking.series_index ?? "?"}?`
+                                          )
+                                        }
+                                        className="rounded-xl border border-red-200 bg-white px-2 py-1 text-xs text-red-700 disabled:opacity-60"
+                                      >
+                                        Cancel
+                                      </button>
+                                    </div>
+                                  ) : null}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
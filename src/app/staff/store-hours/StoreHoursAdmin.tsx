@@ -0,0 +1,459 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  DEFAULT_WEEKLY_HOURS,
+  WEEKDAY_NAMES,
+  describeStoreHours,
+  resolveStoreHoursForDateKey,
+  type StoreHoursConfig,
+  type StoreHoursOverrideRow,
+  type StoreHoursSeasonRow,
+  type StoreHoursWeeklyRow,
+} from "@/lib/storeHours";
+import LocationSelect from "@/components/LocationSelect";
+import { dateKeyFromLocalDate, formatMinutesLabel, minutesToTimeInput, timeInputToMinutes } from "@/lib/dateTime";
+
+function minutesToLabel(minutes: number | null | undefined) {
+  if (minutes == null || !Number.isFinite(minutes)) return "—";
+  return formatMinutesLabel(minutes);
+}
+
+const SHORT_WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export default function StoreHoursAdmin() {
+  // Empty = default location (also the only one on single-site installs).
+  const [locationId, setLocationId] = useState("");
+  const [config, setConfig] = useState<StoreHoursConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const [weekly, setWeekly] = useState<StoreHoursWeeklyRow[]>(DEFAULT_WEEKLY_HOURS);
+  const [savingWeekly, setSavingWeekly] = useState(false);
+  const [weeklyStatus, setWeeklyStatus] = useState("");
+
+  const [seasonName, setSeasonName] = useState("");
+  const [seasonStart, setSeasonStart] = useState("");
+  const [seasonEnd, setSeasonEnd] = useState("");
+  const [seasonWeekdays, setSeasonWeekdays] = useState<number[]>([]);
+  const [seasonOpen, setSeasonOpen] = useState("12:00");
+  const [seasonClose, setSeasonClose] = useState("20:00");
+  const [seasonClosed, setSeasonClosed] = useState(false);
+  const [seasonError, setSeasonError] = useState("");
+  const [savingSeason, setSavingSeason] = useState(false);
+
+  const [overrideDate, setOverrideDate] = useState("");
+  const [overrideOpen, setOverrideOpen] = useState("");
+  const [overrideClose, setOverrideClose] = useState("");
+  const [overrideClosed, setOverrideClosed] = useState(true);
+  const [overrideReason, setOverrideReason] = useState("");
+  const [overrideError, setOverrideError] = useState("");
+  const [savingOverride, setSavingOverride] = useState(false);
+
+  const [previewDate, setPreviewDate] = useState(() => dateKeyFromLocalDate(new Date()));
+
+  async function loadHours() {
+    setLoading(true);
+    setError("");
+    const res = await fetch(`/api/staff/store-hours?location=${encodeURIComponent(locationId)}`, { cache: "no-store" });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(json?.error || "Failed to load store hours.");
+      setLoading(false);
+      return;
+    }
+    const next = json.hours as StoreHoursConfig;
+    setConfig(next);
+    setWeekly(
+      [0, 1, 2, 3, 4, 5, 6].map(
+        (weekday) =>
+          next.weekly.find((row) => Number(row.weekday) === weekday) ??
+          DEFAULT_WEEKLY_HOURS.find((row) => row.weekday === weekday)!
+      )
+    );
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    loadHours();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [locationId]);
+
+  const preview = useMemo(() => {
+    if (!config || !previewDate) return null;
+    return resolveStoreHoursForDateKey({ ...config, weekly }, previewDate);
+  }, [config, weekly, previewDate]);
+
+  function updateWeekly(weekday: number, patch: Partial<StoreHoursWeeklyRow>) {
+    setWeeklyStatus("");
+    setWeekly((prev) => prev.map((row) => (row.weekday === weekday ? { ...row, ...patch } : row)));
+  }
+
+  async function saveWeekly(e: React.FormEvent) {
+    e.preventDefault();
+    setSavingWeekly(true);
+    setWeeklyStatus("");
+    try {
+      const res = await fetch("/api/staff/store-hours", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ weekly, location_id: locationId }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setWeeklyStatus(json?.error || "Failed to save weekly hours.");
+        return;
+      }
+      setWeeklyStatus("Weekly hours saved.");
+      await loadHours();
+    } finally {
+      setSavingWeekly(false);
+    }
+  }
+
+  async function createSeason(e: React.FormEvent) {
+    e.preventDefault();
+    setSavingSeason(true);
+    setSeasonError("");
+    try {
+      const res = await fetch("/api/staff/store-hours/seasons", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: seasonName,
+          start_date_key: seasonStart,
+          end_date_key: seasonEnd,
+          weekdays: seasonWeekdays,
+          open_min: seasonOpen ? timeInputToMinutes(seasonOpen) : null,
+          close_min: seasonClose ? timeInputToMinutes(seasonClose) : null,
+          closed: seasonClosed,
+          location_id: locationId,
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setSeasonError(json?.error || "Failed to create season.");
+        return;
+      }
+      setSeasonName("");
+      setSeasonStart("");
+      setSeasonEnd("");
+      setSeasonWeekdays([]);
+      setSeasonClosed(false);
+      await loadHours();
+    } finally {
+      setSavingSeason(false);
+    }
+  }
+
+  async function deleteSeason(row: StoreHoursSeasonRow) {
+    if (!window.confirm(`Delete season "${row.name}"?`)) return;
+    const res = await fetch("/api/staff/store-hours/seasons", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: row.id }),
+    });
+    if (res.ok) {
+      await loadHours();
+    }
+  }
+
+  async function createOverride(e: React.FormEvent) {
+    e.preventDefault();
+    setSavingOverride(true);
+    setOverrideError("");
+    try {
+      const res = await fetch("/api/staff/store-hours/overrides", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          date_key: overrideDate,
+          open_min: overrideOpen ? timeInputToMinutes(overrideOpen) : null,
+          close_min: overrideClose ? timeInputToMinutes(overrideClose) : null,
+          closed: overrideClosed,
+          reason: overrideReason,
+          location_id: locationId,
+        }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setOverrideError(json?.error || "Failed to save date override.");
+        return;
+      }
+      setOverrideDate("");
+      setOverrideOpen("");
+      setOverrideClose("");
+      setOverrideClosed(true);
+      setOverrideReason("");
+      await loadHours();
+    } finally {
+      setSavingOverride(false);
+    }
+  }
+
+  async function deleteOverride(row: StoreHoursOverrideRow) {
+    if (!window.confirm(`Delete override for ${row.date_key}?`)) return;
+    const res = await fetch("/api/staff/store-hours/overrides", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: row.id }),
+    });
+    if (res.ok) {
+      await loadHours();
+    }
+  }
+
+  if (loading && !config) {
+    return <div className="text-sm text-zinc-600">Loading store hours…</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <LocationSelect value={locationId} onChange={setLocationId} />
+      {error ? <div className="text-sm text-red-600">{error}</div> : null}
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="text-sm font-extrabold text-zinc-900">Weekly Hours</div>
+        <div className="text-xs text-zinc-500">
+          Closed days stay bookable by staff with an admin override, inside the hours set here.
+        </div>
+        <form className="mt-3 space-y-2" onSubmit={saveWeekly}>
+          {weekly.map((row) => (
+            <div key={row.weekday} className="grid grid-cols-2 items-center gap-2 md:grid-cols-4">
+              <div className="text-sm font-semibold text-zinc-900">{WEEKDAY_NAMES[row.weekday]}</div>
+              <input
+                type="time"
+                value={minutesToTimeInput(row.open_min)}
+                onChange={(e) => updateWeekly(row.weekday, { open_min: timeInputToMinutes(e.target.value) ?? 0 })}
+                className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+              />
+              <input
+                type="time"
+                value={minutesToTimeInput(row.close_min)}
+                onChange={(e) => updateWeekly(row.weekday, { close_min: timeInputToMinutes(e.target.value) ?? 0 })}
+                className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+              />
+              <label className="flex items-center gap-2 text-sm text-zinc-700">
+                <input
+                  type="checkbox"
+                  checked={row.closed}
+                  onChange={(e) => updateWeekly(row.weekday, { closed: e.target.checked })}
+                />
+                Closed
+              </label>
+            </div>
+          ))}
+          {weeklyStatus ? <div className="text-sm text-zinc-700">{weeklyStatus}</div> : null}
+          <button
+            type="submit"
+            disabled={savingWeekly}
+            className="h-10 w-full rounded-xl bg-zinc-900 text-sm font-semibold text-white hover:bg-zinc-800 disabled:opacity-60"
+          >
+            {savingWeekly ? "Saving..." : "Save Weekly Hours"}
+          </button>
+        </form>
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="text-sm font-extrabold text-zinc-900">Seasonal Hours</div>
+        <div className="text-xs text-zinc-500">
+          Seasons replace the weekly hours for the selected weekdays in their date range. Leave weekdays blank for every day.
+        </div>
+        <form className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-3" onSubmit={createSeason}>
+          <input
+            value={seasonName}
+            onChange={(e) => setSeasonName(e.target.value)}
+            placeholder="Season name (e.g. Summer)"
+            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+            required
+          />
+          <input
+            type="date"
+            value={seasonStart}
+            onChange={(e) => setSeasonStart(e.target.value)}
+            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+            required
+          />
+          <input
+            type="date"
+            value={seasonEnd}
+            onChange={(e) => setSeasonEnd(e.target.value)}
+            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+            required
+          />
+          <div className="flex flex-wrap items-center gap-2 md:col-span-3">
+            {SHORT_WEEKDAYS.map((label, weekday) => (
+              <label key={label} className="flex items-center gap-1 text-sm text-zinc-700">
+                <input
+                  type="checkbox"
+                  checked={seasonWeekdays.includes(weekday)}
+                  onChange={(e) =>
+                    setSeasonWeekdays((prev) =>
+                      e.target.checked ? [...prev, weekday] : prev.filter((d) => d !== weekday)
+                    )
+                  }
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <input
+            type="time"
+            value={seasonOpen}
+            onChange={(e) => setSeasonOpen(e.target.value)}
+            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+          />
+          <input
+            type="time"
+            value={seasonClose}
+            onChange={(e) => setSeasonClose(e.target.value)}
+            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+          />
+          <label className="flex items-center gap-2 text-sm text-zinc-700">
+            <input type="checkbox" checked={seasonClosed} onChange={(e) => setSeasonClosed(e.target.checked)} />
+            Closed
+          </label>
+          {seasonError ? <div className="text-sm text-red-600 md:col-span-3">{seasonError}</div> : null}
+          <button
+            type="submit"
+            disabled={savingSeason}
+            className="h-10 rounded-xl bg-zinc-900 text-sm font-semibold text-white hover:bg-zinc-800 disabled:opacity-60 md:col-span-3"
+          >
+            {savingSeason ? "Saving..." : "Add Season"}
+          </button>
+        </form>
+
+        <div className="mt-4 overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-zinc-600">
+              <tr>
+                <th className="py-2">Name</th>
+                <th className="py-2">Dates</th>
+                <th className="py-2">Days</th>
+                <th className="py-2">Hours</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {(config?.seasons || []).map((row) => (
+                <tr key={row.id} className="border-t border-zinc-100">
+                  <td className="py-2">{row.name}</td>
+                  <td className="py-2">
+                    {row.start_date_key} → {row.end_date_key}
+                  </td>
+                  <td className="py-2">
+                    {row.weekdays?.length ? row.weekdays.map((d) => SHORT_WEEKDAYS[d]).join(", ") : "Every day"}
+                  </td>
+                  <td className="py-2">
+                    {row.closed ? "Closed" : `${minutesToLabel(row.open_min)} – ${minutesToLabel(row.close_min)}`}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => deleteSeason(row)}
+                      className="rounded-lg border border-zinc-200 px-2 py-1 text-xs text-red-600"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="text-sm font-extrabold text-zinc-900">Holiday / One-off Dates</div>
+        <div className="text-xs text-zinc-500">Date overrides win over seasons and weekly hours.</div>
+        <form className="mt-3 grid grid-cols-1 gap-2 md:grid-cols-5" onSubmit={createOverride}>
+          <input
+            type="date"
+            value={overrideDate}
+            onChange={(e) => setOverrideDate(e.target.value)}
+            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+            required
+          />
+          <input
+            type="time"
+            value={overrideOpen}
+            onChange={(e) => setOverrideOpen(e.target.value)}
+            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+          />
+          <input
+            type="time"
+            value={overrideClose}
+            onChange={(e) => setOverrideClose(e.target.value)}
+            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+          />
+          <label className="flex items-center gap-2 text-sm text-zinc-700">
+            <input type="checkbox" checked={overrideClosed} onChange={(e) => setOverrideClosed(e.target.checked)} />
+            Closed
+          </label>
+          <input
+            value={overrideReason}
+            onChange={(e) => setOverrideReason(e.target.value)}
+            placeholder="Reason (e.g. Thanksgiving)"
+            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+          />
+          {overrideError ? <div className="text-sm text-red-600 md:col-span-5">{overrideError}</div> : null}
+          <button
+            type="submit"
+            disabled={savingOverride}
+            className="h-10 rounded-xl bg-zinc-900 text-sm font-semibold text-white hover:bg-zinc-800 disabled:opacity-60 md:col-span-5"
+          >
+            {savingOverride ? "Saving..." : "Save Date Override"}
+          </button>
+        </form>
+
+        <div className="mt-4 overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-zinc-600">
+              <tr>
+                <th className="py-2">Date</th>
+                <th className="py-2">Hours</th>
+                <th className="py-2">Reason</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {(config?.overrides || []).map((row) => (
+                <tr key={row.id} className="border-t border-zinc-100">
+                  <td className="py-2">{row.date_key}</td>
+                  <td className="py-2">
+                    {row.closed ? "Closed" : `${minutesToLabel(row.open_min)} – ${minutesToLabel(row.close_min)}`}
+                  </td>
+                  <td className="py-2">{row.reason || "—"}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => deleteOverride(row)}
+                      className="rounded-lg border border-zinc-200 px-2 py-1 text-xs text-red-600"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+        <div className="text-sm font-extrabold text-zinc-900">Preview</div>
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          <input
+            type="date"
+            value={previewDate}
+            onChange={(e) => setPreviewDate(e.target.value)}
+            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+          />
+          <div className="text-sm text-zinc-700">
+            {preview ? `${describeStoreHours(preview)} · ${preview.source.toLowerCase()}` : "—"}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
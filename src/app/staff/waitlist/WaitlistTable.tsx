@@ -0,0 +1,183 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import LocationSelect from "@/components/LocationSelect";
+import { DEFAULT_TIME_ZONE, formatDateKey, formatInstant, formatMinutesRange, nowInTimeZone } from "@/lib/dateTime";
+
+type WaitlistEntry = {
+  id: string;
+  activity: string;
+  party_size: number;
+  date_key: string;
+  start_min: number;
+  duration_minutes: number;
+  customer_name: string;
+  customer_email: string;
+  customer_phone: string | null;
+  status: "WAITING" | "NOTIFIED" | "CLAIMED" | "EXPIRED" | "CANCELLED";
+  notified_at: string | null;
+  claim_expires_at: string | null;
+  booking_id: string | null;
+  created_at: string;
+};
+
+const STATUS_STYLES: Record<WaitlistEntry["status"], string> = {
+  WAITING: "bg-amber-100 text-amber-800",
+  NOTIFIED: "bg-sky-100 text-sky-800",
+  CLAIMED: "bg-emerald-100 text-emerald-800",
+  EXPIRED: "bg-zinc-100 text-zinc-600",
+  CANCELLED: "bg-zinc-100 text-zinc-600",
+};
+
+export default function WaitlistTable() {
+  const [locationId, setLocationId] = useState("");
+  const [dateKey, setDateKey] = useState(() => nowInTimeZone().dateKey);
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [rows, setRows] = useState<WaitlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [busyId, setBusyId] = useState("");
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    const params = new URLSearchParams({ date: dateKey });
+    if (locationId) params.set("location", locationId);
+    const res = await fetch(`/api/staff/waitlist?${params.toString()}`, { cache: "no-store" });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(json?.error || "Failed to load waitlist");
+      setRows([]);
+    } else {
+      setRows(json.entries || []);
+      if (json.timeZone) setTimeZone(json.timeZone);
+    }
+    setLoading(false);
+  }, [dateKey, locationId]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  async function updateEntry(id: string, action: "CANCEL" | "OFFER") {
+    if (action === "CANCEL" && !window.confirm("Remove this customer from the waitlist?")) return;
+    setBusyId(id);
+    setError("");
+    try {
+      const res = await fetch(`/api/staff/waitlist/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error || "Failed to update waitlist");
+        return;
+      }
+      if (action === "OFFER" && !json.offered) {
+        setError("No freed capacity fits a waiting party yet.");
+      }
+      await loadEntries();
+    } finally {
+      setBusyId("");
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm font-extrabold text-zinc-900">{formatDateKey(dateKey)}</div>
+        <div className="flex flex-wrap items-center gap-2">
+          <LocationSelect value={locationId} onChange={setLocationId} />
+          <input
+            type="date"
+            value={dateKey}
+            onChange={(e) => e.target.value && setDateKey(e.target.value)}
+            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+          />
+          <button
+            type="button"
+            onClick={loadEntries}
+            className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+      {error ? <div className="mb-3 text-sm text-red-600">{error}</div> : null}
+      {loading ? (
+        <div className="text-sm text-zinc-600">Loading waitlist…</div>
+      ) : rows.length === 0 ? (
+        <div className="text-sm text-zinc-600">Nobody is waiting for this day.</div>
+      ) : (
+        <div className="overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-zinc-600">
+              <tr>
+                <th className="py-2">Time</th>
+                <th className="py-2">Activity</th>
+                <th className="py-2">Party</th>
+                <th className="py-2">Customer</th>
+                <th className="py-2">Joined</th>
+                <th className="py-2">Status</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => {
+                const open = r.status === "WAITING" || r.status === "NOTIFIED";
+                return (
+                  <tr key={r.id} className="border-t border-zinc-100 align-top">
+                    <td className="py-2">{formatMinutesRange(r.start_min, r.start_min + r.duration_minutes)}</td>
+                    <td className="py-2">{r.activity}</td>
+                    <td className="py-2">{r.party_size}</td>
+                    <td className="py-2">
+                      <div className="font-semibold text-zinc-900">{r.customer_name}</div>
+                      <div className="text-xs text-zinc-500">{r.customer_email}</div>
+                      {r.customer_phone ? <div className="text-xs text-zinc-500">{r.customer_phone}</div> : null}
+                    </td>
+                    <td className="py-2">{formatInstant(r.created_at, timeZone, "dateTime")}</td>
+                    <td className="py-2">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_STYLES[r.status]}`}>
+                        {r.status}
+                      </span>
+                      {r.status === "NOTIFIED" ? (
+                        <div className="mt-1 text-xs text-zinc-500">
+                          Held until {formatInstant(r.claim_expires_at, timeZone, "time")}
+                        </div>
+                      ) : null}
+                    </td>
+                    <td className="py-2 text-right">
+                      {open ? (
+                        <div className="flex justify-end gap-2">
+                          {r.status === "WAITING" ? (
+                            <button
+                              type="button"
+                              disabled={busyId === r.id}
+                              onClick={() => updateEntry(r.id, "OFFER")}
+                              className="rounded-xl border border-zinc-200 bg-white px-3 py-1 text-xs font-semibold disabled:opacity-60"
+                            >
+                              Offer
+                            </button>
+                          ) : null}
+                          <button
+                            type="button"
+                            disabled={busyId === r.id}
+                            onClick={() => updateEntry(r.id, "CANCEL")}
+                            className="rounded-xl border border-red-200 bg-white px-3 py-1 text-xs font-semibold text-red-700 disabled:opacity-60"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ) : null}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { DEFAULT_TIME_ZONE, formatInstant } from "@/lib/dateTime";
+
+type WebhookIssue = {
+  eventId: string;
+  eventType: string | null;
+  state: "FAILED" | "STUCK" | "RESOLVED";
+  errorMessage: string | null;
+  attempts: number;
+  firstFailedAt: string | null;
+  lastFailedAt: string | null;
+  receivedAt: string | null;
+  replayCount: number;
+  lastReplayedAt: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  resolution: string | null;
+};
+
+type ReplayResult = { eventId: string; ok: boolean; skipped?: boolean; error?: string };
+
+const STATE_STYLES: Record<WebhookIssue["state"], string> = {
+  FAILED: "bg-red-100 text-red-700",
+  STUCK: "bg-amber-100 text-amber-800",
+  RESOLVED: "bg-zinc-100 text-zinc-600",
+};
+
+function formatTs(value: string | null) {
+  return value ? formatInstant(value, DEFAULT_TIME_ZONE, "dateTime") : "—";
+}
+
+export default function WebhookFailuresTable() {
+  const [statusFilter, setStatusFilter] = useState<"OPEN" | "ALL">("OPEN");
+  const [rows, setRows] = useState<WebhookIssue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [status, setStatus] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [busy, setBusy] = useState(false);
+  const [openId, setOpenId] = useState("");
+  const [resultsById, setResultsById] = useState<Record<string, ReplayResult>>({});
+
+  const loadIssues = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    const res = await fetch(`/api/staff/webhooks?status=${statusFilter}`, { cache: "no-store" });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(json?.error || "Failed to load webhook failures");
+      setRows([]);
+    } else {
+      setRows(json.issues || []);
+    }
+    setSelected(new Set());
+    setLoading(false);
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadIssues();
+  }, [loadIssues]);
+
+  const openRows = rows.filter((row) => row.state !== "RESOLVED");
+  const allSelected = openRows.length > 0 && openRows.every((row) => selected.has(row.eventId));
+
+  function toggle(eventId: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(eventId)) next.delete(eventId);
+      else next.add(eventId);
+      return next;
+    });
+  }
+
+  function toggleAll() {
+    setSelected(allSelected ? new Set() : new Set(openRows.map((row) => row.eventId)));
+  }
+
+  async function runAction(action: "REPLAY" | "DISMISS", eventIds: string[]) {
+    if (!eventIds.length) return;
+    if (action === "DISMISS" && !window.confirm(`Mark ${eventIds.length} event(s) resolved without replaying?`)) {
+      return;
+    }
+    setBusy(true);
+    setError("");
+    setStatus("");
+    try {
+      const res = await fetch("/api/staff/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, eventIds }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error || "Failed to update webhook events");
+        return;
+      }
+      if (action === "DISMISS") {
+        setStatus(`Marked ${json.dismissed ?? eventIds.length} event(s) resolved.`);
+      } else {
+        const results: ReplayResult[] = json.results || [];
+        const failed = results.filter((result) => !result.ok).length;
+        setResultsById((prev) => {
+          const next = { ...prev };
+          for (const result of results) next[result.eventId] = result;
+          return next;
+        });
+        setStatus(
+          failed
+            ? `Replayed ${results.length - failed} of ${results.length}; ${failed} failed again.`
+            : `Replayed ${results.length} event(s).`
+        );
+      }
+      await loadIssues();
+    } catch (err: any) {
+      setError(err?.message || "Failed to update webhook events");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-zinc-200 bg-white p-4">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-extrabold text-zinc-900">
+            {statusFilter === "OPEN" ? "Failed & stuck Stripe events" : "All webhook failures"}
+          </div>
+          <div className="text-xs text-zinc-500">
+            Replays run the same handler as Stripe&apos;s webhook; events already processed are skipped.
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value === "ALL" ? "ALL" : "OPEN")}
+            className="h-10 rounded-xl border border-zinc-200 px-3 text-sm"
+          >
+            <option value="OPEN">Open</option>
+            <option value="ALL">All</option>
+          </select>
+          <button
+            type="button"
+            onClick={() => runAction("REPLAY", Array.from(selected))}
+            disabled={busy || !selected.size}
+            className="rounded-xl bg-zinc-900 px-3 py-2 text-sm font-semibold text-white disabled:opacity-60"
+          >
+            {busy ? "Working..." : `Replay Selected (${selected.size})`}
+          </button>
+          <button
+            type="button"
+            onClick={() => runAction("DISMISS", Array.from(selected))}
+            disabled={busy || !selected.size}
+            className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm disabled:opacity-60"
+          >
+            Mark Resolved
+          </button>
+          <button
+            type="button"
+            onClick={loadIssues}
+            className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+      {error ? <div className="mb-3 text-sm text-red-600">{error}</div> : null}
+      {status ? <div className="mb-3 text-sm text-emerald-700">{status}</div> : null}
+      {loading ? (
+        <div className="text-sm text-zinc-600">Loading webhook failures…</div>
+      ) : rows.length === 0 ? (
+        <div className="text-sm text-zinc-600">No failed or stuck webhook events.</div>
+      ) : (
+        <div className="overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-zinc-600">
+              <tr>
+                <th className="py-2 pr-2">
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={!openRows.length} />
+                </th>
+                <th className="py-2">Event</th>
+                <th className="py-2">State</th>
+                <th className="py-2">Error</th>
+                <th className="py-2">Attempts</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => {
+                const result = resultsById[r.eventId];
+                return [
+                  <tr key={r.eventId} className="border-t border-zinc-100 align-top">
+                    <td className="py-2 pr-2">
+                      {r.state !== "RESOLVED" ? (
+                        <input type="checkbox" checked={selected.has(r.eventId)} onChange={() => toggle(r.eventId)} />
+                      ) : null}
+                    </td>
+                    <td className="py-2">
+                      <div className="font-semibold text-zinc-900">{r.eventType || "Unknown type"}</div>
+                      <div className="font-mono text-xs text-zinc-500">{r.eventId}</div>
+                    </td>
+                    <td className="py-2">
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${STATE_STYLES[r.state]}`}>
+                        {r.state}
+                      </span>
+                      {r.state === "STUCK" ? (
+                        <div className="mt-1 text-xs text-zinc-500">Processing since {formatTs(r.receivedAt)}</div>
+                      ) : null}
+                      {r.resolvedAt ? (
+                        <div className="mt-1 text-xs text-zinc-500">
+                          {r.resolution || "Resolved"} {formatTs(r.resolvedAt)}
+                          {r.resolvedBy ? ` · ${r.resolvedBy}` : ""}
+                        </div>
+                      ) : null}
+                    </td>
+                    <td className="py-2">
+                      <div className="max-w-md text-xs text-zinc-700">
+                        {r.errorMessage || (r.state === "STUCK" ? "Never finished processing" : "—")}
+                      </div>
+                      {result && !result.ok ? (
+                        <div className="mt-1 text-xs font-semibold text-red-600">Replay failed: {result.error}</div>
+                      ) : null}
+                    </td>
+                    <td className="py-2 text-xs text-zinc-600">
+                      <div>{r.attempts ? `${r.attempts} failed` : "—"}</div>
+                      {r.replayCount ? <div>{r.replayCount} replay(s)</div> : null}
+                      {r.lastFailedAt ? <div>Last {formatTs(r.lastFailedAt)}</div> : null}
+                    </td>
+                    <td className="py-2 text-right">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setOpenId(openId === r.eventId ? "" : r.eventId)}
+                          className="rounded-xl border border-zinc-200 bg-white px-3 py-1 text-xs font-semibold"
+                        >
+                          {openId === r.eventId ? "Hide" : "Details"}
+                        </button>
+                        {r.state !== "RESOLVED" ? (
+                          <button
+                            type="button"
+                            onClick={() => runAction("REPLAY", [r.eventId])}
+                            disabled={busy}
+                            className="rounded-xl bg-zinc-900 px-3 py-1 text-xs font-semibold text-white disabled:opacity-60"
+                          >
+                            Replay
+                          </button>
+                        ) : null}
+                      </div>
+                    </td>
+                  </tr>,
+                  openId === r.eventId ? (
+                    <tr key={`${r.eventId}-details`} className="bg-zinc-50">
+                      <td colSpan={6} className="p-3 text-xs text-zinc-700">
+                        <div className="grid gap-1 sm:grid-cols-2">
+                          <div>First failure: {formatTs(r.firstFailedAt)}</div>
+                          <div>Last failure: {formatTs(r.lastFailedAt)}</div>
+                          <div>Received: {formatTs(r.receivedAt)}</div>
+                          <div>Last replay: {formatTs(r.lastReplayedAt)}</div>
+                        </div>
+                        {r.errorMessage ? (
+                          <pre className="mt-2 whitespace-pre-wrap break-all rounded-xl border border-zinc-200 bg-white p-2">
+                            {r.errorMessage}
+                          </pre>
+                        ) : null}
+                      </td>
+                    </tr>
+                  ) : null,
+                ];
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
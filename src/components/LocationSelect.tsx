@@ -0,0 +1,55 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { Location } from "@/lib/locations";
+
+type Props = {
+  value: string;
+  onChange: (locationId: string) => void;
+  className?: string;
+  emptyLabel?: string; // adds a "" option, e.g. "All locations"
+};
+
+// Location picker for staff screens; renders nothing while there is only one site.
+export default function LocationSelect({ value, onChange, className, emptyLabel }: Props) {
+  const [locations, setLocations] = useState<Location[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    fetch("/api/locations", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (!mounted) return;
+        setLocations(Array.isArray(json?.locations) ? json.locations : []);
+      })
+      .catch(() => {
+        if (!mounted) return;
+        setLocations([]);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  if (locations.length < 2) return null;
+  // Without an empty option, "" shows as the default location.
+  const selected = value || (emptyLabel ? "" : locations.find((location) => location.isDefault)?.id ?? "");
+
+  return (
+    <label className={className ?? "flex items-center gap-2 text-sm text-zinc-700"}>
+      <span className="font-semibold">Location</span>
+      <select
+        value={selected}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-10 rounded-xl border border-zinc-200 bg-white px-3 text-sm"
+      >
+        {emptyLabel ? <option value="">{emptyLabel}</option> : null}
+        {locations.map((location) => (
+          <option key={location.slug} value={location.id ?? ""}>
+            {location.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -7,6 +7,11 @@ type NavItem = { href: string; label: string };
 const MAIN_ITEMS: NavItem[] = [
   { href: "/staff/bookings", label: "Bookings" },
   { href: "/staff/customers", label: "Customers" },
+  { href: "/staff/waitlist", label: "Waitlist" },
+  { href: "/staff/changes", label: "Changes" },
+  { href: "/staff/series", label: "Series" },
+  { href: "/staff/leagues", label: "Leagues" },
+  { href: "/staff/allocation", label: "Lanes" },
   { href: "/staff/pos", label: "POS" },
   { href: "/staff/time-clock", label: "Time Clock" },
 ];
@@ -19,8 +24,12 @@ const ADMIN_ITEMS: NavItem[] = [
   { href: "/staff/promos", label: "Promo Codes" },
   { href: "/staff/gift-certificates", label: "Gift Certificates" },
   { href: "/staff/reports", label: "Reporting" },
+  { href: "/staff/store-hours", label: "Store Hours" },
+  { href: "/staff/pricing", label: "Pricing" },
   { href: "/staff/buffers", label: "Buffers/Blackouts/Policies" },
   { href: "/staff/events", label: "Event Requests" },
+  { href: "/staff/webhooks", label: "Webhooks" },
+  { href: "/staff/reconciliation", label: "Reconciliation" },
 ];
 
 export default function StaffNav() {
@@ -0,0 +1,186 @@
+// src/lib/activities.ts
+// Shared (client + server) activity definitions: which resource types an activity
+// reserves, how many per party, bookable durations, party-size cap and waiver rule.
+// Rows live in activity_definitions (see docs/activities.sql), are loaded by
+// src/lib/server/activities.ts and exposed through /api/activities.
+
+import type { RatePricePoint } from "@/lib/rateCard";
+
+export type ActivityResourceRule = {
+  type: string; // resources.type, e.g. "AXE", "DUCKPIN", "VR"
+  // Max party size covered by 1, 2, 3... resources. Omit for AXE/DUCKPIN to use the rate card thresholds.
+  maxParty?: number[];
+  // Bookable segment lengths when the activity is a combo of several resource types.
+  durations?: number[];
+};
+
+export type ActivityPriceUnit = "PERSON" | "RESOURCE";
+
+export type ActivityDefinition = {
+  key: string; // bookings.activity / blackout_rules.activity code
+  name: string; // label shown in the UI and stored in Stripe metadata
+  resources: ActivityResourceRule[];
+  durations: number[];
+  // Changeover gap between the segments of a combo; the second segment starts this much later.
+  transitionMinutes: number;
+  maxPartySize: number;
+  requiresWaiver: boolean;
+  // Built-in activities are priced by the rate card; others use these points.
+  priceUnit: ActivityPriceUnit;
+  pricePoints: RatePricePoint[];
+  sortOrder: number;
+  active: boolean;
+};
+
+export const COMBO_ACTIVITY_KEY = "COMBO";
+
+// Keys whose pricing and resource sizing are handled by the rate card.
+export const BUILT_IN_ACTIVITY_KEYS = ["AXE", "DUCKPIN", COMBO_ACTIVITY_KEY];
+
+export const BUILT_IN_ACTIVITIES: ActivityDefinition[] = [
+  {
+    key: "AXE",
+    name: "Axe Throwing",
+    resources: [{ type: "AXE" }],
+    durations: [15, 30, 60, 120],
+    transitionMinutes: 0,
+    maxPartySize: 16,
+    requiresWaiver: true,
+    priceUnit: "PERSON",
+    pricePoints: [],
+    sortOrder: 10,
+    active: true,
+  },
+  {
+    key: "DUCKPIN",
+    name: "Duckpin Bowling",
+    resources: [{ type: "DUCKPIN" }],
+    durations: [30, 60, 120],
+    transitionMinutes: 0,
+    maxPartySize: 24,
+    requiresWaiver: false,
+    priceUnit: "RESOURCE",
+    pricePoints: [],
+    sortOrder: 20,
+    active: true,
+  },
+  {
+    key: COMBO_ACTIVITY_KEY,
+    name: "Combo Package",
+    resources: [
+      { type: "AXE", durations: [30, 60, 120] },
+      { type: "DUCKPIN", durations: [30, 60, 120] },
+    ],
+    durations: [60, 120, 180, 240],
+    transitionMinutes: 0,
+    maxPartySize: 24,
+    requiresWaiver: true,
+    priceUnit: "PERSON",
+    pricePoints: [],
+    sortOrder: 30,
+    active: true,
+  },
+];
+
+export function isBuiltInActivity(definition: ActivityDefinition | null | undefined) {
+  return !!definition && BUILT_IN_ACTIVITY_KEYS.includes(definition.key);
+}
+
+export function findActivityByName(activities: ActivityDefinition[], name: string) {
+  const normalized = String(name || "").trim().toLowerCase();
+  if (!normalized) return null;
+  return activities.find((activity) => activity.name.toLowerCase() === normalized) ?? null;
+}
+
+export function findActivityByKey(activities: ActivityDefinition[], key: string | null | undefined) {
+  const normalized = String(key || "").trim().toUpperCase();
+  if (!normalized) return null;
+  return activities.find((activity) => activity.key === normalized) ?? null;
+}
+
+/** Built-in definition for a UI name; used where no loaded list is available. */
+export function builtInActivity(name: string) {
+  return findActivityByName(BUILT_IN_ACTIVITIES, name);
+}
+
+function normalizeNumberList(input: unknown, fallback: number[]) {
+  if (!Array.isArray(input)) return fallback;
+  const values = Array.from(
+    new Set(input.map((value) => Math.round(Number(value))).filter((value) => Number.isFinite(value) && value > 0))
+  ).sort((a, b) => a - b);
+  return values.length ? values : fallback;
+}
+
+function normalizeResourceRules(input: unknown, fallback: ActivityResourceRule[]): ActivityResourceRule[] {
+  if (!Array.isArray(input)) return fallback;
+  const rules: ActivityResourceRule[] = [];
+  for (const item of input) {
+    const type = String(item?.type || "")
+      .trim()
+      .toUpperCase();
+    if (!type || type === "PARTY" || rules.some((rule) => rule.type === type)) continue;
+    const rule: ActivityResourceRule = { type };
+    const maxParty = normalizeNumberList(item?.maxParty, []);
+    if (maxParty.length) rule.maxParty = maxParty;
+    const durations = normalizeNumberList(item?.durations, []);
+    if (durations.length) rule.durations = durations;
+    rules.push(rule);
+  }
+  return rules.length ? rules : fallback;
+}
+
+function normalizePricePoints(input: unknown): RatePricePoint[] {
+  if (!Array.isArray(input)) return [];
+  const points: RatePricePoint[] = [];
+  for (const item of input) {
+    const minutes = Math.round(Number(item?.minutes));
+    const cents = Math.round(Number(item?.cents));
+    if (!Number.isFinite(minutes) || minutes <= 0 || !Number.isFinite(cents) || cents < 0) continue;
+    if (points.some((point) => point.minutes === minutes)) continue;
+    points.push({ minutes, cents });
+  }
+  return points.sort((a, b) => a.minutes - b.minutes);
+}
+
+/**
+ * Validates a definition (row or API payload). Fields missing on a built-in key
+ * keep their built-in values; a non built-in row without a name or resource is dropped.
+ */
+export function normalizeActivityDefinition(input: unknown): ActivityDefinition | null {
+  const raw = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const key = String(raw.key || "")
+    .trim()
+    .toUpperCase();
+  if (!key || key === "ALL") return null;
+  const base = findActivityByKey(BUILT_IN_ACTIVITIES, key);
+  const name = String(raw.name || base?.name || "").trim();
+  const resources = normalizeResourceRules(raw.resources, base?.resources ?? []);
+  if (!name || !resources.length) return null;
+
+  const maxPartySize = Math.round(Number(raw.maxPartySize));
+  const sortOrder = Math.round(Number(raw.sortOrder));
+  const transitionMinutes = Math.round(Number(raw.transitionMinutes));
+  const priceUnit = raw.priceUnit === "RESOURCE" || raw.priceUnit === "PERSON" ? raw.priceUnit : base?.priceUnit ?? "PERSON";
+  return {
+    key,
+    name,
+    resources,
+    durations: normalizeNumberList(raw.durations, base?.durations ?? [60]),
+    transitionMinutes:
+      Number.isFinite(transitionMinutes) && transitionMinutes >= 0 ? transitionMinutes : base?.transitionMinutes ?? 0,
+    maxPartySize: Number.isFinite(maxPartySize) && maxPartySize > 0 ? maxPartySize : base?.maxPartySize ?? 24,
+    requiresWaiver: typeof raw.requiresWaiver === "boolean" ? raw.requiresWaiver : base?.requiresWaiver ?? false,
+    priceUnit,
+    pricePoints: normalizePricePoints(raw.pricePoints),
+    sortOrder: Number.isFinite(sortOrder) ? sortOrder : base?.sortOrder ?? 100,
+    active: typeof raw.active === "boolean" ? raw.active : true,
+  };
+}
+
+/** Table rows override built-ins by key; built-ins without a row stay as defined above. */
+export function mergeActivityDefinitions(rows: ActivityDefinition[]): ActivityDefinition[] {
+  const byKey = new Map<string, ActivityDefinition>();
+  for (const activity of BUILT_IN_ACTIVITIES) byKey.set(activity.key, activity);
+  for (const row of rows) byKey.set(row.key, row);
+  return Array.from(byKey.values()).sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { freeResourceCount, maxPartySizeFor, suggestedStartMins, type BusyIntervals } from "@/lib/availability";
+
+describe("freeResourceCount", () => {
+  const busy: BusyIntervals = new Map([
+    ["L1", [[100, 200]]],
+    ["L2", [[0, 50], [300, 400]]],
+  ]);
+
+  it("counts resources with nothing overlapping the window", () => {
+    expect(freeResourceCount(["L1", "L2", "L3"], busy, 150, 250)).toBe(2);
+    expect(freeResourceCount(["L1", "L2", "L3"], busy, 150, 350)).toBe(1);
+  });
+
+  it("treats back-to-back intervals as free", () => {
+    expect(freeResourceCount(["L1", "L2"], busy, 200, 300)).toBe(2);
+  });
+});
+
+describe("maxPartySizeFor", () => {
+  // One lane per four guests.
+  const lanesFor = (partySize: number) => ({ DUCKPIN: Math.ceil(partySize / 4) });
+
+  it("finds the largest party the remaining resources seat", () => {
+    expect(maxPartySizeFor({ DUCKPIN: 2 }, ["DUCKPIN"], 24, lanesFor)).toBe(8);
+    expect(maxPartySizeFor({ DUCKPIN: 0 }, ["DUCKPIN"], 24, lanesFor)).toBe(0);
+  });
+
+  it("stops at the activity's party limit", () => {
+    expect(maxPartySizeFor({ DUCKPIN: 10 }, ["DUCKPIN"], 24, lanesFor)).toBe(24);
+  });
+
+  it("needs every type to fit, as for a combo", () => {
+    const comboNeeds = (partySize: number) => ({ AXE: Math.ceil(partySize / 6), DUCKPIN: Math.ceil(partySize / 4) });
+    expect(maxPartySizeFor({ AXE: 1, DUCKPIN: 3 }, ["AXE", "DUCKPIN"], 24, comboNeeds)).toBe(6);
+  });
+});
+
+describe("suggestedStartMins", () => {
+  const starts = [600, 630, 660, 690, 720, 750, 780];
+
+  it("offers the nearest open starts to a full requested time, earlier first on a tie", () => {
+    expect(suggestedStartMins(starts, [660, 690], 690)).toEqual([720, 630, 750]);
+    expect(suggestedStartMins(starts, [690], 690)).toEqual([660, 720, 630]);
+  });
+
+  it("offers nothing when the requested time is open or missing", () => {
+    expect(suggestedStartMins(starts, [660], 690)).toEqual([]);
+    expect(suggestedStartMins(starts, [660], null)).toEqual([]);
+    expect(suggestedStartMins(starts, [660], Number.NaN)).toEqual([]);
+  });
+
+  it("returns fewer than the limit when few starts are open", () => {
+    expect(suggestedStartMins(starts, [600, 630, 660, 690, 720, 750], 690)).toEqual([780]);
+  });
+});
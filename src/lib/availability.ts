@@ -0,0 +1,53 @@
+// src/lib/availability.ts
+// Shared (client + server) slot capacity helpers. /api/availability counts what's free at each start time with
+// them, and /book reads the same SlotCapacity shape to show scarcity, the largest party that fits and nearby starts.
+
+// Per start time: free resources by type (PARTY counts the requested party areas) and the largest party that fits.
+export type SlotCapacity = { startMin: number; remaining: Record<string, number>; maxPartySize: number };
+
+export type BusyIntervals = Map<string, Array<[startMs: number, endMs: number]>>;
+
+export const MAX_SUGGESTED_STARTS = 3;
+
+export function overlaps(aStart: number, aEnd: number, bStart: number, bEnd: number) {
+  // overlap if start < otherEnd and end > otherStart
+  return aStart < bEnd && aEnd > bStart;
+}
+
+/** How many of the resources have nothing in busyById overlapping [startMs, endMs). */
+export function freeResourceCount(resourceIds: string[], busyById: BusyIntervals, startMs: number, endMs: number) {
+  return resourceIds.filter(
+    (resourceId) => !(busyById.get(resourceId) || []).some(([s, e]) => overlaps(startMs, endMs, s, e))
+  ).length;
+}
+
+/** Largest party (up to maxPartySize) whose needs of each type, from needsFor, fit what's left at a start time. */
+export function maxPartySizeFor(
+  remaining: Record<string, number>,
+  types: string[],
+  maxPartySize: number,
+  needsFor: (partySize: number) => Record<string, number>
+) {
+  let max = 0;
+  for (let size = 1; size <= maxPartySize; size += 1) {
+    const sizeNeeds = needsFor(size);
+    if (types.some((type) => (sizeNeeds[type] ?? 0) > (remaining[type] ?? 0))) break;
+    max = size;
+  }
+  return max;
+}
+
+/** Open starts nearest a requested start that's full, closest first (earlier wins a tie); none if it's open. */
+export function suggestedStartMins(
+  startMins: number[],
+  blockedStartMins: number[],
+  requestedStartMin: number | null,
+  limit = MAX_SUGGESTED_STARTS
+) {
+  const blocked = new Set(blockedStartMins);
+  if (requestedStartMin == null || !Number.isFinite(requestedStartMin) || !blocked.has(requestedStartMin)) return [];
+  return startMins
+    .filter((startMin) => !blocked.has(startMin))
+    .sort((a, b) => Math.abs(a - requestedStartMin) - Math.abs(b - requestedStartMin) || a - b)
+    .slice(0, limit);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_BLACKOUT_RANGE_DAYS,
+  blackoutDatesBetween,
+  blackoutOccursOn,
+  describeBlackoutRule,
+  type BlackoutPattern,
+} from "@/lib/blackouts";
+
+function rule(fields: Partial<BlackoutPattern> = {}): BlackoutPattern {
+  return { date_key: "2026-01-05", end_date_key: null, weekdays: null, except_date_keys: null, ...fields };
+}
+
+// Jan 5, 2026 is a Monday.
+const MONDAYS_IN_JANUARY = rule({ end_date_key: "2026-01-26", weekdays: [1] });
+
+describe("blackoutOccursOn", () => {
+  it("covers just date_key for a one-off rule", () => {
+    expect(blackoutOccursOn(rule(), "2026-01-05")).toBe(true);
+    expect(blackoutOccursOn(rule(), "2026-01-04")).toBe(false);
+    expect(blackoutOccursOn(rule(), "2026-01-06")).toBe(false);
+  });
+
+  it("covers every day of a range, ends included", () => {
+    const range = rule({ end_date_key: "2026-01-07" });
+    expect(["2026-01-05", "2026-01-06", "2026-01-07"].every((day) => blackoutOccursOn(range, day))).toBe(true);
+    expect(blackoutOccursOn(range, "2026-01-08")).toBe(false);
+  });
+
+  it("keeps to the rule's weekdays, even when they come back from the database as strings", () => {
+    expect(blackoutOccursOn(MONDAYS_IN_JANUARY, "2026-01-12")).toBe(true);
+    expect(blackoutOccursOn(MONDAYS_IN_JANUARY, "2026-01-13")).toBe(false);
+    const stringDays = rule({ end_date_key: "2026-01-26", weekdays: ["1"] as unknown as number[] });
+    expect(blackoutOccursOn(stringDays, "2026-01-12")).toBe(true);
+  });
+
+  it("skips the rule's excepted days", () => {
+    const skipping = { ...MONDAYS_IN_JANUARY, except_date_keys: ["2026-01-19"] };
+    expect(blackoutOccursOn(skipping, "2026-01-19")).toBe(false);
+    expect(blackoutOccursOn(skipping, "2026-01-26")).toBe(true);
+  });
+});
+
+describe("blackoutDatesBetween", () => {
+  it("lists the covered days in order", () => {
+    expect(blackoutDatesBetween(MONDAYS_IN_JANUARY, "2026-01-01", "2026-01-31")).toEqual([
+      "2026-01-05",
+      "2026-01-12",
+      "2026-01-19",
+      "2026-01-26",
+    ]);
+    expect(blackoutDatesBetween(rule(), "2026-01-01", "2026-01-31")).toEqual(["2026-01-05"]);
+  });
+
+  it("clips to the window and leaves out excepted days", () => {
+    const skipping = { ...MONDAYS_IN_JANUARY, except_date_keys: ["2026-01-19"] };
+    expect(blackoutDatesBetween(skipping, "2026-01-10", "2026-01-31")).toEqual(["2026-01-12", "2026-01-26"]);
+    expect(blackoutDatesBetween(MONDAYS_IN_JANUARY, "2026-02-01", "2026-02-28")).toEqual([]);
+  });
+
+  it("stops walking a runaway range after the cap", () => {
+    const decade = rule({ date_key: "2026-01-01", end_date_key: "2036-01-01" });
+    const dates = blackoutDatesBetween(decade, "2026-01-01", "2036-01-01");
+    expect(dates).toHaveLength(MAX_BLACKOUT_RANGE_DAYS + 1);
+    expect(dates[0]).toBe("2026-01-01");
+  });
+});
+
+describe("describeBlackoutRule", () => {
+  it("summarizes weekdays, days and times", () => {
+    expect(describeBlackoutRule({ ...MONDAYS_IN_JANUARY, start_min: 17 * 60, end_min: 18 * 60 })).toBe(
+      "Every Mon, Jan 5, 2026 – Jan 26, 2026 · 5:00 PM – 6:00 PM"
+    );
+    expect(describeBlackoutRule({ ...rule(), start_min: null, end_min: null })).toBe("Jan 5, 2026 · All day");
+  });
+});
@@ -0,0 +1,65 @@
+// src/lib/blackouts.ts
+// Shared (client + server) blackout rule matching. Rows are loaded server-side by
+// src/lib/server/blackouts.ts; the staff Blackouts page uses the same matching for its calendar preview.
+
+import { addDaysToDateKey, formatDateKey, formatMinutesRange, weekdayForDateKey } from "@/lib/dateTime";
+
+export type BlackoutRule = {
+  id: string;
+  date_key: string; // first (or only) day
+  end_date_key: string | null; // last day of a range; null = date_key only
+  weekdays: number[] | null; // Sun=0 ... Sat=6; null = every day in range
+  except_date_keys: string[] | null;
+  start_min: number | null; // null = from open
+  end_min: number | null; // null = to close
+  activity: string;
+  resource_ids: string[] | null; // null = the whole activity
+  reason: string | null;
+  created_at: string;
+};
+
+export type BlackoutPattern = Pick<BlackoutRule, "date_key" | "end_date_key" | "weekdays" | "except_date_keys">;
+
+// Long ranges are capped so a typo'd end year can't make every lookup walk decades of days.
+export const MAX_BLACKOUT_RANGE_DAYS = 366 * 2;
+
+/** Whether the rule's date pattern covers this day (times and targets aside). */
+export function blackoutOccursOn(rule: BlackoutPattern, dateKey: string) {
+  const lastKey = rule.end_date_key || rule.date_key;
+  if (dateKey < rule.date_key || dateKey > lastKey) return false;
+  if ((rule.except_date_keys || []).includes(dateKey)) return false;
+  if (rule.weekdays?.length && !rule.weekdays.map(Number).includes(weekdayForDateKey(dateKey))) return false;
+  return true;
+}
+
+/** Days in [fromKey, toKey] the rule covers, in order. */
+export function blackoutDatesBetween(rule: BlackoutPattern, fromKey: string, toKey: string) {
+  const dates: string[] = [];
+  let cursor = fromKey < rule.date_key ? rule.date_key : fromKey;
+  const lastKey = rule.end_date_key && rule.end_date_key < toKey ? rule.end_date_key : toKey;
+  for (let guard = 0; cursor <= lastKey && guard <= MAX_BLACKOUT_RANGE_DAYS; guard += 1) {
+    if (blackoutOccursOn(rule, cursor)) dates.push(cursor);
+    cursor = addDaysToDateKey(cursor, 1);
+  }
+  return dates;
+}
+
+export function isResourceBlackout(rule: Pick<BlackoutRule, "resource_ids">) {
+  return !!rule.resource_ids?.length;
+}
+
+/** "Every Mon, Jan 5, 2026 – Jan 26, 2026 · 5:00 PM – 6:00 PM" style summary for lists. */
+export function describeBlackoutRule(rule: BlackoutPattern & Pick<BlackoutRule, "start_min" | "end_min">) {
+  const short = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  const days = rule.end_date_key
+    ? `${formatDateKey(rule.date_key, "medium")} – ${formatDateKey(rule.end_date_key, "medium")}`
+    : formatDateKey(rule.date_key, "medium");
+  const weekdays = rule.weekdays?.length
+    ? `Every ${[...rule.weekdays].map(Number).sort((a, b) => a - b).map((day) => short[day]).join(", ")}, `
+    : "";
+  const times =
+    rule.start_min == null && rule.end_min == null
+      ? "All day"
+      : formatMinutesRange(rule.start_min ?? 0, rule.end_min ?? 24 * 60);
+  return `${weekdays}${days} · ${times}`;
+}
@@ -1,6 +1,19 @@
 // src/lib/bookingLogic.ts
 
-export type Activity = "Axe Throwing" | "Duckpin Bowling" | "Combo Package";
+import {
+  DEFAULT_RATE_CARD_CONFIG,
+  findPriceModifier,
+  priceModifierCents,
+  pricePointCents,
+  resourcesForPartySize,
+  type PriceModifier,
+  type RateCardConfig,
+} from "@/lib/rateCard";
+import { builtInActivity, isBuiltInActivity, type ActivityDefinition, type ActivityResourceRule } from "@/lib/activities";
+
+export type BuiltInActivity = "Axe Throwing" | "Duckpin Bowling" | "Combo Package";
+// Any activity_definitions name; the built-in names keep editor completion.
+export type Activity = BuiltInActivity | (string & {});
 
 export const PARTY_AREA_OPTIONS = [
   { key: "duck-blind", name: "The Duck Blind (Indoor Party Area)", visible: true },
@@ -33,60 +46,52 @@ export function partyAreaCostCents(minutes: number, count: number) {
   return Math.round(hours * PARTY_AREA_RATE_CENTS_PER_HOUR * count);
 }
 
-export type NeededResources = {
+// Count per resources.type; AXE and DUCKPIN are always present (0 when unused).
+export type NeededResources = Record<string, number> & {
   AXE: number;
   DUCKPIN: number;
 };
 
-export const MAX_PARTY_SIZES: Record<Activity, number> = {
-  "Axe Throwing": 16,
-  "Duckpin Bowling": 24,
-  "Combo Package": 24,
-};
+// Party-size caps and bookable durations live on the activity definitions (src/lib/activities.ts).
 
-export const DURATIONS_MINUTES: Record<Activity, number[]> = {
-  "Axe Throwing": [15, 30, 60, 120],
-  "Duckpin Bowling": [30, 60, 120],
-  // Combo uses per-activity durations (axe + duckpin)
-  "Combo Package": [60, 120, 180, 240],
-};
+// --- RESOURCE THRESHOLDS ---
+// Thresholds and price points come from the rate card (src/lib/rateCard.ts);
+// callers without a loaded card get the built-in defaults.
 
-// --- RESOURCE THRESHOLDS (SOURCE OF TRUTH) ---
+export function duckpinLanesForParty(partySize: number, rateCard: RateCardConfig = DEFAULT_RATE_CARD_CONFIG): number {
+  return resourcesForPartySize(rateCard.duckpinLaneMaxParty, partySize);
+}
 
-export function duckpinLanesForParty(partySize: number): number {
-  // 1 lane: 1-6
-  // 2 lanes: 7-12
-  // 3 lanes: 13-18
-  // 4 lanes: 19-24
-  if (partySize >= 19) return 4;
-  if (partySize >= 13) return 3;
-  if (partySize >= 7) return 2;
-  return 1;
+export function axeBaysForParty(partySize: number, rateCard: RateCardConfig = DEFAULT_RATE_CARD_CONFIG): number {
+  return resourcesForPartySize(rateCard.axeBayMaxParty, partySize);
 }
 
-export function axeBaysForParty(partySize: number): number {
-  // Keeping your existing logic style:
-  // If you want different thresholds later, change ONLY here.
-  // Current: 1 bay up to 8, 2 bays 9-16 (cap 2)
-  if (partySize >= 9) return 2;
+function resourcesForRule(rule: ActivityResourceRule, partySize: number, rateCard: RateCardConfig): number {
+  if (rule.maxParty?.length) return resourcesForPartySize(rule.maxParty, partySize);
+  if (rule.type === "AXE") return axeBaysForParty(partySize, rateCard);
+  if (rule.type === "DUCKPIN") return duckpinLanesForParty(partySize, rateCard);
   return 1;
 }
 
-export function neededResources(activity: Activity, partySize: number): NeededResources {
-  if (activity === "Axe Throwing") {
-    return { AXE: axeBaysForParty(partySize), DUCKPIN: 0 };
-  }
-  if (activity === "Duckpin Bowling") {
-    return { AXE: 0, DUCKPIN: duckpinLanesForParty(partySize) };
+/**
+ * Resources per type for a party. Pass the loaded definition for activities
+ * outside the built-in three; built-ins resolve without one.
+ */
+export function neededResources(
+  activity: Activity,
+  partySize: number,
+  rateCard: RateCardConfig = DEFAULT_RATE_CARD_CONFIG,
+  definition?: ActivityDefinition | null
+): NeededResources {
+  const needs: NeededResources = { AXE: 0, DUCKPIN: 0 };
+  const rules = (definition ?? builtInActivity(activity))?.resources ?? [];
+  for (const rule of rules) {
+    needs[rule.type] = resourcesForRule(rule, partySize, rateCard);
   }
-  // Combo Package reserves BOTH
-  return {
-    AXE: axeBaysForParty(partySize),
-    DUCKPIN: duckpinLanesForParty(partySize),
-  };
+  return needs;
 }
 
-// --- PRICING (SOURCE OF TRUTH) ---
+// --- PRICING ---
 
 export const PRICING = {
   AXE_PER_PERSON_CENTS: 2000, // $20
@@ -95,143 +100,177 @@ export const PRICING = {
 
 export type ComboDurations = { axeMinutes: number; duckpinMinutes: number };
 
-export function comboDuckpinLaneCents(minutes: number): number {
-  if (minutes === 30) return 30; // $30 per lane
-  if (minutes === 60) return 40; // $40 per lane
-  if (minutes === 120) return 75; // $75 per lane
-  return Math.round(40 * (minutes / 60));
+// Combo helpers return whole dollars (callers multiply by 100).
+export function comboDuckpinLaneCents(minutes: number, rateCard: RateCardConfig = DEFAULT_RATE_CARD_CONFIG): number {
+  return pricePointCents(rateCard.comboDuckpinPerLane, minutes) / 100;
 }
 
-export function comboAxePersonCents(minutes: number): number {
-  if (minutes === 30) return 15; // $15 per person
-  if (minutes === 60) return 20; // $20 per person
-  if (minutes === 120) return 35; // $35 per person
-  return Math.round(20 * (minutes / 60));
+export function comboAxePersonCents(minutes: number, rateCard: RateCardConfig = DEFAULT_RATE_CARD_CONFIG): number {
+  return pricePointCents(rateCard.comboAxePerPerson, minutes) / 100;
 }
 
-export function totalCents(
+export function axePerPersonCents(minutes: number, rateCard: RateCardConfig = DEFAULT_RATE_CARD_CONFIG): number {
+  return pricePointCents(rateCard.axePerPerson, minutes);
+}
+
+export function duckpinPerLaneCents(minutes: number, rateCard: RateCardConfig = DEFAULT_RATE_CARD_CONFIG): number {
+  return pricePointCents(rateCard.duckpinPerLane, minutes);
+}
+
+function activityBaseCents(
   activity: Activity,
   partySize: number,
   durationMinutes: number,
-  comboDurations?: ComboDurations
+  comboDurations: ComboDurations | undefined,
+  rateCard: RateCardConfig,
+  definition?: ActivityDefinition | null
 ): number {
-  // Adjust here if your model changes.
-  // From your UI examples:
-  // Axe: $25 per person per hour
-  // Duckpin: $40 per lane (for the duckpin portion)
-  // Combo: Duckpin portion + Axe portion
-
-  const hours = durationMinutes / 60;
+  if (definition && !isBuiltInActivity(definition)) {
+    const unitCents = pricePointCents(definition.pricePoints, durationMinutes);
+    if (definition.priceUnit === "PERSON") return Math.round(partySize * unitCents);
+    const needs = neededResources(activity, partySize, rateCard, definition);
+    const count = definition.resources.reduce((sum, rule) => sum + (needs[rule.type] || 0), 0);
+    return Math.round(count * unitCents);
+  }
 
   if (activity === "Axe Throwing") {
-    const perPerson =
-      durationMinutes === 15 ? 10 :
-      durationMinutes === 30 ? 20 :
-      durationMinutes === 60 ? 25 :
-      durationMinutes === 120 ? 45 :
-      25 * hours;
-    return Math.round(partySize * perPerson * 100);
+    return Math.round(partySize * axePerPersonCents(durationMinutes, rateCard));
   }
 
   if (activity === "Duckpin Bowling") {
-    const lanes = duckpinLanesForParty(partySize);
-    const perLane =
-      durationMinutes === 30 ? 30 :
-      durationMinutes === 60 ? 40 :
-      durationMinutes === 120 ? 75 :
-      40 * hours;
-    return Math.round(lanes * perLane * 100);
+    const lanes = duckpinLanesForParty(partySize, rateCard);
+    return Math.round(lanes * duckpinPerLaneCents(durationMinutes, rateCard));
   }
 
-  // Combo Package: Duckpin @ $40/lane/hour + Axe @ $20/person/hour
-  const lanes = duckpinLanesForParty(partySize);
+  if (activity !== "Combo Package") return 0;
+
+  // Combo Package: duckpin portion per lane + axe portion per person
+  const lanes = duckpinLanesForParty(partySize, rateCard);
   const duckpinMinutes = comboDurations?.duckpinMinutes ?? 60;
   const axeMinutes = comboDurations?.axeMinutes ?? 60;
-  const duckpinPortion = lanes * comboDuckpinLaneCents(duckpinMinutes);
-  const axePortion = partySize * comboAxePersonCents(axeMinutes);
-  return Math.round((duckpinPortion + axePortion) * 100);
+  const duckpinPortion = lanes * pricePointCents(rateCard.comboDuckpinPerLane, duckpinMinutes);
+  const axePortion = partySize * pricePointCents(rateCard.comboAxePerPerson, axeMinutes);
+  return Math.round(duckpinPortion + axePortion);
 }
 
-export function cardFeeCents(amountCents: number): number {
-  if (!Number.isFinite(amountCents) || amountCents <= 0) return 0;
-  return Math.round(amountCents * 0.03);
+// Slot the booking starts in; enables the rate card's day/time price modifiers.
+export type PricingSlot = { dateKey: string; startMin: number };
+
+export type ActivityQuote = {
+  baseCents: number;
+  modifier: PriceModifier | null;
+  modifierCents: number;
+  totalCents: number;
+};
+
+export function quoteActivityCents(
+  activity: Activity,
+  partySize: number,
+  durationMinutes: number,
+  comboDurations?: ComboDurations,
+  rateCard: RateCardConfig = DEFAULT_RATE_CARD_CONFIG,
+  slot?: PricingSlot | null,
+  definition?: ActivityDefinition | null
+): ActivityQuote {
+  const baseCents = activityBaseCents(activity, partySize, durationMinutes, comboDurations, rateCard, definition);
+  const modifier = slot ? findPriceModifier(rateCard, slot.dateKey, slot.startMin) : null;
+  const modifierCents = modifier ? priceModifierCents(baseCents, modifier) : 0;
+  return { baseCents, modifier, modifierCents, totalCents: Math.max(0, baseCents + modifierCents) };
 }
 
-// --- TIME HELPERS ---
+export function totalCents(
+  activity: Activity,
+  partySize: number,
+  durationMinutes: number,
+  comboDurations?: ComboDurations,
+  rateCard: RateCardConfig = DEFAULT_RATE_CARD_CONFIG,
+  slot?: PricingSlot | null,
+  definition?: ActivityDefinition | null
+): number {
+  return quoteActivityCents(activity, partySize, durationMinutes, comboDurations, rateCard, slot, definition).totalCents;
+}
 
-export function toUtcRange(dateISO: string, startTimeHHmm: string, durationMinutes: number, tz: string) {
-  // You already have a working time approach in your routes.
-  // Keep using it; this helper is just a placeholder if you want to consolidate later.
-  // If you’re currently building UTC timestamps in route.ts, leave that there for now.
-  return { tz, dateISO, startTimeHHmm, durationMinutes };
+export function cardFeeCents(amountCents: number): number {
+  if (!Number.isFinite(amountCents) || amountCents <= 0) return 0;
+  return Math.round(amountCents * 0.03);
 }
 
-// --- TIMEZONE HELPERS ---
+export type ComboFirst = "DUCKPIN" | "AXE";
 
-export function getTimeZoneOffsetMinutes(date: Date, timeZone: string) {
-  const dtf = new Intl.DateTimeFormat("en-US", {
-    timeZone,
-    hour12: false,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "2-digit",
-    minute: "2-digit",
-    second: "2-digit",
-  });
+// Segment lengths of a booked combo; missing lengths are the legacy 60/60 split with no gap.
+export type ComboSegmentDurations = {
+  axeMinutes?: number | null;
+  duckpinMinutes?: number | null;
+  transitionMinutes?: number | null;
+};
 
-  const parts = dtf.formatToParts(date);
-  const map: Record<string, string> = {};
-  for (const p of parts) {
-    if (p.type !== "literal") map[p.type] = p.value;
-  }
+export type MinuteWindow = { startMin: number; endMin: number };
 
-  const asUTC = Date.UTC(
-    Number(map.year),
-    Number(map.month) - 1,
-    Number(map.day),
-    Number(map.hour),
-    Number(map.minute),
-    Number(map.second)
-  );
+const DEFAULT_COMBO_SEGMENT_MINUTES = 60;
 
-  return Math.round((asUTC - date.getTime()) / 60000);
+function segmentMinutes(value: number | null | undefined, fallback: number, allowZero = false) {
+  const minutes = Math.round(Number(value));
+  if (value == null || !Number.isFinite(minutes)) return fallback;
+  return minutes > 0 || (allowZero && minutes === 0) ? minutes : fallback;
 }
 
-export function nyLocalDateKeyPlusMinutesToUTCISOString(dateKey: string, minsFromMidnight: number) {
-  const [y, mo, d] = dateKey.split("-").map(Number);
-  const hh = Math.floor(minsFromMidnight / 60);
-  const mm = minsFromMidnight % 60;
+/** bookings.combo_order ("DUCKPIN_FIRST" / "AXE_FIRST") to the first segment; duckpin first by default. */
+export function comboFirstFromOrder(order: string | null | undefined): ComboFirst {
+  return order === "AXE_FIRST" ? "AXE" : "DUCKPIN";
+}
 
-  const utcGuessMs = Date.UTC(y, (mo ?? 1) - 1, d ?? 1, hh, mm, 0);
-  const guessDate = new Date(utcGuessMs);
+/** Reads the combo_*_minutes columns of a bookings row. */
+export function comboDurationsFromRow(row: {
+  combo_axe_minutes?: number | null;
+  combo_duckpin_minutes?: number | null;
+  combo_transition_minutes?: number | null;
+}): ComboSegmentDurations {
+  return {
+    axeMinutes: row.combo_axe_minutes,
+    duckpinMinutes: row.combo_duckpin_minutes,
+    transitionMinutes: row.combo_transition_minutes,
+  };
+}
 
-  const tz = "America/New_York";
-  const offsetMin = getTimeZoneOffsetMinutes(guessDate, tz);
+/**
+ * Minute windows for each combo segment, starting at startMin. The first activity runs for its
+ * own length, then the transition gap, then the second activity; overall spans both.
+ */
+export function comboSegmentWindows(startMin: number, comboFirst: ComboFirst, durations: ComboSegmentDurations = {}) {
+  const axeMinutes = segmentMinutes(durations.axeMinutes, DEFAULT_COMBO_SEGMENT_MINUTES);
+  const duckpinMinutes = segmentMinutes(durations.duckpinMinutes, DEFAULT_COMBO_SEGMENT_MINUTES);
+  const transitionMinutes = segmentMinutes(durations.transitionMinutes, 0, true);
+  const firstMinutes = comboFirst === "DUCKPIN" ? duckpinMinutes : axeMinutes;
+  const secondMinutes = comboFirst === "DUCKPIN" ? axeMinutes : duckpinMinutes;
+  const first: MinuteWindow = { startMin, endMin: startMin + firstMinutes };
+  const secondStartMin = first.endMin + transitionMinutes;
+  const second: MinuteWindow = { startMin: secondStartMin, endMin: secondStartMin + secondMinutes };
 
-  const actualUtcMs = utcGuessMs - offsetMin * 60_000;
-  return new Date(actualUtcMs).toISOString();
+  return {
+    duckpin: comboFirst === "DUCKPIN" ? first : second,
+    axe: comboFirst === "DUCKPIN" ? second : first,
+    overall: { startMin, endMin: second.endMin },
+  };
 }
 
-export type ComboFirst = "DUCKPIN" | "AXE";
+/** Length of the whole combo, transition gap included. */
+export function comboTotalMinutes(durations: ComboSegmentDurations = {}) {
+  const { overall } = comboSegmentWindows(0, "DUCKPIN", durations);
+  return overall.endMin - overall.startMin;
+}
 
-export function comboSegments(startTs: string, comboFirst: ComboFirst) {
-  // startTs is ISO timestamp in UTC (timestamptz string)
-  const start = new Date(startTs);
-  const mid = new Date(start.getTime() + 60 * 60 * 1000); // +1 hour
-  const end = new Date(start.getTime() + 2 * 60 * 60 * 1000); // +2 hours
-
-  if (comboFirst === "DUCKPIN") {
-    return {
-      duckpin: { start: start.toISOString(), end: mid.toISOString() },
-      axe: { start: mid.toISOString(), end: end.toISOString() },
-      overall: { start: start.toISOString(), end: end.toISOString() },
-    };
-  }
+export function comboSegments(startTs: string, comboFirst: ComboFirst, durations: ComboSegmentDurations = {}) {
+  // startTs is ISO timestamp in UTC (timestamptz string); segments are elapsed time from it.
+  const startMs = new Date(startTs).getTime();
+  const windows = comboSegmentWindows(0, comboFirst, durations);
+  const toRange = (window: MinuteWindow) => ({
+    start: new Date(startMs + window.startMin * 60 * 1000).toISOString(),
+    end: new Date(startMs + window.endMin * 60 * 1000).toISOString(),
+  });
 
   return {
-    axe: { start: start.toISOString(), end: mid.toISOString() },
-    duckpin: { start: mid.toISOString(), end: end.toISOString() },
-    overall: { start: start.toISOString(), end: end.toISOString() },
+    duckpin: toRange(windows.duckpin),
+    axe: toRange(windows.axe),
+    overall: toRange(windows.overall),
   };
 }
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { outstandingCents, splitShareCents } from "@/lib/bookingPayments";
+
+describe("splitShareCents", () => {
+  it("rounds each share up so the last one is the smallest", () => {
+    expect(splitShareCents(10000, 3)).toBe(3334);
+    expect(splitShareCents(10000 - 3334, 2)).toBe(3333);
+    expect(splitShareCents(10000 - 3334 - 3333, 1)).toBe(3333);
+  });
+
+  it("adds up to the balance over a whole split", () => {
+    let remaining = 12345;
+    const shares: number[] = [];
+    for (let sharesLeft = 4; sharesLeft > 0; sharesLeft -= 1) {
+      const share = splitShareCents(remaining, sharesLeft);
+      shares.push(share);
+      remaining -= share;
+    }
+    expect(shares).toEqual([3087, 3086, 3086, 3086]);
+    expect(remaining).toBe(0);
+  });
+
+  it("takes the whole balance for the last share and never goes negative", () => {
+    expect(splitShareCents(2500, 1)).toBe(2500);
+    expect(splitShareCents(2500, 0)).toBe(2500);
+    expect(splitShareCents(-100, 3)).toBe(0);
+  });
+});
+
+describe("outstandingCents", () => {
+  it("is the whole total until a part is paid, then the balance left", () => {
+    expect(outstandingCents({ paid: false, total_cents: 9000, balance_due_cents: null })).toBe(9000);
+    expect(outstandingCents({ paid: false, total_cents: 9000, balance_due_cents: 6000 })).toBe(6000);
+    expect(outstandingCents({ paid: true, total_cents: 9000, balance_due_cents: 6000 })).toBe(0);
+  });
+});
@@ -0,0 +1,37 @@
+// src/lib/bookingPayments.ts
+// Shared (client + server) split payment helpers. Each part paid toward a booking is a booking_payments row
+// (docs/booking-payments.sql); what's still owed is kept in balance_due_cents, the same as after a deposit.
+
+import { balanceDueCents } from "@/lib/deposits";
+
+export type PaymentTender = "CARD" | "CASH" | "GIFT";
+
+export type BookingPayment = {
+  id: string;
+  booking_id: string;
+  tender: PaymentTender;
+  amount_cents: number;
+  tip_cents: number;
+  card_fee_cents: number;
+  payment_intent_id: string | null;
+  split_index: number | null;
+  split_count: number | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+/** What's still owed: the balance left by a deposit or part payment, or the whole total until paid. */
+export function outstandingCents(booking: {
+  paid?: boolean | null;
+  total_cents?: number | null;
+  balance_due_cents?: number | null;
+}) {
+  if (booking.paid === true) return 0;
+  return balanceDueCents(booking) || Math.max(0, Number(booking.total_cents || 0));
+}
+
+/** Next share of an even split: the remaining balance over the shares left, rounded up so the last is smallest. */
+export function splitShareCents(remainingCents: number, sharesLeft: number) {
+  if (sharesLeft <= 1) return Math.max(0, remainingCents);
+  return Math.ceil(Math.max(0, remainingCents) / sharesLeft);
+}
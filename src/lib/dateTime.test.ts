@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDaysToDateKey,
+  businessDayLengthMinutes,
+  businessDayUtcRange,
+  dateKeyInTimeZone,
+  parseTimeLabel,
+  toZonedTime,
+  zonedTimeToUtcISOString,
+} from "@/lib/dateTime";
+
+const NEW_YORK = "America/New_York";
+
+// 2025 transitions in America/New_York: clocks jump 2:00 -> 3:00 AM on Mar 9 and fall back 2:00 -> 1:00 AM on Nov 2.
+describe("zonedTimeToUtc across DST", () => {
+  it("converts times either side of spring-forward with the right offset", () => {
+    expect(zonedTimeToUtcISOString("2025-03-09", 60, NEW_YORK)).toBe("2025-03-09T06:00:00.000Z"); // 1:00 AM EST
+    expect(zonedTimeToUtcISOString("2025-03-09", 180, NEW_YORK)).toBe("2025-03-09T07:00:00.000Z"); // 3:00 AM EDT
+    expect(zonedTimeToUtcISOString("2025-03-09", 16 * 60, NEW_YORK)).toBe("2025-03-09T20:00:00.000Z");
+  });
+
+  it("moves a skipped spring-forward time past the jump", () => {
+    // 2:30 AM doesn't exist; it lands on 3:30 AM EDT.
+    expect(zonedTimeToUtcISOString("2025-03-09", 150, NEW_YORK)).toBe("2025-03-09T07:30:00.000Z");
+  });
+
+  it("maps a repeated fall-back time to its first (daylight) occurrence", () => {
+    expect(zonedTimeToUtcISOString("2025-11-02", 90, NEW_YORK)).toBe("2025-11-02T05:30:00.000Z"); // 1:30 AM EDT
+  });
+
+  it("converts times either side of fall-back with the right offset", () => {
+    expect(zonedTimeToUtcISOString("2025-11-02", 0, NEW_YORK)).toBe("2025-11-02T04:00:00.000Z"); // midnight EDT
+    expect(zonedTimeToUtcISOString("2025-11-02", 180, NEW_YORK)).toBe("2025-11-02T08:00:00.000Z"); // 3:00 AM EST
+    expect(zonedTimeToUtcISOString("2025-11-02", 16 * 60, NEW_YORK)).toBe("2025-11-02T21:00:00.000Z");
+  });
+
+  it("lets minutes run past midnight into the next day", () => {
+    expect(zonedTimeToUtcISOString("2025-11-01", 1440 + 180, NEW_YORK)).toBe("2025-11-02T08:00:00.000Z");
+  });
+});
+
+describe("businessDayUtcRange across DST", () => {
+  it("spans 23 hours on the spring-forward day", () => {
+    expect(businessDayUtcRange("2025-03-09", NEW_YORK)).toEqual({
+      startTs: "2025-03-09T05:00:00.000Z",
+      endTs: "2025-03-10T04:00:00.000Z",
+    });
+    expect(businessDayLengthMinutes("2025-03-09", NEW_YORK)).toBe(1380);
+  });
+
+  it("spans 25 hours on the fall-back day", () => {
+    expect(businessDayUtcRange("2025-11-02", NEW_YORK)).toEqual({
+      startTs: "2025-11-02T04:00:00.000Z",
+      endTs: "2025-11-03T05:00:00.000Z",
+    });
+    expect(businessDayLengthMinutes("2025-11-02", NEW_YORK)).toBe(1500);
+  });
+
+  it("spans 24 hours on an ordinary day", () => {
+    expect(businessDayLengthMinutes("2025-06-15", NEW_YORK)).toBe(1440);
+  });
+});
+
+describe("toZonedTime across DST", () => {
+  it("reads the wall clock either side of spring-forward", () => {
+    const beforeJump = toZonedTime("2025-03-09T06:59:00.000Z", NEW_YORK); // 1:59 AM EST
+    expect(beforeJump).toEqual({ dateKey: "2025-03-09", minutes: 119, weekday: 0 });
+    expect(toZonedTime("2025-03-09T07:00:00.000Z", NEW_YORK).minutes).toBe(180); // a minute later it's 3:00 AM EDT
+  });
+
+  it("reads both 1:30 AMs on the fall-back day as 1:30", () => {
+    expect(toZonedTime("2025-11-02T05:30:00.000Z", NEW_YORK).minutes).toBe(90); // EDT
+    expect(toZonedTime("2025-11-02T06:30:00.000Z", NEW_YORK).minutes).toBe(90); // EST
+  });
+
+  it("round-trips wall-clock times outside the skipped and repeated hours", () => {
+    for (const [dateKey, minutes] of [
+      ["2025-03-09", 60],
+      ["2025-03-09", 180],
+      ["2025-11-02", 30],
+      ["2025-11-02", 180],
+      ["2025-11-02", 23 * 60 + 59],
+    ] as const) {
+      expect(toZonedTime(zonedTimeToUtcISOString(dateKey, minutes, NEW_YORK), NEW_YORK)).toMatchObject({
+        dateKey,
+        minutes,
+      });
+    }
+  });
+});
+
+describe("dateKeyInTimeZone across DST", () => {
+  it("keeps late evening on the local day after each transition", () => {
+    expect(dateKeyInTimeZone("2025-03-10T03:30:00.000Z", NEW_YORK)).toBe("2025-03-09"); // 11:30 PM EDT
+    expect(dateKeyInTimeZone("2025-03-10T04:00:00.000Z", NEW_YORK)).toBe("2025-03-10");
+    expect(dateKeyInTimeZone("2025-11-03T04:30:00.000Z", NEW_YORK)).toBe("2025-11-02"); // 11:30 PM EST
+    expect(dateKeyInTimeZone("2025-11-03T05:00:00.000Z", NEW_YORK)).toBe("2025-11-03");
+  });
+});
+
+describe("parseTimeLabel", () => {
+  it("reads 12-hour labels with or without minutes, spacing and case", () => {
+    expect(parseTimeLabel("4:00 PM")).toBe(960);
+    expect(parseTimeLabel("4 pm")).toBe(960);
+    expect(parseTimeLabel("4:00PM")).toBe(960);
+    expect(parseTimeLabel(" 9:30 am ")).toBe(570);
+  });
+
+  it("maps 12 AM to midnight and 12 PM to noon", () => {
+    expect(parseTimeLabel("12:00 AM")).toBe(0);
+    expect(parseTimeLabel("12:30 PM")).toBe(750);
+  });
+
+  it("reads 24-hour labels", () => {
+    expect(parseTimeLabel("16:00")).toBe(960);
+    expect(parseTimeLabel("16")).toBe(960);
+    expect(parseTimeLabel("0:15")).toBe(15);
+  });
+
+  it("returns null for anything else", () => {
+    for (const label of ["", null, undefined, "noon", "13 PM", "0 AM", "24:00", "9:75", "4:0 PM"]) {
+      expect(parseTimeLabel(label)).toBeNull();
+    }
+  });
+});
+
+describe("addDaysToDateKey", () => {
+  it("steps one calendar day across DST transitions", () => {
+    expect(addDaysToDateKey("2025-03-08", 1)).toBe("2025-03-09");
+    expect(addDaysToDateKey("2025-03-09", 1)).toBe("2025-03-10");
+    expect(addDaysToDateKey("2025-11-02", 1)).toBe("2025-11-03");
+    expect(addDaysToDateKey("2025-11-01", 7)).toBe("2025-11-08");
+  });
+
+  it("crosses month, year and leap-day boundaries in both directions", () => {
+    expect(addDaysToDateKey("2024-12-31", 1)).toBe("2025-01-01");
+    expect(addDaysToDateKey("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDaysToDateKey("2025-03-01", -1)).toBe("2025-02-28");
+    expect(addDaysToDateKey("2025-01-01", -365)).toBe("2024-01-02");
+  });
+});
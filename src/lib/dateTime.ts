@@ -0,0 +1,306 @@
+// src/lib/dateTime.ts
+// Shared (client + server) date/time helpers. Bookings are stored as UTC instants; hours, pricing
+// and availability work in wall-clock terms at a location: a date key (YYYY-MM-DD) plus minutes
+// from local midnight in the location's IANA timezone. Every conversion between the two, and all
+// date-key math and time formatting, goes through this module.
+
+export const DEFAULT_TIME_ZONE = "America/New_York";
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// ---------- date keys ----------
+
+export type DateParts = { year: number; month: number; day: number };
+
+/** YYYY-MM-DD parts; null unless the key names a real calendar date. */
+export function parseDateKey(dateKey: string | null | undefined): DateParts | null {
+  const match = String(dateKey || "").match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const probe = new Date(Date.UTC(year, month - 1, day));
+  if (probe.getUTCFullYear() !== year || probe.getUTCMonth() !== month - 1 || probe.getUTCDate() !== day) return null;
+  return { year, month, day };
+}
+
+export function isValidDateKey(dateKey: string) {
+  return parseDateKey(dateKey) != null;
+}
+
+export function dateKeyFromParts({ year, month, day }: DateParts) {
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function dateKeyToUtcMs(dateKey: string) {
+  const parts = parseDateKey(dateKey);
+  if (!parts) throw new Error(`Invalid date key: ${dateKey}`);
+  return Date.UTC(parts.year, parts.month - 1, parts.day);
+}
+
+function utcMsToDateKey(ms: number) {
+  const date = new Date(ms);
+  return dateKeyFromParts({ year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() });
+}
+
+/** Calendar arithmetic on a date key (no timezone involved). */
+export function addDaysToDateKey(dateKey: string, days: number) {
+  return utcMsToDateKey(dateKeyToUtcMs(dateKey) + Math.round(days) * DAY_MS);
+}
+
+/** Whole days from `from` to `to` (negative when `to` is earlier). */
+export function daysBetweenDateKeys(from: string, to: string) {
+  return Math.round((dateKeyToUtcMs(to) - dateKeyToUtcMs(from)) / DAY_MS);
+}
+
+/** Sun=0 ... Sat=6, matching store_hours_weekly.weekday. */
+export function weekdayForDateKey(dateKey: string) {
+  return new Date(dateKeyToUtcMs(dateKey)).getUTCDay();
+}
+
+/** Monday on or before the date (reports group weeks Mon-Sun). */
+export function weekStartDateKey(dateKey: string) {
+  return addDaysToDateKey(dateKey, -((weekdayForDateKey(dateKey) + 6) % 7));
+}
+
+/** Date key of a browser-local Date; for calendar widgets that build days with `new Date(y, m, d)`. */
+export function dateKeyFromLocalDate(date: Date) {
+  return dateKeyFromParts({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() });
+}
+
+/** Browser-local midnight of a date key; the inverse of dateKeyFromLocalDate. */
+export function localDateFromDateKey(dateKey: string) {
+  const parts = parseDateKey(dateKey);
+  if (!parts) return new Date(NaN);
+  return new Date(parts.year, parts.month - 1, parts.day);
+}
+
+// ---------- time zones ----------
+
+export function isValidTimeZone(timeZone: string) {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string) {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function wallClockParts(date: Date, timeZone: string) {
+  const map: Record<string, number> = {};
+  for (const part of partsFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") map[part.type] = Number(part.value);
+  }
+  return {
+    year: map.year,
+    month: map.month,
+    day: map.day,
+    // Some engines still render midnight as "24" in h23 mode.
+    hour: map.hour % 24,
+    minute: map.minute,
+    second: map.second,
+  };
+}
+
+/** Offset of the zone from UTC at an instant, in minutes (America/New_York: -300 or -240). */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string) {
+  const p = wallClockParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / MINUTE_MS);
+}
+
+export type ZonedTime = {
+  dateKey: string;
+  minutes: number; // minutes from local midnight
+  weekday: number; // Sun=0 ... Sat=6
+};
+
+/** Wall-clock date and time of an instant at a location. */
+export function toZonedTime(instant: Date | string, timeZone: string = DEFAULT_TIME_ZONE): ZonedTime {
+  const p = wallClockParts(new Date(instant), timeZone);
+  const dateKey = dateKeyFromParts(p);
+  return { dateKey, minutes: p.hour * 60 + p.minute, weekday: weekdayForDateKey(dateKey) };
+}
+
+export function dateKeyInTimeZone(instant: Date | string, timeZone: string = DEFAULT_TIME_ZONE) {
+  return toZonedTime(instant, timeZone).dateKey;
+}
+
+export function minutesInTimeZone(instant: Date | string, timeZone: string = DEFAULT_TIME_ZONE) {
+  return toZonedTime(instant, timeZone).minutes;
+}
+
+export function nowInTimeZone(timeZone: string = DEFAULT_TIME_ZONE) {
+  return toZonedTime(new Date(), timeZone);
+}
+
+/**
+ * Instant for a wall-clock time at a location. `minutes` may run past midnight (e.g. 1500 is
+ * 1:00 AM the next day). DST:
+ * - a time skipped by spring-forward (2:30 AM) maps to the same elapsed time after the jump (3:30 AM);
+ * - a time repeated by fall-back (1:30 AM) maps to its first occurrence (daylight time).
+ */
+export function zonedTimeToUtc(dateKey: string, minutes: number, timeZone: string = DEFAULT_TIME_ZONE) {
+  const wall = dateKeyToUtcMs(dateKey) + Math.round(minutes) * MINUTE_MS;
+  // Real zones change offset at most once within a day either side of a wall-clock time.
+  const before = getTimeZoneOffsetMinutes(new Date(wall - DAY_MS), timeZone);
+  const after = getTimeZoneOffsetMinutes(new Date(wall + DAY_MS), timeZone);
+  const candidates = (before === after ? [before] : [before, after])
+    .map((offset) => wall - offset * MINUTE_MS)
+    .filter((utc) => wall - getTimeZoneOffsetMinutes(new Date(utc), timeZone) * MINUTE_MS === utc)
+    .sort((a, b) => a - b);
+  return new Date(candidates.length ? candidates[0] : wall - before * MINUTE_MS);
+}
+
+export function zonedTimeToUtcISOString(dateKey: string, minutes: number, timeZone: string = DEFAULT_TIME_ZONE) {
+  return zonedTimeToUtc(dateKey, minutes, timeZone).toISOString();
+}
+
+/**
+ * UTC start/end for a booking that starts at a wall-clock time ("16:00", "4:00 PM" or minutes
+ * from midnight). The end is `durationMinutes` of elapsed time later, so a session that spans a
+ * DST change still lasts its full length.
+ */
+export function toUtcRange(
+  dateKey: string,
+  startTime: string | number,
+  durationMinutes: number,
+  timeZone: string = DEFAULT_TIME_ZONE
+) {
+  const startMin = typeof startTime === "number" ? startTime : parseTimeLabel(startTime);
+  if (startMin == null || !Number.isFinite(startMin)) throw new Error(`Invalid start time: ${startTime}`);
+  const start = zonedTimeToUtc(dateKey, startMin, timeZone);
+  const end = new Date(start.getTime() + Math.round(durationMinutes) * MINUTE_MS);
+  return { startTs: start.toISOString(), endTs: end.toISOString() };
+}
+
+/**
+ * UTC bounds of a business day at a location: [local midnight, next local midnight). Store hours
+ * close by midnight, so the business day is the calendar day; it lasts 23 or 25 hours on DST days.
+ */
+export function businessDayUtcRange(dateKey: string, timeZone: string = DEFAULT_TIME_ZONE) {
+  return {
+    startTs: zonedTimeToUtcISOString(dateKey, 0, timeZone),
+    endTs: zonedTimeToUtcISOString(addDaysToDateKey(dateKey, 1), 0, timeZone),
+  };
+}
+
+/** Elapsed minutes from local midnight to local midnight (1380/1440/1500). */
+export function businessDayLengthMinutes(dateKey: string, timeZone: string = DEFAULT_TIME_ZONE) {
+  const { startTs, endTs } = businessDayUtcRange(dateKey, timeZone);
+  return Math.round((Date.parse(endTs) - Date.parse(startTs)) / MINUTE_MS);
+}
+
+// ---------- formatting and parsing ----------
+
+/** 960 -> "4:00 PM"; wraps past midnight (1440 -> "12:00 AM"). */
+export function formatMinutesLabel(minutes: number) {
+  const total = ((Math.floor(minutes) % (24 * 60)) + 24 * 60) % (24 * 60);
+  const h24 = Math.floor(total / 60);
+  const m = total % 60;
+  const ampm = h24 >= 12 ? "PM" : "AM";
+  const h12 = ((h24 + 11) % 12) + 1;
+  return `${h12}:${String(m).padStart(2, "0")} ${ampm}`;
+}
+
+/** "4:00 PM – 5:30 PM" */
+export function formatMinutesRange(startMin: number, endMin: number) {
+  return `${formatMinutesLabel(startMin)} – ${formatMinutesLabel(endMin)}`;
+}
+
+/** "4:00 PM", "4 pm", "4:00PM" or 24-hour "16:00"/"16" -> minutes from midnight; null when unparseable. */
+export function parseTimeLabel(label: string | null | undefined) {
+  const raw = String(label || "")
+    .trim()
+    .toUpperCase();
+  const match = raw.match(/^(\d{1,2})(?::(\d{2}))?\s*(AM|PM)?$/);
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2] ?? "0");
+  const meridiem = match[3];
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    return ((hour % 12) + (meridiem === "PM" ? 12 : 0)) * 60 + minute;
+  }
+  if (hour > 23) return null;
+  return hour * 60 + minute;
+}
+
+/** Minutes -> "HH:MM" for <input type="time">. */
+export function minutesToTimeInput(minutes: number | null | undefined) {
+  if (minutes == null || !Number.isFinite(minutes)) return "";
+  const total = Math.max(0, Math.floor(minutes));
+  return `${String(Math.floor(total / 60) % 24).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+/** "HH:MM" from <input type="time"> -> minutes; null when invalid. */
+export function timeInputToMinutes(value: string) {
+  const match = String(value || "").match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const h = Number(match[1]);
+  const m = Number(match[2]);
+  if (h > 23 || m > 59) return null;
+  return h * 60 + m;
+}
+
+export type DateLabelStyle = "long" | "medium" | "month";
+
+const DATE_LABEL_OPTIONS: Record<DateLabelStyle, Intl.DateTimeFormatOptions> = {
+  long: { weekday: "long", month: "long", day: "numeric", year: "numeric" }, // Saturday, March 7, 2026
+  medium: { month: "short", day: "numeric", year: "numeric" }, // Mar 7, 2026
+  month: { month: "long", year: "numeric" }, // March 2026
+};
+
+/** Label for a date key; independent of the viewer's timezone. */
+export function formatDateKey(dateKey: string | null | undefined, style: DateLabelStyle = "long") {
+  const parts = parseDateKey(dateKey);
+  if (!parts) return "—";
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, 12)).toLocaleDateString("en-US", {
+    ...DATE_LABEL_OPTIONS[style],
+    timeZone: "UTC",
+  });
+}
+
+export type InstantLabelStyle = "time" | "date" | "dateTime";
+
+const INSTANT_LABEL_OPTIONS: Record<InstantLabelStyle, Intl.DateTimeFormatOptions> = {
+  time: { hour: "numeric", minute: "2-digit" }, // 4:00 PM
+  date: { month: "short", day: "numeric", year: "numeric" }, // Mar 7, 2026
+  dateTime: { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" },
+};
+
+/** Label for a stored UTC timestamp as seen at a location; "—" when missing. */
+export function formatInstant(
+  instant: Date | string | null | undefined,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  style: InstantLabelStyle = "time"
+) {
+  if (!instant) return "—";
+  const date = new Date(instant);
+  if (Number.isNaN(date.getTime())) return "—";
+  return date.toLocaleString("en-US", { ...INSTANT_LABEL_OPTIONS[style], timeZone });
+}
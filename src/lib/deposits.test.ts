@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { balanceDueCents, collectedCents, depositCentsFor, type DepositRule } from "@/lib/deposits";
+
+// Parties of 10 or more may pay 25% up front.
+const RULE: DepositRule = { depositPartySize: 10, depositPercent: 25 };
+
+describe("depositCentsFor", () => {
+  it("takes the rule's share of the total from parties at or over the size", () => {
+    expect(depositCentsFor(RULE, 10, 40000)).toBe(10000);
+    expect(depositCentsFor(RULE, 16, 33333)).toBe(8333); // rounded to the cent
+  });
+
+  it("asks smaller parties to pay in full", () => {
+    expect(depositCentsFor(RULE, 9, 40000)).toBe(0);
+  });
+
+  it("is off with no party size or a percent outside 1-99", () => {
+    expect(depositCentsFor({ ...RULE, depositPartySize: 0 }, 20, 40000)).toBe(0);
+    expect(depositCentsFor({ ...RULE, depositPercent: 0 }, 20, 40000)).toBe(0);
+    expect(depositCentsFor({ ...RULE, depositPercent: 100 }, 20, 40000)).toBe(0);
+  });
+
+  it("skips a deposit or balance Stripe couldn't charge (under $0.50)", () => {
+    expect(depositCentsFor(RULE, 10, 199)).toBe(50); // 49.75 rounds up to the minimum
+    expect(depositCentsFor(RULE, 10, 196)).toBe(0); // 49 deposit
+    expect(depositCentsFor({ ...RULE, depositPercent: 90 }, 10, 400)).toBe(0); // 40 balance
+  });
+});
+
+describe("balanceDueCents and collectedCents", () => {
+  it("owe the balance after a deposit and count the rest as collected", () => {
+    const booking = { paid: false, total_cents: 40000, balance_due_cents: 30000 };
+    expect(balanceDueCents(booking)).toBe(30000);
+    expect(collectedCents(booking)).toBe(10000);
+  });
+
+  it("owe nothing once the booking is paid, whatever balance is left on the row", () => {
+    const booking = { paid: true, total_cents: 40000, balance_due_cents: 30000 };
+    expect(balanceDueCents(booking)).toBe(0);
+    expect(collectedCents(booking)).toBe(40000);
+  });
+});
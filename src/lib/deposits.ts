@@ -0,0 +1,36 @@
+// src/lib/deposits.ts
+// Shared (client + server) deposit rule: large parties can pay part of the total online and the balance later.
+// The rule comes from booking_policies (docs/deposits.sql); /book shows the offer and /api/stripe/checkout charges it.
+
+export type DepositRule = {
+  /** Smallest party offered a deposit; 0 = deposits off. */
+  depositPartySize: number;
+  depositPercent: number;
+};
+
+// Stripe won't take a card charge under $0.50, for the deposit or the balance left behind.
+export const MIN_CARD_CHARGE_CENTS = 50;
+
+/** Deposit owed up front for this party and total, or 0 when the booking must be paid in full. */
+export function depositCentsFor(rule: DepositRule, partySize: number, totalCents: number) {
+  if (!rule.depositPartySize || partySize < rule.depositPartySize) return 0;
+  if (rule.depositPercent <= 0 || rule.depositPercent >= 100) return 0;
+  const deposit = Math.round((totalCents * rule.depositPercent) / 100);
+  if (deposit < MIN_CARD_CHARGE_CENTS || totalCents - deposit < MIN_CARD_CHARGE_CENTS) return 0;
+  return deposit;
+}
+
+/** Outstanding balance on a booking that was paid by deposit (0 once paid in full). */
+export function balanceDueCents(booking: { paid?: boolean | null; balance_due_cents?: number | null }) {
+  if (booking.paid === true) return 0;
+  return Math.max(0, Number(booking.balance_due_cents || 0));
+}
+
+/** What was actually charged for a booking: its total, less any balance still due after a deposit. */
+export function collectedCents(booking: {
+  total_cents: number | null;
+  paid?: boolean | null;
+  balance_due_cents?: number | null;
+}) {
+  return Math.max(0, Number(booking.total_cents || 0) - balanceDueCents(booking));
+}
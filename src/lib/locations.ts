@@ -0,0 +1,75 @@
+// src/lib/locations.ts
+// Shared (client + server) location helpers. Each venue has its own timezone,
+// resources, hours, rate cards, staff and POS inventory; rows are scoped by a
+// location_id column (see docs/locations.sql). Rows without a location_id
+// belong to the default location so a single-site install keeps working as-is.
+
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/dateTime";
+
+export type Location = {
+  id: string | null; // null only for the built-in fallback when the locations table is missing
+  slug: string; // used in booking URLs: /book?location=<slug>
+  name: string;
+  timezone: string; // IANA zone used for every wall-clock <-> UTC conversion
+  address: string | null;
+  isDefault: boolean;
+  active: boolean;
+  sortOrder: number;
+};
+
+export const DEFAULT_LOCATION: Location = {
+  id: null,
+  slug: "main",
+  name: "Axe Quacks",
+  timezone: DEFAULT_TIME_ZONE,
+  address: null,
+  isDefault: true,
+  active: true,
+  sortOrder: 0,
+};
+
+export function normalizeLocationSlug(value: unknown) {
+  return String(value || "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/** Validates a location row or API payload; returns null when it has no slug or name. */
+export function normalizeLocation(input: unknown): Location | null {
+  const raw = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const slug = normalizeLocationSlug(raw.slug);
+  const name = String(raw.name || "").trim();
+  if (!slug || !name) return null;
+  const timezone = String(raw.timezone || "").trim();
+  const sortOrder = Math.round(Number(raw.sortOrder));
+  return {
+    id: raw.id ? String(raw.id) : null,
+    slug,
+    name,
+    timezone: isValidTimeZone(timezone) ? timezone : DEFAULT_TIME_ZONE,
+    address: raw.address ? String(raw.address).trim() || null : null,
+    isDefault: raw.isDefault === true,
+    active: typeof raw.active === "boolean" ? raw.active : true,
+    sortOrder: Number.isFinite(sortOrder) ? sortOrder : 0,
+  };
+}
+
+/** Matches a location by id or slug; empty keys resolve to the default location. */
+export function findLocation(locations: Location[], key: string | null | undefined) {
+  const value = String(key || "").trim();
+  if (!value) return defaultLocation(locations);
+  const slug = normalizeLocationSlug(value);
+  return locations.find((location) => location.id === value || location.slug === slug) ?? null;
+}
+
+export function defaultLocation(locations: Location[]) {
+  return locations.find((location) => location.isDefault) ?? locations[0] ?? DEFAULT_LOCATION;
+}
+
+/** Public booking URL for a location; the default location keeps the bare /book path. */
+export function locationBookingPath(location: Location | null | undefined) {
+  if (!location || location.isDefault) return "/book";
+  return `/book?location=${encodeURIComponent(location.slug)}`;
+}
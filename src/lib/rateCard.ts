@@ -0,0 +1,183 @@
+// src/lib/rateCard.ts
+// Shared (client + server) rate card: duration price points, party-size thresholds
+// and day/time price modifiers.
+// Versions are stored in rate_cards (see docs/rate-cards.sql), loaded by
+// src/lib/server/rateCards.ts and exposed through /api/rate-card.
+
+import { weekdayForDateKey } from "@/lib/dateTime";
+
+export type RatePricePoint = {
+  minutes: number;
+  cents: number;
+};
+
+export type PriceModifier = {
+  label: string;
+  weekdays: number[]; // Sun=0 ... Sat=6; empty = every day
+  startMin: number; // applies to slots starting in [startMin, endMin)
+  endMin: number;
+  percent: number; // +20 = surcharge, -15 = discount
+};
+
+export type RateCardConfig = {
+  axePerPerson: RatePricePoint[]; // Axe Throwing, per person
+  duckpinPerLane: RatePricePoint[]; // Duckpin Bowling, per lane
+  comboAxePerPerson: RatePricePoint[]; // Combo axe portion, per person
+  comboDuckpinPerLane: RatePricePoint[]; // Combo duckpin portion, per lane
+  // Max party size covered by 1, 2, 3... bays/lanes. Parties above the last entry use the last count.
+  axeBayMaxParty: number[];
+  duckpinLaneMaxParty: number[];
+  // Checked in order; the first modifier matching the slot's weekday and start time wins.
+  priceModifiers: PriceModifier[];
+};
+
+export type RateCard = {
+  id: string | null;
+  version: number;
+  label: string | null;
+  effectiveAt: string | null;
+  config: RateCardConfig;
+};
+
+/**
+ * Built-in card used until rate_cards has a published version.
+ * Axe: $10 / $20 / $25 / $45 per person (15 / 30 / 60 / 120 mins)
+ * Duckpin: $30 / $40 / $75 per lane (30 / 60 / 120 mins)
+ * Combo: duckpin $30 / $40 / $75 per lane + axe $15 / $20 / $35 per person
+ * Bays: 1 up to 8, 2 up to 16. Lanes: 1 per 6 guests, up to 4.
+ */
+export const DEFAULT_RATE_CARD_CONFIG: RateCardConfig = {
+  axePerPerson: [
+    { minutes: 15, cents: 1000 },
+    { minutes: 30, cents: 2000 },
+    { minutes: 60, cents: 2500 },
+    { minutes: 120, cents: 4500 },
+  ],
+  duckpinPerLane: [
+    { minutes: 30, cents: 3000 },
+    { minutes: 60, cents: 4000 },
+    { minutes: 120, cents: 7500 },
+  ],
+  comboAxePerPerson: [
+    { minutes: 30, cents: 1500 },
+    { minutes: 60, cents: 2000 },
+    { minutes: 120, cents: 3500 },
+  ],
+  comboDuckpinPerLane: [
+    { minutes: 30, cents: 3000 },
+    { minutes: 60, cents: 4000 },
+    { minutes: 120, cents: 7500 },
+  ],
+  axeBayMaxParty: [8, 16],
+  duckpinLaneMaxParty: [6, 12, 18, 24],
+  priceModifiers: [],
+};
+
+export const DEFAULT_RATE_CARD: RateCard = {
+  id: null,
+  version: 0,
+  label: "Built-in defaults",
+  effectiveAt: null,
+  config: DEFAULT_RATE_CARD_CONFIG,
+};
+
+/**
+ * Exact price point when one exists; otherwise the 60-minute point (or the
+ * first point) scaled by the hour.
+ */
+export function pricePointCents(points: RatePricePoint[], minutes: number): number {
+  const exact = points.find((point) => point.minutes === minutes);
+  if (exact) return exact.cents;
+  const hourly = points.find((point) => point.minutes === 60) ?? points[0];
+  if (!hourly || !hourly.minutes) return 0;
+  return Math.round((hourly.cents / hourly.minutes) * minutes);
+}
+
+export function resourcesForPartySize(maxParty: number[], partySize: number): number {
+  if (!maxParty.length) return 1;
+  const index = maxParty.findIndex((max) => partySize <= max);
+  return index === -1 ? maxParty.length : index + 1;
+}
+
+function normalizePricePoints(input: unknown, fallback: RatePricePoint[]): RatePricePoint[] {
+  if (!Array.isArray(input)) return fallback;
+  const seen = new Set<number>();
+  const points: RatePricePoint[] = [];
+  for (const item of input) {
+    const minutes = Math.round(Number(item?.minutes));
+    const cents = Math.round(Number(item?.cents));
+    if (!Number.isFinite(minutes) || minutes <= 0 || !Number.isFinite(cents) || cents < 0) continue;
+    if (seen.has(minutes)) continue;
+    seen.add(minutes);
+    points.push({ minutes, cents });
+  }
+  points.sort((a, b) => a.minutes - b.minutes);
+  return points.length ? points : fallback;
+}
+
+function normalizePriceModifiers(input: unknown): PriceModifier[] {
+  if (!Array.isArray(input)) return [];
+  const modifiers: PriceModifier[] = [];
+  for (const item of input) {
+    const label = String(item?.label || "").trim();
+    const startMin = Math.round(Number(item?.startMin));
+    const endMin = Math.round(Number(item?.endMin));
+    const percent = Number(item?.percent);
+    const weekdays: number[] = Array.isArray(item?.weekdays)
+      ? Array.from(
+          new Set<number>(
+            item.weekdays.map((d: unknown) => Number(d)).filter((d: number) => Number.isInteger(d) && d >= 0 && d <= 6)
+          )
+        ).sort((a, b) => a - b)
+      : [];
+    if (!label || !Number.isFinite(percent) || percent === 0 || percent <= -100) continue;
+    if (!Number.isFinite(startMin) || !Number.isFinite(endMin) || startMin < 0 || endMin > 24 * 60) continue;
+    if (endMin <= startMin) continue;
+    modifiers.push({ label, weekdays, startMin, endMin, percent });
+  }
+  return modifiers;
+}
+
+function normalizeThresholds(input: unknown, fallback: number[]): number[] {
+  if (!Array.isArray(input)) return fallback;
+  const values = input.map((value) => Math.round(Number(value))).filter((value) => Number.isFinite(value) && value > 0);
+  const ascending = values.every((value, index) => index === 0 || value > values[index - 1]);
+  return values.length && ascending ? values : fallback;
+}
+
+/** Fills missing/invalid pieces from the built-in card so a bad row never breaks pricing. */
+export function normalizeRateCardConfig(input: unknown): RateCardConfig {
+  const raw = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const fallback = DEFAULT_RATE_CARD_CONFIG;
+  return {
+    axePerPerson: normalizePricePoints(raw.axePerPerson, fallback.axePerPerson),
+    duckpinPerLane: normalizePricePoints(raw.duckpinPerLane, fallback.duckpinPerLane),
+    comboAxePerPerson: normalizePricePoints(raw.comboAxePerPerson, fallback.comboAxePerPerson),
+    comboDuckpinPerLane: normalizePricePoints(raw.comboDuckpinPerLane, fallback.comboDuckpinPerLane),
+    axeBayMaxParty: normalizeThresholds(raw.axeBayMaxParty, fallback.axeBayMaxParty),
+    duckpinLaneMaxParty: normalizeThresholds(raw.duckpinLaneMaxParty, fallback.duckpinLaneMaxParty),
+    priceModifiers: normalizePriceModifiers(raw.priceModifiers),
+  };
+}
+
+export function findPriceModifier(rateCard: RateCardConfig, dateKey: string, startMin: number): PriceModifier | null {
+  if (!dateKey || !Number.isFinite(startMin)) return null;
+  const weekday = weekdayForDateKey(dateKey);
+  return (
+    (rateCard.priceModifiers || []).find(
+      (modifier) =>
+        (!modifier.weekdays.length || modifier.weekdays.includes(weekday)) &&
+        startMin >= modifier.startMin &&
+        startMin < modifier.endMin
+    ) ?? null
+  );
+}
+
+export function priceModifierCents(baseCents: number, modifier: PriceModifier): number {
+  return Math.round((baseCents * modifier.percent) / 100);
+}
+
+export function describePriceModifier(modifier: { label: string; percent: number }) {
+  const sign = modifier.percent > 0 ? "+" : "";
+  return `${modifier.label} (${sign}${modifier.percent}%)`;
+}
@@ -0,0 +1,62 @@
+import { supabaseServer } from "@/lib/supabaseServer";
+import {
+  BUILT_IN_ACTIVITIES,
+  findActivityByName,
+  mergeActivityDefinitions,
+  normalizeActivityDefinition,
+  type ActivityDefinition,
+} from "@/lib/activities";
+
+export const ACTIVITY_DEFINITION_COLUMNS =
+  "key,name,resources,durations,transition_minutes,max_party_size,requires_waiver,price_unit,price_points,sort_order,active";
+
+export type ActivityDefinitionRow = {
+  key: string;
+  name: string;
+  resources: unknown;
+  durations: unknown;
+  transition_minutes: number | null;
+  max_party_size: number | null;
+  requires_waiver: boolean | null;
+  price_unit: string | null;
+  price_points: unknown;
+  sort_order: number | null;
+  active: boolean | null;
+};
+
+export function mapActivityDefinitionRow(row: ActivityDefinitionRow): ActivityDefinition | null {
+  return normalizeActivityDefinition({
+    key: row.key,
+    name: row.name,
+    resources: row.resources,
+    durations: row.durations,
+    transitionMinutes: row.transition_minutes,
+    maxPartySize: row.max_party_size,
+    requiresWaiver: row.requires_waiver ?? undefined,
+    priceUnit: row.price_unit,
+    pricePoints: row.price_points,
+    sortOrder: row.sort_order,
+    active: row.active ?? undefined,
+  });
+}
+
+/** All definitions (inactive included) merged over the built-ins; built-ins only when the table is unavailable. */
+export async function loadActivityDefinitions(): Promise<ActivityDefinition[]> {
+  const sb = supabaseServer();
+  const { data, error } = await sb.from("activity_definitions").select(ACTIVITY_DEFINITION_COLUMNS);
+
+  if (error) {
+    console.error("activity definitions query error:", error);
+    return BUILT_IN_ACTIVITIES;
+  }
+  const rows = ((data || []) as ActivityDefinitionRow[])
+    .map(mapActivityDefinitionRow)
+    .filter((row): row is ActivityDefinition => !!row);
+  return mergeActivityDefinitions(rows);
+}
+
+/** Active definition for a UI name, or null when the activity is unknown or switched off. */
+export async function loadActivityDefinition(name: string): Promise<ActivityDefinition | null> {
+  const definition = findActivityByName(await loadActivityDefinitions(), name);
+  return definition?.active ? definition : null;
+}
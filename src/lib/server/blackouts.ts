@@ -0,0 +1,69 @@
+// src/lib/server/blackouts.ts
+// Loads blackout_rules (see docs/next-features.sql and docs/recurring-blackouts.sql). Rules that close a whole
+// activity block slots in availability, rescheduling and series checks; rules aimed at specific resources only take
+// those resources out of use, like resource downtime.
+
+import { supabaseServer } from "@/lib/supabaseServer";
+import { blackoutDatesBetween, blackoutOccursOn, isResourceBlackout, type BlackoutRule } from "@/lib/blackouts";
+import { dateKeyInTimeZone, zonedTimeToUtc } from "@/lib/dateTime";
+
+export const BLACKOUT_COLUMNS =
+  "id,date_key,end_date_key,weekdays,except_date_keys,start_min,end_min,activity,resource_ids,reason,created_at";
+
+/**
+ * Activity-wide rules in effect on a day for any of these activity codes (include "ALL"). A failed read is logged
+ * and treated as no blackouts, as availability always has.
+ */
+export async function loadActivityBlackouts(dateKey: string, activities: string[]): Promise<BlackoutRule[]> {
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("blackout_rules")
+    .select(BLACKOUT_COLUMNS)
+    .lte("date_key", dateKey)
+    .or(`end_date_key.gte.${dateKey},date_key.eq.${dateKey}`)
+    .in("activity", activities);
+  if (error) {
+    console.error("blackout rules query error:", error);
+    return [];
+  }
+  return ((data || []) as BlackoutRule[]).filter(
+    (rule) => !isResourceBlackout(rule) && blackoutOccursOn(rule, dateKey)
+  );
+}
+
+/** Resource-targeted rules covering [startTs, endTs) on any of these resources, as busy intervals. */
+export async function loadResourceBlackoutIntervals(
+  resourceIds: string[],
+  startTs: string,
+  endTs: string,
+  timeZone: string
+) {
+  if (!resourceIds.length) return [];
+  const fromKey = dateKeyInTimeZone(startTs, timeZone);
+  const toKey = dateKeyInTimeZone(endTs, timeZone);
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("blackout_rules")
+    .select(BLACKOUT_COLUMNS)
+    .overlaps("resource_ids", resourceIds)
+    .lte("date_key", toKey)
+    .or(`end_date_key.gte.${fromKey},date_key.gte.${fromKey}`);
+  if (error) {
+    console.error("resource blackout query error:", error);
+    return [];
+  }
+
+  const wanted = new Set(resourceIds);
+  const windowStart = new Date(startTs).getTime();
+  const windowEnd = new Date(endTs).getTime();
+  return ((data || []) as BlackoutRule[]).flatMap((rule) =>
+    blackoutDatesBetween(rule, fromKey, toKey).flatMap((dateKey) => {
+      const startMs = zonedTimeToUtc(dateKey, rule.start_min ?? 0, timeZone).getTime();
+      const endMs = zonedTimeToUtc(dateKey, rule.end_min ?? 24 * 60, timeZone).getTime();
+      if (startMs >= windowEnd || endMs <= windowStart) return [];
+      return (rule.resource_ids || [])
+        .filter((resourceId) => wanted.has(String(resourceId)))
+        .map((resourceId) => ({ resourceId: String(resourceId), startMs, endMs }));
+    })
+  );
+}
@@ -0,0 +1,102 @@
+// src/lib/server/bookingChanges.ts
+// Applying booking changes (cancel / move) and the booking_changes log (see docs/booking-changes.sql).
+// Customers' self-service changes are applied immediately; requests sent to POST /api/bookings/changes
+// wait as PENDING until staff approve or deny them from /staff/changes.
+
+import { supabaseServer } from "@/lib/supabaseServer";
+import { rescheduleBookingResources } from "@/lib/server/bookingReschedule";
+import { offerWaitlistForReleasedSlot } from "@/lib/server/waitlist";
+
+export type BookingChangeType = "RESCHEDULE" | "CANCEL" | "REFUND";
+export type BookingChangeStatus = "PENDING" | "APPROVED" | "DENIED" | "COMPLETED";
+
+export const BOOKING_CHANGE_TYPES: BookingChangeType[] = ["RESCHEDULE", "CANCEL", "REFUND"];
+
+export const BOOKING_CHANGE_COLUMNS =
+  "id,booking_id,change_type,status,requested_at,processed_at,note,requested_date_key,requested_start_min," +
+  "processed_by,decision_note," +
+  "bookings(id,activity,party_size,start_ts,end_ts,status,paid,total_cents,customer_name,customer_email,location_id)";
+
+type ChangedBooking = { id: string; start_ts: string | null; location_id: string | null };
+
+/** A BOOKING_CHANGE_COLUMNS row, with its booking. */
+export type BookingChangeRow = {
+  id: string;
+  booking_id: string;
+  change_type: BookingChangeType;
+  status: BookingChangeStatus;
+  requested_at: string;
+  processed_at: string | null;
+  note: string | null;
+  requested_date_key: string | null;
+  requested_start_min: number | null;
+  processed_by: string | null;
+  decision_note: string | null;
+  bookings: {
+    id: string;
+    activity: string;
+    party_size: number;
+    start_ts: string;
+    end_ts: string;
+    status: string | null;
+    paid: boolean | null;
+    total_cents: number | null;
+    customer_name: string | null;
+    customer_email: string | null;
+    location_id: string | null;
+  } | null;
+};
+
+export async function recordBookingChange(params: {
+  bookingId: string;
+  changeType: BookingChangeType;
+  status: BookingChangeStatus;
+  note?: string | null;
+}) {
+  const sb = supabaseServer();
+  const { error } = await sb.from("booking_changes").insert({
+    booking_id: params.bookingId,
+    change_type: params.changeType,
+    status: params.status,
+    processed_at: params.status === "PENDING" ? null : new Date().toISOString(),
+    note: params.note || null,
+  });
+  if (error) {
+    console.error("booking change log error:", error);
+  }
+}
+
+/** Cancels a booking, frees its resources and offers the slot to the waitlist. */
+export async function cancelBookingAndRelease(booking: ChangedBooking) {
+  const sb = supabaseServer();
+  const { error } = await sb.from("bookings").update({ status: "CANCELLED" }).eq("id", booking.id);
+  if (error) {
+    console.error("booking cancel error:", error);
+    throw new Error("Failed to cancel booking");
+  }
+  const { error: rrErr } = await sb.from("resource_reservations").delete().eq("booking_id", booking.id);
+  if (rrErr) {
+    console.error("booking cancel reservations delete error:", rrErr);
+  }
+  await offerWaitlistForReleasedSlot(booking.start_ts, booking.location_id);
+}
+
+/** Moves a booking to dateKey/startMin at its location and offers the old slot to the waitlist. */
+export async function moveBooking(booking: ChangedBooking, dateKey: string, startMin: number) {
+  const moved = await rescheduleBookingResources({ bookingId: booking.id, dateKey, startMin });
+  const sb = supabaseServer();
+  const { error } = await sb
+    .from("bookings")
+    .update({
+      start_ts: moved.startIso,
+      end_ts: moved.endIso,
+      ...(moved.totalCents != null ? { total_cents: moved.totalCents } : {}),
+    })
+    .eq("id", booking.id);
+  if (error) {
+    console.error("booking reschedule update error:", error);
+    throw new Error("Failed to reschedule booking");
+  }
+  await offerWaitlistForReleasedSlot(booking.start_ts, booking.location_id);
+  return moved;
+}
@@ -0,0 +1,69 @@
+// src/lib/server/bookingPayments.ts
+// Booking payment ledger (docs/booking-payments.sql). recordBookingPayment logs card payments,
+// redeemGiftCertificate logs gift certificates and cash-pay logs cash, so a booking paid in parts shows each
+// tender. A repeat of the same payment intent, gift redemption or cash idempotency key is reported as a duplicate
+// and not applied twice.
+
+import { supabaseServer } from "@/lib/supabaseServer";
+import type { BookingPayment, PaymentTender } from "@/lib/bookingPayments";
+
+export const BOOKING_PAYMENT_COLUMNS =
+  "id,booking_id,tender,amount_cents,tip_cents,card_fee_cents,payment_intent_id,split_index,split_count,created_by,created_at";
+
+export async function insertBookingPayment(input: {
+  bookingId: string;
+  tender: PaymentTender;
+  amountCents: number;
+  tipCents?: number;
+  cardFeeCents?: number;
+  paymentIntentId?: string | null;
+  giftRedemptionId?: string | null;
+  idempotencyKey?: string | null;
+  splitIndex?: number | null;
+  splitCount?: number | null;
+  createdBy?: string | null;
+}) {
+  const sb = supabaseServer();
+  const { error } = await sb.from("booking_payments").insert({
+    booking_id: input.bookingId,
+    tender: input.tender,
+    amount_cents: Math.max(0, Math.round(input.amountCents || 0)),
+    tip_cents: Math.max(0, Math.round(input.tipCents || 0)),
+    card_fee_cents: Math.max(0, Math.round(input.cardFeeCents || 0)),
+    payment_intent_id: input.paymentIntentId || null,
+    gift_redemption_id: input.giftRedemptionId || null,
+    idempotency_key: input.idempotencyKey || null,
+    split_index: input.splitIndex || null,
+    split_count: input.splitCount || null,
+    created_by: input.createdBy || null,
+  });
+  if (error?.code === "23505") return { duplicate: true };
+  // The payment itself went through; a ledger failure (e.g. before the migration) shouldn't undo it.
+  if (error) console.error("booking payment ledger insert error:", error);
+  return { duplicate: false };
+}
+
+export async function loadBookingPayments(bookingId: string): Promise<BookingPayment[]> {
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("booking_payments")
+    .select(BOOKING_PAYMENT_COLUMNS)
+    .eq("booking_id", bookingId)
+    .order("created_at", { ascending: true });
+  if (error) {
+    console.error("booking payments load error:", error);
+    throw new Error("Failed to load booking payments");
+  }
+  return (data ?? []) as BookingPayment[];
+}
+
+/** Tips across the booking's card payments, so a split bill keeps every share's tip rather than the last one. */
+export async function ledgerTipCents(bookingId: string) {
+  const sb = supabaseServer();
+  const { data, error } = await sb.from("booking_payments").select("tip_cents").eq("booking_id", bookingId);
+  if (error) {
+    console.error("booking payments tip lookup error:", error);
+    return 0;
+  }
+  return (data ?? []).reduce((sum, row) => sum + Number(row.tip_cents || 0), 0);
+}
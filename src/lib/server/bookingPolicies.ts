@@ -0,0 +1,190 @@
+// src/lib/server/bookingPolicies.ts
+// Cancellation/reschedule/refund/deposit rules from booking_policies (docs/next-features.sql,
+// docs/refund-policy.sql, docs/deposits.sql).
+// Admins save a new row from /staff/policies; the most recently updated row is the one in force.
+
+import { supabaseServer } from "@/lib/supabaseServer";
+import type { DepositRule } from "@/lib/deposits";
+
+export type RefundPolicy = "FULL_BEFORE_WINDOW" | "PARTIAL_BEFORE_WINDOW" | "NO_REFUND";
+
+export const REFUND_POLICIES: RefundPolicy[] = ["FULL_BEFORE_WINDOW", "PARTIAL_BEFORE_WINDOW", "NO_REFUND"];
+
+export type BookingPolicy = DepositRule & {
+  cancelWindowHours: number;
+  rescheduleWindowHours: number;
+  refundPolicy: RefundPolicy;
+  /** Share refunded before the cancel window under PARTIAL_BEFORE_WINDOW. */
+  partialRefundPercent: number;
+  /** Share refunded for cancellations inside the window (0 = none). */
+  lateRefundPercent: number;
+  /** Card processing fee kept from every refund. */
+  retainedFeePercent: number;
+  retainedFeeCents: number;
+  notes: string | null;
+};
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  cancelWindowHours: 24,
+  rescheduleWindowHours: 12,
+  refundPolicy: "FULL_BEFORE_WINDOW",
+  partialRefundPercent: 50,
+  lateRefundPercent: 0,
+  retainedFeePercent: 0,
+  retainedFeeCents: 0,
+  depositPartySize: 0,
+  depositPercent: 25,
+  notes: null,
+};
+
+const POLICY_COLUMNS = "cancel_window_hours,reschedule_window_hours,refund_policy,notes,updated_at";
+const REFUND_RULE_COLUMNS = "partial_refund_percent,late_refund_percent,retained_fee_percent,retained_fee_cents";
+const DEPOSIT_COLUMNS = "deposit_party_size,deposit_percent";
+
+function windowHours(value: unknown, fallback: number) {
+  const hours = Number(value);
+  return Number.isFinite(hours) && hours >= 0 ? hours : fallback;
+}
+
+function percent(value: unknown, fallback: number) {
+  const pct = Number(value);
+  return Number.isFinite(pct) && pct >= 0 ? Math.min(pct, 100) : fallback;
+}
+
+export function normalizeRefundPolicy(value: unknown): RefundPolicy {
+  const policy = String(value || "").toUpperCase() as RefundPolicy;
+  return REFUND_POLICIES.includes(policy) ? policy : DEFAULT_BOOKING_POLICY.refundPolicy;
+}
+
+type PolicyRow = {
+  cancel_window_hours: number | null;
+  reschedule_window_hours: number | null;
+  refund_policy: string | null;
+  partial_refund_percent?: number | null;
+  late_refund_percent?: number | null;
+  retained_fee_percent?: number | null;
+  retained_fee_cents?: number | null;
+  deposit_party_size?: number | null;
+  deposit_percent?: number | null;
+  notes: string | null;
+};
+
+async function fetchLatestPolicy(columns: string) {
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("booking_policies")
+    .select(columns)
+    .order("updated_at", { ascending: false })
+    .limit(1);
+  return { row: (data?.[0] ?? null) as unknown as PolicyRow | null, error };
+}
+
+export async function loadBookingPolicy(): Promise<BookingPolicy> {
+  let { row, error } = await fetchLatestPolicy(`${POLICY_COLUMNS},${REFUND_RULE_COLUMNS},${DEPOSIT_COLUMNS}`);
+  // Older databases may not have run docs/deposits.sql or docs/refund-policy.sql yet.
+  if (error && /deposit/.test(String(error.message || ""))) {
+    ({ row, error } = await fetchLatestPolicy(`${POLICY_COLUMNS},${REFUND_RULE_COLUMNS}`));
+  }
+  if (error && /refund|retained/.test(String(error.message || ""))) {
+    ({ row, error } = await fetchLatestPolicy(POLICY_COLUMNS));
+  }
+
+  if (error) {
+    console.error("booking policy load error:", error);
+    return DEFAULT_BOOKING_POLICY;
+  }
+  if (!row) return DEFAULT_BOOKING_POLICY;
+  return {
+    cancelWindowHours: windowHours(row.cancel_window_hours, DEFAULT_BOOKING_POLICY.cancelWindowHours),
+    rescheduleWindowHours: windowHours(row.reschedule_window_hours, DEFAULT_BOOKING_POLICY.rescheduleWindowHours),
+    refundPolicy: normalizeRefundPolicy(row.refund_policy),
+    partialRefundPercent: percent(row.partial_refund_percent, DEFAULT_BOOKING_POLICY.partialRefundPercent),
+    lateRefundPercent: percent(row.late_refund_percent, DEFAULT_BOOKING_POLICY.lateRefundPercent),
+    retainedFeePercent: percent(row.retained_fee_percent, DEFAULT_BOOKING_POLICY.retainedFeePercent),
+    retainedFeeCents: Math.max(0, Math.round(Number(row.retained_fee_cents) || 0)),
+    depositPartySize: Math.max(0, Math.round(Number(row.deposit_party_size) || 0)),
+    depositPercent: percent(row.deposit_percent, DEFAULT_BOOKING_POLICY.depositPercent),
+    notes: row.notes ?? null,
+  };
+}
+
+const CLOSED_STATUSES = new Set(["CANCELLED", "COMPLETED", "NO-SHOW"]);
+
+/**
+ * Last moments a booking can still be cancelled or rescheduled under the policy, and whether
+ * that is still possible now. Closed bookings (cancelled, completed, no-show) can't be changed.
+ */
+export function policyDeadlines(booking: { start_ts: string; status?: string | null }, policy: BookingPolicy) {
+  const startMs = new Date(booking.start_ts).getTime();
+  const hourMs = 60 * 60 * 1000;
+  const cancelBy = new Date(startMs - policy.cancelWindowHours * hourMs).toISOString();
+  const rescheduleBy = new Date(startMs - policy.rescheduleWindowHours * hourMs).toISOString();
+  const open = !CLOSED_STATUSES.has(String(booking.status || "").toUpperCase());
+  const now = Date.now();
+  return {
+    cancelBy,
+    rescheduleBy,
+    canCancel: open && now < new Date(cancelBy).getTime(),
+    canReschedule: open && now < new Date(rescheduleBy).getTime(),
+  };
+}
+
+export type RefundAllowance = {
+  totalCents: number;
+  allowedCents: number;
+  refundPercent: number;
+  retainedFeeCents: number;
+  beforeWindow: boolean;
+  cancelBy: string;
+  rule: string;
+};
+
+function formatCents(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * How much of a booking the refund policy gives back when it is cancelled at `at` (defaults to now):
+ * the before-window share until cancelBy, lateRefundPercent after it, less the retained card fee.
+ */
+export function refundAllowance(
+  booking: { start_ts: string; total_cents: number | null },
+  policy: BookingPolicy,
+  at: Date | string = new Date()
+): RefundAllowance {
+  const totalCents = Math.max(0, Math.round(Number(booking.total_cents) || 0));
+  const { cancelBy } = policyDeadlines(booking, policy);
+  const beforeWindow = new Date(at).getTime() < new Date(cancelBy).getTime();
+
+  let refundPercent = 0;
+  let rule = "No refunds";
+  if (policy.refundPolicy !== "NO_REFUND") {
+    if (!beforeWindow) {
+      refundPercent = policy.lateRefundPercent;
+      rule = `Late cancellation (inside ${policy.cancelWindowHours}h): ${refundPercent}% refund`;
+    } else if (policy.refundPolicy === "PARTIAL_BEFORE_WINDOW") {
+      refundPercent = policy.partialRefundPercent;
+      rule = `Cancelled ${policy.cancelWindowHours}h+ ahead: ${refundPercent}% refund`;
+    } else {
+      refundPercent = 100;
+      rule = `Cancelled ${policy.cancelWindowHours}h+ ahead: full refund`;
+    }
+  }
+
+  const grossCents = Math.round((totalCents * refundPercent) / 100);
+  const retainedFeeCents =
+    grossCents > 0
+      ? Math.min(grossCents, Math.round((grossCents * policy.retainedFeePercent) / 100) + policy.retainedFeeCents)
+      : 0;
+  if (retainedFeeCents > 0) rule += `, less ${formatCents(retainedFeeCents)} card fee`;
+
+  return {
+    totalCents,
+    allowedCents: grossCents - retainedFeeCents,
+    refundPercent,
+    retainedFeeCents,
+    beforeWindow,
+    cancelBy,
+    rule,
+  };
+}
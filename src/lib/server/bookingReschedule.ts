@@ -0,0 +1,225 @@
+// src/lib/server/bookingReschedule.ts
+// Moves an existing booking to a new date/time at its own location: checks store hours, blackouts,
+// buffers and free resources (ignoring the booking's own reservations), then swaps its reservations.
+// Shared by the staff booking editor and the customer manage-booking page.
+
+import { supabaseServer } from "@/lib/supabaseServer";
+import {
+  PARTY_AREA_OPTIONS,
+  comboDurationsFromRow,
+  comboFirstFromOrder,
+  comboSegmentWindows,
+  neededResources,
+  totalCents,
+} from "@/lib/bookingLogic";
+import { COMBO_ACTIVITY_KEY, findActivityByKey, findActivityByName } from "@/lib/activities";
+import { getStoreHoursForDateKey } from "@/lib/server/storeHours";
+import { loadRateCardVersion } from "@/lib/server/rateCards";
+import { loadActivityDefinitions } from "@/lib/server/activities";
+import { loadLocations } from "@/lib/server/locations";
+import { allocateResources } from "@/lib/server/resourceAllocation";
+import { loadOutOfServiceIntervals } from "@/lib/server/resourceDowntime";
+import { loadActivityBlackouts } from "@/lib/server/blackouts";
+import { reserveBookingResources, type ReservationNeed } from "@/lib/server/bookingService";
+import { defaultLocation, findLocation } from "@/lib/locations";
+import { isValidDateKey, zonedTimeToUtcISOString } from "@/lib/dateTime";
+
+const PARTY_AREA_NAME_SET: Set<string> = new Set(PARTY_AREA_OPTIONS.map((option) => option.name));
+
+type ExistingReservation = {
+  resource_id: string;
+  start_ts: string;
+  end_ts: string;
+  resources: { type?: string | null; name?: string | null } | null;
+};
+
+function overlaps(aStart: number, aEnd: number, bStart: number, bEnd: number) {
+  return aStart < bEnd && aEnd > bStart;
+}
+
+function isPartyReservation(row: ExistingReservation) {
+  const type = String(row.resources?.type || "").toUpperCase();
+  const name = String(row.resources?.name || "");
+  return type === "PARTY" || PARTY_AREA_NAME_SET.has(name);
+}
+
+/**
+ * Re-reserves a booking's resources at dateKey/startMin and returns the new start/end instants and, for a
+ * booking nothing has been collected on yet, its price at the new time; the caller writes them to the
+ * booking. Throws with a customer-safe message when the time doesn't fit, leaving the old reservations be.
+ * Activity (a UI name), duration and party size overrides let staff change those in the same edit.
+ */
+export async function rescheduleBookingResources(params: {
+  bookingId: string;
+  dateKey: string;
+  startMin: number;
+  activity?: string | null;
+  durationMinutes?: number | null;
+  partySize?: number | null;
+}) {
+  const { bookingId: id, dateKey, startMin } = params;
+  if (!isValidDateKey(dateKey)) throw new Error("Invalid date");
+  if (!Number.isFinite(startMin)) throw new Error("Missing reschedule date/time");
+
+  const sb = supabaseServer();
+  const { data: booking, error: bookingErr } = await sb
+    .from("bookings")
+    .select(
+      "id,activity,party_size,duration_minutes,start_ts,combo_order,combo_axe_minutes,combo_duckpin_minutes,combo_transition_minutes,status,location_id,rate_card_version,paid,deposit_cents,balance_due_cents"
+    )
+    .eq("id", id)
+    .single();
+
+  if (bookingErr || !booking) throw new Error("Booking not found");
+
+  // Reschedules stay at the booking's site, in that site's timezone.
+  const locations = await loadLocations();
+  const location = findLocation(locations, booking.location_id) ?? defaultLocation(locations);
+  const toUtcISO = (key: string, mins: number) => zonedTimeToUtcISOString(key, mins, location.timezone);
+
+  // Rows store the activity key; older rows may hold the display name. Switched-off activities still
+  // move, but staff can only switch a booking to an active one.
+  const definitions = await loadActivityDefinitions();
+  const bookedActivity = String(booking.activity || "");
+  const definition = params.activity
+    ? findActivityByName(definitions, params.activity)
+    : findActivityByKey(definitions, bookedActivity) ?? findActivityByName(definitions, bookedActivity);
+  if (!definition || (params.activity && !definition.active)) throw new Error("Unsupported activity");
+
+  const isCombo = definition.key === COMBO_ACTIVITY_KEY;
+  // Combos keep their booked segment lengths and gap (60/60 for older rows).
+  const comboWindows = isCombo
+    ? comboSegmentWindows(startMin, comboFirstFromOrder(booking.combo_order), comboDurationsFromRow(booking))
+    : null;
+  const durationMinutes = comboWindows
+    ? comboWindows.overall.endMin - startMin
+    : params.durationMinutes ?? Number(booking.duration_minutes || 0);
+  if (!Number.isFinite(durationMinutes) || durationMinutes <= 0) throw new Error("Invalid duration");
+
+  const storeHours = await getStoreHoursForDateKey(dateKey, location);
+  if (storeHours.closed) throw new Error("Closed on selected day");
+  const openStartMin = storeHours.openMin;
+  const openEndMin = storeHours.closeMin;
+  if (startMin < openStartMin || startMin + durationMinutes > openEndMin) {
+    throw new Error("Selected time outside business hours");
+  }
+
+  const blackouts = await loadActivityBlackouts(dateKey, [definition.key, "ALL"]);
+
+  const { data: buffers } = await sb
+    .from("buffer_rules")
+    .select("activity,before_min,after_min,active")
+    .eq("active", true)
+    .in("activity", [definition.key, "ALL"]);
+
+  const bufferBefore = Math.max(0, ...(buffers || []).map((b) => Number(b.before_min) || 0));
+  const bufferAfter = Math.max(0, ...(buffers || []).map((b) => Number(b.after_min) || 0));
+
+  const slotStartMin = Math.max(openStartMin, startMin - bufferBefore);
+  const slotEndMin = Math.min(openEndMin, startMin + durationMinutes + bufferAfter);
+  const blocked = blackouts.some((b) =>
+    overlaps(slotStartMin, slotEndMin, b.start_min ?? openStartMin, b.end_min ?? openEndMin)
+  );
+  if (blocked) {
+    throw new Error("Selected time is blocked");
+  }
+
+  // Sized and priced with the card the booking was sold under; peak/off-peak modifiers follow the new time.
+  const partySize = Number(params.partySize ?? booking.party_size ?? 1) || 1;
+  const rateCard = await loadRateCardVersion(booking.rate_card_version);
+  const needs = neededResources(definition.name, partySize, rateCard.config, definition);
+
+  const startIso = toUtcISO(dateKey, startMin);
+  const endIso = toUtcISO(dateKey, startMin + durationMinutes);
+
+  // Combos reserve each resource type for its own segment; everything else for the whole booking.
+  const windowFor = (type: string) => {
+    const segment = type === "AXE" ? comboWindows?.axe : type === "DUCKPIN" ? comboWindows?.duckpin : null;
+    return segment
+      ? { start_ts: toUtcISO(dateKey, segment.startMin), end_ts: toUtcISO(dateKey, segment.endMin) }
+      : { start_ts: startIso, end_ts: endIso };
+  };
+
+  // Best fit around everyone else's reservations; the booking's own don't count against it. The pick is only
+  // a preference: reserve_booking_resources re-checks it, holds included, under the reservation lock.
+  const reservationNeeds: ReservationNeed[] = [];
+  for (const rule of definition.resources) {
+    const count = needs[rule.type] || 0;
+    if (count <= 0) continue;
+    const window = windowFor(rule.type);
+    const preferred = await allocateResources({
+      location,
+      type: rule.type,
+      count,
+      startTsUtc: window.start_ts,
+      endTsUtc: window.end_ts,
+      exceptBookingId: id,
+    });
+    if (!preferred) throw new Error("Selected time is unavailable");
+    reservationNeeds.push({ type: rule.type, count, ...window, preferred });
+  }
+
+  // Party areas move with the booking and keep their booked length and their place before, during or
+  // after the activity.
+  const { data: existingReservations } = await sb
+    .from("resource_reservations")
+    .select("resource_id,start_ts,end_ts, resources!inner(type,name)")
+    .eq("booking_id", id);
+  const partyReservations = ((existingReservations || []) as unknown as ExistingReservation[]).filter(
+    isPartyReservation
+  );
+  const oldStartMs = new Date(String(booking.start_ts || "")).getTime();
+  const newStartMs = new Date(startIso).getTime();
+  const partyNeeds: ReservationNeed[] = partyReservations.map((row) => {
+    const rowStartMs = new Date(row.start_ts).getTime();
+    const rowEndMs = new Date(row.end_ts).getTime();
+    const offsetMs = Number.isFinite(oldStartMs) ? rowStartMs - oldStartMs : 0;
+    const partyStartMs = newStartMs + offsetMs;
+    return {
+      type: "PARTY",
+      count: 1,
+      resource_id: row.resource_id,
+      start_ts: new Date(partyStartMs).toISOString(),
+      end_ts: new Date(partyStartMs + Math.max(0, rowEndMs - rowStartMs)).toISOString(),
+    };
+  });
+  for (const need of partyNeeds) {
+    if ((await loadOutOfServiceIntervals(location, [String(need.resource_id)], need.start_ts, need.end_ts)).length) {
+      throw new Error("Selected party area is out of service");
+    }
+  }
+
+  // The old reservations are released and the new ones taken in one locked transaction, so a failed move
+  // leaves the booking where it was.
+  try {
+    await reserveBookingResources(sb, id, location, [...reservationNeeds, ...partyNeeds], { replace: true });
+  } catch (reserveErr) {
+    const { code, message } = reserveErr as { code?: string; message?: string };
+    if (code !== "23P01") {
+      console.error("booking reschedule reservation error:", reserveErr);
+      throw new Error("Failed to update reservations");
+    }
+    throw new Error(message?.startsWith("Selected party area") ? message : "Selected time is unavailable");
+  }
+
+  // Nothing collected yet: reprice at the new time. Paid, deposit and part-paid bookings keep their price.
+  const collected = booking.paid === true || Number(booking.deposit_cents) > 0 || Number(booking.balance_due_cents) > 0;
+  const repricedCents = collected
+    ? null
+    : totalCents(
+        definition.name,
+        partySize,
+        durationMinutes,
+        comboWindows
+          ? {
+              axeMinutes: comboWindows.axe.endMin - comboWindows.axe.startMin,
+              duckpinMinutes: comboWindows.duckpin.endMin - comboWindows.duckpin.startMin,
+            }
+          : undefined,
+        rateCard.config,
+        { dateKey, startMin },
+        definition
+      );
+
+  return { startIso, endIso, location, activity: definition, totalCents: repricedCents };
+}
@@ -0,0 +1,325 @@
+// src/lib/server/bookingSeries.ts
+// Recurring booking series for leagues and standing reservations (see docs/booking-series.sql).
+// A series is a weekly rule whose occurrences are ordinary bookings stamped with series_id/series_index.
+// Every occurrence is checked before anything is booked so staff see the conflicts up front.
+
+import { supabaseServer } from "@/lib/supabaseServer";
+import { findActivityByName } from "@/lib/activities";
+import type { Location } from "@/lib/locations";
+import { loadActivityDefinitions } from "@/lib/server/activities";
+import {
+  bookingHoldResources,
+  createBookingWithResources,
+  type ActivityUI,
+  type BookingInput,
+  type ComboOrder,
+} from "@/lib/server/bookingService";
+import { cancelBookingAndRelease, moveBooking } from "@/lib/server/bookingChanges";
+import { firstUnavailableResource, loadSlotHolds, type HeldResource } from "@/lib/server/slotHolds";
+import { loadWaitlistHolds } from "@/lib/server/waitlist";
+import { checkStoreHoursWindow } from "@/lib/server/storeHours";
+import { loadActivityBlackouts } from "@/lib/server/blackouts";
+import { ensureWaiverForBooking } from "@/lib/server/waiverService";
+import { addDaysToDateKey, dateKeyInTimeZone } from "@/lib/dateTime";
+
+export type BookingSeriesStatus = "ACTIVE" | "CANCELLED";
+
+export const BOOKING_SERIES_COLUMNS =
+  "id,location_id,name,activity,party_size,start_date_key,start_min,duration_minutes,interval_weeks,occurrences," +
+  "combo_axe_minutes,combo_duckpin_minutes,combo_order,customer_name,customer_email,customer_phone," +
+  "total_cents_override,paid,notes,status,created_by,created_at";
+
+export type BookingSeriesRow = {
+  id: string;
+  location_id: string | null;
+  name: string;
+  activity: string;
+  party_size: number;
+  start_date_key: string;
+  start_min: number;
+  duration_minutes: number;
+  interval_weeks: number;
+  occurrences: number;
+  combo_axe_minutes: number | null;
+  combo_duckpin_minutes: number | null;
+  combo_order: ComboOrder | null;
+  customer_name: string;
+  customer_email: string | null;
+  customer_phone: string | null;
+  total_cents_override: number | null;
+  paid: boolean;
+  notes: string | null;
+  status: BookingSeriesStatus;
+  created_by: string | null;
+  created_at: string;
+};
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+export type SeriesRule = {
+  activity: ActivityUI;
+  partySize: number;
+  startDateKey: string;
+  startMin: number;
+  durationMinutes: number;
+  intervalWeeks: number;
+  occurrences: number;
+  comboAxeMinutes?: number;
+  comboDuckpinMinutes?: number;
+  comboOrder?: ComboOrder;
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string;
+  totalCentsOverride?: number; // per occurrence
+};
+
+export type SeriesOccurrence = {
+  index: number; // 1-based
+  dateKey: string;
+  resources: HeldResource[];
+  conflict: string | null;
+  bookingId: string | null;
+};
+
+type SeriesBooking = {
+  id: string;
+  start_ts: string | null;
+  status: string | null;
+  location_id: string | null;
+  series_index: number | null;
+};
+
+export function seriesDateKeys(rule: Pick<SeriesRule, "startDateKey" | "intervalWeeks" | "occurrences">) {
+  return Array.from({ length: rule.occurrences }, (_, idx) =>
+    addDaysToDateKey(rule.startDateKey, idx * 7 * rule.intervalWeeks)
+  );
+}
+
+function occurrenceInput(rule: SeriesRule, dateKey: string, location: Location): BookingInput {
+  return {
+    activity: rule.activity,
+    partySize: rule.partySize,
+    dateKey,
+    startMin: rule.startMin,
+    durationMinutes: rule.durationMinutes,
+    comboAxeMinutes: rule.comboAxeMinutes,
+    comboDuckpinMinutes: rule.comboDuckpinMinutes,
+    comboOrder: rule.comboOrder,
+    customerName: rule.customerName,
+    customerEmail: rule.customerEmail,
+    customerPhone: rule.customerPhone,
+    totalCentsOverride: rule.totalCentsOverride,
+    locationId: location.id,
+  };
+}
+
+async function blackoutConflict(dateKey: string, activityKey: string, startMin: number, endMin: number) {
+  const blackouts = await loadActivityBlackouts(dateKey, [activityKey, "ALL"]);
+  const hit = blackouts.find(
+    (b) => startMin < Number(b.end_min ?? 24 * 60) && endMin > Number(b.start_min ?? 0)
+  );
+  if (!hit) return null;
+  return hit.reason ? `Blocked: ${hit.reason}` : "Selected time is blocked";
+}
+
+/** Why one occurrence can't be booked (closed, blocked or not enough free resources), or null when it fits. */
+async function occurrenceConflict(input: BookingInput, activityKey: string, location: Location) {
+  const hoursCheck = await checkStoreHoursWindow({
+    dateKey: input.dateKey,
+    startMin: input.startMin,
+    durationMinutes: input.durationMinutes,
+    location,
+  });
+  if (hoursCheck.error) return { resources: [] as HeldResource[], conflict: hoursCheck.error };
+
+  const blocked = await blackoutConflict(
+    input.dateKey,
+    activityKey,
+    input.startMin,
+    input.startMin + input.durationMinutes
+  );
+  if (blocked) return { resources: [] as HeldResource[], conflict: blocked };
+
+  const resources = await bookingHoldResources(input);
+  const holds = [
+    ...(await loadSlotHolds(location, input.dateKey)),
+    ...(await loadWaitlistHolds(location, input.dateKey)),
+  ];
+  const missing = await firstUnavailableResource(location, resources, holds);
+  if (!missing) return { resources, conflict: null };
+  const conflict = missing.resource_id
+    ? "Party area is already booked"
+    : `Not enough ${missing.type.toLowerCase()} resources free (needs ${missing.count})`;
+  return { resources, conflict };
+}
+
+/** Checks every occurrence of a rule at a location; nothing is booked. */
+export async function previewBookingSeries(rule: SeriesRule, location: Location): Promise<SeriesOccurrence[]> {
+  const definitions = await loadActivityDefinitions();
+  const definition = findActivityByName(definitions, rule.activity);
+  if (!definition) throw new Error("Unknown activity");
+
+  const occurrences: SeriesOccurrence[] = [];
+  const dateKeys = seriesDateKeys(rule);
+  for (let idx = 0; idx < dateKeys.length; idx += 1) {
+    const input = occurrenceInput(rule, dateKeys[idx], location);
+    const { resources, conflict } = await occurrenceConflict(input, definition.key, location);
+    occurrences.push({ index: idx + 1, dateKey: dateKeys[idx], resources, conflict, bookingId: null });
+  }
+  return occurrences;
+}
+
+/**
+ * Records the series and books every occurrence that is clear; conflicting ones are skipped and
+ * reported (an occurrence taken between the check and the insert is reported with that error).
+ */
+export async function createBookingSeries(params: {
+  rule: SeriesRule;
+  location: Location;
+  name: string;
+  paid: boolean;
+  notes?: string | null;
+  staffId?: string | null;
+}) {
+  const { rule, location } = params;
+  const definitions = await loadActivityDefinitions();
+  const definition = findActivityByName(definitions, rule.activity);
+  if (!definition) throw new Error("Unknown activity");
+
+  const occurrences = await previewBookingSeries(rule, location);
+  if (!occurrences.some((occurrence) => !occurrence.conflict)) {
+    return { series: null, occurrences };
+  }
+
+  const sb = supabaseServer();
+  const { data: series, error } = await sb
+    .from("booking_series")
+    .insert({
+      location_id: location.id,
+      name: params.name,
+      activity: definition.key,
+      party_size: rule.partySize,
+      start_date_key: rule.startDateKey,
+      start_min: rule.startMin,
+      duration_minutes: rule.durationMinutes,
+      interval_weeks: rule.intervalWeeks,
+      occurrences: rule.occurrences,
+      combo_axe_minutes: rule.comboAxeMinutes ?? null,
+      combo_duckpin_minutes: rule.comboDuckpinMinutes ?? null,
+      combo_order: rule.comboOrder ?? null,
+      customer_name: rule.customerName,
+      customer_email: rule.customerEmail || null,
+      customer_phone: rule.customerPhone || null,
+      total_cents_override: rule.totalCentsOverride ?? null,
+      paid: params.paid,
+      notes: params.notes || null,
+      created_by: params.staffId || null,
+    })
+    .select("id,name,status")
+    .single();
+  if (error || !series) {
+    console.error("booking series insert error:", error);
+    throw new Error(error?.message || "Failed to create series");
+  }
+
+  for (const occurrence of occurrences) {
+    if (occurrence.conflict) continue;
+    const input = occurrenceInput(rule, occurrence.dateKey, location);
+    try {
+      const result = await createBookingWithResources(input);
+      const { error: stampErr } = await sb
+        .from("bookings")
+        .update({
+          paid: params.paid,
+          notes: params.notes || null,
+          series_id: series.id,
+          series_index: occurrence.index,
+        })
+        .eq("id", result.bookingId);
+      if (stampErr) {
+        console.error("series booking update error:", stampErr);
+      }
+      occurrence.bookingId = String(result.bookingId);
+
+      try {
+        await ensureWaiverForBooking({
+          bookingId: result.bookingId,
+          customerId: result.customerId,
+          bookingInput: input,
+        });
+      } catch (waiverErr) {
+        console.error("series waiver error:", waiverErr);
+      }
+    } catch (err) {
+      occurrence.conflict = err instanceof Error ? err.message : "Failed to book occurrence";
+    }
+  }
+
+  return { series, occurrences };
+}
+
+/** The series' bookings in order, cancelled ones included. */
+export async function loadSeriesBookings(seriesId: string): Promise<SeriesBooking[]> {
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("bookings")
+    .select("id,start_ts,status,location_id,series_index")
+    .eq("series_id", seriesId)
+    .order("start_ts", { ascending: true });
+  if (error) throw new Error(error.message || "Failed to load series bookings");
+  return (data || []) as SeriesBooking[];
+}
+
+function upcoming(bookings: SeriesBooking[]) {
+  const now = Date.now();
+  return bookings.filter(
+    (booking) => booking.status !== "CANCELLED" && booking.start_ts && new Date(booking.start_ts).getTime() > now
+  );
+}
+
+/** Cancels every upcoming occurrence and closes the series; returns the cancelled booking ids. */
+export async function cancelBookingSeries(seriesId: string) {
+  const cancelled: string[] = [];
+  for (const booking of upcoming(await loadSeriesBookings(seriesId))) {
+    await cancelBookingAndRelease(booking);
+    cancelled.push(booking.id);
+  }
+
+  const sb = supabaseServer();
+  const { error } = await sb.from("booking_series").update({ status: "CANCELLED" }).eq("id", seriesId);
+  if (error) {
+    console.error("booking series cancel error:", error);
+    throw new Error("Failed to cancel series");
+  }
+  return cancelled;
+}
+
+/**
+ * Moves every upcoming occurrence to startMin on its own day. Occurrences that don't fit at the new
+ * time stay where they were and are reported; the series' rule is updated when any moved.
+ */
+export async function moveBookingSeries(seriesId: string, startMin: number, location: Location) {
+  const moved: string[] = [];
+  const conflicts: Array<{ bookingId: string; index: number | null; error: string }> = [];
+  for (const booking of upcoming(await loadSeriesBookings(seriesId))) {
+    try {
+      await moveBooking(booking, dateKeyInTimeZone(String(booking.start_ts), location.timezone), startMin);
+      moved.push(booking.id);
+    } catch (err) {
+      conflicts.push({
+        bookingId: booking.id,
+        index: booking.series_index,
+        error: err instanceof Error ? err.message : "Failed to move occurrence",
+      });
+    }
+  }
+
+  if (moved.length) {
+    const sb = supabaseServer();
+    const { error } = await sb.from("booking_series").update({ start_min: startMin }).eq("id", seriesId);
+    if (error) {
+      console.error("booking series move error:", error);
+    }
+  }
+  return { moved, conflicts };
+}
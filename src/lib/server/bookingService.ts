@@ -5,21 +5,32 @@ import {
   canonicalPartyAreaName,
   normalizePartyAreaName,
   neededResources,
-  nyLocalDateKeyPlusMinutesToUTCISOString,
   totalCents,
+  comboDurationsFromRow,
+  comboFirstFromOrder,
+  comboSegmentWindows,
+  comboSegments,
+  comboTotalMinutes,
+  type Activity,
+  type ComboDurations,
+  type ComboSegmentDurations,
 } from "@/lib/bookingLogic";
-
-function minutesToTimeString(totalMinutes: number) {
-  const mins = Math.max(0, Math.floor(totalMinutes));
-  const hours = Math.floor(mins / 60) % 24;
-  const rem = mins % 60;
-  return `${String(hours).padStart(2, "0")}:${String(rem).padStart(2, "0")}`;
-}
-
-export type ActivityUI = "Axe Throwing" | "Duckpin Bowling" | "Combo Package";
+import type { RateCardConfig } from "@/lib/rateCard";
+import { COMBO_ACTIVITY_KEY, findActivityByKey, type ActivityDefinition } from "@/lib/activities";
+import { loadActiveRateCard, loadRateCardVersion } from "@/lib/server/rateCards";
+import { loadActivityDefinition, loadActivityDefinitions } from "@/lib/server/activities";
+import { loadLocations, resolveLocation, scopeToLocation } from "@/lib/server/locations";
+import { defaultLocation, findLocation, type Location } from "@/lib/locations";
+import { zonedTimeToUtcISOString, minutesToTimeInput } from "@/lib/dateTime";
+import { claimWaitlistEntry } from "@/lib/server/waitlist";
+import { convertSlotHold, type HeldResource } from "@/lib/server/slotHolds";
+import { allocateResources } from "@/lib/server/resourceAllocation";
+import { loadOutOfServiceIntervals } from "@/lib/server/resourceDowntime";
+
+export type ActivityUI = Activity;
 export type ComboOrder = "DUCKPIN_FIRST" | "AXE_FIRST";
 export type PartyAreaTiming = "BEFORE" | "DURING" | "AFTER";
-type ActivityDB = "AXE" | "DUCKPIN" | "COMBO";
+type ActivityDB = string;
 
 export type BookingInput = {
   activity: ActivityUI;
@@ -38,6 +49,9 @@ export type BookingInput = {
   totalCentsOverride?: number;
   partyAreas?: PartyAreaName[];
   partyAreaTiming?: PartyAreaTiming;
+  locationId?: string | null; // id or slug; empty = default location
+  waitlistToken?: string; // claim token from a waitlist offer; closes the entry once booked
+  holdToken?: string; // checkout hold (see slotHolds) that this booking replaces
 };
 
 function supabaseAdmin() {
@@ -50,18 +64,62 @@ function supabaseAdmin() {
   return createClient(url, serviceKey, { auth: { persistSession: false } });
 }
 
-function mapActivityToDB(activity: ActivityUI): ActivityDB {
+function mapActivityToDB(activity: ActivityUI, definition?: ActivityDefinition | null): ActivityDB {
+  if (definition) return definition.key;
   if (activity === "Axe Throwing") return "AXE";
   if (activity === "Duckpin Bowling") return "DUCKPIN";
   return "COMBO";
 }
 
-function mapActivityToUI(activity: ActivityDB | string | null): ActivityUI {
+function mapActivityToUI(activity: ActivityDB | null, definitions: ActivityDefinition[] = []): ActivityUI {
+  const definition = findActivityByKey(definitions, activity);
+  if (definition) return definition.name;
   if (activity === "AXE") return "Axe Throwing";
   if (activity === "DUCKPIN") return "Duckpin Bowling";
   return "Combo Package";
 }
 
+async function requireActivityDefinition(activity: ActivityUI) {
+  const definition = await loadActivityDefinition(activity);
+  if (!definition) throw new Error(`Unknown or inactive activity: ${activity}`);
+  return definition;
+}
+
+type BookedComboDurations = ComboDurations & { transitionMinutes: number };
+
+/** Requested combo segment lengths plus the activity's transition gap. */
+function comboDurationsFor(input: BookingInput, definition: ActivityDefinition): BookedComboDurations {
+  return {
+    axeMinutes: input.comboAxeMinutes ?? 60,
+    duckpinMinutes: input.comboDuckpinMinutes ?? 60,
+    transitionMinutes: definition.transitionMinutes,
+  };
+}
+
+function comboDurationColumns(durations: BookedComboDurations) {
+  return {
+    combo_axe_minutes: durations.axeMinutes,
+    combo_duckpin_minutes: durations.duckpinMinutes,
+    combo_transition_minutes: durations.transitionMinutes,
+  };
+}
+
+/** Minute window each resource type is reserved for: its own segment on a combo, else the whole booking. */
+function comboWindowLookup(input: BookingInput, durations: ComboSegmentDurations, endMin: number) {
+  const isCombo = input.activity === "Combo Package";
+  const windows = comboSegmentWindows(input.startMin, comboFirstFromOrder(input.comboOrder), durations);
+  return (type: string): [number, number] => {
+    const segment = !isCombo ? null : type === "AXE" ? windows.axe : type === "DUCKPIN" ? windows.duckpin : null;
+    return segment ? [segment.startMin, segment.endMin] : [input.startMin, endMin];
+  };
+}
+
+async function requireLocation(locationId: string | null | undefined) {
+  const location = await resolveLocation(locationId);
+  if (!location) throw new Error(`Unknown or inactive location: ${locationId}`);
+  return location;
+}
+
 async function upsertCustomer(input: BookingInput) {
   const sb = supabaseAdmin();
   const email = input.customerEmail.trim().toLowerCase();
@@ -132,9 +190,14 @@ export async function ensureCustomerAndLinkBooking(input: BookingInput, bookingI
   return customerId;
 }
 
-function computeNeeds(activity: ActivityUI, partySize: number) {
-  const needs = neededResources(activity, partySize);
-  return { axeBays: needs.AXE, lanes: needs.DUCKPIN };
+function computeNeeds(
+  activity: ActivityUI,
+  partySize: number,
+  rateCard?: RateCardConfig,
+  definition?: ActivityDefinition | null
+) {
+  const needs = neededResources(activity, partySize, rateCard, definition);
+  return { axeBays: needs.AXE, lanes: needs.DUCKPIN, byType: needs };
 }
 
 const PARTY_AREA_BOOKABLE_SET: Set<string> = new Set(
@@ -156,20 +219,15 @@ function normalizePartyAreas(input?: PartyAreaName[]) {
   return normalized;
 }
 
-async function reservePartyAreas(
+async function partyAreaResourceIds(
   sb: ReturnType<typeof supabaseAdmin>,
-  bookingId: string,
   partyAreas: PartyAreaName[],
-  startTsUtc: string,
-  endTsUtc: string
+  location: Location
 ) {
-  if (!partyAreas.length) return;
-
-  const { data: resources, error: resErr } = await sb
-    .from("resources")
-    .select("id,name,type,active")
-    .eq("type", "PARTY")
-    .or("active.eq.true,active.is.null");
+  const { data: resources, error: resErr } = await scopeToLocation(
+    sb.from("resources").select("id,name,type,active").eq("type", "PARTY").or("active.eq.true,active.is.null"),
+    location
+  );
 
   if (resErr) {
     throw new Error(resErr.message || "Failed to load party areas");
@@ -187,7 +245,20 @@ async function reservePartyAreas(
   if (resourceIds.length !== partyAreas.length) {
     throw new Error("Selected party area is unavailable");
   }
+  return resourceIds as string[];
+}
+
+async function reservePartyAreas(
+  sb: ReturnType<typeof supabaseAdmin>,
+  bookingId: string,
+  partyAreas: PartyAreaName[],
+  startTsUtc: string,
+  endTsUtc: string,
+  location: Location
+) {
+  if (!partyAreas.length) return;
 
+  const resourceIds = await partyAreaResourceIds(sb, partyAreas, location);
   const { data: reservations, error: resvErr } = await sb
     .from("resource_reservations")
     .select("resource_id, bookings(status)")
@@ -206,6 +277,9 @@ async function reservePartyAreas(
   if (conflicts) {
     throw new Error("Selected party area is already booked");
   }
+  if ((await loadOutOfServiceIntervals(location, resourceIds, startTsUtc, endTsUtc)).length) {
+    throw new Error("Selected party area is out of service");
+  }
 
   const inserts = resourceIds.map((resourceId: string) => ({
     booking_id: bookingId,
@@ -220,98 +294,20 @@ async function reservePartyAreas(
   }
 }
 
-async function enforceDuckpinPairing(
-  sb: ReturnType<typeof supabaseAdmin>,
-  bookingId: string,
-  startTsUtc: string,
-  endTsUtc: string,
-  lanesNeeded: number
-) {
-  if (lanesNeeded !== 2) return;
-
-  const { data: resources, error: resErr } = await sb
-    .from("resources")
-    .select("id,type,name,sort_order,active")
-    .eq("type", "DUCKPIN")
-    .order("sort_order", { ascending: true })
-    .order("id", { ascending: true });
-
-  if (resErr || !resources?.length) {
-    return;
-  }
-
-  const activeLanes = resources.filter((r: any) => r.active !== false);
-  if (activeLanes.length < 2) return;
-
-  const pairs = [
-    activeLanes.slice(0, 2),
-    activeLanes.slice(2, 4),
-  ].filter((pair) => pair.length === 2);
-
-  if (!pairs.length) return;
-
-  const { data: currentReservations } = await sb
-    .from("resource_reservations")
-    .select("id,resource_id,resources(type,name,sort_order)")
-    .eq("booking_id", bookingId);
-
-  const currentDuckpinIds = (currentReservations || [])
-    .filter((row: any) => row.resources?.type === "DUCKPIN")
-    .map((row: any) => row.resource_id);
-
-  if (currentDuckpinIds.length !== 2) return;
-
-  const currentPairKey = currentDuckpinIds.slice().sort().join("|");
-  const desiredPair = pairs.find((pair) => {
-    const ids = pair.map((r: any) => r.id);
-    return ids.slice().sort().join("|") === currentPairKey;
-  });
-  if (desiredPair) return;
-
-  for (const pair of pairs) {
-    const pairIds = pair.map((r: any) => r.id);
-    const { data: conflicts } = await sb
-      .from("resource_reservations")
-      .select("id,resource_id")
-      .in("resource_id", pairIds)
-      .neq("booking_id", bookingId)
-      .lt("start_ts", endTsUtc)
-      .gt("end_ts", startTsUtc);
-
-    if (conflicts && conflicts.length > 0) {
-      continue;
-    }
-
-    await sb
-      .from("resource_reservations")
-      .delete()
-      .eq("booking_id", bookingId)
-      .in("resource_id", currentDuckpinIds);
-
-    const inserts = pairIds.map((resourceId: string) => ({
-      booking_id: bookingId,
-      resource_id: resourceId,
-      start_ts: startTsUtc,
-      end_ts: endTsUtc,
-    }));
-    await sb.from("resource_reservations").insert(inserts);
-    return;
-  }
-}
-
 async function reserveResourcesBypass(
   sb: ReturnType<typeof supabaseAdmin>,
   bookingId: string,
-  type: "AXE" | "DUCKPIN",
+  type: string,
   count: number,
   startTsUtc: string,
-  endTsUtc: string
+  endTsUtc: string,
+  location: Location
 ) {
   if (count <= 0) return;
-  const { data: resources, error } = await sb
-    .from("resources")
-    .select("id,type,sort_order,active")
-    .eq("type", type)
+  const { data: resources, error } = await scopeToLocation(
+    sb.from("resources").select("id,type,sort_order,active").eq("type", type),
+    location
+  )
     .order("sort_order", { ascending: true })
     .order("id", { ascending: true });
   if (error || !resources?.length) return;
@@ -319,17 +315,16 @@ async function reserveResourcesBypass(
   const active = resources.filter((r: any) => r.active !== false);
   if (!active.length) return;
 
-  let selected = active.slice(0, count);
-  if (type === "DUCKPIN" && count === 2) {
-    const pairA = active.slice(0, 2);
-    const pairB = active.slice(2, 4);
-    if (pairA.length === 2) selected = pairA;
-    else if (pairB.length === 2) selected = pairB;
-  }
+  // Best fit when enough are free; otherwise the first ones in sort order, since bypass bookings may overlap.
+  const bestFit = await allocateResources({ location, type, count, startTsUtc, endTsUtc }).catch((allocErr) => {
+    console.error("bypass allocation error:", allocErr);
+    return null;
+  });
+  const selected: string[] = bestFit ?? active.slice(0, count).map((r: any) => r.id);
 
-  const inserts = selected.map((r: any) => ({
+  const inserts = selected.map((resourceId) => ({
     booking_id: bookingId,
-    resource_id: r.id,
+    resource_id: resourceId,
     start_ts: startTsUtc,
     end_ts: endTsUtc,
   }));
@@ -339,11 +334,45 @@ async function reserveResourcesBypass(
   }
 }
 
+// One entry of reserve_booking_resources' p_needs (docs/booking-reservations.sql).
+export type ReservationNeed = HeldResource & { preferred?: string[] };
+
+/**
+ * Reserves a booking's resources in one locked transaction (reserve_booking_resources), so a resource taken
+ * since the best-fit pick is skipped rather than double-booked. Other sessions' checkout holds and waitlist
+ * claims count as taken; holdToken/waitlistToken name the ones this booking replaces. `replace` releases the
+ * booking's current reservations in the same transaction (reschedules). A need that can no longer be met
+ * throws with the RPC's 23P01 code and leaves the booking's reservations as they were.
+ */
+export async function reserveBookingResources(
+  sb: ReturnType<typeof supabaseAdmin>,
+  bookingId: string,
+  location: Location,
+  needs: ReservationNeed[],
+  options: { holdToken?: string; waitlistToken?: string; replace?: boolean } = {}
+) {
+  if (!needs.length && !options.replace) return;
+  const { error } = await sb.rpc("reserve_booking_resources", {
+    p_booking_id: bookingId,
+    p_location_id: location.id,
+    p_include_unassigned: location.isDefault,
+    p_needs: needs,
+    p_hold_token: options.holdToken || null,
+    p_waitlist_token: options.waitlistToken || null,
+    p_replace: options.replace === true,
+  });
+  if (error) {
+    throw Object.assign(new Error(error.message || "Failed to reserve resources"), { code: error.code });
+  }
+}
+
 export async function repairBookingReservations(bookingId: string) {
   const sb = supabaseAdmin();
   const { data: booking, error } = await sb
     .from("bookings")
-    .select("id,activity,party_size,start_ts,end_ts")
+    .select(
+      "id,activity,party_size,start_ts,end_ts,combo_order,combo_axe_minutes,combo_duckpin_minutes,combo_transition_minutes,rate_card_version,location_id"
+    )
     .eq("id", bookingId)
     .single();
 
@@ -353,32 +382,49 @@ export async function repairBookingReservations(bookingId: string) {
 
   await sb.from("resource_reservations").delete().eq("booking_id", bookingId);
 
-  const activityUi = mapActivityToUI(booking.activity);
-  const needs = computeNeeds(activityUi, Number(booking.party_size) || 1);
-  const startTsUtc = booking.start_ts;
-  const endTsUtc = booking.end_ts;
-
-  await reserveResourcesBypass(sb, bookingId, "AXE", needs.axeBays, startTsUtc, endTsUtc);
-  await reserveResourcesBypass(sb, bookingId, "DUCKPIN", needs.lanes, startTsUtc, endTsUtc);
+  // Size the repair with the card the booking was sold under, not today's.
+  const rateCard = await loadRateCardVersion(booking.rate_card_version);
+  const definitions = await loadActivityDefinitions();
+  const activityUi = mapActivityToUI(booking.activity, definitions);
+  const definition = findActivityByKey(definitions, booking.activity);
+  // Inactive sites still repair against their own resources; no location_id = default location.
+  const locations = await loadLocations();
+  const location = findLocation(locations, booking.location_id) ?? defaultLocation(locations);
+  const needs = computeNeeds(activityUi, Number(booking.party_size) || 1, rateCard.config, definition);
+  // Combos reserve each resource type for its own segment only.
+  const segments =
+    booking.activity === COMBO_ACTIVITY_KEY
+      ? comboSegments(booking.start_ts, comboFirstFromOrder(booking.combo_order), comboDurationsFromRow(booking))
+      : null;
+
+  for (const [type, count] of Object.entries(needs.byType)) {
+    const segment = type === "AXE" ? segments?.axe : type === "DUCKPIN" ? segments?.duckpin : null;
+    const startTsUtc = segment?.start ?? booking.start_ts;
+    const endTsUtc = segment?.end ?? booking.end_ts;
+    await reserveResourcesBypass(sb, bookingId, type, count, startTsUtc, endTsUtc, location);
+  }
 
   return { bookingId };
 }
 
 export async function createBookingBypassResources(input: BookingInput) {
   const sb = supabaseAdmin();
-  const activityDB = mapActivityToDB(input.activity);
+  const definition = await requireActivityDefinition(input.activity);
+  const activityDB = mapActivityToDB(input.activity, definition);
+  const location = await requireLocation(input.locationId);
+  const toUtcISO = (mins: number) => zonedTimeToUtcISOString(input.dateKey, mins, location.timezone);
+  const rateCard = await loadActiveRateCard(location);
   const resourcePartySize = input.partySizeForResources ?? input.partySize;
-  const needs = computeNeeds(input.activity, resourcePartySize);
+  const needs = computeNeeds(input.activity, resourcePartySize, rateCard.config, definition);
   const partyAreas = normalizePartyAreas(input.partyAreas);
   const partyAreaMinutes =
     partyAreas.length && Number.isFinite(input.partyAreaMinutes)
       ? Math.min(480, Math.max(60, Math.round(Number(input.partyAreaMinutes) / 60) * 60))
       : 0;
 
-  const comboAxeMinutes = input.comboAxeMinutes ?? 60;
-  const comboDuckpinMinutes = input.comboDuckpinMinutes ?? 60;
-  const comboTotalMinutes = comboAxeMinutes + comboDuckpinMinutes;
-  const effectiveDuration = input.activity === "Combo Package" ? comboTotalMinutes : input.durationMinutes;
+  const comboDurations = comboDurationsFor(input, definition);
+  const comboMinutes = comboTotalMinutes(comboDurations);
+  const effectiveDuration = input.activity === "Combo Package" ? comboMinutes : input.durationMinutes;
   const endMin = input.startMin + effectiveDuration;
   const partyAreaTiming: PartyAreaTiming = input.partyAreaTiming ?? "DURING";
   const partyWindowMinutes = partyAreaMinutes || effectiveDuration;
@@ -390,18 +436,29 @@ export async function createBookingBypassResources(input: BookingInput) {
       : input.startMin;
   const partyAreaEndMin = partyAreaStartMin + partyWindowMinutes;
 
-  const startTsUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, input.startMin);
-  const endTsUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, endMin);
-  const partyAreaStartTsUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, partyAreaStartMin);
-  const partyAreaEndTsUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, partyAreaEndMin);
+  const startTsUtc = toUtcISO(input.startMin);
+  const endTsUtc = toUtcISO(endMin);
+  const partyAreaStartTsUtc = toUtcISO(partyAreaStartMin);
+  const partyAreaEndTsUtc = toUtcISO(partyAreaEndMin);
 
   const hasOverride = Number.isFinite(input.totalCentsOverride);
   const totalCentsValue = hasOverride
     ? Math.max(0, Number(input.totalCentsOverride))
-    : totalCents(input.activity, input.partySize, input.durationMinutes, {
-        axeMinutes: comboAxeMinutes,
-        duckpinMinutes: comboDuckpinMinutes,
-      });
+    : totalCents(
+        input.activity,
+        input.partySize,
+        input.durationMinutes,
+        {
+          axeMinutes: comboDurations.axeMinutes,
+          duckpinMinutes: comboDurations.duckpinMinutes,
+        },
+        rateCard.config,
+        { dateKey: input.dateKey, startMin: input.startMin },
+        definition
+      );
+
+  const isCombo = input.activity === "Combo Package";
+  const windowFor = comboWindowLookup(input, comboDurations, endMin);
 
   const insertPayload: Record<string, any> = {
     activity: activityDB,
@@ -410,12 +467,15 @@ export async function createBookingBypassResources(input: BookingInput) {
     date: input.dateKey,
     start_ts: startTsUtc,
     end_ts: endTsUtc,
-    start_time: minutesToTimeString(input.startMin),
-    end_time: minutesToTimeString(endMin),
+    start_time: minutesToTimeInput(input.startMin),
+    end_time: minutesToTimeInput(endMin),
     total_cents: totalCentsValue,
     customer_name: input.customerName,
     customer_email: input.customerEmail,
     combo_order: input.comboOrder ?? null,
+    ...(isCombo ? comboDurationColumns(comboDurations) : {}),
+    rate_card_version: rateCard.version,
+    ...(location.id ? { location_id: location.id } : {}),
   };
 
   const { data: bookingRow, error } = await sb.from("bookings").insert(insertPayload).select("id").single();
@@ -424,28 +484,89 @@ export async function createBookingBypassResources(input: BookingInput) {
   const bookingId = bookingRow?.id as string;
   const customerId = await ensureCustomerAndLinkBooking(input, bookingId);
 
-  await reserveResourcesBypass(sb, bookingId, "AXE", needs.axeBays, startTsUtc, endTsUtc);
-  await reserveResourcesBypass(sb, bookingId, "DUCKPIN", needs.lanes, startTsUtc, endTsUtc);
-  await reservePartyAreas(sb, bookingId, partyAreas, partyAreaStartTsUtc, partyAreaEndTsUtc);
+  for (const [type, count] of Object.entries(needs.byType)) {
+    const [segStartMin, segEndMin] = windowFor(type);
+    await reserveResourcesBypass(sb, bookingId, type, count, toUtcISO(segStartMin), toUtcISO(segEndMin), location);
+  }
+  await reservePartyAreas(sb, bookingId, partyAreas, partyAreaStartTsUtc, partyAreaEndTsUtc, location);
 
   return { bookingId, needs, customerId };
 }
 
 export async function createBookingWithResources(input: BookingInput) {
+  const result = await insertBookingWithResources(input);
+  await claimWaitlistEntry(input.waitlistToken, String(result.bookingId || ""));
+  await convertSlotHold(input.holdToken, String(result.bookingId || ""));
+  return result;
+}
+
+/**
+ * What a booking would reserve, for a checkout hold: each resource type over its own window
+ * (combo segments) plus any party areas. Mirrors the windows used by createBookingWithResources.
+ */
+export async function bookingHoldResources(input: BookingInput): Promise<HeldResource[]> {
   const sb = supabaseAdmin();
-  const activityDB = mapActivityToDB(input.activity);
+  const definition = await requireActivityDefinition(input.activity);
+  const location = await requireLocation(input.locationId);
+  const toUtcISO = (mins: number) => zonedTimeToUtcISOString(input.dateKey, mins, location.timezone);
+  const rateCard = await loadActiveRateCard(location);
+  const needs = computeNeeds(input.activity, input.partySizeForResources ?? input.partySize, rateCard.config, definition);
+  const comboDurations = comboDurationsFor(input, definition);
+  const effectiveDuration =
+    input.activity === "Combo Package" ? comboTotalMinutes(comboDurations) : input.durationMinutes;
+  const endMin = input.startMin + effectiveDuration;
+  const windowFor = comboWindowLookup(input, comboDurations, endMin);
+
+  const resources: HeldResource[] = Object.entries(needs.byType)
+    .filter(([, count]) => count > 0)
+    .map(([type, count]) => {
+      const [startMin, segEndMin] = windowFor(type);
+      return { type, count, start_ts: toUtcISO(startMin), end_ts: toUtcISO(segEndMin) };
+    });
+
+  const partyAreas = normalizePartyAreas(input.partyAreas);
+  if (partyAreas.length) {
+    const partyWindowMinutes = Number.isFinite(input.partyAreaMinutes)
+      ? Math.min(480, Math.max(60, Math.round(Number(input.partyAreaMinutes) / 60) * 60))
+      : effectiveDuration;
+    const timing = input.partyAreaTiming ?? "DURING";
+    const partyStartMin =
+      timing === "BEFORE"
+        ? input.startMin - partyWindowMinutes
+        : timing === "AFTER"
+        ? input.startMin + effectiveDuration
+        : input.startMin;
+    for (const resourceId of await partyAreaResourceIds(sb, partyAreas, location)) {
+      resources.push({
+        type: "PARTY",
+        count: 1,
+        resource_id: resourceId,
+        start_ts: toUtcISO(partyStartMin),
+        end_ts: toUtcISO(partyStartMin + partyWindowMinutes),
+      });
+    }
+  }
+  return resources;
+}
+
+async function insertBookingWithResources(input: BookingInput) {
+  const sb = supabaseAdmin();
+  const definition = await requireActivityDefinition(input.activity);
+  const activityDB = mapActivityToDB(input.activity, definition);
+  const location = await requireLocation(input.locationId);
+  const toUtcISO = (mins: number) => zonedTimeToUtcISOString(input.dateKey, mins, location.timezone);
+  const rateCard = await loadActiveRateCard(location);
   const resourcePartySize = input.partySizeForResources ?? input.partySize;
-  const needs = computeNeeds(input.activity, resourcePartySize);
+  const needs = computeNeeds(input.activity, resourcePartySize, rateCard.config, definition);
   const partyAreas = normalizePartyAreas(input.partyAreas);
   const partyAreaMinutes =
     partyAreas.length && Number.isFinite(input.partyAreaMinutes)
       ? Math.min(480, Math.max(60, Math.round(Number(input.partyAreaMinutes) / 60) * 60))
       : 0;
 
-  const comboAxeMinutes = input.comboAxeMinutes ?? 60;
-  const comboDuckpinMinutes = input.comboDuckpinMinutes ?? 60;
-  const comboTotalMinutes = comboAxeMinutes + comboDuckpinMinutes;
-  const effectiveDuration = input.activity === "Combo Package" ? comboTotalMinutes : input.durationMinutes;
+  const comboDurations = comboDurationsFor(input, definition);
+  const comboMinutes = comboTotalMinutes(comboDurations);
+  const effectiveDuration = input.activity === "Combo Package" ? comboMinutes : input.durationMinutes;
   const endMin = input.startMin + effectiveDuration;
   const partyAreaTiming: PartyAreaTiming = input.partyAreaTiming ?? "DURING";
   const partyWindowMinutes = partyAreaMinutes || effectiveDuration;
@@ -460,94 +581,105 @@ export async function createBookingWithResources(input: BookingInput) {
   }
   const partyAreaEndMin = partyAreaStartMin + partyWindowMinutes;
 
-  const startTsUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, input.startMin);
-  const endTsUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, endMin);
-  const partyAreaStartTsUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, partyAreaStartMin);
-  const partyAreaEndTsUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, partyAreaEndMin);
+  const startTsUtc = toUtcISO(input.startMin);
+  const endTsUtc = toUtcISO(endMin);
+  const partyAreaStartTsUtc = toUtcISO(partyAreaStartMin);
+  const partyAreaEndTsUtc = toUtcISO(partyAreaEndMin);
 
   const hasOverride = Number.isFinite(input.totalCentsOverride);
   const totalCentsValue = hasOverride
     ? Math.max(0, Number(input.totalCentsOverride))
-    : totalCents(input.activity, input.partySize, input.durationMinutes, {
-        axeMinutes: comboAxeMinutes,
-        duckpinMinutes: comboDuckpinMinutes,
-      });
-
-  if (input.activity === "Combo Package") {
-    const comboDuration = comboTotalMinutes;
-    const comboDurationForDb = comboDuration === 60 || comboDuration === 120 ? comboDuration : 120;
-    const comboEndMin = input.startMin + comboDuration;
-
-    const comboStartTsUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, input.startMin);
-    const comboEndTsUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, comboEndMin);
-
-    const order = input.comboOrder ?? "DUCKPIN_FIRST";
-    const isDuckpinFirst = order === "DUCKPIN_FIRST";
-
-    const firstSegDuration = isDuckpinFirst ? comboDuckpinMinutes : comboAxeMinutes;
-    const secondSegDuration = isDuckpinFirst ? comboAxeMinutes : comboDuckpinMinutes;
-
-    const firstSegStartMin = input.startMin;
-    const firstSegEndMin = firstSegStartMin + firstSegDuration;
-    const secondSegStartMin = firstSegEndMin;
-    const secondSegEndMin = secondSegStartMin + secondSegDuration;
-
-    const firstSegStartUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, firstSegStartMin);
-    const firstSegEndUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, firstSegEndMin);
-    const secondSegStartUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, secondSegStartMin);
-    const secondSegEndUtc = nyLocalDateKeyPlusMinutesToUTCISOString(input.dateKey, secondSegEndMin);
-
-    const duckpinStart = isDuckpinFirst ? firstSegStartUtc : secondSegStartUtc;
-    const duckpinEnd = isDuckpinFirst ? firstSegEndUtc : secondSegEndUtc;
-
-    const axeStart = isDuckpinFirst ? secondSegStartUtc : firstSegStartUtc;
-    const axeEnd = isDuckpinFirst ? secondSegEndUtc : firstSegEndUtc;
-
-    const { data: bookingId, error } = await sb.rpc("create_combo_booking_with_resources", {
-      p_activity: activityDB,
-      p_duration_minutes: comboDurationForDb,
-      p_party_size: input.partySize,
-      p_combo_order: order,
-      p_start_ts: comboStartTsUtc,
-      p_end_ts: comboEndTsUtc,
-      p_duckpin_start_ts: duckpinStart,
-      p_duckpin_end_ts: duckpinEnd,
-      p_axe_start_ts: axeStart,
-      p_axe_end_ts: axeEnd,
-      p_total_cents: totalCentsValue,
-      p_customer_name: input.customerName,
-      p_customer_email: input.customerEmail,
-      p_tz: "America/New_York",
-    });
+    : totalCents(
+        input.activity,
+        input.partySize,
+        input.durationMinutes,
+        {
+          axeMinutes: comboDurations.axeMinutes,
+          duckpinMinutes: comboDurations.duckpinMinutes,
+        },
+        rateCard.config,
+        { dateKey: input.dateKey, startMin: input.startMin },
+        definition
+      );
+
+  const isCombo = input.activity === "Combo Package";
+  const comboOrder = input.comboOrder ?? "DUCKPIN_FIRST";
+  const comboDurationForDb = comboMinutes === 60 || comboMinutes === 120 ? comboMinutes : 120;
+  const comboNotes =
+    comboDurationForDb !== comboMinutes
+      ? `Actual combo duration ${comboMinutes} mins (Axe ${comboDurations.axeMinutes}/Duckpin ${comboDurations.duckpinMinutes}).`
+      : null;
+  const windowFor = comboWindowLookup(input, comboDurations, endMin);
+
+  // Every activity and location books the same way: the booking row first, then its resources through the
+  // locked reserve_booking_resources RPC; a booking whose resources can't be reserved is removed again.
+  const { data: bookingRow, error } = await sb
+    .from("bookings")
+    .insert({
+      activity: activityDB,
+      duration_minutes: isCombo ? comboDurationForDb : input.durationMinutes,
+      party_size: input.partySize,
+      date: input.dateKey,
+      start_ts: startTsUtc,
+      end_ts: endTsUtc,
+      start_time: minutesToTimeInput(input.startMin),
+      end_time: minutesToTimeInput(endMin),
+      total_cents: totalCentsValue,
+      customer_name: input.customerName,
+      customer_email: input.customerEmail,
+      combo_order: isCombo ? comboOrder : null,
+      ...(isCombo ? comboDurationColumns(comboDurations) : {}),
+      notes: isCombo ? comboNotes : null,
+      rate_card_version: rateCard.version,
+      ...(location.id ? { location_id: location.id } : {}),
+    })
+    .select("id")
+    .single();
+  if (error) throw new Error(error.message || "Failed to create booking");
 
-    if (error) throw new Error(error.message || "Failed to create combo booking");
-    const customerId = await ensureCustomerAndLinkBooking(input, bookingId as string);
-    await reservePartyAreas(sb, bookingId as string, partyAreas, partyAreaStartTsUtc, partyAreaEndTsUtc);
-    await enforceDuckpinPairing(sb, bookingId as string, duckpinStart, duckpinEnd, needs.lanes);
-    if (comboDurationForDb !== comboDuration) {
-      await sb
-        .from("bookings")
-        .update({ notes: `Actual combo duration ${comboDuration} mins (Axe ${comboAxeMinutes}/Duckpin ${comboDuckpinMinutes}).` })
-        .eq("id", bookingId as string);
+  const bookingId = bookingRow?.id as string;
+  try {
+    const reservationNeeds: ReservationNeed[] = [];
+    for (const rule of definition.resources) {
+      const count = needs.byType[rule.type] || 0;
+      if (count <= 0) continue;
+      const [segStartMin, segEndMin] = windowFor(rule.type);
+      const window = { start_ts: toUtcISO(segStartMin), end_ts: toUtcISO(segEndMin) };
+      const preferred = await allocateResources({
+        location,
+        type: rule.type,
+        count,
+        startTsUtc: window.start_ts,
+        endTsUtc: window.end_ts,
+      });
+      if (!preferred || preferred.length < count) {
+        throw new Error(`Not enough ${rule.type} resources available`);
+      }
+      reservationNeeds.push({ type: rule.type, count, ...window, preferred });
+    }
+    if (partyAreas.length) {
+      const partyIds = await partyAreaResourceIds(sb, partyAreas, location);
+      if ((await loadOutOfServiceIntervals(location, partyIds, partyAreaStartTsUtc, partyAreaEndTsUtc)).length) {
+        throw new Error("Selected party area is out of service");
+      }
+      for (const resourceId of partyIds) {
+        reservationNeeds.push({
+          type: "PARTY",
+          count: 1,
+          resource_id: resourceId,
+          start_ts: partyAreaStartTsUtc,
+          end_ts: partyAreaEndTsUtc,
+        });
+      }
     }
-    return { bookingId, needs, customerId };
+    await reserveBookingResources(sb, bookingId, location, reservationNeeds, {
+      holdToken: input.holdToken,
+      waitlistToken: input.waitlistToken,
+    });
+  } catch (reserveErr) {
+    await sb.from("bookings").delete().eq("id", bookingId);
+    throw reserveErr;
   }
-
-  const { data: bookingId, error } = await sb.rpc("create_booking_with_resources", {
-    p_activity: activityDB,
-    p_duration_minutes: input.durationMinutes,
-    p_party_size: input.partySize,
-    p_start_ts: startTsUtc,
-    p_end_ts: endTsUtc,
-    p_total_cents: totalCentsValue,
-    p_customer_name: input.customerName,
-    p_customer_email: input.customerEmail,
-    p_tz: "America/New_York",
-  });
-
-  if (error) throw new Error(error.message || "Failed to create booking");
-  const customerId = await ensureCustomerAndLinkBooking(input, bookingId as string);
-  await reservePartyAreas(sb, bookingId as string, partyAreas, partyAreaStartTsUtc, partyAreaEndTsUtc);
-  await enforceDuckpinPairing(sb, bookingId as string, startTsUtc, endTsUtc, needs.lanes);
+  const customerId = await ensureCustomerAndLinkBooking(input, bookingId);
   return { bookingId, needs, customerId };
 }
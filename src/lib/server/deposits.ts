@@ -0,0 +1,138 @@
+// src/lib/server/deposits.ts
+// Records card payments on bookings that may be paid by deposit (docs/deposits.sql). Checkout finalize, the
+// Stripe webhook and terminal finalize all go through recordBookingPayment, so a deposit leaves the booking
+// unpaid with its balance due and a later balance payment settles it. Part payments of a split bill
+// (docs/booking-payments.sql) lower the balance the same way, and every payment is logged in booking_payments.
+
+import { supabaseServer } from "@/lib/supabaseServer";
+import { insertBookingPayment } from "@/lib/server/bookingPayments";
+
+type PaymentMetadata = Record<string, string | null | undefined> | null | undefined;
+
+export type DepositSplit = { depositCents: number; balanceDueCents: number };
+
+/** Deposit taken and balance left by a checkout, from its payment intent metadata (zeros = paid in full). */
+export function depositSplitFromMetadata(metadata: PaymentMetadata): DepositSplit {
+  const depositCents = Math.max(0, Math.round(Number(metadata?.deposit_cents) || 0));
+  const balanceDueCents = Math.max(0, Math.round(Number(metadata?.balance_due_cents) || 0));
+  if (!depositCents || !balanceDueCents) return { depositCents: 0, balanceDueCents: 0 };
+  return { depositCents, balanceDueCents };
+}
+
+/** Whether the charge pays off a booking's outstanding balance rather than the booking itself. */
+export function isBalancePayment(metadata: PaymentMetadata) {
+  return metadata?.balance_payment === "true";
+}
+
+/** Whether the charge is one share of a split bill, leaving the rest of the booking's balance open. */
+export function isSplitPayment(metadata: PaymentMetadata) {
+  return metadata?.split_payment === "true";
+}
+
+/** Columns that mark a deposit booking's balance as collected, for cash and gift certificate payments too. */
+export function balanceSettledFields(paymentIntentId?: string | null) {
+  return {
+    paid: true,
+    balance_due_cents: 0,
+    balance_paid_at: new Date().toISOString(),
+    ...(paymentIntentId ? { balance_payment_intent_id: paymentIntentId } : {}),
+  };
+}
+
+/**
+ * Lowers the booking's balance by one part payment; the part that clears it marks the booking paid. The
+ * apply_booking_part_payment RPC does it under a row lock, so concurrent parts each come off the latest balance.
+ */
+export async function applyPartialBookingPayment(bookingId: string, amountCents: number, paymentIntentId?: string) {
+  const sb = supabaseServer();
+  const { data, error } = await sb.rpc("apply_booking_part_payment", {
+    p_booking_id: bookingId,
+    p_amount_cents: Math.max(0, Math.round(amountCents)),
+    p_payment_intent_id: paymentIntentId ?? null,
+  });
+  if (error || data == null) {
+    console.error("booking part payment update error:", error);
+    return null;
+  }
+  return Number(data);
+}
+
+type PaidIntent = {
+  id: string;
+  metadata?: PaymentMetadata;
+  amount?: number | null;
+  amount_received?: number | null;
+  charges?: { data?: object[] } | null;
+};
+
+// Terminal charges carry the on-reader tip in amount_details, which Stripe's Charge type doesn't declare.
+type ChargeTip = { amount_details?: { tip?: number | null } | null };
+
+/** Ledger fields for a card payment; the booking's share leaves out the card fee, tip and any tab on the charge. */
+function cardLedgerFields(bookingId: string, intent: PaidIntent) {
+  const meta = intent.metadata;
+  const tipCents = Number((intent.charges?.data?.[0] as ChargeTip | undefined)?.amount_details?.tip || 0);
+  const cardFeeCents = Number(meta?.card_fee_cents || 0);
+  const chargedCents = Number(intent.amount_received ?? intent.amount ?? 0);
+  return {
+    bookingId,
+    tender: "CARD" as const,
+    amountCents: chargedCents - cardFeeCents - tipCents - Number(meta?.tab_total_cents || 0),
+    tipCents,
+    cardFeeCents,
+    paymentIntentId: intent.id,
+    splitIndex: Number(meta?.split_index) || null,
+    splitCount: Number(meta?.split_count) || null,
+    createdBy: meta?.staff_id || null,
+  };
+}
+
+export async function recordBookingPayment(bookingId: string, intent: PaidIntent) {
+  const sb = supabaseServer();
+  const ledger = cardLedgerFields(bookingId, intent);
+  if (isSplitPayment(intent.metadata)) {
+    const amountCents = Math.max(0, Math.round(Number(intent.metadata?.split_amount_cents) || 0));
+    const { duplicate } = await insertBookingPayment({ ...ledger, amountCents });
+    if (!duplicate) await applyPartialBookingPayment(bookingId, amountCents, intent.id);
+    return;
+  }
+
+  if (isBalancePayment(intent.metadata)) {
+    await insertBookingPayment(ledger);
+    const { error } = await sb.from("bookings").update(balanceSettledFields(intent.id)).eq("id", bookingId);
+    if (error) console.error("booking balance update error:", error);
+    return;
+  }
+
+  const split = depositSplitFromMetadata(intent.metadata);
+  await insertBookingPayment(split.depositCents ? { ...ledger, amountCents: split.depositCents } : ledger);
+  if (!split.depositCents) {
+    const { error } = await sb.from("bookings").update({ paid: true }).eq("id", bookingId);
+    if (error) console.error("booking paid update error:", error);
+    return;
+  }
+
+  // Finalize runs from both the webhook and the success page; leave a balance that was already collected alone.
+  const { error } = await sb
+    .from("bookings")
+    .update({ deposit_cents: split.depositCents, balance_due_cents: split.balanceDueCents })
+    .eq("id", bookingId)
+    .is("balance_paid_at", null)
+    .or("paid.is.null,paid.eq.false");
+  if (error) console.error("booking deposit update error:", error);
+}
+
+/** event_requests columns to set once a payment for the request (deposit, balance or in full) succeeds. */
+export function eventRequestPaymentFields(metadata: PaymentMetadata) {
+  const paidAt = new Date().toISOString();
+  if (isBalancePayment(metadata)) return { payment_status: "PAID", paid_at: paidAt, balance_due_cents: 0 };
+  const split = depositSplitFromMetadata(metadata);
+  if (split.depositCents) {
+    return {
+      payment_status: "DEPOSIT_PAID",
+      deposit_cents: split.depositCents,
+      balance_due_cents: split.balanceDueCents,
+    };
+  }
+  return { payment_status: "PAID", paid_at: paidAt };
+}
@@ -1,5 +1,6 @@
 import { supabaseServer } from "@/lib/supabaseServer";
 import { normalizeEmail, normalizePromoCode } from "@/lib/server/promoRedemptions";
+import { insertBookingPayment } from "@/lib/server/bookingPayments";
 
 export type GiftCertificateRow = {
   id: string;
@@ -151,6 +152,16 @@ export async function redeemGiftCertificate(input: {
     throw new Error("Failed to redeem gift certificate.");
   }
 
+  if (input.bookingId) {
+    await insertBookingPayment({
+      bookingId: input.bookingId,
+      tender: "GIFT",
+      amountCents: input.amountCents,
+      giftRedemptionId: redemption.id,
+      createdBy: input.createdBy,
+    });
+  }
+
   return redemption.id as string;
 }
 
@@ -158,3 +169,57 @@ export function generateGiftCode() {
   const rand = () => Math.random().toString(36).slice(2, 6).toUpperCase();
   return `GC-${rand()}-${rand()}`;
 }
+
+export const GIFT_CERTIFICATE_COLUMNS =
+  "id,code,original_amount_cents,balance_cents,status,expires_at,created_at,customers(full_name,email)";
+
+export type IssuedGiftCertificate = {
+  id: string;
+  code: string;
+  original_amount_cents: number;
+  balance_cents: number;
+  status: string;
+  expires_at: string;
+  created_at: string;
+  customers: { full_name: string | null; email: string | null } | null;
+};
+
+/**
+ * Creates an ACTIVE certificate for a customer, valid for a year. Refund credits pass
+ * sourceBookingId so the certificate stays linked to the booking it came from.
+ */
+export async function issueGiftCertificate(input: {
+  customerId: string;
+  amountCents: number;
+  createdBy?: string | null;
+  sourceBookingId?: string | null;
+}) {
+  const expiresAt = new Date();
+  expiresAt.setFullYear(expiresAt.getFullYear() + 1);
+
+  const sb = supabaseServer();
+  let lastError: unknown = null;
+  for (let attempt = 0; attempt < 5; attempt += 1) {
+    const code = generateGiftCode();
+    const { data, error } = await sb
+      .from("gift_certificates")
+      .insert({
+        code,
+        customer_id: input.customerId,
+        original_amount_cents: input.amountCents,
+        balance_cents: input.amountCents,
+        status: "ACTIVE",
+        expires_at: expiresAt.toISOString(),
+        created_by: input.createdBy || null,
+        ...(input.sourceBookingId ? { source: "REFUND_CREDIT", source_booking_id: input.sourceBookingId } : {}),
+      })
+      .select(GIFT_CERTIFICATE_COLUMNS)
+      .single();
+
+    if (!error && data) return data as unknown as IssuedGiftCertificate;
+    lastError = error;
+  }
+
+  console.error("gift certificate create error:", lastError);
+  throw new Error("Failed to create gift certificate");
+}
@@ -0,0 +1,542 @@
+// src/lib/server/leagues.ts
+// Duckpin leagues (see docs/leagues.sql): team rosters of customers, a round-robin schedule on the league's
+// recurring lane reservations, per-game scores, handicaps, standings and the weekly recap emails.
+
+import { supabaseServer } from "@/lib/supabaseServer";
+import { defaultLocation, findLocation, type Location } from "@/lib/locations";
+import { loadLocations } from "@/lib/server/locations";
+import { seriesDateKeys } from "@/lib/server/bookingSeries";
+import { sendLeagueRecapEmail } from "@/lib/server/mailer";
+import { dateKeyInTimeZone } from "@/lib/dateTime";
+
+export type LeagueStatus = "ACTIVE" | "COMPLETED";
+
+export const LEAGUE_COLUMNS =
+  "id,location_id,series_id,name,slug,games_per_week,handicap_base,handicap_percent,status,created_at";
+
+export const MAX_LEAGUE_PINS = 300;
+
+export type LeagueRow = {
+  id: string;
+  location_id: string | null;
+  series_id: string | null;
+  name: string;
+  slug: string;
+  games_per_week: number;
+  handicap_base: number;
+  handicap_percent: number;
+  status: LeagueStatus;
+  created_at: string;
+};
+
+export type LeagueMember = { customerId: string; name: string; email: string | null };
+export type LeagueTeam = { id: string; name: string; members: LeagueMember[] };
+export type LeagueMatch = { id: string; week: number; lane: number; homeTeamId: string; awayTeamId: string };
+export type LeagueScore = { week: number; teamId: string; customerId: string; game: number; pins: number };
+export type LeagueWeek = { week: number; dateKey: string; startMin: number };
+
+export type LeagueData = {
+  league: LeagueRow;
+  location: Location;
+  weeks: LeagueWeek[];
+  teams: LeagueTeam[];
+  matches: LeagueMatch[];
+  scores: LeagueScore[];
+};
+
+export type MatchSide = {
+  teamId: string;
+  name: string;
+  games: number[]; // handicapped team total per game
+  scratch: number;
+  handicap: number;
+  points: number;
+};
+
+export type MatchResult = { matchId: string; week: number; lane: number; home: MatchSide; away: MatchSide };
+
+export type StandingRow = {
+  teamId: string;
+  name: string;
+  points: number;
+  gamesWon: number;
+  gamesLost: number;
+  scratchPins: number;
+  totalPins: number;
+};
+
+export type BowlerStat = {
+  customerId: string;
+  name: string;
+  teamId: string;
+  teamName: string;
+  games: number;
+  pins: number;
+  average: number | null;
+  highGame: number;
+  handicap: number; // for the next week bowled
+};
+
+type TeamRow = {
+  id: string;
+  name: string;
+  league_team_members: Array<{
+    customer_id: string;
+    customers: { full_name: string | null; email: string | null } | null;
+  }> | null;
+};
+
+export function slugifyLeagueName(name: string) {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 48) || "league"
+  );
+}
+
+/** A slug for a new league: the name's slug, with a short random suffix if it is taken. */
+export async function uniqueLeagueSlug(name: string) {
+  const sb = supabaseServer();
+  const base = slugifyLeagueName(name);
+  for (let attempt = 0; attempt < 5; attempt += 1) {
+    const slug = attempt === 0 ? base : `${base}-${crypto.randomUUID().slice(0, 4)}`;
+    const { data, error } = await sb.from("leagues").select("id").eq("slug", slug).maybeSingle();
+    if (error) throw new Error(error.message || "Failed to check league name");
+    if (!data) return slug;
+  }
+  throw new Error("Could not pick a unique league link; try another name");
+}
+
+export function buildLeagueStandingsUrl(slug: string) {
+  const base = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return new URL(`/leagues/${encodeURIComponent(slug)}`, base).toString();
+}
+
+/** A league with its weeks (from its series), rosters, schedule and every score. */
+export async function loadLeague(key: { id?: string; slug?: string }): Promise<LeagueData | null> {
+  const sb = supabaseServer();
+  const query = sb.from("leagues").select(LEAGUE_COLUMNS);
+  const { data: league, error } = await (key.id ? query.eq("id", key.id) : query.eq("slug", key.slug || ""))
+    .maybeSingle();
+  if (error) throw new Error(error.message || "Failed to load league");
+  if (!league) return null;
+
+  const locations = await loadLocations();
+  const location = findLocation(locations, league.location_id) ?? defaultLocation(locations);
+
+  let weeks: LeagueWeek[] = [];
+  if (league.series_id) {
+    const { data: series, error: seriesErr } = await sb
+      .from("booking_series")
+      .select("start_date_key,start_min,interval_weeks,occurrences")
+      .eq("id", league.series_id)
+      .maybeSingle();
+    if (seriesErr) throw new Error(seriesErr.message || "Failed to load league series");
+    if (series) {
+      weeks = seriesDateKeys({
+        startDateKey: series.start_date_key,
+        intervalWeeks: series.interval_weeks,
+        occurrences: series.occurrences,
+      }).map((dateKey, idx) => ({ week: idx + 1, dateKey, startMin: series.start_min }));
+    }
+  }
+
+  const [teamsRes, matchesRes, scoresRes] = await Promise.all([
+    sb
+      .from("league_teams")
+      .select("id,name,league_team_members(customer_id,customers(full_name,email))")
+      .eq("league_id", league.id)
+      .order("created_at", { ascending: true }),
+    sb
+      .from("league_matches")
+      .select("id,week_number,lane_number,home_team_id,away_team_id")
+      .eq("league_id", league.id)
+      .order("week_number", { ascending: true })
+      .order("lane_number", { ascending: true }),
+    sb.from("league_scores").select("week_number,team_id,customer_id,game_number,pins").eq("league_id", league.id),
+  ]);
+  if (teamsRes.error) throw new Error(teamsRes.error.message || "Failed to load league teams");
+  if (matchesRes.error) throw new Error(matchesRes.error.message || "Failed to load league schedule");
+  if (scoresRes.error) throw new Error(scoresRes.error.message || "Failed to load league scores");
+
+  const teams = ((teamsRes.data || []) as unknown as TeamRow[]).map((team) => ({
+    id: team.id,
+    name: team.name,
+    members: (team.league_team_members || []).map((member) => ({
+      customerId: member.customer_id,
+      name: member.customers?.full_name || member.customers?.email || "Bowler",
+      email: member.customers?.email || null,
+    })),
+  }));
+
+  return {
+    league: league as LeagueRow,
+    location,
+    weeks,
+    teams,
+    matches: (matchesRes.data || []).map((row) => ({
+      id: row.id,
+      week: row.week_number,
+      lane: row.lane_number,
+      homeTeamId: row.home_team_id,
+      awayTeamId: row.away_team_id,
+    })),
+    scores: (scoresRes.data || []).map((row) => ({
+      week: row.week_number,
+      teamId: row.team_id,
+      customerId: row.customer_id,
+      game: row.game_number,
+      pins: row.pins,
+    })),
+  };
+}
+
+/**
+ * Circle-method round robin: every week pairs each team once (an odd team out has a bye), and the
+ * pairings repeat after a full cycle.
+ */
+export function roundRobinWeeks(teamIds: string[], weeks: number) {
+  const slots: Array<string | null> = teamIds.length % 2 ? [...teamIds, null] : [...teamIds];
+  const rounds: Array<Array<[string, string]>> = [];
+  if (slots.length < 2) return rounds;
+  for (let week = 0; week < weeks; week += 1) {
+    const pairs: Array<[string, string]> = [];
+    for (let idx = 0; idx < slots.length / 2; idx += 1) {
+      const home = slots[idx];
+      const away = slots[slots.length - 1 - idx];
+      if (home && away) pairs.push(week % 2 ? [away, home] : [home, away]);
+    }
+    rounds.push(pairs);
+    slots.splice(1, 0, slots.pop() ?? null);
+  }
+  return rounds;
+}
+
+/** Rebuilds the schedule for every week that has no scores yet; weeks already bowled keep their matches. */
+export async function generateLeagueSchedule(data: LeagueData) {
+  if (data.teams.length < 2) throw new Error("Add at least two teams first");
+  if (!data.weeks.length) throw new Error("This league has no weeks; link it to a recurring series");
+
+  const bowled = new Set(data.scores.map((score) => score.week));
+  const rounds = roundRobinWeeks(
+    data.teams.map((team) => team.id),
+    data.weeks.length
+  );
+  const openWeeks = data.weeks.map((week) => week.week).filter((week) => !bowled.has(week));
+
+  const sb = supabaseServer();
+  if (openWeeks.length) {
+    const { error: deleteErr } = await sb
+      .from("league_matches")
+      .delete()
+      .eq("league_id", data.league.id)
+      .in("week_number", openWeeks);
+    if (deleteErr) throw new Error(deleteErr.message || "Failed to clear the schedule");
+  }
+
+  const rows = openWeeks.flatMap((week) =>
+    (rounds[week - 1] || []).map(([home, away], idx) => ({
+      league_id: data.league.id,
+      week_number: week,
+      lane_number: idx + 1,
+      home_team_id: home,
+      away_team_id: away,
+    }))
+  );
+  if (rows.length) {
+    const { error } = await sb.from("league_matches").insert(rows);
+    if (error) throw new Error(error.message || "Failed to save the schedule");
+  }
+  return { weeks: openWeeks.length, matches: rows.length };
+}
+
+export function leagueHandicap(average: number | null, league: Pick<LeagueRow, "handicap_base" | "handicap_percent">) {
+  if (average == null) return 0;
+  return Math.max(0, Math.floor(((league.handicap_base - average) * league.handicap_percent) / 100));
+}
+
+/** Each bowler's handicap for a week, from their average over the weeks before it. */
+export function handicapsForWeek(data: LeagueData, week: number) {
+  const totals = new Map<string, { pins: number; games: number }>();
+  for (const score of data.scores) {
+    if (score.week >= week) continue;
+    const total = totals.get(score.customerId) ?? { pins: 0, games: 0 };
+    total.pins += score.pins;
+    total.games += 1;
+    totals.set(score.customerId, total);
+  }
+  const handicaps = new Map<string, number>();
+  for (const [customerId, total] of totals) {
+    handicaps.set(customerId, leagueHandicap(Math.floor(total.pins / total.games), data.league));
+  }
+  return handicaps;
+}
+
+function matchSide(data: LeagueData, teamId: string, week: number, handicaps: Map<string, number>): MatchSide {
+  const side: MatchSide = {
+    teamId,
+    name: data.teams.find((team) => team.id === teamId)?.name ?? "Team",
+    games: Array.from({ length: data.league.games_per_week }, () => 0),
+    scratch: 0,
+    handicap: 0,
+    points: 0,
+  };
+  for (const score of data.scores) {
+    if (score.week !== week || score.teamId !== teamId || score.game > side.games.length) continue;
+    const handicap = handicaps.get(score.customerId) ?? 0;
+    side.games[score.game - 1] += score.pins + handicap;
+    side.scratch += score.pins;
+    side.handicap += handicap;
+  }
+  return side;
+}
+
+/** Scored matches with points: 1 per game won (0.5 each on a tie) and 1 for the higher series total. */
+export function leagueResults(data: LeagueData): MatchResult[] {
+  const scoredTeams = new Set(data.scores.map((score) => `${score.week}:${score.teamId}`));
+  const handicapsByWeek = new Map<number, Map<string, number>>();
+  const results: MatchResult[] = [];
+
+  for (const match of data.matches) {
+    if (!scoredTeams.has(`${match.week}:${match.homeTeamId}`) || !scoredTeams.has(`${match.week}:${match.awayTeamId}`)) {
+      continue;
+    }
+    if (!handicapsByWeek.has(match.week)) handicapsByWeek.set(match.week, handicapsForWeek(data, match.week));
+    const handicaps = handicapsByWeek.get(match.week) ?? new Map<string, number>();
+    const home = matchSide(data, match.homeTeamId, match.week, handicaps);
+    const away = matchSide(data, match.awayTeamId, match.week, handicaps);
+
+    const award = (homeTotal: number, awayTotal: number) => {
+      if (homeTotal > awayTotal) home.points += 1;
+      else if (awayTotal > homeTotal) away.points += 1;
+      else {
+        home.points += 0.5;
+        away.points += 0.5;
+      }
+    };
+    home.games.forEach((total, idx) => award(total, away.games[idx]));
+    award(
+      home.games.reduce((sum, total) => sum + total, 0),
+      away.games.reduce((sum, total) => sum + total, 0)
+    );
+    results.push({ matchId: match.id, week: match.week, lane: match.lane, home, away });
+  }
+  return results;
+}
+
+export function leagueStandings(data: LeagueData, results: MatchResult[] = leagueResults(data)): StandingRow[] {
+  const rows = new Map<string, StandingRow>(
+    data.teams.map((team) => [
+      team.id,
+      { teamId: team.id, name: team.name, points: 0, gamesWon: 0, gamesLost: 0, scratchPins: 0, totalPins: 0 },
+    ])
+  );
+  for (const result of results) {
+    for (const [side, other] of [
+      [result.home, result.away],
+      [result.away, result.home],
+    ]) {
+      const row = rows.get(side.teamId);
+      if (!row) continue;
+      row.points += side.points;
+      row.gamesWon += side.games.filter((total, idx) => total > other.games[idx]).length;
+      row.gamesLost += side.games.filter((total, idx) => total < other.games[idx]).length;
+      row.scratchPins += side.scratch;
+      row.totalPins += side.games.reduce((sum, total) => sum + total, 0);
+    }
+  }
+  return Array.from(rows.values()).sort((a, b) => b.points - a.points || b.totalPins - a.totalPins);
+}
+
+export function leagueBowlers(data: LeagueData): BowlerStat[] {
+  const nextWeek = Math.max(0, ...data.scores.map((score) => score.week)) + 1;
+  const handicaps = handicapsForWeek(data, nextWeek);
+  const bowlers: BowlerStat[] = [];
+  for (const team of data.teams) {
+    for (const member of team.members) {
+      const scores = data.scores.filter((score) => score.customerId === member.customerId);
+      const pins = scores.reduce((sum, score) => sum + score.pins, 0);
+      bowlers.push({
+        customerId: member.customerId,
+        name: member.name,
+        teamId: team.id,
+        teamName: team.name,
+        games: scores.length,
+        pins,
+        average: scores.length ? Math.floor(pins / scores.length) : null,
+        highGame: Math.max(0, ...scores.map((score) => score.pins)),
+        handicap: handicaps.get(member.customerId) ?? 0,
+      });
+    }
+  }
+  return bowlers.sort((a, b) => (b.average ?? -1) - (a.average ?? -1));
+}
+
+/**
+ * Saves a week's pins; entries with pins null clear that game. Every bowler must be on the given
+ * team's roster and the team must bowl that week.
+ */
+export async function saveLeagueScores(
+  data: LeagueData,
+  week: number,
+  entries: Array<{ teamId: string; customerId: string; game: number; pins: number | null }>,
+  staffId?: string | null
+) {
+  if (!data.weeks.some((row) => row.week === week)) throw new Error("Invalid week");
+  const weekTeams = new Set(
+    data.matches.filter((match) => match.week === week).flatMap((match) => [match.homeTeamId, match.awayTeamId])
+  );
+
+  const upserts = [];
+  const clears: Array<{ customerId: string; game: number }> = [];
+  for (const entry of entries) {
+    const team = data.teams.find((row) => row.id === entry.teamId);
+    if (!team || !weekTeams.has(team.id)) throw new Error("That team doesn't bowl this week");
+    if (!team.members.some((member) => member.customerId === entry.customerId)) {
+      throw new Error(`A bowler isn't on ${team.name}'s roster`);
+    }
+    if (!Number.isInteger(entry.game) || entry.game < 1 || entry.game > data.league.games_per_week) {
+      throw new Error("Invalid game number");
+    }
+    if (entry.pins == null) {
+      clears.push({ customerId: entry.customerId, game: entry.game });
+      continue;
+    }
+    if (!Number.isInteger(entry.pins) || entry.pins < 0 || entry.pins > MAX_LEAGUE_PINS) {
+      throw new Error(`Scores must be whole numbers from 0 to ${MAX_LEAGUE_PINS}`);
+    }
+    upserts.push({
+      league_id: data.league.id,
+      week_number: week,
+      team_id: entry.teamId,
+      customer_id: entry.customerId,
+      game_number: entry.game,
+      pins: entry.pins,
+      created_by: staffId || null,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  const sb = supabaseServer();
+  if (upserts.length) {
+    const { error } = await sb
+      .from("league_scores")
+      .upsert(upserts, { onConflict: "league_id,week_number,customer_id,game_number" });
+    if (error) throw new Error(error.message || "Failed to save scores");
+  }
+  for (const clear of clears) {
+    const { error } = await sb
+      .from("league_scores")
+      .delete()
+      .eq("league_id", data.league.id)
+      .eq("week_number", week)
+      .eq("customer_id", clear.customerId)
+      .eq("game_number", clear.game);
+    if (error) throw new Error(error.message || "Failed to clear a score");
+  }
+  return { saved: upserts.length, cleared: clears.length };
+}
+
+/** Finds a bowler's customer record by email, or adds one. */
+export async function ensureLeagueCustomer(input: { name: string; email?: string | null; phone?: string | null }) {
+  const sb = supabaseServer();
+  const email = String(input.email || "").trim().toLowerCase();
+  const fullName = input.name.trim();
+  if (email) {
+    const { data: existing, error } = await sb.from("customers").select("id").eq("email", email).maybeSingle();
+    if (error) throw new Error(error.message || "Failed to look up customer");
+    if (existing?.id) return String(existing.id);
+  }
+  const { data, error } = await sb
+    .from("customers")
+    .insert({ email: email || null, full_name: fullName || null, phone: input.phone?.trim() || null })
+    .select("id")
+    .single();
+  if (error || !data?.id) throw new Error(error?.message || "Failed to add customer");
+  return String(data.id);
+}
+
+/** Emails a week's results and the standings to every rostered bowler with an email, once per week. */
+export async function sendLeagueRecap(data: LeagueData, week: number) {
+  const weekRow = data.weeks.find((row) => row.week === week);
+  if (!weekRow) throw new Error("Invalid week");
+  if (!data.scores.some((score) => score.week === week)) throw new Error("No scores entered for that week yet");
+
+  const results = leagueResults(data);
+  const standings = leagueStandings(data, results);
+  const teamName = new Map(data.teams.map((team) => [team.id, team.name]));
+  const memberName = new Map(data.teams.flatMap((team) => team.members.map((m) => [m.customerId, m.name])));
+  const weekScores = data.scores.filter((score) => score.week === week);
+  const highGame = weekScores.reduce((best, score) => (score.pins > best.pins ? score : best), weekScores[0]);
+
+  const recipients = data.teams.flatMap((team) => team.members).filter((member) => member.email);
+  let sent = 0;
+  for (const member of recipients) {
+    try {
+      const result = await sendLeagueRecapEmail({
+        customerName: member.name,
+        customerEmail: String(member.email),
+        leagueName: data.league.name,
+        week,
+        dateKey: weekRow.dateKey,
+        results: results
+          .filter((result) => result.week === week)
+          .map(
+            (result) =>
+              `Lane ${result.lane}: ${result.home.name} ${result.home.points} – ${result.away.points} ${result.away.name}`
+          ),
+        standings: standings.map((row, idx) => `${idx + 1}. ${row.name} — ${row.points} pts`),
+        highlight: highGame
+          ? `High game: ${memberName.get(highGame.customerId) ?? "Bowler"} (${
+              teamName.get(highGame.teamId) ?? "Team"
+            }) ${highGame.pins}`
+          : null,
+        standingsUrl: buildLeagueStandingsUrl(data.league.slug),
+      });
+      if (result.sent) sent += 1;
+    } catch (err) {
+      console.error("league recap email error:", err);
+    }
+  }
+
+  const sb = supabaseServer();
+  const { error } = await sb
+    .from("league_recaps")
+    .upsert({ league_id: data.league.id, week_number: week, recipients: sent, sent_at: new Date().toISOString() });
+  if (error) {
+    console.error("league recap log error:", error);
+  }
+  return { week, recipients: sent };
+}
+
+/** Sends the recap for every scored week of an active league that is over and hasn't been recapped. */
+export async function sendDueLeagueRecaps() {
+  const sb = supabaseServer();
+  const { data: leagues, error } = await sb.from("leagues").select("id").eq("status", "ACTIVE");
+  if (error) throw new Error(error.message || "Failed to load leagues");
+
+  const sent: Array<{ leagueId: string; week: number; recipients: number }> = [];
+  for (const row of leagues || []) {
+    const data = await loadLeague({ id: row.id });
+    if (!data) continue;
+    const { data: recaps, error: recapErr } = await sb
+      .from("league_recaps")
+      .select("week_number")
+      .eq("league_id", row.id);
+    if (recapErr) {
+      console.error("league recaps query error:", recapErr);
+      continue;
+    }
+    const done = new Set((recaps || []).map((recap) => recap.week_number));
+    const today = dateKeyInTimeZone(new Date(), data.location.timezone);
+    for (const week of data.weeks) {
+      if (done.has(week.week) || week.dateKey >= today) continue;
+      if (!data.scores.some((score) => score.week === week.week)) continue;
+      const result = await sendLeagueRecap(data, week.week);
+      sent.push({ leagueId: row.id, week: week.week, recipients: result.recipients });
+    }
+  }
+  return sent;
+}
@@ -0,0 +1,113 @@
+import { supabaseServer } from "@/lib/supabaseServer";
+import type { StaffUser } from "@/lib/staffAuth";
+import { DEFAULT_LOCATION, defaultLocation, findLocation, normalizeLocation, type Location } from "@/lib/locations";
+
+export const LOCATION_COLUMNS = "id,slug,name,timezone,address,is_default,active,sort_order";
+
+export type LocationRow = {
+  id: string;
+  slug: string;
+  name: string;
+  timezone: string | null;
+  address: string | null;
+  is_default: boolean | null;
+  active: boolean | null;
+  sort_order: number | null;
+};
+
+export function mapLocationRow(row: LocationRow): Location | null {
+  return normalizeLocation({
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    timezone: row.timezone,
+    address: row.address,
+    isDefault: row.is_default ?? false,
+    active: row.active ?? undefined,
+    sortOrder: row.sort_order,
+  });
+}
+
+/** All locations (inactive included) by sort order; the built-in single venue when the table is unavailable. */
+export async function loadLocations(): Promise<Location[]> {
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("locations")
+    .select(LOCATION_COLUMNS)
+    .order("sort_order", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("locations query error:", error);
+    return [DEFAULT_LOCATION];
+  }
+  const rows = ((data || []) as LocationRow[]).map(mapLocationRow).filter((row): row is Location => !!row);
+  if (!rows.length) return [DEFAULT_LOCATION];
+  // Exactly one default: the flagged row, else the first one.
+  const fallback = defaultLocation(rows);
+  return rows.map((row) => ({ ...row, isDefault: row === fallback }));
+}
+
+/**
+ * Active location for an id or slug (query param, request body, Stripe metadata).
+ * Empty keys resolve to the default location; unknown or inactive ones to null.
+ */
+export async function resolveLocation(key: unknown): Promise<Location | null> {
+  const locations = await loadLocations();
+  const location = findLocation(locations, key == null ? "" : String(key));
+  return location?.active ? location : null;
+}
+
+/** Location from `?location=` on the request URL, falling back to a body field. */
+export async function resolveRequestLocation(req: Request, bodyValue?: unknown) {
+  const url = new URL(req.url);
+  return resolveLocation(url.searchParams.get("location") || bodyValue || "");
+}
+
+/**
+ * Location for a staff request: the requested one, else the staff member's home site.
+ * Staff tied to a site (staff_users.location_id) can only act there; admins can act anywhere.
+ */
+export async function resolveStaffLocation(
+  req: Request,
+  staff: Pick<StaffUser, "role" | "location_id">,
+  bodyValue?: unknown
+) {
+  const requested = new URL(req.url).searchParams.get("location") || bodyValue || "";
+  const location = await resolveLocation(requested || staff.location_id || "");
+  if (!location) return null;
+  if (staff.role !== "admin" && staff.location_id && !rowInLocation(staff.location_id, location)) return null;
+  return location;
+}
+
+/** More than one active site: resources must be allocated per location. */
+export async function hasMultipleLocations() {
+  const locations = await loadLocations();
+  return locations.filter((location) => location.active).length > 1;
+}
+
+/**
+ * Restricts a query to rows of a location. Legacy rows (location_id null) count as
+ * the default location; the built-in fallback location applies no filter.
+ */
+export function scopeToLocation<Q extends { or(filters: string): unknown }>(
+  query: Q,
+  location: Location | null | undefined
+): Q {
+  const filter = locationFilter(location);
+  return filter ? (query.or(filter) as Q) : query;
+}
+
+/** PostgREST `or` filter for scopeToLocation; null when no filter applies. */
+function locationFilter(location: Location | null | undefined) {
+  if (!location?.id) return null;
+  if (location.isDefault) return `location_id.is.null,location_id.eq.${location.id}`;
+  return `location_id.eq.${location.id}`;
+}
+
+/** True when a row's location_id belongs to the location (same null rule as scopeToLocation). */
+export function rowInLocation(rowLocationId: string | null | undefined, location: Location | null | undefined) {
+  if (!location?.id) return true;
+  if (!rowLocationId) return location.isDefault;
+  return rowLocationId === location.id;
+}
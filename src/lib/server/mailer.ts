@@ -3,6 +3,9 @@ import fs from "fs";
 import path from "path";
 import type { ActivityUI, ComboOrder } from "@/lib/server/bookingService";
 import { ensureWaiverForBooking } from "@/lib/server/waiverService";
+import { buildManageUrl, ensureManageToken } from "@/lib/server/manageBooking";
+import { formatDateKey, formatInstant, formatMinutesLabel, formatMinutesRange } from "@/lib/dateTime";
+import { comboDurationsFromRow, comboFirstFromOrder, comboSegmentWindows } from "@/lib/bookingLogic";
 
 type EmailBookingInput = {
   bookingId: string;
@@ -17,8 +20,13 @@ type EmailBookingInput = {
   comboOrder?: ComboOrder;
   resourceNames?: string[];
   waiverUrl?: string;
+  manageUrl?: string;
+  priceModifierLabel?: string;
+  priceModifierCents?: number;
   totalCents?: number;
   paid?: boolean;
+  depositCents?: number; // paid by deposit: this much was charged and balanceDueCents is still owed
+  balanceDueCents?: number;
 };
 
 type PaymentLinkEmailInput = {
@@ -44,18 +52,20 @@ function supabaseAdmin() {
   return createClient(url, serviceKey, { auth: { persistSession: false } });
 }
 
-function formatTimeFromMinutes(minsFromMidnight: number) {
-  const h24 = Math.floor(minsFromMidnight / 60);
-  const m = minsFromMidnight % 60;
-  const ampm = h24 >= 12 ? "PM" : "AM";
-  const h12 = ((h24 + 11) % 12) + 1;
-  return `${h12}:${String(m).padStart(2, "0")} ${ampm}`;
+function priceModifierLine(input: EmailBookingInput) {
+  if (!input.priceModifierLabel || !input.priceModifierCents) return null;
+  const sign = input.priceModifierCents > 0 ? "+" : "-";
+  return `Pricing: ${input.priceModifierLabel} ${sign}$${(Math.abs(input.priceModifierCents) / 100).toFixed(2)}`;
 }
 
-function prettyDate(dateKey: string) {
-  const [y, m, d] = dateKey.split("-").map(Number);
-  const date = new Date(y, (m ?? 1) - 1, d ?? 1);
-  return date.toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric", year: "numeric" });
+function bookingAmountLine(input: EmailBookingInput) {
+  if (typeof input.totalCents !== "number") return null;
+  const money = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+  if (input.depositCents && input.balanceDueCents) {
+    return `Amount: ${money(input.totalCents)} (deposit ${money(input.depositCents)} PAID, ` +
+      `${money(input.balanceDueCents)} due at check-in)`;
+  }
+  return `Amount: ${money(input.totalCents)} ${input.paid ? "PAID" : ""}`.trim();
 }
 
 function buildWaiverUrl(token: string, bookingId?: string) {
@@ -126,6 +136,37 @@ async function fetchBookingResources(bookingId: string) {
     .filter((name: string | undefined) => !!name);
 }
 
+/**
+ * Segment times of a combo from the lengths stored on the booking, in play order.
+ * Bookings without stored lengths keep the plain start/end line.
+ */
+async function fetchComboSchedule(input: EmailBookingInput) {
+  const plain = { endMin: input.startMin + input.durationMinutes, segmentLines: [] as string[] };
+  if (input.activity !== "Combo Package" || !input.bookingId) return plain;
+  try {
+    const sb = supabaseAdmin();
+    const { data, error } = await sb
+      .from("bookings")
+      .select("combo_axe_minutes,combo_duckpin_minutes,combo_transition_minutes")
+      .eq("id", input.bookingId)
+      .maybeSingle();
+    if (error) throw error;
+    if (data?.combo_axe_minutes == null || data?.combo_duckpin_minutes == null) return plain;
+    const comboFirst = comboFirstFromOrder(input.comboOrder);
+    const windows = comboSegmentWindows(input.startMin, comboFirst, comboDurationsFromRow(data));
+    const segmentLines = [
+      { label: "Duckpin Bowling", window: windows.duckpin },
+      { label: "Axe Throwing", window: windows.axe },
+    ]
+      .sort((a, b) => a.window.startMin - b.window.startMin)
+      .map(({ label, window }) => `${label}: ${formatMinutesRange(window.startMin, window.endMin)}`);
+    return { endMin: windows.overall.endMin, segmentLines };
+  } catch (comboErr) {
+    console.error("email combo lookup error:", comboErr);
+    return plain;
+  }
+}
+
 export async function sendBookingConfirmationEmail(input: EmailBookingInput): Promise<{
   sent: boolean;
   id?: string;
@@ -187,8 +228,15 @@ export async function sendBookingConfirmationEmail(input: EmailBookingInput): Pr
     }
   }
 
-  const startLabel = formatTimeFromMinutes(input.startMin);
-  const endLabel = formatTimeFromMinutes(input.startMin + input.durationMinutes);
+  let manageUrl = input.manageUrl || "";
+  if (!manageUrl && input.bookingId) {
+    const manageToken = await ensureManageToken(input.bookingId);
+    if (manageToken) manageUrl = buildManageUrl(manageToken);
+  }
+
+  const comboSchedule = await fetchComboSchedule(input);
+  const startLabel = formatMinutesLabel(input.startMin);
+  const endLabel = formatMinutesLabel(comboSchedule.endMin);
 
   const comboOrder =
     input.activity === "Combo Package"
@@ -200,21 +248,21 @@ export async function sendBookingConfirmationEmail(input: EmailBookingInput): Pr
       : null;
 
   const subject = "Axe Quacks: Owner Booking Notification";
-  const priceLine =
-    typeof input.totalCents === "number"
-      ? `Amount: $${(input.totalCents / 100).toFixed(2)} ${input.paid ? "PAID" : ""}`.trim()
-      : null;
+  const priceLine = bookingAmountLine(input);
 
   const lines = [
     `Name: ${input.customerName || "—"}`,
     comboOrder ? `Combo Order: ${comboOrder}` : null,
     `Activity: ${input.activity}`,
-    `Date: ${prettyDate(input.dateKey)}`,
+    `Date: ${formatDateKey(input.dateKey)}`,
     `Start/End Time: ${startLabel} – ${endLabel}`,
+    ...comboSchedule.segmentLines,
     `Resource: ${resources.length ? resources.join(", ") : "TBD"}`,
     `Group Size: ${input.partySize}`,
+    priceModifierLine(input),
     priceLine,
     waiverUrl ? `Waiver Link: ${waiverUrl}` : null,
+    manageUrl ? `Manage Booking: ${manageUrl}` : null,
   ].filter(Boolean) as string[];
 
   const detailRows = lines.map((line) => {
@@ -267,6 +315,18 @@ export async function sendBookingConfirmationEmail(input: EmailBookingInput): Pr
           </div>`
             : ""
         }
+        ${
+          manageUrl
+            ? `<div style="margin-top: 10px; text-align: center;">
+            <a href="${manageUrl}" style="display: inline-block; padding: 8px 16px; background: #fff; color: #111; border: 1px solid #111; border-radius: 999px; text-decoration: none; font-weight: 700; font-size: 12px;">
+              Manage Booking
+            </a>
+            <div style="margin-top: 6px; font-size: 11px; color: #666;">
+              Reschedule or cancel online, subject to our booking policy.
+            </div>
+          </div>`
+            : ""
+        }
         <div style="margin-top: 10px; font-size: 11px; color: #666; text-align: center;">
           Reply to this email with any questions.
         </div>
@@ -361,8 +421,9 @@ export async function sendOwnerBookingConfirmationEmail(input: EmailBookingInput
     }
   }
 
-  const startLabel = formatTimeFromMinutes(input.startMin);
-  const endLabel = formatTimeFromMinutes(input.startMin + input.durationMinutes);
+  const comboSchedule = await fetchComboSchedule(input);
+  const startLabel = formatMinutesLabel(input.startMin);
+  const endLabel = formatMinutesLabel(comboSchedule.endMin);
 
   const comboOrder =
     input.activity === "Combo Package"
@@ -374,19 +435,18 @@ export async function sendOwnerBookingConfirmationEmail(input: EmailBookingInput
       : null;
 
   const subject = "Your Axe Quacks Booking Confirmation";
-  const priceLine =
-    typeof input.totalCents === "number"
-      ? `Amount: $${(input.totalCents / 100).toFixed(2)} ${input.paid ? "PAID" : ""}`.trim()
-      : null;
+  const priceLine = bookingAmountLine(input);
 
   const lines = [
     `Name: ${input.customerName || "—"}`,
     comboOrder ? `Combo Order: ${comboOrder}` : null,
     `Activity: ${input.activity}`,
-    `Date: ${prettyDate(input.dateKey)}`,
+    `Date: ${formatDateKey(input.dateKey)}`,
     `Start/End Time: ${startLabel} – ${endLabel}`,
+    ...comboSchedule.segmentLines,
     `Resource: ${resources.length ? resources.join(", ") : "TBD"}`,
     `Group Size: ${input.partySize}`,
+    priceModifierLine(input),
     priceLine,
     waiverUrl ? `Waiver Link: ${waiverUrl}` : null,
   ].filter(Boolean) as string[];
@@ -580,8 +640,8 @@ export async function sendEventRequestAcceptedEmail(input: EventRequestEmailInpu
     return { sent: false, skippedReason: "invalid_recipient" };
   }
 
-  const startLabel = formatTimeFromMinutes(input.startMin);
-  const endLabel = formatTimeFromMinutes(input.startMin + input.durationMinutes);
+  const startLabel = formatMinutesLabel(input.startMin);
+  const endLabel = formatMinutesLabel(input.startMin + input.durationMinutes);
   const totalLine =
     typeof input.totalCents === "number"
       ? `Estimated Total: $${(input.totalCents / 100).toFixed(2)}`
@@ -593,7 +653,7 @@ export async function sendEventRequestAcceptedEmail(input: EventRequestEmailInpu
 
   const lines = [
     `Name: ${input.customerName || "—"}`,
-    `Date: ${prettyDate(input.dateKey)}`,
+    `Date: ${formatDateKey(input.dateKey)}`,
     `Time: ${startLabel} – ${endLabel}`,
     `Group Size: ${input.partySize}`,
     `Activities: ${activitiesLine}`,
@@ -681,8 +741,8 @@ export async function sendEventPaymentLinkEmail(
     return { sent: false, skippedReason: "invalid_recipient" };
   }
 
-  const startLabel = formatTimeFromMinutes(input.startMin);
-  const endLabel = formatTimeFromMinutes(input.startMin + input.durationMinutes);
+  const startLabel = formatMinutesLabel(input.startMin);
+  const endLabel = formatMinutesLabel(input.startMin + input.durationMinutes);
   const totalLine =
     typeof input.totalCents === "number"
       ? `Estimated Total: $${(input.totalCents / 100).toFixed(2)}`
@@ -694,7 +754,7 @@ export async function sendEventPaymentLinkEmail(
 
   const lines = [
     `Name: ${input.customerName || "—"}`,
-    `Date: ${prettyDate(input.dateKey)}`,
+    `Date: ${formatDateKey(input.dateKey)}`,
     `Time: ${startLabel} – ${endLabel}`,
     `Group Size: ${input.partySize}`,
     `Activities: ${activitiesLine}`,
@@ -878,8 +938,8 @@ export async function sendBookingPaymentLinkEmail(
     return { sent: false, skippedReason: "invalid_recipient" };
   }
 
-  const startLabel = formatTimeFromMinutes(input.startMin);
-  const endLabel = formatTimeFromMinutes(input.startMin + input.durationMinutes);
+  const startLabel = formatMinutesLabel(input.startMin);
+  const endLabel = formatMinutesLabel(input.startMin + input.durationMinutes);
   const totalLine =
     typeof input.totalCents === "number"
       ? `Estimated Total: $${(input.totalCents / 100).toFixed(2)}`
@@ -888,7 +948,7 @@ export async function sendBookingPaymentLinkEmail(
   const lines = [
     `Name: ${input.customerName || "—"}`,
     `Activity: ${input.activity}`,
-    `Date: ${prettyDate(input.dateKey)}`,
+    `Date: ${formatDateKey(input.dateKey)}`,
     `Time: ${startLabel} – ${endLabel}`,
     `Group Size: ${input.partySize}`,
     totalLine,
@@ -959,6 +1019,322 @@ export async function sendBookingPaymentLinkEmail(
   return { sent: true, id: payload?.id };
 }
 
+export async function sendWaitlistOfferEmail(input: {
+  customerName: string;
+  customerEmail: string;
+  activity: string;
+  partySize: number;
+  dateKey: string;
+  startMin: number;
+  durationMinutes: number;
+  claimUrl: string;
+  expiresAt: string;
+  timeZone: string;
+}): Promise<{ sent: boolean; id?: string; skippedReason?: string }> {
+  const apiKey = process.env.RESEND_API_KEY || "";
+  const fromEmail = process.env.RESEND_FROM_EMAIL || "";
+  const fromName = process.env.RESEND_FROM_NAME || "Axe Quacks";
+  if (!apiKey || !fromEmail) {
+    console.warn("Resend config missing; skipping waitlist email.");
+    return { sent: false, skippedReason: "missing_config" };
+  }
+
+  if (!input.customerEmail || !input.customerEmail.includes("@")) {
+    return { sent: false, skippedReason: "invalid_recipient" };
+  }
+
+  const expiresLabel = formatInstant(input.expiresAt, input.timeZone);
+  const lines = [
+    `Name: ${input.customerName || "—"}`,
+    `Activity: ${input.activity}`,
+    `Date: ${formatDateKey(input.dateKey)}`,
+    `Time: ${formatMinutesRange(input.startMin, input.startMin + input.durationMinutes)}`,
+    `Group Size: ${input.partySize}`,
+    `Held Until: ${expiresLabel}`,
+  ];
+
+  const text = `Good news! A spot you were waitlisted for just opened up. We're holding it for you until ${expiresLabel}:\n${input.claimUrl}\n\n${lines.join("\n")}`;
+  const subject = "Axe Quacks: Your Waitlisted Time Is Available";
+  const logoAttachment = getLogoAttachment();
+  const logoUrl = getLogoUrl();
+  const logoSrc = logoAttachment ? `cid:${LOGO_CID}` : logoUrl;
+
+  const detailRows = lines.map((line) => {
+    const idx = line.indexOf(":");
+    if (idx === -1) return { label: "", value: line };
+    return { label: line.slice(0, idx).trim(), value: line.slice(idx + 1).trim() };
+  });
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; color: #111; background: #f6f6f6; padding: 14px;">
+      <div style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 12px; padding: 14px; border: 1px solid #e6e6e6;">
+        ${
+          logoSrc
+            ? `<div style="text-align:center; margin-bottom: 12px;"><img src="${logoSrc}" alt="Axe Quacks" style="max-width: 160px; height: auto;" /></div>`
+            : ""
+        }
+        <h2 style="font-size: 18px; margin: 0 0 12px;">A spot just opened up</h2>
+        <p style="margin: 0 0 12px;">We're holding this time for you until ${expiresLabel}. After that it goes to the next person on the waitlist.</p>
+        <div style="margin: 12px 0; text-align: center;">
+          <a href="${input.claimUrl}" style="display: inline-block; padding: 10px 16px; background: #111; color: #fff; text-decoration: none; border-radius: 8px; font-weight: 600;">Claim This Time</a>
+        </div>
+        <table style="width: 100%; border-collapse: collapse;">
+          ${detailRows
+            .map(
+              (row) => `
+              <tr>
+                <td style="padding: 6px 0; color: #666; font-size: 13px; width: 40%;">${row.label}</td>
+                <td style="padding: 6px 0; font-size: 13px; font-weight: 600;">${row.value}</td>
+              </tr>`
+            )
+            .join("")}
+        </table>
+      </div>
+    </div>
+  `;
+
+  const res = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: `${fromName} <${fromEmail}>`,
+      to: [input.customerEmail],
+      subject,
+      text,
+      html,
+      attachments: logoAttachment ? [logoAttachment] : undefined,
+    }),
+  });
+
+  const payload = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const error = typeof payload?.message === "string" ? payload.message : JSON.stringify(payload || {});
+    throw new Error(`Resend email failed: ${res.status} ${error}`.trim());
+  }
+
+  return { sent: true, id: payload?.id };
+}
+
+export async function sendBookingChangeEmail(input: {
+  customerName: string;
+  customerEmail: string;
+  changeType: "RESCHEDULE" | "CANCEL" | "REFUND";
+  approved: boolean;
+  activity: string;
+  startTs: string;
+  timeZone: string;
+  refundCents?: number | null;
+  refundMethod?: "CARD" | "CREDIT" | null;
+  note?: string | null;
+  manageUrl?: string | null;
+}): Promise<{ sent: boolean; id?: string; skippedReason?: string }> {
+  const apiKey = process.env.RESEND_API_KEY || "";
+  const fromEmail = process.env.RESEND_FROM_EMAIL || "";
+  const fromName = process.env.RESEND_FROM_NAME || "Axe Quacks";
+  if (!apiKey || !fromEmail) {
+    console.warn("Resend config missing; skipping booking change email.");
+    return { sent: false, skippedReason: "missing_config" };
+  }
+
+  if (!input.customerEmail || !input.customerEmail.includes("@")) {
+    return { sent: false, skippedReason: "invalid_recipient" };
+  }
+
+  const requestLabel =
+    input.changeType === "RESCHEDULE" ? "reschedule" : input.changeType === "CANCEL" ? "cancellation" : "refund";
+  const headline = input.approved
+    ? input.changeType === "RESCHEDULE"
+      ? "Your booking has been moved"
+      : input.changeType === "CANCEL"
+      ? "Your booking has been cancelled"
+      : "Your refund is on its way"
+    : `We couldn't approve your ${requestLabel} request`;
+  const lines = [
+    `Name: ${input.customerName || "—"}`,
+    `Activity: ${input.activity}`,
+    `${input.approved && input.changeType === "RESCHEDULE" ? "New Time" : "Booking Time"}: ${formatInstant(
+      input.startTs,
+      input.timeZone,
+      "dateTime"
+    )}`,
+    input.approved && input.refundCents
+      ? `Refund: $${(input.refundCents / 100).toFixed(2)}${
+          input.refundMethod === "CREDIT" ? " store credit (code sent separately)" : ""
+        }`
+      : null,
+    input.note ? `Note: ${input.note}` : null,
+  ].filter(Boolean) as string[];
+
+  const text = `${headline}.\n\n${lines.join("\n")}${input.manageUrl ? `\n\nManage your booking: ${input.manageUrl}` : ""}`;
+  const subject = `Axe Quacks: ${headline}`;
+  const logoAttachment = getLogoAttachment();
+  const logoUrl = getLogoUrl();
+  const logoSrc = logoAttachment ? `cid:${LOGO_CID}` : logoUrl;
+
+  const detailRows = lines.map((line) => {
+    const idx = line.indexOf(":");
+    if (idx === -1) return { label: "", value: line };
+    return { label: line.slice(0, idx).trim(), value: line.slice(idx + 1).trim() };
+  });
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; color: #111; background: #f6f6f6; padding: 14px;">
+      <div style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 12px; padding: 14px; border: 1px solid #e6e6e6;">
+        ${
+          logoSrc
+            ? `<div style="text-align:center; margin-bottom: 12px;"><img src="${logoSrc}" alt="Axe Quacks" style="max-width: 160px; height: auto;" /></div>`
+            : ""
+        }
+        <h2 style="font-size: 18px; margin: 0 0 12px;">${headline}</h2>
+        <table style="width: 100%; border-collapse: collapse;">
+          ${detailRows
+            .map(
+              (row) => `
+              <tr>
+                <td style="padding: 6px 0; color: #666; font-size: 13px; width: 40%;">${row.label}</td>
+                <td style="padding: 6px 0; font-size: 13px; font-weight: 600;">${row.value}</td>
+              </tr>`
+            )
+            .join("")}
+        </table>
+        ${
+          input.manageUrl
+            ? `<div style="margin: 12px 0; text-align: center;">
+          <a href="${input.manageUrl}" style="display: inline-block; padding: 10px 16px; background: #111; color: #fff; text-decoration: none; border-radius: 8px; font-weight: 600;">View Booking</a>
+        </div>`
+            : ""
+        }
+        <div style="margin-top: 10px; font-size: 11px; color: #666; text-align: center;">
+          Reply to this email with any questions.
+        </div>
+      </div>
+    </div>
+  `;
+
+  const res = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: `${fromName} <${fromEmail}>`,
+      to: [input.customerEmail],
+      subject,
+      text,
+      html,
+      attachments: logoAttachment ? [logoAttachment] : undefined,
+    }),
+  });
+
+  const payload = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const error = typeof payload?.message === "string" ? payload.message : JSON.stringify(payload || {});
+    throw new Error(`Resend email failed: ${res.status} ${error}`.trim());
+  }
+
+  return { sent: true, id: payload?.id };
+}
+
+export async function sendLeagueRecapEmail(input: {
+  customerName: string;
+  customerEmail: string;
+  leagueName: string;
+  week: number;
+  dateKey: string;
+  results: string[];
+  standings: string[];
+  highlight?: string | null;
+  standingsUrl: string;
+}): Promise<{ sent: boolean; id?: string; skippedReason?: string }> {
+  const apiKey = process.env.RESEND_API_KEY || "";
+  const fromEmail = process.env.RESEND_FROM_EMAIL || "";
+  const fromName = process.env.RESEND_FROM_NAME || "Axe Quacks";
+  if (!apiKey || !fromEmail) {
+    console.warn("Resend config missing; skipping league recap email.");
+    return { sent: false, skippedReason: "missing_config" };
+  }
+
+  if (!input.customerEmail || !input.customerEmail.includes("@")) {
+    return { sent: false, skippedReason: "invalid_recipient" };
+  }
+
+  const headline = `${input.leagueName}: Week ${input.week} Recap`;
+  const weekLabel = formatDateKey(input.dateKey);
+  const text = [
+    `${headline} (${weekLabel})`,
+    input.highlight || null,
+    "",
+    "Results",
+    ...(input.results.length ? input.results : ["No matches scored this week."]),
+    "",
+    "Standings",
+    ...input.standings,
+    "",
+    `Full standings: ${input.standingsUrl}`,
+  ]
+    .filter((line) => line != null)
+    .join("\n");
+  const subject = `Axe Quacks: ${headline}`;
+  const logoAttachment = getLogoAttachment();
+  const logoUrl = getLogoUrl();
+  const logoSrc = logoAttachment ? `cid:${LOGO_CID}` : logoUrl;
+
+  const listHtml = (items: string[]) =>
+    items.map((item) => `<li style="padding: 3px 0; font-size: 13px;">${item}</li>`).join("");
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; color: #111; background: #f6f6f6; padding: 14px;">
+      <div style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 12px; padding: 14px; border: 1px solid #e6e6e6;">
+        ${
+          logoSrc
+            ? `<div style="text-align:center; margin-bottom: 12px;"><img src="${logoSrc}" alt="Axe Quacks" style="max-width: 160px; height: auto;" /></div>`
+            : ""
+        }
+        <h2 style="font-size: 18px; margin: 0 0 4px;">${headline}</h2>
+        <div style="color: #666; font-size: 13px; margin-bottom: 12px;">${weekLabel}</div>
+        ${input.highlight ? `<p style="margin: 0 0 12px; font-weight: 600;">${input.highlight}</p>` : ""}
+        <h3 style="font-size: 14px; margin: 12px 0 4px;">Results</h3>
+        <ul style="margin: 0; padding-left: 18px;">${listHtml(
+          input.results.length ? input.results : ["No matches scored this week."]
+        )}</ul>
+        <h3 style="font-size: 14px; margin: 12px 0 4px;">Standings</h3>
+        <ul style="margin: 0; padding-left: 18px; list-style: none;">${listHtml(input.standings)}</ul>
+        <div style="margin: 16px 0 4px; text-align: center;">
+          <a href="${input.standingsUrl}" style="display: inline-block; padding: 10px 16px; background: #111; color: #fff; text-decoration: none; border-radius: 8px; font-weight: 600;">Full Standings</a>
+        </div>
+      </div>
+    </div>
+  `;
+
+  const res = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: `${fromName} <${fromEmail}>`,
+      to: [input.customerEmail],
+      subject,
+      text,
+      html,
+      attachments: logoAttachment ? [logoAttachment] : undefined,
+    }),
+  });
+
+  const payload = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const error = typeof payload?.message === "string" ? payload.message : JSON.stringify(payload || {});
+    throw new Error(`Resend email failed: ${res.status} ${error}`.trim());
+  }
+
+  return { sent: true, id: payload?.id };
+}
+
 export async function sendWaiverRequestEmail(input: {
   customerName: string;
   customerEmail: string;
@@ -0,0 +1,85 @@
+// src/lib/server/manageBooking.ts
+// Tokenized customer links to /manage (see docs/manage-bookings.sql). The token is the only credential
+// the page has, so it is created once per booking and never derived from the booking id.
+
+import { supabaseServer } from "@/lib/supabaseServer";
+
+export const MANAGE_BOOKING_COLUMNS =
+  "id,activity,party_size,duration_minutes,start_ts,end_ts,status,paid,total_cents,customer_id,customer_name," +
+  "balance_due_cents,customer_email,combo_order,combo_axe_minutes,combo_duckpin_minutes,combo_transition_minutes," +
+  "location_id,manage_token";
+
+export type ManagedBooking = {
+  id: string;
+  activity: string;
+  party_size: number;
+  duration_minutes: number | null;
+  start_ts: string;
+  end_ts: string;
+  status: string | null;
+  paid: boolean | null;
+  total_cents: number | null;
+  balance_due_cents: number | null;
+  customer_id: string | null;
+  customer_name: string | null;
+  customer_email: string | null;
+  combo_order: string | null;
+  combo_axe_minutes: number | null;
+  combo_duckpin_minutes: number | null;
+  combo_transition_minutes: number | null;
+  location_id: string | null;
+  manage_token: string | null;
+};
+
+export function buildManageUrl(token: string) {
+  const base = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  const url = new URL("/manage", base);
+  url.searchParams.set("token", token);
+  return url.toString();
+}
+
+/** Returns the booking's manage token, creating one the first time it is needed. */
+export async function ensureManageToken(bookingId: string) {
+  if (!bookingId) return null;
+  const sb = supabaseServer();
+  const { data, error } = await sb.from("bookings").select("id,manage_token").eq("id", bookingId).maybeSingle();
+  if (error || !data) {
+    if (error) console.error("manage token lookup error:", error);
+    return null;
+  }
+  if (data.manage_token) return String(data.manage_token);
+
+  const token = crypto.randomUUID();
+  const { data: updated, error: updateErr } = await sb
+    .from("bookings")
+    .update({ manage_token: token })
+    .eq("id", bookingId)
+    .is("manage_token", null)
+    .select("manage_token")
+    .maybeSingle();
+  if (updateErr) {
+    console.error("manage token create error:", updateErr);
+    return null;
+  }
+  if (updated?.manage_token) return String(updated.manage_token);
+
+  // Another request set it first; use theirs.
+  const { data: current } = await sb.from("bookings").select("manage_token").eq("id", bookingId).maybeSingle();
+  return current?.manage_token ? String(current.manage_token) : null;
+}
+
+export async function findBookingByManageToken(token: string) {
+  const value = String(token || "").trim();
+  if (!value) return null;
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("bookings")
+    .select(MANAGE_BOOKING_COLUMNS)
+    .eq("manage_token", value)
+    .maybeSingle();
+  if (error) {
+    console.error("manage booking lookup error:", error);
+    throw new Error("Failed to load booking");
+  }
+  return (data as unknown as ManagedBooking | null) ?? null;
+}
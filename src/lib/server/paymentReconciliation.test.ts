@@ -0,0 +1,343 @@
+import type Stripe from "stripe";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  comparePayout,
+  compareStripeWithDatabase,
+  reconciliationRange,
+  resolveReconciliationIssue,
+  runPaymentReconciliation,
+  type BookingRow,
+} from "@/lib/server/paymentReconciliation";
+
+type Row = Record<string, unknown>;
+type Call = { table: string; update?: Row; insert?: Row[]; delete?: boolean; filters: Array<[string, unknown]> };
+
+// A stand-in for the Supabase client over in-memory tables: filters (eq, is, in, like, gte, lt, or) select,
+// update, insert and delete rows, and every query is recorded in db.calls.
+const db = vi.hoisted(() => {
+  const state = { tables: {} as Record<string, Row[]>, calls: [] as Call[], nextId: 1 };
+
+  function orFilter(expression: string) {
+    const tests = expression.split(/,(?![^(]*\))/).map((part) => {
+      const [column, op, ...rest] = part.split(".");
+      const value = rest.join(".");
+      if (op === "in") {
+        const values = value.replace(/^\(|\)$/g, "").split(",");
+        return (row: Row) => values.includes(String(row[column]));
+      }
+      if (op === "is") return (row: Row) => row[column] == null;
+      return (row: Row) => String(row[column]) === value;
+    });
+    return (row: Row) => tests.some((test) => test(row));
+  }
+
+  function from(table: string) {
+    const call: Call = { table, filters: [] };
+    state.calls.push(call);
+    const tests: Array<(row: Row) => boolean> = [];
+    let limit = Infinity;
+
+    function run() {
+      const rows = (state.tables[table] ??= []);
+      if (call.insert) {
+        const inserted = call.insert.map((values) => ({ id: `row_${state.nextId++}`, ...values }));
+        rows.push(...inserted);
+        return inserted;
+      }
+      const matched = rows.filter((row) => tests.every((test) => test(row))).slice(0, limit);
+      if (call.update) for (const row of matched) Object.assign(row, call.update);
+      if (call.delete) state.tables[table] = rows.filter((row) => !matched.includes(row));
+      return matched;
+    }
+
+    const query = {
+      select: () => query,
+      insert: (values: Row | Row[]) => {
+        call.insert = Array.isArray(values) ? values : [values];
+        return query;
+      },
+      update: (values: Row) => {
+        call.update = values;
+        return query;
+      },
+      delete: () => {
+        call.delete = true;
+        return query;
+      },
+      eq: (column: string, value: unknown) => {
+        call.filters.push([column, value]);
+        tests.push((row) => row[column] === value);
+        return query;
+      },
+      is: (column: string, value: unknown) => {
+        tests.push((row) => (row[column] ?? null) === value);
+        return query;
+      },
+      in: (column: string, values: unknown[]) => {
+        tests.push((row) => values.includes(row[column]));
+        return query;
+      },
+      like: (column: string, pattern: string) => {
+        tests.push((row) => String(row[column] ?? "").startsWith(pattern.replace(/%$/, "")));
+        return query;
+      },
+      gte: (column: string, value: string) => {
+        tests.push((row) => String(row[column]) >= value);
+        return query;
+      },
+      lt: (column: string, value: string) => {
+        tests.push((row) => String(row[column]) < value);
+        return query;
+      },
+      or: (expression: string) => {
+        tests.push(orFilter(expression));
+        return query;
+      },
+      order: () => query,
+      limit: (count: number) => {
+        limit = count;
+        return query;
+      },
+      single: async () => ({ data: run()[0] ?? null, error: null }),
+      maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => unknown) =>
+        Promise.resolve({ data: run(), error: null }).then(resolve),
+    };
+    return query;
+  }
+
+  return { state, from };
+});
+
+// A stand-in for Stripe: lists and retrieves from the intents, payouts and balance transactions set per test.
+const stripe = vi.hoisted(() => ({
+  intents: [] as Stripe.PaymentIntent[],
+  payouts: [] as Stripe.Payout[],
+  payoutTransactions: {} as Record<string, Array<Pick<Stripe.BalanceTransaction, "type" | "net">>>,
+}));
+
+vi.mock("@/lib/supabaseServer", () => ({ supabaseServer: () => ({ from: db.from }) }));
+
+vi.mock("@/lib/server/stripe", () => {
+  const inRange = (created: number, range: { gte: number; lt: number }) => created >= range.gte && created < range.lt;
+  const client = {
+    paymentIntents: {
+      list: (params: { created: { gte: number; lt: number } }) =>
+        stripe.intents.filter((intent) => inRange(intent.created, params.created)),
+      retrieve: async (id: string) => {
+        const intent = stripe.intents.find((row) => row.id === id);
+        if (!intent) throw Object.assign(new Error(`No such payment_intent: '${id}'`), { code: "resource_missing" });
+        return intent;
+      },
+    },
+    payouts: {
+      list: (params: { created: { gte: number; lt: number } }) =>
+        stripe.payouts.filter((payout) => inRange(payout.created, params.created)),
+    },
+    balanceTransactions: {
+      list: (params: { payout: string }) => stripe.payoutTransactions[params.payout] ?? [],
+    },
+  };
+  return { getStripe: () => client, getStripeTerminal: () => client };
+});
+
+// 2025-06-02 15:00 UTC, inside the New York business day of Jun 2.
+const JUNE_2 = Date.UTC(2025, 5, 2, 15) / 1000;
+
+function intent(fields: Partial<Stripe.PaymentIntent> & { refundedCents?: number }): Stripe.PaymentIntent {
+  const { refundedCents = 0, ...rest } = fields;
+  const amount = rest.amount_received ?? 5000;
+  return {
+    id: "pi_1",
+    status: "succeeded",
+    amount,
+    amount_received: amount,
+    created: JUNE_2,
+    metadata: {},
+    latest_charge: { id: "ch_1", amount, amount_refunded: refundedCents, refunded: refundedCents >= amount },
+    ...rest,
+  } as Stripe.PaymentIntent;
+}
+
+function booking(fields: Partial<BookingRow> = {}): BookingRow {
+  return {
+    id: "b1",
+    status: "CONFIRMED",
+    paid: true,
+    total_cents: 5000,
+    tip_cents: 0,
+    payment_intent_id: "pi_1",
+    ...fields,
+  };
+}
+
+function compare(intents: Stripe.PaymentIntent[], bookings: BookingRow[], refundTotals = new Map<string, number>()) {
+  return compareStripeWithDatabase({ intents, bookings, posSales: [], eventRequests: [], ledgerIntents: null, refundTotals });
+}
+
+beforeEach(() => {
+  db.state.tables = {};
+  db.state.calls = [];
+  stripe.intents = [];
+  stripe.payouts = [];
+  stripe.payoutTransactions = {};
+});
+
+describe("compareStripeWithDatabase", () => {
+  it("finds nothing when the booking is paid with the intent Stripe charged", () => {
+    expect(compare([intent({})], [booking()])).toEqual([]);
+  });
+
+  it("flags a booking Stripe charged that isn't marked paid", () => {
+    const issues = compare([intent({})], [booking({ paid: false })]);
+    expect(issues).toMatchObject([{ kind: "UNPAID_IN_DB", source: "BOOKING", recordId: "b1", stripeCents: 5000 }]);
+  });
+
+  it("flags a charge no row points at, unless it was refunded in full", () => {
+    expect(compare([intent({})], [])).toMatchObject([{ kind: "ORPHAN_INTENT", paymentIntentId: "pi_1" }]);
+    expect(compare([intent({ refundedCents: 5000 })], [])).toEqual([]);
+  });
+
+  it("flags card refunds in Stripe that booking_refunds doesn't account for", () => {
+    const refunded = intent({ refundedCents: 2000 });
+    expect(compare([refunded], [booking()], new Map([["b1", 500]]))).toMatchObject([
+      { kind: "REFUND_NOT_RECORDED", recordId: "b1", stripeCents: 2000, dbCents: 500 },
+    ]);
+    expect(compare([refunded], [booking()], new Map([["b1", 2000]]))).toEqual([]);
+  });
+});
+
+describe("comparePayout", () => {
+  const payout = (fields: Partial<Stripe.Payout> = {}) =>
+    ({ id: "po_1", amount: 9420, status: "paid", automatic: true, failure_message: null, ...fields }) as Stripe.Payout;
+
+  it("matches a payout to the net of the charges, refunds and fees it settles", () => {
+    const settled = [
+      { type: "charge" as const, net: 9709 },
+      { type: "refund" as const, net: -289 },
+    ];
+    expect(comparePayout(payout(), settled)).toBeNull();
+  });
+
+  it("flags a payout whose amount differs from what it settles", () => {
+    const issue = comparePayout(payout(), [{ type: "charge", net: 9709 }]);
+    expect(issue).toMatchObject({ kind: "PAYOUT_MISMATCH", payoutId: "po_1", stripeCents: 9420, dbCents: 9709 });
+  });
+
+  it("flags failed payouts and skips ones whose transactions can't be listed", () => {
+    expect(comparePayout(payout({ status: "failed", failure_message: "Account closed" }), null)).toMatchObject({
+      kind: "PAYOUT_FAILED",
+      detail: "Payout po_1 failed: Account closed.",
+    });
+    expect(comparePayout(payout({ status: "pending" }), null)).toBeNull();
+  });
+});
+
+describe("reconciliationRange", () => {
+  it("covers the business days at every location in its own time zone", () => {
+    const range = reconciliationRange("2025-06-02", "2025-06-03", ["America/New_York", "America/Los_Angeles"]);
+    expect(range.startTs).toBe("2025-06-02T04:00:00.000Z"); // midnight in New York
+    expect(range.endTs).toBe("2025-06-04T07:00:00.000Z"); // end of Jun 3 in Los Angeles
+  });
+});
+
+describe("runPaymentReconciliation", () => {
+  it("stores a run with each new mismatch between Stripe and the database", async () => {
+    stripe.intents = [
+      intent({ id: "pi_ok" }),
+      intent({ id: "pi_unpaid", metadata: { booking_id: "b2" } }),
+      intent({ id: "pi_refunded", refundedCents: 2000 }),
+      intent({ id: "pi_orphan", amount_received: 1500 }),
+      intent({ id: "pi_failed", status: "requires_payment_method", amount_received: 0 }),
+      intent({ id: "pi_june_1", created: JUNE_2 - 86400 }),
+    ];
+    stripe.payouts = [
+      { id: "po_1", amount: 9420, status: "paid", automatic: true, created: JUNE_2 } as Stripe.Payout,
+    ];
+    stripe.payoutTransactions = { po_1: [{ type: "charge", net: 9709 }, { type: "payout", net: -9709 }] };
+    db.state.tables = {
+      bookings: [
+        booking({ id: "b1", payment_intent_id: "pi_ok" }),
+        booking({ id: "b2", paid: false, payment_intent_id: "pi_unpaid" }),
+        booking({ id: "b3", payment_intent_id: "pi_refunded" }),
+        booking({ id: "b4", payment_intent_id: "pi_failed" }),
+      ].map((row) => ({ ...row, created_at: "2025-06-02T15:00:00.000Z" })),
+      // Flagged by an earlier run and still open, so it isn't stored again.
+      reconciliation_issues: [{ id: "i0", issue_key: "ORPHAN_INTENT:STRIPE::pi_orphan", status: "OPEN" }],
+    };
+
+    const range = { startDate: "2025-06-02", endDate: "2025-06-02" };
+    const result = await runPaymentReconciliation({ ...range, createdBy: "cron" });
+
+    expect(result.summary).toMatchObject({ intents: 4, chargedCents: 16500, refundedCents: 2000, issuesFound: 5 });
+    expect(result.summary).toMatchObject({ payouts: 1, paidOutCents: 9420, newIssues: 4 });
+    const stored = db.state.tables.reconciliation_issues.filter((row) => row.run_id === result.runId);
+    expect(stored.map((row) => [row.kind, row.record_id, row.payment_intent_id])).toEqual([
+      ["UNPAID_IN_DB", "b2", "pi_unpaid"],
+      ["REFUND_NOT_RECORDED", "b3", "pi_refunded"],
+      ["PAID_IN_DB_ONLY", "b4", "pi_failed"],
+      ["PAYOUT_MISMATCH", null, null],
+    ]);
+    expect(db.state.tables.reconciliation_runs).toMatchObject([{ id: result.runId, status: "COMPLETED" }]);
+  });
+
+  it("marks the run failed when the range has more payments than one run reads", async () => {
+    stripe.intents = Array.from({ length: 2001 }, (_, index) => intent({ id: `pi_${index}` }));
+    await expect(
+      runPaymentReconciliation({ startDate: "2025-06-02", endDate: "2025-06-02", createdBy: "manager" })
+    ).rejects.toThrow("More than 2000 payments in range");
+    expect(db.state.tables.reconciliation_runs).toMatchObject([{ status: "FAILED", created_by: "manager" }]);
+  });
+});
+
+describe("resolveReconciliationIssue", () => {
+  const issue = (fields: Row) => ({
+    id: "i1",
+    kind: "PAID_IN_DB_ONLY",
+    source: "BOOKING",
+    record_id: "b1",
+    payment_intent_id: "pi_1",
+    status: "OPEN",
+    ...fields,
+  });
+
+  it("fixes a booking marked paid without a Stripe payment by marking it unpaid", async () => {
+    stripe.intents = [intent({ status: "canceled", amount_received: 0 })];
+    db.state.tables = {
+      reconciliation_issues: [issue({})],
+      bookings: [{ ...booking(), deposit_cents: 1000, balance_due_cents: 4000 }],
+      booking_payments: [{ booking_id: "b1", amount_cents: 1000, payment_intent_id: "pi_1" }],
+    };
+    await expect(resolveReconciliationIssue("i1", "FIX", "manager")).resolves.toEqual({ ok: true });
+
+    expect(db.state.tables.bookings).toMatchObject([
+      { id: "b1", paid: false, deposit_cents: 0, balance_due_cents: 0, balance_paid_at: null },
+    ]);
+    expect(db.state.tables.booking_payments).toEqual([]);
+    expect(db.state.tables.reconciliation_issues).toMatchObject([{ status: "FIXED", resolved_by: "manager" }]);
+  });
+
+  it("leaves the booking owing what its other payments don't cover", async () => {
+    db.state.tables = {
+      reconciliation_issues: [issue({ payment_intent_id: "pi_gone" })],
+      bookings: [booking()],
+      booking_payments: [{ booking_id: "b1", amount_cents: 2000, payment_intent_id: null }],
+    };
+    await expect(resolveReconciliationIssue("i1", "FIX", "manager")).resolves.toEqual({ ok: true });
+    expect(db.state.tables.bookings).toMatchObject([{ paid: false, balance_due_cents: 3000 }]);
+  });
+
+  it("refuses to unpay a booking whose intent has succeeded since the run", async () => {
+    stripe.intents = [intent({})];
+    db.state.tables = { reconciliation_issues: [issue({})], bookings: [booking()] };
+    await expect(resolveReconciliationIssue("i1", "FIX", "manager")).rejects.toThrow("has succeeded in Stripe");
+    expect(db.state.tables.bookings).toMatchObject([{ paid: true }]);
+    expect(db.state.tables.reconciliation_issues).toMatchObject([{ status: "OPEN" }]);
+  });
+
+  it("refuses to fix a kind that has no automatic fix", async () => {
+    db.state.tables = { reconciliation_issues: [issue({ id: "i2", kind: "AMOUNT_MISMATCH" })] };
+    await expect(resolveReconciliationIssue("i2", "FIX", "manager")).resolves.toMatchObject({ ok: false, status: 400 });
+    expect(db.state.calls.some((call) => call.update)).toBe(false);
+  });
+});
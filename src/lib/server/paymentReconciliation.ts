@@ -0,0 +1,814 @@
+// src/lib/server/paymentReconciliation.ts
+// Compares Stripe with the database for a date range (docs/payment-reconciliation.sql): succeeded payment intents
+// and their refunds against bookings, pos_sales and event_requests, and each of the range's payouts against the
+// charges, refunds and fees it settles. Each mismatch is stored as
+// a reconciliation_issues row; the fixable kinds get a one-click fix from /staff/reconciliation. Runs daily from
+// /api/cron/reconcile-payments and on demand. Set STRIPE_API_BASE to point it at stripe-mock locally.
+
+import type Stripe from "stripe";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { addDaysToDateKey, businessDayUtcRange } from "@/lib/dateTime";
+import { loadLocations } from "@/lib/server/locations";
+import { getStripe, getStripeTerminal } from "@/lib/server/stripe";
+import {
+  depositSplitFromMetadata,
+  eventRequestPaymentFields,
+  isBalancePayment,
+  isSplitPayment,
+  recordBookingPayment,
+} from "@/lib/server/deposits";
+import { applyChargeRefunded } from "@/lib/server/stripePaymentEvents";
+
+export type ReconciliationIssueKind =
+  | "UNPAID_IN_DB" // succeeded in Stripe, the booking or event request isn't marked paid
+  | "MISSING_INTENT_LINK" // paid row found through intent metadata, but payment_intent_id was never stored
+  | "PAID_IN_DB_ONLY" // marked paid with an intent that never succeeded in Stripe
+  | "AMOUNT_MISMATCH"
+  | "REFUND_NOT_RECORDED"
+  | "ORPHAN_INTENT" // succeeded intent that no booking, POS sale or event request points at
+  | "PAYOUT_FAILED"
+  | "PAYOUT_MISMATCH"; // payout amount differs from the net of the balance transactions it settles
+
+export type ReconciliationSource = "BOOKING" | "POS_SALE" | "EVENT_REQUEST" | "STRIPE";
+
+export const FIXABLE_ISSUE_KINDS: ReconciliationIssueKind[] = [
+  "UNPAID_IN_DB",
+  "MISSING_INTENT_LINK",
+  "PAID_IN_DB_ONLY",
+  "REFUND_NOT_RECORDED",
+];
+
+export type IssueInput = {
+  kind: ReconciliationIssueKind;
+  source: ReconciliationSource;
+  recordId?: string | null;
+  paymentIntentId?: string | null;
+  payoutId?: string | null; // payout issues: tells one payout's issue from another's
+  stripeCents?: number | null;
+  dbCents?: number | null;
+  detail: string;
+};
+
+export type BookingRow = {
+  id: string;
+  status: string | null;
+  paid: boolean | null;
+  total_cents: number | null;
+  tip_cents: number | null;
+  payment_intent_id: string | null;
+  deposit_cents?: number | null;
+  balance_payment_intent_id?: string | null;
+};
+export type PosSaleRow = {
+  id: string;
+  total_cents: number | null;
+  tip_cents: number | null;
+  payment_intent_id: string | null;
+  refunded_cents?: number | null;
+};
+export type EventRequestRow = {
+  id: string;
+  payment_status: string | null;
+  payment_intent_id: string | null;
+  refunded_cents?: number | null;
+};
+type QueryError = { message: string } | null;
+
+// Balance transaction fields a payout is checked against.
+export type PayoutTransaction = Pick<Stripe.BalanceTransaction, "type" | "net">;
+
+// Caps one run's Stripe reads; a range needing more should be split.
+const MAX_INTENTS_PER_RUN = 2000;
+const IN_CHUNK = 100;
+
+function formatCents(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function issueKey(issue: IssueInput) {
+  const key = [issue.kind, issue.source, issue.recordId || "", issue.paymentIntentId || ""];
+  return (issue.payoutId ? [...key, issue.payoutId] : key).join(":");
+}
+
+function chunk<T>(items: T[]) {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += IN_CHUNK) chunks.push(items.slice(i, i + IN_CHUNK));
+  return chunks;
+}
+
+/** Stripe accounts to read: terminal payments live on a separate account when STRIPE_TERMINAL_SECRET_KEY is set. */
+function stripeClients() {
+  const clients = [getStripe()];
+  const terminalKey = process.env.STRIPE_TERMINAL_SECRET_KEY;
+  if (terminalKey && terminalKey !== process.env.STRIPE_SECRET_KEY) clients.push(getStripeTerminal());
+  return clients;
+}
+
+function latestCharge(intent: Stripe.PaymentIntent) {
+  return intent.latest_charge && typeof intent.latest_charge === "object" ? intent.latest_charge : null;
+}
+
+async function listSucceededIntents(startTs: string, endTs: string) {
+  const created = {
+    gte: Math.floor(new Date(startTs).getTime() / 1000),
+    lt: Math.floor(new Date(endTs).getTime() / 1000),
+  };
+  const intents: Stripe.PaymentIntent[] = [];
+  for (const stripe of stripeClients()) {
+    for await (const intent of stripe.paymentIntents.list({ created, limit: 100, expand: ["data.latest_charge"] })) {
+      if (intent.status === "succeeded") intents.push(intent);
+      if (intents.length >= MAX_INTENTS_PER_RUN) {
+        throw new Error(`More than ${MAX_INTENTS_PER_RUN} payments in range; reconcile a shorter range.`);
+      }
+    }
+  }
+  return intents;
+}
+
+async function listPayouts(startTs: string, endTs: string) {
+  const created = {
+    gte: Math.floor(new Date(startTs).getTime() / 1000),
+    lt: Math.floor(new Date(endTs).getTime() / 1000),
+  };
+  const payouts: Array<{ stripe: Stripe; payout: Stripe.Payout }> = [];
+  for (const stripe of stripeClients()) {
+    for await (const payout of stripe.payouts.list({ created, limit: 100 })) payouts.push({ stripe, payout });
+  }
+  return payouts;
+}
+
+/** Whether a payout's settled transactions can be listed: automatic payouts once they've left Stripe. */
+function isSettledAutomaticPayout(payout: Stripe.Payout) {
+  return payout.automatic && (payout.status === "paid" || payout.status === "in_transit");
+}
+
+/** Charges, refunds, fees and adjustments the payout settles (the payout's own transaction left out). */
+async function listPayoutTransactions(stripe: Stripe, payout: Stripe.Payout) {
+  const transactions: PayoutTransaction[] = [];
+  for await (const txn of stripe.balanceTransactions.list({ payout: payout.id, limit: 100 })) {
+    if (txn.type !== "payout") transactions.push({ type: txn.type, net: txn.net });
+  }
+  return transactions;
+}
+
+async function retrieveIntent(paymentIntentId: string) {
+  for (const stripe of stripeClients()) {
+    try {
+      return await stripe.paymentIntents.retrieve(paymentIntentId, { expand: ["latest_charge"] });
+    } catch (err) {
+      if ((err as { code?: string } | null)?.code !== "resource_missing") throw err;
+    }
+  }
+  return null;
+}
+
+/** Bookings holding any of these intents (as the payment or the balance payment) or named by intent metadata. */
+async function loadBookings(intentIds: string[], bookingIds: string[]) {
+  const sb = supabaseServer();
+  const rows = new Map<string, BookingRow>();
+  const columns = "id,status,paid,total_cents,tip_cents,payment_intent_id";
+  for (const ids of chunk(intentIds)) {
+    const list = ids.join(",");
+    let data: BookingRow[] | null = null;
+    let error: QueryError = null;
+    ({ data, error } = await sb
+      .from("bookings")
+      .select(`${columns},deposit_cents,balance_payment_intent_id`)
+      .or(`payment_intent_id.in.(${list}),balance_payment_intent_id.in.(${list})`));
+    // Before docs/deposits.sql.
+    if (error && /deposit|balance_/.test(String(error.message || ""))) {
+      ({ data, error } = await sb.from("bookings").select(columns).in("payment_intent_id", ids));
+    }
+    if (error) throw new Error(`Failed to load bookings: ${error.message}`);
+    for (const row of data ?? []) rows.set(row.id, row);
+  }
+  for (const ids of chunk(bookingIds.filter((id) => !rows.has(id)))) {
+    let data: BookingRow[] | null = null;
+    let error: QueryError = null;
+    ({ data, error } = await sb
+      .from("bookings")
+      .select(`${columns},deposit_cents,balance_payment_intent_id`)
+      .in("id", ids));
+    if (error && /deposit|balance_/.test(String(error.message || ""))) {
+      ({ data, error } = await sb.from("bookings").select(columns).in("id", ids));
+    }
+    if (error) throw new Error(`Failed to load bookings: ${error.message}`);
+    for (const row of data ?? []) rows.set(row.id, row);
+  }
+  return Array.from(rows.values());
+}
+
+async function loadPosSales(intentIds: string[]) {
+  const sb = supabaseServer();
+  const rows: PosSaleRow[] = [];
+  for (const ids of chunk(intentIds)) {
+    let data: PosSaleRow[] | null = null;
+    let error: QueryError = null;
+    ({ data, error } = await sb
+      .from("pos_sales")
+      .select("id,total_cents,tip_cents,payment_intent_id,refunded_cents")
+      .in("payment_intent_id", ids));
+    // Before docs/stripe-payment-events.sql.
+    if (error && String(error.message || "").includes("refunded_cents")) {
+      ({ data, error } = await sb
+        .from("pos_sales")
+        .select("id,total_cents,tip_cents,payment_intent_id")
+        .in("payment_intent_id", ids));
+    }
+    if (error) throw new Error(`Failed to load POS sales: ${error.message}`);
+    rows.push(...(data ?? []));
+  }
+  return rows;
+}
+
+async function loadEventRequests(intentIds: string[], requestIds: string[]) {
+  const sb = supabaseServer();
+  const rows = new Map<string, EventRequestRow>();
+  const filters = [
+    ...chunk(intentIds).map((ids) => `payment_intent_id.in.(${ids.join(",")})`),
+    ...chunk(requestIds).map((ids) => `id.in.(${ids.join(",")})`),
+  ];
+  for (const filter of filters) {
+    let data: EventRequestRow[] | null = null;
+    let error: QueryError = null;
+    ({ data, error } = await sb
+      .from("event_requests")
+      .select("id,payment_status,payment_intent_id,refunded_cents")
+      .or(filter));
+    if (error && String(error.message || "").includes("refunded_cents")) {
+      ({ data, error } = await sb.from("event_requests").select("id,payment_status,payment_intent_id").or(filter));
+    }
+    if (error) throw new Error(`Failed to load event requests: ${error.message}`);
+    for (const row of data ?? []) rows.set(row.id, row);
+  }
+  return Array.from(rows.values());
+}
+
+async function loadCardRefundTotals(bookingIds: string[]) {
+  const sb = supabaseServer();
+  const totals = new Map<string, number>();
+  for (const ids of chunk(bookingIds)) {
+    const { data, error } = await sb
+      .from("booking_refunds")
+      .select("booking_id,amount_cents")
+      .eq("method", "CARD")
+      .in("booking_id", ids);
+    if (error) throw new Error(`Failed to load booking refunds: ${error.message}`);
+    for (const row of data ?? []) {
+      totals.set(row.booking_id, (totals.get(row.booking_id) || 0) + Number(row.amount_cents || 0));
+    }
+  }
+  return totals;
+}
+
+/** Intents already in the booking_payments ledger; null before docs/booking-payments.sql, when there's none. */
+async function loadLedgerIntents(intentIds: string[]) {
+  const sb = supabaseServer();
+  const recorded = new Set<string>();
+  for (const ids of chunk(intentIds)) {
+    const { data, error } = await sb.from("booking_payments").select("payment_intent_id").in("payment_intent_id", ids);
+    if (error) {
+      console.error("reconciliation ledger lookup error:", error);
+      return null;
+    }
+    for (const row of data ?? []) recorded.add(String(row.payment_intent_id));
+  }
+  return recorded;
+}
+
+/** Paid bookings created in range whose intent isn't among the range's succeeded intents. */
+async function loadDbOnlyPaidBookings(startTs: string, endTs: string, succeeded: Set<string>) {
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("bookings")
+    .select("id,total_cents,payment_intent_id")
+    .eq("paid", true)
+    .like("payment_intent_id", "pi_%")
+    .gte("created_at", startTs)
+    .lt("created_at", endTs)
+    .limit(5000);
+  if (error) throw new Error(`Failed to load paid bookings: ${error.message}`);
+  return (data ?? []).filter((row) => !succeeded.has(String(row.payment_intent_id)));
+}
+
+/** Card charge the booking row accounts for, or null when the intent carries extras this check can't price. */
+function expectedBookingChargeCents(booking: BookingRow, intent: Stripe.PaymentIntent) {
+  const meta = intent.metadata || {};
+  if (isBalancePayment(meta) || isSplitPayment(meta) || meta.gift_amount || meta.amount_override_cents) return null;
+  if (!meta.card_fee_cents || Number(meta.tab_total_cents || 0) > 0) return null;
+  const split = depositSplitFromMetadata(meta);
+  const bookingCents = split.depositCents ? Number(booking.deposit_cents || 0) : Number(booking.total_cents || 0);
+  return bookingCents + Number(meta.card_fee_cents || 0) + Number(booking.tip_cents || 0);
+}
+
+function compareIntent(
+  intent: Stripe.PaymentIntent,
+  bookings: BookingRow[],
+  posSales: PosSaleRow[],
+  eventRequests: EventRequestRow[],
+  ledgerIntents: Set<string> | null,
+  issues: IssueInput[]
+) {
+  const meta = intent.metadata || {};
+  const charge = latestCharge(intent);
+  const amountRefunded = Number(charge?.amount_refunded || 0);
+  const fullyRefunded = !!charge?.refunded || amountRefunded >= intent.amount_received;
+  const balancePayment = isBalancePayment(meta);
+  // A split share leaves the booking unpaid until the last one, so only the ledger shows it was recorded.
+  const splitShare = isSplitPayment(meta);
+
+  const linkedBookings = bookings.filter(
+    (row) =>
+      row.payment_intent_id === intent.id || row.balance_payment_intent_id === intent.id || row.id === meta.booking_id
+  );
+  const linkedSales = posSales.filter((row) => row.payment_intent_id === intent.id);
+  const linkedRequests = eventRequests.filter(
+    (row) => row.payment_intent_id === intent.id || row.id === meta.event_request_id
+  );
+
+  if (!linkedBookings.length && !linkedSales.length && !linkedRequests.length) {
+    // Finalize refunds in full when the booking can't be created, so those aren't orphans.
+    if (!fullyRefunded) {
+      issues.push({
+        kind: "ORPHAN_INTENT",
+        source: "STRIPE",
+        paymentIntentId: intent.id,
+        stripeCents: intent.amount_received,
+        detail: `${formatCents(intent.amount_received)} charged with no booking, POS sale or event request.`,
+      });
+    }
+    return;
+  }
+
+  for (const booking of linkedBookings) {
+    const linked = booking.payment_intent_id === intent.id || booking.balance_payment_intent_id === intent.id;
+    const depositPaid = !balancePayment && depositSplitFromMetadata(meta).depositCents > 0;
+    const unpaid = splitShare
+      ? !!ledgerIntents && !ledgerIntents.has(intent.id)
+      : depositPaid
+        ? !Number(booking.deposit_cents || 0) && booking.paid !== true
+        : booking.paid !== true;
+    if (unpaid && !fullyRefunded && booking.status !== "CANCELLED") {
+      issues.push({
+        kind: "UNPAID_IN_DB",
+        source: "BOOKING",
+        recordId: booking.id,
+        paymentIntentId: intent.id,
+        stripeCents: intent.amount_received,
+        detail: splitShare
+          ? "Split share succeeded in Stripe but isn't recorded."
+          : depositPaid
+            ? "Deposit succeeded in Stripe but isn't recorded."
+            : "Paid in Stripe, unpaid here.",
+      });
+      continue;
+    }
+    if (!linked && !balancePayment && !splitShare && !booking.payment_intent_id) {
+      issues.push({
+        kind: "MISSING_INTENT_LINK",
+        source: "BOOKING",
+        recordId: booking.id,
+        paymentIntentId: intent.id,
+        stripeCents: intent.amount_received,
+        detail: "Booking is paid but has no payment intent stored.",
+      });
+    }
+    const expected = expectedBookingChargeCents(booking, intent);
+    if (expected != null && expected !== intent.amount_received) {
+      issues.push({
+        kind: "AMOUNT_MISMATCH",
+        source: "BOOKING",
+        recordId: booking.id,
+        paymentIntentId: intent.id,
+        stripeCents: intent.amount_received,
+        dbCents: expected,
+        detail: `Stripe charged ${formatCents(intent.amount_received)}; booking accounts for ${formatCents(expected)}.`,
+      });
+    }
+  }
+
+  if (meta.pos_items) {
+    for (const sale of linkedSales) {
+      const saleCents = Number(sale.total_cents || 0) + Number(sale.tip_cents || 0);
+      if (saleCents !== intent.amount_received) {
+        issues.push({
+          kind: "AMOUNT_MISMATCH",
+          source: "POS_SALE",
+          recordId: sale.id,
+          paymentIntentId: intent.id,
+          stripeCents: intent.amount_received,
+          dbCents: saleCents,
+          detail: `Stripe charged ${formatCents(intent.amount_received)}; sale recorded ${formatCents(saleCents)}.`,
+        });
+      }
+    }
+  }
+  if (amountRefunded > 0) {
+    for (const sale of linkedSales) {
+      const recordedCents = Number(sale.refunded_cents || 0);
+      if (sale.refunded_cents === undefined || recordedCents >= amountRefunded) continue;
+      issues.push({
+        kind: "REFUND_NOT_RECORDED",
+        source: "POS_SALE",
+        recordId: sale.id,
+        paymentIntentId: intent.id,
+        stripeCents: amountRefunded,
+        dbCents: recordedCents,
+        detail: `${formatCents(amountRefunded)} refunded in Stripe; sale shows ${formatCents(recordedCents)}.`,
+      });
+    }
+  }
+
+  for (const request of linkedRequests) {
+    const status = String(request.payment_status || "").toUpperCase();
+    const recorded = balancePayment ? status === "PAID" : ["PAID", "DEPOSIT_PAID", "REFUNDED"].includes(status);
+    if (!recorded && !fullyRefunded) {
+      issues.push({
+        kind: "UNPAID_IN_DB",
+        source: "EVENT_REQUEST",
+        recordId: request.id,
+        paymentIntentId: intent.id,
+        stripeCents: intent.amount_received,
+        detail: `Paid in Stripe; request is ${status || "UNPAID"}.`,
+      });
+    }
+    const recordedCents = Number(request.refunded_cents || 0);
+    if (amountRefunded > 0 && request.refunded_cents !== undefined && recordedCents < amountRefunded) {
+      issues.push({
+        kind: "REFUND_NOT_RECORDED",
+        source: "EVENT_REQUEST",
+        recordId: request.id,
+        paymentIntentId: intent.id,
+        stripeCents: amountRefunded,
+        dbCents: recordedCents,
+        detail: `${formatCents(amountRefunded)} refunded in Stripe; request shows ${formatCents(recordedCents)}.`,
+      });
+    }
+  }
+}
+
+/** Card refunds per booking: Stripe's total across the booking's intents against booking_refunds. */
+function compareBookingRefunds(
+  intents: Stripe.PaymentIntent[],
+  bookings: BookingRow[],
+  recorded: Map<string, number>,
+  issues: IssueInput[]
+) {
+  for (const booking of bookings) {
+    const refunded = intents.filter(
+      (intent) =>
+        (intent.id === booking.payment_intent_id ||
+          intent.id === booking.balance_payment_intent_id ||
+          intent.metadata?.booking_id === booking.id) &&
+        Number(latestCharge(intent)?.amount_refunded || 0) > 0
+    );
+    const stripeCents = refunded.reduce((sum, intent) => sum + Number(latestCharge(intent)?.amount_refunded || 0), 0);
+    const dbCents = recorded.get(booking.id) || 0;
+    if (stripeCents <= dbCents) continue;
+    issues.push({
+      kind: "REFUND_NOT_RECORDED",
+      source: "BOOKING",
+      recordId: booking.id,
+      paymentIntentId: refunded[0]?.id ?? null,
+      stripeCents,
+      dbCents,
+      detail: `${formatCents(stripeCents)} refunded in Stripe; ${formatCents(dbCents)} logged in booking refunds.`,
+    });
+  }
+}
+
+/** Every mismatch between the range's succeeded intents and the rows and refunds recorded for them. */
+export function compareStripeWithDatabase(input: {
+  intents: Stripe.PaymentIntent[];
+  bookings: BookingRow[];
+  posSales: PosSaleRow[];
+  eventRequests: EventRequestRow[];
+  ledgerIntents: Set<string> | null;
+  refundTotals: Map<string, number>;
+}) {
+  const issues: IssueInput[] = [];
+  for (const intent of input.intents) {
+    compareIntent(intent, input.bookings, input.posSales, input.eventRequests, input.ledgerIntents, issues);
+  }
+  compareBookingRefunds(input.intents, input.bookings, input.refundTotals, issues);
+  return issues;
+}
+
+/**
+ * A failed payout, or one whose amount isn't the net of the charges, refunds and fees it settles (null when it
+ * matches). transactions is null for payouts whose transactions can't be listed (manual or not yet sent).
+ */
+export function comparePayout(payout: Stripe.Payout, transactions: PayoutTransaction[] | null): IssueInput | null {
+  if (payout.status === "failed") {
+    return {
+      kind: "PAYOUT_FAILED",
+      source: "STRIPE",
+      payoutId: payout.id,
+      stripeCents: payout.amount,
+      detail: `Payout ${payout.id} failed${payout.failure_message ? `: ${payout.failure_message}` : ""}.`,
+    };
+  }
+  if (!transactions) return null;
+  const settledCents = transactions.reduce((sum, txn) => sum + txn.net, 0);
+  if (settledCents === payout.amount) return null;
+  const charges = transactions.filter((txn) => txn.type === "charge" || txn.type === "payment").length;
+  return {
+    kind: "PAYOUT_MISMATCH",
+    source: "STRIPE",
+    payoutId: payout.id,
+    stripeCents: payout.amount,
+    dbCents: settledCents,
+    detail:
+      `Payout ${payout.id} is ${formatCents(payout.amount)}, but the ${charges} charge(s) and ` +
+      `${transactions.length - charges} other transaction(s) it settles net ${formatCents(settledCents)}.`,
+  };
+}
+
+/** UTC span of startDate..endDate as business days at every location, each in its own time zone. */
+export function reconciliationRange(startDate: string, endDate: string, timeZones: string[]) {
+  const starts = timeZones.map((timeZone) => businessDayUtcRange(startDate, timeZone).startTs);
+  const ends = timeZones.map((timeZone) => businessDayUtcRange(endDate, timeZone).endTs);
+  const byTime = (a: string, b: string) => new Date(a).getTime() - new Date(b).getTime();
+  return { startTs: starts.sort(byTime)[0], endTs: ends.sort(byTime)[ends.length - 1] };
+}
+
+/**
+ * Reconciles startDate..endDate (inclusive business days at each location, in its own time zone) and stores the
+ * run and its new issues. Issues already open or ignored from an earlier run are not repeated.
+ */
+export async function runPaymentReconciliation(params: { startDate: string; endDate: string; createdBy: string }) {
+  const sb = supabaseServer();
+  const timeZones = Array.from(new Set((await loadLocations()).map((location) => location.timezone)));
+  const { startTs, endTs } = reconciliationRange(params.startDate, params.endDate, timeZones);
+
+  const { data: run, error: runErr } = await sb
+    .from("reconciliation_runs")
+    .insert({ start_date: params.startDate, end_date: params.endDate, status: "RUNNING", created_by: params.createdBy })
+    .select("id")
+    .single();
+  if (runErr || !run) {
+    console.error("reconciliation run create error:", runErr);
+    throw new Error("Failed to start reconciliation run");
+  }
+
+  try {
+    const intents = await listSucceededIntents(startTs, endTs);
+    const intentIds = intents.map((intent) => intent.id);
+    const uuidMeta = (key: string) =>
+      intents
+        .map((intent) => String(intent.metadata?.[key] || ""))
+        .filter((id) => /^[0-9a-f-]{36}$/i.test(id));
+    const bookings = await loadBookings(intentIds, uuidMeta("booking_id"));
+    const posSales = await loadPosSales(intentIds);
+    const eventRequests = await loadEventRequests(intentIds, uuidMeta("event_request_id"));
+    const refundTotals = await loadCardRefundTotals(bookings.map((row) => row.id));
+
+    const ledgerIntents = await loadLedgerIntents(intentIds);
+    const issues = compareStripeWithDatabase({ intents, bookings, posSales, eventRequests, ledgerIntents, refundTotals });
+
+    const dbOnly = await loadDbOnlyPaidBookings(startTs, endTs, new Set(intentIds));
+    for (const row of dbOnly) {
+      const intent = await retrieveIntent(String(row.payment_intent_id));
+      if (intent?.status === "succeeded") continue;
+      issues.push({
+        kind: "PAID_IN_DB_ONLY",
+        source: "BOOKING",
+        recordId: row.id,
+        paymentIntentId: row.payment_intent_id,
+        dbCents: Number(row.total_cents || 0),
+        detail: intent
+          ? `Marked paid, but the intent is ${intent.status}.`
+          : "Marked paid, but the intent isn't in Stripe.",
+      });
+    }
+
+    const payouts = await listPayouts(startTs, endTs);
+    for (const { stripe, payout } of payouts) {
+      const transactions = isSettledAutomaticPayout(payout) ? await listPayoutTransactions(stripe, payout) : null;
+      const issue = comparePayout(payout, transactions);
+      if (issue) issues.push(issue);
+    }
+
+    const keyed = issues.map((issue) => ({ ...issue, key: issueKey(issue) }));
+    const known = new Set<string>();
+    for (const keys of chunk(keyed.map((issue) => issue.key))) {
+      const { data: existing, error } = await sb
+        .from("reconciliation_issues")
+        .select("issue_key")
+        .in("status", ["OPEN", "IGNORED"])
+        .in("issue_key", keys);
+      if (error) throw new Error(`Failed to load earlier issues: ${error.message}`);
+      for (const row of existing ?? []) known.add(row.issue_key);
+    }
+    const fresh = keyed.filter(
+      (issue, index) => !known.has(issue.key) && keyed.findIndex((other) => other.key === issue.key) === index
+    );
+    if (fresh.length) {
+      const { error } = await sb.from("reconciliation_issues").insert(
+        fresh.map((issue) => ({
+          run_id: run.id,
+          issue_key: issue.key,
+          kind: issue.kind,
+          source: issue.source,
+          record_id: issue.recordId ?? null,
+          payment_intent_id: issue.paymentIntentId ?? null,
+          stripe_cents: issue.stripeCents ?? null,
+          db_cents: issue.dbCents ?? null,
+          detail: issue.detail,
+          status: "OPEN",
+        }))
+      );
+      if (error) throw new Error(`Failed to save issues: ${error.message}`);
+    }
+
+    const summary = {
+      intents: intents.length,
+      chargedCents: intents.reduce((sum, intent) => sum + intent.amount_received, 0),
+      refundedCents: intents.reduce((sum, intent) => sum + Number(latestCharge(intent)?.amount_refunded || 0), 0),
+      payouts: payouts.length,
+      paidOutCents: payouts
+        .filter(({ payout }) => payout.status === "paid")
+        .reduce((sum, { payout }) => sum + payout.amount, 0),
+      issuesFound: keyed.length,
+      newIssues: fresh.length,
+    };
+    await sb
+      .from("reconciliation_runs")
+      .update({ status: "COMPLETED", finished_at: new Date().toISOString(), summary })
+      .eq("id", run.id);
+    return { runId: run.id as string, summary };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await sb
+      .from("reconciliation_runs")
+      .update({ status: "FAILED", finished_at: new Date().toISOString(), error_message: message })
+      .eq("id", run.id);
+    throw err;
+  }
+}
+
+/** Daily run: the last few days, so late webhooks and refunds are caught before they age out of the window. */
+export async function runScheduledReconciliation(todayKey: string) {
+  return runPaymentReconciliation({
+    startDate: addDaysToDateKey(todayKey, -3),
+    endDate: addDaysToDateKey(todayKey, -1),
+    createdBy: "cron",
+  });
+}
+
+/** Recent runs and their issues for /staff/reconciliation; open issues only unless includeResolved. */
+export async function loadReconciliation(options: { includeResolved?: boolean } = {}) {
+  const sb = supabaseServer();
+  const { data: runs, error: runsErr } = await sb
+    .from("reconciliation_runs")
+    .select("id,start_date,end_date,status,summary,error_message,created_by,started_at,finished_at")
+    .order("started_at", { ascending: false })
+    .limit(10);
+  if (runsErr) throw new Error(`Failed to load reconciliation runs: ${runsErr.message}`);
+
+  let query = sb
+    .from("reconciliation_issues")
+    .select("id,run_id,kind,source,record_id,payment_intent_id,stripe_cents,db_cents,detail,status,resolved_at,resolved_by,created_at")
+    .order("created_at", { ascending: false })
+    .limit(500);
+  if (!options.includeResolved) query = query.eq("status", "OPEN");
+  const { data: issues, error: issuesErr } = await query;
+  if (issuesErr) throw new Error(`Failed to load reconciliation issues: ${issuesErr.message}`);
+  return {
+    runs: runs ?? [],
+    issues: (issues ?? []).map((issue) => ({
+      ...issue,
+      fixable: FIXABLE_ISSUE_KINDS.includes(issue.kind as ReconciliationIssueKind) && !!issue.record_id,
+    })),
+  };
+}
+
+type IssueRow = { kind: string; source: string; record_id: string; payment_intent_id: string | null };
+
+async function succeededIntentFor(issue: IssueRow) {
+  const intent = issue.payment_intent_id ? await retrieveIntent(issue.payment_intent_id) : null;
+  if (!intent || intent.status !== "succeeded") throw new Error("Payment intent is no longer succeeded in Stripe");
+  return intent;
+}
+
+/**
+ * Undoes a payment that never happened: the intent's ledger row goes, and the booking owes its total less the
+ * payments it still has (none = unpaid with no deposit or balance). Refused if the intent has succeeded since.
+ */
+async function unpayBooking(issue: IssueRow) {
+  const intent = issue.payment_intent_id ? await retrieveIntent(issue.payment_intent_id) : null;
+  if (intent?.status === "succeeded") throw new Error("Payment intent has succeeded in Stripe since the run");
+
+  const sb = supabaseServer();
+  const { data: booking, error } = await sb
+    .from("bookings")
+    .select("id,total_cents")
+    .eq("id", issue.record_id)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load booking: ${error.message}`);
+  if (!booking) throw new Error("Booking not found");
+
+  let paidCents = 0;
+  const { data: payments, error: paymentsErr } = await sb
+    .from("booking_payments")
+    .select("amount_cents,payment_intent_id")
+    .eq("booking_id", issue.record_id);
+  // Before docs/booking-payments.sql there is no ledger, so nothing else was paid.
+  if (paymentsErr) console.error("reconciliation ledger lookup error:", paymentsErr);
+  for (const row of payments ?? []) {
+    if (row.payment_intent_id !== issue.payment_intent_id) paidCents += Number(row.amount_cents || 0);
+  }
+  if (issue.payment_intent_id && !paymentsErr) {
+    const { error: deleteErr } = await sb
+      .from("booking_payments")
+      .delete()
+      .eq("booking_id", issue.record_id)
+      .eq("payment_intent_id", issue.payment_intent_id);
+    if (deleteErr) throw new Error(`Failed to update booking payments: ${deleteErr.message}`);
+  }
+
+  const totalCents = Number(booking.total_cents || 0);
+  const owedCents = Math.max(0, totalCents - paidCents);
+  const fields = !paidCents
+    ? { paid: false, deposit_cents: 0, balance_due_cents: 0, balance_paid_at: null }
+    : { paid: owedCents === 0, balance_due_cents: owedCents, ...(owedCents ? { balance_paid_at: null } : {}) };
+  let { error: updateErr } = await sb.from("bookings").update(fields).eq("id", issue.record_id);
+  // Before docs/deposits.sql.
+  if (updateErr && /deposit|balance_/.test(String(updateErr.message || ""))) {
+    ({ error: updateErr } = await sb.from("bookings").update({ paid: false }).eq("id", issue.record_id));
+  }
+  if (updateErr) throw new Error(`Failed to update booking: ${updateErr.message}`);
+}
+
+/** Marks a booking paid (or its deposit/balance recorded) from Stripe, or unpaid when Stripe has no payment. */
+async function fixBookingIssue(issue: IssueRow) {
+  if (issue.kind === "PAID_IN_DB_ONLY") {
+    await unpayBooking(issue);
+    return;
+  }
+  const sb = supabaseServer();
+  const intent = await succeededIntentFor(issue);
+  if (!isBalancePayment(intent.metadata) && !isSplitPayment(intent.metadata)) {
+    const { error } = await sb
+      .from("bookings")
+      .update({ payment_intent_id: intent.id })
+      .eq("id", issue.record_id)
+      .is("payment_intent_id", null);
+    if (error) throw new Error(`Failed to link payment intent: ${error.message}`);
+  }
+  if (issue.kind === "UNPAID_IN_DB") await recordBookingPayment(issue.record_id, intent);
+}
+
+async function fixEventRequestIssue(issue: IssueRow) {
+  const intent = await succeededIntentFor(issue);
+  const sb = supabaseServer();
+  const { error } = await sb
+    .from("event_requests")
+    .update({
+      ...eventRequestPaymentFields(intent.metadata),
+      ...(isBalancePayment(intent.metadata) ? {} : { payment_intent_id: intent.id }),
+    })
+    .eq("id", issue.record_id);
+  if (error) throw new Error(`Failed to update event request: ${error.message}`);
+}
+
+/** Same path as the charge.refunded webhook, so the ledger, refund totals and cancellations match a live refund. */
+async function fixRefundIssue(issue: IssueRow) {
+  const charge = latestCharge(await succeededIntentFor(issue));
+  if (!charge) throw new Error("Payment intent has no charge");
+  await applyChargeRefunded(charge);
+}
+
+/** Applies the one-click fix for an open issue, or marks it ignored, and records who did it. */
+export async function resolveReconciliationIssue(issueId: string, action: "FIX" | "IGNORE", staffId: string) {
+  const sb = supabaseServer();
+  const { data: issue, error } = await sb
+    .from("reconciliation_issues")
+    .select("id,kind,source,record_id,payment_intent_id,status")
+    .eq("id", issueId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load issue: ${error.message}`);
+  if (!issue) return { ok: false as const, status: 404, error: "Issue not found" };
+  if (issue.status !== "OPEN") return { ok: false as const, status: 409, error: `Issue is already ${issue.status}` };
+
+  if (action === "FIX") {
+    if (!FIXABLE_ISSUE_KINDS.includes(issue.kind as ReconciliationIssueKind) || !issue.record_id) {
+      return { ok: false as const, status: 400, error: "This issue has no automatic fix" };
+    }
+    if (issue.kind === "REFUND_NOT_RECORDED") await fixRefundIssue(issue);
+    else if (issue.source === "BOOKING") await fixBookingIssue(issue);
+    else if (issue.source === "EVENT_REQUEST") await fixEventRequestIssue(issue);
+    else return { ok: false as const, status: 400, error: "This issue has no automatic fix" };
+  }
+
+  const { error: updateErr } = await sb
+    .from("reconciliation_issues")
+    .update({
+      status: action === "FIX" ? "FIXED" : "IGNORED",
+      resolved_at: new Date().toISOString(),
+      resolved_by: staffId,
+    })
+    .eq("id", issueId);
+  if (updateErr) throw new Error(`Failed to update issue: ${updateErr.message}`);
+  return { ok: true as const };
+}
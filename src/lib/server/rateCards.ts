@@ -0,0 +1,58 @@
+import { supabaseServer } from "@/lib/supabaseServer";
+import { DEFAULT_RATE_CARD, normalizeRateCardConfig, type RateCard } from "@/lib/rateCard";
+import { scopeToLocation } from "@/lib/server/locations";
+import type { Location } from "@/lib/locations";
+
+export const RATE_CARD_COLUMNS = "id,version,label,config,effective_at,created_by,created_at";
+
+export type RateCardRow = {
+  id: string;
+  version: number;
+  label: string | null;
+  config: unknown;
+  effective_at: string | null;
+  created_by?: string | null;
+  created_at?: string | null;
+};
+
+export function mapRateCardRow(row: RateCardRow): RateCard {
+  return {
+    id: row.id,
+    version: Number(row.version) || 0,
+    label: row.label ?? null,
+    effectiveAt: row.effective_at ?? null,
+    config: normalizeRateCardConfig(row.config),
+  };
+}
+
+/**
+ * Latest published version that is already in effect at the location; built-in defaults
+ * when none exist. Versions are numbered globally, so a version still identifies one card.
+ */
+export async function loadActiveRateCard(location?: Location | null): Promise<RateCard> {
+  const sb = supabaseServer();
+  const { data, error } = await scopeToLocation(sb.from("rate_cards").select(RATE_CARD_COLUMNS), location)
+    .lte("effective_at", new Date().toISOString())
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("rate card query error:", error);
+    return DEFAULT_RATE_CARD;
+  }
+  return data ? mapRateCardRow(data as RateCardRow) : DEFAULT_RATE_CARD;
+}
+
+/** The card a booking was sold under (bookings.rate_card_version); 0/null means built-in defaults. */
+export async function loadRateCardVersion(version: number | null | undefined): Promise<RateCard> {
+  if (!version) return DEFAULT_RATE_CARD;
+  const sb = supabaseServer();
+  const { data, error } = await sb.from("rate_cards").select(RATE_CARD_COLUMNS).eq("version", version).maybeSingle();
+
+  if (error) {
+    console.error("rate card version query error:", error);
+    return DEFAULT_RATE_CARD;
+  }
+  return data ? mapRateCardRow(data as RateCardRow) : DEFAULT_RATE_CARD;
+}
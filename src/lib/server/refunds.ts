@@ -0,0 +1,559 @@
+// src/lib/server/refunds.ts
+// Booking refunds, shared by the staff refund button and the change-request queue: back to the card through
+// Stripe, or as store credit (a gift certificate linked to the booking). Each one is logged in booking_refunds;
+// a bill split across cards (docs/booking-payments.sql) is refunded card by card, a row per Stripe refund.
+// Staff without the admin role need a manager's staff ID and PIN to refund. Amounts are capped by the
+// booking_policies refund rules unless staff give an override reason; the decision is kept on the booking.
+// The amount is claimed in the ledger before Stripe is called (claim_booking_refund in docs/refund-policy.sql),
+// and each Stripe refund carries an idempotency key, so concurrent or retried requests can't refund twice.
+
+import type Stripe from "stripe";
+import { createClient } from "@supabase/supabase-js";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { collectedCents } from "@/lib/deposits";
+import { pinToPassword } from "@/lib/pinAuth";
+import { getStripe } from "@/lib/server/stripe";
+import { offerWaitlistForReleasedBooking } from "@/lib/server/waitlist";
+import { loadBookingPolicy, refundAllowance, type RefundAllowance } from "@/lib/server/bookingPolicies";
+import { issueGiftCertificate, type IssuedGiftCertificate } from "@/lib/server/giftCertificates";
+import { sendGiftCertificateEmail } from "@/lib/server/mailer";
+
+function getSupabaseAnon() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !key) throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY");
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+export async function verifyManagerPin(staffIdRaw: string, pin: string) {
+  const staffId = staffIdRaw.trim().toLowerCase();
+  if (!staffId || pin.length !== 4) {
+    return { ok: false, error: "Missing manager credentials" };
+  }
+
+  const admin = supabaseServer();
+  const { data: staff, error: staffErr } = await admin
+    .from("staff_users")
+    .select("auth_email,role,active")
+    .eq("staff_id", staffId)
+    .single();
+
+  if (staffErr || !staff || !staff.active || staff.role !== "admin") {
+    return { ok: false, error: "Invalid manager credentials" };
+  }
+
+  const sb = getSupabaseAnon();
+  const { error: authErr } = await sb.auth.signInWithPassword({
+    email: staff.auth_email,
+    password: pinToPassword(pin, staffId),
+  });
+
+  if (authErr) {
+    return { ok: false, error: "Invalid manager credentials" };
+  }
+
+  return { ok: true };
+}
+
+export type RefundMethod = "CARD" | "CREDIT";
+
+type RefundResult =
+  | {
+      ok: true;
+      method: RefundMethod;
+      refunds: Stripe.Refund[];
+      certificate: IssuedGiftCertificate | null;
+      refundCents: number;
+      allowance: RefundAllowance;
+    }
+  | { ok: false; error: string; status: number; allowance?: RefundAllowance };
+
+export function normalizeRefundMethod(value: unknown): RefundMethod {
+  return String(value || "").toUpperCase() === "CREDIT" ? "CREDIT" : "CARD";
+}
+
+function formatCents(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+type RefundBookingRow = {
+  id: string;
+  paid?: boolean | null;
+  status?: string | null;
+  start_ts: string;
+  total_cents: number | null;
+  payment_intent_id?: string | null;
+  deposit_cents?: number | null;
+  balance_due_cents?: number | null;
+};
+
+/** Card and store-credit refunds already logged for a booking, Stripe dashboard refunds included. */
+async function refundedCents(bookingId: string) {
+  const sb = supabaseServer();
+  const { data, error } = await sb.from("booking_refunds").select("amount_cents").eq("booking_id", bookingId);
+  if (error) {
+    console.error("booking refunds lookup error:", error);
+    throw new Error("Failed to load earlier refunds");
+  }
+  return (data || []).reduce((sum, row) => sum + (Number(row.amount_cents) || 0), 0);
+}
+
+/** What the refund policy still allows back on a booking cancelled at `at` (defaults to now). */
+export async function loadRefundQuote(bookingId: string, at?: string | null) {
+  const sb = supabaseServer();
+  let { data: booking, error } = await sb
+    .from("bookings")
+    .select("id,start_ts,total_cents,paid,balance_due_cents")
+    .eq("id", bookingId)
+    .maybeSingle();
+  // Before docs/deposits.sql there is no balance to leave out.
+  if (error && String(error.message || "").includes("balance_due")) {
+    ({ data: booking, error } = await sb
+      .from("bookings")
+      .select("id,start_ts,total_cents,paid")
+      .eq("id", bookingId)
+      .maybeSingle());
+  }
+  if (error) {
+    console.error("refund quote booking error:", error);
+    throw new Error("Failed to load booking");
+  }
+  if (!booking) return null;
+  const policy = await loadBookingPolicy();
+  const collected = { ...booking, total_cents: collectedCents(booking) };
+  const allowance = refundAllowance(collected, policy, at || new Date());
+  const refunded = await refundedCents(bookingId);
+  return {
+    refundPolicy: policy.refundPolicy,
+    ...allowance,
+    allowedCents: Math.max(0, Math.min(allowance.totalCents, allowance.allowedCents) - refunded),
+    refundedCents: refunded,
+  };
+}
+
+type CardTender = { paymentIntentId: string; amountCents: number | null };
+
+/**
+ * Card payments a refund can go back to, oldest first: the booking's CARD rows in booking_payments, each
+ * with its share of the booking. Bookings paid before the ledger fall back to their payment intent, or to
+ * every intent Stripe has tagged with the booking (all shares of a split), capped by what Stripe holds.
+ */
+async function cardTenders(bookingId: string, paymentIntentId: string): Promise<CardTender[]> {
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("booking_payments")
+    .select("payment_intent_id,amount_cents")
+    .eq("booking_id", bookingId)
+    .eq("tender", "CARD")
+    .order("created_at", { ascending: true });
+  if (error) console.error("booking card payments lookup error:", error);
+  const tenders = (data ?? [])
+    .filter((row) => row.payment_intent_id)
+    .map((row) => ({ paymentIntentId: String(row.payment_intent_id), amountCents: Number(row.amount_cents) || 0 }));
+  if (tenders.length) return tenders;
+  if (paymentIntentId) return [{ paymentIntentId, amountCents: null }];
+
+  try {
+    const search = await getStripe().paymentIntents.search({
+      query: `metadata['booking_id']:'${bookingId}' AND status:'succeeded'`,
+      limit: 100,
+    });
+    return search.data
+      .sort((a, b) => a.created - b.created)
+      .map((intent) => ({ paymentIntentId: intent.id, amountCents: null }));
+  } catch (searchErr) {
+    console.error("payment intent search error:", searchErr);
+    return [];
+  }
+}
+
+/**
+ * Refunds amountCents across the booking's card payments, each up to its share less what Stripe has
+ * already refunded on it. Nothing is refunded unless the cards can cover the whole amount; a Stripe error
+ * part way through comes back with the refunds already made so they still get logged. requestKey names
+ * the refund request: Stripe hands a retry of it the same refund per card instead of a second one.
+ */
+async function refundToCard(
+  bookingId: string,
+  paymentIntentId: string,
+  amountCents: number,
+  metadata: Stripe.MetadataParam,
+  requestKey: string
+): Promise<{ refunds: Stripe.Refund[]; error?: string }> {
+  const stripe = getStripe();
+  const tenders = await cardTenders(bookingId, paymentIntentId);
+  if (!tenders.length) return { refunds: [], error: "Missing payment intent for refund" };
+
+  const plan: Array<{ paymentIntentId: string; amountCents: number }> = [];
+  let leftCents = amountCents;
+  for (const tender of tenders) {
+    if (leftCents <= 0) break;
+    const intent = await stripe.paymentIntents.retrieve(tender.paymentIntentId, { expand: ["latest_charge"] });
+    const charge = typeof intent.latest_charge === "object" ? intent.latest_charge : null;
+    if (!charge) continue;
+    const refundedOnCharge = Number(charge.amount_refunded || 0);
+    const chargeLeftCents = Number(charge.amount || 0) - refundedOnCharge;
+    const shareLeftCents = tender.amountCents == null ? chargeLeftCents : tender.amountCents - refundedOnCharge;
+    const partCents = Math.min(leftCents, chargeLeftCents, shareLeftCents);
+    if (partCents <= 0) continue;
+    plan.push({ paymentIntentId: tender.paymentIntentId, amountCents: partCents });
+    leftCents -= partCents;
+  }
+  if (leftCents > 0) {
+    return {
+      refunds: [],
+      error:
+        `Only ${formatCents(amountCents - leftCents)} can go back to the card(s) used on this booking. ` +
+        "Refund the rest as store credit.",
+    };
+  }
+
+  const refunds: Stripe.Refund[] = [];
+  for (const part of plan) {
+    try {
+      refunds.push(
+        await stripe.refunds.create(
+          { payment_intent: part.paymentIntentId, amount: part.amountCents, metadata },
+          { idempotencyKey: `booking-refund:${bookingId}:${part.paymentIntentId}:${requestKey}` }
+        )
+      );
+    } catch (refundErr) {
+      console.error("card refund error:", refundErr);
+      const message = refundErr instanceof Error ? refundErr.message : String(refundErr);
+      return { refunds, error: `Stripe refund failed: ${message}` };
+    }
+  }
+  return { refunds };
+}
+
+type RefundClaim = {
+  bookingId: string;
+  amountCents: number;
+  capCents: number;
+  method: RefundMethod;
+  reason: string;
+  overrideReason: string | null;
+  staffId: string;
+};
+
+/** Logs a pending refund of amountCents if the booking's refunds stay within capCents; null when they wouldn't. */
+async function claimRefund(claim: RefundClaim) {
+  const sb = supabaseServer();
+  const { data, error } = await sb.rpc("claim_booking_refund", {
+    p_booking_id: claim.bookingId,
+    p_amount_cents: claim.amountCents,
+    p_cap_cents: claim.capCents,
+    p_method: claim.method,
+    p_reason: claim.reason,
+    p_override_reason: claim.overrideReason,
+    p_created_by: claim.staffId,
+  });
+  if (error) {
+    console.error("booking refund claim error:", error);
+    throw new Error("Failed to check earlier refunds");
+  }
+  return data ? String(data) : null;
+}
+
+async function releaseRefundClaim(claimId: string) {
+  const { error } = await supabaseServer().from("booking_refunds").delete().eq("id", claimId).eq("pending", true);
+  if (error) console.error("booking refund claim release error:", error);
+}
+
+type RefundLedgerRow = { amount_cents: number; stripe_refund_id: string | null; gift_certificate_id: string | null };
+
+/**
+ * Turns the pending claim into the refunds actually made: the claim row becomes the first, the rest get rows of
+ * their own. Stripe refunds already logged (a retried request) are skipped; if none are new the claim goes.
+ */
+async function recordRefunds(claimId: string, bookingId: string, rows: RefundLedgerRow[]) {
+  const sb = supabaseServer();
+  const refundIds = rows.map((row) => row.stripe_refund_id).filter((refundId): refundId is string => !!refundId);
+  const { data: logged, error } = refundIds.length
+    ? await sb.from("booking_refunds").select("stripe_refund_id").in("stripe_refund_id", refundIds)
+    : { data: [], error: null };
+  if (error) console.error("booking refund ledger lookup error:", error);
+  const loggedIds = new Set((logged ?? []).map((row) => String(row.stripe_refund_id)));
+  const [first, ...rest] = rows.filter((row) => !row.stripe_refund_id || !loggedIds.has(row.stripe_refund_id));
+  if (!first) {
+    await releaseRefundClaim(claimId);
+    return;
+  }
+
+  const { data: claim, error: claimErr } = await sb
+    .from("booking_refunds")
+    .update({ ...first, pending: false })
+    .eq("id", claimId)
+    .select("method,reason,override_reason,created_by")
+    .single();
+  if (claimErr || !claim) {
+    console.error("booking refund log error:", claimErr);
+    return;
+  }
+  if (!rest.length) return;
+  const { error: insertErr } = await sb
+    .from("booking_refunds")
+    .insert(rest.map((row) => ({ booking_id: bookingId, ...claim, ...row })));
+  if (insertErr) console.error("booking refund log error:", insertErr);
+}
+
+/** Issues the refund as a gift certificate for the booking's customer and emails them the code. */
+async function refundToCredit(bookingId: string, amountCents: number, staffId: string) {
+  const sb = supabaseServer();
+  const { data: booking, error } = await sb
+    .from("bookings")
+    .select("customer_id,customer_email,customer_name")
+    .eq("id", bookingId)
+    .single();
+  if (error || !booking) {
+    console.error("refund credit booking lookup error:", error);
+    throw new Error("Failed to load booking customer");
+  }
+
+  let customerId = booking.customer_id ? String(booking.customer_id) : "";
+  const customerEmail = String(booking.customer_email || "").trim().toLowerCase();
+  if (!customerId && customerEmail) {
+    const { data: customer } = await sb.from("customers").select("id").eq("email", customerEmail).maybeSingle();
+    customerId = customer?.id ? String(customer.id) : "";
+  }
+  if (!customerId) return null;
+
+  const certificate = await issueGiftCertificate({
+    customerId,
+    amountCents,
+    createdBy: staffId,
+    sourceBookingId: bookingId,
+  });
+
+  try {
+    await sendGiftCertificateEmail({
+      customerEmail: customerEmail || certificate.customers?.email || "",
+      customerName: booking.customer_name || certificate.customers?.full_name || null,
+      code: certificate.code,
+      balanceCents: certificate.balance_cents,
+      expiresAt: certificate.expires_at,
+      subject: "Axe Quacks Store Credit",
+    });
+  } catch (emailErr) {
+    console.error("refund credit email error:", emailErr);
+  }
+
+  return certificate;
+}
+
+/**
+ * Refunds a paid booking to the card (default) or as store credit, and logs it. Without amountCents the
+ * policy amount not yet refunded is refunded; going over it needs overrideReason, and nothing goes past
+ * what was collected less earlier refunds. cancelledAt (default now) decides which side of the cancel
+ * window the request falls on. A refund that completes a full refund also cancels the booking and offers
+ * its slot to the waitlist. requestKey identifies the request for Stripe, so a retried request (the same
+ * key) gets its card refunds back instead of new ones.
+ */
+export async function refundBooking(params: {
+  bookingId: string;
+  amountCents?: number;
+  reason: string;
+  staffId: string;
+  overrideReason?: string | null;
+  cancelledAt?: string | null;
+  method?: RefundMethod;
+  requestKey?: string | null;
+}): Promise<RefundResult> {
+  const { bookingId: id, reason } = params;
+  const sb = supabaseServer();
+  let booking: RefundBookingRow | null = null;
+  let bookingErr: { message?: string } | null = null;
+
+  ({ data: booking, error: bookingErr } = await sb
+    .from("bookings")
+    .select("id,paid,status,start_ts,total_cents,payment_intent_id,deposit_cents,balance_due_cents")
+    .eq("id", id)
+    .single());
+
+  let bookingErrMessage = String(bookingErr?.message || "").toLowerCase();
+  if (bookingErr && (bookingErrMessage.includes("deposit") || bookingErrMessage.includes("balance_due"))) {
+    ({ data: booking, error: bookingErr } = await sb
+      .from("bookings")
+      .select("id,paid,status,start_ts,total_cents,payment_intent_id")
+      .eq("id", id)
+      .single());
+    bookingErrMessage = String(bookingErr?.message || "").toLowerCase();
+  }
+  if (bookingErr && bookingErrMessage.includes("payment_intent")) {
+    ({ data: booking, error: bookingErr } = await sb
+      .from("bookings")
+      .select("id,paid,status,start_ts,total_cents")
+      .eq("id", id)
+      .single());
+    bookingErrMessage = String(bookingErr?.message || "").toLowerCase();
+  }
+  if (bookingErr && bookingErrMessage.includes("paid")) {
+    ({ data: booking, error: bookingErr } = await sb
+      .from("bookings")
+      .select("id,status,start_ts,total_cents")
+      .eq("id", id)
+      .single());
+    bookingErrMessage = String(bookingErr?.message || "").toLowerCase();
+  }
+
+  if (bookingErr || !booking) {
+    const errorMessage = bookingErr?.message ? String(bookingErr.message) : "Booking not found";
+    return { ok: false, error: errorMessage, status: 404 };
+  }
+
+  // A booking paid by deposit or in parts is still unpaid, but what was collected can be refunded.
+  const partPaid =
+    booking.paid === false && (Number(booking.deposit_cents || 0) > 0 || Number(booking.balance_due_cents || 0) > 0);
+  if (booking.paid === false && !partPaid) {
+    return { ok: false, error: "Booking is not marked paid", status: 400 };
+  }
+
+  // Earlier refunds come off both caps, so repeated refunds (or store credit) can't pay out more than was collected.
+  const alreadyRefundedCents = await refundedCents(id);
+
+  const totalCents = collectedCents(booking);
+  const policy = await loadBookingPolicy();
+  const allowance = refundAllowance({ ...booking, total_cents: totalCents }, policy, params.cancelledAt || new Date());
+  const remainingCents = Math.max(0, totalCents - alreadyRefundedCents);
+  const allowedCents = Math.max(0, Math.min(totalCents, allowance.allowedCents) - alreadyRefundedCents);
+  if (remainingCents <= 0) {
+    return { ok: false, error: "Booking has already been fully refunded", status: 409, allowance };
+  }
+
+  const overrideReason = String(params.overrideReason || "").trim();
+  const amountCents = Number(params.amountCents || 0);
+  const refundCents = amountCents > 0 ? amountCents : allowedCents;
+  if (refundCents > allowedCents && !overrideReason) {
+    return {
+      ok: false,
+      error:
+        `Policy allows ${formatCents(allowedCents)} more (${allowance.rule}; ` +
+        `${formatCents(alreadyRefundedCents)} already refunded). Give an override reason to refund more.`,
+      status: 409,
+      allowance,
+    };
+  }
+  if (!Number.isFinite(refundCents) || refundCents <= 0) {
+    return { ok: false, error: "Refund amount must be greater than 0", status: 400, allowance };
+  }
+  if (refundCents > remainingCents) {
+    return {
+      ok: false,
+      error: `Refund amount exceeds the ${formatCents(remainingCents)} left to refund`,
+      status: 400,
+      allowance,
+    };
+  }
+  const overridden = refundCents > allowedCents;
+
+  const method = params.method ?? "CARD";
+  // Claimed under the booking's row lock, so a refund running at the same moment is counted against the cap.
+  const claimId = await claimRefund({
+    bookingId: id,
+    amountCents: refundCents,
+    capCents: overridden ? totalCents : Math.min(totalCents, allowance.allowedCents),
+    method,
+    reason,
+    overrideReason: overridden ? overrideReason : null,
+    staffId: params.staffId,
+  });
+  if (!claimId) {
+    return {
+      ok: false,
+      error: "Another refund on this booking just went through. Reload to see what's left to refund.",
+      status: 409,
+      allowance,
+    };
+  }
+
+  let refunds: Stripe.Refund[] = [];
+  let certificate: IssuedGiftCertificate | null = null;
+  let cardError = "";
+  try {
+    if (method === "CREDIT") {
+      certificate = await refundToCredit(id, refundCents, params.staffId);
+    } else {
+      const metadata = {
+        booking_id: id,
+        reason,
+        requested_by: params.staffId,
+        ...(overridden ? { policy_override: overrideReason } : {}),
+      };
+      const requestKey = String(params.requestKey || "").trim() || claimId;
+      const card = await refundToCard(id, String(booking.payment_intent_id || ""), refundCents, metadata, requestKey);
+      refunds = card.refunds;
+      cardError = card.error || "";
+    }
+  } catch (err) {
+    await releaseRefundClaim(claimId);
+    throw err;
+  }
+  if (method === "CREDIT" && !certificate) {
+    await releaseRefundClaim(claimId);
+    return { ok: false, error: "Booking has no customer record to hold store credit", status: 400, allowance };
+  }
+  if (method === "CARD" && !refunds.length) {
+    await releaseRefundClaim(claimId);
+    return { ok: false, error: cardError, status: 400, allowance };
+  }
+
+  // A split bill is refunded card by card: one booking_refunds row per Stripe refund.
+  const ledgerRows = refunds.length
+    ? refunds.map((refund) => ({ amount_cents: refund.amount, stripe_refund_id: refund.id, gift_certificate_id: null }))
+    : [{ amount_cents: refundCents, stripe_refund_id: null, gift_certificate_id: certificate?.id ?? null }];
+  await recordRefunds(claimId, id, ledgerRows);
+  if (cardError) {
+    const refundedNow = refunds.reduce((sum, refund) => sum + refund.amount, 0);
+    return {
+      ok: false,
+      error: `${formatCents(refundedNow)} of ${formatCents(refundCents)} was refunded. ${cardError}`,
+      status: 502,
+      allowance,
+    };
+  }
+  const refundIds = refunds.map((refund) => refund.id);
+
+  const decision = {
+    method,
+    refund_ids: refundIds,
+    gift_certificate_id: certificate?.id ?? null,
+    refund_cents: refundCents,
+    allowed_cents: allowedCents,
+    already_refunded_cents: alreadyRefundedCents,
+    policy_rule: allowance.rule,
+    override_reason: overridden ? overrideReason : null,
+    decided_by: params.staffId,
+    decided_at: new Date().toISOString(),
+  };
+  const { error: decisionErr } = await sb.from("bookings").update({ refund_decision: decision }).eq("id", id);
+  if (decisionErr) {
+    console.error("refund decision save error:", decisionErr);
+  }
+
+  if (alreadyRefundedCents + refundCents >= totalCents) {
+    await sb
+      .from("bookings")
+      .update({ paid: false, status: "CANCELLED", ...(partPaid ? { balance_due_cents: 0 } : {}) })
+      .eq("id", id);
+    if (booking.status !== "CANCELLED") {
+      await offerWaitlistForReleasedBooking(id);
+    }
+  }
+
+  await sb.from("booking_audit_logs").insert({
+    booking_id: id,
+    staff_id: params.staffId,
+    action: "refund",
+    details: {
+      method,
+      refund_ids: refundIds,
+      gift_certificate_code: certificate?.code ?? null,
+      amount_cents: refundCents,
+      reason,
+      allowed_cents: allowedCents,
+      policy_override: overridden ? overrideReason : null,
+    },
+  });
+
+  return { ok: true, method, refunds, certificate, refundCents, allowance };
+}
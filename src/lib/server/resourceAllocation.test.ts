@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { bestFitResources, type AllocatableResource, type BusyInterval } from "@/lib/server/resourceAllocation";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const lanes: AllocatableResource[] = [1, 2, 3, 4].map((n) => ({
+  id: `L${n}`,
+  name: `Lane ${n}`,
+  type: "AXE",
+  sortOrder: n,
+}));
+
+function busy(resourceId: string, startHour: number, endHour: number): BusyInterval {
+  return { resourceId, startMs: startHour * HOUR_MS, endMs: endHour * HOUR_MS };
+}
+
+// Every pick below is for 10:00-11:00.
+function pick(intervals: BusyInterval[], count: number) {
+  return bestFitResources(lanes, intervals, count, 10 * HOUR_MS, 11 * HOUR_MS);
+}
+
+describe("bestFitResources", () => {
+  it("needs nothing for a count of zero and gives up when too few are free", () => {
+    expect(pick([], 0)).toEqual([]);
+    expect(pick([busy("L1", 9, 12), busy("L2", 10, 11), busy("L3", 10.5, 13)], 2)).toBeNull();
+  });
+
+  it("seats a party side by side over a tighter but split pick", () => {
+    expect(pick([busy("L2", 9, 12)], 2)).toEqual(["L3", "L4"]);
+  });
+
+  it("splits a party only when no side-by-side block is free", () => {
+    expect(pick([busy("L2", 9, 12), busy("L4", 9, 12)], 2)).toEqual(["L1", "L3"]);
+  });
+
+  it("hugs a neighbouring reservation so open time stays in one run", () => {
+    expect(pick([busy("L3", 8, 10)], 1)).toEqual(["L3"]);
+  });
+
+  it("avoids leaving a gap under an hour next to another reservation", () => {
+    expect(pick([busy("L1", 8, 9.5)], 1)).toEqual(["L2"]);
+  });
+
+  it("prefers blocks aligned on their size when otherwise tied", () => {
+    expect(pick([busy("L1", 9, 12)], 2)).toEqual(["L3", "L4"]);
+  });
+
+  it("takes the lowest-numbered resources when everything is equal", () => {
+    expect(pick([], 2)).toEqual(["L1", "L2"]);
+  });
+});
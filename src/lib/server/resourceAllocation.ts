@@ -0,0 +1,473 @@
+// src/lib/server/resourceAllocation.ts
+// Best-fit lane/bay allocation (see docs/resource-allocation.sql). A party needing several resources of one
+// type is seated side by side in sort order where possible, and among equal candidates the pick that sits
+// closest to the day's other reservations wins, so open time stays in sellable runs instead of slivers.
+// Bookings use it as they reserve; staff can re-run it over a day's future, unpinned reservations. Resource
+// downtime and resource-targeted blackouts (loadOutOfServiceIntervals) count as busy time throughout.
+
+import { supabaseServer } from "@/lib/supabaseServer";
+import type { Location } from "@/lib/locations";
+import { scopeToLocation } from "@/lib/server/locations";
+import { businessDayUtcRange, dateKeyInTimeZone } from "@/lib/dateTime";
+import { loadOutOfServiceIntervals } from "@/lib/server/resourceDowntime";
+
+export type AllocatableResource = { id: string; name: string; type: string; sortOrder: number };
+export type BusyInterval = { resourceId: string; startMs: number; endMs: number };
+
+export type AllocationMove = {
+  reservationId: string;
+  bookingId: string;
+  customerName: string | null;
+  type: string;
+  startTs: string;
+  endTs: string;
+  fromResourceId: string;
+  fromName: string;
+  toResourceId: string;
+  toName: string;
+};
+
+// splitParties: multi-resource parties not seated side by side. slivers: open gaps under an hour between
+// two reservations on the same resource.
+export type AllocationScore = { splitParties: number; slivers: number };
+
+export type AllocationPlan = {
+  dateKey: string;
+  planKey: string; // identifies the moves, so applying can confirm nothing changed since the preview
+  moves: AllocationMove[];
+  unplaced: string[]; // booking ids that couldn't be seated without a conflict
+  movable: number;
+  pinned: number;
+  before: AllocationScore;
+  after: AllocationScore;
+};
+
+// Open time shorter than this between two reservations rarely sells.
+const SLIVER_MS = 60 * 60 * 1000;
+// Costs are in minutes of open time next to the pick. A side with no neighbouring reservation costs as much as
+// a long gap, which keeps untouched resources free for larger parties; leaving a sliver costs the most.
+const OPEN_SIDE_COST = 240;
+const SLIVER_COST = 600;
+
+function sideCost(gapMs: number | null) {
+  if (gapMs == null) return OPEN_SIDE_COST;
+  if (gapMs > 0 && gapMs < SLIVER_MS) return SLIVER_COST;
+  return Math.min(OPEN_SIDE_COST, gapMs / 60000);
+}
+
+function overlapsBusy(busy: BusyInterval[], resourceId: string, startMs: number, endMs: number) {
+  return busy.some(
+    (interval) => interval.resourceId === resourceId && interval.startMs < endMs && interval.endMs > startMs
+  );
+}
+
+/** How much a reservation over [startMs, endMs) fragments this resource's day; lower is better. */
+function resourceCost(busy: BusyInterval[], resourceId: string, startMs: number, endMs: number) {
+  let before: number | null = null;
+  let after: number | null = null;
+  for (const interval of busy) {
+    if (interval.resourceId !== resourceId) continue;
+    if (interval.endMs <= startMs) {
+      const gap = startMs - interval.endMs;
+      if (before == null || gap < before) before = gap;
+    } else if (interval.startMs >= endMs) {
+      const gap = interval.startMs - endMs;
+      if (after == null || gap < after) after = gap;
+    }
+  }
+  return sideCost(before) + sideCost(after);
+}
+
+function rankBefore(a: number[], b: number[]) {
+  const idx = a.findIndex((value, i) => value !== b[i]);
+  return idx !== -1 && a[idx] < b[idx];
+}
+
+/**
+ * Picks `count` of `resources` (in sort order) free over [startMs, endMs): a side-by-side block when one
+ * exists, otherwise the tightest spread. Ties go to the lower fragmentation cost, then to blocks aligned on
+ * their size (lane pairs 1–2 / 3–4 share a ball return), then to the lowest-numbered resources.
+ * Returns null when fewer than `count` are free.
+ */
+export function bestFitResources(
+  resources: AllocatableResource[],
+  busy: BusyInterval[],
+  count: number,
+  startMs: number,
+  endMs: number
+): string[] | null {
+  if (count <= 0) return [];
+  const free = resources
+    .map((resource, index) => ({ id: resource.id, index }))
+    .filter((resource) => !overlapsBusy(busy, resource.id, startMs, endMs))
+    .map((resource) => ({ ...resource, cost: resourceCost(busy, resource.id, startMs, endMs) }));
+  if (free.length < count) return null;
+
+  let best: { ids: string[]; rank: number[] } | null = null;
+  for (let i = 0; i + count <= free.length; i += 1) {
+    const group = free.slice(i, i + count);
+    const spread = group[count - 1].index - group[0].index + 1 - count;
+    const cost = group.reduce((sum, resource) => sum + resource.cost, 0);
+    const aligned = group[0].index % count === 0 ? 0 : 1;
+    const rank = [spread, cost, aligned];
+    if (!best || rankBefore(rank, best.rank)) best = { ids: group.map((resource) => resource.id), rank };
+  }
+  return best?.ids ?? null;
+}
+
+/** Active, non-party resources at a location in sort order; party areas are picked by name, not fitted. */
+async function loadAllocatableResources(location: Location, type?: string): Promise<AllocatableResource[]> {
+  const sb = supabaseServer();
+  let query = sb.from("resources").select("id,name,type,sort_order,active").or("active.eq.true,active.is.null");
+  query = type ? query.eq("type", type) : query.neq("type", "PARTY");
+  const { data, error } = await scopeToLocation(query, location)
+    .order("sort_order", { ascending: true })
+    .order("id", { ascending: true });
+  if (error) throw new Error(error.message || "Failed to load resources");
+  return (data || []).map((row) => ({
+    id: String(row.id),
+    name: String(row.name || ""),
+    type: String(row.type || ""),
+    sortOrder: Number(row.sort_order) || 0,
+  }));
+}
+
+/**
+ * Best-fit resources of one type for a new reservation, judged against the whole local day so gaps to
+ * neighbouring reservations count. `exceptBookingId` leaves that booking's own reservations out (re-seating).
+ */
+export async function allocateResources(params: {
+  location: Location;
+  type: string;
+  count: number;
+  startTsUtc: string;
+  endTsUtc: string;
+  exceptBookingId?: string;
+}) {
+  const { location, type, count, startTsUtc, endTsUtc } = params;
+  if (count <= 0) return [];
+  const resources = await loadAllocatableResources(location, type);
+  if (resources.length < count) return null;
+
+  const startMs = new Date(startTsUtc).getTime();
+  const endMs = new Date(endTsUtc).getTime();
+  const day = businessDayUtcRange(dateKeyInTimeZone(startTsUtc, location.timezone), location.timezone);
+  const rangeStart = new Date(Math.min(startMs, new Date(day.startTs).getTime())).toISOString();
+  const rangeEnd = new Date(Math.max(endMs, new Date(day.endTs).getTime())).toISOString();
+
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("resource_reservations")
+    .select("booking_id,resource_id,start_ts,end_ts,bookings(status)")
+    .in("resource_id", resources.map((resource) => resource.id))
+    .gt("end_ts", rangeStart)
+    .lt("start_ts", rangeEnd);
+  if (error) throw new Error(error.message || `Failed to check ${type} availability`);
+
+  const busy: BusyInterval[] = (data || [])
+    .filter((row) => {
+      const booking = row?.bookings as { status?: string } | null;
+      if (booking == null || booking.status === "CANCELLED") return false;
+      return !params.exceptBookingId || row.booking_id !== params.exceptBookingId;
+    })
+    .map((row) => ({
+      resourceId: String(row.resource_id),
+      startMs: new Date(row.start_ts).getTime(),
+      endMs: new Date(row.end_ts).getTime(),
+    }));
+  busy.push(
+    ...(await loadOutOfServiceIntervals(location, resources.map((resource) => resource.id), rangeStart, rangeEnd))
+  );
+  return bestFitResources(resources, busy, count, startMs, endMs);
+}
+
+/**
+ * Moves reservations to new resources in one locked transaction (move_resource_reservations in
+ * docs/booking-reservations.sql). Returns false, with nothing moved, when a target doesn't fit the reservation
+ * (another type or location, inactive) or isn't free: taken in the meantime, out of service or held for a checkout.
+ * `pin` marks the moved reservations as placed by hand.
+ */
+export async function moveReservations(
+  location: Location,
+  moves: Array<[reservationId: string, resourceId: string]>,
+  options: { pin?: boolean } = {}
+) {
+  if (!moves.length) return true;
+  const sb = supabaseServer();
+  const { error } = await sb.rpc("move_resource_reservations", {
+    p_location_id: location.id,
+    p_moves: moves.map(([reservationId, resourceId]) => ({ reservation_id: reservationId, resource_id: resourceId })),
+    p_pin: options.pin ?? false,
+  });
+  if (error?.code === "23P01") return false;
+  if (error) throw new Error(error.message || "Failed to move reservations");
+  return true;
+}
+
+export type RehomeResult = {
+  moved: Array<{ bookingId: string; reservationId: string; toResourceId: string }>;
+  stranded: string[]; // booking ids left on the resource
+};
+
+/**
+ * Moves live reservations off a resource for a window (it has just gone out of service). Each one's party is
+ * re-fitted as a whole first so it stays side by side, then just the one reservation; whatever still doesn't fit
+ * stays put and comes back as stranded. Party areas are never moved, since customers chose them by name.
+ */
+export async function rehomeReservations(params: {
+  location: Location;
+  resourceId: string;
+  startTsUtc: string;
+  endTsUtc: string;
+}): Promise<RehomeResult> {
+  const { location, resourceId, startTsUtc, endTsUtc } = params;
+  const sb = supabaseServer();
+  const { data: resource, error: resErr } = await sb.from("resources").select("type").eq("id", resourceId).single();
+  if (resErr || !resource) throw new Error(resErr?.message || "Resource not found");
+  const type = String(resource.type || "");
+
+  const { data, error } = await sb
+    .from("resource_reservations")
+    .select("id,booking_id,start_ts,end_ts,bookings(status)")
+    .eq("resource_id", resourceId)
+    .gt("end_ts", startTsUtc)
+    .lt("start_ts", endTsUtc);
+  if (error) throw new Error(error.message || "Failed to load reservations");
+
+  const result: RehomeResult = { moved: [], stranded: [] };
+  for (const row of data || []) {
+    const booking = row?.bookings as { status?: string } | null;
+    if (booking == null || booking.status === "CANCELLED") continue;
+    const bookingId = String(row.booking_id);
+    if (type === "PARTY") {
+      result.stranded.push(bookingId);
+      continue;
+    }
+
+    const { data: siblings, error: siblingErr } = await sb
+      .from("resource_reservations")
+      .select("id,resource_id,resources(type)")
+      .eq("booking_id", bookingId)
+      .eq("start_ts", row.start_ts)
+      .eq("end_ts", row.end_ts);
+    if (siblingErr) throw new Error(siblingErr.message || "Failed to load reservations");
+    const group = (siblings || [])
+      .filter((sibling) => (sibling.resources as { type?: string } | null)?.type === type)
+      .map((sibling) => ({ id: String(sibling.id), resourceId: String(sibling.resource_id) }));
+
+    const window = { location, type, startTsUtc: row.start_ts, endTsUtc: row.end_ts };
+    const partyFit = await allocateResources({ ...window, count: group.length, exceptBookingId: bookingId });
+    let changes = partyFit ? pairReservations(group, partyFit) : [];
+    if (changes.length && !(await moveReservations(location, changes))) changes = [];
+    if (!changes.length) {
+      const single = await allocateResources({ ...window, count: 1 });
+      changes = single?.length ? [[String(row.id), single[0]]] : [];
+      if (changes.length && !(await moveReservations(location, changes))) changes = [];
+    }
+    if (!changes.length) {
+      result.stranded.push(bookingId);
+      continue;
+    }
+    for (const [reservationId, toResourceId] of changes) result.moved.push({ bookingId, reservationId, toResourceId });
+  }
+  return result;
+}
+
+/**
+ * Matches a group's reservations to its new resource ids: reservations already on one of them stay, the rest
+ * take the remaining ids in order. Returns only the [reservationId, resourceId] pairs that change.
+ */
+function pairReservations(group: Array<{ id: string; resourceId: string }>, resourceIds: string[]) {
+  const target = new Set(resourceIds);
+  const staying = new Set(group.filter((row) => target.has(row.resourceId)).map((row) => row.resourceId));
+  const open = resourceIds.filter((id) => !staying.has(id));
+  const changes: Array<[string, string]> = [];
+  for (const row of group) {
+    if (staying.has(row.resourceId)) continue;
+    const next = open.shift();
+    if (next) changes.push([row.id, next]);
+  }
+  return changes;
+}
+
+type DayReservation = {
+  id: string;
+  bookingId: string;
+  customerName: string | null;
+  resourceId: string;
+  type: string;
+  startTs: string;
+  endTs: string;
+  startMs: number;
+  endMs: number;
+  movable: boolean;
+};
+
+const groupKey = (row: DayReservation) => `${row.bookingId}|${row.type}|${row.startMs}|${row.endMs}`;
+
+function scoreAllocation(
+  reservations: DayReservation[],
+  resourceFor: (row: DayReservation) => string,
+  positions: Map<string, number>
+): AllocationScore {
+  const groups = new Map<string, number[]>();
+  const byResource = new Map<string, Array<[number, number]>>();
+  for (const row of reservations) {
+    const resourceId = resourceFor(row);
+    const key = groupKey(row);
+    groups.set(key, [...(groups.get(key) ?? []), positions.get(resourceId) ?? 0]);
+    byResource.set(resourceId, [...(byResource.get(resourceId) ?? []), [row.startMs, row.endMs]]);
+  }
+
+  let splitParties = 0;
+  for (const group of groups.values()) {
+    if (group.length > 1 && Math.max(...group) - Math.min(...group) + 1 !== group.length) splitParties += 1;
+  }
+  let slivers = 0;
+  for (const intervals of byResource.values()) {
+    intervals.sort((a, b) => a[0] - b[0]);
+    for (let i = 1; i < intervals.length; i += 1) {
+      const gap = intervals[i][0] - intervals[i - 1][1];
+      if (gap > 0 && gap < SLIVER_MS) slivers += 1;
+    }
+  }
+  return { splitParties, slivers };
+}
+
+/**
+ * Re-plans a day's seating: reservations that haven't started and weren't placed by hand are re-fitted
+ * (earliest first, larger parties first at the same time) around everything else. The plan only carries moves
+ * when it seats fewer parties apart, or the same number with fewer slivers; otherwise it comes back empty.
+ */
+export async function planDayAllocation(
+  location: Location,
+  dateKey: string,
+  now = new Date()
+): Promise<AllocationPlan> {
+  const resources = await loadAllocatableResources(location);
+  const empty: AllocationScore = { splitParties: 0, slivers: 0 };
+  if (!resources.length) {
+    return { dateKey, planKey: "", moves: [], unplaced: [], movable: 0, pinned: 0, before: empty, after: empty };
+  }
+
+  const resourceById = new Map(resources.map((resource) => [resource.id, resource]));
+  const byType = new Map<string, AllocatableResource[]>();
+  const positions = new Map<string, number>();
+  for (const resource of resources) {
+    const list = byType.get(resource.type) ?? [];
+    positions.set(resource.id, list.length);
+    list.push(resource);
+    byType.set(resource.type, list);
+  }
+
+  const day = businessDayUtcRange(dateKey, location.timezone);
+  const dayStartMs = new Date(day.startTs).getTime();
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("resource_reservations")
+    .select("id,booking_id,resource_id,start_ts,end_ts,pinned,bookings(status,customer_name)")
+    .in("resource_id", resources.map((resource) => resource.id))
+    .gt("end_ts", day.startTs)
+    .lt("start_ts", day.endTs);
+  if (error) throw new Error(error.message || "Failed to load reservations");
+
+  let pinned = 0;
+  const reservations: DayReservation[] = [];
+  for (const row of data || []) {
+    const booking = row?.bookings as { status?: string; customer_name?: string | null } | null;
+    if (booking == null || booking.status === "CANCELLED") continue;
+    const resourceId = String(row.resource_id);
+    const startMs = new Date(row.start_ts).getTime();
+    if (row.pinned) pinned += 1;
+    reservations.push({
+      id: String(row.id),
+      bookingId: String(row.booking_id),
+      customerName: booking.customer_name ?? null,
+      resourceId,
+      type: resourceById.get(resourceId)?.type ?? "",
+      startTs: row.start_ts,
+      endTs: row.end_ts,
+      startMs,
+      endMs: new Date(row.end_ts).getTime(),
+      // Started, carried over from the previous day, or placed by staff: stays where it is.
+      movable: !row.pinned && startMs > now.getTime() && startMs >= dayStartMs,
+    });
+  }
+
+  const busy: BusyInterval[] = reservations
+    .filter((row) => !row.movable)
+    .map((row) => ({ resourceId: row.resourceId, startMs: row.startMs, endMs: row.endMs }));
+  busy.push(
+    ...(await loadOutOfServiceIntervals(location, resources.map((resource) => resource.id), day.startTs, day.endTs))
+  );
+  const groups = new Map<string, DayReservation[]>();
+  for (const row of reservations) {
+    if (!row.movable) continue;
+    groups.set(groupKey(row), [...(groups.get(groupKey(row)) ?? []), row]);
+  }
+  const ordered = Array.from(groups.values()).sort(
+    (a, b) => a[0].startMs - b[0].startMs || b.length - a.length || b[0].endMs - a[0].endMs
+  );
+
+  const assigned = new Map<string, string>();
+  const unplaced = new Set<string>();
+  for (const group of ordered) {
+    const { startMs, endMs, type, bookingId } = group[0];
+    let ids = bestFitResources(byType.get(type) ?? [], busy, group.length, startMs, endMs);
+    if (!ids) {
+      // Keep the current seats; if even those conflict, the day is already double-booked here.
+      ids = group.map((row) => row.resourceId);
+      if (ids.some((id) => overlapsBusy(busy, id, startMs, endMs))) unplaced.add(bookingId);
+    }
+    for (const row of group) assigned.set(row.id, row.resourceId);
+    for (const [reservationId, resourceId] of pairReservations(group, ids)) assigned.set(reservationId, resourceId);
+    for (const row of group) busy.push({ resourceId: assigned.get(row.id) ?? row.resourceId, startMs, endMs });
+  }
+
+  const before = scoreAllocation(reservations, (row) => row.resourceId, positions);
+  const after = scoreAllocation(reservations, (row) => assigned.get(row.id) ?? row.resourceId, positions);
+  const improves =
+    after.splitParties < before.splitParties ||
+    (after.splitParties === before.splitParties && after.slivers < before.slivers);
+
+  const moves: AllocationMove[] =
+    improves && !unplaced.size
+      ? reservations
+          .filter((row) => assigned.has(row.id) && assigned.get(row.id) !== row.resourceId)
+          .sort((a, b) => a.startMs - b.startMs || a.bookingId.localeCompare(b.bookingId))
+          .map((row) => {
+            const toResourceId = assigned.get(row.id) as string;
+            return {
+              reservationId: row.id,
+              bookingId: row.bookingId,
+              customerName: row.customerName,
+              type: row.type,
+              startTs: row.startTs,
+              endTs: row.endTs,
+              fromResourceId: row.resourceId,
+              fromName: resourceById.get(row.resourceId)?.name ?? "",
+              toResourceId,
+              toName: resourceById.get(toResourceId)?.name ?? "",
+            };
+          })
+      : [];
+
+  return {
+    dateKey,
+    planKey: moves.map((move) => `${move.reservationId}:${move.toResourceId}`).join(","),
+    moves,
+    unplaced: Array.from(unplaced),
+    movable: reservations.filter((row) => row.movable).length,
+    pinned,
+    before,
+    after: moves.length ? after : before,
+  };
+}
+
+/**
+ * Applies a plan's moves together through moveReservations, so swaps between bookings never collide midway.
+ * Returns false, with nothing moved, when one of the new seats was taken after the plan was made.
+ */
+export async function applyAllocationMoves(location: Location, moves: AllocationMove[]) {
+  return moveReservations(location, moves.map((move) => [move.reservationId, move.toResourceId]));
+}
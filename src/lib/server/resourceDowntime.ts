@@ -0,0 +1,128 @@
+// src/lib/server/resourceDowntime.ts
+// Per-resource out-of-service windows (see docs/resource-downtime.sql). Availability, checkout holds and
+// resource allocation read them (with resource-targeted blackout rules, via loadOutOfServiceIntervals) as busy
+// time; creating one re-homes the bookings already on that resource (rehomeReservations in resourceAllocation).
+
+import { supabaseServer } from "@/lib/supabaseServer";
+import type { Location } from "@/lib/locations";
+import { scopeToLocation } from "@/lib/server/locations";
+import { loadResourceBlackoutIntervals } from "@/lib/server/blackouts";
+import { businessDayUtcRange } from "@/lib/dateTime";
+
+export const DOWNTIME_COLUMNS = "id,resource_id,start_ts,end_ts,reason,created_by,created_at";
+
+export type ResourceDowntime = {
+  id: string;
+  resource_id: string;
+  start_ts: string;
+  end_ts: string;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+};
+
+/**
+ * Downtime on any of these resources overlapping [startTs, endTs), as busy intervals. A failed read is logged and
+ * treated as no downtime so it can't stop bookings altogether.
+ */
+export async function loadDowntimeIntervals(resourceIds: string[], startTs: string, endTs: string) {
+  if (!resourceIds.length) return [];
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("resource_downtime")
+    .select("resource_id,start_ts,end_ts")
+    .in("resource_id", resourceIds)
+    .gt("end_ts", startTs)
+    .lt("start_ts", endTs);
+  if (error) {
+    console.error("resource downtime load error:", error);
+    return [];
+  }
+  return (data || []).map((row) => ({
+    resourceId: String(row.resource_id),
+    startMs: new Date(row.start_ts).getTime(),
+    endMs: new Date(row.end_ts).getTime(),
+  }));
+}
+
+/** Downtime plus resource-targeted blackout rules over [startTs, endTs): every window these resources can't be used. */
+export async function loadOutOfServiceIntervals(
+  location: Location,
+  resourceIds: string[],
+  startTs: string,
+  endTs: string
+) {
+  const [downtime, blackouts] = await Promise.all([
+    loadDowntimeIntervals(resourceIds, startTs, endTs),
+    loadResourceBlackoutIntervals(resourceIds, startTs, endTs, location.timezone),
+  ]);
+  return [...downtime, ...blackouts];
+}
+
+/** A location's downtime touching one local day, earliest first, for the staff timeline. */
+export async function loadDayDowntime(location: Location, dateKey: string): Promise<ResourceDowntime[]> {
+  const sb = supabaseServer();
+  const { data: resources, error: resErr } = await scopeToLocation(sb.from("resources").select("id"), location);
+  if (resErr) throw new Error(resErr.message || "Failed to load resources");
+  const resourceIds = (resources || []).map((row) => String(row.id));
+  if (!resourceIds.length) return [];
+
+  const { startTs, endTs } = businessDayUtcRange(dateKey, location.timezone);
+  const { data, error } = await sb
+    .from("resource_downtime")
+    .select(DOWNTIME_COLUMNS)
+    .in("resource_id", resourceIds)
+    .gt("end_ts", startTs)
+    .lt("start_ts", endTs)
+    .order("start_ts", { ascending: true });
+  if (error) throw new Error(error.message || "Failed to load downtime");
+  return (data || []) as ResourceDowntime[];
+}
+
+/** The resource when it belongs to the location (same rules as scopeToLocation), else null. */
+export async function findLocationResource(location: Location, resourceId: string) {
+  const sb = supabaseServer();
+  const { data, error } = await scopeToLocation(
+    sb.from("resources").select("id,name,type").eq("id", resourceId),
+    location
+  ).maybeSingle();
+  if (error) throw new Error(error.message || "Failed to load resource");
+  return data ? { id: String(data.id), name: String(data.name || ""), type: String(data.type || "") } : null;
+}
+
+export async function createResourceDowntime(params: {
+  resourceId: string;
+  startTs: string;
+  endTs: string;
+  reason: string;
+  staffId?: string | null;
+}): Promise<ResourceDowntime> {
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("resource_downtime")
+    .insert({
+      resource_id: params.resourceId,
+      start_ts: params.startTs,
+      end_ts: params.endTs,
+      reason: params.reason,
+      created_by: params.staffId || null,
+    })
+    .select(DOWNTIME_COLUMNS)
+    .single();
+  if (error) throw new Error(error.message || "Failed to save downtime");
+  return data as ResourceDowntime;
+}
+
+export async function findResourceDowntime(id: string) {
+  const sb = supabaseServer();
+  const { data, error } = await sb.from("resource_downtime").select(DOWNTIME_COLUMNS).eq("id", id).maybeSingle();
+  if (error) throw new Error(error.message || "Failed to load downtime");
+  return (data as ResourceDowntime | null) ?? null;
+}
+
+/** Ends downtime early by removing it. Bookings moved off the resource stay where they were moved. */
+export async function deleteResourceDowntime(id: string) {
+  const sb = supabaseServer();
+  const { error } = await sb.from("resource_downtime").delete().eq("id", id);
+  if (error) throw new Error(error.message || "Failed to remove downtime");
+}
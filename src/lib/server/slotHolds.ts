@@ -0,0 +1,237 @@
+// src/lib/server/slotHolds.ts
+// Short-lived checkout holds (see docs/slot-holds.sql). Starting Stripe Checkout reserves what the
+// booking needs until the session expires; /api/availability treats held resources as busy. Payment
+// converts the hold into the booking, and abandoned or expired holds are released by the sweeper.
+
+import { supabaseServer } from "@/lib/supabaseServer";
+import { defaultLocation, findLocation, type Location } from "@/lib/locations";
+import { loadLocations, scopeToLocation } from "@/lib/server/locations";
+import { loadOutOfServiceIntervals } from "@/lib/server/resourceDowntime";
+
+export type SlotHoldStatus = "HELD" | "CONVERTED" | "RELEASED" | "EXPIRED";
+
+// One held need: `count` units of a resource type, or a specific resource (party areas) when resource_id is set.
+export type HeldResource = { type: string; count: number; start_ts: string; end_ts: string; resource_id?: string };
+
+export type ResourceHold = { token: string; resources: HeldResource[] };
+
+/** Minutes a customer has to finish checkout; Stripe Checkout sessions can't expire sooner than 30 minutes. */
+export function slotHoldMinutes() {
+  const minutes = Math.round(Number(process.env.CHECKOUT_HOLD_MINUTES));
+  return Number.isFinite(minutes) && minutes >= 30 ? minutes : 30;
+}
+
+// Holds outlive their checkout session slightly so a payment made right at the deadline still finds one.
+const HOLD_GRACE_MS = 5 * 60 * 1000;
+
+function overlaps(startMs: number, endMs: number, resource: HeldResource) {
+  return startMs < new Date(resource.end_ts).getTime() && endMs > new Date(resource.start_ts).getTime();
+}
+
+/** Units of a resource type held over [startMs, endMs); the holder's own token doesn't count. */
+export function heldResourceCount(
+  holds: ResourceHold[],
+  type: string,
+  startMs: number,
+  endMs: number,
+  exceptToken?: string | null
+) {
+  let held = 0;
+  for (const hold of holds) {
+    if (exceptToken && hold.token === exceptToken) continue;
+    for (const resource of hold.resources) {
+      if (resource.type !== type || resource.resource_id) continue;
+      if (overlaps(startMs, endMs, resource)) held += resource.count;
+    }
+  }
+  return held;
+}
+
+/** Held intervals for one specific resource (party areas), as [startMs, endMs] pairs. */
+export function heldResourceIntervals(holds: ResourceHold[], resourceId: string, exceptToken?: string | null) {
+  const intervals: Array<[number, number]> = [];
+  for (const hold of holds) {
+    if (exceptToken && hold.token === exceptToken) continue;
+    for (const resource of hold.resources) {
+      if (resource.resource_id !== resourceId) continue;
+      intervals.push([new Date(resource.start_ts).getTime(), new Date(resource.end_ts).getTime()]);
+    }
+  }
+  return intervals;
+}
+
+/** Active resources of a type at a location with no live reservation, downtime or resource blackout over the window. */
+export async function countFreeResources(location: Location, type: string, startTsUtc: string, endTsUtc: string) {
+  const sb = supabaseServer();
+  const { data: resources, error: resErr } = await scopeToLocation(
+    sb.from("resources").select("id").eq("type", type).or("active.eq.true,active.is.null"),
+    location
+  );
+  if (resErr) throw new Error(resErr.message || `Failed to load ${type} resources`);
+
+  const resourceIds = (resources || []).map((r) => String(r.id)).filter(Boolean);
+  if (!resourceIds.length) return 0;
+  const busy = await reservedResourceIds(location, resourceIds, startTsUtc, endTsUtc);
+  return resourceIds.filter((id) => !busy.has(id)).length;
+}
+
+async function reservedResourceIds(location: Location, resourceIds: string[], startTsUtc: string, endTsUtc: string) {
+  const sb = supabaseServer();
+  const { data: reservations, error } = await sb
+    .from("resource_reservations")
+    .select("resource_id, bookings(status)")
+    .in("resource_id", resourceIds)
+    .gt("end_ts", startTsUtc)
+    .lt("start_ts", endTsUtc);
+  if (error) throw new Error(error.message || "Failed to check availability");
+
+  const downtime = await loadOutOfServiceIntervals(location, resourceIds, startTsUtc, endTsUtc);
+  return new Set([
+    ...(reservations || [])
+      .filter((row) => {
+        const booking = row?.bookings as { status?: string } | null;
+        return booking != null && booking.status !== "CANCELLED";
+      })
+      .map((row) => String(row.resource_id)),
+    ...downtime.map((interval) => interval.resourceId),
+  ]);
+}
+
+/** Unexpired checkout holds for a location and day. */
+export async function loadSlotHolds(location: Location, dateKey: string): Promise<ResourceHold[]> {
+  const sb = supabaseServer();
+  const { data, error } = await scopeToLocation(
+    sb
+      .from("slot_holds")
+      .select("token,resources")
+      .eq("date_key", dateKey)
+      .eq("status", "HELD")
+      .gt("expires_at", new Date().toISOString()),
+    location
+  );
+
+  if (error) {
+    console.error("slot holds query error:", error);
+    return [];
+  }
+  return (data || []).map((row) => ({
+    token: String(row.token || ""),
+    resources: Array.isArray(row.resources) ? (row.resources as HeldResource[]) : [],
+  }));
+}
+
+/** The first need that no longer fits once bookings and the given holds are taken out, or null. */
+export async function firstUnavailableResource(location: Location, resources: HeldResource[], holds: ResourceHold[]) {
+  for (const resource of resources) {
+    const startMs = new Date(resource.start_ts).getTime();
+    const endMs = new Date(resource.end_ts).getTime();
+    if (resource.resource_id) {
+      const reserved = await reservedResourceIds(location, [resource.resource_id], resource.start_ts, resource.end_ts);
+      const held = heldResourceIntervals(holds, resource.resource_id).some(([s, e]) => startMs < e && endMs > s);
+      if (reserved.size || held) return resource;
+      continue;
+    }
+    const free = await countFreeResources(location, resource.type, resource.start_ts, resource.end_ts);
+    if (free - heldResourceCount(holds, resource.type, startMs, endMs) < resource.count) return resource;
+  }
+  return null;
+}
+
+/**
+ * Confirms every need still fits once bookings and other holds are taken out, then records the hold. The check
+ * and insert run together under the reservation lock (create_slot_hold in docs/booking-reservations.sql), so two
+ * customers can't both hold the last lane. Returns null when something was taken in the meantime.
+ */
+export async function createSlotHold(params: {
+  location: Location;
+  dateKey: string;
+  resources: HeldResource[];
+  checkoutExpiresAt: Date;
+  otherHolds?: ResourceHold[]; // e.g. waitlist claims that also take capacity
+  waitlistToken?: string | null; // the customer's own waitlist claim, which doesn't block them
+}) {
+  const { location, dateKey, resources } = params;
+  // Blackout rules only live in the app, so they're checked here before the locked insert.
+  const holds = [...(await loadSlotHolds(location, dateKey)), ...(params.otherHolds ?? [])];
+  if (await firstUnavailableResource(location, resources, holds)) return null;
+
+  const sb = supabaseServer();
+  const token = crypto.randomUUID();
+  const expiresAt = new Date(params.checkoutExpiresAt.getTime() + HOLD_GRACE_MS);
+  const { data: held, error } = await sb.rpc("create_slot_hold", {
+    p_location_id: location.id,
+    p_include_unassigned: location.isDefault,
+    p_date_key: dateKey,
+    p_token: token,
+    p_resources: resources,
+    p_expires_at: expiresAt.toISOString(),
+    p_waitlist_token: params.waitlistToken || null,
+  });
+  if (error) throw new Error(error.message || "Failed to hold the time slot");
+  return held ? token : null;
+}
+
+export async function attachSlotHoldSession(token: string, checkoutSessionId: string) {
+  const sb = supabaseServer();
+  const { error } = await sb.from("slot_holds").update({ checkout_session_id: checkoutSessionId }).eq("token", token);
+  if (error) {
+    console.error("slot hold session update error:", error);
+  }
+}
+
+/** Marks a hold as turned into its booking; the booking's own reservations take over. */
+export async function convertSlotHold(token: string | null | undefined, bookingId: string) {
+  const value = String(token || "").trim();
+  if (!value || !bookingId) return;
+  const sb = supabaseServer();
+  const { error } = await sb
+    .from("slot_holds")
+    .update({ status: "CONVERTED", booking_id: bookingId, released_at: new Date().toISOString() })
+    .eq("token", value)
+    .in("status", ["HELD", "EXPIRED", "RELEASED"]);
+  if (error) {
+    console.error("slot hold convert error:", error);
+  }
+}
+
+/** Frees a hold before it expires (checkout cancelled or its session expired); returns the released row. */
+export async function releaseSlotHold(match: { token?: string | null; checkoutSessionId?: string | null }) {
+  const sb = supabaseServer();
+  let query = sb
+    .from("slot_holds")
+    .update({ status: "RELEASED", released_at: new Date().toISOString() })
+    .eq("status", "HELD");
+  if (match.token) query = query.eq("token", match.token);
+  else if (match.checkoutSessionId) query = query.eq("checkout_session_id", match.checkoutSessionId);
+  else return null;
+
+  const { data, error } = await query.select("location_id,date_key,checkout_session_id").maybeSingle();
+  if (error) {
+    console.error("slot hold release error:", error);
+    return null;
+  }
+  return data;
+}
+
+/** Marks lapsed holds EXPIRED; returns the location/day pairs that got capacity back. */
+export async function sweepExpiredSlotHolds() {
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("slot_holds")
+    .update({ status: "EXPIRED", released_at: new Date().toISOString() })
+    .eq("status", "HELD")
+    .lte("expires_at", new Date().toISOString())
+    .select("location_id,date_key");
+  if (error) {
+    console.error("slot hold sweep error:", error);
+    return [];
+  }
+
+  const locations = await loadLocations();
+  const days = new Map<string, { location: Location; dateKey: string }>();
+  for (const row of data || []) {
+    const location = findLocation(locations, row.location_id) ?? defaultLocation(locations);
+    days.set(`${location.slug}:${row.date_key}`, { location, dateKey: String(row.date_key) });
+  }
+  return Array.from(days.values());
+}
@@ -0,0 +1,154 @@
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getStaffUserFromCookies } from "@/lib/staffAuth";
+import { scopeToLocation } from "@/lib/server/locations";
+import type { Location } from "@/lib/locations";
+import {
+  DEFAULT_WEEKLY_HOURS,
+  resolveStoreHoursForDateKey,
+  type ResolvedStoreHours,
+  type StoreHoursConfig,
+  type StoreHoursOverrideRow,
+  type StoreHoursSeasonRow,
+  type StoreHoursWeeklyRow,
+} from "@/lib/storeHours";
+
+export const STORE_HOURS_WEEKLY_COLUMNS = "weekday,open_min,close_min,closed";
+export const STORE_HOURS_SEASON_COLUMNS = "id,name,start_date_key,end_date_key,weekdays,open_min,close_min,closed";
+export const STORE_HOURS_OVERRIDE_COLUMNS = "id,date_key,open_min,close_min,closed,reason";
+
+/** Hours for one location; omit the location for the single-venue (unscoped) tables. */
+export async function loadStoreHoursConfig(location?: Location | null): Promise<StoreHoursConfig> {
+  const sb = supabaseServer();
+
+  const [weeklyRes, seasonsRes, overridesRes] = await Promise.all([
+    scopeToLocation(sb.from("store_hours_weekly").select(STORE_HOURS_WEEKLY_COLUMNS), location).order("weekday", {
+      ascending: true,
+    }),
+    scopeToLocation(sb.from("store_hours_seasons").select(STORE_HOURS_SEASON_COLUMNS), location).order(
+      "start_date_key",
+      { ascending: true }
+    ),
+    scopeToLocation(sb.from("store_hours_overrides").select(STORE_HOURS_OVERRIDE_COLUMNS), location).order(
+      "date_key",
+      { ascending: true }
+    ),
+  ]);
+
+  // Missing tables / query failures fall back to the built-in template so booking keeps working.
+  if (weeklyRes.error) console.error("store hours weekly query error:", weeklyRes.error);
+  if (seasonsRes.error) console.error("store hours seasons query error:", seasonsRes.error);
+  if (overridesRes.error) console.error("store hours overrides query error:", overridesRes.error);
+
+  const weekly = (weeklyRes.data || []) as StoreHoursWeeklyRow[];
+
+  return {
+    weekly: weekly.length ? weekly : DEFAULT_WEEKLY_HOURS,
+    seasons: (seasonsRes.data || []) as StoreHoursSeasonRow[],
+    overrides: (overridesRes.data || []) as StoreHoursOverrideRow[],
+  };
+}
+
+export async function getStoreHoursForDateKey(dateKey: string, location?: Location | null) {
+  const config = await loadStoreHoursConfig(location);
+  return resolveStoreHoursForDateKey(config, dateKey);
+}
+
+export type StoreHoursOverrideRequest = {
+  hoursOverride?: unknown;
+  hoursOverrideApprovedBy?: unknown;
+  hoursOverrideReason?: unknown;
+};
+
+export type StoreHoursOverride = {
+  staffId: string;
+  approvedBy: string | null;
+  reason: string | null;
+};
+
+/**
+ * Staff can book outside store hours (or on a closed day) only by sending
+ * `hoursOverride: true` from an authenticated staff session. Anything else is
+ * treated as a normal request and held to the store's open window.
+ */
+export async function getStoreHoursOverride(
+  body: StoreHoursOverrideRequest | null | undefined
+): Promise<StoreHoursOverride | null> {
+  if (!body?.hoursOverride) return null;
+  const staff = await getStaffUserFromCookies().catch(() => null);
+  if (!staff) return null;
+  const approvedBy = String(body?.hoursOverrideApprovedBy || "").trim().toLowerCase();
+  const reason = String(body?.hoursOverrideReason || "").trim();
+  return {
+    staffId: staff.staff_id,
+    approvedBy: approvedBy || null,
+    reason: reason || null,
+  };
+}
+
+export type StoreHoursCheck = {
+  hours: ResolvedStoreHours;
+  error: string | null;
+  overridden: boolean;
+};
+
+export async function checkStoreHoursWindow(input: {
+  dateKey: string;
+  startMin: number;
+  durationMinutes: number;
+  override?: StoreHoursOverride | null;
+  location?: Location | null;
+}): Promise<StoreHoursCheck> {
+  const { dateKey, startMin, durationMinutes, override, location } = input;
+  const hours = await getStoreHoursForDateKey(dateKey, location);
+  const endMin = startMin + durationMinutes;
+
+  if (!Number.isFinite(startMin) || !Number.isFinite(endMin) || startMin < 0 || endMin > 24 * 60) {
+    return { hours, error: "Invalid time window", overridden: false };
+  }
+
+  let error: string | null = null;
+  if (hours.closed) {
+    error = "Closed on selected day";
+  } else if (startMin < hours.openMin || endMin > hours.closeMin) {
+    error = "Selected time is outside business hours";
+  }
+
+  if (error && override) {
+    return { hours, error: null, overridden: true };
+  }
+  return { hours, error, overridden: false };
+}
+
+export async function logStoreHoursOverride(payload: {
+  override: StoreHoursOverride;
+  source: string;
+  dateKey: string;
+  startMin: number;
+  durationMinutes: number;
+  hours: ResolvedStoreHours;
+  bookingId?: string | null;
+  details?: Record<string, unknown>;
+}) {
+  const { override, source, dateKey, startMin, durationMinutes, hours, bookingId, details } = payload;
+  const sb = supabaseServer();
+  const { error } = await sb.from("store_hours_override_logs").insert({
+    booking_id: bookingId || null,
+    staff_id: override.staffId,
+    approved_by: override.approvedBy,
+    reason: override.reason,
+    source,
+    date_key: dateKey,
+    start_min: startMin,
+    end_min: startMin + durationMinutes,
+    details: {
+      closed: hours.closed,
+      open_min: hours.openMin,
+      close_min: hours.closeMin,
+      hours_source: hours.source,
+      ...(details ?? {}),
+    },
+  });
+  if (error) {
+    console.error("store hours override log error:", error);
+  }
+}
@@ -3,11 +3,25 @@ import Stripe from "stripe";
 let stripe: Stripe | null = null;
 let stripeTerminal: Stripe | null = null;
 
+// STRIPE_API_BASE (e.g. http://localhost:12111) sends API calls to a local stripe-mock instead of Stripe.
+function stripeConfig(): Stripe.StripeConfig {
+  const config: Stripe.StripeConfig = { apiVersion: "2025-12-15.clover" };
+  const base = process.env.STRIPE_API_BASE;
+  if (!base) return config;
+  const url = new URL(base);
+  return {
+    ...config,
+    host: url.hostname,
+    port: url.port || (url.protocol === "http:" ? 80 : 443),
+    protocol: url.protocol === "http:" ? "http" : "https",
+  };
+}
+
 export function getStripe() {
   if (stripe) return stripe;
   const key = process.env.STRIPE_SECRET_KEY;
   if (!key) throw new Error("Missing STRIPE_SECRET_KEY");
-  stripe = new Stripe(key, { apiVersion: "2025-12-15.clover" });
+  stripe = new Stripe(key, stripeConfig());
   return stripe;
 }
 
@@ -15,6 +29,6 @@ export function getStripeTerminal() {
   if (stripeTerminal) return stripeTerminal;
   const key = process.env.STRIPE_TERMINAL_SECRET_KEY || process.env.STRIPE_SECRET_KEY;
   if (!key) throw new Error("Missing STRIPE_TERMINAL_SECRET_KEY");
-  stripeTerminal = new Stripe(key, { apiVersion: "2025-12-15.clover" });
+  stripeTerminal = new Stripe(key, stripeConfig());
   return stripeTerminal;
 }
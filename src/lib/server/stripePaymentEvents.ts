@@ -0,0 +1,271 @@
+// src/lib/server/stripePaymentEvents.ts
+// Applies Stripe refunds, disputes and failed payments to whatever holds the payment intent: bookings (deposit or
+// balance charge), POS sales and event requests (docs/stripe-payment-events.sql). Called from /api/stripe/webhook,
+// which dedupes events through webhook_events, so each handler only sets state and can safely run twice.
+
+import type Stripe from "stripe";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { getStripe } from "@/lib/server/stripe";
+import { cancelBookingAndRelease } from "@/lib/server/bookingChanges";
+import { sendOwnerNotification } from "@/lib/server/mailer";
+
+type PaymentMetadata = Record<string, string | null | undefined> | null | undefined;
+
+type BookingTarget = {
+  id: string;
+  status: string | null;
+  paid: boolean | null;
+  start_ts: string | null;
+  location_id: string | null;
+  customer_name: string | null;
+  payment_intent_id: string | null;
+  balance_due_cents?: number | null;
+};
+type PosSaleTarget = { id: string; total_cents: number | null; status: string | null };
+type EventRequestTarget = { id: string; customer_name: string | null; payment_status: string | null };
+
+type PaymentTargets = { bookings: BookingTarget[]; posSales: PosSaleTarget[]; eventRequests: EventRequestTarget[] };
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function formatCents(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function intentIdOf(value: string | { id: string } | null | undefined) {
+  if (!value) return "";
+  return typeof value === "string" ? value : value.id;
+}
+
+/** Rows paid by this intent; metadata ids catch balance payments, which leave payment_intent_id on the deposit. */
+async function findPaymentTargets(paymentIntentId: string, metadata?: PaymentMetadata): Promise<PaymentTargets> {
+  const sb = supabaseServer();
+  const bookingId = String(metadata?.booking_id || "");
+  const eventRequestId = String(metadata?.event_request_id || "");
+
+  const bookingFilters = [`payment_intent_id.eq.${paymentIntentId}`, `balance_payment_intent_id.eq.${paymentIntentId}`];
+  if (UUID_RE.test(bookingId)) bookingFilters.push(`id.eq.${bookingId}`);
+  let bookings: BookingTarget[] | null = null;
+  let bookingErr: { message?: string } | null = null;
+  ({ data: bookings, error: bookingErr } = await sb
+    .from("bookings")
+    .select("id,status,paid,start_ts,location_id,customer_name,payment_intent_id,balance_due_cents")
+    .or(bookingFilters.join(",")));
+  // Before docs/deposits.sql there are no balance payments to match.
+  if (bookingErr && String(bookingErr.message || "").includes("balance_")) {
+    ({ data: bookings, error: bookingErr } = await sb
+      .from("bookings")
+      .select("id,status,paid,start_ts,location_id,customer_name,payment_intent_id")
+      .or(bookingFilters.filter((filter) => !filter.startsWith("balance_")).join(",")));
+  }
+  if (bookingErr) console.error("stripe event bookings lookup error:", bookingErr);
+
+  const { data: posSales, error: posErr } = await sb
+    .from("pos_sales")
+    .select("id,total_cents,status")
+    .eq("payment_intent_id", paymentIntentId);
+  if (posErr) console.error("stripe event pos sales lookup error:", posErr);
+
+  const eventFilters = [`payment_intent_id.eq.${paymentIntentId}`];
+  if (UUID_RE.test(eventRequestId)) eventFilters.push(`id.eq.${eventRequestId}`);
+  const { data: eventRequests, error: eventErr } = await sb
+    .from("event_requests")
+    .select("id,customer_name,payment_status")
+    .or(eventFilters.join(","));
+  if (eventErr) console.error("stripe event requests lookup error:", eventErr);
+
+  return {
+    bookings: (bookings ?? []) as BookingTarget[],
+    posSales: (posSales ?? []) as PosSaleTarget[],
+    eventRequests: (eventRequests ?? []) as EventRequestTarget[],
+  };
+}
+
+function hasTargets(targets: PaymentTargets) {
+  return targets.bookings.length + targets.posSales.length + targets.eventRequests.length > 0;
+}
+
+function targetLines(targets: PaymentTargets) {
+  return [
+    ...targets.bookings.map((row) => `Booking: ${row.id} (${row.customer_name || "—"})`),
+    ...targets.posSales.map((row) => `POS Sale: ${row.id} (${formatCents(Number(row.total_cents || 0))})`),
+    ...targets.eventRequests.map((row) => `Event Request: ${row.id} (${row.customer_name || "—"})`),
+  ];
+}
+
+async function notifyOwner(subject: string, lines: Array<string | null>) {
+  try {
+    await sendOwnerNotification({ subject, lines: lines.filter(Boolean) as string[] });
+  } catch (err) {
+    console.error("stripe event owner notify error:", err);
+  }
+}
+
+/** Refunds on the charge, newest first; falls back to the ones embedded in the event payload. */
+async function listChargeRefunds(charge: Stripe.Charge) {
+  try {
+    const list = await getStripe().refunds.list({ charge: charge.id, limit: 100 });
+    return list.data;
+  } catch (err) {
+    console.error("stripe refunds list error:", err);
+    return charge.refunds?.data ?? [];
+  }
+}
+
+/** Logs refunds made outside the app (the Stripe dashboard) against the booking, once per Stripe refund. */
+async function logOutsideRefunds(bookingId: string, refunds: Stripe.Refund[]) {
+  if (!refunds.length) return;
+  const sb = supabaseServer();
+  const { data: logged, error } = await sb
+    .from("booking_refunds")
+    .select("stripe_refund_id")
+    .eq("booking_id", bookingId)
+    .in("stripe_refund_id", refunds.map((refund) => refund.id));
+  if (error) {
+    console.error("stripe refund ledger lookup error:", error);
+    return;
+  }
+  const loggedIds = new Set((logged ?? []).map((row) => String(row.stripe_refund_id)));
+  const rows = refunds
+    .filter((refund) => !loggedIds.has(refund.id))
+    .map((refund) => ({
+      booking_id: bookingId,
+      method: "CARD",
+      amount_cents: refund.amount,
+      stripe_refund_id: refund.id,
+      reason: refund.reason ? `Refunded in Stripe (${refund.reason})` : "Refunded in Stripe",
+      created_by: "stripe",
+    }));
+  if (!rows.length) return;
+  const { error: insertErr } = await sb.from("booking_refunds").insert(rows);
+  if (insertErr) console.error("stripe refund ledger insert error:", insertErr);
+}
+
+/**
+ * charge.refunded: logs refunds made in the Stripe dashboard and updates refund state. A fully refunded charge
+ * cancels a booking that hasn't started yet and frees its resources (the app's own refunds already did); a past
+ * booking keeps its status and only records the refund.
+ */
+export async function applyChargeRefunded(charge: Stripe.Charge) {
+  const paymentIntentId = intentIdOf(charge.payment_intent);
+  if (!paymentIntentId) return;
+  const targets = await findPaymentTargets(paymentIntentId, charge.metadata);
+  if (!hasTargets(targets)) return;
+
+  const sb = supabaseServer();
+  const fullyRefunded = charge.refunded || charge.amount_refunded >= charge.amount;
+  const refunds = (await listChargeRefunds(charge)).filter(
+    (refund) => refund.status !== "failed" && refund.status !== "canceled"
+  );
+  // refundBooking tags its refunds with requested_by; anything else was issued in Stripe.
+  const outsideRefunds = refunds.filter((refund) => !refund.metadata?.requested_by);
+
+  let cancelledBookings = 0;
+  for (const booking of targets.bookings) {
+    await logOutsideRefunds(booking.id, outsideRefunds);
+    if (!fullyRefunded || booking.payment_intent_id !== paymentIntentId || booking.status === "CANCELLED") continue;
+    const { error } = await sb
+      .from("bookings")
+      .update({ paid: false, ...(Number(booking.balance_due_cents || 0) > 0 ? { balance_due_cents: 0 } : {}) })
+      .eq("id", booking.id);
+    if (error) console.error("stripe refund booking update error:", error);
+    const upcoming = booking.start_ts ? new Date(booking.start_ts).getTime() > Date.now() : false;
+    if (upcoming) {
+      await cancelBookingAndRelease(booking);
+      cancelledBookings += 1;
+    }
+  }
+
+  for (const sale of targets.posSales) {
+    const { error } = await sb
+      .from("pos_sales")
+      .update({ refunded_cents: charge.amount_refunded, status: fullyRefunded ? "REFUNDED" : "PARTIALLY_REFUNDED" })
+      .eq("id", sale.id);
+    if (error) console.error("stripe refund pos sale update error:", error);
+  }
+
+  for (const request of targets.eventRequests) {
+    const { error } = await sb
+      .from("event_requests")
+      .update({ refunded_cents: charge.amount_refunded, ...(fullyRefunded ? { payment_status: "REFUNDED" } : {}) })
+      .eq("id", request.id);
+    if (error) console.error("stripe refund event request update error:", error);
+  }
+
+  const latest = refunds[0];
+  if (latest && !latest.metadata?.requested_by) {
+    await notifyOwner("Axe Quacks: Refund Issued in Stripe", [
+      `Amount: ${formatCents(latest.amount)}`,
+      `Refunded so far: ${formatCents(charge.amount_refunded)} of ${formatCents(charge.amount)}`,
+      latest.reason ? `Reason: ${latest.reason}` : null,
+      `Payment Intent: ${paymentIntentId}`,
+      ...targetLines(targets),
+      cancelledBookings ? "Booking cancelled." : null,
+    ]);
+  }
+}
+
+/** charge.dispute.*: keeps Stripe's dispute status on the paid rows; a lost dispute leaves the booking unpaid. */
+export async function applyChargeDispute(dispute: Stripe.Dispute, eventType: string) {
+  const paymentIntentId = intentIdOf(dispute.payment_intent);
+  if (!paymentIntentId) return;
+  const targets = await findPaymentTargets(paymentIntentId);
+
+  const sb = supabaseServer();
+  const fields = { dispute_id: dispute.id, dispute_status: dispute.status };
+  for (const booking of targets.bookings) {
+    const { error } = await sb
+      .from("bookings")
+      .update({ ...fields, ...(dispute.status === "lost" ? { paid: false } : {}) })
+      .eq("id", booking.id);
+    if (error) console.error("stripe dispute booking update error:", error);
+  }
+  for (const sale of targets.posSales) {
+    const { error } = await sb.from("pos_sales").update(fields).eq("id", sale.id);
+    if (error) console.error("stripe dispute pos sale update error:", error);
+  }
+  for (const request of targets.eventRequests) {
+    const { error } = await sb.from("event_requests").update(fields).eq("id", request.id);
+    if (error) console.error("stripe dispute event request update error:", error);
+  }
+
+  // charge.dispute.updated fires as evidence changes hands; the owner only needs the opening and the outcome.
+  if (eventType !== "charge.dispute.created" && eventType !== "charge.dispute.closed") return;
+  const closed = eventType === "charge.dispute.closed";
+  await notifyOwner(closed ? `Axe Quacks: Dispute ${dispute.status.toUpperCase()}` : "Axe Quacks: Payment Disputed", [
+    `Amount: ${formatCents(dispute.amount)}`,
+    `Reason: ${dispute.reason}`,
+    `Status: ${dispute.status}`,
+    !closed && dispute.evidence_details?.due_by
+      ? `Evidence Due: ${new Date(dispute.evidence_details.due_by * 1000).toISOString().slice(0, 10)}`
+      : null,
+    `Payment Intent: ${paymentIntentId}`,
+    ...(hasTargets(targets) ? targetLines(targets) : ["No matching booking, POS sale or event request."]),
+  ]);
+}
+
+/** payment_intent.payment_failed: records why a balance, terminal or event payment failed. */
+export async function applyPaymentFailed(intent: Stripe.PaymentIntent) {
+  const targets = await findPaymentTargets(intent.id, intent.metadata);
+  if (!targets.bookings.length && !targets.eventRequests.length) return;
+
+  const sb = supabaseServer();
+  const message = intent.last_payment_error?.message || "Payment failed";
+  for (const booking of targets.bookings) {
+    if (booking.paid === true) continue;
+    const { error } = await sb.from("bookings").update({ payment_error: message }).eq("id", booking.id);
+    if (error) console.error("stripe payment failed booking update error:", error);
+  }
+  for (const request of targets.eventRequests) {
+    if (request.payment_status === "PAID") continue;
+    const { error } = await sb.from("event_requests").update({ payment_error: message }).eq("id", request.id);
+    if (error) console.error("stripe payment failed event request update error:", error);
+  }
+
+  await notifyOwner("Axe Quacks: Payment Failed", [
+    `Amount: ${formatCents(intent.amount)}`,
+    `Error: ${message}`,
+    `Payment Intent: ${intent.id}`,
+    ...targetLines({ ...targets, posSales: [] }),
+  ]);
+}
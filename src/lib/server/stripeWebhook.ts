@@ -0,0 +1,700 @@
+// src/lib/server/stripeWebhook.ts
+// Stripe webhook handling, shared by /api/stripe/webhook and the staff replay tool (/staff/webhooks). Every event
+// goes through processStripeEvent, which dedupes on webhook_events and queues failures in webhook_failures with
+// the event payload so they can be replayed later (docs/webhook-replay.sql).
+
+import type Stripe from "stripe";
+import { PARTY_AREA_OPTIONS, canonicalPartyAreaName, normalizePartyAreaName, type PartyAreaName } from "@/lib/bookingLogic";
+import { getStripe } from "@/lib/server/stripe";
+import { createBookingWithResources, ensureCustomerAndLinkBooking, type ActivityUI, type ComboOrder } from "@/lib/server/bookingService";
+import { releaseSlotHold } from "@/lib/server/slotHolds";
+import { offerWaitlistForDay } from "@/lib/server/waitlist";
+import { sendBookingConfirmationEmail, sendOwnerBookingConfirmationEmail } from "@/lib/server/mailer";
+import { supabaseServer } from "@/lib/supabaseServer";
+import { ensureWaiverForBooking } from "@/lib/server/waiverService";
+import { recordPromoRedemption } from "@/lib/server/promoRedemptions";
+import { redeemGiftCertificate } from "@/lib/server/giftCertificates";
+import { depositSplitFromMetadata, eventRequestPaymentFields, recordBookingPayment } from "@/lib/server/deposits";
+import { ledgerTipCents } from "@/lib/server/bookingPayments";
+import { applyChargeDispute, applyChargeRefunded, applyPaymentFailed } from "@/lib/server/stripePaymentEvents";
+
+const PARTY_AREA_BOOKABLE_SET: Set<string> = new Set(
+  PARTY_AREA_OPTIONS.filter((option) => option.visible).map((option) => normalizePartyAreaName(option.name))
+);
+
+function parsePartyAreas(value?: string | null) {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+    const unique = new Set<string>();
+    const names: PartyAreaName[] = [];
+    for (const item of parsed) {
+      const canonical = canonicalPartyAreaName(String(item || ""));
+      if (!canonical) continue;
+      const normalized = normalizePartyAreaName(canonical);
+      if (!normalized || unique.has(normalized) || !PARTY_AREA_BOOKABLE_SET.has(normalized)) continue;
+      unique.add(normalized);
+      names.push(canonical);
+    }
+    return names;
+  } catch {
+    return [];
+  }
+}
+
+function parseBookingMetadata(metadata: Record<string, string | null | undefined>) {
+  const activity = metadata.activity as ActivityUI | undefined;
+  const partySize = Number(metadata.party_size);
+  const dateKey = String(metadata.date_key || "");
+  const startMin = Number(metadata.start_min);
+  const durationMinutes = Number(metadata.duration_minutes);
+  const partyAreas = parsePartyAreas(metadata.party_areas);
+  const partyAreaMinutes = Number(metadata.party_area_minutes);
+  const customerName = String(metadata.customer_name || "");
+  const customerEmail = String(metadata.customer_email || "");
+  const customerPhone = String(metadata.customer_phone || "");
+  const comboOrder = (metadata.combo_order as ComboOrder | undefined) ?? "DUCKPIN_FIRST";
+  const totalBefore = Number(metadata.total_before_discount);
+  const discountAmount = Number(metadata.discount_amount);
+  const priceModifierLabel = String(metadata.price_modifier_label || "");
+  const priceModifierCents = Number(metadata.price_modifier_cents);
+  const locationId = String(metadata.location_id || "");
+  const waitlistToken = String(metadata.waitlist_token || "");
+  const holdToken = String(metadata.hold_token || "");
+  const totalCentsOverride =
+    Number.isFinite(totalBefore) && Number.isFinite(discountAmount) ? Math.max(0, totalBefore - discountAmount) : undefined;
+
+  if (!activity || !dateKey || !Number.isFinite(partySize) || !Number.isFinite(startMin) || !Number.isFinite(durationMinutes)) {
+    return null;
+  }
+
+  return {
+    activity,
+    partySize,
+    dateKey,
+    startMin,
+    durationMinutes,
+    partyAreas,
+    partyAreaMinutes: Number.isFinite(partyAreaMinutes) ? partyAreaMinutes : undefined,
+    customerName,
+    customerEmail,
+    customerPhone,
+    comboOrder,
+    totalCentsOverride,
+    priceModifierLabel: priceModifierLabel || undefined,
+    priceModifierCents: Number.isFinite(priceModifierCents) ? priceModifierCents : undefined,
+    locationId: locationId || undefined,
+    waitlistToken: waitlistToken || undefined,
+    holdToken: holdToken || undefined,
+    ...depositSplitFromMetadata(metadata),
+  };
+}
+
+function intentIdOf(value: string | { id: string } | null | undefined) {
+  if (!value) return "";
+  return typeof value === "string" ? value : value.id;
+}
+
+// Older API versions still embed the intent's charges; Terminal reports the tip on the charge.
+type IntentWithCharges = Stripe.PaymentIntent & {
+  charges?: { data?: Array<{ amount_details?: { tip?: number | null } | null }> };
+};
+
+/** A booking already made for this payment: the one in its metadata, or one whose ledger or row names the intent. */
+async function findBookingForIntent(intent: Stripe.PaymentIntent) {
+  if (intent.metadata?.booking_id) return String(intent.metadata.booking_id);
+  const sb = supabaseServer();
+  const { data: booking, error } = await sb
+    .from("bookings")
+    .select("id")
+    .eq("payment_intent_id", intent.id)
+    .limit(1)
+    .maybeSingle();
+  if (error) console.error("payment intent booking lookup error:", error);
+  if (booking?.id) return String(booking.id);
+  const { data: payment, error: paymentErr } = await sb
+    .from("booking_payments")
+    .select("booking_id")
+    .eq("payment_intent_id", intent.id)
+    .limit(1)
+    .maybeSingle();
+  if (paymentErr) console.error("payment intent ledger lookup error:", paymentErr);
+  return payment?.booking_id ? String(payment.booking_id) : null;
+}
+
+/** Whether any of the intent's money has gone back, e.g. the automatic refund when its booking failed. */
+function intentRefunded(intent: Stripe.PaymentIntent) {
+  const charge = intent.latest_charge;
+  return !!charge && typeof charge !== "string" && (charge.refunded || charge.amount_refunded > 0);
+}
+
+async function finalizeBookingFromPaymentIntent(paymentIntentId: string) {
+  const stripe = getStripe();
+  const intent = await stripe.paymentIntents.retrieve(paymentIntentId, { expand: ["latest_charge"] });
+  const meta = intent.metadata || {};
+  const bookingInput = parseBookingMetadata(meta);
+
+  if (!bookingInput) {
+    throw new Error("Missing booking metadata on payment intent");
+  }
+
+  // Retries and replays reuse the booking an earlier run made; a refunded payment never gets a new one.
+  const existingBookingId = await findBookingForIntent(intent);
+  if (existingBookingId) {
+    return { bookingId: existingBookingId, bookingInput, intent };
+  }
+  if (intentRefunded(intent)) {
+    throw new Error(`Payment ${paymentIntentId} was refunded; no booking was created for it`);
+  }
+
+  try {
+    const result = await createBookingWithResources(bookingInput);
+    await stripe.paymentIntents.update(paymentIntentId, {
+      metadata: {
+        ...intent.metadata,
+        booking_id: result.bookingId,
+        booking_finalized: "true",
+      },
+    });
+    return { bookingId: result.bookingId as string, bookingInput, intent, customerId: result.customerId };
+  } catch (err) {
+    await stripe.refunds.create({ payment_intent: paymentIntentId });
+    throw err;
+  }
+}
+
+async function recordBookingTip(
+  sb: ReturnType<typeof supabaseServer>,
+  bookingId: string,
+  intent: IntentWithCharges
+) {
+  const tipCents = Number(intent.charges?.data?.[0]?.amount_details?.tip || 0);
+  if (!tipCents || tipCents <= 0) return;
+
+  const { data: booking, error } = await sb
+    .from("bookings")
+    .select("assigned_staff_id,tip_cents")
+    .eq("id", bookingId)
+    .single();
+  if (error || !booking) {
+    console.error("booking tip lookup error:", error);
+    return;
+  }
+
+  const assignedStaffId = String(booking.assigned_staff_id || "");
+  const metadataStaffId = String(intent.metadata?.staff_id || "");
+  const tipStaffId = assignedStaffId || metadataStaffId || null;
+
+  // A split bill has a tip per card; the ledger has them all.
+  const totalTipCents = Math.max(tipCents, await ledgerTipCents(bookingId));
+  const { error: tipErr } = await sb
+    .from("bookings")
+    .update({ tip_cents: totalTipCents, tip_staff_id: tipStaffId })
+    .eq("id", bookingId);
+  if (tipErr) {
+    console.error("booking tip update error:", tipErr);
+  }
+}
+
+/** Applies one Stripe event; throws on failure so the caller can queue it in webhook_failures. */
+async function handleStripeEvent(event: Stripe.Event) {
+  const stripe = getStripe();
+  const sb = supabaseServer();
+  if (event.type === "checkout.session.completed") {
+    const session = event.data.object;
+    const paymentIntentId = intentIdOf(session.payment_intent);
+    if (session.metadata?.event_request_id) {
+      await sb
+        .from("event_requests")
+        .update(eventRequestPaymentFields(session.metadata))
+        .eq("id", session.metadata.event_request_id);
+    }
+    if (paymentIntentId) {
+      const result = await finalizeBookingFromPaymentIntent(paymentIntentId);
+      await recordBookingPayment(result.bookingId, result.intent);
+      let waiverUrl = "";
+      try {
+        const customerId =
+          result.customerId || (await ensureCustomerAndLinkBooking(result.bookingInput, result.bookingId));
+        const waiverResult = await ensureWaiverForBooking({ bookingId: result.bookingId, customerId, bookingInput: result.bookingInput });
+        waiverUrl = waiverResult.waiverUrl || "";
+      } catch (waiverErr) {
+        console.error("waiver request error:", waiverErr);
+      }
+      if (result.intent.metadata?.confirmation_email_sent !== "true") {
+        try {
+          const emailResult = await sendBookingConfirmationEmail({
+            bookingId: result.bookingId,
+            activity: result.bookingInput.activity,
+            partySize: result.bookingInput.partySize,
+            dateKey: result.bookingInput.dateKey,
+            startMin: result.bookingInput.startMin,
+            durationMinutes: result.bookingInput.durationMinutes,
+            customerName: result.bookingInput.customerName,
+            customerEmail: result.bookingInput.customerEmail,
+            customerPhone: result.bookingInput.customerPhone,
+            comboOrder: result.bookingInput.comboOrder,
+            priceModifierLabel: result.bookingInput.priceModifierLabel,
+            priceModifierCents: result.bookingInput.priceModifierCents,
+            waiverUrl,
+            totalCents: result.bookingInput.totalCentsOverride,
+            depositCents: result.bookingInput.depositCents,
+            balanceDueCents: result.bookingInput.balanceDueCents,
+            paid: true,
+          });
+          if (emailResult.sent) {
+            await stripe.paymentIntents.update(paymentIntentId, {
+              metadata: {
+                ...result.intent.metadata,
+                booking_id: result.bookingId,
+                booking_finalized: "true",
+                confirmation_email_sent: "true",
+              },
+            });
+          }
+        } catch (emailErr) {
+          console.error("confirmation email error:", emailErr);
+        }
+      }
+      if (result.intent.metadata?.owner_notified !== "true") {
+        try {
+          await sendOwnerBookingConfirmationEmail({ ...result.bookingInput, bookingId: result.bookingId, paid: true });
+          await stripe.paymentIntents.update(paymentIntentId, {
+            metadata: { ...result.intent.metadata, owner_notified: "true" },
+          });
+        } catch (notifyErr) {
+          console.error("owner notify error:", notifyErr);
+        }
+      }
+      const customerId =
+        result.customerId || (await ensureCustomerAndLinkBooking(result.bookingInput, result.bookingId));
+      if (result.intent.metadata?.promo_code) {
+        await recordPromoRedemption({
+          promoCode: String(result.intent.metadata.promo_code || ""),
+          customerEmail: result.bookingInput.customerEmail,
+          customerId,
+          bookingId: result.bookingId,
+        });
+      }
+      if (result.intent.metadata?.gift_code && result.intent.metadata?.gift_amount) {
+        await redeemGiftCertificate({
+          code: String(result.intent.metadata.gift_code || ""),
+          customerEmail: result.bookingInput.customerEmail,
+          amountCents: Number(result.intent.metadata.gift_amount || 0),
+          bookingId: result.bookingId,
+        });
+      }
+      try {
+        await ensureWaiverForBooking({ bookingId: result.bookingId, customerId, bookingInput: result.bookingInput });
+      } catch (waiverErr) {
+        console.error("waiver request error:", waiverErr);
+      }
+    }
+  }
+
+  if (event.type === "checkout.session.expired") {
+    const session = event.data.object;
+    const released = await releaseSlotHold({ checkoutSessionId: session.id });
+    if (released) {
+      await offerWaitlistForDay(released.location_id ?? null, String(released.date_key));
+    }
+  }
+
+  if (event.type === "charge.refunded") {
+    await applyChargeRefunded(event.data.object);
+  }
+
+  if (
+    event.type === "charge.dispute.created" ||
+    event.type === "charge.dispute.updated" ||
+    event.type === "charge.dispute.closed"
+  ) {
+    await applyChargeDispute(event.data.object, event.type);
+  }
+
+  if (event.type === "payment_intent.payment_failed") {
+    await applyPaymentFailed(event.data.object);
+  }
+
+  if (event.type === "payment_intent.succeeded") {
+    const intent = event.data.object;
+    if (intent.metadata?.event_request_id) {
+      await sb
+        .from("event_requests")
+        .update(eventRequestPaymentFields(intent.metadata))
+        .eq("id", intent.metadata.event_request_id);
+    }
+    if (intent.metadata?.booking_finalized === "true") {
+      return;
+    }
+    const paymentIntentId = intent.id;
+    const result = await finalizeBookingFromPaymentIntent(paymentIntentId);
+    await recordBookingPayment(result.bookingId, result.intent);
+    await recordBookingTip(sb, result.bookingId, result.intent);
+    let waiverUrl = "";
+    try {
+      const customerId =
+        result.customerId || (await ensureCustomerAndLinkBooking(result.bookingInput, result.bookingId));
+      if (result.intent.metadata?.promo_code) {
+        await recordPromoRedemption({
+          promoCode: String(result.intent.metadata.promo_code || ""),
+          customerEmail: result.bookingInput.customerEmail,
+          customerId,
+          bookingId: result.bookingId,
+        });
+      }
+      if (result.intent.metadata?.gift_code && result.intent.metadata?.gift_amount) {
+        await redeemGiftCertificate({
+          code: String(result.intent.metadata.gift_code || ""),
+          customerEmail: result.bookingInput.customerEmail,
+          amountCents: Number(result.intent.metadata.gift_amount || 0),
+          bookingId: result.bookingId,
+        });
+      }
+      const waiverResult = await ensureWaiverForBooking({ bookingId: result.bookingId, customerId, bookingInput: result.bookingInput });
+      waiverUrl = waiverResult.waiverUrl || "";
+    } catch (waiverErr) {
+      console.error("waiver request error:", waiverErr);
+    }
+    if (result.intent.metadata?.confirmation_email_sent !== "true") {
+      try {
+        const emailResult = await sendBookingConfirmationEmail({
+          bookingId: result.bookingId,
+          activity: result.bookingInput.activity,
+          partySize: result.bookingInput.partySize,
+          dateKey: result.bookingInput.dateKey,
+          startMin: result.bookingInput.startMin,
+          durationMinutes: result.bookingInput.durationMinutes,
+          customerName: result.bookingInput.customerName,
+          customerEmail: result.bookingInput.customerEmail,
+          customerPhone: result.bookingInput.customerPhone,
+          comboOrder: result.bookingInput.comboOrder,
+          priceModifierLabel: result.bookingInput.priceModifierLabel,
+          priceModifierCents: result.bookingInput.priceModifierCents,
+          waiverUrl,
+          totalCents: result.bookingInput.totalCentsOverride,
+          depositCents: result.bookingInput.depositCents,
+          balanceDueCents: result.bookingInput.balanceDueCents,
+          paid: true,
+        });
+        if (emailResult.sent) {
+          await stripe.paymentIntents.update(paymentIntentId, {
+            metadata: {
+              ...result.intent.metadata,
+              booking_id: result.bookingId,
+              booking_finalized: "true",
+              confirmation_email_sent: "true",
+            },
+          });
+        }
+      } catch (emailErr) {
+        console.error("confirmation email error:", emailErr);
+      }
+    }
+    if (result.intent.metadata?.owner_notified !== "true") {
+      try {
+        await sendOwnerBookingConfirmationEmail({ ...result.bookingInput, bookingId: result.bookingId, paid: true });
+        await stripe.paymentIntents.update(paymentIntentId, {
+          metadata: { ...result.intent.metadata, owner_notified: "true" },
+        });
+      } catch (notifyErr) {
+        console.error("owner notify error:", notifyErr);
+      }
+    }
+  }
+}
+
+export type StripeEventResult = { ok: true; skipped?: boolean } | { ok: false; error: string };
+
+/**
+ * Runs an event through handleStripeEvent once: webhook_events skips events already processed, and a failure is
+ * queued in webhook_failures for the staff replay tool. A replay (replayedBy = staff id) updates the queued failure
+ * instead of adding another; success resolves any failures still open for the event, including Stripe's retries.
+ */
+export async function processStripeEvent(
+  event: Stripe.Event,
+  opts: { replayedBy?: string } = {}
+): Promise<StripeEventResult> {
+  const sb = supabaseServer();
+  try {
+    const { data: existing, error: existingErr } = await sb
+      .from("webhook_events")
+      .select("status")
+      .eq("provider", "stripe")
+      .eq("event_id", event.id)
+      .single();
+
+    if (!existingErr && existing?.status === "processed") {
+      await resolveOpenFailures(event.id, opts.replayedBy ? "REPLAYED" : "RETRIED", opts.replayedBy ?? null);
+      return { ok: true, skipped: true };
+    }
+
+    await sb.from("webhook_events").upsert(
+      {
+        provider: "stripe",
+        event_id: event.id,
+        status: "processing",
+        received_at: new Date().toISOString(),
+      },
+      { onConflict: "provider,event_id" }
+    );
+  } catch (err) {
+    console.error("webhook idempotency error:", err);
+  }
+
+  try {
+    await handleStripeEvent(event);
+
+    try {
+      await sb
+        .from("webhook_events")
+        .update({ status: "processed", processed_at: new Date().toISOString(), error_message: null })
+        .eq("provider", "stripe")
+        .eq("event_id", event.id);
+    } catch (err) {
+      console.error("webhook status update error:", err);
+    }
+    await resolveOpenFailures(event.id, opts.replayedBy ? "REPLAYED" : "RETRIED", opts.replayedBy ?? null);
+    return { ok: true };
+  } catch (err) {
+    console.error("stripe webhook processing error:", err);
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    try {
+      await sb
+        .from("webhook_events")
+        .update({ status: "error", error_message: errorMessage })
+        .eq("provider", "stripe")
+        .eq("event_id", event.id);
+      if (opts.replayedBy) {
+        await recordReplayFailure(event, errorMessage);
+      } else {
+        await sb.from("webhook_failures").insert({
+          provider: "stripe",
+          event_id: event.id,
+          payload_json: event,
+          error_message: errorMessage,
+        });
+      }
+    } catch (queueErr) {
+      console.error("webhook failure queue error:", queueErr);
+    }
+    return { ok: false, error: errorMessage || "Webhook processing failed" };
+  }
+}
+
+// Events still "processing" after this long were cut off mid-run (timeout, deploy) and never queued as failures.
+const STUCK_AFTER_MINUTES = 10;
+
+export type WebhookFailureResolution = "REPLAYED" | "RETRIED" | "DISMISSED";
+
+export type WebhookIssue = {
+  eventId: string;
+  eventType: string | null;
+  state: "FAILED" | "STUCK" | "RESOLVED";
+  errorMessage: string | null;
+  attempts: number;
+  firstFailedAt: string | null;
+  lastFailedAt: string | null;
+  receivedAt: string | null;
+  replayCount: number;
+  lastReplayedAt: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  resolution: string | null;
+};
+
+const FAILURE_COLUMNS =
+  "id,event_id,payload_json,error_message,created_at,resolved_at,resolved_by,resolution,replay_count,last_replayed_at";
+
+async function resolveOpenFailures(eventId: string, resolution: WebhookFailureResolution, staffId: string | null) {
+  const sb = supabaseServer();
+  // Before docs/webhook-replay.sql there is nothing to resolve; the update just fails.
+  await sb
+    .from("webhook_failures")
+    .update({ resolved_at: new Date().toISOString(), resolved_by: staffId, resolution })
+    .eq("provider", "stripe")
+    .eq("event_id", eventId)
+    .is("resolved_at", null);
+}
+
+async function recordReplayFailure(event: Stripe.Event, errorMessage: string) {
+  const sb = supabaseServer();
+  const { data: open } = await sb
+    .from("webhook_failures")
+    .select("id,replay_count")
+    .eq("provider", "stripe")
+    .eq("event_id", event.id)
+    .is("resolved_at", null)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const fields = { error_message: errorMessage, last_replayed_at: new Date().toISOString() };
+  if (open) {
+    const { error } = await sb
+      .from("webhook_failures")
+      .update({ ...fields, replay_count: Number(open.replay_count || 0) + 1 })
+      .eq("id", open.id);
+    if (error) console.error("webhook replay failure update error:", error);
+    return;
+  }
+  const { error } = await sb
+    .from("webhook_failures")
+    .insert({ provider: "stripe", event_id: event.id, payload_json: event, ...fields, replay_count: 1 });
+  if (error) console.error("webhook replay failure insert error:", error);
+}
+
+/**
+ * Failed events (one entry per event, however many times Stripe retried it) and events stuck in "processing",
+ * newest first. includeResolved adds failures that were replayed, retried or dismissed.
+ */
+export async function loadWebhookIssues(opts: { includeResolved?: boolean } = {}): Promise<WebhookIssue[]> {
+  const sb = supabaseServer();
+  let failureQuery = sb.from("webhook_failures").select(FAILURE_COLUMNS).eq("provider", "stripe");
+  if (!opts.includeResolved) failureQuery = failureQuery.is("resolved_at", null);
+  const { data: failures, error: failureErr } = await failureQuery
+    .order("created_at", { ascending: false })
+    .limit(500);
+  if (failureErr) {
+    console.error("webhook failures fetch error:", failureErr);
+    throw new Error("Failed to load webhook failures");
+  }
+
+  const byEvent = new Map<string, WebhookIssue>();
+  for (const row of failures ?? []) {
+    const eventId = String(row.event_id || "");
+    if (!eventId) continue;
+    const existing = byEvent.get(eventId);
+    if (existing) {
+      existing.attempts += 1;
+      existing.firstFailedAt = row.created_at;
+      existing.replayCount += Number(row.replay_count || 0);
+      if (!row.resolved_at) existing.state = "FAILED";
+      continue;
+    }
+    const payload = (row.payload_json ?? null) as { type?: string } | null;
+    byEvent.set(eventId, {
+      eventId,
+      eventType: payload?.type ?? null,
+      state: row.resolved_at ? "RESOLVED" : "FAILED",
+      errorMessage: row.error_message,
+      attempts: 1,
+      firstFailedAt: row.created_at,
+      lastFailedAt: row.created_at,
+      receivedAt: null,
+      replayCount: Number(row.replay_count || 0),
+      lastReplayedAt: row.last_replayed_at,
+      resolvedAt: row.resolved_at,
+      resolvedBy: row.resolved_by,
+      resolution: row.resolution,
+    });
+  }
+
+  const stuckBefore = new Date(Date.now() - STUCK_AFTER_MINUTES * 60 * 1000).toISOString();
+  const { data: stuck, error: stuckErr } = await sb
+    .from("webhook_events")
+    .select("event_id,received_at,error_message")
+    .eq("provider", "stripe")
+    .eq("status", "processing")
+    .lt("received_at", stuckBefore)
+    .order("received_at", { ascending: false })
+    .limit(200);
+  if (stuckErr) console.error("stuck webhook events fetch error:", stuckErr);
+  for (const row of stuck ?? []) {
+    const existing = byEvent.get(row.event_id);
+    if (existing) {
+      existing.receivedAt = row.received_at;
+      continue;
+    }
+    byEvent.set(row.event_id, {
+      eventId: row.event_id,
+      eventType: null,
+      state: "STUCK",
+      errorMessage: row.error_message,
+      attempts: 0,
+      firstFailedAt: null,
+      lastFailedAt: null,
+      receivedAt: row.received_at,
+      replayCount: 0,
+      lastReplayedAt: null,
+      resolvedAt: null,
+      resolvedBy: null,
+      resolution: null,
+    });
+  }
+
+  const sortKey = (issue: WebhookIssue) => issue.lastFailedAt || issue.receivedAt || "";
+  return Array.from(byEvent.values()).sort((a, b) => sortKey(b).localeCompare(sortKey(a)));
+}
+
+/**
+ * Why a booking payment event must not be replayed: its payment was refunded (finalizing refunds the payment when
+ * the booking can't be made) and no booking exists for it. Events whose payment already has a booking replay
+ * safely, since finalizing reuses that booking.
+ */
+async function replayRefusal(event: Stripe.Event) {
+  let paymentIntentId = "";
+  if (event.type === "checkout.session.completed") paymentIntentId = intentIdOf(event.data.object.payment_intent);
+  if (event.type === "payment_intent.succeeded") paymentIntentId = event.data.object.id;
+  if (!paymentIntentId) return null;
+
+  const intent = await getStripe().paymentIntents.retrieve(paymentIntentId, { expand: ["latest_charge"] });
+  if (await findBookingForIntent(intent)) return null;
+  if (intentRefunded(intent)) {
+    return `Payment ${paymentIntentId} was refunded and has no booking. Dismiss this event instead of replaying it.`;
+  }
+  return null;
+}
+
+/** Replays a failed or stuck event through processStripeEvent, from the queued payload or else from Stripe. */
+export async function replayStripeEvent(eventId: string, staffId: string): Promise<StripeEventResult> {
+  const sb = supabaseServer();
+  const { data: failure, error } = await sb
+    .from("webhook_failures")
+    .select("payload_json")
+    .eq("provider", "stripe")
+    .eq("event_id", eventId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) console.error("webhook replay payload lookup error:", error);
+
+  let event = (failure?.payload_json ?? null) as Stripe.Event | null;
+  if (!event) {
+    try {
+      event = await getStripe().events.retrieve(eventId);
+    } catch (err) {
+      return { ok: false, error: err instanceof Error ? err.message : "Event not found in Stripe" };
+    }
+  }
+  try {
+    const refusal = await replayRefusal(event);
+    if (refusal) return { ok: false, error: refusal };
+  } catch (err) {
+    console.error("webhook replay payment check error:", err);
+    return { ok: false, error: "Could not check the event's payment in Stripe; try again" };
+  }
+  return processStripeEvent(event, { replayedBy: staffId });
+}
+
+/** Closes failed or stuck events without replaying them (handled by hand, or safe to ignore). */
+export async function dismissWebhookEvents(eventIds: string[], staffId: string) {
+  const sb = supabaseServer();
+  const { error } = await sb
+    .from("webhook_failures")
+    .update({ resolved_at: new Date().toISOString(), resolved_by: staffId, resolution: "DISMISSED" })
+    .eq("provider", "stripe")
+    .in("event_id", eventIds)
+    .is("resolved_at", null);
+  if (error) {
+    console.error("webhook dismiss error:", error);
+    throw new Error("Failed to dismiss webhook failures");
+  }
+  const { error: stuckErr } = await sb
+    .from("webhook_events")
+    .update({ status: "dismissed" })
+    .eq("provider", "stripe")
+    .in("event_id", eventIds)
+    .eq("status", "processing");
+  if (stuckErr) console.error("webhook dismiss stuck events error:", stuckErr);
+}
@@ -0,0 +1,314 @@
+// src/lib/server/waitlist.ts
+// Waitlist for fully booked slots (see docs/waitlist.sql). Freed resources are offered to
+// waiting entries in join order; an offered entry holds what it needs until its claim expires.
+
+import { supabaseServer } from "@/lib/supabaseServer";
+import { comboFirstFromOrder, comboSegmentWindows, neededResources } from "@/lib/bookingLogic";
+import { COMBO_ACTIVITY_KEY, findActivityByKey, type ActivityDefinition } from "@/lib/activities";
+import type { RateCardConfig } from "@/lib/rateCard";
+import { defaultLocation, findLocation, locationBookingPath, type Location } from "@/lib/locations";
+import { loadActivityDefinitions } from "@/lib/server/activities";
+import { loadActiveRateCard } from "@/lib/server/rateCards";
+import { loadLocations, scopeToLocation } from "@/lib/server/locations";
+import { sendWaitlistOfferEmail } from "@/lib/server/mailer";
+import {
+  countFreeResources,
+  heldResourceCount,
+  loadSlotHolds,
+  type HeldResource,
+  type ResourceHold,
+} from "@/lib/server/slotHolds";
+import { dateKeyInTimeZone, nowInTimeZone, zonedTimeToUtcISOString } from "@/lib/dateTime";
+
+export type WaitlistStatus = "WAITING" | "NOTIFIED" | "CLAIMED" | "EXPIRED" | "CANCELLED";
+
+export type WaitlistEntryRow = {
+  id: string;
+  location_id: string | null;
+  activity: string;
+  party_size: number;
+  date_key: string;
+  start_min: number;
+  duration_minutes: number;
+  combo_axe_minutes: number | null;
+  combo_duckpin_minutes: number | null;
+  combo_order: string | null;
+  customer_name: string;
+  customer_email: string;
+  customer_phone: string | null;
+  status: WaitlistStatus;
+  claim_token: string | null;
+  notified_at: string | null;
+  claim_expires_at: string | null;
+  held_resources: HeldResource[] | null;
+  booking_id: string | null;
+  created_at: string;
+};
+
+export const WAITLIST_COLUMNS =
+  "id,location_id,activity,party_size,date_key,start_min,duration_minutes,combo_axe_minutes,combo_duckpin_minutes,combo_order,customer_name,customer_email,customer_phone,status,claim_token,notified_at,claim_expires_at,held_resources,booking_id,created_at";
+
+/** Minutes an offered customer has to book before the slot moves to the next entry. */
+export function waitlistClaimMinutes() {
+  const minutes = Math.round(Number(process.env.WAITLIST_CLAIM_MINUTES));
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : 30;
+}
+
+function buildClaimUrl(token: string, location: Location) {
+  const base = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  const url = new URL(locationBookingPath(location), base);
+  url.searchParams.set("waitlist", token);
+  return url.toString();
+}
+
+/** What an entry needs per resource type: each combo segment for its own type, else the whole slot. */
+function entryResourceWindows(
+  entry: WaitlistEntryRow,
+  definition: ActivityDefinition,
+  rateCard: RateCardConfig,
+  timeZone: string
+): HeldResource[] {
+  const needs = neededResources(definition.name, entry.party_size, rateCard, definition);
+  const segments =
+    definition.key === COMBO_ACTIVITY_KEY
+      ? comboSegmentWindows(entry.start_min, comboFirstFromOrder(entry.combo_order), {
+          axeMinutes: entry.combo_axe_minutes,
+          duckpinMinutes: entry.combo_duckpin_minutes,
+          transitionMinutes: definition.transitionMinutes,
+        })
+      : null;
+
+  return Object.entries(needs)
+    .filter(([, count]) => count > 0)
+    .map(([type, count]) => {
+      const segment = type === "AXE" ? segments?.axe : type === "DUCKPIN" ? segments?.duckpin : null;
+      const startMin = segment?.startMin ?? entry.start_min;
+      const endMin = segment?.endMin ?? entry.start_min + entry.duration_minutes;
+      return {
+        type,
+        count,
+        start_ts: zonedTimeToUtcISOString(entry.date_key, startMin, timeZone),
+        end_ts: zonedTimeToUtcISOString(entry.date_key, endMin, timeZone),
+      };
+    });
+}
+
+/** Unexpired claim holds for a location and day. */
+export async function loadWaitlistHolds(location: Location, dateKey: string): Promise<ResourceHold[]> {
+  const sb = supabaseServer();
+  const { data, error } = await scopeToLocation(
+    sb
+      .from("waitlist_entries")
+      .select("claim_token,held_resources")
+      .eq("date_key", dateKey)
+      .eq("status", "NOTIFIED")
+      .gt("claim_expires_at", new Date().toISOString()),
+    location
+  );
+
+  if (error) {
+    console.error("waitlist holds query error:", error);
+    return [];
+  }
+  return (data || []).map((row) => ({
+    token: String(row.claim_token || ""),
+    resources: Array.isArray(row.held_resources) ? (row.held_resources as HeldResource[]) : [],
+  }));
+}
+
+/** Marks lapsed claims EXPIRED and releases their holds; returns how many lapsed. */
+async function expireWaitlistClaims(location: Location, dateKey: string) {
+  const sb = supabaseServer();
+  const { data, error } = await scopeToLocation(
+    sb
+      .from("waitlist_entries")
+      .update({ status: "EXPIRED", held_resources: [] })
+      .eq("date_key", dateKey)
+      .eq("status", "NOTIFIED")
+      .lte("claim_expires_at", new Date().toISOString()),
+    location
+  ).select("id");
+
+  if (error) {
+    console.error("waitlist expire error:", error);
+    return 0;
+  }
+  return (data || []).length;
+}
+
+/**
+ * Offers freed capacity on a day to waiting entries in join order. Each entry that now fits is
+ * notified and holds its resources, so later entries are checked against what is left.
+ */
+export async function offerWaitlistSlots(location: Location, dateKey: string) {
+  const sb = supabaseServer();
+  await expireWaitlistClaims(location, dateKey);
+
+  const { data, error } = await scopeToLocation(
+    sb.from("waitlist_entries").select(WAITLIST_COLUMNS).eq("date_key", dateKey).eq("status", "WAITING"),
+    location
+  ).order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("waitlist query error:", error);
+    return 0;
+  }
+  const waiting = (data || []) as WaitlistEntryRow[];
+  if (!waiting.length) return 0;
+
+  const definitions = await loadActivityDefinitions();
+  const rateCard = await loadActiveRateCard(location);
+  // Customers mid-checkout keep what they hold; offers only get what is left.
+  const holds = [...(await loadWaitlistHolds(location, dateKey)), ...(await loadSlotHolds(location, dateKey))];
+  const now = nowInTimeZone(location.timezone);
+  let offered = 0;
+
+  for (const entry of waiting) {
+    if (entry.date_key < now.dateKey || (entry.date_key === now.dateKey && entry.start_min <= now.minutes)) {
+      await sb.from("waitlist_entries").update({ status: "EXPIRED" }).eq("id", entry.id).eq("status", "WAITING");
+      continue;
+    }
+    const definition = findActivityByKey(definitions, entry.activity);
+    if (!definition?.active) continue;
+
+    const resources = entryResourceWindows(entry, definition, rateCard.config, location.timezone);
+    let fits = true;
+    for (const resource of resources) {
+      const free = await countFreeResources(location, resource.type, resource.start_ts, resource.end_ts);
+      const held = heldResourceCount(
+        holds,
+        resource.type,
+        new Date(resource.start_ts).getTime(),
+        new Date(resource.end_ts).getTime()
+      );
+      if (free - held < resource.count) {
+        fits = false;
+        break;
+      }
+    }
+    if (!fits) continue;
+
+    const token = crypto.randomUUID();
+    const notifiedAt = new Date();
+    const expiresAt = new Date(notifiedAt.getTime() + waitlistClaimMinutes() * 60 * 1000);
+    const { data: updated, error: updateErr } = await sb
+      .from("waitlist_entries")
+      .update({
+        status: "NOTIFIED",
+        claim_token: token,
+        notified_at: notifiedAt.toISOString(),
+        claim_expires_at: expiresAt.toISOString(),
+        held_resources: resources,
+      })
+      .eq("id", entry.id)
+      .eq("status", "WAITING")
+      .select("id")
+      .maybeSingle();
+    if (updateErr || !updated) {
+      if (updateErr) console.error("waitlist offer error:", updateErr);
+      continue;
+    }
+    holds.push({ token, resources });
+    offered += 1;
+
+    try {
+      await sendWaitlistOfferEmail({
+        customerName: entry.customer_name,
+        customerEmail: entry.customer_email,
+        activity: definition.name,
+        partySize: entry.party_size,
+        dateKey: entry.date_key,
+        startMin: entry.start_min,
+        durationMinutes: entry.duration_minutes,
+        claimUrl: buildClaimUrl(token, location),
+        expiresAt: expiresAt.toISOString(),
+        timeZone: location.timezone,
+      });
+    } catch (emailErr) {
+      console.error("waitlist offer email error:", emailErr);
+    }
+  }
+
+  return offered;
+}
+
+/** Re-offers a day once earlier claims have lapsed; cheap when nothing expired. */
+export async function sweepWaitlistClaims(location: Location, dateKey: string) {
+  try {
+    const expired = await expireWaitlistClaims(location, dateKey);
+    if (expired > 0) await offerWaitlistSlots(location, dateKey);
+  } catch (err) {
+    console.error("waitlist sweep error:", err);
+  }
+}
+
+/** Offers a location's day once capacity comes back (cancellation, refund, lapsed hold); never throws. */
+export async function offerWaitlistForDay(locationId: string | null, dateKey: string) {
+  try {
+    const locations = await loadLocations();
+    const location = findLocation(locations, locationId) ?? defaultLocation(locations);
+    await offerWaitlistSlots(location, dateKey);
+  } catch (err) {
+    console.error("waitlist release error:", err);
+  }
+}
+
+/** Offers the day of a released booking (cancelled, refunded or deleted); never throws. */
+export async function offerWaitlistForReleasedSlot(startTs: string | null | undefined, locationId: string | null) {
+  if (!startTs) return;
+  try {
+    const locations = await loadLocations();
+    const location = findLocation(locations, locationId) ?? defaultLocation(locations);
+    await offerWaitlistSlots(location, dateKeyInTimeZone(startTs, location.timezone));
+  } catch (err) {
+    console.error("waitlist release error:", err);
+  }
+}
+
+export async function offerWaitlistForReleasedBooking(bookingId: string) {
+  const sb = supabaseServer();
+  const { data: booking, error } = await sb
+    .from("bookings")
+    .select("start_ts,location_id")
+    .eq("id", bookingId)
+    .maybeSingle();
+  if (error) {
+    console.error("waitlist booking lookup error:", error);
+    return;
+  }
+  await offerWaitlistForReleasedSlot(booking?.start_ts, booking?.location_id ?? null);
+}
+
+/** Offered entry for a claim link, or null once it has been used, expired or withdrawn. */
+export async function findWaitlistClaim(token: string) {
+  const value = String(token || "").trim();
+  if (!value) return null;
+  const sb = supabaseServer();
+  const { data, error } = await sb
+    .from("waitlist_entries")
+    .select(WAITLIST_COLUMNS)
+    .eq("claim_token", value)
+    .eq("status", "NOTIFIED")
+    .gt("claim_expires_at", new Date().toISOString())
+    .maybeSingle();
+  if (error) {
+    console.error("waitlist claim lookup error:", error);
+    return null;
+  }
+  return (data as WaitlistEntryRow | null) ?? null;
+}
+
+/** Closes an offered entry once its booking exists and drops the hold. */
+export async function claimWaitlistEntry(token: string | null | undefined, bookingId: string) {
+  const value = String(token || "").trim();
+  if (!value || !bookingId) return;
+  const sb = supabaseServer();
+  const { error } = await sb
+    .from("waitlist_entries")
+    .update({ status: "CLAIMED", booking_id: bookingId, held_resources: [] })
+    .eq("claim_token", value)
+    .eq("status", "NOTIFIED");
+  if (error) {
+    console.error("waitlist claim error:", error);
+  }
+}
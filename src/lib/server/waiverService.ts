@@ -1,5 +1,7 @@
 import { createClient } from "@supabase/supabase-js";
 import type { ActivityUI, BookingInput } from "@/lib/server/bookingService";
+import { findActivityByName } from "@/lib/activities";
+import { loadActivityDefinitions } from "@/lib/server/activities";
 
 function supabaseAdmin() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -12,7 +14,9 @@ function supabaseAdmin() {
   return createClient(url, serviceKey, { auth: { persistSession: false } });
 }
 
-function needsWaiver(activity: ActivityUI | string) {
+async function needsWaiver(activity: ActivityUI) {
+  const definition = findActivityByName(await loadActivityDefinitions(), activity);
+  if (definition) return definition.requiresWaiver;
   const normalized = String(activity || "")
     .trim()
     .toUpperCase();
@@ -22,7 +26,7 @@ function needsWaiver(activity: ActivityUI | string) {
   return false;
 }
 
-function buildWaiverUrl(token: string, bookingId?: string) {
+export function buildWaiverUrl(token: string, bookingId?: string) {
   const base = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
   const url = new URL("/waiver", base);
   url.searchParams.set("token", token);
@@ -38,7 +42,7 @@ export async function ensureWaiverForBooking(params: {
   bookingInput: BookingInput;
 }) {
   const sb = supabaseAdmin();
-  let requiresWaiver = needsWaiver(params.bookingInput.activity);
+  let requiresWaiver = await needsWaiver(params.bookingInput.activity);
 
   if (!requiresWaiver && params.bookingId) {
     const { data: resources, error: resourcesErr } = await sb
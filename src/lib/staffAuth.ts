@@ -3,14 +3,17 @@ import { redirect } from "next/navigation";
 import { createClient } from "@supabase/supabase-js";
 import { supabaseServer } from "@/lib/supabaseServer";
 
-type StaffUser = {
+export type StaffUser = {
   id: string;
   staff_id: string;
   role: "staff" | "admin";
   full_name: string | null;
   active: boolean;
+  location_id: string | null; // home location; null = every location
 };
 
+const STAFF_USER_COLUMNS = "id,staff_id,role,full_name,active,location_id";
+
 function anonClient() {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -26,7 +29,7 @@ export async function getStaffUserFromCookies(): Promise<StaffUser | null> {
     const admin = supabaseServer();
     const { data: staff } = await admin
       .from("staff_users")
-      .select("id,staff_id,role,full_name,active")
+      .select(STAFF_USER_COLUMNS)
       .eq("active", true)
       .eq("role", "admin")
       .limit(1)
@@ -35,7 +38,7 @@ export async function getStaffUserFromCookies(): Promise<StaffUser | null> {
 
     const { data: fallbackStaff } = await admin
       .from("staff_users")
-      .select("id,staff_id,role,full_name,active")
+      .select(STAFF_USER_COLUMNS)
       .eq("active", true)
       .limit(1)
       .single();
@@ -53,14 +56,14 @@ export async function getStaffUserFromCookies(): Promise<StaffUser | null> {
   const admin = supabaseServer();
   let { data: staff } = await admin
     .from("staff_users")
-    .select("id,staff_id,role,full_name,active")
+    .select(STAFF_USER_COLUMNS)
     .eq("auth_user_id", authData.user.id)
     .single();
 
   if (!staff && authData.user.email) {
     const fallback = await admin
       .from("staff_users")
-      .select("id,staff_id,role,full_name,active")
+      .select(STAFF_USER_COLUMNS)
       .eq("auth_email", authData.user.email)
       .single();
     staff = fallback.data ?? null;
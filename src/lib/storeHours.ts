@@ -0,0 +1,154 @@
+// src/lib/storeHours.ts
+// Shared (client + server) store-hours resolution. Rows are loaded server-side
+// by src/lib/server/storeHours.ts and exposed through /api/store-hours.
+
+import { formatMinutesRange, weekdayForDateKey } from "@/lib/dateTime";
+
+export type StoreHoursWeeklyRow = {
+  weekday: number; // JS getDay(): Sun=0 ... Sat=6
+  open_min: number;
+  close_min: number;
+  closed: boolean;
+};
+
+export type StoreHoursSeasonRow = {
+  id: string;
+  name: string;
+  start_date_key: string;
+  end_date_key: string;
+  weekdays: number[] | null; // null = every day in range
+  open_min: number | null;
+  close_min: number | null;
+  closed: boolean;
+};
+
+export type StoreHoursOverrideRow = {
+  id: string;
+  date_key: string;
+  open_min: number | null;
+  close_min: number | null;
+  closed: boolean;
+  reason: string | null;
+};
+
+export type StoreHoursConfig = {
+  weekly: StoreHoursWeeklyRow[];
+  seasons: StoreHoursSeasonRow[];
+  overrides: StoreHoursOverrideRow[];
+};
+
+export type StoreHoursSource = "OVERRIDE" | "SEASON" | "WEEKLY" | "DEFAULT";
+
+export type ResolvedStoreHours = {
+  dateKey: string;
+  weekday: number;
+  closed: boolean;
+  // For closed days this is the window staff may book into with an admin override.
+  openMin: number;
+  closeMin: number;
+  source: StoreHoursSource;
+  label: string | null;
+};
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/**
+ * Fallback template used until store_hours_weekly has rows.
+ * Mon–Wed closed (12pm–8pm admin override window)
+ * Thu: 4pm–10pm
+ * Fri: 4pm–11pm
+ * Sat: 12pm–11pm
+ * Sun: 12pm–9pm
+ */
+export const DEFAULT_WEEKLY_HOURS: StoreHoursWeeklyRow[] = [
+  { weekday: 0, open_min: 12 * 60, close_min: 21 * 60, closed: false },
+  { weekday: 1, open_min: 12 * 60, close_min: 20 * 60, closed: true },
+  { weekday: 2, open_min: 12 * 60, close_min: 20 * 60, closed: true },
+  { weekday: 3, open_min: 12 * 60, close_min: 20 * 60, closed: true },
+  { weekday: 4, open_min: 16 * 60, close_min: 22 * 60, closed: false },
+  { weekday: 5, open_min: 16 * 60, close_min: 23 * 60, closed: false },
+  { weekday: 6, open_min: 12 * 60, close_min: 23 * 60, closed: false },
+];
+
+export const EMPTY_STORE_HOURS_CONFIG: StoreHoursConfig = {
+  weekly: DEFAULT_WEEKLY_HOURS,
+  seasons: [],
+  overrides: [],
+};
+
+function validWindow(openMin: number | null | undefined, closeMin: number | null | undefined) {
+  const open = Number(openMin);
+  const close = Number(closeMin);
+  if (openMin == null || closeMin == null) return null;
+  if (!Number.isFinite(open) || !Number.isFinite(close)) return null;
+  if (open < 0 || close > 24 * 60 || close <= open) return null;
+  return { openMin: open, closeMin: close };
+}
+
+function weeklyFor(config: StoreHoursConfig, weekday: number) {
+  return (
+    config.weekly.find((row) => Number(row.weekday) === weekday) ??
+    DEFAULT_WEEKLY_HOURS.find((row) => row.weekday === weekday)!
+  );
+}
+
+export function resolveStoreHoursForDateKey(config: StoreHoursConfig, dateKey: string): ResolvedStoreHours {
+  const weekday = weekdayForDateKey(dateKey);
+  const weekly = weeklyFor(config, weekday);
+  const weeklyWindow = validWindow(weekly.open_min, weekly.close_min) ?? { openMin: 12 * 60, closeMin: 20 * 60 };
+  const isDefault = !config.weekly.some((row) => Number(row.weekday) === weekday);
+
+  const override = config.overrides.find((row) => row.date_key === dateKey);
+  if (override) {
+    const window = validWindow(override.open_min, override.close_min) ?? weeklyWindow;
+    return {
+      dateKey,
+      weekday,
+      closed: !!override.closed,
+      ...window,
+      source: "OVERRIDE",
+      label: override.reason || null,
+    };
+  }
+
+  // Latest-starting season wins when ranges overlap.
+  const season = config.seasons
+    .filter((row) => row.start_date_key <= dateKey && row.end_date_key >= dateKey)
+    .filter((row) => !row.weekdays?.length || row.weekdays.map(Number).includes(weekday))
+    .sort((a, b) => b.start_date_key.localeCompare(a.start_date_key))[0];
+  if (season) {
+    const window = validWindow(season.open_min, season.close_min) ?? weeklyWindow;
+    return {
+      dateKey,
+      weekday,
+      closed: !!season.closed,
+      ...window,
+      source: "SEASON",
+      label: season.name || null,
+    };
+  }
+
+  return {
+    dateKey,
+    weekday,
+    closed: !!weekly.closed,
+    ...weeklyWindow,
+    source: isDefault ? "DEFAULT" : "WEEKLY",
+    label: null,
+  };
+}
+
+export function describeStoreHours(hours: ResolvedStoreHours) {
+  const dayName = WEEKDAY_NAMES[hours.weekday] ?? "";
+  const range = formatMinutesRange(hours.openMin, hours.closeMin);
+  const suffix = hours.label ? ` (${hours.label})` : "";
+  if (hours.closed) return `${dayName}: Closed${suffix} — ${range} (admin override)`;
+  return `${dayName}: ${range}${suffix}`;
+}
+
+export function closedWeekdaySummary(config: StoreHoursConfig) {
+  const short = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  const closed = [0, 1, 2, 3, 4, 5, 6].filter((weekday) => weeklyFor(config, weekday).closed);
+  if (!closed.length) return "None";
+  return closed.map((weekday) => short[weekday]).join(", ");
+}